@@ -16,6 +16,7 @@ import TalentPool from './pages/TalentPool';
 import TalentProfile from './pages/TalentProfile';
 import OpportunityView from './pages/OpportunityView';
 import AdminDashboard from './pages/AdminDashboard';
+import Invitations from './pages/Invitations';
 import UserDashboard from './pages/UserDashboard';
 import NotFound from "./pages/NotFound";
 import WalkthroughProvider from "./components/WalkthroughProvider";
@@ -56,60 +57,67 @@ const App = () => (
               } />
               <Route path="/add-talent" element={
                 <ProtectedRoute>
-                  <RoleBasedRoute allowedRoles={['admin', 'manager']}>
+                  <RoleBasedRoute allowedRoles={['admin', 'org_admin', 'manager']}>
                     <AddTalent />
                   </RoleBasedRoute>
                 </ProtectedRoute>
               } />
               <Route path="/create-opportunity" element={
                 <ProtectedRoute>
-                  <RoleBasedRoute allowedRoles={['admin', 'manager']}>
+                  <RoleBasedRoute allowedRoles={['admin', 'org_admin', 'manager']}>
                     <CreateOpportunity />
                   </RoleBasedRoute>
                 </ProtectedRoute>
               } />
               <Route path="/ai-matching" element={
                 <ProtectedRoute>
-                  <RoleBasedRoute allowedRoles={['admin', 'manager']}>
+                  <RoleBasedRoute allowedRoles={['admin', 'manager']} requiredPermissions={['run_ai_matching']}>
                     <AIMatching />
                   </RoleBasedRoute>
                 </ProtectedRoute>
               } />
               <Route path="/search-talent" element={
                 <ProtectedRoute>
-                  <RoleBasedRoute allowedRoles={['admin', 'manager']}>
+                  <RoleBasedRoute allowedRoles={['admin', 'org_admin', 'manager']}>
                     <SearchTalent />
                   </RoleBasedRoute>
                 </ProtectedRoute>
               } />
               <Route path="/talent-pool" element={
                 <ProtectedRoute>
-                  <RoleBasedRoute allowedRoles={['admin', 'manager']}>
+                  <RoleBasedRoute allowedRoles={['admin', 'org_admin', 'manager']}>
                     <TalentPool />
                   </RoleBasedRoute>
                 </ProtectedRoute>
               } />
               <Route path="/talent-profile/:id" element={
                 <ProtectedRoute>
-                  <RoleBasedRoute allowedRoles={['admin', 'manager']}>
+                  <RoleBasedRoute allowedRoles={['admin', 'org_admin', 'manager']}>
                     <TalentProfile />
                   </RoleBasedRoute>
                 </ProtectedRoute>
               } />
               <Route path="/opportunity/:id" element={
                 <ProtectedRoute>
-                  <RoleBasedRoute allowedRoles={['admin', 'manager']}>
+                  <RoleBasedRoute allowedRoles={['admin', 'org_admin', 'manager']}>
                     <OpportunityView />
                   </RoleBasedRoute>
                 </ProtectedRoute>
               } />
               <Route path="/admin" element={
                 <ProtectedRoute>
-                  <RoleBasedRoute allowedRoles={['admin']}>
+                  <RoleBasedRoute allowedRoles={['admin', 'org_admin']}>
                     <AdminDashboard />
                   </RoleBasedRoute>
                 </ProtectedRoute>
               } />
+              <Route path="/invitations" element={
+                <ProtectedRoute>
+                  <RoleBasedRoute allowedRoles={['admin', 'org_admin', 'manager', 'user']} requiredPermissions={['invite_users']}>
+                    <Invitations />
+                  </RoleBasedRoute>
+                </ProtectedRoute>
+              } />
               <Route path="/user-dashboard" element={
                 <ProtectedRoute>
                   <UserDashboard />
@@ -0,0 +1,279 @@
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import {
+  Users,
+  Briefcase,
+  UserCheck,
+  FolderKanban,
+  Shield,
+  Calendar,
+  ChevronLeft,
+  ChevronRight
+} from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  activityService,
+  ActivityAction,
+  ActivityEntityType,
+  ActivityEntry,
+  ACTIVITY_PAGE_SIZE
+} from '@/services/activityService';
+
+const entityLabels: Record<ActivityEntityType, string> = {
+  talent: 'Talent',
+  opportunity: 'Opportunities',
+  assignment: 'Assignments',
+  project: 'Projects',
+  role: 'Roles'
+};
+
+const entityIcons: Record<ActivityEntityType, typeof Users> = {
+  talent: Users,
+  opportunity: Briefcase,
+  assignment: UserCheck,
+  project: FolderKanban,
+  role: Shield
+};
+
+const actionColors: Record<ActivityAction, string> = {
+  created: 'bg-blue-50 text-blue-600',
+  updated: 'bg-orange-50 text-orange-600',
+  deleted: 'bg-red-50 text-red-600',
+  status_changed: 'bg-purple-50 text-purple-600',
+  assigned: 'bg-green-50 text-green-600',
+  unassigned: 'bg-red-50 text-red-600',
+  role_granted: 'bg-green-50 text-green-600',
+  role_revoked: 'bg-red-50 text-red-600'
+};
+
+const humanize = (value: string) => value.replace(/_/g, ' ');
+
+const getTimeAgo = (date: string) => {
+  const diffInSeconds = Math.floor((Date.now() - new Date(date).getTime()) / 1000);
+
+  if (diffInSeconds < 60) return `${diffInSeconds} seconds ago`;
+  if (diffInSeconds < 3600) return `${Math.floor(diffInSeconds / 60)} minutes ago`;
+  if (diffInSeconds < 86400) return `${Math.floor(diffInSeconds / 3600)} hours ago`;
+  return `${Math.floor(diffInSeconds / 86400)} days ago`;
+};
+
+const getTimeframeDate = (timeframe: string) => {
+  const now = Date.now();
+  switch (timeframe) {
+    case '24h':
+      return new Date(now - 24 * 60 * 60 * 1000);
+    case 'week':
+      return new Date(now - 7 * 24 * 60 * 60 * 1000);
+    case 'month':
+      return new Date(now - 30 * 24 * 60 * 60 * 1000);
+    default:
+      return undefined;
+  }
+};
+
+const describeActivity = (entry: ActivityEntry) => {
+  const { metadata } = entry;
+  const label = metadata.label || 'Unknown';
+
+  switch (entry.entity_type) {
+    case 'assignment':
+      if (entry.action === 'assigned') return `${metadata.talent_name || 'Talent'} assigned to ${label}`;
+      if (entry.action === 'unassigned') return `${metadata.talent_name || 'Talent'} unassigned from ${label}`;
+      break;
+    case 'project':
+      if (metadata.talent_name) return `${label} · ${metadata.talent_name}`;
+      break;
+    case 'role':
+      return `${label} ${entry.action === 'role_granted' ? 'granted' : 'revoked'} ${metadata.role ? humanize(metadata.role) : 'role'}`;
+  }
+  return label;
+};
+
+const describeChange = (entry: ActivityEntry) => {
+  const { metadata } = entry;
+  if (entry.action === 'status_changed') {
+    return `Status ${humanize(metadata.from || 'none')} → ${humanize(metadata.to || 'none')}`;
+  }
+  if (entry.action === 'updated' && metadata.changes?.length) {
+    return `Changed ${metadata.changes.map(humanize).join(', ')}`;
+  }
+  return `${entityLabels[entry.entity_type]} ${humanize(entry.action)}`;
+};
+
+// Where clicking an entry goes; deleted entities have nowhere to go
+const activityLink = (entry: ActivityEntry) => {
+  if (entry.action === 'deleted') return null;
+  switch (entry.entity_type) {
+    case 'talent':
+      return `/talent-profile/${entry.entity_id}`;
+    case 'opportunity':
+      return `/opportunity/${entry.entity_id}`;
+    case 'assignment':
+      return entry.metadata.opportunity_id ? `/opportunity/${entry.metadata.opportunity_id}` : null;
+    case 'project':
+      return entry.metadata.talent_profile_id ? `/talent-profile/${entry.metadata.talent_profile_id}` : null;
+    default:
+      return null;
+  }
+};
+
+const ActivityFeed = () => {
+  const navigate = useNavigate();
+  const [entries, setEntries] = useState<ActivityEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [entityFilter, setEntityFilter] = useState<'all' | ActivityEntityType>('all');
+  const [timeframe, setTimeframe] = useState('week');
+  const [page, setPage] = useState(0);
+
+  useEffect(() => {
+    fetchActivity();
+  }, [entityFilter, timeframe, page]);
+
+  const fetchActivity = async () => {
+    setIsLoading(true);
+    try {
+      const result = await activityService.getActivity({
+        entityType: entityFilter === 'all' ? undefined : entityFilter,
+        since: getTimeframeDate(timeframe),
+        page
+      });
+      setEntries(result.entries);
+      setTotal(result.total);
+    } catch (error) {
+      console.error('Error fetching recent activity:', error);
+      setEntries([]);
+      setTotal(0);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / ACTIVITY_PAGE_SIZE));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Recent Activity</CardTitle>
+            <CardDescription>
+              Every change to talent, opportunities, assignments, projects and roles
+            </CardDescription>
+          </div>
+          <Select
+            value={timeframe}
+            onValueChange={(value) => {
+              setTimeframe(value);
+              setPage(0);
+            }}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="24h">Last 24 hours</SelectItem>
+              <SelectItem value="week">Past week</SelectItem>
+              <SelectItem value="month">Past month</SelectItem>
+              <SelectItem value="all">All time</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Tabs
+          value={entityFilter}
+          onValueChange={(value) => {
+            setEntityFilter(value as 'all' | ActivityEntityType);
+            setPage(0);
+          }}
+        >
+          <TabsList className="grid w-full grid-cols-6">
+            <TabsTrigger value="all">All</TabsTrigger>
+            {(Object.keys(entityLabels) as ActivityEntityType[]).map(type => (
+              <TabsTrigger key={type} value={type}>{entityLabels[type]}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        <div className="mt-6">
+          {isLoading ? (
+            <div className="space-y-3">
+              {[1, 2, 3, 4].map((index) => (
+                <div key={index} className="flex items-start space-x-3 p-3 rounded-lg border border-border animate-pulse">
+                  <div className="p-2 rounded-full bg-gray-200 w-8 h-8"></div>
+                  <div className="flex-1 min-w-0">
+                    <div className="h-4 bg-gray-200 rounded mb-2"></div>
+                    <div className="h-3 bg-gray-200 rounded mb-2 w-3/4"></div>
+                    <div className="h-3 bg-gray-200 rounded w-1/2"></div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Calendar className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No activities found for the selected timeframe</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {entries.map((entry, index) => {
+                const Icon = entityIcons[entry.entity_type] || Calendar;
+                const link = activityLink(entry);
+                return (
+                  <motion.div
+                    key={entry.id}
+                    initial={{ opacity: 0, x: -20 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    transition={{ duration: 0.4, delay: index * 0.05 }}
+                    className={`group flex items-start space-x-3 p-3 rounded-lg border border-border transition-all duration-200 ${link ? 'cursor-pointer hover:shadow-sm hover:bg-muted/50' : ''}`}
+                    onClick={() => link && navigate(link)}
+                  >
+                    <div className={`p-2 rounded-full flex-shrink-0 ${actionColors[entry.action] || 'bg-gray-50 text-gray-600'}`}>
+                      <Icon className="h-4 w-4" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-semibold text-foreground mb-1 leading-tight group-hover:text-primary transition-colors">
+                        {describeActivity(entry)}
+                      </p>
+                      <p className="text-sm text-muted-foreground mb-2 leading-tight">
+                        {describeChange(entry)}
+                      </p>
+                      <p className="text-xs text-muted-foreground/80 font-medium">
+                        {getTimeAgo(entry.created_at)} · {entry.actorName || 'System'}
+                      </p>
+                    </div>
+                  </motion.div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {total > ACTIVITY_PAGE_SIZE && (
+          <div className="flex items-center justify-between mt-4">
+            <p className="text-sm text-muted-foreground">
+              Page {page + 1} of {pageCount} · {total} entries
+            </p>
+            <div className="flex space-x-2">
+              <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0 || isLoading}>
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                Previous
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount || isLoading}>
+                Next
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ActivityFeed;
@@ -1,20 +1,54 @@
-import { useState } from 'react';
-import { Upload, Download, CheckCircle, AlertCircle, FileText } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
+import { Upload, Download, CheckCircle, AlertCircle, FileText, Save, Trash2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
 import FileUpload from './FileUpload';
+import { parseCsv, downloadCsv } from '@/lib/csv';
+import {
+  importMappingService,
+  autoMapColumns,
+  bestSavedMapping,
+  ColumnMapping,
+  ImportMapping
+} from '@/services/importMappingService';
+import {
+  ImportAction,
+  ImportJobResult,
+  ImportOptions,
+  MergeRule,
+  MERGE_RULE_LABELS
+} from '@/services/importJobService';
 import * as XLSX from 'xlsx';
 
 interface BulkImportProps {
-  onImport: (data: any[]) => Promise<void>;
+  onImport?: (data: any[]) => Promise<void>;
+  // Runs the whole file as one server-side job, previewed first with a dry run. Replaces the
+  // row-by-row onImport when given.
+  onRunJob?: (data: any[], options: ImportOptions) => Promise<ImportJobResult>;
+  // Fields a job can match existing records on; the first is the default. A single entry is
+  // only shown, not offered as a choice.
+  matchKeys?: string[];
   templateFields: string[];
   entityName: string;
   requiredFields?: string[];
   optionalFields?: string[];
   conditionalNotes?: string[]; // textual rules
+  // Problems with a mapped row, checked for every row before anything is imported. Defaults to
+  // checking that the required fields are filled in.
+  validateRow?: (row: Record<string, string>) => string[];
+}
+
+interface SourceRow {
+  row: number;
+  values: string[];
 }
 
 interface ImportResult {
@@ -23,27 +57,100 @@ interface ImportResult {
   total: number;
 }
 
-const BulkImport = ({ onImport, templateFields, entityName, requiredFields, optionalFields, conditionalNotes }: BulkImportProps) => {
-  const [importData, setImportData] = useState<any[]>([]);
+const NOT_MAPPED = '__none__';
+const NEW_MAPPING = '__new__';
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  create: 'New',
+  update: 'Update',
+  duplicate: 'Duplicate',
+  error: 'Error'
+};
+
+const ACTION_STYLES: Record<ImportAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  duplicate: 'bg-gray-100 text-gray-800',
+  error: 'bg-red-100 text-red-800'
+};
+
+const BulkImport = ({
+  onImport,
+  onRunJob,
+  matchKeys,
+  templateFields,
+  entityName,
+  requiredFields,
+  optionalFields,
+  conditionalNotes,
+  validateRow
+}: BulkImportProps) => {
+  const { toast } = useToast();
+  const [sourceHeaders, setSourceHeaders] = useState<string[]>([]);
+  const [sourceRows, setSourceRows] = useState<SourceRow[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [savedMappings, setSavedMappings] = useState<ImportMapping[]>([]);
+  const [activeMappingId, setActiveMappingId] = useState(NEW_MAPPING);
+  const [mappingName, setMappingName] = useState('');
+  const [skipInvalid, setSkipInvalid] = useState(false);
+  const [fileName, setFileName] = useState<string>();
+  const [matchKey, setMatchKey] = useState(matchKeys?.[0] || 'email');
+  const [mergeRule, setMergeRule] = useState<MergeRule>('fill_empty');
+  const [jobResult, setJobResult] = useState<ImportJobResult | null>(null);
+  const [runningJob, setRunningJob] = useState(false);
   const [importing, setImporting] = useState(false);
   const [importResult, setImportResult] = useState<ImportResult | null>(null);
   const [progress, setProgress] = useState(0);
 
-  // Header-only templates (no dummy rows)
-  const buildSampleRows = () => [] as any[];
+  const required = requiredFields && requiredFields.length > 0 ? requiredFields : templateFields;
+
+  useEffect(() => {
+    importMappingService.getMappings(entityName)
+      .then(setSavedMappings)
+      .catch(error => console.error('Error fetching import mappings:', error));
+  }, [entityName]);
+
+  // Rows keyed by template field, through the column mapping
+  const importData = useMemo(() => sourceRows
+    .map(({ row, values }) => {
+      const obj: Record<string, any> = { _row: row };
+      templateFields.forEach(field => {
+        const column = mapping[field] ? sourceHeaders.indexOf(mapping[field]) : -1;
+        obj[field] = column >= 0 ? (values[column] ?? '').trim() : '';
+      });
+      return obj;
+    })
+    .filter(obj => templateFields.some(field => obj[field] !== '')),
+  [sourceRows, sourceHeaders, mapping, templateFields]);
+
+  const rowErrors = useMemo(() => {
+    const errors = new Map<number, string[]>();
+    importData.forEach(item => {
+      const problems = validateRow
+        ? validateRow(item)
+        : required.filter(field => !item[field]).map(field => `${field} is required`);
+      if (problems.length > 0) errors.set(item._row, problems);
+    });
+    return errors;
+  }, [importData, validateRow, required]);
+
+  const validRows = useMemo(() => importData.filter(item => !rowErrors.has(item._row)), [importData, rowErrors]);
+  const rowsToImport = skipInvalid ? validRows : importData;
+  const canImport = rowsToImport.length > 0 && (rowErrors.size === 0 || skipInvalid);
+  const unmappedRequired = required.filter(field => !mapping[field]);
+
+  const jobErrors = jobResult ? jobResult.results.filter(result => result.action === 'error') : [];
+  const jobPreviewReady = !!jobResult && jobResult.dry_run && jobErrors.length === 0
+    && jobResult.summary.create + jobResult.summary.update > 0;
+
+  // A preview only holds for the rows and options it was made with
+  useEffect(() => {
+    setJobResult(null);
+  }, [rowsToImport, matchKey, mergeRule]);
 
   const downloadCSVTemplate = () => {
-    const headers = templateFields.join(',');
-    const csvContent = `${headers}`;
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `${entityName}_template.csv`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    window.URL.revokeObjectURL(url);
+    // Header-only templates (no dummy rows)
+    downloadCsv([templateFields], `${entityName}_template.csv`);
   };
 
   const downloadXlsxTemplate = () => {
@@ -62,24 +169,39 @@ const BulkImport = ({ onImport, templateFields, entityName, requiredFields, opti
     window.URL.revokeObjectURL(url);
   };
 
+  // First row is the header; row numbers match the spreadsheet's
+  const loadTable = (table: string[][]) => {
+    if (table.length === 0) {
+      alert('The file is empty.');
+      return;
+    }
+
+    const headers = table[0].map(header => String(header).trim());
+    const rows = table.slice(1)
+      .map((values, index) => ({ row: index + 2, values: values.map(value => String(value ?? '')) }))
+      .filter(({ values }) => values.some(value => value.trim() !== ''));
+
+    const saved = bestSavedMapping(savedMappings, headers);
+    setSourceHeaders(headers);
+    setSourceRows(rows);
+    setMapping(saved ? saved.mapping : autoMapColumns(templateFields, headers));
+    setActiveMappingId(saved ? saved.id : NEW_MAPPING);
+    setMappingName(saved ? saved.name : '');
+    setSkipInvalid(false);
+    setImportResult(null);
+    setJobResult(null);
+  };
+
   const handleFileSelect = (file: File) => {
     const ext = file.name.toLowerCase().split('.').pop();
+    setFileName(file.name);
     if (ext === 'csv') {
       const reader = new FileReader();
       reader.onload = (e) => {
         try {
-          const csv = e.target?.result as string;
-          const rows = csv.split('\n').filter(row => row.trim());
-          const headers = rows[0].split(',').map(h => h.trim());
-          const data = rows.slice(1).map((row, index) => {
-            const values = row.split(',').map(v => v.trim());
-            const obj: any = { _row: index + 2 };
-            headers.forEach((header, i) => { obj[header] = values[i] || ''; });
-            return obj;
-          }).filter(obj => Object.values(obj).some(val => val !== ''));
-          setImportData(data);
-        } catch {
-          alert('Error parsing CSV file. Please check the format.');
+          loadTable(parseCsv(e.target?.result as string));
+        } catch (error: any) {
+          alert(`Error parsing CSV file: ${error?.message || 'please check the format'}.`);
         }
       };
       reader.readAsText(file);
@@ -90,9 +212,9 @@ const BulkImport = ({ onImport, templateFields, entityName, requiredFields, opti
         const workbook = XLSX.read(data, { type: 'array' });
         const sheetName = workbook.SheetNames[0];
         const worksheet = workbook.Sheets[sheetName];
-        const json: any[] = XLSX.utils.sheet_to_json(worksheet, { defval: '' });
-        const parsed = json.map((row, idx) => ({ _row: idx + 2, ...row }));
-        setImportData(parsed);
+        // Cells as displayed, so dates and numbers come through the way the sheet shows them
+        const table: string[][] = XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: '', raw: false });
+        loadTable(table);
       };
       reader.readAsArrayBuffer(file);
     } else {
@@ -100,8 +222,78 @@ const BulkImport = ({ onImport, templateFields, entityName, requiredFields, opti
     }
   };
 
+  const handleMapColumn = (field: string, header: string) => {
+    setMapping(current => {
+      const next = { ...current };
+      if (header === NOT_MAPPED) {
+        delete next[field];
+      } else {
+        next[field] = header;
+      }
+      return next;
+    });
+  };
+
+  const handleSelectMapping = (id: string) => {
+    setActiveMappingId(id);
+    const saved = savedMappings.find(m => m.id === id);
+    if (!saved) {
+      setMappingName('');
+      setMapping(autoMapColumns(templateFields, sourceHeaders));
+      return;
+    }
+    setMappingName(saved.name);
+    // Drop columns this file doesn't have
+    setMapping(Object.fromEntries(
+      Object.entries(saved.mapping).filter(([, header]) => sourceHeaders.includes(header))
+    ));
+  };
+
+  const handleSaveMapping = async () => {
+    if (!mappingName.trim()) return;
+
+    try {
+      const existing = savedMappings.find(m => m.id === activeMappingId)
+        || savedMappings.find(m => m.name.toLowerCase() === mappingName.trim().toLowerCase());
+      const saved = await importMappingService.saveMapping(entityName, mappingName, mapping, existing?.id);
+      setSavedMappings(current => [...current.filter(m => m.id !== saved.id), saved]
+        .sort((a, b) => a.name.localeCompare(b.name)));
+      setActiveMappingId(saved.id);
+      toast({
+        title: "Success",
+        description: `Mapping saved as "${saved.name}"`,
+      });
+    } catch (error) {
+      console.error('Error saving import mapping:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save mapping",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteMapping = async () => {
+    const saved = savedMappings.find(m => m.id === activeMappingId);
+    if (!saved || !window.confirm(`Delete the saved mapping "${saved.name}"?`)) return;
+
+    try {
+      await importMappingService.deleteMapping(saved.id);
+      setSavedMappings(current => current.filter(m => m.id !== saved.id));
+      setActiveMappingId(NEW_MAPPING);
+      setMappingName('');
+    } catch (error) {
+      console.error('Error deleting import mapping:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete mapping",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleImport = async () => {
-    if (importData.length === 0) return;
+    if (!onImport || !canImport) return;
 
     setImporting(true);
     setProgress(0);
@@ -109,12 +301,12 @@ const BulkImport = ({ onImport, templateFields, entityName, requiredFields, opti
     const results: ImportResult = {
       success: 0,
       errors: [],
-      total: importData.length
+      total: rowsToImport.length
     };
 
-    for (let i = 0; i < importData.length; i++) {
-      const item = importData[i];
-      setProgress(((i + 1) / importData.length) * 100);
+    for (let i = 0; i < rowsToImport.length; i++) {
+      const item = rowsToImport[i];
+      setProgress(((i + 1) / rowsToImport.length) * 100);
 
       try {
         await onImport([item]);
@@ -136,6 +328,46 @@ const BulkImport = ({ onImport, templateFields, entityName, requiredFields, opti
     setProgress(100);
   };
 
+  const handleRunJob = async (dryRun: boolean) => {
+    if (!onRunJob || !canImport) return;
+
+    setRunningJob(true);
+    try {
+      const result = await onRunJob(rowsToImport, { matchKey, mergeRule, dryRun, fileName });
+      setJobResult(result);
+      if (!dryRun && result.status === 'failed') {
+        toast({
+          title: "Error",
+          description: result.error_message || "Import failed. Nothing was saved",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error('Error running import job:', error);
+      toast({
+        title: "Error",
+        description: "Failed to run the import",
+        variant: "destructive",
+      });
+    } finally {
+      setRunningJob(false);
+    }
+  };
+
+  // The rows that need fixing in template layout, with what is wrong in a last column, so the
+  // corrected file can be uploaded again as is
+  const downloadErrorReport = () => {
+    const problems = new Map(rowErrors);
+    jobErrors.forEach(result => {
+      problems.set(result.row, [...(problems.get(result.row) || []), ...result.messages]);
+    });
+
+    const rows = importData
+      .filter(item => problems.has(item._row))
+      .map(item => [...templateFields.map(field => item[field]), problems.get(item._row)!.join('; ')]);
+    downloadCsv([[...templateFields, 'errors'], ...rows], `${entityName}_import_errors.csv`);
+  };
+
   return (
     <div className="space-y-6">
       <Card>
@@ -145,7 +377,8 @@ const BulkImport = ({ onImport, templateFields, entityName, requiredFields, opti
             <span>Bulk Import {entityName}</span>
           </CardTitle>
           <CardDescription>
-            Import multiple {entityName.toLowerCase()} records from a CSV file. Download our template to get started.
+            Import multiple {entityName.toLowerCase()} records from a CSV or Excel file. Download our template to get started,
+            or map the columns of your own spreadsheet.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
@@ -162,7 +395,7 @@ const BulkImport = ({ onImport, templateFields, entityName, requiredFields, opti
 
           <div className="text-sm text-muted-foreground space-y-1">
             <div>
-              <span className="font-medium">Required fields:</span> {(requiredFields && requiredFields.length > 0 ? requiredFields : templateFields).join(', ')}
+              <span className="font-medium">Required fields:</span> {required.join(', ')}
             </div>
             {optionalFields && optionalFields.length > 0 && (
               <div>
@@ -183,22 +416,94 @@ const BulkImport = ({ onImport, templateFields, entityName, requiredFields, opti
             type="csv"
           />
 
+          {sourceHeaders.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Map Columns</CardTitle>
+                <CardDescription>
+                  Pick the spreadsheet column for each field. Save the mapping to reuse it for files from the same source.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-col md:flex-row gap-2">
+                  <Select value={activeMappingId} onValueChange={handleSelectMapping}>
+                    <SelectTrigger className="md:w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NEW_MAPPING}>New mapping</SelectItem>
+                      {savedMappings.map(saved => (
+                        <SelectItem key={saved.id} value={saved.id}>{saved.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    placeholder="Source name, e.g. Workday export"
+                    value={mappingName}
+                    onChange={(e) => setMappingName(e.target.value)}
+                  />
+                  <Button variant="outline" onClick={handleSaveMapping} disabled={!mappingName.trim()}>
+                    <Save className="w-4 h-4 mr-2" />
+                    Save Mapping
+                  </Button>
+                  {activeMappingId !== NEW_MAPPING && (
+                    <Button variant="ghost" onClick={handleDeleteMapping}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3 max-h-96 overflow-y-auto pr-1">
+                  {templateFields.map(field => (
+                    <div key={field} className="grid grid-cols-2 gap-2 items-center">
+                      <Label className="text-sm">
+                        {field}
+                        {required.includes(field) && <span className="text-destructive"> *</span>}
+                      </Label>
+                      <Select
+                        value={mapping[field] || NOT_MAPPED}
+                        onValueChange={(header) => handleMapColumn(field, header)}
+                      >
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                          {sourceHeaders.filter(Boolean).map(header => (
+                            <SelectItem key={header} value={header}>{header}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+
+                {unmappedRequired.length > 0 && (
+                  <p className="text-sm text-destructive">
+                    Required fields without a column: {unmappedRequired.join(', ')}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {importData.length > 0 && (
             <Card>
               <CardHeader>
                 <CardTitle className="text-lg">Preview Data</CardTitle>
                 <CardDescription>
-                  {importData.length} records found. Review before importing.
+                  {importData.length} records found. {validRows.length} valid
+                  {rowErrors.size > 0 && `, ${rowErrors.size} with errors`}. Review before importing.
                 </CardDescription>
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-h-60 overflow-y-auto">
                     {importData.slice(0, 5).map((item, index) => (
-                      <Card key={index} className="p-3">
+                      <Card key={index} className={`p-3 ${rowErrors.has(item._row) ? 'border-red-200' : ''}`}>
                         <div className="space-y-1">
                           {Object.entries(item)
-                            .filter(([key]) => key !== '_row')
+                            .filter(([key, value]) => key !== '_row' && value !== '')
                             .slice(0, 3)
                             .map(([key, value]) => (
                               <div key={key} className="flex justify-between text-sm">
@@ -219,30 +524,188 @@ const BulkImport = ({ onImport, templateFields, entityName, requiredFields, opti
                     </p>
                   )}
 
-                  <div className="flex justify-center">
-                    <Button 
-                      onClick={handleImport} 
-                      disabled={importing}
-                      className="w-full md:w-auto"
-                    >
-                      {importing ? (
-                        <>
-                          <Upload className="w-4 h-4 mr-2 animate-spin" />
-                          Importing...
-                        </>
-                      ) : (
-                        <>
-                          <Upload className="w-4 h-4 mr-2" />
-                          Import {importData.length} Records
-                        </>
-                      )}
-                    </Button>
+                  {rowErrors.size > 0 && (
+                    <Alert>
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertDescription>
+                        <div className="space-y-2">
+                          <div className="font-medium">
+                            {rowErrors.size} {rowErrors.size === 1 ? 'row needs' : 'rows need'} fixing before import:
+                          </div>
+                          <div className="max-h-40 overflow-y-auto space-y-1">
+                            {Array.from(rowErrors.entries()).slice(0, 10).map(([row, problems]) => (
+                              <div key={row} className="text-sm p-2 bg-red-50 rounded border border-red-200">
+                                <span className="font-medium">Row {row}:</span> {problems.join('; ')}
+                              </div>
+                            ))}
+                            {rowErrors.size > 10 && (
+                              <div className="text-sm text-muted-foreground">
+                                And {rowErrors.size - 10} more rows...
+                              </div>
+                            )}
+                          </div>
+                          <div className="flex items-center space-x-2 pt-1">
+                            <Checkbox
+                              id="skip-invalid"
+                              checked={skipInvalid}
+                              onCheckedChange={(checked) => setSkipInvalid(checked === true)}
+                            />
+                            <Label htmlFor="skip-invalid" className="text-sm">
+                              Skip these rows and import the valid ones
+                            </Label>
+                          </div>
+                        </div>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  {onRunJob && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label>Match existing records on</Label>
+                        {matchKeys && matchKeys.length > 1 ? (
+                          <Select value={matchKey} onValueChange={setMatchKey}>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {matchKeys.map(key => (
+                                <SelectItem key={key} value={key}>{key}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <p className="text-sm text-muted-foreground pt-2">{matchKey}</p>
+                        )}
+                      </div>
+                      <div className="space-y-2">
+                        <Label>When a record already exists</Label>
+                        <Select value={mergeRule} onValueChange={(value) => setMergeRule(value as MergeRule)}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(MERGE_RULE_LABELS) as MergeRule[]).map(rule => (
+                              <SelectItem key={rule} value={rule}>{MERGE_RULE_LABELS[rule]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="flex flex-col md:flex-row justify-center gap-2">
+                    {(rowErrors.size > 0 || jobErrors.length > 0) && (
+                      <Button variant="outline" onClick={downloadErrorReport}>
+                        <FileText className="w-4 h-4 mr-2" />
+                        Download Error Report
+                      </Button>
+                    )}
+                    {onRunJob ? (
+                      <>
+                        <Button
+                          variant={jobPreviewReady ? 'outline' : 'default'}
+                          onClick={() => handleRunJob(true)}
+                          disabled={runningJob || !canImport}
+                        >
+                          <FileText className="w-4 h-4 mr-2" />
+                          Preview Import
+                        </Button>
+                        <Button onClick={() => handleRunJob(false)} disabled={runningJob || !jobPreviewReady}>
+                          <Upload className={`w-4 h-4 mr-2 ${runningJob ? 'animate-spin' : ''}`} />
+                          Import {rowsToImport.length} Records
+                        </Button>
+                      </>
+                    ) : (
+                      <Button 
+                        onClick={handleImport} 
+                        disabled={importing || !canImport}
+                        className="w-full md:w-auto"
+                      >
+                        {importing ? (
+                          <>
+                            <Upload className="w-4 h-4 mr-2 animate-spin" />
+                            Importing...
+                          </>
+                        ) : (
+                          <>
+                            <Upload className="w-4 h-4 mr-2" />
+                            Import {rowsToImport.length} Records
+                          </>
+                        )}
+                      </Button>
+                    )}
                   </div>
                 </div>
               </CardContent>
             </Card>
           )}
 
+          {jobResult && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  {jobResult.status === 'failed' || jobErrors.length > 0 ? (
+                    <AlertCircle className="w-5 h-5 text-red-500" />
+                  ) : (
+                    <CheckCircle className="w-5 h-5 text-green-500" />
+                  )}
+                  <span>
+                    {jobResult.dry_run ? 'Import Preview' : jobResult.status === 'completed' ? 'Import Complete' : 'Import Failed'}
+                  </span>
+                </CardTitle>
+                <CardDescription>
+                  {jobResult.dry_run
+                    ? jobErrors.length > 0
+                      ? 'Nothing has been saved. Fix the rows with errors (download the error report) and upload the file again.'
+                      : 'Nothing has been saved yet. Import to apply these changes together.'
+                    : jobResult.status === 'completed'
+                      ? 'All rows were saved together.'
+                      : `${jobResult.error_message || 'The import failed'}. Nothing was saved.`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="text-center p-3 bg-green-50 rounded-lg border border-green-200">
+                    <div className="text-2xl font-bold text-green-600">{jobResult.summary.create}</div>
+                    <div className="text-sm text-green-600">{jobResult.dry_run ? 'To create' : 'Created'}</div>
+                  </div>
+                  <div className="text-center p-3 bg-blue-50 rounded-lg border border-blue-200">
+                    <div className="text-2xl font-bold text-blue-600">{jobResult.summary.update}</div>
+                    <div className="text-sm text-blue-600">{jobResult.dry_run ? 'To update' : 'Updated'}</div>
+                  </div>
+                  <div className="text-center p-3 bg-gray-50 rounded-lg border border-gray-200">
+                    <div className="text-2xl font-bold text-gray-600">{jobResult.summary.duplicate}</div>
+                    <div className="text-sm text-gray-600">Duplicates</div>
+                  </div>
+                  <div className="text-center p-3 bg-red-50 rounded-lg border border-red-200">
+                    <div className="text-2xl font-bold text-red-600">{jobResult.summary.error}</div>
+                    <div className="text-sm text-red-600">Errors</div>
+                  </div>
+                </div>
+
+                {jobResult.results.some(result => result.action !== 'create') && (
+                  <div className="max-h-60 overflow-y-auto space-y-1">
+                    {jobResult.results
+                      .filter(result => result.action !== 'create')
+                      .slice(0, 50)
+                      .map(result => (
+                        <div key={result.row} className="flex items-start gap-2 text-sm p-2 rounded border">
+                          <Badge className={ACTION_STYLES[result.action]}>{ACTION_LABELS[result.action]}</Badge>
+                          <span className="font-medium whitespace-nowrap">Row {result.row}:</span>
+                          <span className="text-muted-foreground">
+                            {result.action === 'update'
+                              ? `Changes ${result.fields.join(', ')}`
+                              : result.messages.join('; ')}
+                          </span>
+                        </div>
+                      ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {importing && (
             <Card>
               <CardContent className="p-4">
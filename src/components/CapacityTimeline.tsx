@@ -0,0 +1,97 @@
+import { CalendarRange } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import {
+  Allocation,
+  CapacityLevel,
+  CAPACITY_WEEKS,
+  getCapacityLevel,
+  parseDate,
+  weeklyCapacity
+} from '@/services/capacityService';
+
+interface CapacityTimelineProps {
+  allocations: Allocation[];
+  weeks?: number;
+}
+
+export const capacityLevelStyles: Record<CapacityLevel, string> = {
+  free: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200',
+  partial: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-200',
+  high: 'bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-200',
+  full: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200'
+};
+
+export const formatWeek = (date: Date) => date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const formatRange = (allocation: Allocation) => {
+  const start = parseDate(allocation.start_date);
+  const release = parseDate(allocation.release_date);
+  return `${start ? start.toLocaleDateString() : 'Ongoing'} – ${release ? release.toLocaleDateString() : 'Open-ended'}`;
+};
+
+const CapacityTimeline = ({ allocations, weeks = CAPACITY_WEEKS }: CapacityTimelineProps) => {
+  const timeline = weeklyCapacity(allocations, weeks);
+
+  if (allocations.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <CalendarRange className="h-4 w-4" />
+        No allocations – fully available for the next {weeks} weeks
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-x-auto">
+        <div className="grid gap-1 min-w-[560px]" style={{ gridTemplateColumns: `160px repeat(${weeks}, minmax(36px, 1fr))` }}>
+          <div />
+          {timeline.map(week => (
+            <div key={week.weekStart.toISOString()} className="text-[10px] text-muted-foreground text-center">
+              {formatWeek(week.weekStart)}
+            </div>
+          ))}
+
+          {allocations.map((allocation, index) => (
+            <div key={`${allocation.project_name}-${index}`} className="contents">
+              <div className="text-xs truncate pr-2" title={`${allocation.project_name} (${formatRange(allocation)})`}>
+                {allocation.project_name}
+              </div>
+              {timeline.map(week => {
+                const active = weeklyCapacity([allocation], 1, week.weekStart)[0].utilization;
+                return (
+                  <div
+                    key={week.weekStart.toISOString()}
+                    className={`h-5 rounded-sm ${active > 0 ? 'bg-primary/60' : 'bg-muted'}`}
+                    title={active > 0 ? `${allocation.utilization_percentage}%` : ''}
+                  />
+                );
+              })}
+            </div>
+          ))}
+
+          <div className="text-xs font-medium pr-2">Total booked</div>
+          {timeline.map(week => (
+            <div
+              key={week.weekStart.toISOString()}
+              className={`h-6 rounded-sm text-[10px] font-medium flex items-center justify-center ${capacityLevelStyles[getCapacityLevel(week.utilization)]}`}
+              title={week.projects.join(', ')}
+            >
+              {week.utilization}%
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {allocations.map((allocation, index) => (
+          <Badge key={`${allocation.project_name}-${index}`} variant="outline" className="text-xs font-normal">
+            {allocation.project_name} · {allocation.utilization_percentage}% · {formatRange(allocation)}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CapacityTimeline;
@@ -0,0 +1,58 @@
+import { useState } from 'react';
+import { Download, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { ExportFormat, EXPORT_FORMAT_LABELS } from '@/services/exportService';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void | Promise<void>;
+  formats?: ExportFormat[];
+  // Number of rows the export will contain; nothing to export disables the menu
+  count: number;
+}
+
+const ExportMenu = ({ onExport, formats = ['csv', 'xlsx'], count }: ExportMenuProps) => {
+  const { toast } = useToast();
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(true);
+    try {
+      await onExport(format);
+    } catch (error) {
+      console.error('Error exporting:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={count === 0 || exporting}>
+          {exporting ? (
+            <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Download className="h-4 w-4 mr-2" />
+          )}
+          Export ({count})
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {formats.map(format => (
+          <DropdownMenuItem key={format} className="cursor-pointer" onClick={() => handleExport(format)}>
+            {EXPORT_FORMAT_LABELS[format]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,32 @@
+import { X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+
+interface FreeTextSkillsProps {
+  skills: string[];
+  onRemove: (skill: string) => void;
+}
+
+// Skills that were typed or parsed but have no skill catalog entry yet
+const FreeTextSkills = ({ skills, onRemove }: FreeTextSkillsProps) => {
+  return (
+    <div className="space-y-1">
+      <p className="text-xs text-muted-foreground">Not in the skill catalog yet (kept as free text)</p>
+      <div className="flex flex-wrap gap-2">
+        {skills.map(skill => (
+          <Badge key={skill} variant="outline" className="flex items-center gap-1">
+            {skill}
+            <button
+              type="button"
+              onClick={() => onRemove(skill)}
+              className="ml-1 hover:bg-secondary-foreground/20 rounded-full p-0.5"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FreeTextSkills;
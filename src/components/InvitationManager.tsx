@@ -0,0 +1,271 @@
+import { useState, useEffect } from 'react';
+import { Send, RefreshCw, Trash2, Copy, RotateCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { AppRole, useUserRole } from '@/hooks/useUserRole';
+import TeamSelect from '@/components/TeamSelect';
+import { teamService, Team } from '@/services/teamService';
+import { ROLE_LABELS } from '@/services/roleService';
+import {
+  invitationService,
+  invitationStatus,
+  invitationLink,
+  Invitation,
+  InvitationStatus
+} from '@/services/invitationService';
+
+const STATUS_STYLES: Record<InvitationStatus, string> = {
+  pending: 'bg-blue-100 text-blue-800',
+  accepted: 'bg-green-100 text-green-800',
+  expired: 'bg-gray-100 text-gray-800'
+};
+
+const InvitationManager = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { isAdmin, isOrgAdmin } = useUserRole();
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<AppRole>('user');
+  const [teamId, setTeamId] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<InvitationStatus | 'all'>('all');
+
+  // Managers invite users and managers; the RLS policy rejects anything higher
+  const invitableRoles: AppRole[] = [
+    'user',
+    'manager',
+    ...(isAdmin || isOrgAdmin ? ['org_admin' as AppRole] : []),
+    ...(isAdmin ? ['admin' as AppRole] : [])
+  ];
+
+  useEffect(() => {
+    fetchInvitations();
+  }, []);
+
+  const fetchInvitations = async () => {
+    try {
+      const [invitationList, teamList] = await Promise.all([
+        invitationService.getInvitations(),
+        teamService.getTeams()
+      ]);
+      setInvitations(invitationList);
+      setTeams(teamList);
+    } catch (error) {
+      console.error('Error fetching invitations:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load invitations",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const copyLink = async (invitation: Invitation) => {
+    try {
+      await navigator.clipboard.writeText(invitationLink(invitation.token));
+      toast({
+        title: "Link copied",
+        description: `Send it to ${invitation.email} to accept the invitation`,
+      });
+    } catch (error) {
+      console.error('Error copying invitation link:', error);
+      toast({
+        title: "Error",
+        description: "Failed to copy the invitation link",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleInvite = async () => {
+    if (!user || !email.trim()) return;
+
+    try {
+      const invitation = await invitationService.createInvitation(email, role, teamId, user.id);
+      setEmail('');
+      setRole('user');
+      setTeamId(null);
+      await copyLink(invitation);
+      fetchInvitations();
+    } catch (error) {
+      console.error('Error creating invitation:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create invitation. The address may already have an open invitation",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleResend = async (invitation: Invitation) => {
+    try {
+      await invitationService.resendInvitation(invitation.id);
+      toast({
+        title: "Success",
+        description: "Invitation renewed. Copy the new link, the old one no longer works",
+      });
+      fetchInvitations();
+    } catch (error) {
+      console.error('Error resending invitation:', error);
+      toast({
+        title: "Error",
+        description: "Failed to renew invitation",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRevoke = async (invitation: Invitation) => {
+    if (!window.confirm(`Revoke the invitation for ${invitation.email}?`)) return;
+
+    try {
+      await invitationService.revokeInvitation(invitation.id);
+      fetchInvitations();
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+      toast({
+        title: "Error",
+        description: "Failed to revoke invitation",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const teamName = (id: string | null) => teams.find(team => team.id === id)?.name;
+
+  const filteredInvitations = invitations.filter(invitation =>
+    statusFilter === 'all' || invitationStatus(invitation) === statusFilter
+  );
+
+  if (loading) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <RefreshCw className="h-6 w-6 mx-auto animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Invite Someone</CardTitle>
+          <CardDescription>
+            They join your organization with this role and team when they accept. Links expire after a week.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-[2fr_1fr_1fr_auto] gap-2 items-end">
+            <div className="space-y-2">
+              <Label>Email</Label>
+              <Input
+                type="email"
+                placeholder="jane@company.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select value={role} onValueChange={(value) => setRole(value as AppRole)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {invitableRoles.map(option => (
+                    <SelectItem key={option} value={option}>{ROLE_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Team</Label>
+              <TeamSelect value={teamId} onChange={setTeamId} />
+            </div>
+            <Button onClick={handleInvite} disabled={!email.trim()}>
+              <Send className="h-4 w-4 mr-2" />
+              Invite
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-base">Invitations</CardTitle>
+              <CardDescription>Invitations you sent, or all of them for org admins. Copy a pending invitation's link to send it again.</CardDescription>
+            </div>
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as InvitationStatus | 'all')}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="accepted">Accepted</SelectItem>
+                <SelectItem value="expired">Expired</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {filteredInvitations.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No invitations.</p>
+          ) : (
+            <div className="space-y-2">
+              {filteredInvitations.map(invitation => {
+                const status = invitationStatus(invitation);
+                const team = teamName(invitation.team_id);
+
+                return (
+                  <div key={invitation.id} className="flex items-center justify-between border rounded-lg px-3 py-2">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="text-sm font-medium">{invitation.email}</span>
+                      <Badge variant="secondary">{ROLE_LABELS[invitation.role]}</Badge>
+                      {team && <Badge variant="outline">{team}</Badge>}
+                      <Badge className={STATUS_STYLES[status]}>{status}</Badge>
+                      <span className="text-xs text-muted-foreground">
+                        {status === 'accepted'
+                          ? `Accepted ${new Date(invitation.accepted_at!).toLocaleDateString()}`
+                          : `${status === 'expired' ? 'Expired' : 'Expires'} ${new Date(invitation.expires_at).toLocaleDateString()}`}
+                      </span>
+                    </div>
+                    {status !== 'accepted' && (
+                      <div className="flex items-center gap-1">
+                        {status === 'pending' && (
+                          <Button variant="ghost" size="sm" onClick={() => copyLink(invitation)} title="Copy link">
+                            <Copy className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="sm" onClick={() => handleResend(invitation)} title="Renew">
+                          <RotateCw className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleRevoke(invitation)} title="Revoke">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default InvitationManager;
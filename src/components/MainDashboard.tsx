@@ -5,7 +5,7 @@ import AdminDashboard from '../pages/AdminDashboard';
 import UserDashboard from '../pages/UserDashboard';
 
 const MainDashboard = () => {
-  const { isAdmin, isManager, isRegularUser, loading } = useUserRole();
+  const { isAdmin, isOrgAdmin, isManager, isRegularUser, loading } = useUserRole();
 
   if (loading) {
     return (
@@ -15,7 +15,7 @@ const MainDashboard = () => {
     );
   }
 
-  if (isManager || isAdmin) {
+  if (isManager || isAdmin || isOrgAdmin) {
     return <Dashboard />;
   }
 
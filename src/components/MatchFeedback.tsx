@@ -0,0 +1,126 @@
+import { useState, useEffect } from 'react';
+import { ThumbsUp, ThumbsDown, Star, MessageSquare } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import type { MatchFeedbackEntry } from '@/services/matchFeedbackService';
+
+interface MatchFeedbackProps {
+  matchId: string;
+  feedback?: MatchFeedbackEntry;
+  onSubmit: (feedback: MatchFeedbackEntry) => Promise<void>;
+}
+
+const MatchFeedback = ({ matchId, feedback, onSubmit }: MatchFeedbackProps) => {
+  const [thumbs, setThumbs] = useState<-1 | 1 | null>(feedback?.thumbs ?? null);
+  const [accuracyRating, setAccuracyRating] = useState<number | null>(feedback?.accuracyRating ?? null);
+  const [comment, setComment] = useState(feedback?.comment || '');
+  const [showComment, setShowComment] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setThumbs(feedback?.thumbs ?? null);
+    setAccuracyRating(feedback?.accuracyRating ?? null);
+    setComment(feedback?.comment || '');
+  }, [feedback]);
+
+  const save = async (next: Partial<MatchFeedbackEntry>) => {
+    setIsSaving(true);
+    try {
+      await onSubmit({
+        matchId,
+        thumbs: next.thumbs !== undefined ? next.thumbs : thumbs,
+        accuracyRating: next.accuracyRating !== undefined ? next.accuracyRating : accuracyRating,
+        comment: next.comment !== undefined ? next.comment : comment
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleThumbs = (value: -1 | 1) => {
+    const nextValue = thumbs === value ? null : value;
+    setThumbs(nextValue);
+    save({ thumbs: nextValue });
+  };
+
+  const handleRating = (value: number) => {
+    setAccuracyRating(value);
+    save({ accuracyRating: value });
+  };
+
+  const handleSaveComment = async () => {
+    await save({ comment });
+    setShowComment(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-1">
+          <Button
+            variant={thumbs === 1 ? 'default' : 'ghost'}
+            size="sm"
+            className="h-7 w-7 p-0"
+            disabled={isSaving}
+            onClick={() => handleThumbs(1)}
+            title="Good match"
+          >
+            <ThumbsUp className="h-3 w-3" />
+          </Button>
+          <Button
+            variant={thumbs === -1 ? 'destructive' : 'ghost'}
+            size="sm"
+            className="h-7 w-7 p-0"
+            disabled={isSaving}
+            onClick={() => handleThumbs(-1)}
+            title="Poor match"
+          >
+            <ThumbsDown className="h-3 w-3" />
+          </Button>
+        </div>
+        <div className="flex items-center">
+          {[1, 2, 3, 4, 5].map((value) => (
+            <button
+              key={value}
+              type="button"
+              disabled={isSaving}
+              onClick={() => handleRating(value)}
+              className="p-0.5"
+              title={`Rate ${value} of 5`}
+            >
+              <Star
+                className={`h-3 w-3 ${accuracyRating && value <= accuracyRating ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground'}`}
+              />
+            </button>
+          ))}
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 w-7 p-0"
+          onClick={() => setShowComment(!showComment)}
+          title="Add a comment"
+        >
+          <MessageSquare className={`h-3 w-3 ${comment ? 'text-primary' : ''}`} />
+        </Button>
+      </div>
+      {showComment && (
+        <div className="space-y-2">
+          <Textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Why is this a good or poor match?"
+            className="min-h-[60px] text-xs"
+          />
+          <div className="flex justify-end">
+            <Button size="sm" onClick={handleSaveComment} disabled={isSaving}>
+              Save Feedback
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MatchFeedback;
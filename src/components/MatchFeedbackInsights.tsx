@@ -0,0 +1,126 @@
+import { useState, useEffect } from 'react';
+import { Brain, ListChecks, ThumbsUp, ThumbsDown, Star, RefreshCw } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import {
+  matchFeedbackService,
+  DEFAULT_MATCH_WEIGHTS,
+  MATCH_FACTORS,
+  ScoringModeAccuracy,
+  LearnedWeights
+} from '@/services/matchFeedbackService';
+
+interface MatchFeedbackInsightsProps {
+  learnedWeights: LearnedWeights | null;
+}
+
+const factorLabels: Record<string, string> = {
+  skills: 'Skills',
+  role: 'Role',
+  experience: 'Experience',
+  location: 'Location',
+  bio: 'Bio'
+};
+
+const MatchFeedbackInsights = ({ learnedWeights }: MatchFeedbackInsightsProps) => {
+  const [accuracy, setAccuracy] = useState<ScoringModeAccuracy[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchAccuracy = async () => {
+      try {
+        setAccuracy(await matchFeedbackService.getScoringModeAccuracy());
+      } catch (error) {
+        console.error('Error fetching match feedback accuracy:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchAccuracy();
+  }, []);
+
+  if (loading) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <RefreshCw className="h-6 w-6 mx-auto animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {accuracy.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No feedback yet. Rate matches with thumbs or stars to see how each scoring mode performs.
+          </p>
+        ) : accuracy.map((mode) => {
+          const approval = mode.thumbsUp + mode.thumbsDown > 0
+            ? Math.round((mode.thumbsUp / (mode.thumbsUp + mode.thumbsDown)) * 100)
+            : null;
+
+          return (
+            <Card key={mode.scoringMode}>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2 text-base">
+                  {mode.scoringMode === 'ai' ? <Brain className="h-5 w-5" /> : <ListChecks className="h-5 w-5" />}
+                  <span>{mode.scoringMode === 'ai' ? 'AI Matching' : 'Rule-based Matching'}</span>
+                </CardTitle>
+                <CardDescription>{mode.feedbackCount} rated matches</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="flex items-center space-x-2">
+                    <ThumbsUp className="h-4 w-4 text-green-600" />
+                    <span>{mode.thumbsUp}</span>
+                    <ThumbsDown className="h-4 w-4 text-red-600 ml-2" />
+                    <span>{mode.thumbsDown}</span>
+                  </span>
+                  {approval !== null && <Badge variant="secondary">{approval}% approval</Badge>}
+                </div>
+                {approval !== null && <Progress value={approval} className="h-2" />}
+                <div className="flex items-center justify-between text-sm text-muted-foreground">
+                  <span className="flex items-center space-x-1">
+                    <Star className="h-4 w-4 text-yellow-500" />
+                    <span>Avg rating: {mode.avgAccuracyRating ?? '—'} / 5</span>
+                  </span>
+                  <span>Avg score: {mode.avgMatchScore !== null ? `${Math.round(mode.avgMatchScore)}%` : '—'}</span>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      {learnedWeights && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Rule-based Scoring Weights</CardTitle>
+            <CardDescription>
+              {learnedWeights.isLearned
+                ? `Tuned from ${learnedWeights.sampleSize} rated matches`
+                : `Using defaults until at least 10 rated matches are available (${learnedWeights.sampleSize} so far)`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {MATCH_FACTORS.map((factor) => (
+              <div key={factor} className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span>{factorLabels[factor]}</span>
+                  <span className="text-muted-foreground">
+                    {learnedWeights.weights[factor]}% <span className="text-xs">(default {DEFAULT_MATCH_WEIGHTS[factor]}%)</span>
+                  </span>
+                </div>
+                <Progress value={learnedWeights.weights[factor]} className="h-2" />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default MatchFeedbackInsights;
@@ -0,0 +1,64 @@
+import { History, Brain, ListChecks, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import type { MatchRunSummary } from '@/services/matchService';
+
+interface MatchHistoryProps {
+  runs: MatchRunSummary[];
+  selectedRunId?: string | null;
+  loading?: boolean;
+  onSelectRun: (runId: string) => void;
+}
+
+const MatchHistory = ({ runs, selectedRunId, loading, onSelectRun }: MatchHistoryProps) => {
+  if (loading) {
+    return (
+      <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+        <RefreshCw className="h-4 w-4 animate-spin" />
+        <span>Loading previous results...</span>
+      </div>
+    );
+  }
+
+  if (runs.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No previous results yet. Run a match to build up history.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2 text-sm font-medium">
+        <History className="h-4 w-4" />
+        <span>Previous Results</span>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {runs.map((run) => (
+          <Button
+            key={run.runId}
+            variant={selectedRunId === run.runId ? 'default' : 'outline'}
+            size="sm"
+            className="h-auto py-2 flex items-center space-x-2"
+            onClick={() => onSelectRun(run.runId)}
+          >
+            {run.scoringMode === 'ai' ? (
+              <Brain className="h-3 w-3" />
+            ) : (
+              <ListChecks className="h-3 w-3" />
+            )}
+            <span className="text-xs">
+              {new Date(run.runAt).toLocaleDateString()} {new Date(run.runAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </span>
+            <Badge variant="secondary" className="text-xs">
+              {run.matchCount} matches · top {Math.round(run.topScore)}%
+            </Badge>
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MatchHistory;
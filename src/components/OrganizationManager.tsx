@@ -0,0 +1,197 @@
+import { useState, useEffect } from 'react';
+import { Plus, RefreshCw, Save, Building2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { useUserRole } from '@/hooks/useUserRole';
+import { organizationService, Organization } from '@/services/organizationService';
+
+interface OrganizationDraft {
+  name: string;
+  domain: string;
+}
+
+// Global admins see and manage every organization; org admins only rename their own.
+// Domains are admin-only because they decide where new signups land.
+const OrganizationManager = () => {
+  const { toast } = useToast();
+  const { isAdmin } = useUserRole();
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [memberCounts, setMemberCounts] = useState<Map<string, number>>(new Map());
+  const [drafts, setDrafts] = useState<Map<string, OrganizationDraft>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [newName, setNewName] = useState('');
+  const [newDomain, setNewDomain] = useState('');
+
+  useEffect(() => {
+    fetchOrganizations();
+  }, []);
+
+  const fetchOrganizations = async () => {
+    try {
+      const [organizationList, counts] = await Promise.all([
+        organizationService.getOrganizations(),
+        organizationService.getMemberCounts()
+      ]);
+      setOrganizations(organizationList);
+      setMemberCounts(counts);
+      setDrafts(new Map(organizationList.map(org => [org.id, { name: org.name, domain: org.domain || '' }])));
+    } catch (error) {
+      console.error('Error fetching organizations:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load organizations",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateDraft = (id: string, changes: Partial<OrganizationDraft>) => {
+    setDrafts(prev => {
+      const next = new Map(prev);
+      next.set(id, { ...next.get(id)!, ...changes });
+      return next;
+    });
+  };
+
+  const isDirty = (org: Organization) => {
+    const draft = drafts.get(org.id);
+    return !!draft && (draft.name.trim() !== org.name || draft.domain.trim() !== (org.domain || ''));
+  };
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    try {
+      await organizationService.createOrganization(newName, newDomain);
+      setNewName('');
+      setNewDomain('');
+      toast({
+        title: "Success",
+        description: "Organization created",
+      });
+      fetchOrganizations();
+    } catch (error) {
+      console.error('Error creating organization:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create organization. Domains must be unique",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSave = async (org: Organization) => {
+    const draft = drafts.get(org.id);
+    if (!draft || !draft.name.trim()) return;
+
+    try {
+      await organizationService.updateOrganization(org.id, {
+        name: draft.name.trim(),
+        ...(isAdmin && { domain: draft.domain })
+      });
+      toast({
+        title: "Success",
+        description: "Organization updated",
+      });
+      fetchOrganizations();
+    } catch (error) {
+      console.error('Error updating organization:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update organization",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <RefreshCw className="h-6 w-6 mx-auto animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {isAdmin && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">New Organization</CardTitle>
+            <CardDescription>
+              Users who sign up with an email at the domain join the organization automatically.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex gap-2">
+              <Input
+                placeholder="Name, e.g. Acme Inc."
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+              />
+              <Input
+                placeholder="Email domain, e.g. acme.com"
+                value={newDomain}
+                onChange={(e) => setNewDomain(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+              />
+              <Button onClick={handleCreate} disabled={!newName.trim()}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Organization
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">{isAdmin ? 'Organizations' : 'Your Organization'}</CardTitle>
+          <CardDescription>
+            Each organization only sees its own talent, opportunities and teams.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {organizations.length === 0 && (
+            <p className="text-sm text-muted-foreground">No organizations yet.</p>
+          )}
+          {organizations.map(org => {
+            const draft = drafts.get(org.id) || { name: org.name, domain: org.domain || '' };
+
+            return (
+              <div key={org.id} className="flex items-center gap-2 border rounded-lg p-3">
+                <Building2 className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                <Input
+                  value={draft.name}
+                  onChange={(e) => updateDraft(org.id, { name: e.target.value })}
+                />
+                <Input
+                  placeholder="No domain (personal workspace)"
+                  value={draft.domain}
+                  onChange={(e) => updateDraft(org.id, { domain: e.target.value })}
+                  disabled={!isAdmin}
+                />
+                <Badge variant="secondary" className="whitespace-nowrap">
+                  {memberCounts.get(org.id) || 0} members
+                </Badge>
+                <Button
+                  size="sm"
+                  onClick={() => handleSave(org)}
+                  disabled={!isDirty(org) || !draft.name.trim()}
+                >
+                  <Save className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default OrganizationManager;
@@ -0,0 +1,48 @@
+import { AlertTriangle } from 'lucide-react';
+import { ParsedFieldBasis, ParsedFieldEvidence, isLowConfidence } from '@/services/resumeParsingService';
+import { spanSnippet } from '@/services/resumeRuleParser';
+
+interface ParsedFieldSourceProps {
+  // Resume text the field was parsed from
+  text: string;
+  evidence?: ParsedFieldEvidence;
+}
+
+const basisLabels: Record<ParsedFieldBasis, string> = {
+  agreed: 'AI and rule parsers agree',
+  conflicting: 'AI and rule parsers disagree',
+  ai_only: 'AI parser only',
+  rules_only: 'Rule parser only',
+  missing: ''
+};
+
+// Confidence of a parsed form field and the resume text it was read from
+const ParsedFieldSource = ({ text, evidence }: ParsedFieldSourceProps) => {
+  if (!evidence || evidence.basis === 'missing') return null;
+
+  const low = isLowConfidence(evidence);
+  const snippet = evidence.span ? spanSnippet(text, evidence.span) : null;
+
+  return (
+    <div className={`rounded-md border px-2 py-1.5 text-xs space-y-1 ${low ? 'border-amber-300 bg-amber-50' : 'bg-muted/40'}`}>
+      <div className="flex items-center gap-1.5">
+        {low && <AlertTriangle className="w-3 h-3 text-amber-600 shrink-0" />}
+        <span className={low ? 'font-medium text-amber-800' : 'text-muted-foreground'}>
+          {low ? 'Low confidence' : 'Confidence'} {Math.round(evidence.confidence * 100)}%
+        </span>
+        <span className="text-muted-foreground">· {basisLabels[evidence.basis]}</span>
+      </div>
+      {snippet ? (
+        <p className="text-muted-foreground whitespace-pre-wrap break-words">
+          {snippet.before}
+          <mark className="bg-yellow-200 text-foreground rounded-sm px-0.5">{snippet.match}</mark>
+          {snippet.after}
+        </p>
+      ) : (
+        <p className="text-muted-foreground italic">Not found as written in the resume text</p>
+      )}
+    </div>
+  );
+};
+
+export default ParsedFieldSource;
@@ -0,0 +1,213 @@
+import { useState, useEffect } from 'react';
+import { Plus, Trash2, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { AppPermission, AppRole, useUserRole } from '@/hooks/useUserRole';
+import { permissionService, PERMISSIONS, PERMISSION_LABELS, UserPermissionGrant } from '@/services/permissionService';
+import { DirectoryUser } from '@/components/TeamManager';
+
+interface PermissionManagerProps {
+  users: DirectoryUser[];
+}
+
+// Admins always hold every permission, so only the other roles are configurable
+const CONFIGURABLE_ROLES: AppRole[] = ['manager', 'user'];
+
+const PermissionManager = ({ users }: PermissionManagerProps) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  // Role defaults apply to every organization, so only global admins change them
+  const { isAdmin } = useUserRole();
+  const [rolePermissions, setRolePermissions] = useState<Map<AppRole, AppPermission[]>>(new Map());
+  const [grants, setGrants] = useState<UserPermissionGrant[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [grantUserId, setGrantUserId] = useState('');
+  const [grantPermission, setGrantPermission] = useState<AppPermission | ''>('');
+
+  const linkedUsers = users.filter(u => u.user_id);
+
+  useEffect(() => {
+    fetchPermissions();
+  }, []);
+
+  const fetchPermissions = async () => {
+    try {
+      const [defaults, grantList] = await Promise.all([
+        permissionService.getRolePermissions(),
+        permissionService.getUserGrants()
+      ]);
+      setRolePermissions(defaults);
+      setGrants(grantList);
+    } catch (error) {
+      console.error('Error fetching permissions:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load permissions",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const userLabel = (userId: string) => {
+    const match = users.find(u => u.user_id === userId);
+    if (!match) return 'Unknown user';
+    return `${match.first_name || ''} ${match.last_name || ''}`.trim() || match.email;
+  };
+
+  const handleToggleRolePermission = async (role: AppRole, permission: AppPermission, enabled: boolean) => {
+    try {
+      await permissionService.setRolePermission(role, permission, enabled);
+      fetchPermissions();
+    } catch (error) {
+      console.error('Error updating role permission:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update role permission",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleGrant = async () => {
+    if (!user || !grantUserId || !grantPermission) return;
+
+    try {
+      await permissionService.grantUserPermission(grantUserId, grantPermission, user.id);
+      setGrantUserId('');
+      setGrantPermission('');
+      fetchPermissions();
+    } catch (error) {
+      console.error('Error granting permission:', error);
+      toast({
+        title: "Error",
+        description: "Failed to grant permission",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRevoke = async (grant: UserPermissionGrant) => {
+    try {
+      await permissionService.revokeUserPermission(grant.id);
+      fetchPermissions();
+    } catch (error) {
+      console.error('Error revoking permission:', error);
+      toast({
+        title: "Error",
+        description: "Failed to revoke permission",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <RefreshCw className="h-6 w-6 mx-auto animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Role Defaults</CardTitle>
+          <CardDescription>
+            Permissions everyone with a role gets. Admins always have every permission.
+            {!isAdmin && ' These defaults are shared by all organizations and can only be changed by a global admin.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            <div className="grid grid-cols-[1fr_repeat(2,6rem)] gap-2 text-sm font-medium text-muted-foreground">
+              <span>Permission</span>
+              {CONFIGURABLE_ROLES.map(role => (
+                <span key={role} className="text-center capitalize">{role}</span>
+              ))}
+            </div>
+            {PERMISSIONS.map(permission => (
+              <div key={permission} className="grid grid-cols-[1fr_repeat(2,6rem)] gap-2 items-center">
+                <div>
+                  <p className="text-sm font-medium">{PERMISSION_LABELS[permission].label}</p>
+                  <p className="text-xs text-muted-foreground">{PERMISSION_LABELS[permission].description}</p>
+                </div>
+                {CONFIGURABLE_ROLES.map(role => (
+                  <div key={role} className="flex justify-center">
+                    <Checkbox
+                      checked={(rolePermissions.get(role) || []).includes(permission)}
+                      onCheckedChange={(checked) => handleToggleRolePermission(role, permission, checked === true)}
+                      disabled={!isAdmin}
+                    />
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Individual Grants</CardTitle>
+          <CardDescription>Give a single user a permission their role doesn't include.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            <Select value={grantUserId} onValueChange={setGrantUserId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select user" />
+              </SelectTrigger>
+              <SelectContent>
+                {linkedUsers.map(u => (
+                  <SelectItem key={u.user_id!} value={u.user_id!}>{userLabel(u.user_id!)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={grantPermission} onValueChange={(value) => setGrantPermission(value as AppPermission)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select permission" />
+              </SelectTrigger>
+              <SelectContent>
+                {PERMISSIONS.map(permission => (
+                  <SelectItem key={permission} value={permission}>{PERMISSION_LABELS[permission].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleGrant} disabled={!grantUserId || !grantPermission}>
+              <Plus className="h-4 w-4 mr-2" />
+              Grant
+            </Button>
+          </div>
+
+          {grants.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No individual grants.</p>
+          ) : (
+            <div className="space-y-2">
+              {grants.map(grant => (
+                <div key={grant.id} className="flex items-center justify-between border rounded-lg px-3 py-2">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">{userLabel(grant.user_id)}</span>
+                    <Badge variant="secondary">{PERMISSION_LABELS[grant.permission].label}</Badge>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => handleRevoke(grant)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default PermissionManager;
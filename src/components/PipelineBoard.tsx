@@ -0,0 +1,443 @@
+import { useState, useEffect } from 'react';
+import { UserPlus, History, Trash2, Search, GripVertical, Trophy, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { pipelineService, PipelineCandidate, PipelineStage, StageEvent } from '@/services/pipelineService';
+
+interface PipelineBoardProps {
+  opportunityId: string;
+  userId?: string;
+  // Bump to reload the board after candidates are added elsewhere on the page
+  refreshKey?: number;
+  // Called after a change to the opportunity (hired, or the hired candidate moved out or removed)
+  onOpportunityChanged?: () => void;
+}
+
+interface TalentOption {
+  id: string;
+  first_name: string | null;
+  last_name: string | null;
+  talent_role: string;
+}
+
+// A move waiting for a rejection reason or a hire confirmation
+interface PendingMove {
+  candidate: PipelineCandidate;
+  stage: PipelineStage;
+  orderedIds: string[];
+}
+
+const candidateName = (candidate: PipelineCandidate) =>
+  `${candidate.talent_profiles?.first_name || ''} ${candidate.talent_profiles?.last_name || ''}`.trim()
+  || candidate.talent_profiles?.email
+  || 'Unknown';
+
+const timeInStage = (enteredAt: string) => {
+  const days = Math.floor((Date.now() - new Date(enteredAt).getTime()) / (24 * 60 * 60 * 1000));
+  if (days < 1) return 'Today';
+  if (days === 1) return '1 day';
+  return `${days} days`;
+};
+
+const stageAccent = (stage: PipelineStage) => {
+  if (stage.outcome === 'hired') return 'border-t-green-500';
+  if (stage.outcome === 'rejected') return 'border-t-red-500';
+  return 'border-t-primary';
+};
+
+const PipelineBoard = ({ opportunityId, userId, refreshKey, onOpportunityChanged }: PipelineBoardProps) => {
+  const { toast } = useToast();
+  const [stages, setStages] = useState<PipelineStage[]>([]);
+  const [candidates, setCandidates] = useState<PipelineCandidate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [pendingMove, setPendingMove] = useState<PendingMove | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+  const [isMoving, setIsMoving] = useState(false);
+  const [addDialogOpen, setAddDialogOpen] = useState(false);
+  const [talentOptions, setTalentOptions] = useState<TalentOption[]>([]);
+  const [talentSearch, setTalentSearch] = useState('');
+  const [selectedTalentIds, setSelectedTalentIds] = useState<Set<string>>(new Set());
+  const [historyCandidate, setHistoryCandidate] = useState<PipelineCandidate | null>(null);
+  const [history, setHistory] = useState<StageEvent[]>([]);
+
+  useEffect(() => {
+    fetchBoard();
+  }, [opportunityId, refreshKey]);
+
+  const fetchBoard = async () => {
+    try {
+      const [stageList, candidateList] = await Promise.all([
+        pipelineService.getStages(),
+        pipelineService.getCandidates(opportunityId)
+      ]);
+      setStages(stageList);
+      setCandidates(candidateList);
+    } catch (error) {
+      console.error('Error fetching pipeline:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the candidate pipeline",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const candidatesIn = (stageId: string) =>
+    candidates.filter(candidate => candidate.stage_id === stageId).sort((a, b) => a.position - b.position);
+
+  const handleDrop = (stage: PipelineStage, beforeCandidateId: string | null) => {
+    const candidate = candidates.find(item => item.id === draggedId);
+    setDraggedId(null);
+    setDropTarget(null);
+    if (!candidate || candidate.id === beforeCandidateId) return;
+
+    const orderedIds = candidatesIn(stage.id).map(item => item.id).filter(id => id !== candidate.id);
+    const insertAt = beforeCandidateId ? orderedIds.indexOf(beforeCandidateId) : -1;
+    orderedIds.splice(insertAt === -1 ? orderedIds.length : insertAt, 0, candidate.id);
+
+    const changingStage = candidate.stage_id !== stage.id;
+    if (changingStage && (stage.outcome === 'rejected' || stage.outcome === 'hired')) {
+      setRejectionReason('');
+      setPendingMove({ candidate, stage, orderedIds });
+      return;
+    }
+    moveCandidate({ candidate, stage, orderedIds });
+  };
+
+  const moveCandidate = async (move: PendingMove, reason?: string) => {
+    const fromStage = stages.find(stage => stage.id === move.candidate.stage_id);
+    const affectsOpportunity = move.stage.outcome === 'hired' || (fromStage?.outcome === 'hired' && move.stage.id !== fromStage.id);
+
+    // Optimistic update so the card lands immediately
+    setCandidates(current => current.map(item => {
+      const index = move.orderedIds.indexOf(item.id);
+      if (item.id === move.candidate.id) {
+        return { ...item, stage_id: move.stage.id, position: index, rejection_reason: reason ?? item.rejection_reason };
+      }
+      return index === -1 ? item : { ...item, position: index };
+    }));
+
+    setIsMoving(true);
+    try {
+      await pipelineService.moveCandidate(move.candidate.id, move.stage.id, move.orderedIds, reason);
+      if (move.stage.outcome === 'hired') {
+        toast({
+          title: "Candidate hired",
+          description: `${candidateName(move.candidate)} is now assigned and the opportunity is filled.`,
+        });
+      }
+      if (affectsOpportunity) onOpportunityChanged?.();
+    } catch (error) {
+      console.error('Error moving candidate:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to move candidate",
+        variant: "destructive",
+      });
+    }
+    setIsMoving(false);
+    setPendingMove(null);
+    fetchBoard();
+  };
+
+  const openAddDialog = async () => {
+    setAddDialogOpen(true);
+    setSelectedTalentIds(new Set());
+    setTalentSearch('');
+    try {
+      const { data, error } = await supabase
+        .from('talent_profiles')
+        .select('id, first_name, last_name, talent_role')
+        .eq('review_status', 'approved')
+        .order('first_name');
+
+      if (error) throw error;
+      setTalentOptions(data || []);
+    } catch (error) {
+      console.error('Error fetching talents:', error);
+    }
+  };
+
+  const handleAddCandidates = async () => {
+    const firstStage = stages.find(stage => !stage.outcome);
+    if (!firstStage) return;
+
+    try {
+      await pipelineService.addCandidates(opportunityId, Array.from(selectedTalentIds), firstStage.id, userId);
+      setAddDialogOpen(false);
+      fetchBoard();
+    } catch (error) {
+      console.error('Error adding candidates:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add candidates",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRemove = async (candidate: PipelineCandidate) => {
+    try {
+      await pipelineService.removeCandidate(candidate.id);
+      setCandidates(current => current.filter(item => item.id !== candidate.id));
+      if (stages.find(stage => stage.id === candidate.stage_id)?.outcome === 'hired') onOpportunityChanged?.();
+    } catch (error) {
+      console.error('Error removing candidate:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove candidate",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openHistory = async (candidate: PipelineCandidate) => {
+    setHistoryCandidate(candidate);
+    setHistory([]);
+    try {
+      setHistory(await pipelineService.getStageHistory(candidate.id));
+    } catch (error) {
+      console.error('Error fetching stage history:', error);
+    }
+  };
+
+  const stageLabel = (stageId: string | null) => stages.find(stage => stage.id === stageId)?.label || 'Unknown';
+  const onBoard = new Set(candidates.map(candidate => candidate.talent_profile_id));
+  const filteredOptions = talentOptions.filter(talent => {
+    if (onBoard.has(talent.id)) return false;
+    const name = `${talent.first_name || ''} ${talent.last_name || ''} ${talent.talent_role}`.toLowerCase();
+    return name.includes(talentSearch.toLowerCase());
+  });
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {candidates.length} candidate{candidates.length === 1 ? '' : 's'} · drag cards between stages
+        </p>
+        <Button size="sm" variant="outline" onClick={openAddDialog}>
+          <UserPlus className="h-4 w-4 mr-2" />
+          Add Candidates
+        </Button>
+      </div>
+
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {stages.map(stage => {
+          const column = candidatesIn(stage.id);
+          return (
+            <div
+              key={stage.id}
+              className={`flex-shrink-0 w-56 rounded-lg border border-t-4 ${stageAccent(stage)} bg-muted/40 ${dropTarget === stage.id ? 'ring-2 ring-primary/50' : ''}`}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropTarget(stage.id);
+              }}
+              onDragLeave={() => setDropTarget(current => (current === stage.id ? null : current))}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(stage, null);
+              }}
+            >
+              <div className="flex items-center justify-between px-3 py-2">
+                <span className="text-sm font-semibold flex items-center gap-1">
+                  {stage.outcome === 'hired' && <Trophy className="h-3 w-3 text-green-600" />}
+                  {stage.outcome === 'rejected' && <XCircle className="h-3 w-3 text-red-600" />}
+                  {stage.label}
+                </span>
+                <Badge variant="secondary" className="text-xs">{column.length}</Badge>
+              </div>
+              <div className="space-y-2 px-2 pb-2 min-h-[80px]">
+                {column.map(candidate => (
+                  <div
+                    key={candidate.id}
+                    draggable={!isMoving}
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = 'move';
+                      setDraggedId(candidate.id);
+                    }}
+                    onDragEnd={() => {
+                      setDraggedId(null);
+                      setDropTarget(null);
+                    }}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      e.stopPropagation();
+                      handleDrop(stage, candidate.id);
+                    }}
+                    className={`rounded-md border bg-background p-2 shadow-sm cursor-grab active:cursor-grabbing ${draggedId === candidate.id ? 'opacity-50' : ''}`}
+                  >
+                    <div className="flex items-start gap-1">
+                      <GripVertical className="h-4 w-4 text-muted-foreground flex-shrink-0 mt-0.5" />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">{candidateName(candidate)}</p>
+                        <p className="text-xs text-muted-foreground capitalize truncate">
+                          {candidate.talent_profiles?.talent_role?.replace('_', ' ')}
+                          {candidate.talent_profiles?.talent_type === 'prospect' ? ' · Prospect' : ''}
+                        </p>
+                        <p className="text-[11px] text-muted-foreground mt-1">
+                          In stage: {timeInStage(candidate.stage_entered_at)}
+                        </p>
+                        {stage.outcome === 'rejected' && candidate.rejection_reason && (
+                          <p className="text-[11px] text-red-700 mt-1 line-clamp-2" title={candidate.rejection_reason}>
+                            {candidate.rejection_reason}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex justify-end gap-1 mt-1">
+                      <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => openHistory(candidate)} title="Stage history">
+                        <History className="h-3 w-3" />
+                      </Button>
+                      {stage.outcome !== 'hired' && (
+                        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => handleRemove(candidate)} title="Remove from pipeline">
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Rejection reason / hire confirmation */}
+      <Dialog open={!!pendingMove} onOpenChange={(open) => !open && setPendingMove(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {pendingMove?.stage.outcome === 'rejected' ? 'Reject candidate' : 'Hire candidate'}
+            </DialogTitle>
+            <DialogDescription>
+              {pendingMove?.stage.outcome === 'rejected'
+                ? `Why is ${pendingMove ? candidateName(pendingMove.candidate) : ''} being rejected?`
+                : `Hiring ${pendingMove ? candidateName(pendingMove.candidate) : ''} creates their assignment and marks this opportunity as filled.`}
+            </DialogDescription>
+          </DialogHeader>
+          {pendingMove?.stage.outcome === 'rejected' && (
+            <Textarea
+              value={rejectionReason}
+              onChange={(e) => setRejectionReason(e.target.value)}
+              placeholder="e.g. Missing required skills, declined offer, failed technical interview"
+              className="min-h-[80px]"
+            />
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingMove(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={pendingMove?.stage.outcome === 'rejected' ? 'destructive' : 'default'}
+              disabled={isMoving || (pendingMove?.stage.outcome === 'rejected' && !rejectionReason.trim())}
+              onClick={() => pendingMove && moveCandidate(
+                pendingMove,
+                pendingMove.stage.outcome === 'rejected' ? rejectionReason : undefined
+              )}
+            >
+              {pendingMove?.stage.outcome === 'rejected' ? 'Reject' : 'Hire'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Add candidates */}
+      <Dialog open={addDialogOpen} onOpenChange={setAddDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Candidates</DialogTitle>
+            <DialogDescription>
+              Selected talents start in the {stages.find(stage => !stage.outcome)?.label || 'first'} stage.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={talentSearch}
+              onChange={(e) => setTalentSearch(e.target.value)}
+              placeholder="Search talents..."
+              className="pl-9"
+            />
+          </div>
+          <div className="max-h-72 overflow-y-auto space-y-1">
+            {filteredOptions.map(talent => (
+              <label key={talent.id} className="flex items-center gap-3 rounded-md px-2 py-1.5 hover:bg-muted cursor-pointer">
+                <Checkbox
+                  checked={selectedTalentIds.has(talent.id)}
+                  onCheckedChange={(checked) => {
+                    const next = new Set(selectedTalentIds);
+                    if (checked) next.add(talent.id);
+                    else next.delete(talent.id);
+                    setSelectedTalentIds(next);
+                  }}
+                />
+                <span className="text-sm flex-1">{talent.first_name} {talent.last_name}</span>
+                <span className="text-xs text-muted-foreground capitalize">{talent.talent_role.replace('_', ' ')}</span>
+              </label>
+            ))}
+            {filteredOptions.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">No talents to add</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAddDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleAddCandidates} disabled={selectedTalentIds.size === 0}>
+              Add {selectedTalentIds.size > 0 ? selectedTalentIds.size : ''} to Pipeline
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Stage history */}
+      <Dialog open={!!historyCandidate} onOpenChange={(open) => !open && setHistoryCandidate(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Stage History</DialogTitle>
+            <DialogDescription>
+              {historyCandidate ? candidateName(historyCandidate) : ''}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 max-h-80 overflow-y-auto">
+            {history.map(event => (
+              <div key={event.id} className="border-l-2 border-primary/40 pl-3">
+                <p className="text-sm">
+                  {event.from_stage_id ? `${stageLabel(event.from_stage_id)} → ` : 'Added to '}
+                  <span className="font-medium">{stageLabel(event.to_stage_id)}</span>
+                </p>
+                <p className="text-xs text-muted-foreground">{new Date(event.changed_at).toLocaleString()}</p>
+                {event.rejection_reason && (
+                  <p className="text-xs text-red-700 mt-1">Reason: {event.rejection_reason}</p>
+                )}
+              </div>
+            ))}
+            {history.length === 0 && (
+              <p className="text-sm text-muted-foreground">No stage changes recorded yet</p>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default PipelineBoard;
@@ -0,0 +1,188 @@
+import { useState, useEffect } from 'react';
+import { Plus, Trash2, RefreshCw, ArrowUp, ArrowDown, Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { pipelineService, stageKeyFromLabel, PipelineStage } from '@/services/pipelineService';
+
+const PipelineStageManager = () => {
+  const { toast } = useToast();
+  const [stages, setStages] = useState<PipelineStage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newLabel, setNewLabel] = useState('');
+  const [labels, setLabels] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    fetchStages();
+  }, []);
+
+  const fetchStages = async () => {
+    try {
+      const stageList = await pipelineService.getStages();
+      setStages(stageList);
+      setLabels(Object.fromEntries(stageList.map(stage => [stage.id, stage.label])));
+    } catch (error) {
+      console.error('Error fetching pipeline stages:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load pipeline stages",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    const key = stageKeyFromLabel(newLabel);
+    if (!key) return;
+
+    try {
+      await pipelineService.createStage({ key, label: newLabel.trim() });
+      setNewLabel('');
+      fetchStages();
+    } catch (error) {
+      console.error('Error creating pipeline stage:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add stage. Stage names must be unique.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRename = async (stage: PipelineStage) => {
+    const label = labels[stage.id]?.trim();
+    if (!label || label === stage.label) return;
+
+    try {
+      await pipelineService.renameStage(stage.id, label);
+      fetchStages();
+    } catch (error) {
+      console.error('Error renaming pipeline stage:', error);
+      toast({
+        title: "Error",
+        description: "Failed to rename stage",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Working stages move among themselves; hired and rejected always stay last
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= stages.length || stages[target].outcome) return;
+
+    const reordered = [...stages];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setStages(reordered);
+
+    try {
+      await pipelineService.reorderStages(reordered.map(stage => stage.id));
+    } catch (error) {
+      console.error('Error reordering pipeline stages:', error);
+      toast({
+        title: "Error",
+        description: "Failed to reorder stages",
+        variant: "destructive",
+      });
+      fetchStages();
+    }
+  };
+
+  const handleDelete = async (stage: PipelineStage) => {
+    if (!window.confirm(`Delete the "${stage.label}" stage?`)) return;
+
+    try {
+      await pipelineService.deleteStage(stage.id);
+      fetchStages();
+    } catch (error) {
+      console.error('Error deleting pipeline stage:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete stage",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <RefreshCw className="h-6 w-6 mx-auto animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Pipeline Stages</CardTitle>
+        <CardDescription>
+          Stages every opportunity's candidate pipeline moves through. Hired and Rejected are fixed outcomes.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {stages.map((stage, index) => (
+            <div key={stage.id} className="flex items-center gap-2">
+              <div className="flex flex-col">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-5 w-6 p-0"
+                  disabled={!!stage.outcome || index === 0}
+                  onClick={() => handleMove(index, -1)}
+                >
+                  <ArrowUp className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-5 w-6 p-0"
+                  disabled={!!stage.outcome || !!stages[index + 1]?.outcome || index === stages.length - 1}
+                  onClick={() => handleMove(index, 1)}
+                >
+                  <ArrowDown className="h-3 w-3" />
+                </Button>
+              </div>
+              <Input
+                value={labels[stage.id] ?? stage.label}
+                onChange={(e) => setLabels(prev => ({ ...prev, [stage.id]: e.target.value }))}
+                onBlur={() => handleRename(stage)}
+                className="h-9"
+              />
+              {stage.outcome ? (
+                <Badge variant="secondary" className="flex items-center gap-1 capitalize">
+                  <Lock className="h-3 w-3" />
+                  {stage.outcome}
+                </Badge>
+              ) : (
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(stage)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            placeholder="New stage, e.g. Client Interview"
+            value={newLabel}
+            onChange={(e) => setNewLabel(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          />
+          <Button onClick={handleCreate} disabled={!stageKeyFromLabel(newLabel)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Stage
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PipelineStageManager;
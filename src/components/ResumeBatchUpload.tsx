@@ -0,0 +1,281 @@
+import { useState, useRef } from 'react';
+import { Upload, FileText, Loader2, CheckCircle, AlertCircle, XCircle, Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import TeamSelect from '@/components/TeamSelect';
+import { RESUME_ACCEPT, RESUME_FORMATS_LABEL } from '@/services/resumeExtractionService';
+import { resumeIngestionService, DraftDefaults, INGESTION_CONCURRENCY } from '@/services/resumeIngestionService';
+import { runWithConcurrency } from '@/services/aiScoringService';
+
+interface ResumeBatchUploadProps {
+  // Called as drafts are created, so the review queue can reload
+  onDraftsCreated: () => void;
+}
+
+type QueueStatus = 'queued' | 'parsing' | 'done' | 'failed' | 'cancelled';
+
+interface QueueItem {
+  key: string;
+  file: File;
+  status: QueueStatus;
+  message?: string;
+  // Parsed without AI
+  offline?: boolean;
+}
+
+const statusBadges: Record<QueueStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-gray-100 text-gray-800' },
+  parsing: { label: 'Parsing', className: 'bg-blue-100 text-blue-800' },
+  done: { label: 'Draft created', className: 'bg-green-100 text-green-800' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-100 text-gray-500' }
+};
+
+const ResumeBatchUpload = ({ onDraftsCreated }: ResumeBatchUploadProps) => {
+  const { toast } = useToast();
+  const [teamId, setTeamId] = useState<string | null>(null);
+  const [talentRole, setTalentRole] = useState<DraftDefaults['talentRole']>('engineer');
+  const [queue, setQueue] = useState<QueueItem[]>([]);
+  const [skipped, setSkipped] = useState<Array<{ name: string; reason: string }>>([]);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [dragActive, setDragActive] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const cancelledRef = useRef(false);
+
+  const updateItem = (key: string, changes: Partial<QueueItem>) => {
+    setQueue(items => items.map(item => (item.key === key ? { ...item, ...changes } : item)));
+  };
+
+  const handleFiles = async (selected: File[]) => {
+    if (selected.length === 0 || isRunning) return;
+
+    setIsPreparing(true);
+    let expanded;
+    try {
+      expanded = await resumeIngestionService.expandFiles(selected);
+    } catch (error) {
+      console.error('Error reading selected files:', error);
+      toast({
+        title: "Error",
+        description: "Failed to read the selected files",
+        variant: "destructive",
+      });
+      setIsPreparing(false);
+      return;
+    }
+    setIsPreparing(false);
+    setSkipped(expanded.skipped);
+
+    if (expanded.files.length === 0) {
+      toast({
+        title: "No resumes found",
+        description: `Select resumes as ${RESUME_FORMATS_LABEL}, or a ZIP archive of them.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const items: QueueItem[] = expanded.files.map((file, index) => ({
+      key: `${Date.now()}-${index}`,
+      file,
+      status: 'queued'
+    }));
+    setQueue(items);
+    await runQueue(items);
+  };
+
+  const runQueue = async (items: QueueItem[]) => {
+    const defaults: DraftDefaults = { teamId, talentRole };
+    cancelledRef.current = false;
+    setIsRunning(true);
+
+    let created = 0;
+    await runWithConcurrency(items, INGESTION_CONCURRENCY, async (item) => {
+      if (cancelledRef.current) {
+        updateItem(item.key, { status: 'cancelled' });
+        return;
+      }
+
+      updateItem(item.key, { status: 'parsing' });
+      try {
+        const { aiError } = await resumeIngestionService.ingestResume(item.file, defaults);
+        updateItem(item.key, { status: 'done', offline: !!aiError, message: aiError || undefined });
+        created++;
+        // Refresh the review queue every few drafts rather than after each one
+        if (created % 5 === 0) onDraftsCreated();
+      } catch (error) {
+        console.error('Error ingesting resume:', error);
+        updateItem(item.key, {
+          status: 'failed',
+          message: error instanceof Error ? error.message : 'Failed to process resume'
+        });
+      }
+    });
+
+    setIsRunning(false);
+    onDraftsCreated();
+    toast({
+      title: "Batch finished",
+      description: `${created} of ${items.length} resumes became draft profiles awaiting review.`,
+    });
+  };
+
+  const handleRetryFailed = () => {
+    const failed = queue.filter(item => item.status === 'failed' || item.status === 'cancelled');
+    setQueue(items => items.map(item =>
+      failed.some(f => f.key === item.key) ? { ...item, status: 'queued', message: undefined } : item));
+    runQueue(failed);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setDragActive(false);
+    handleFiles(Array.from(event.dataTransfer.files || []));
+  };
+
+  const finished = queue.filter(item => item.status !== 'queued' && item.status !== 'parsing').length;
+  const counts = queue.reduce<Record<QueueStatus, number>>((acc, item) => {
+    acc[item.status]++;
+    return acc;
+  }, { queued: 0, parsing: 0, done: 0, failed: 0, cancelled: 0 });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Upload className="w-5 h-5" />
+          Batch Resume Upload
+        </CardTitle>
+        <CardDescription>
+          Drop many resumes or a ZIP archive. Each one becomes a draft profile in the review queue below.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Team</Label>
+            <TeamSelect value={teamId} onChange={setTeamId} preselect disabled={isRunning} />
+          </div>
+          <div className="space-y-2">
+            <Label>Role</Label>
+            <Select value={talentRole} onValueChange={(value) => setTalentRole(value as DraftDefaults['talentRole'])} disabled={isRunning}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="engineer">Engineer</SelectItem>
+                <SelectItem value="designer">Designer</SelectItem>
+                <SelectItem value="pm">Product Manager</SelectItem>
+                <SelectItem value="qa">QA Engineer</SelectItem>
+                <SelectItem value="data_scientist">Data Scientist</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">Drafts start with this role; change it in the review queue.</p>
+          </div>
+        </div>
+
+        <div
+          className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
+            dragActive ? 'border-primary bg-primary/5' : 'border-gray-300 hover:border-gray-400'
+          } ${isRunning || isPreparing ? 'opacity-60 pointer-events-none' : 'cursor-pointer'}`}
+          onDragEnter={(event) => { event.preventDefault(); setDragActive(true); }}
+          onDragOver={(event) => event.preventDefault()}
+          onDragLeave={(event) => { event.preventDefault(); setDragActive(false); }}
+          onDrop={handleDrop}
+          onClick={() => inputRef.current?.click()}
+        >
+          <input
+            ref={inputRef}
+            type="file"
+            multiple
+            accept={`${RESUME_ACCEPT},.zip`}
+            className="hidden"
+            onChange={(event) => {
+              handleFiles(Array.from(event.target.files || []));
+              event.target.value = '';
+            }}
+          />
+          {isPreparing ? (
+            <Loader2 className="w-10 h-10 mx-auto mb-3 animate-spin text-muted-foreground" />
+          ) : (
+            <FileText className="w-10 h-10 mx-auto mb-3 text-muted-foreground" />
+          )}
+          <p className="text-sm font-medium">Drop resumes or a ZIP archive here, or click to choose files</p>
+          <p className="text-xs text-muted-foreground mt-1">{RESUME_FORMATS_LABEL}, up to 10MB each</p>
+        </div>
+
+        {queue.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <div className="text-sm">
+                <span className="font-medium">{finished} of {queue.length} processed</span>
+                <span className="text-muted-foreground ml-2">
+                  {counts.done} drafts · {counts.failed} failed{counts.cancelled > 0 ? ` · ${counts.cancelled} cancelled` : ''}
+                </span>
+              </div>
+              {isRunning ? (
+                <Button variant="outline" size="sm" onClick={() => { cancelledRef.current = true; }}>
+                  <Square className="w-4 h-4 mr-2" />
+                  Stop
+                </Button>
+              ) : (counts.failed > 0 || counts.cancelled > 0) && (
+                <Button variant="outline" size="sm" onClick={handleRetryFailed}>
+                  Retry {counts.failed + counts.cancelled}
+                </Button>
+              )}
+            </div>
+            <Progress value={(finished / queue.length) * 100} className="w-full" />
+
+            <div className="border rounded-md divide-y max-h-72 overflow-y-auto">
+              {queue.map(item => (
+                <div key={item.key} className="flex items-center gap-3 p-2 text-sm">
+                  {item.status === 'parsing' ? (
+                    <Loader2 className="w-4 h-4 animate-spin text-blue-500 shrink-0" />
+                  ) : item.status === 'done' ? (
+                    <CheckCircle className="w-4 h-4 text-green-500 shrink-0" />
+                  ) : item.status === 'failed' ? (
+                    <AlertCircle className="w-4 h-4 text-red-500 shrink-0" />
+                  ) : item.status === 'cancelled' ? (
+                    <XCircle className="w-4 h-4 text-gray-400 shrink-0" />
+                  ) : (
+                    <FileText className="w-4 h-4 text-muted-foreground shrink-0" />
+                  )}
+                  <span className="truncate flex-1">{item.file.name}</span>
+                  {item.offline && (
+                    <Badge variant="outline" className="text-[10px]" title={item.message}>Offline parse</Badge>
+                  )}
+                  {item.status === 'failed' && item.message && (
+                    <span className="text-xs text-red-600 truncate max-w-[40%]" title={item.message}>{item.message}</span>
+                  )}
+                  <Badge className={`text-[10px] ${statusBadges[item.status].className}`}>
+                    {statusBadges[item.status].label}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {skipped.length > 0 && (
+          <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg space-y-1">
+            <p className="text-sm font-medium text-amber-800">{skipped.length} files skipped</p>
+            <ul className="text-xs text-amber-800 max-h-32 overflow-y-auto">
+              {skipped.map(file => (
+                <li key={file.name}>{file.name}: {file.reason}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ResumeBatchUpload;
@@ -0,0 +1,243 @@
+import { useState, useEffect } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import ParsedFieldSource from '@/components/ParsedFieldSource';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { resumeStorageService, TalentResume } from '@/services/resumeStorageService';
+import {
+  resumeParsingService,
+  diffParsedProfile,
+  isLowConfidence,
+  toProfileFields,
+  ParsedFieldEvidenceMap,
+  ParsedProfileField,
+  ParsedProfileFields,
+  ReparseFieldChange
+} from '@/services/resumeParsingService';
+import { skillService, SelectedSkill } from '@/services/skillService';
+import { VERSION_FIELD_LABELS } from '@/services/talentVersionService';
+import { embeddingService } from '@/services/embeddingService';
+
+interface ResumeReparseDialogProps {
+  // The resume version to re-parse; null keeps the dialog closed
+  resume: TalentResume | null;
+  talentProfileId: string;
+  profile: Partial<Record<ParsedProfileField, unknown>>;
+  onClose: () => void;
+  onApplied: () => void;
+}
+
+// Catalog skills are offered as one change: the parsed skills the profile doesn't have yet
+const SKILLS_FIELD = 'skill_links';
+
+const ResumeReparseDialog = ({ resume, talentProfileId, profile, onClose, onApplied }: ResumeReparseDialogProps) => {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [changes, setChanges] = useState<ReparseFieldChange[]>([]);
+  const [currentSkills, setCurrentSkills] = useState<SelectedSkill[]>([]);
+  const [newSkills, setNewSkills] = useState<SelectedSkill[]>([]);
+  const [accepted, setAccepted] = useState<Set<string>>(new Set());
+  const [aiError, setAiError] = useState<string | null>(null);
+  // The text and confidence of the re-parse, shown under each parsed value
+  const [parsedText, setParsedText] = useState('');
+  const [evidence, setEvidence] = useState<ParsedFieldEvidenceMap | null>(null);
+
+  useEffect(() => {
+    if (resume) reparse(resume);
+  }, [resume?.id]);
+
+  const reparse = async (target: TalentResume) => {
+    setLoading(true);
+    setChanges([]);
+    setNewSkills([]);
+    setAiError(null);
+    setEvidence(null);
+    try {
+      const text = await resumeStorageService.getText(target);
+      const { data, aiError: parseError, evidence: fieldEvidence } = await resumeParsingService.parse(text);
+      const fieldChanges = diffParsedProfile(profile, toProfileFields(data));
+
+      const [existing, { matched }] = await Promise.all([
+        skillService.getTalentSkills(talentProfileId),
+        skillService.matchSkillNames(data.skills)
+      ]);
+      const existingIds = new Set(existing.map(skill => skill.skillId));
+      const added = matched.filter(skill => !existingIds.has(skill.skillId));
+
+      setChanges(fieldChanges);
+      setCurrentSkills(existing);
+      setNewSkills(added);
+      setAiError(parseError);
+      setParsedText(text);
+      setEvidence(fieldEvidence);
+      // Low-confidence values start out rejected
+      setAccepted(new Set([
+        ...fieldChanges.filter(change => !isLowConfidence(fieldEvidence[change.field])).map(change => change.field),
+        ...(added.length > 0 ? [SKILLS_FIELD] : [])
+      ]));
+    } catch (error) {
+      console.error('Error re-parsing resume:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to re-parse the resume",
+        variant: "destructive",
+      });
+      onClose();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = (field: string, checked: boolean) => {
+    setAccepted(previous => {
+      const next = new Set(previous);
+      if (checked) next.add(field);
+      else next.delete(field);
+      return next;
+    });
+  };
+
+  const handleApply = async () => {
+    const updates = Object.fromEntries(
+      changes.filter(change => accepted.has(change.field)).map(change => [change.field, change.value])
+    ) as Partial<ParsedProfileFields>;
+    const addSkills = accepted.has(SKILLS_FIELD) && newSkills.length > 0;
+
+    setIsApplying(true);
+    try {
+      if (Object.keys(updates).length > 0) {
+        const { error } = await supabase
+          .from('talent_profiles')
+          .update(updates)
+          .eq('id', talentProfileId);
+
+        if (error) throw error;
+      }
+      if (addSkills) {
+        await skillService.setTalentSkills(talentProfileId, [...currentSkills, ...newSkills]);
+      }
+
+      embeddingService.queueRefresh();
+
+      toast({
+        title: "Success",
+        description: "Accepted fields were applied to the profile",
+      });
+      onApplied();
+      onClose();
+    } catch (error) {
+      console.error('Error applying re-parsed fields:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update the profile",
+        variant: "destructive",
+      });
+    }
+    setIsApplying(false);
+  };
+
+  const hasChanges = changes.length > 0 || newSkills.length > 0;
+  const allFields = [...changes.map(change => change.field), ...(newSkills.length > 0 ? [SKILLS_FIELD] : [])];
+
+  return (
+    <Dialog open={!!resume} onOpenChange={(open) => !open && !isApplying && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Re-parse Resume</DialogTitle>
+          <DialogDescription>
+            {resume ? `Fields parsed from version ${resume.versionNumber} (${resume.fileName}) that differ from the profile. ` : ''}
+            Accept the ones to keep; rejected fields stay as they are. Low-confidence values start out rejected.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <RefreshCw className="h-5 w-5 mx-auto animate-spin mb-2" />
+            <p className="text-sm">Parsing resume...</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {aiError && (
+              <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg">
+                <p className="text-sm text-amber-800">Parsed offline without AI ({aiError}).</p>
+              </div>
+            )}
+
+            {!hasChanges ? (
+              <p className="text-sm text-muted-foreground">The resume matches the profile; there is nothing to update.</p>
+            ) : (
+              <>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">{accepted.size} of {allFields.length} changes accepted</span>
+                  <div className="flex gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => setAccepted(new Set(allFields))}>
+                      Accept all
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setAccepted(new Set())}>
+                      Reject all
+                    </Button>
+                  </div>
+                </div>
+                <div className="border rounded-md divide-y max-h-[28rem] overflow-y-auto">
+                  <div className="grid grid-cols-[auto_120px_1fr_1fr] gap-3 p-2 text-xs font-medium text-muted-foreground">
+                    <span className="w-4" />
+                    <span>Field</span>
+                    <span>Profile</span>
+                    <span>Resume</span>
+                  </div>
+                  {changes.map(change => (
+                    <label key={change.field} className="grid grid-cols-[auto_120px_1fr_1fr] gap-3 p-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={accepted.has(change.field)}
+                        onCheckedChange={(checked) => toggle(change.field, checked === true)}
+                      />
+                      <span className="font-medium">{change.label}</span>
+                      <span className="text-muted-foreground break-words whitespace-pre-wrap">{change.current}</span>
+                      <div className="space-y-1 min-w-0">
+                        <span className={`block rounded px-1 break-words whitespace-pre-wrap ${accepted.has(change.field) ? 'text-green-700 bg-green-50' : 'text-muted-foreground line-through'}`}>
+                          {change.parsed}
+                        </span>
+                        <ParsedFieldSource text={parsedText} evidence={evidence?.[change.field]} />
+                      </div>
+                    </label>
+                  ))}
+                  {newSkills.length > 0 && (
+                    <label className="grid grid-cols-[auto_120px_1fr_1fr] gap-3 p-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={accepted.has(SKILLS_FIELD)}
+                        onCheckedChange={(checked) => toggle(SKILLS_FIELD, checked === true)}
+                      />
+                      <span className="font-medium">{VERSION_FIELD_LABELS[SKILLS_FIELD]}</span>
+                      <span className="text-muted-foreground break-words">
+                        {currentSkills.map(skill => skill.name).join(', ') || '—'}
+                      </span>
+                      <span className={`rounded px-1 break-words ${accepted.has(SKILLS_FIELD) ? 'text-green-700 bg-green-50' : 'text-muted-foreground line-through'}`}>
+                        + {newSkills.map(skill => skill.name).join(', ')}
+                      </span>
+                    </label>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isApplying}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={loading || isApplying || accepted.size === 0}>
+            {isApplying && <RefreshCw className="h-4 w-4 mr-2 animate-spin" />}
+            Apply accepted
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ResumeReparseDialog;
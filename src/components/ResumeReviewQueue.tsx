@@ -0,0 +1,352 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { CheckCircle, Trash2, RefreshCw, Pencil, AlertTriangle, ExternalLink, Inbox } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import TeamSelect from '@/components/TeamSelect';
+import { resumeIngestionService, TalentDraft, DraftUpdate } from '@/services/resumeIngestionService';
+import { embeddingService } from '@/services/embeddingService';
+
+interface ResumeReviewQueueProps {
+  // Bump to reload after drafts were added elsewhere on the page
+  refreshKey?: number;
+}
+
+const KEEP = 'keep';
+
+const ResumeReviewQueue = ({ refreshKey }: ResumeReviewQueueProps) => {
+  const { toast } = useToast();
+  const [drafts, setDrafts] = useState<TalentDraft[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // Why drafts were left in the queue by the last approval
+  const [approvalMessages, setApprovalMessages] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [bulkRole, setBulkRole] = useState<string>(KEEP);
+  const [bulkTeamId, setBulkTeamId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<TalentDraft | null>(null);
+  const [editValues, setEditValues] = useState({ firstName: '', lastName: '', email: '', location: '', yearsExperience: '' });
+
+  useEffect(() => {
+    fetchDrafts();
+  }, [refreshKey]);
+
+  const fetchDrafts = async () => {
+    try {
+      const queue = await resumeIngestionService.getDrafts();
+      setDrafts(queue);
+      setSelectedIds(previous => new Set(queue.filter(draft => previous.has(draft.id)).map(draft => draft.id)));
+    } catch (error) {
+      console.error('Error fetching draft profiles:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(previous => {
+      const next = new Set(previous);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const handleApprove = async () => {
+    setIsWorking(true);
+    try {
+      const results = await resumeIngestionService.approveDrafts(Array.from(selectedIds));
+      const approved = results.filter(result => result.approved).length;
+      setApprovalMessages(Object.fromEntries(
+        results.filter(result => !result.approved).map(result => [result.id, result.message || 'Not approved'])
+      ));
+      if (approved > 0) embeddingService.queueRefresh();
+      toast({
+        title: approved === results.length ? "Success" : "Some drafts need attention",
+        description: `${approved} of ${results.length} drafts approved${approved < results.length ? '; the rest stay in the queue with the reason.' : '.'}`,
+        variant: approved === results.length ? undefined : "destructive",
+      });
+      await fetchDrafts();
+    } catch (error) {
+      console.error('Error approving drafts:', error);
+      toast({
+        title: "Error",
+        description: "Failed to approve drafts",
+        variant: "destructive",
+      });
+    }
+    setIsWorking(false);
+  };
+
+  const handleDiscard = async () => {
+    if (!window.confirm(`Discard ${selectedIds.size} draft profiles and their resumes? This cannot be undone.`)) return;
+
+    setIsWorking(true);
+    try {
+      await resumeIngestionService.discardDrafts(Array.from(selectedIds));
+      setSelectedIds(new Set());
+      await fetchDrafts();
+    } catch (error) {
+      console.error('Error discarding drafts:', error);
+      toast({
+        title: "Error",
+        description: "Failed to discard drafts",
+        variant: "destructive",
+      });
+    }
+    setIsWorking(false);
+  };
+
+  const handleBulkEdit = async () => {
+    const update: DraftUpdate = {};
+    if (bulkRole !== KEEP) update.talent_role = bulkRole as DraftUpdate['talent_role'];
+    if (bulkTeamId) update.team_id = bulkTeamId;
+    if (Object.keys(update).length === 0) return;
+
+    setIsWorking(true);
+    try {
+      await resumeIngestionService.updateDrafts(Array.from(selectedIds), update);
+      toast({
+        title: "Success",
+        description: `Updated ${selectedIds.size} drafts`,
+      });
+      setBulkRole(KEEP);
+      setBulkTeamId(null);
+      await fetchDrafts();
+    } catch (error) {
+      console.error('Error updating drafts:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update drafts",
+        variant: "destructive",
+      });
+    }
+    setIsWorking(false);
+  };
+
+  const openEdit = (draft: TalentDraft) => {
+    setEditing(draft);
+    setEditValues({
+      firstName: draft.firstName,
+      lastName: draft.lastName,
+      email: draft.email,
+      location: draft.location || '',
+      yearsExperience: draft.yearsExperience != null ? String(draft.yearsExperience) : ''
+    });
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editing) return;
+
+    setIsWorking(true);
+    try {
+      await resumeIngestionService.updateDrafts([editing.id], {
+        first_name: editValues.firstName.trim(),
+        last_name: editValues.lastName.trim(),
+        email: editValues.email.trim(),
+        location: editValues.location.trim() || null,
+        years_experience: Number(editValues.yearsExperience) || 0
+      });
+      const editedId = editing.id;
+      setEditing(null);
+      setApprovalMessages(messages => {
+        const next = { ...messages };
+        delete next[editedId];
+        return next;
+      });
+      await fetchDrafts();
+    } catch (error) {
+      console.error('Error updating draft:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update the draft",
+        variant: "destructive",
+      });
+    }
+    setIsWorking(false);
+  };
+
+  const allSelected = drafts.length > 0 && selectedIds.size === drafts.length;
+  const duplicateCount = drafts.filter(draft => draft.duplicates.length > 0).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Inbox className="w-5 h-5" />
+              Review Queue
+              {drafts.length > 0 && <Badge variant="secondary">{drafts.length}</Badge>}
+            </CardTitle>
+            <CardDescription>
+              Draft profiles from uploaded resumes. They stay out of the talent pool until approved.
+              {duplicateCount > 0 && ` ${duplicateCount} may be duplicates.`}
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={fetchDrafts} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="text-center py-6 text-muted-foreground">
+            <RefreshCw className="h-5 w-5 mx-auto animate-spin" />
+          </div>
+        ) : drafts.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No drafts waiting for review.</p>
+        ) : (
+          <>
+            {selectedIds.size > 0 && (
+              <div className="flex flex-wrap items-end gap-3 p-3 rounded-md border bg-muted/30">
+                <span className="text-sm font-medium self-center">{selectedIds.size} selected</span>
+                <div className="space-y-1 w-44">
+                  <Label className="text-xs">Role</Label>
+                  <Select value={bulkRole} onValueChange={setBulkRole}>
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={KEEP}>Keep current</SelectItem>
+                      <SelectItem value="engineer">Engineer</SelectItem>
+                      <SelectItem value="designer">Designer</SelectItem>
+                      <SelectItem value="pm">Product Manager</SelectItem>
+                      <SelectItem value="qa">QA Engineer</SelectItem>
+                      <SelectItem value="data_scientist">Data Scientist</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1 w-52">
+                  <Label className="text-xs">Team</Label>
+                  <TeamSelect value={bulkTeamId} onChange={setBulkTeamId} />
+                </div>
+                <Button size="sm" variant="outline" onClick={handleBulkEdit} disabled={isWorking || (bulkRole === KEEP && !bulkTeamId)}>
+                  Apply to selected
+                </Button>
+                <div className="flex gap-2 ml-auto">
+                  <Button size="sm" variant="outline" onClick={handleDiscard} disabled={isWorking}>
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Discard
+                  </Button>
+                  <Button size="sm" onClick={handleApprove} disabled={isWorking}>
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    Approve
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <div className="border rounded-md divide-y">
+              <div className="grid grid-cols-[auto_1.2fr_1.2fr_1.5fr_auto] gap-3 p-2 text-xs font-medium text-muted-foreground items-center">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) => setSelectedIds(checked === true ? new Set(drafts.map(draft => draft.id)) : new Set())}
+                />
+                <span>Name</span>
+                <span>Email</span>
+                <span>Possible duplicates</span>
+                <span />
+              </div>
+              {drafts.map(draft => (
+                <div key={draft.id} className="grid grid-cols-[auto_1.2fr_1.2fr_1.5fr_auto] gap-3 p-2 text-sm items-start">
+                  <Checkbox
+                    checked={selectedIds.has(draft.id)}
+                    onCheckedChange={(checked) => toggleSelected(draft.id, checked === true)}
+                  />
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">
+                      {`${draft.firstName} ${draft.lastName}`.trim() || <span className="text-muted-foreground italic">No name</span>}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {[draft.location, draft.yearsExperience ? `${draft.yearsExperience} yrs` : null, `${draft.skills.length} skills`].filter(Boolean).join(' · ')}
+                    </p>
+                    {approvalMessages[draft.id] && (
+                      <p className="text-xs text-red-600">{approvalMessages[draft.id]}</p>
+                    )}
+                  </div>
+                  <span className={`truncate ${draft.email ? '' : 'text-muted-foreground italic'}`}>{draft.email || 'No email'}</span>
+                  <div className="space-y-1 min-w-0">
+                    {draft.duplicates.length === 0 ? (
+                      <span className="text-xs text-muted-foreground">None found</span>
+                    ) : draft.duplicates.map(duplicate => (
+                      <Link
+                        key={duplicate.talentProfileId}
+                        to={`/talent-profile/${duplicate.talentProfileId}`}
+                        target="_blank"
+                        className="flex items-center gap-1 text-xs hover:underline"
+                      >
+                        <AlertTriangle className={`h-3 w-3 shrink-0 ${duplicate.reason === 'email' ? 'text-red-500' : 'text-amber-500'}`} />
+                        <span className="truncate">
+                          Same {duplicate.reason} as {duplicate.name}{duplicate.isDraft ? ' (draft)' : ''}
+                        </span>
+                      </Link>
+                    ))}
+                  </div>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => openEdit(draft)} title="Edit">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" asChild title="Open profile and resume">
+                      <Link to={`/talent-profile/${draft.id}`} target="_blank">
+                        <ExternalLink className="h-4 w-4" />
+                      </Link>
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Draft</DialogTitle>
+            <DialogDescription>Correct what the parser got wrong before approving.</DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>First Name</Label>
+              <Input value={editValues.firstName} onChange={(event) => setEditValues(values => ({ ...values, firstName: event.target.value }))} />
+            </div>
+            <div className="space-y-2">
+              <Label>Last Name</Label>
+              <Input value={editValues.lastName} onChange={(event) => setEditValues(values => ({ ...values, lastName: event.target.value }))} />
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label>Email</Label>
+              <Input type="email" value={editValues.email} onChange={(event) => setEditValues(values => ({ ...values, email: event.target.value }))} />
+            </div>
+            <div className="space-y-2">
+              <Label>Location</Label>
+              <Input value={editValues.location} onChange={(event) => setEditValues(values => ({ ...values, location: event.target.value }))} />
+            </div>
+            <div className="space-y-2">
+              <Label>Years of Experience</Label>
+              <Input type="number" min={0} value={editValues.yearsExperience} onChange={(event) => setEditValues(values => ({ ...values, yearsExperience: event.target.value }))} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveEdit} disabled={isWorking}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default ResumeReviewQueue;
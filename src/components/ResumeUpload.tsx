@@ -4,31 +4,13 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
-import * as pdfjsLib from 'pdfjs-dist';
-import Tesseract from 'tesseract.js';
-
-// Configure PDF.js worker
-pdfjsLib.GlobalWorkerOptions.workerSrc = '/pdf.worker.min.mjs';
-
-interface ParsedResumeData {
-  firstName?: string;
-  lastName?: string;
-  email?: string;
-  phone?: string;
-  location?: string;
-  yearsExperience?: number;
-  skills?: string[];
-  bio?: string;
-  linkedinUrl?: string;
-  githubUrl?: string;
-  portfolioUrl?: string;
-  education?: string[];
-  workExperience?: string[];
-  certifications?: string[];
-}
+import { resumeExtractionService, RESUME_ACCEPT, RESUME_FORMATS_LABEL } from '@/services/resumeExtractionService';
+import { resumeParsingService, lowConfidenceFields, ResumeParseResult } from '@/services/resumeParsingService';
+import { ParsedResumeData } from '@/services/resumeRuleParser';
 
 interface ResumeUploadProps {
-  onParsedData: (data: ParsedResumeData) => void;
+  // Called with the parse result and the file and text it came from
+  onParsedData: (result: ResumeParseResult, file: File, text: string) => void;
   onError: (error: string) => void;
   resumeFile?: File | null;
 }
@@ -41,6 +23,10 @@ const ResumeUpload = ({ onParsedData, onError, resumeFile }: ResumeUploadProps)
   const [parsingStatus, setParsingStatus] = useState<'idle' | 'uploading' | 'parsing' | 'success' | 'error'>('idle');
   const [parsedData, setParsedData] = useState<ParsedResumeData | null>(null);
   const [errorMessage, setErrorMessage] = useState<string>('');
+  // Set when the AI parser was unavailable and only the offline parser ran
+  const [offlineReason, setOfflineReason] = useState<string | null>(null);
+  // Parsed fields with low confidence, to check in the form
+  const [fieldsToCheck, setFieldsToCheck] = useState(0);
   const inputRef = useRef<HTMLInputElement>(null);
 
   // Use resumeFile prop if provided, otherwise use internal state
@@ -60,11 +46,8 @@ const ResumeUpload = ({ onParsedData, onError, resumeFile }: ResumeUploadProps)
     if (!file) return;
 
     // Validate file type
-    const nameLower = file.name.toLowerCase();
-    const isPdf = file.type === 'application/pdf' || nameLower.endsWith('.pdf');
-    const isTxt = file.type === 'text/plain' || nameLower.endsWith('.txt');
-    if (!isPdf && !isTxt) {
-      onError('Please upload a PDF or TXT file');
+    if (!resumeExtractionService.getFormat(file)) {
+      onError(`Please upload a resume as ${RESUME_FORMATS_LABEL}`);
       return;
     }
 
@@ -98,21 +81,22 @@ const ResumeUpload = ({ onParsedData, onError, resumeFile }: ResumeUploadProps)
     try {
       // Step 1: Extract text from resume
       setParsingProgress(25);
-      const extractedText = await extractTextFromFile(file);
-      
-      // Step 2: Parse with AI
-      setParsingProgress(50);
-      const parsedData = await parseTextWithAI(extractedText);
+      const extractedText = await resumeExtractionService.extractText(file);
       
-      // Step 3: Format and structure data
-      setParsingProgress(75);
-      const formattedData = formatParsedData(parsedData);
+      // Step 2: Parse with rules and, chunk by chunk, with AI
+      setParsingProgress(40);
+      const result = await resumeParsingService.parse(
+        extractedText,
+        (done, total) => setParsingProgress(40 + Math.round((done / total) * 55))
+      );
       
-      // Step 4: Complete
+      // Step 3: Complete
       setParsingProgress(100);
-      setParsedData(formattedData);
+      setParsedData(result.data);
+      setOfflineReason(result.aiError);
+      setFieldsToCheck(lowConfidenceFields(result.evidence).length);
       setParsingStatus('success');
-      onParsedData(formattedData);
+      onParsedData(result, file, extractedText);
       
     } catch (error) {
       setParsingStatus('error');
@@ -124,327 +108,13 @@ const ResumeUpload = ({ onParsedData, onError, resumeFile }: ResumeUploadProps)
     }
   };
 
-  const extractTextFromFile = async (file: File): Promise<string> => {
-    try {
-      if (file.type === 'text/plain') {
-        return await file.text();
-      } else if (file.type === 'application/pdf') {
-        return await extractTextFromPDF(file);
-      } else {
-        // Fallback by extension if browser didn't set type
-        const nameLower = file.name.toLowerCase();
-        if (nameLower.endsWith('.txt')) return await file.text();
-        if (nameLower.endsWith('.pdf')) return await extractTextFromPDF(file);
-        throw new Error('Unsupported file type. Please use a text file (.txt) or PDF file.');
-      }
-    } catch (error) {
-      console.error('Error extracting text:', error);
-      throw error;
-    }
-  };
-
-  const extractTextFromPDF = async (file: File): Promise<string> => {
-    try {
-      console.log('Starting PDF text extraction for file:', file.name);
-      
-      const arrayBuffer = await file.arrayBuffer();
-      console.log('PDF file loaded, size:', arrayBuffer.byteLength, 'bytes');
-      
-      // Load PDF document with error handling
-      const loadingTask = pdfjsLib.getDocument({
-        data: arrayBuffer,
-        verbosity: 0,
-      });
-      
-      const pdf = await loadingTask.promise;
-      console.log('PDF loaded successfully, pages:', pdf.numPages);
-      
-      let fullText = '';
-      
-      // Extract text from all pages
-      for (let i = 1; i <= pdf.numPages; i++) {
-        console.log(`Extracting text from page ${i}/${pdf.numPages}`);
-        
-        const page = await pdf.getPage(i);
-        const textContent = await page.getTextContent();
-        
-        // Extract text more carefully
-        const pageText = textContent.items
-          .map((item: any) => {
-            if (item && typeof item === 'object' && 'str' in item && item.str) {
-              return item.str;
-            }
-            return '';
-          })
-          .filter(text => text && text.trim().length > 0)
-          .join(' ');
-        
-        fullText += pageText + '\n';
-        console.log(`Page ${i} text length:`, pageText.length);
-      }
-      
-      console.log('Total extracted text length:', fullText.length);
-      
-      // If no selectable text found, fall back to OCR
-      if (!fullText.trim()) {
-        console.warn('No selectable text found, falling back to OCR...');
-        const ocrText = await extractPdfTextWithOCR(arrayBuffer);
-        if (!ocrText.trim()) {
-          throw new Error('No text content found in PDF, including OCR. The PDF might be image-based or corrupted.');
-        }
-        return ocrText.trim();
-      }
-      return fullText.trim();
-    } catch (error) {
-      console.error('Error extracting text from PDF (pre-OCR):', error);
-      // Final attempt: OCR entire PDF if loading worked but extraction failed
-      try {
-        const arrayBuffer = await file.arrayBuffer();
-        const ocrText = await extractPdfTextWithOCR(arrayBuffer);
-        if (ocrText.trim()) {
-          return ocrText.trim();
-        }
-      } catch (ocrError) {
-        console.error('OCR extraction also failed:', ocrError);
-      }
-      
-      // Provide more specific error messages
-      if (error instanceof Error) {
-        if (error.message.includes('Invalid PDF') || error.message.includes('invalid')) {
-          throw new Error('Invalid PDF file. Please ensure the file is not corrupted.');
-        } else if (error.message.includes('password')) {
-          throw new Error('PDF is password-protected. Please remove the password and try again.');
-        } else if (error.message.includes('No text content')) {
-          throw new Error('No text content found in PDF. The PDF might be image-based. Please convert to text format.');
-        }
-      }
-      
-      throw new Error('Failed to extract text from PDF. Please try a different file or convert to text format.');
-    }
-  };
-
-  const extractPdfTextWithOCR = async (arrayBuffer: ArrayBuffer): Promise<string> => {
-    const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer, verbosity: 0 });
-    const pdf = await loadingTask.promise;
-    let text = '';
-    for (let i = 1; i <= pdf.numPages; i++) {
-      const page = await pdf.getPage(i);
-      const viewport = page.getViewport({ scale: 2 });
-      const canvas = document.createElement('canvas');
-      const context = canvas.getContext('2d');
-      if (!context) continue;
-      canvas.width = viewport.width;
-      canvas.height = viewport.height;
-      await (page as any).render({ canvasContext: context as any, viewport, canvas: canvas as any } as any).promise;
-      const { data: { text: ocrPageText } } = await Tesseract.recognize(canvas, 'eng');
-      text += ocrPageText + '\n';
-    }
-    return text;
-  };
-
-  const parseTextWithAI = async (text: string): Promise<any> => {
-    try {
-      // Check if OpenAI API key is available
-      const openaiApiKey = import.meta.env.VITE_OPENAI_API_KEY;
-      if (!openaiApiKey) {
-        throw new Error('API key not configured. Please add VITE_OPENAI_API_KEY to your .env file.');
-      }
-
-      // Detect OpenRouter vs OpenAI key and choose endpoint/model
-      const isOpenRouter = openaiApiKey.startsWith('sk-or-');
-      const endpoint = isOpenRouter
-        ? 'https://openrouter.ai/api/v1/chat/completions'
-        : 'https://api.openai.com/v1/chat/completions';
-      
-      // Try different free models that are known to work
-      const freeModels = [
-        'openrouter/auto',
-        'meta-llama/llama-3.2-3b-instruct:free',
-        'google/gemma-2-2b-it:free',
-        'microsoft/phi-3-mini-128k-instruct:free'
-      ];
-      const model = isOpenRouter ? freeModels[0] : 'gpt-3.5-turbo';
-
-      // Call LLM: ask for a normalized structure and dynamic section handling
-      const prompt = `Parse this resume and return ONLY valid JSON in this exact format:
-{
-  "firstName": "string",
-  "lastName": "string", 
-  "email": "string",
-  "phone": "string",
-  "location": "string",
-  "yearsExperience": number,
-  "skills": ["string"],
-  "links": { "linkedin": "string", "github": "string", "portfolio": "string" },
-  "sections": {
-    "bioText": "string",
-    "experience": [{"title": "string", "company": "string", "startDate": "string", "endDate": "string", "duration": "string", "description": "string"}],
-    "education": ["string"],
-    "certifications": ["string"]
-  }
-}
-
-IMPORTANT: Return ONLY the JSON object. No explanations, no markdown, no code blocks. Just the raw JSON.
-
-Resume:
-${text.length > 3000 ? text.substring(0, 3000) + '...' : text}`;
-
-      // Try different models if one fails
-      let response;
-      let lastError;
-      
-      for (let i = 0; i < (isOpenRouter ? freeModels.length : 1); i++) {
-        const currentModel = isOpenRouter ? freeModels[i] : model;
-        
-        try {
-          console.log(`Trying model: ${currentModel}`);
-          response = await fetch(endpoint, {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${openaiApiKey}`,
-              'Content-Type': 'application/json',
-              ...(isOpenRouter ? { 'X-Title': 'Connectiv Talent' } : {}),
-            },
-            body: JSON.stringify({
-              model: currentModel,
-              messages: [
-                {
-                  role: 'system',
-                  content: 'You are an expert at parsing resumes and extracting structured information. Always return valid JSON.'
-                },
-                {
-                  role: 'user',
-                  content: prompt
-                }
-              ],
-              temperature: 0.1,
-              max_tokens: 500
-            })
-          });
-          
-          if (response.ok) {
-            console.log(`Model ${currentModel} succeeded`);
-            break; // Success, exit the loop
-          }
-          
-          const errorData = await response.json();
-          lastError = errorData;
-          console.log(`Model ${currentModel} failed:`, errorData);
-          
-        } catch (error) {
-          lastError = error;
-          console.log(`Model ${currentModel} failed with error:`, error);
-        }
-      }
-
-      if (!response || !response.ok) {
-        let message = 'Failed to parse resume with AI';
-        try {
-          const errorData = lastError || (response ? await response.json() : null);
-          console.error('LLM API error:', errorData);
-          if (errorData?.error?.message) {
-            message = errorData.error.message;
-          } else if (errorData?.error?.type === 'insufficient_quota' || 
-                     errorData?.error?.message?.includes('credit') ||
-                     errorData?.error?.message?.includes('payment') ||
-                     response?.status === 402 || response?.status === 429) {
-            message = 'API quota exceeded. Please check your OpenRouter credits.';
-          } else if (response?.status === 404) {
-            message = 'No working models found. Please try again or contact support.';
-          } else if (lastError) {
-            message = `All models failed. Last error: ${lastError.message || 'Unknown error'}`;
-          }
-        } catch (_) {}
-        if (response?.status === 401) {
-          message = isOpenRouter ? 'Invalid OpenRouter API key.' : 'Invalid OpenAI API key.';
-        }
-        throw new Error(message);
-      }
-
-      const data = await response.json();
-      const content = data.choices[0]?.message?.content;
-
-      if (!content) {
-        throw new Error('No response from AI');
-      }
-
-      // Clean and parse the JSON response
-      let parsedData;
-      let cleanedContent = content.trim();
-      try {
-        // Clean the content - remove any markdown formatting or extra text
-        
-        // Remove markdown code blocks if present
-        if (cleanedContent.startsWith('```json')) {
-          cleanedContent = cleanedContent.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-        } else if (cleanedContent.startsWith('```')) {
-          cleanedContent = cleanedContent.replace(/^```\s*/, '').replace(/\s*```$/, '');
-        }
-        
-        // Remove any text before the first {
-        const jsonStart = cleanedContent.indexOf('{');
-        if (jsonStart > 0) {
-          cleanedContent = cleanedContent.substring(jsonStart);
-        }
-        
-        // Remove any text after the last }
-        const jsonEnd = cleanedContent.lastIndexOf('}');
-        if (jsonEnd > 0 && jsonEnd < cleanedContent.length - 1) {
-          cleanedContent = cleanedContent.substring(0, jsonEnd + 1);
-        }
-        
-        console.log('Cleaned content for parsing:', cleanedContent);
-        parsedData = JSON.parse(cleanedContent);
-      } catch (parseError) {
-        console.error('Failed to parse AI response as JSON:', parseError);
-        console.error('Original content:', content);
-        console.error('Cleaned content:', cleanedContent);
-        throw new Error('Invalid response format from AI');
-      }
-
-      return parsedData;
-    } catch (error) {
-      console.error('Error parsing with AI:', error);
-      throw error;
-    }
-  };
-
-  const formatParsedData = (data: any): ParsedResumeData => {
-    // Prefer the normalized structure from our new prompt
-    const sections = data.sections || {};
-    const links = data.links || {};
-
-    const bioText = (sections.bioText || data.bio || '').toString();
-    const experience = sections.experience || data.experience || data.work_experience || [];
-    const education = sections.education || data.education || [];
-    const certifications = sections.certifications || data.certifications || [];
-
-    // Bio should ONLY contain summary-like content
-    const normalizedBio = bioText.trim();
-
-    return {
-      firstName: data.firstName || data.name?.first || '',
-      lastName: data.lastName || data.name?.last || '',
-      email: data.email || '',
-      phone: data.phone || '',
-      location: data.location || '',
-      yearsExperience: data.yearsExperience || data.experience_years || 0,
-      skills: data.skills || [],
-      bio: normalizedBio, // keep whitespace as-is; UI preserves line breaks
-      linkedinUrl: data.linkedinUrl || links.linkedin || data.linkedin || '',
-      githubUrl: data.githubUrl || links.github || data.github || '',
-      portfolioUrl: data.portfolioUrl || links.portfolio || data.portfolio || '',
-      education: education,
-      workExperience: experience,
-      certifications: certifications
-    };
-  };
-
   const removeFile = () => {
     if (!resumeFile) {
       setUploadedFile(null);
     }
     setParsedData(null);
+    setOfflineReason(null);
+    setFieldsToCheck(0);
     setParsingStatus('idle');
     setParsingProgress(0);
     setErrorMessage('');
@@ -496,7 +166,7 @@ ${text.length > 3000 ? text.substring(0, 3000) + '...' : text}`;
             <input
               ref={inputRef}
               type="file"
-              accept=".txt,.pdf"
+              accept={RESUME_ACCEPT}
               onChange={(e) => e.target.files?.[0] && handleFileSelect(e.target.files[0])}
               className="hidden"
               disabled={isUploading || isParsing}
@@ -509,7 +179,7 @@ ${text.length > 3000 ? text.substring(0, 3000) + '...' : text}`;
                   Upload your resume for AI parsing
                 </p>
                 <p className="text-xs text-muted-foreground">
-                  TXT, PDF • Max 10MB
+                  {RESUME_FORMATS_LABEL} • Max 10MB
                 </p>
               </div>
               <Button
@@ -573,6 +243,20 @@ ${text.length > 3000 ? text.substring(0, 3000) + '...' : text}`;
                 <CheckCircle className="w-5 h-5 text-green-500" />
                 <span className="text-sm font-medium text-green-700">Parsed successfully!</span>
               </div>
+
+              {offlineReason && (
+                <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg">
+                  <p className="text-sm text-amber-800">
+                    Parsed offline without AI ({offlineReason}). Please double-check the prefilled fields.
+                  </p>
+                </div>
+              )}
+              
+              {fieldsToCheck > 0 && (
+                <p className="text-sm text-amber-800">
+                  {fieldsToCheck} {fieldsToCheck === 1 ? 'field has' : 'fields have'} low confidence and {fieldsToCheck === 1 ? 'is' : 'are'} highlighted in the form below.
+                </p>
+              )}
               
               <div className="grid grid-cols-2 gap-4 text-sm">
                 <div>
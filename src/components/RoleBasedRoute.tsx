@@ -1,20 +1,23 @@
 import { ReactNode } from 'react';
 import { Navigate } from 'react-router-dom';
-import { useUserRole } from '@/hooks/useUserRole';
+import { useUserRole, AppRole, AppPermission } from '@/hooks/useUserRole';
 import { Loader2 } from 'lucide-react';
 
 interface RoleBasedRouteProps {
   children: ReactNode;
-  allowedRoles: ('admin' | 'manager' | 'user')[];
+  allowedRoles: AppRole[];
+  // Every one of these is needed on top of an allowed role
+  requiredPermissions?: AppPermission[];
   fallbackPath?: string;
 }
 
 export const RoleBasedRoute = ({ 
   children, 
   allowedRoles, 
+  requiredPermissions = [],
   fallbackPath = '/' 
 }: RoleBasedRouteProps) => {
-  const { isAdmin, isManager, isRegularUser, loading } = useUserRole();
+  const { roles, permissions, loading } = useUserRole();
 
   if (loading) {
     return (
@@ -24,10 +27,10 @@ export const RoleBasedRoute = ({
     );
   }
 
-  const hasAccess = 
-    (isAdmin && allowedRoles.includes('admin')) ||
-    (isManager && allowedRoles.includes('manager')) ||
-    (isRegularUser && allowedRoles.includes('user'));
+  // Same rules as the RLS policies: any one of the allowed roles, and every required permission
+  const hasAccess =
+    allowedRoles.some(role => roles.includes(role)) &&
+    requiredPermissions.every(permission => permissions.includes(permission));
 
   if (!hasAccess) {
     return <Navigate to={fallbackPath} replace />;
@@ -0,0 +1,129 @@
+import { useState, useEffect } from 'react';
+import { Plus, RefreshCw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { invitationService, SignupSettings } from '@/services/invitationService';
+import { normalizeDomain } from '@/services/organizationService';
+
+// Deployment-wide, so only global admins see it. Invited addresses can always sign up.
+const SignupSettingsManager = () => {
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<SignupSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [newDomain, setNewDomain] = useState('');
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    try {
+      setSettings(await invitationService.getSignupSettings());
+    } catch (error) {
+      console.error('Error fetching signup settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load signup settings",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveSettings = async (updated: SignupSettings) => {
+    try {
+      await invitationService.updateSignupSettings(updated);
+      setSettings(updated);
+    } catch (error) {
+      console.error('Error updating signup settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update signup settings",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAddDomain = () => {
+    const domain = normalizeDomain(newDomain);
+    if (!settings || !domain) return;
+    setNewDomain('');
+    if (settings.allowed_domains.includes(domain)) return;
+    saveSettings({ ...settings, allowed_domains: [...settings.allowed_domains, domain] });
+  };
+
+  const handleRemoveDomain = (domain: string) => {
+    if (!settings) return;
+    saveSettings({ ...settings, allowed_domains: settings.allowed_domains.filter(d => d !== domain) });
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <RefreshCw className="h-6 w-6 mx-auto animate-spin" />
+      </div>
+    );
+  }
+
+  if (!settings) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Signup</CardTitle>
+        <CardDescription>
+          Who can create an account without an invitation. Invited addresses can always sign up.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="self-signup">Allow self-signup</Label>
+          <Switch
+            id="self-signup"
+            checked={settings.self_signup_enabled}
+            onCheckedChange={(checked) => saveSettings({ ...settings, self_signup_enabled: checked })}
+          />
+        </div>
+
+        {settings.self_signup_enabled && (
+          <div className="space-y-2">
+            <Label>Allowed email domains</Label>
+            <div className="flex flex-wrap gap-2">
+              {settings.allowed_domains.length === 0 && (
+                <p className="text-sm text-muted-foreground">Any domain can sign up.</p>
+              )}
+              {settings.allowed_domains.map(domain => (
+                <Badge key={domain} variant="secondary" className="flex items-center gap-1">
+                  @{domain}
+                  <button onClick={() => handleRemoveDomain(domain)} className="ml-1 hover:text-destructive">
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Input
+                placeholder="e.g. acme.com"
+                value={newDomain}
+                onChange={(e) => setNewDomain(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddDomain()}
+              />
+              <Button onClick={handleAddDomain} disabled={!newDomain.trim()}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Domain
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SignupSettingsManager;
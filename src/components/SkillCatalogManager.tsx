@@ -0,0 +1,440 @@
+import { useState, useEffect } from 'react';
+import { Plus, Edit, Trash2, Search, RefreshCw, Tags, X, Link2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import BulkImport from '@/components/BulkImport';
+import {
+  skillService,
+  SKILL_CATEGORIES,
+  CatalogSkill,
+  SkillCategory,
+  SkillInput,
+  UnmappedSkill
+} from '@/services/skillService';
+import { importJobService, ImportOptions } from '@/services/importJobService';
+import { SKILL_IMPORT } from '@/lib/importSchemas';
+
+const categoryLabels: Record<SkillCategory, string> = {
+  technical: 'Technical',
+  soft: 'Soft Skills',
+  domain: 'Domain'
+};
+
+const categoryColors: Record<SkillCategory, string> = {
+  technical: 'bg-blue-100 text-blue-800',
+  soft: 'bg-green-100 text-green-800',
+  domain: 'bg-orange-100 text-orange-800'
+};
+
+const emptySkill: SkillInput = { name: '', category: 'technical', description: '', parentSkillId: null };
+
+const SkillCatalogManager = () => {
+  const { toast } = useToast();
+  const [catalog, setCatalog] = useState<CatalogSkill[]>([]);
+  const [unmapped, setUnmapped] = useState<UnmappedSkill[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [categoryFilter, setCategoryFilter] = useState<'all' | SkillCategory>('all');
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingSkillId, setEditingSkillId] = useState<string | null>(null);
+  const [skillForm, setSkillForm] = useState<SkillInput>(emptySkill);
+  const [newAliases, setNewAliases] = useState<Record<string, string>>({});
+  const [isMapping, setIsMapping] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+
+  useEffect(() => {
+    fetchCatalog();
+  }, []);
+
+  const fetchCatalog = async () => {
+    try {
+      const [skills, unmappedSkills] = await Promise.all([
+        skillService.getCatalog(true),
+        skillService.getUnmappedSkills()
+      ]);
+      setCatalog(skills);
+      setUnmapped(unmappedSkills);
+    } catch (error) {
+      console.error('Error fetching skill catalog:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load skill catalog",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreateDialog = () => {
+    setEditingSkillId(null);
+    setSkillForm(emptySkill);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (skill: CatalogSkill) => {
+    setEditingSkillId(skill.id);
+    setSkillForm({
+      name: skill.name,
+      category: skill.category,
+      description: skill.description || '',
+      parentSkillId: skill.parentSkillId
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSaveSkill = async () => {
+    if (!skillForm.name.trim()) return;
+
+    try {
+      if (editingSkillId) {
+        await skillService.updateSkill(editingSkillId, skillForm);
+      } else {
+        await skillService.createSkill(skillForm);
+      }
+
+      toast({
+        title: "Success",
+        description: `Skill ${editingSkillId ? 'updated' : 'added'} successfully`,
+      });
+      setDialogOpen(false);
+      fetchCatalog();
+    } catch (error) {
+      console.error('Error saving skill:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save skill. Skill names must be unique.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteSkill = async (skill: CatalogSkill) => {
+    if (!window.confirm(`Delete "${skill.name}"? It will be removed from every talent and opportunity.`)) return;
+
+    try {
+      await skillService.deleteSkill(skill.id);
+      toast({
+        title: "Success",
+        description: "Skill deleted successfully",
+      });
+      fetchCatalog();
+    } catch (error) {
+      console.error('Error deleting skill:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete skill",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAddAlias = async (skillId: string, alias: string) => {
+    if (!alias.trim()) return;
+
+    try {
+      await skillService.addAlias(skillId, alias);
+      setNewAliases(prev => ({ ...prev, [skillId]: '' }));
+      fetchCatalog();
+    } catch (error) {
+      console.error('Error adding skill alias:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add synonym. Synonyms must be unique across the catalog.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRemoveAlias = async (aliasId: string) => {
+    try {
+      await skillService.removeAlias(aliasId);
+      fetchCatalog();
+    } catch (error) {
+      console.error('Error removing skill alias:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove synonym",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleMapLegacySkills = async () => {
+    setIsMapping(true);
+    try {
+      const result = await skillService.mapLegacySkills();
+      toast({
+        title: "Skills mapped",
+        description: `${result.skillsMapped} skills linked across ${result.profilesProcessed} profiles. ${result.unmappedSkills} entries still need a catalog match.`,
+      });
+      fetchCatalog();
+    } catch (error) {
+      console.error('Error mapping legacy skills:', error);
+      toast({
+        title: "Error",
+        description: "Failed to map existing skills",
+        variant: "destructive",
+      });
+    } finally {
+      setIsMapping(false);
+    }
+  };
+
+  const parentName = (skillId: string | null) =>
+    skillId ? catalog.find(skill => skill.id === skillId)?.name : undefined;
+
+  const filteredCatalog = catalog.filter(skill => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch = !term
+      || skill.name.toLowerCase().includes(term)
+      || skill.aliases.some(alias => alias.alias.toLowerCase().includes(term));
+    const matchesCategory = categoryFilter === 'all' || skill.category === categoryFilter;
+    return matchesSearch && matchesCategory;
+  });
+
+  const handleBulkImport = async (data: any[], options: ImportOptions) => {
+    const result = await importJobService.importSkills(data, options);
+    if (!options.dryRun && result.status === 'completed') {
+      fetchCatalog();
+    }
+    return result;
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <RefreshCw className="h-6 w-6 mx-auto animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            placeholder="Search skills or synonyms..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+        <Select value={categoryFilter} onValueChange={(value) => setCategoryFilter(value as 'all' | SkillCategory)}>
+          <SelectTrigger className="w-full md:w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Categories</SelectItem>
+            {SKILL_CATEGORIES.map(category => (
+              <SelectItem key={category} value={category}>{categoryLabels[category]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" onClick={() => setShowImport(prev => !prev)}>
+          <Upload className="h-4 w-4 mr-2" />
+          Bulk Import
+        </Button>
+        <Button onClick={openCreateDialog}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Skill
+        </Button>
+      </div>
+
+      {showImport && (
+        <BulkImport
+          {...SKILL_IMPORT}
+          onRunJob={handleBulkImport}
+          matchKeys={['name']}
+          entityName="Skill"
+        />
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between">
+            <div>
+              <CardTitle className="flex items-center space-x-2 text-base">
+                <Link2 className="h-5 w-5" />
+                <span>Free-text Skills</span>
+              </CardTitle>
+              <CardDescription>
+                Skills on talent profiles that don't match the catalog yet. Add them as synonyms, then map again.
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={handleMapLegacySkills} disabled={isMapping}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isMapping ? 'animate-spin' : ''}`} />
+              Map Existing Skills
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {unmapped.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Every talent skill is linked to the catalog.</p>
+          ) : (
+            <div className="space-y-2 max-h-72 overflow-y-auto">
+              {unmapped.map(item => (
+                <div key={item.skillName} className="flex items-center justify-between gap-4 text-sm">
+                  <span>
+                    {item.skillName} <span className="text-muted-foreground">({item.talentCount} {item.talentCount === 1 ? 'talent' : 'talents'})</span>
+                  </span>
+                  <Select onValueChange={(skillId) => handleAddAlias(skillId, item.skillName)}>
+                    <SelectTrigger className="h-8 w-56">
+                      <SelectValue placeholder="Add as synonym of..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {catalog.map(skill => (
+                        <SelectItem key={skill.id} value={skill.id}>{skill.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {filteredCatalog.map(skill => (
+          <div key={skill.id} className="bg-white rounded-lg shadow-sm border p-4 space-y-3">
+            <div className="flex items-start justify-between">
+              <div>
+                <h3 className="font-semibold text-gray-900">{skill.name}</h3>
+                {parentName(skill.parentSkillId) && (
+                  <p className="text-xs text-gray-500">Part of {parentName(skill.parentSkillId)}</p>
+                )}
+              </div>
+              <div className="flex items-center space-x-1">
+                <Badge className={categoryColors[skill.category]}>{categoryLabels[skill.category]}</Badge>
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => openEditDialog(skill)}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 text-red-500 hover:text-red-700 hover:bg-red-50"
+                  onClick={() => handleDeleteSkill(skill)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            {skill.description && <p className="text-sm text-gray-600">{skill.description}</p>}
+
+            <div className="space-y-2">
+              <div className="flex items-center space-x-1 text-xs text-gray-500">
+                <Tags className="h-3 w-3" />
+                <span>Synonyms</span>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {skill.aliases.map(alias => (
+                  <Badge key={alias.id} variant="outline" className="flex items-center gap-1">
+                    {alias.alias}
+                    <button
+                      onClick={() => handleRemoveAlias(alias.id)}
+                      className="hover:bg-secondary-foreground/20 rounded-full p-0.5"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Add synonym"
+                  className="h-8"
+                  value={newAliases[skill.id] || ''}
+                  onChange={(e) => setNewAliases(prev => ({ ...prev, [skill.id]: e.target.value }))}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      handleAddAlias(skill.id, newAliases[skill.id] || '');
+                    }
+                  }}
+                />
+                <Button
+                  size="sm"
+                  className="h-8"
+                  disabled={!newAliases[skill.id]?.trim()}
+                  onClick={() => handleAddAlias(skill.id, newAliases[skill.id] || '')}
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingSkillId ? 'Edit Skill' : 'Add Skill'}</DialogTitle>
+            <DialogDescription>
+              Catalog skills are used by the skill pickers and by matching.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Input
+              placeholder="Skill name"
+              value={skillForm.name}
+              onChange={(e) => setSkillForm(prev => ({ ...prev, name: e.target.value }))}
+            />
+            <Select
+              value={skillForm.category}
+              onValueChange={(value) => setSkillForm(prev => ({ ...prev, category: value as SkillCategory }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SKILL_CATEGORIES.map(category => (
+                  <SelectItem key={category} value={category}>{categoryLabels[category]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={skillForm.parentSkillId || 'none'}
+              onValueChange={(value) => setSkillForm(prev => ({ ...prev, parentSkillId: value === 'none' ? null : value }))}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Parent skill" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No parent skill</SelectItem>
+                {catalog
+                  .filter(skill => skill.id !== editingSkillId)
+                  .map(skill => (
+                    <SelectItem key={skill.id} value={skill.id}>{skill.name}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            <Textarea
+              placeholder="Description"
+              value={skillForm.description || ''}
+              onChange={(e) => setSkillForm(prev => ({ ...prev, description: e.target.value }))}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveSkill} disabled={!skillForm.name.trim()}>
+              {editingSkillId ? 'Save Changes' : 'Add Skill'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default SkillCatalogManager;
@@ -0,0 +1,69 @@
+import { Check, X, ArrowDown, GitBranch } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import type { SkillMatchDetail, SkillMatchStatus } from '@/services/skillMatchingService';
+
+interface SkillMatchBreakdownProps {
+  details: SkillMatchDetail[];
+}
+
+const statusStyles: Record<SkillMatchStatus, string> = {
+  met: 'bg-green-100 text-green-800 border-green-200',
+  below_level: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  related: 'bg-blue-100 text-blue-800 border-blue-200',
+  missing: 'bg-red-100 text-red-800 border-red-200'
+};
+
+const describe = (detail: SkillMatchDetail): string => {
+  switch (detail.status) {
+    case 'met':
+      return `Level ${detail.proficiencyLevel} (needs ${detail.requiredLevel})${detail.yearsExperience ? `, ${detail.yearsExperience} yrs` : ''}`;
+    case 'below_level':
+      return `Level ${detail.proficiencyLevel}, needs ${detail.requiredLevel}${detail.yearsExperience ? ` (${detail.yearsExperience} yrs)` : ''}`;
+    case 'related':
+      return `Partial via ${detail.matchedSkillName} (${Math.round(detail.credit * 100)}%)`;
+    default:
+      return 'Not on profile';
+  }
+};
+
+const StatusIcon = ({ status }: { status: SkillMatchStatus }) => {
+  if (status === 'met') return <Check className="h-3 w-3" />;
+  if (status === 'below_level') return <ArrowDown className="h-3 w-3" />;
+  if (status === 'related') return <GitBranch className="h-3 w-3" />;
+  return <X className="h-3 w-3" />;
+};
+
+const SkillMatchBreakdown = ({ details }: SkillMatchBreakdownProps) => {
+  if (details.length === 0) return null;
+
+  const required = details.filter(detail => detail.isRequired);
+  const niceToHave = details.filter(detail => !detail.isRequired);
+
+  const renderGroup = (label: string, items: SkillMatchDetail[]) => (
+    <div className="space-y-1">
+      <p className="text-[11px] font-medium text-muted-foreground">{label}</p>
+      <div className="flex flex-wrap gap-1">
+        {items.map(detail => (
+          <Badge
+            key={detail.skillId}
+            variant="outline"
+            className={`flex items-center gap-1 text-[11px] font-normal ${statusStyles[detail.status]}`}
+            title={describe(detail)}
+          >
+            <StatusIcon status={detail.status} />
+            {detail.skillName}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-2 mb-3">
+      {required.length > 0 && renderGroup('Required skills', required)}
+      {niceToHave.length > 0 && renderGroup('Nice to have', niceToHave)}
+    </div>
+  );
+};
+
+export default SkillMatchBreakdown;
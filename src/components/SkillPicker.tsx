@@ -0,0 +1,185 @@
+import { useState, useEffect } from 'react';
+import { Check, ChevronsUpDown, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList
+} from '@/components/ui/command';
+import {
+  skillService,
+  toSelectedSkill,
+  SKILL_CATEGORIES,
+  CatalogSkill,
+  SelectedSkill
+} from '@/services/skillService';
+
+interface SkillPickerProps {
+  value: SelectedSkill[];
+  onChange: (skills: SelectedSkill[]) => void;
+  // Talents record proficiency and years; opportunities record required level and must-have
+  mode?: 'talent' | 'opportunity';
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+const levelLabels: Record<number, string> = {
+  1: '1 - Beginner',
+  2: '2 - Basic',
+  3: '3 - Intermediate',
+  4: '4 - Advanced',
+  5: '5 - Expert'
+};
+
+const categoryLabels: Record<string, string> = {
+  technical: 'Technical',
+  soft: 'Soft Skills',
+  domain: 'Domain'
+};
+
+const SkillPicker = ({ value, onChange, mode = 'talent', placeholder = 'Search skills...', disabled = false }: SkillPickerProps) => {
+  const [catalog, setCatalog] = useState<CatalogSkill[]>([]);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    skillService.getCatalog()
+      .then(setCatalog)
+      .catch(error => console.error('Error loading skill catalog:', error));
+  }, []);
+
+  const isSelected = (skillId: string) => value.some(skill => skill.skillId === skillId);
+
+  const toggleSkill = (skill: CatalogSkill) => {
+    if (isSelected(skill.id)) {
+      onChange(value.filter(selected => selected.skillId !== skill.id));
+    } else {
+      onChange([...value, toSelectedSkill(skill)]);
+    }
+  };
+
+  const updateSkill = (skillId: string, updates: Partial<SelectedSkill>) => {
+    onChange(value.map(skill => skill.skillId === skillId ? { ...skill, ...updates } : skill));
+  };
+
+  const parentName = (skill: CatalogSkill) =>
+    skill.parentSkillId ? catalog.find(parent => parent.id === skill.parentSkillId)?.name : undefined;
+
+  return (
+    <div className="space-y-3">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            disabled={disabled}
+            className="w-full justify-between font-normal text-muted-foreground"
+          >
+            {placeholder}
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+          <Command>
+            <CommandInput placeholder="Type a skill or synonym..." />
+            <CommandList>
+              <CommandEmpty>No matching skill. Ask an admin to add it to the catalog.</CommandEmpty>
+              {SKILL_CATEGORIES.map(category => {
+                const skills = catalog.filter(skill => skill.category === category);
+                if (skills.length === 0) return null;
+
+                return (
+                  <CommandGroup key={category} heading={categoryLabels[category]}>
+                    {skills.map(skill => (
+                      <CommandItem
+                        key={skill.id}
+                        // Include aliases so "React.js" finds "React"
+                        value={`${skill.name} ${skill.aliases.map(alias => alias.alias).join(' ')}`}
+                        onSelect={() => toggleSkill(skill)}
+                      >
+                        <Check className={`mr-2 h-4 w-4 ${isSelected(skill.id) ? 'opacity-100' : 'opacity-0'}`} />
+                        <span>{skill.name}</span>
+                        {parentName(skill) && (
+                          <span className="ml-2 text-xs text-muted-foreground">{parentName(skill)}</span>
+                        )}
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                );
+              })}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+
+      {value.length > 0 && (
+        <div className="space-y-2">
+          {value.map(skill => (
+            <div key={skill.skillId} className="flex flex-wrap items-center gap-2 rounded-md border p-2">
+              <Badge variant="secondary" className="min-w-[96px] justify-center">{skill.name}</Badge>
+              <Select
+                value={String(skill.level)}
+                onValueChange={(level) => updateSkill(skill.skillId, { level: Number(level) })}
+                disabled={disabled}
+              >
+                <SelectTrigger className="h-8 w-[170px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[1, 2, 3, 4, 5].map(level => (
+                    <SelectItem key={level} value={String(level)}>
+                      {mode === 'opportunity' ? `Min ${levelLabels[level]}` : levelLabels[level]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {mode === 'talent' ? (
+                <div className="flex items-center gap-1">
+                  <Input
+                    type="number"
+                    min="0"
+                    className="h-8 w-[72px]"
+                    value={skill.yearsExperience}
+                    disabled={disabled}
+                    onChange={(e) => updateSkill(skill.skillId, { yearsExperience: Math.max(0, parseInt(e.target.value) || 0) })}
+                  />
+                  <span className="text-xs text-muted-foreground">yrs</span>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={skill.isRequired}
+                    disabled={disabled}
+                    onCheckedChange={(checked) => updateSkill(skill.skillId, { isRequired: checked })}
+                  />
+                  <span className="text-xs text-muted-foreground">{skill.isRequired ? 'Required' : 'Nice to have'}</span>
+                </div>
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="ml-auto h-8 w-8 p-0"
+                disabled={disabled}
+                onClick={() => onChange(value.filter(selected => selected.skillId !== skill.skillId))}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SkillPicker;
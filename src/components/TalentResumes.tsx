@@ -0,0 +1,263 @@
+import { useState, useEffect, useRef } from 'react';
+import { FileText, Upload, Download, RefreshCw, Trash2, Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import ResumeReparseDialog from '@/components/ResumeReparseDialog';
+import { resumeStorageService, getPreviewKind, TalentResume } from '@/services/resumeStorageService';
+import { resumeExtractionService, RESUME_ACCEPT, RESUME_FORMATS_LABEL } from '@/services/resumeExtractionService';
+import { ParsedProfileField } from '@/services/resumeParsingService';
+
+interface TalentResumesProps {
+  talentProfileId: string;
+  // Current profile values, compared against re-parsed ones
+  profile: Partial<Record<ParsedProfileField, unknown>>;
+  canUpload: boolean;
+  // Re-parse into the profile and delete versions
+  canManage: boolean;
+  onProfileUpdated?: () => void;
+}
+
+const MAX_RESUME_BYTES = 10 * 1024 * 1024;
+
+const formatSize = (bytes: number | null) => {
+  if (!bytes) return '';
+  return bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const TalentResumes = ({ talentProfileId, profile, canUpload, canManage, onProfileUpdated }: TalentResumesProps) => {
+  const { toast } = useToast();
+  const [resumes, setResumes] = useState<TalentResume[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [viewUrl, setViewUrl] = useState<string | null>(null);
+  const [previewText, setPreviewText] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [reparseTarget, setReparseTarget] = useState<TalentResume | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const selected = resumes.find(resume => resume.id === selectedId) || null;
+
+  useEffect(() => {
+    fetchResumes();
+  }, [talentProfileId]);
+
+  useEffect(() => {
+    if (selected) loadPreview(selected);
+  }, [selectedId]);
+
+  const fetchResumes = async (selectNewest = false) => {
+    try {
+      const versions = await resumeStorageService.getResumes(talentProfileId);
+      setResumes(versions);
+      setSelectedId(current => (!selectNewest && current && versions.some(resume => resume.id === current) ? current : versions[0]?.id || null));
+    } catch (error) {
+      console.error('Error fetching resumes:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadPreview = async (resume: TalentResume) => {
+    setPreviewLoading(true);
+    setViewUrl(null);
+    setPreviewText(null);
+    try {
+      if (getPreviewKind(resume) === 'text') {
+        setPreviewText(await resumeStorageService.getText(resume));
+      } else {
+        setViewUrl(await resumeStorageService.getSignedUrl(resume));
+      }
+    } catch (error) {
+      console.error('Error loading resume preview:', error);
+      toast({
+        title: "Error",
+        description: "Failed to open the resume",
+        variant: "destructive",
+      });
+    }
+    setPreviewLoading(false);
+  };
+
+  const handleDownload = async (resume: TalentResume) => {
+    try {
+      window.open(await resumeStorageService.getSignedUrl(resume, true), '_blank', 'noopener,noreferrer');
+    } catch (error) {
+      console.error('Error downloading resume:', error);
+      toast({
+        title: "Error",
+        description: "Failed to download the resume",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleFileSelect = async (file: File | undefined) => {
+    if (!file) return;
+    if (!resumeExtractionService.getFormat(file)) {
+      toast({
+        title: "Error",
+        description: `Please upload a resume as ${RESUME_FORMATS_LABEL}`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (file.size > MAX_RESUME_BYTES) {
+      toast({
+        title: "Error",
+        description: "File size must be less than 10MB",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      // The text is stored with the file; a file we can't read is still worth keeping
+      const text = await resumeExtractionService.extractText(file).catch(error => {
+        console.error('Error extracting resume text:', error);
+        return null;
+      });
+      await resumeStorageService.uploadResume(talentProfileId, file, text);
+      toast({
+        title: "Success",
+        description: "Resume uploaded as a new version",
+      });
+      await fetchResumes(true);
+    } catch (error) {
+      console.error('Error uploading resume:', error);
+      toast({
+        title: "Error",
+        description: "Failed to upload the resume",
+        variant: "destructive",
+      });
+    }
+    setIsUploading(false);
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  const handleDelete = async (resume: TalentResume) => {
+    if (!window.confirm(`Delete resume version ${resume.versionNumber} (${resume.fileName})? This cannot be undone.`)) return;
+
+    try {
+      await resumeStorageService.deleteResume(resume);
+      await fetchResumes();
+    } catch (error) {
+      console.error('Error deleting resume:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the resume",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-6 text-muted-foreground">
+        <RefreshCw className="h-5 w-5 mx-auto animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {resumes.map((resume, index) => (
+          <button
+            key={resume.id}
+            type="button"
+            onClick={() => setSelectedId(resume.id)}
+            className={`rounded-md border px-3 py-2 text-left transition-colors ${resume.id === selectedId ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'}`}
+          >
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-semibold">Version {resume.versionNumber}</span>
+              {index === 0 && <Badge variant="secondary" className="text-[10px]">Latest</Badge>}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {new Date(resume.createdAt).toLocaleDateString()} · {resume.uploadedByName || 'Unknown'}
+            </p>
+          </button>
+        ))}
+
+        {canUpload && (
+          <>
+            <input
+              ref={inputRef}
+              type="file"
+              accept={RESUME_ACCEPT}
+              className="hidden"
+              onChange={(event) => handleFileSelect(event.target.files?.[0])}
+            />
+            <Button variant="outline" size="sm" onClick={() => inputRef.current?.click()} disabled={isUploading}>
+              {isUploading ? <RefreshCw className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+              {resumes.length > 0 ? 'Upload New Version' : 'Upload Resume'}
+            </Button>
+          </>
+        )}
+      </div>
+
+      {!selected ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <FileText className="h-4 w-4" />
+          No resume stored yet
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="text-sm min-w-0">
+              <span className="font-medium truncate">{selected.fileName}</span>
+              {selected.sizeBytes && <span className="text-muted-foreground ml-2">{formatSize(selected.sizeBytes)}</span>}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => handleDownload(selected)}>
+                <Download className="h-4 w-4 mr-2" />
+                Download
+              </Button>
+              {canManage && (
+                <>
+                  <Button variant="outline" size="sm" onClick={() => setReparseTarget(selected)}>
+                    <Wand2 className="h-4 w-4 mr-2" />
+                    Re-parse
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(selected)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+
+          {previewLoading ? (
+            <div className="text-center py-12 text-muted-foreground border rounded-md">
+              <RefreshCw className="h-5 w-5 mx-auto animate-spin" />
+            </div>
+          ) : viewUrl && getPreviewKind(selected) === 'pdf' ? (
+            <iframe
+              src={viewUrl}
+              title={selected.fileName}
+              className="w-full h-[640px] rounded-md border"
+            />
+          ) : viewUrl ? (
+            <img src={viewUrl} alt={selected.fileName} className="max-w-full rounded-md border" />
+          ) : previewText !== null ? (
+            <pre className="max-h-[640px] overflow-y-auto rounded-md border bg-muted/30 p-4 text-sm whitespace-pre-wrap font-sans">
+              {previewText}
+            </pre>
+          ) : null}
+        </>
+      )}
+
+      <ResumeReparseDialog
+        resume={reparseTarget}
+        talentProfileId={talentProfileId}
+        profile={profile}
+        onClose={() => setReparseTarget(null)}
+        onApplied={() => onProfileUpdated?.()}
+      />
+    </div>
+  );
+};
+
+export default TalentResumes;
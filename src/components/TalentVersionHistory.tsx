@@ -0,0 +1,183 @@
+import { useState, useEffect } from 'react';
+import { History, RotateCcw, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import {
+  talentVersionService,
+  diffSnapshots,
+  TalentVersion,
+  VersionSource,
+  VERSION_FIELD_LABELS
+} from '@/services/talentVersionService';
+
+interface TalentVersionHistoryProps {
+  talentProfileId: string;
+  canRestore: boolean;
+  // Bump to reload after the profile was changed elsewhere on the page
+  refreshKey?: number;
+  onRestored?: () => void;
+}
+
+const sourceLabels: Record<VersionSource, string> = {
+  baseline: 'Baseline',
+  manager_edit: 'Manager edit',
+  self_edit: 'Self edit',
+  restore: 'Restored',
+  system: 'System'
+};
+
+const sourceColors: Record<VersionSource, string> = {
+  baseline: 'bg-gray-100 text-gray-800',
+  manager_edit: 'bg-blue-100 text-blue-800',
+  self_edit: 'bg-purple-100 text-purple-800',
+  restore: 'bg-orange-100 text-orange-800',
+  system: 'bg-slate-100 text-slate-800'
+};
+
+const TalentVersionHistory = ({ talentProfileId, canRestore, refreshKey, onRestored }: TalentVersionHistoryProps) => {
+  const { toast } = useToast();
+  const [versions, setVersions] = useState<TalentVersion[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [talentProfileId, refreshKey]);
+
+  const fetchVersions = async () => {
+    try {
+      const history = await talentVersionService.getVersions(talentProfileId);
+      setVersions(history);
+      setSelectedId(current => (current && history.some(version => version.id === current) ? current : history[0]?.id || null));
+    } catch (error) {
+      console.error('Error fetching profile history:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestore = async (version: TalentVersion) => {
+    if (!window.confirm(`Restore version ${version.versionNumber}? The profile's fields, skills and projects will be replaced; the current state stays in the history.`)) return;
+
+    setIsRestoring(true);
+    try {
+      await talentVersionService.restoreVersion(version.id);
+      toast({
+        title: "Success",
+        description: `Profile restored to version ${version.versionNumber}`,
+      });
+      setSelectedId(null);
+      await fetchVersions();
+      onRestored?.();
+    } catch (error) {
+      console.error('Error restoring profile version:', error);
+      toast({
+        title: "Error",
+        description: "Failed to restore this version",
+        variant: "destructive",
+      });
+    }
+    setIsRestoring(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-6 text-muted-foreground">
+        <RefreshCw className="h-5 w-5 mx-auto animate-spin" />
+      </div>
+    );
+  }
+
+  if (versions.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <History className="h-4 w-4" />
+        No changes recorded yet
+      </div>
+    );
+  }
+
+  const selectedIndex = versions.findIndex(version => version.id === selectedId);
+  const selected = versions[selectedIndex];
+  // Versions are newest first, so the previous version is the next one in the list
+  const previous = versions[selectedIndex + 1] || null;
+  const changes = selected ? diffSnapshots(previous?.snapshot || null, selected.snapshot) : [];
+  const restoredFrom = selected?.restoredFromVersionId
+    ? versions.find(version => version.id === selected.restoredFromVersionId)
+    : null;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="space-y-2 max-h-96 overflow-y-auto pr-1">
+        {versions.map((version, index) => (
+          <button
+            key={version.id}
+            type="button"
+            onClick={() => setSelectedId(version.id)}
+            className={`w-full text-left rounded-md border p-3 transition-colors ${version.id === selectedId ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'}`}
+          >
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-semibold">
+                Version {version.versionNumber}{index === 0 ? ' (current)' : ''}
+              </span>
+              <Badge className={`text-[10px] ${sourceColors[version.source]}`}>{sourceLabels[version.source]}</Badge>
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">
+              {new Date(version.createdAt).toLocaleString()} · {version.changedByName || 'System'}
+            </p>
+            {version.changedFields.length > 0 && (
+              <p className="text-xs text-muted-foreground mt-1 truncate">
+                {version.changedFields.map(field => VERSION_FIELD_LABELS[field] || field).join(', ')}
+              </p>
+            )}
+          </button>
+        ))}
+      </div>
+
+      <div className="md:col-span-2 space-y-3">
+        {selected && (
+          <>
+            <div className="flex items-center justify-between">
+              <div>
+                <h4 className="font-semibold">
+                  {previous ? `Changes from version ${previous.versionNumber}` : 'Initial state'}
+                </h4>
+                {restoredFrom && (
+                  <p className="text-xs text-muted-foreground">Restored from version {restoredFrom.versionNumber}</p>
+                )}
+              </div>
+              {canRestore && selectedIndex > 0 && (
+                <Button variant="outline" size="sm" onClick={() => handleRestore(selected)} disabled={isRestoring}>
+                  <RotateCcw className={`h-4 w-4 mr-2 ${isRestoring ? 'animate-spin' : ''}`} />
+                  Restore this version
+                </Button>
+              )}
+            </div>
+
+            {changes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No field changes in this version.</p>
+            ) : (
+              <div className="border rounded-md divide-y max-h-80 overflow-y-auto">
+                {changes.map(change => (
+                  <div key={change.field} className="grid grid-cols-[140px_1fr_1fr] gap-3 p-2 text-sm">
+                    <span className="font-medium">{change.label}</span>
+                    <span className="text-red-700 bg-red-50 rounded px-1 line-through decoration-red-300 break-words whitespace-pre-wrap">
+                      {change.before}
+                    </span>
+                    <span className="text-green-700 bg-green-50 rounded px-1 break-words whitespace-pre-wrap">
+                      {change.after}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TalentVersionHistory;
@@ -0,0 +1,98 @@
+import { useMemo } from 'react';
+import { capacityLevelStyles, formatWeek } from '@/components/CapacityTimeline';
+import { Allocation, CAPACITY_WEEKS, getCapacityLevel, weeklyCapacity } from '@/services/capacityService';
+
+interface HeatmapTalent {
+  id: string;
+  name: string;
+  role?: string;
+  allocations: Allocation[];
+}
+
+interface TeamCapacityHeatmapProps {
+  talents: HeatmapTalent[];
+  weeks?: number;
+  onSelectTalent?: (talentId: string) => void;
+}
+
+const TeamCapacityHeatmap = ({ talents, weeks = CAPACITY_WEEKS, onSelectTalent }: TeamCapacityHeatmapProps) => {
+  const rows = useMemo(
+    () => talents
+      .map(talent => ({ ...talent, timeline: weeklyCapacity(talent.allocations, weeks) }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    [talents, weeks]
+  );
+
+  if (rows.length === 0) {
+    return <p className="text-sm text-muted-foreground">No existing employees to plan yet.</p>;
+  }
+
+  const weekStarts = rows[0].timeline.map(week => week.weekStart);
+  // Team averages and headcount with any free capacity, per week
+  const totals = weekStarts.map((_, index) => {
+    const utilizations = rows.map(row => row.timeline[index].utilization);
+    return {
+      average: Math.round(utilizations.reduce((sum, value) => sum + value, 0) / utilizations.length),
+      available: utilizations.filter(value => value < 100).length
+    };
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-x-auto">
+        <div className="grid gap-1 min-w-[640px]" style={{ gridTemplateColumns: `180px repeat(${weeks}, minmax(40px, 1fr))` }}>
+          <div />
+          {weekStarts.map(weekStart => (
+            <div key={weekStart.toISOString()} className="text-[10px] text-muted-foreground text-center">
+              {formatWeek(weekStart)}
+            </div>
+          ))}
+
+          {rows.map(row => (
+            <div key={row.id} className="contents">
+              <button
+                type="button"
+                className="text-left text-xs truncate pr-2 hover:underline disabled:no-underline"
+                onClick={() => onSelectTalent?.(row.id)}
+                disabled={!onSelectTalent}
+                title={row.role ? `${row.name} – ${row.role}` : row.name}
+              >
+                {row.name}
+              </button>
+              {row.timeline.map(week => (
+                <div
+                  key={week.weekStart.toISOString()}
+                  className={`h-6 rounded-sm text-[10px] flex items-center justify-center ${capacityLevelStyles[getCapacityLevel(week.utilization)]}`}
+                  title={week.projects.length > 0 ? `${week.utilization}% – ${week.projects.join(', ')}` : 'Unallocated'}
+                >
+                  {week.utilization}
+                </div>
+              ))}
+            </div>
+          ))}
+
+          <div className="text-xs font-medium pr-2 pt-1 border-t">Team average</div>
+          {totals.map((total, index) => (
+            <div
+              key={weekStarts[index].toISOString()}
+              className={`h-6 mt-1 rounded-sm text-[10px] font-medium flex items-center justify-center ${capacityLevelStyles[getCapacityLevel(total.average)]}`}
+              title={`${total.available} of ${rows.length} with free capacity`}
+            >
+              {total.average}%
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+        <span>Booked:</span>
+        <span className={`px-2 py-0.5 rounded-sm ${capacityLevelStyles.free}`}>0%</span>
+        <span className={`px-2 py-0.5 rounded-sm ${capacityLevelStyles.partial}`}>1–79%</span>
+        <span className={`px-2 py-0.5 rounded-sm ${capacityLevelStyles.high}`}>80–99%</span>
+        <span className={`px-2 py-0.5 rounded-sm ${capacityLevelStyles.full}`}>100%</span>
+      </div>
+    </div>
+  );
+};
+
+export default TeamCapacityHeatmap;
@@ -0,0 +1,346 @@
+import { useState, useEffect } from 'react';
+import { Plus, Trash2, RefreshCw, X, Eye, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { teamService, BusinessUnit, Team, TeamMember, VisibilityGrant } from '@/services/teamService';
+
+export interface DirectoryUser {
+  user_id: string | null;
+  email: string;
+  first_name: string | null;
+  last_name: string | null;
+}
+
+interface TeamManagerProps {
+  users: DirectoryUser[];
+}
+
+const NO_UNIT = 'none';
+
+const TeamManager = ({ users }: TeamManagerProps) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [businessUnits, setBusinessUnits] = useState<BusinessUnit[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [grants, setGrants] = useState<VisibilityGrant[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newUnitName, setNewUnitName] = useState('');
+  const [newTeamName, setNewTeamName] = useState('');
+  const [newTeamUnit, setNewTeamUnit] = useState(NO_UNIT);
+
+  // Only users with an auth account can be members or hold grants
+  const linkedUsers = users.filter(u => u.user_id);
+
+  useEffect(() => {
+    fetchAll();
+  }, []);
+
+  const fetchAll = async () => {
+    try {
+      const [unitList, teamList, memberList, grantList] = await Promise.all([
+        teamService.getBusinessUnits(),
+        teamService.getTeams(),
+        teamService.getMembers(),
+        teamService.getVisibilityGrants()
+      ]);
+      setBusinessUnits(unitList);
+      setTeams(teamList);
+      setMembers(memberList);
+      setGrants(grantList);
+    } catch (error) {
+      console.error('Error fetching teams:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load teams",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showError = (message: string, error: unknown) => {
+    console.error(`Error ${message}:`, error);
+    toast({
+      title: "Error",
+      description: `Failed to ${message}`,
+      variant: "destructive",
+    });
+  };
+
+  const userLabel = (userId: string) => {
+    const match = users.find(u => u.user_id === userId);
+    if (!match) return 'Unknown user';
+    return `${match.first_name || ''} ${match.last_name || ''}`.trim() || match.email;
+  };
+
+  const handleCreateUnit = async () => {
+    if (!newUnitName.trim()) return;
+    try {
+      await teamService.createBusinessUnit(newUnitName);
+      setNewUnitName('');
+      fetchAll();
+    } catch (error) {
+      showError('create business unit', error);
+    }
+  };
+
+  const handleDeleteUnit = async (unit: BusinessUnit) => {
+    if (!window.confirm(`Delete the "${unit.name}" business unit? Its teams are kept.`)) return;
+    try {
+      await teamService.deleteBusinessUnit(unit.id);
+      fetchAll();
+    } catch (error) {
+      showError('delete business unit', error);
+    }
+  };
+
+  const handleCreateTeam = async () => {
+    if (!newTeamName.trim()) return;
+    try {
+      await teamService.createTeam(newTeamName, newTeamUnit === NO_UNIT ? null : newTeamUnit);
+      setNewTeamName('');
+      setNewTeamUnit(NO_UNIT);
+      fetchAll();
+    } catch (error) {
+      showError('create team. Team names must be unique', error);
+    }
+  };
+
+  const handleMoveTeam = async (team: Team, unitId: string) => {
+    try {
+      await teamService.updateTeam(team.id, { business_unit_id: unitId === NO_UNIT ? null : unitId });
+      fetchAll();
+    } catch (error) {
+      showError('update team', error);
+    }
+  };
+
+  const handleDeleteTeam = async (team: Team) => {
+    if (!window.confirm(`Delete the "${team.name}" team? Its talent and opportunities become visible to all managers.`)) return;
+    try {
+      await teamService.deleteTeam(team.id);
+      fetchAll();
+    } catch (error) {
+      showError('delete team', error);
+    }
+  };
+
+  const handleAddMember = async (team: Team, userId: string) => {
+    try {
+      await teamService.addMember(team.id, userId);
+      fetchAll();
+    } catch (error) {
+      showError('add team member', error);
+    }
+  };
+
+  const handleRemoveMember = async (team: Team, userId: string) => {
+    try {
+      await teamService.removeMember(team.id, userId);
+      fetchAll();
+    } catch (error) {
+      showError('remove team member', error);
+    }
+  };
+
+  const handleGrant = async (team: Team, userId: string) => {
+    if (!user) return;
+    try {
+      await teamService.grantVisibility(team.id, userId, user.id);
+      fetchAll();
+    } catch (error) {
+      showError('grant visibility', error);
+    }
+  };
+
+  const handleRevoke = async (grant: VisibilityGrant) => {
+    try {
+      await teamService.revokeVisibility(grant.id);
+      fetchAll();
+    } catch (error) {
+      showError('revoke visibility', error);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <RefreshCw className="h-6 w-6 mx-auto animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Business Units</CardTitle>
+          <CardDescription>Group teams by business unit.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {businessUnits.length === 0 && (
+              <p className="text-sm text-muted-foreground">No business units yet.</p>
+            )}
+            {businessUnits.map(unit => (
+              <Badge key={unit.id} variant="secondary" className="flex items-center gap-1">
+                {unit.name}
+                <button onClick={() => handleDeleteUnit(unit)} className="ml-1 hover:text-destructive">
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Input
+              placeholder="New business unit, e.g. Delivery"
+              value={newUnitName}
+              onChange={(e) => setNewUnitName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreateUnit()}
+            />
+            <Button onClick={handleCreateUnit} disabled={!newUnitName.trim()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Unit
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Teams</CardTitle>
+          <CardDescription>
+            Managers see and edit the talent and opportunities of their own teams. Visibility grants let
+            anyone see another team's records without editing them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex gap-2">
+            <Input
+              placeholder="New team, e.g. Platform Engineering"
+              value={newTeamName}
+              onChange={(e) => setNewTeamName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreateTeam()}
+            />
+            <Select value={newTeamUnit} onValueChange={setNewTeamUnit}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_UNIT}>No business unit</SelectItem>
+                {businessUnits.map(unit => (
+                  <SelectItem key={unit.id} value={unit.id}>{unit.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleCreateTeam} disabled={!newTeamName.trim()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Team
+            </Button>
+          </div>
+
+          {teams.length === 0 && (
+            <p className="text-sm text-muted-foreground">No teams yet.</p>
+          )}
+
+          {teams.map(team => {
+            const teamMembers = members.filter(member => member.team_id === team.id);
+            const teamGrants = grants.filter(grant => grant.team_id === team.id);
+            const nonMembers = linkedUsers.filter(u => !teamMembers.some(member => member.user_id === u.user_id));
+            const nonGrantees = linkedUsers.filter(u => !teamGrants.some(grant => grant.user_id === u.user_id));
+
+            return (
+              <div key={team.id} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <h4 className="font-medium">{team.name}</h4>
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value={team.business_unit_id || NO_UNIT}
+                      onValueChange={(unitId) => handleMoveTeam(team, unitId)}
+                    >
+                      <SelectTrigger className="w-48 h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_UNIT}>No business unit</SelectItem>
+                        {businessUnits.map(unit => (
+                          <SelectItem key={unit.id} value={unit.id}>{unit.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button variant="ghost" size="sm" onClick={() => handleDeleteTeam(team)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Users className="h-4 w-4" />
+                    Members
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {teamMembers.map(member => (
+                      <Badge key={member.id} variant="outline" className="flex items-center gap-1">
+                        {userLabel(member.user_id)}
+                        <button onClick={() => handleRemoveMember(team, member.user_id)} className="ml-1 hover:text-destructive">
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                    <Select value="" onValueChange={(userId) => handleAddMember(team, userId)}>
+                      <SelectTrigger className="w-44 h-7 text-xs">
+                        <SelectValue placeholder="Add member" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {nonMembers.map(u => (
+                          <SelectItem key={u.user_id!} value={u.user_id!}>{userLabel(u.user_id!)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Eye className="h-4 w-4" />
+                    Can also view
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {teamGrants.map(grant => (
+                      <Badge key={grant.id} variant="secondary" className="flex items-center gap-1">
+                        {userLabel(grant.user_id)}
+                        <button onClick={() => handleRevoke(grant)} className="ml-1 hover:text-destructive">
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                    <Select value="" onValueChange={(userId) => handleGrant(team, userId)}>
+                      <SelectTrigger className="w-44 h-7 text-xs">
+                        <SelectValue placeholder="Grant visibility" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {nonGrantees.map(u => (
+                          <SelectItem key={u.user_id!} value={u.user_id!}>{userLabel(u.user_id!)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default TeamManager;
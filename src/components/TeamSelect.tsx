@@ -0,0 +1,75 @@
+import { useState, useEffect } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import { useUserRole } from '@/hooks/useUserRole';
+import { teamService, Team } from '@/services/teamService';
+
+interface TeamSelectProps {
+  value: string | null;
+  onChange: (teamId: string | null) => void;
+  // Pick the user's first team when nothing is selected yet (for new records)
+  preselect?: boolean;
+  disabled?: boolean;
+}
+
+const NO_TEAM = 'none';
+
+// Teams the current user may put talent and opportunities in: all of them for admins and org admins,
+// their own for managers. The RLS policies reject anything else.
+const TeamSelect = ({ value, onChange, preselect = false, disabled }: TeamSelectProps) => {
+  const { user } = useAuth();
+  const { isAdmin, isOrgAdmin, loading: roleLoading } = useUserRole();
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [currentTeam, setCurrentTeam] = useState<Team | null>(null);
+
+  useEffect(() => {
+    if (!user || roleLoading) return;
+
+    const fetchTeams = async () => {
+      try {
+        const assignable = await teamService.getAssignableTeams(user.id, isAdmin || isOrgAdmin);
+        setTeams(assignable);
+        if (preselect && !value && assignable.length > 0) {
+          onChange(assignable[0].id);
+        }
+      } catch (error) {
+        console.error('Error fetching teams:', error);
+      }
+    };
+
+    fetchTeams();
+  }, [user?.id, isAdmin, isOrgAdmin, roleLoading]);
+
+  // Show the record's team by name even when it isn't one the user can assign to
+  useEffect(() => {
+    if (!value || teams.some(team => team.id === value)) {
+      setCurrentTeam(null);
+      return;
+    }
+    teamService.getTeams()
+      .then(all => setCurrentTeam(all.find(team => team.id === value) || null))
+      .catch(error => console.error('Error fetching teams:', error));
+  }, [value, teams]);
+
+  const options = currentTeam ? [currentTeam, ...teams] : teams;
+
+  return (
+    <Select
+      value={value || NO_TEAM}
+      onValueChange={selected => onChange(selected === NO_TEAM ? null : selected)}
+      disabled={disabled}
+    >
+      <SelectTrigger>
+        <SelectValue placeholder="Select a team" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_TEAM}>No team (visible to all managers)</SelectItem>
+        {options.map(team => (
+          <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default TeamSelect;
@@ -2,16 +2,18 @@ import { createContext, useContext, useEffect, useState, ReactNode } from 'react
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
+import { organizationService, Organization } from '@/services/organizationService';
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
-  signUp: (email: string, password: string, firstName: string, lastName: string) => Promise<{ error: any }>;
-  signInWithGoogle: () => Promise<{ error: any }>;
+  signUp: (email: string, password: string, firstName: string, lastName: string, inviteToken?: string) => Promise<{ error: any }>;
+  signInWithGoogle: (inviteToken?: string) => Promise<{ error: any }>;
   signOut: () => Promise<void>;
   profile: any;
+  organization: Organization | null;
   roles: string[];
   hasRole: (role: string) => boolean;
 }
@@ -26,6 +28,9 @@ export const useAuth = () => {
   return context;
 };
 
+// The handle_new_user trigger puts new accounts in the organization owning this domain
+const emailDomain = (email?: string) => email?.split('@')[1]?.toLowerCase() || null;
+
 interface AuthProviderProps {
   children: ReactNode;
 }
@@ -35,6 +40,7 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
   const [profile, setProfile] = useState<any>(null);
+  const [organization, setOrganization] = useState<Organization | null>(null);
   const [roles, setRoles] = useState<string[]>([]);
 
   useEffect(() => {
@@ -64,13 +70,13 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
                     .insert({
                       user_id: session.user.id,
                       email: session.user.email,
+                      domain: emailDomain(session.user.email),
                       name: session.user.user_metadata?.full_name || 
                             `${session.user.user_metadata?.first_name || ''} ${session.user.user_metadata?.last_name || ''}`.trim() ||
                             session.user.email?.split('@')[0],
                       first_name: session.user.user_metadata?.first_name || null,
                       last_name: session.user.user_metadata?.last_name || null,
                       avatar_url: session.user.user_metadata?.avatar_url || null,
-                      is_manager: false, // Default to regular user
                       created_at: new Date().toISOString(),
                       updated_at: new Date().toISOString()
                     })
@@ -125,9 +131,17 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
             } catch (error) {
               console.error('Error fetching profile:', error);
             }
+
+            // Membership is assigned by the handle_new_user trigger when the account is created
+            try {
+              setOrganization(await organizationService.getCurrentOrganization());
+            } catch (error) {
+              console.error('Error fetching organization:', error);
+            }
           }, 0);
         } else {
           setProfile(null);
+          setOrganization(null);
           setRoles([]);
         }
         
@@ -162,7 +176,7 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     return { error };
   };
 
-  const signUp = async (email: string, password: string, firstName: string, lastName: string) => {
+  const signUp = async (email: string, password: string, firstName: string, lastName: string, inviteToken?: string) => {
     const redirectUrl = `${window.location.origin}/`;
     
     const { data, error } = await supabase.auth.signUp({
@@ -173,6 +187,8 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
         data: {
           first_name: firstName,
           last_name: lastName,
+          // Picked up by handle_new_user to apply the invitation
+          ...(inviteToken && { invite_token: inviteToken }),
         }
       }
     });
@@ -192,10 +208,10 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
             .insert({
               user_id: data.user.id,
               email: data.user.email,
+              domain: emailDomain(data.user.email),
               name: `${firstName} ${lastName}`.trim(),
               first_name: firstName,
               last_name: lastName,
-              is_manager: false, // Default to regular user
               created_at: new Date().toISOString(),
               updated_at: new Date().toISOString()
             });
@@ -214,11 +230,14 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     return { error };
   };
 
-  const signInWithGoogle = async () => {
+  const signInWithGoogle = async (inviteToken?: string) => {
     const { error } = await supabase.auth.signInWithOAuth({
       provider: 'google',
       options: {
-        redirectTo: `${window.location.origin}/`,
+        // Come back to the invitation so existing accounts can accept it
+        redirectTo: inviteToken
+          ? `${window.location.origin}/auth?invite=${inviteToken}`
+          : `${window.location.origin}/`,
       }
     });
 
@@ -257,6 +276,7 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     signInWithGoogle,
     signOut,
     profile,
+    organization,
     roles,
     hasRole,
   };
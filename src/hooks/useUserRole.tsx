@@ -1,78 +1,76 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
 import { useAuth } from './useAuth';
 
+export type AppRole = Database['public']['Enums']['app_role'];
+export type AppPermission = Database['public']['Enums']['app_permission'];
+
 export interface UserRole {
+  roles: AppRole[];
+  permissions: AppPermission[];
+  // Global admin: operates the whole deployment
   isAdmin: boolean;
+  // Admin of the user's own organization only
+  isOrgAdmin: boolean;
   isManager: boolean;
   isRegularUser: boolean;
   loading: boolean;
 }
 
+const NO_ROLES: Omit<UserRole, 'loading'> = {
+  roles: [],
+  permissions: [],
+  isAdmin: false,
+  isOrgAdmin: false,
+  isManager: false,
+  isRegularUser: false
+};
+
+// Roles and permissions come from current_user_roles() and current_user_permissions(), which use the
+// same has_role() and has_permission() checks as the RLS policies, so the UI never shows access the
+// database would refuse.
 export const useUserRole = (): UserRole => {
-  const [userRole, setUserRole] = useState<UserRole>({
-    isAdmin: false,
-    isManager: false,
-    isRegularUser: false,
-    loading: true
-  });
-  
+  const [userRole, setUserRole] = useState<UserRole>({ ...NO_ROLES, loading: true });
+
   const { user } = useAuth();
 
   useEffect(() => {
     const checkUserRole = async () => {
-      console.log('Checking user role for:', user?.email);
-      if (!user?.email) {
-        setUserRole({
-          isAdmin: false,
-          isManager: false,
-          isRegularUser: false,
-          loading: false
-        });
+      if (!user?.id) {
+        setUserRole({ ...NO_ROLES, loading: false });
         return;
       }
 
       try {
-        // Check if user is admin
-        const { data: adminData, error: adminError } = await supabase
-          .from('admin')
-          .select('id')
-          .eq('email', user.email)
-          .single();
-
-        if (adminError && adminError.code !== 'PGRST116') {
-          console.error('Error checking admin status:', adminError);
-        }
-
-        const isAdmin = !!adminData;
-        console.log('Admin check result:', { adminData, adminError, isAdmin });
-
-        // Check if user is manager
-        const { data: userData, error: userError } = await supabase
-          .from('users')
-          .select('is_manager')
-          .eq('email', user.email)
-          .single();
-
-        if (userError && userError.code !== 'PGRST116') {
-          console.error('Error checking user status:', userError);
-        }
-
-        const isManager = userData?.is_manager || false;
-        const isRegularUser = !isAdmin && !isManager;
+        const [rolesResult, permissionsResult] = await Promise.all([
+          supabase.rpc('current_user_roles'),
+          supabase.rpc('current_user_permissions')
+        ]);
+        if (rolesResult.error) throw rolesResult.error;
+        if (permissionsResult.error) throw permissionsResult.error;
 
-        console.log('Role check results:', { isAdmin, isManager, isRegularUser, adminData, userData });
+        const roles = rolesResult.data || [];
+        const isAdmin = roles.includes('admin');
+        const isOrgAdmin = roles.includes('org_admin');
+        const isManager = roles.includes('manager');
 
         setUserRole({
+          roles,
+          permissions: permissionsResult.data || [],
           isAdmin,
+          isOrgAdmin,
           isManager,
-          isRegularUser,
+          isRegularUser: !isAdmin && !isOrgAdmin && !isManager,
           loading: false
         });
       } catch (error) {
         console.error('Error checking user role:', error);
         setUserRole({
+          roles: ['user'],
+          permissions: [],
           isAdmin: false,
+          isOrgAdmin: false,
           isManager: false,
           isRegularUser: true,
           loading: false
@@ -81,7 +79,7 @@ export const useUserRole = (): UserRole => {
     };
 
     checkUserRole();
-  }, [user?.email]);
+  }, [user?.id]);
 
   return userRole;
 };
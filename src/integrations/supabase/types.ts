@@ -22,7 +22,8 @@ export type Database = {
           entity_type: string
           id: string
           metadata: Json | null
-          user_id: string
+          organization_id: string | null
+          user_id: string | null
         }
         Insert: {
           action: string
@@ -31,7 +32,8 @@ export type Database = {
           entity_type: string
           id?: string
           metadata?: Json | null
-          user_id: string
+          organization_id?: string | null
+          user_id?: string | null
         }
         Update: {
           action?: string
@@ -40,9 +42,53 @@ export type Database = {
           entity_type?: string
           id?: string
           metadata?: Json | null
-          user_id?: string
+          organization_id?: string | null
+          user_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "activity_feed_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ai_match_cache: {
+        Row: {
+          content_hash: string
+          created_at: string
+          explanation: string
+          organization_id: string
+          score: number
+          updated_at: string
+        }
+        Insert: {
+          content_hash: string
+          created_at?: string
+          explanation: string
+          organization_id?: string
+          score: number
+          updated_at?: string
+        }
+        Update: {
+          content_hash?: string
+          created_at?: string
+          explanation?: string
+          organization_id?: string
+          score?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_match_cache_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       assignments: {
         Row: {
@@ -95,6 +141,237 @@ export type Database = {
           },
         ]
       }
+      business_units: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          organization_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          organization_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          organization_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "business_units_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_jobs: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          dry_run: boolean
+          entity: string
+          error_message: string | null
+          file_name: string | null
+          id: string
+          match_key: string
+          merge_rule: string
+          organization_id: string
+          results: Json
+          status: string
+          summary: Json
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          dry_run?: boolean
+          entity: string
+          error_message?: string | null
+          file_name?: string | null
+          id?: string
+          match_key: string
+          merge_rule: string
+          organization_id?: string
+          results?: Json
+          status: string
+          summary?: Json
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          dry_run?: boolean
+          entity?: string
+          error_message?: string | null
+          file_name?: string | null
+          id?: string
+          match_key?: string
+          merge_rule?: string
+          organization_id?: string
+          results?: Json
+          status?: string
+          summary?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_jobs_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_mappings: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          entity: string
+          id: string
+          mapping: Json
+          name: string
+          organization_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          entity: string
+          id?: string
+          mapping?: Json
+          name: string
+          organization_id?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          entity?: string
+          id?: string
+          mapping?: Json
+          name?: string
+          organization_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_mappings_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          organization_id: string
+          role: Database["public"]["Enums"]["app_role"]
+          team_id: string | null
+          token: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          organization_id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          team_id?: string | null
+          token?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          organization_id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          team_id?: string | null
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invitations_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invitations_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      llm_usage_log: {
+        Row: {
+          completion_tokens: number
+          created_at: string
+          error_message: string | null
+          feature: string
+          id: string
+          latency_ms: number | null
+          model: string | null
+          prompt_tokens: number
+          status: string
+          total_tokens: number
+          user_id: string
+        }
+        Insert: {
+          completion_tokens?: number
+          created_at?: string
+          error_message?: string | null
+          feature: string
+          id?: string
+          latency_ms?: number | null
+          model?: string | null
+          prompt_tokens?: number
+          status: string
+          total_tokens?: number
+          user_id: string
+        }
+        Update: {
+          completion_tokens?: number
+          created_at?: string
+          error_message?: string | null
+          feature?: string
+          id?: string
+          latency_ms?: number | null
+          model?: string | null
+          prompt_tokens?: number
+          status?: string
+          total_tokens?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
       managers: {
         Row: {
           avatar_url: string | null
@@ -133,27 +410,33 @@ export type Database = {
       }
       match_feedback: {
         Row: {
+          accuracy_rating: number | null
           created_at: string
           feedback_text: string | null
           id: string
           match_id: string
           rating: number | null
+          updated_at: string
           user_id: string
         }
         Insert: {
+          accuracy_rating?: number | null
           created_at?: string
           feedback_text?: string | null
           id?: string
           match_id: string
           rating?: number | null
+          updated_at?: string
           user_id: string
         }
         Update: {
+          accuracy_rating?: number | null
           created_at?: string
           feedback_text?: string | null
           id?: string
           match_id?: string
           rating?: number | null
+          updated_at?: string
           user_id?: string
         }
         Relationships: [
@@ -170,25 +453,46 @@ export type Database = {
         Row: {
           ai_explanation: string | null
           created_at: string
+          created_by: string | null
           id: string
+          match_direction: string
           match_score: number | null
           opportunity_id: string
+          run_at: string
+          run_id: string
+          score_breakdown: Json | null
+          scoring_mode: string
+          skill_breakdown: Json | null
           talent_profile_id: string
         }
         Insert: {
           ai_explanation?: string | null
           created_at?: string
+          created_by?: string | null
           id?: string
+          match_direction?: string
           match_score?: number | null
           opportunity_id: string
+          run_at?: string
+          run_id?: string
+          score_breakdown?: Json | null
+          scoring_mode?: string
+          skill_breakdown?: Json | null
           talent_profile_id: string
         }
         Update: {
           ai_explanation?: string | null
           created_at?: string
+          created_by?: string | null
           id?: string
+          match_direction?: string
           match_score?: number | null
           opportunity_id?: string
+          run_at?: string
+          run_id?: string
+          score_breakdown?: Json | null
+          scoring_mode?: string
+          skill_breakdown?: Json | null
           talent_profile_id?: string
         }
         Relationships: [
@@ -210,162 +514,564 @@ export type Database = {
       }
       opportunities: {
         Row: {
-          budget_max: number | null
-          budget_min: number | null
           created_at: string
           created_by: string
           description: string | null
           end_date: string | null
+          fulfilled_at: string | null
+          fulfilled_by: string | null
+          fulfilled_candidate_id: string | null
           id: string
           location: string | null
+          organization_id: string | null
           remote_allowed: boolean | null
           required_role: Database["public"]["Enums"]["talent_role"]
           start_date: string | null
           status: Database["public"]["Enums"]["opportunity_status"]
+          team_id: string | null
           title: string
           updated_at: string
         }
         Insert: {
-          budget_max?: number | null
-          budget_min?: number | null
           created_at?: string
           created_by: string
           description?: string | null
           end_date?: string | null
+          fulfilled_at?: string | null
+          fulfilled_by?: string | null
+          fulfilled_candidate_id?: string | null
           id?: string
           location?: string | null
+          organization_id?: string | null
           remote_allowed?: boolean | null
           required_role: Database["public"]["Enums"]["talent_role"]
           start_date?: string | null
           status?: Database["public"]["Enums"]["opportunity_status"]
+          team_id?: string | null
           title: string
           updated_at?: string
         }
         Update: {
-          budget_max?: number | null
-          budget_min?: number | null
           created_at?: string
           created_by?: string
           description?: string | null
           end_date?: string | null
+          fulfilled_at?: string | null
+          fulfilled_by?: string | null
+          fulfilled_candidate_id?: string | null
           id?: string
           location?: string | null
+          organization_id?: string | null
           remote_allowed?: boolean | null
           required_role?: Database["public"]["Enums"]["talent_role"]
           start_date?: string | null
           status?: Database["public"]["Enums"]["opportunity_status"]
+          team_id?: string | null
           title?: string
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "opportunities_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      opportunity_skills: {
+      opportunity_candidate_events: {
         Row: {
-          created_at: string
+          candidate_id: string
+          changed_at: string
+          changed_by: string | null
+          from_stage_id: string | null
           id: string
-          is_required: boolean | null
-          opportunity_id: string
-          required_level: number | null
-          skill_id: string
+          rejection_reason: string | null
+          to_stage_id: string
         }
         Insert: {
-          created_at?: string
+          candidate_id: string
+          changed_at?: string
+          changed_by?: string | null
+          from_stage_id?: string | null
           id?: string
-          is_required?: boolean | null
-          opportunity_id: string
-          required_level?: number | null
-          skill_id: string
+          rejection_reason?: string | null
+          to_stage_id: string
         }
         Update: {
-          created_at?: string
+          candidate_id?: string
+          changed_at?: string
+          changed_by?: string | null
+          from_stage_id?: string | null
           id?: string
-          is_required?: boolean | null
-          opportunity_id?: string
-          required_level?: number | null
-          skill_id?: string
+          rejection_reason?: string | null
+          to_stage_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "opportunity_skills_opportunity_id_fkey"
-            columns: ["opportunity_id"]
+            foreignKeyName: "opportunity_candidate_events_candidate_id_fkey"
+            columns: ["candidate_id"]
             isOneToOne: false
-            referencedRelation: "opportunities"
+            referencedRelation: "opportunity_candidates"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "opportunity_skills_skill_id_fkey"
-            columns: ["skill_id"]
+            foreignKeyName: "opportunity_candidate_events_from_stage_id_fkey"
+            columns: ["from_stage_id"]
             isOneToOne: false
-            referencedRelation: "skills"
+            referencedRelation: "pipeline_stages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "opportunity_candidate_events_to_stage_id_fkey"
+            columns: ["to_stage_id"]
+            isOneToOne: false
+            referencedRelation: "pipeline_stages"
             referencedColumns: ["id"]
           },
         ]
       }
-      profiles: {
+      opportunity_budgets: {
         Row: {
-          avatar_url: string | null
+          budget_max: number | null
+          budget_min: number | null
           created_at: string
-          domain: string | null
-          email: string
-          first_name: string | null
-          id: string
-          last_name: string | null
+          opportunity_id: string
           updated_at: string
-          user_id: string
         }
         Insert: {
-          avatar_url?: string | null
+          budget_max?: number | null
+          budget_min?: number | null
           created_at?: string
-          domain?: string | null
-          email: string
-          first_name?: string | null
-          id?: string
-          last_name?: string | null
+          opportunity_id: string
           updated_at?: string
-          user_id: string
         }
         Update: {
-          avatar_url?: string | null
+          budget_max?: number | null
+          budget_min?: number | null
           created_at?: string
-          domain?: string | null
-          email?: string
-          first_name?: string | null
-          id?: string
-          last_name?: string | null
+          opportunity_id?: string
           updated_at?: string
-          user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "opportunity_budgets_opportunity_id_fkey"
+            columns: ["opportunity_id"]
+            isOneToOne: true
+            referencedRelation: "opportunities"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      skills: {
+      opportunity_candidates: {
         Row: {
-          category: Database["public"]["Enums"]["skill_category"]
+          added_by: string | null
           created_at: string
-          description: string | null
           id: string
-          name: string
-          parent_skill_id: string | null
+          opportunity_id: string
+          position: number
+          rejection_reason: string | null
+          stage_entered_at: string
+          stage_id: string
+          talent_profile_id: string
+          updated_at: string
         }
         Insert: {
-          category: Database["public"]["Enums"]["skill_category"]
+          added_by?: string | null
           created_at?: string
-          description?: string | null
           id?: string
-          name: string
-          parent_skill_id?: string | null
+          opportunity_id: string
+          position?: number
+          rejection_reason?: string | null
+          stage_entered_at?: string
+          stage_id: string
+          talent_profile_id: string
+          updated_at?: string
         }
         Update: {
-          category?: Database["public"]["Enums"]["skill_category"]
+          added_by?: string | null
           created_at?: string
-          description?: string | null
           id?: string
-          name?: string
-          parent_skill_id?: string | null
+          opportunity_id?: string
+          position?: number
+          rejection_reason?: string | null
+          stage_entered_at?: string
+          stage_id?: string
+          talent_profile_id?: string
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "skills_parent_skill_id_fkey"
-            columns: ["parent_skill_id"]
+            foreignKeyName: "opportunity_candidates_opportunity_id_fkey"
+            columns: ["opportunity_id"]
+            isOneToOne: false
+            referencedRelation: "opportunities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "opportunity_candidates_stage_id_fkey"
+            columns: ["stage_id"]
+            isOneToOne: false
+            referencedRelation: "pipeline_stages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "opportunity_candidates_talent_profile_id_fkey"
+            columns: ["talent_profile_id"]
+            isOneToOne: false
+            referencedRelation: "talent_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      opportunity_embeddings: {
+        Row: {
+          content: string
+          content_hash: string
+          created_at: string
+          embedding: string | null
+          model: string | null
+          opportunity_id: string
+          stale: boolean
+          updated_at: string
+        }
+        Insert: {
+          content: string
+          content_hash: string
+          created_at?: string
+          embedding?: string | null
+          model?: string | null
+          opportunity_id: string
+          stale?: boolean
+          updated_at?: string
+        }
+        Update: {
+          content?: string
+          content_hash?: string
+          created_at?: string
+          embedding?: string | null
+          model?: string | null
+          opportunity_id?: string
+          stale?: boolean
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "opportunity_embeddings_opportunity_id_fkey"
+            columns: ["opportunity_id"]
+            isOneToOne: true
+            referencedRelation: "opportunities"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      opportunity_skills: {
+        Row: {
+          created_at: string
+          id: string
+          is_required: boolean | null
+          opportunity_id: string
+          required_level: number | null
+          skill_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_required?: boolean | null
+          opportunity_id: string
+          required_level?: number | null
+          skill_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_required?: boolean | null
+          opportunity_id?: string
+          required_level?: number | null
+          skill_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "opportunity_skills_opportunity_id_fkey"
+            columns: ["opportunity_id"]
+            isOneToOne: false
+            referencedRelation: "opportunities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "opportunity_skills_skill_id_fkey"
+            columns: ["skill_id"]
+            isOneToOne: false
+            referencedRelation: "skills"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          created_at: string
+          organization_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          organization_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          organization_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          domain: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          domain?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          domain?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      pipeline_stages: {
+        Row: {
+          created_at: string
+          id: string
+          key: string
+          label: string
+          outcome: string | null
+          position: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          key: string
+          label: string
+          outcome?: string | null
+          position?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          key?: string
+          label?: string
+          outcome?: string | null
+          position?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          domain: string | null
+          email: string
+          first_name: string | null
+          id: string
+          last_name: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          domain?: string | null
+          email: string
+          first_name?: string | null
+          id?: string
+          last_name?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          domain?: string | null
+          email?: string
+          first_name?: string | null
+          id?: string
+          last_name?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      resume_parse_feedback: {
+        Row: {
+          confidence: number
+          corrected: boolean
+          created_at: string
+          created_by: string | null
+          field: string
+          id: string
+          organization_id: string
+          parse_source: string
+          talent_profile_id: string | null
+        }
+        Insert: {
+          confidence: number
+          corrected: boolean
+          created_at?: string
+          created_by?: string | null
+          field: string
+          id?: string
+          organization_id?: string
+          parse_source: string
+          talent_profile_id?: string | null
+        }
+        Update: {
+          confidence?: number
+          corrected?: boolean
+          created_at?: string
+          created_by?: string | null
+          field?: string
+          id?: string
+          organization_id?: string
+          parse_source?: string
+          talent_profile_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "resume_parse_feedback_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "resume_parse_feedback_talent_profile_id_fkey"
+            columns: ["talent_profile_id"]
+            isOneToOne: false
+            referencedRelation: "talent_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      role_permissions: {
+        Row: {
+          created_at: string
+          permission: Database["public"]["Enums"]["app_permission"]
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Insert: {
+          created_at?: string
+          permission: Database["public"]["Enums"]["app_permission"]
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Update: {
+          created_at?: string
+          permission?: Database["public"]["Enums"]["app_permission"]
+          role?: Database["public"]["Enums"]["app_role"]
+        }
+        Relationships: []
+      }
+      signup_settings: {
+        Row: {
+          allowed_domains: string[]
+          id: boolean
+          self_signup_enabled: boolean
+          updated_at: string
+        }
+        Insert: {
+          allowed_domains?: string[]
+          id?: boolean
+          self_signup_enabled?: boolean
+          updated_at?: string
+        }
+        Update: {
+          allowed_domains?: string[]
+          id?: boolean
+          self_signup_enabled?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      skill_aliases: {
+        Row: {
+          alias: string
+          created_at: string
+          id: string
+          skill_id: string
+        }
+        Insert: {
+          alias: string
+          created_at?: string
+          id?: string
+          skill_id: string
+        }
+        Update: {
+          alias?: string
+          created_at?: string
+          id?: string
+          skill_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "skill_aliases_skill_id_fkey"
+            columns: ["skill_id"]
+            isOneToOne: false
+            referencedRelation: "skills"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      skills: {
+        Row: {
+          category: Database["public"]["Enums"]["skill_category"]
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          parent_skill_id: string | null
+        }
+        Insert: {
+          category: Database["public"]["Enums"]["skill_category"]
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          parent_skill_id?: string | null
+        }
+        Update: {
+          category?: Database["public"]["Enums"]["skill_category"]
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          parent_skill_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "skills_parent_skill_id_fkey"
+            columns: ["parent_skill_id"]
             isOneToOne: false
             referencedRelation: "skills"
             referencedColumns: ["id"]
@@ -389,6 +1095,7 @@ export type Database = {
             linkedin_url: string | null
             location: string | null
             manager_id: string | null
+            organization_id: string | null
             portfolio_url: string | null
             reporting_manager: string | null
             remote_preference: boolean | null
@@ -396,6 +1103,7 @@ export type Database = {
             source: string | null
             resume_url: string | null
             talent_role: Database["public"]["Enums"]["talent_role"]
+            team_id: string | null
             timezone: string | null
             updated_at: string
             years_experience: number | null
@@ -403,6 +1111,7 @@ export type Database = {
             certifications: string | null
             work_experience: string | null
             prospect_status: string | null
+            review_status: string
           }
         Insert: {
           availability_start_date?: string | null
@@ -420,6 +1129,7 @@ export type Database = {
           linkedin_url?: string | null
           location?: string | null
           manager_id?: string | null
+          organization_id?: string | null
           portfolio_url?: string | null
           reporting_manager?: string | null
           remote_preference?: boolean | null
@@ -427,6 +1137,7 @@ export type Database = {
           source?: string | null
           resume_url?: string | null
           talent_role: Database["public"]["Enums"]["talent_role"]
+          team_id?: string | null
           timezone?: string | null
           updated_at?: string
           years_experience?: number | null
@@ -434,75 +1145,224 @@ export type Database = {
           certifications?: string | null
           work_experience?: string | null
           prospect_status?: string | null
+          review_status?: string
+        }
+        Update: {
+          availability_start_date?: string | null
+          avatar_url?: string | null
+          bio?: string | null
+          created_at?: string
+          email?: string
+          talent_type?: string | null
+          first_name?: string | null
+          github_url?: string | null
+          hourly_rate?: number | null
+          id?: string
+          last_name?: string | null
+          linkedin_url?: string | null
+          location?: string | null
+          manager_id?: string | null
+          organization_id?: string | null
+          portfolio_url?: string | null
+          reporting_manager?: string | null
+          remote_preference?: boolean | null
+          skills?: string[] | null
+          source?: string | null
+          resume_url?: string | null
+          talent_role?: Database["public"]["Enums"]["talent_role"]
+          team_id?: string | null
+          timezone?: string | null
+          updated_at?: string
+          years_experience?: number | null
+          education?: string | null
+          certifications?: string | null
+          work_experience?: string | null
+          prospect_status?: string | null
+          review_status?: string
+        }
+        Relationships: []
+      }
+      employee_projects: {
+        Row: {
+          created_at: string
+          id: string
+          project_name: string
+          release_date: string | null
+          reporting_manager: string
+          start_date: string | null
+          talent_profile_id: string
+          updated_at: string
+          utilization_percentage: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          project_name: string
+          release_date?: string | null
+          reporting_manager: string
+          start_date?: string | null
+          talent_profile_id: string
+          updated_at?: string
+          utilization_percentage: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          project_name?: string
+          release_date?: string | null
+          reporting_manager?: string
+          start_date?: string | null
+          talent_profile_id?: string
+          updated_at?: string
+          utilization_percentage?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "employee_projects_talent_profile_id_fkey"
+            columns: ["talent_profile_id"]
+            isOneToOne: false
+            referencedRelation: "talent_profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      talent_embeddings: {
+        Row: {
+          content: string
+          content_hash: string
+          created_at: string
+          embedding: string | null
+          model: string | null
+          talent_profile_id: string
+          stale: boolean
+          updated_at: string
+        }
+        Insert: {
+          content: string
+          content_hash: string
+          created_at?: string
+          embedding?: string | null
+          model?: string | null
+          talent_profile_id: string
+          stale?: boolean
+          updated_at?: string
+        }
+        Update: {
+          content?: string
+          content_hash?: string
+          created_at?: string
+          embedding?: string | null
+          model?: string | null
+          talent_profile_id?: string
+          stale?: boolean
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "talent_embeddings_talent_profile_id_fkey"
+            columns: ["talent_profile_id"]
+            isOneToOne: true
+            referencedRelation: "talent_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      talent_profile_versions: {
+        Row: {
+          changed_by: string | null
+          changed_fields: string[]
+          created_at: string
+          id: string
+          restored_from_version_id: string | null
+          snapshot: Json
+          source: string
+          talent_profile_id: string
+          version_number: number
+        }
+        Insert: {
+          changed_by?: string | null
+          changed_fields?: string[]
+          created_at?: string
+          id?: string
+          restored_from_version_id?: string | null
+          snapshot: Json
+          source: string
+          talent_profile_id: string
+          version_number: number
         }
         Update: {
-          availability_start_date?: string | null
-          avatar_url?: string | null
-          bio?: string | null
+          changed_by?: string | null
+          changed_fields?: string[]
           created_at?: string
-          email?: string
-          talent_type?: string | null
-          first_name?: string | null
-          github_url?: string | null
-          hourly_rate?: number | null
           id?: string
-          last_name?: string | null
-          linkedin_url?: string | null
-          location?: string | null
-          manager_id?: string | null
-          portfolio_url?: string | null
-          reporting_manager?: string | null
-          remote_preference?: boolean | null
-          skills?: string[] | null
-          source?: string | null
-          resume_url?: string | null
-          talent_role?: Database["public"]["Enums"]["talent_role"]
-          timezone?: string | null
-          updated_at?: string
-          years_experience?: number | null
-          education?: string | null
-          certifications?: string | null
-          work_experience?: string | null
-          prospect_status?: string | null
+          restored_from_version_id?: string | null
+          snapshot?: Json
+          source?: string
+          talent_profile_id?: string
+          version_number?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "talent_profile_versions_restored_from_version_id_fkey"
+            columns: ["restored_from_version_id"]
+            isOneToOne: false
+            referencedRelation: "talent_profile_versions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "talent_profile_versions_talent_profile_id_fkey"
+            columns: ["talent_profile_id"]
+            isOneToOne: false
+            referencedRelation: "talent_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      employee_projects: {
+      talent_resumes: {
         Row: {
           created_at: string
+          extracted_text: string | null
+          file_name: string
           id: string
-          project_name: string
-          reporting_manager: string
+          mime_type: string | null
+          size_bytes: number | null
+          storage_path: string
           talent_profile_id: string
-          updated_at: string
-          utilization_percentage: number
+          uploaded_by: string | null
+          version_number: number
         }
         Insert: {
           created_at?: string
+          extracted_text?: string | null
+          file_name: string
           id?: string
-          project_name: string
-          reporting_manager: string
+          mime_type?: string | null
+          size_bytes?: number | null
+          storage_path: string
           talent_profile_id: string
-          updated_at?: string
-          utilization_percentage: number
+          uploaded_by?: string | null
+          version_number?: number
         }
         Update: {
           created_at?: string
+          extracted_text?: string | null
+          file_name?: string
           id?: string
-          project_name?: string
-          reporting_manager?: string
+          mime_type?: string | null
+          size_bytes?: number | null
+          storage_path?: string
           talent_profile_id?: string
-          updated_at?: string
-          utilization_percentage?: number
+          uploaded_by?: string | null
+          version_number?: number
         }
         Relationships: [
           {
-            foreignKeyName: "employee_projects_talent_profile_id_fkey"
+            foreignKeyName: "talent_resumes_talent_profile_id_fkey"
             columns: ["talent_profile_id"]
             isOneToOne: false
             referencedRelation: "talent_profiles"
             referencedColumns: ["id"]
-          }
+          },
         ]
       }
       talent_skills: {
@@ -547,6 +1407,136 @@ export type Database = {
           },
         ]
       }
+      team_members: {
+        Row: {
+          created_at: string
+          id: string
+          team_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          team_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          team_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_members_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      team_visibility_grants: {
+        Row: {
+          created_at: string
+          granted_by: string | null
+          id: string
+          team_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          granted_by?: string | null
+          id?: string
+          team_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          granted_by?: string | null
+          id?: string
+          team_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_visibility_grants_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      teams: {
+        Row: {
+          business_unit_id: string | null
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          organization_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          business_unit_id?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          organization_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          business_unit_id?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          organization_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "teams_business_unit_id_fkey"
+            columns: ["business_unit_id"]
+            isOneToOne: false
+            referencedRelation: "business_units"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "teams_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_permissions: {
+        Row: {
+          created_at: string
+          granted_by: string | null
+          id: string
+          permission: Database["public"]["Enums"]["app_permission"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          granted_by?: string | null
+          id?: string
+          permission: Database["public"]["Enums"]["app_permission"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          granted_by?: string | null
+          id?: string
+          permission?: Database["public"]["Enums"]["app_permission"]
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -699,9 +1689,93 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      match_feedback_accuracy: {
+        Row: {
+          avg_accuracy_rating: number | null
+          avg_match_score: number | null
+          feedback_count: number | null
+          scoring_mode: string | null
+          thumbs_down: number | null
+          thumbs_up: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      accept_invitation: {
+        Args: { _token: string }
+        Returns: undefined
+      }
+      apply_invitation: {
+        Args: { _invitation_id: string; _user_id: string }
+        Returns: undefined
+      }
+      approve_talent_drafts: {
+        Args: { _ids: string[] }
+        Returns: Json
+      }
+      can_edit_talent: {
+        Args: { _talent_profile_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_manage_opportunity: {
+        Args: { _opportunity_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_manage_team: {
+        Args: { _team_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_upload_talent_resume: {
+        Args: { _talent_profile_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_view_opportunity: {
+        Args: { _opportunity_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_view_team: {
+        Args: { _team_id: string; _user_id: string }
+        Returns: boolean
+      }
+      current_organization_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      current_user_permissions: {
+        Args: Record<PropertyKey, never>
+        Returns: Database["public"]["Enums"]["app_permission"][]
+      }
+      current_user_roles: {
+        Args: Record<PropertyKey, never>
+        Returns: Database["public"]["Enums"]["app_role"][]
+      }
+      embedding_similarities: {
+        Args: { _opportunity_id?: string; _talent_profile_id?: string }
+        Returns: {
+          opportunity_id: string
+          similarity: number
+          talent_profile_id: string
+        }[]
+      }
+      get_invitation: {
+        Args: { _token: string }
+        Returns: {
+          email: string
+          expires_at: string
+          organization_name: string
+          role: Database["public"]["Enums"]["app_role"]
+          status: string
+          team_name: string
+        }[]
+      }
+      get_unmapped_skills: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          skill_name: string
+          talent_count: number
+        }[]
+      }
       get_user_profile: {
         Args: { _user_id: string }
         Returns: {
@@ -715,6 +1789,13 @@ export type Database = {
           user_id: string
         }[]
       }
+      has_permission: {
+        Args: {
+          _permission: Database["public"]["Enums"]["app_permission"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -722,9 +1803,174 @@ export type Database = {
         }
         Returns: boolean
       }
+      import_employee_projects: {
+        Args: {
+          _dry_run?: boolean
+          _file_name?: string
+          _merge_rule?: string
+          _rows: Json
+        }
+        Returns: Json
+      }
+      import_match_value: {
+        Args: { _key: string; _value: string }
+        Returns: string
+      }
+      import_opportunities: {
+        Args: {
+          _dry_run?: boolean
+          _file_name?: string
+          _merge_rule?: string
+          _rows: Json
+          _team_id?: string
+        }
+        Returns: Json
+      }
+      import_skill_list: {
+        Args: { _value: string }
+        Returns: {
+          level: number
+          name: string
+          ord: number
+          skill_id: string
+        }[]
+      }
+      import_skills: {
+        Args: {
+          _dry_run?: boolean
+          _file_name?: string
+          _merge_rule?: string
+          _rows: Json
+        }
+        Returns: Json
+      }
+      import_talent_profiles: {
+        Args: {
+          _dry_run?: boolean
+          _file_name?: string
+          _match_key?: string
+          _merge_rule?: string
+          _rows: Json
+          _team_id?: string
+        }
+        Returns: Json
+      }
+      is_org_admin: {
+        Args: { _user_id: string }
+        Returns: boolean
+      }
+      is_org_member: {
+        Args: { _organization_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_public_email_domain: {
+        Args: { _domain: string }
+        Returns: boolean
+      }
+      is_team_member: {
+        Args: { _team_id: string; _user_id: string }
+        Returns: boolean
+      }
+      map_legacy_skills: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          profiles_processed: number
+          skills_mapped: number
+          unmapped_skills: number
+        }[]
+      }
+      opportunity_embedding_content: {
+        Args: { _description: string; _title: string }
+        Returns: string
+      }
+      opportunity_organization: {
+        Args: { _opportunity_id: string }
+        Returns: string
+      }
+      pending_invitation: {
+        Args: { _email: string; _token: string }
+        Returns: string
+      }
+      resend_invitation: {
+        Args: { _invitation_id: string }
+        Returns: undefined
+      }
+      resolve_organization: {
+        Args: { _email: string }
+        Returns: string
+      }
+      resolve_skill: {
+        Args: { _name: string }
+        Returns: string
+      }
+      restore_talent_profile_version: {
+        Args: { _version_id: string }
+        Returns: string
+      }
+      resume_object_exists: {
+        Args: { _name: string }
+        Returns: boolean
+      }
+      resume_object_talent_profile_id: {
+        Args: { _name: string }
+        Returns: string
+      }
+      search_talents_semantic: {
+        Args: {
+          match_count?: number
+          min_similarity?: number
+          query_embedding: string
+        }
+        Returns: {
+          similarity: number
+          talent_profile_id: string
+        }[]
+      }
+      shares_organization: {
+        Args: { _other_user_id: string; _user_id: string }
+        Returns: boolean
+      }
+      talent_draft_duplicates: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          draft_id: string
+          email: string
+          first_name: string
+          last_name: string
+          match_reason: string
+          review_status: string
+          talent_profile_id: string
+        }[]
+      }
+      talent_embedding_content: {
+        Args: { _bio: string; _skills: string[]; _work_experience: string }
+        Returns: string
+      }
+      talent_profile_organization: {
+        Args: { _talent_profile_id: string }
+        Returns: string
+      }
+      talent_profile_snapshot: {
+        Args: { _talent_profile_id: string }
+        Returns: Json
+      }
+      team_organization: {
+        Args: { _team_id: string }
+        Returns: string
+      }
+      withdraw_talent_resume: {
+        Args: { _storage_path: string }
+        Returns: undefined
+      }
     }
     Enums: {
-      app_role: "admin" | "manager" | "user"
+      app_permission:
+        | "view_compensation"
+        | "edit_talent"
+        | "delete_records"
+        | "run_ai_matching"
+        | "invite_users"
+      app_role: "admin" | "manager" | "user" | "org_admin"
       opportunity_status: "open" | "filled" | "cancelled" | "on_hold"
       skill_category: "technical" | "soft" | "domain"
       talent_role: "engineer" | "designer" | "pm" | "qa" | "data_scientist"
@@ -855,7 +2101,14 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "manager", "user"],
+      app_permission: [
+        "view_compensation",
+        "edit_talent",
+        "delete_records",
+        "run_ai_matching",
+        "invite_users",
+      ],
+      app_role: ["admin", "manager", "user", "org_admin"],
       opportunity_status: ["open", "filled", "cancelled", "on_hold"],
       skill_category: ["technical", "soft", "domain"],
       talent_role: ["engineer", "designer", "pm", "qa", "data_scientist"],
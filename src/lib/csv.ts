@@ -0,0 +1,95 @@
+// RFC 4180 CSV. Fields may be quoted; quoted fields can contain commas, line breaks and doubled
+// quotes (""). Both CRLF and LF line endings are accepted, and a leading byte order mark is dropped.
+
+// Text starting with one of these is read as a formula by spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+// Signed numbers and phone numbers such as "-5" or "+1 555 0100" start like a formula but can't
+// call anything, so they are written as they are
+const PLAIN_NUMBER = /^[+-]?[\d\s().-]+$/;
+
+/**
+ * Parse CSV text into rows of fields. Blank lines are skipped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' && text[i + 1] === '\n') {
+      endRow();
+      i++;
+    } else if (char === '\n' || char === '\r') {
+      endRow();
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  if (inQuotes) {
+    throw new Error('Unterminated quoted field');
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+};
+
+const escapeField = (value: unknown) => {
+  let text = value === null || value === undefined ? '' : String(value);
+  // A leading apostrophe keeps text such as "=HYPERLINK(...)" from running when the file is opened
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text) && !PLAIN_NUMBER.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) || /^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serialize rows as CSV, quoting only the fields that need it
+ */
+export const toCsv = (rows: unknown[][]): string =>
+  rows.map(row => row.map(escapeField).join(',')).join('\r\n');
+
+/**
+ * Have the browser download rows as a CSV file
+ */
+export const downloadCsv = (rows: unknown[][], fileName: string) => {
+  const blob = new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+};
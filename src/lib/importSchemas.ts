@@ -0,0 +1,158 @@
+import * as z from 'zod';
+import { Constants } from '@/integrations/supabase/types';
+
+// Bulk import definitions for opportunities, project allocations and the skill catalog: the
+// template, what it requires, the notes shown with it and the row check run before upload.
+// The import jobs repeat these checks on the server.
+
+export interface ImportDefinition {
+  templateFields: string[];
+  requiredFields: string[];
+  optionalFields: string[];
+  conditionalNotes: string[];
+  validateRow: (row: Record<string, unknown>) => string[];
+}
+
+const { talent_role, opportunity_status, skill_category } = Constants.public.Enums;
+const BOOLEAN_VALUES = ['', 'true', 'yes', 'y', '1', 'false', 'no', 'n', '0'];
+
+const optionalDate = z.string().refine(
+  value => value === '' || (/^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value))),
+  'must be a date (YYYY-MM-DD)'
+);
+const optionalBoolean = z.string().refine(value => BOOLEAN_VALUES.includes(value.toLowerCase()), 'must be true or false');
+const optionalAmount = z.string().refine(value => value === '' || /^\d+(\.\d+)?$/.test(value), 'must be an amount in USD');
+const percentage = z.string().refine(
+  value => /^\d+(\.\d+)?$/.test(value) && Number(value) <= 100,
+  'must be a percentage from 0 to 100'
+);
+const oneOf = (values: readonly string[], base = z.string()) => base.refine(
+  value => value === '' || values.includes(value.toLowerCase()),
+  `must be one of ${values.join(', ')}`
+);
+// "React:4, TypeScript": skill names with an optional 1-5 level
+const skillList = z.string().refine(
+  value => value.split(',').every(item => item.trim() === '' || /^[^:]+(:\s*[1-5])?$/.test(item.trim())),
+  'list skills as Name or Name:level (1-5), separated by commas'
+);
+
+const endsAfterStart = (startField: string, endField: string) => (row: Record<string, unknown>, ctx: z.RefinementCtx) => {
+  const start = String(row[startField] || '');
+  const end = String(row[endField] || '');
+  // ISO dates compare as strings
+  if (start && end && end < start) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: [endField], message: `must not be before ${startField}` });
+  }
+};
+
+// Every template field as a trimmed string, so blank and missing cells look the same
+const cells = (fields: string[], row: Record<string, unknown>) => Object.fromEntries(
+  fields.map(field => [field, row[field] === null || row[field] === undefined ? '' : String(row[field]).trim()])
+);
+
+const validator = (fields: string[], schema: z.ZodTypeAny) => (row: Record<string, unknown>): string[] => {
+  const result = schema.safeParse(cells(fields, row));
+  if (result.success) return [];
+  return result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+};
+
+const opportunityFields = [
+  'title',
+  'required_role',
+  'description',
+  'location',
+  'remote_allowed',
+  'start_date',
+  'end_date',
+  'status',
+  'required_skills',
+  'nice_to_have_skills',
+  'budget_min',
+  'budget_max'
+];
+
+const opportunityRowSchema = z.object({
+  title: z.string().min(1, 'Title is required'),
+  required_role: oneOf(talent_role, z.string().min(1, 'Required role is required')),
+  remote_allowed: optionalBoolean,
+  start_date: optionalDate,
+  end_date: optionalDate,
+  status: oneOf(opportunity_status),
+  required_skills: skillList,
+  nice_to_have_skills: skillList,
+  budget_min: optionalAmount,
+  budget_max: optionalAmount
+}).passthrough().superRefine((row, ctx) => {
+  endsAfterStart('start_date', 'end_date')(row, ctx);
+  if (row.budget_min && row.budget_max && Number(row.budget_max) < Number(row.budget_min)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['budget_max'], message: 'must not be below budget_min' });
+  }
+});
+
+export const OPPORTUNITY_IMPORT: ImportDefinition = {
+  templateFields: opportunityFields,
+  requiredFields: ['title', 'required_role'],
+  optionalFields: opportunityFields.filter(field => !['title', 'required_role'].includes(field)),
+  conditionalNotes: [
+    `required_role: ${talent_role.join(', ')}`,
+    `status: ${opportunity_status.join(', ')} (defaults to open)`,
+    'required_skills and nice_to_have_skills: catalog skills separated by commas, with an optional level 1-5 (e.g. React:4, SQL); they replace the opportunity\'s current skills',
+    'budget_min and budget_max are imported only with compensation access',
+    'Rows update the existing opportunity with the same title'
+  ],
+  validateRow: validator(opportunityFields, opportunityRowSchema)
+};
+
+const allocationFields = [
+  'talent_email',
+  'project_name',
+  'reporting_manager',
+  'utilization_percentage',
+  'start_date',
+  'release_date'
+];
+
+const allocationRowSchema = z.object({
+  talent_email: z.string().email('Valid email is required'),
+  project_name: z.string().min(1, 'Project name is required'),
+  reporting_manager: z.string().min(1, 'Reporting manager is required'),
+  utilization_percentage: percentage,
+  start_date: optionalDate,
+  release_date: optionalDate
+}).superRefine(endsAfterStart('start_date', 'release_date'));
+
+export const ALLOCATION_IMPORT: ImportDefinition = {
+  templateFields: allocationFields,
+  requiredFields: ['talent_email', 'project_name', 'reporting_manager', 'utilization_percentage'],
+  optionalFields: ['start_date', 'release_date'],
+  conditionalNotes: [
+    'talent_email must belong to an existing employee (talent_type = existing)',
+    'Rows update the allocation with the same talent_email and project_name; with a different start_date they add a new phase',
+    'start_date defaults to the import date'
+  ],
+  validateRow: validator(allocationFields, allocationRowSchema)
+};
+
+const skillFields = ['name', 'category', 'description', 'parent_skill', 'aliases'];
+
+const skillRowSchema = z.object({
+  name: z.string().min(1, 'Skill name is required'),
+  category: oneOf(skill_category, z.string().min(1, 'Category is required'))
+}).passthrough().superRefine((row, ctx) => {
+  if (row.parent_skill && String(row.parent_skill).toLowerCase() === row.name.toLowerCase()) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['parent_skill'], message: 'a skill cannot be its own parent' });
+  }
+});
+
+export const SKILL_IMPORT: ImportDefinition = {
+  templateFields: skillFields,
+  requiredFields: ['name', 'category'],
+  optionalFields: ['description', 'parent_skill', 'aliases'],
+  conditionalNotes: [
+    `category: ${skill_category.join(', ')}`,
+    'aliases: alternative names separated by commas; they are added to the skill, never removed',
+    'parent_skill: a skill in the catalog or elsewhere in the file',
+    'Rows update the catalog skill with the same name'
+  ],
+  validateRow: validator(skillFields, skillRowSchema)
+};
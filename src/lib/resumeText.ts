@@ -0,0 +1,399 @@
+// Plain-text conversion for resume formats. Every converter keeps the document's layout: one line
+// per line or paragraph, a blank line between blocks, and section headings (Experience, Education,
+// ...) on lines of their own so later steps can tell where one section ends and the next begins.
+
+export type ResumeSection =
+  | 'summary'
+  | 'experience'
+  | 'education'
+  | 'skills'
+  | 'certifications'
+  | 'projects'
+  | 'other';
+
+// Headings that open a resume section, compared after dropping case, punctuation and a trailing colon
+const SECTION_HEADINGS = new Map<string, ResumeSection>(Object.entries({
+  'summary': 'summary',
+  'professional summary': 'summary',
+  'profile': 'summary',
+  'professional profile': 'summary',
+  'about': 'summary',
+  'about me': 'summary',
+  'objective': 'summary',
+  'career objective': 'summary',
+  'experience': 'experience',
+  'work experience': 'experience',
+  'professional experience': 'experience',
+  'employment': 'experience',
+  'employment history': 'experience',
+  'work history': 'experience',
+  'career history': 'experience',
+  'relevant experience': 'experience',
+  'education': 'education',
+  'academic background': 'education',
+  'education and training': 'education',
+  'qualifications': 'education',
+  'skills': 'skills',
+  'technical skills': 'skills',
+  'core skills': 'skills',
+  'key skills': 'skills',
+  'core competencies': 'skills',
+  'competencies': 'skills',
+  'technologies': 'skills',
+  'tools': 'skills',
+  'certifications': 'certifications',
+  'certificates': 'certifications',
+  'licenses and certifications': 'certifications',
+  'certifications and licenses': 'certifications',
+  'courses': 'certifications',
+  'training': 'certifications',
+  'projects': 'projects',
+  'key projects': 'projects',
+  'personal projects': 'projects',
+  'languages': 'other',
+  'awards': 'other',
+  'honors and awards': 'other',
+  'achievements': 'other',
+  'publications': 'other',
+  'volunteer experience': 'other',
+  'volunteering': 'other',
+  'interests': 'other',
+  'references': 'other',
+  'contact': 'other',
+  'contact information': 'other'
+}) as Array<[string, ResumeSection]>);
+
+const MAX_HEADING_LENGTH = 40;
+
+const headingKey = (line: string) =>
+  line.toLowerCase().replace(/&/g, 'and').replace(/[^a-z ]/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * The section a known heading opens, e.g. "Work History:" opens experience
+ */
+export const headingSection = (line: string): ResumeSection | null => {
+  const text = line.trim().replace(/:$/, '');
+  if (!text || text.length > MAX_HEADING_LENGTH) return null;
+  return SECTION_HEADINGS.get(headingKey(text)) || null;
+};
+
+/**
+ * Whether a line reads as a section heading: a known heading, or a short line in capitals
+ */
+export const isSectionHeading = (line: string): boolean => {
+  if (headingSection(line)) return true;
+  const text = line.trim().replace(/:$/, '');
+  if (!text || text.length > MAX_HEADING_LENGTH) return false;
+  const letters = text.replace(/[^A-Za-z]/g, '');
+  return letters.length >= 4 && letters === letters.toUpperCase() && text.split(/\s+/).length <= 4 && !/[.,@|]/.test(text);
+};
+
+/**
+ * Tidy extracted text without losing its structure: spaces are collapsed within lines, runs of
+ * blank lines become one, and headings get a blank line on either side.
+ */
+export const normalizeResumeText = (text: string): string => {
+  const lines = text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\f\v]/g, ' ')
+    // Bullets from Word and PDF symbol fonts
+    .replace(/[▪●•◦]/g, '•')
+    .split('\n')
+    .map(line => line.replace(/ {2,}/g, ' ').trim());
+
+  const output: string[] = [];
+  const pushBlank = () => {
+    if (output.length > 0 && output[output.length - 1] !== '') output.push('');
+  };
+
+  lines.forEach(line => {
+    if (!line) {
+      pushBlank();
+    } else if (isSectionHeading(line)) {
+      pushBlank();
+      output.push(line);
+      output.push('');
+    } else {
+      output.push(line);
+    }
+  });
+
+  return output.join('\n').trim();
+};
+
+export interface PdfTextItem {
+  str: string;
+  transform: number[];
+  height: number;
+  hasEOL?: boolean;
+}
+
+/**
+ * Rebuild lines from PDF.js text items using their positions. Items on the same baseline join
+ * into one line; a vertical gap larger than a line leaves a blank line, so blocks stay apart.
+ */
+export const pdfItemsToText = (items: PdfTextItem[]): string => {
+  const lines: string[] = [];
+  let line = '';
+  let lastY: number | null = null;
+  let lastHeight = 0;
+
+  items.forEach(item => {
+    const y = item.transform[5];
+    const height = item.height || lastHeight || 10;
+
+    if (lastY !== null && Math.abs(y - lastY) > height * 0.5) {
+      lines.push(line);
+      line = '';
+      // PDF coordinates grow upwards, so the next line sits below when y decreases
+      if (lastY - y > Math.max(height, lastHeight) * 1.8) lines.push('');
+    }
+
+    if (item.str) {
+      line += line && !line.endsWith(' ') && !item.str.startsWith(' ') ? ` ${item.str}` : item.str;
+    }
+    if (item.hasEOL) {
+      lines.push(line);
+      line = '';
+    }
+
+    lastY = y;
+    lastHeight = height;
+  });
+  if (line) lines.push(line);
+
+  return lines.join('\n');
+};
+
+const BLOCK_TAGS = new Set(['p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'tr', 'table', 'ul', 'ol', 'section', 'article', 'blockquote']);
+
+/**
+ * Convert HTML (from the DOCX converter) into text, one block element per line. List items keep a
+ * bullet and table cells are separated by " | ".
+ */
+export const htmlToText = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const parts: string[] = [];
+
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      parts.push(node.textContent || '');
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const tag = (node as Element).tagName.toLowerCase();
+    if (tag === 'br') {
+      parts.push('\n');
+      return;
+    }
+    const isBlock = BLOCK_TAGS.has(tag);
+    if (isBlock) parts.push('\n');
+    if (tag === 'li') parts.push('• ');
+
+    node.childNodes.forEach((child, index) => {
+      if (tag === 'tr' && index > 0) parts.push(' | ');
+      walk(child);
+    });
+
+    // Paragraphs, headings and tables end a block; other block elements only end a line
+    if (tag === 'p' || tag === 'table' || /^h[1-6]$/.test(tag)) {
+      parts.push('\n\n');
+    } else if (isBlock) {
+      parts.push('\n');
+    }
+  };
+
+  walk(doc.body);
+  return parts.join('');
+};
+
+const ODT_TEXT_NS = 'urn:oasis:names:tc:opendocument:xmlns:text:1.0';
+
+/**
+ * Convert an OpenDocument content.xml into text. Headings, paragraphs and list items each get a
+ * line of their own; tabs, line breaks and repeated spaces are kept.
+ */
+export const odtContentToText = (xml: string): string => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const parts: string[] = [];
+
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      parts.push(node.textContent || '');
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const element = node as Element;
+    const name = element.namespaceURI === ODT_TEXT_NS ? element.localName : '';
+    if (name === 'tab') {
+      parts.push(' ');
+      return;
+    }
+    if (name === 'line-break') {
+      parts.push('\n');
+      return;
+    }
+    if (name === 's') {
+      parts.push(' '.repeat(Number(element.getAttributeNS(ODT_TEXT_NS, 'c') || 1)));
+      return;
+    }
+    if (name === 'list-item') parts.push('\n• ');
+    if (name === 'h') parts.push('\n\n');
+
+    element.childNodes.forEach(walk);
+
+    if (name === 'p') parts.push('\n');
+    if (name === 'h') parts.push('\n\n');
+  };
+
+  walk(doc.documentElement);
+  return parts.join('');
+};
+
+const windows1252 = new TextDecoder('windows-1252');
+
+// RTF destinations whose content is not document text
+const RTF_SKIPPED_GROUPS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'header', 'footer', 'headerl',
+  'headerr', 'footerl', 'footerr', 'listtable', 'listoverridetable', 'rsidtbl', 'generator',
+  'latentstyles', 'themedata', 'colorschememapping', 'datastore', 'xmlnstbl', 'fldinst'
+]);
+
+/**
+ * Convert RTF into text. Paragraph, line and row marks become line breaks, hex and Unicode
+ * escapes are decoded, and font tables, pictures and other non-text groups are dropped.
+ */
+export const rtfToText = (rtf: string): string => {
+  let output = '';
+  // Per group: whether its text is skipped, and how many fallback characters follow a \u escape
+  const stack: Array<{ skip: boolean; unicodeSkip: number }> = [];
+  let skip = false;
+  let unicodeSkip = 1;
+  let pendingSkip = 0;
+  let i = 0;
+
+  const emit = (text: string) => {
+    if (skip) return;
+    if (pendingSkip > 0) {
+      pendingSkip--;
+      return;
+    }
+    output += text;
+  };
+
+  while (i < rtf.length) {
+    const char = rtf[i];
+
+    if (char === '{') {
+      stack.push({ skip, unicodeSkip });
+      i++;
+      continue;
+    }
+    if (char === '}') {
+      const state = stack.pop();
+      if (state) {
+        skip = state.skip;
+        unicodeSkip = state.unicodeSkip;
+      }
+      i++;
+      continue;
+    }
+    if (char === '\r' || char === '\n') {
+      i++;
+      continue;
+    }
+    if (char !== '\\') {
+      emit(char);
+      i++;
+      continue;
+    }
+
+    const next = rtf[i + 1];
+    if (next === '\\' || next === '{' || next === '}') {
+      emit(next);
+      i += 2;
+      continue;
+    }
+    if (next === "'") {
+      const code = parseInt(rtf.substr(i + 2, 2), 16);
+      if (!isNaN(code)) emit(windows1252.decode(new Uint8Array([code])));
+      i += 4;
+      continue;
+    }
+    if (next === '*') {
+      // An ignorable destination the reader does not know
+      skip = true;
+      i += 2;
+      continue;
+    }
+    if (next === '~') {
+      emit(' ');
+      i += 2;
+      continue;
+    }
+    if (next === '-' || next === '_') {
+      if (next === '_') emit('-');
+      i += 2;
+      continue;
+    }
+    if (next === '\r' || next === '\n') {
+      emit('\n');
+      i += 2;
+      continue;
+    }
+
+    const match = /^\\([a-z]+)(-?\d+)? ?/i.exec(rtf.slice(i, i + 40));
+    if (!match) {
+      i += 2;
+      continue;
+    }
+    const [token, word, param] = match;
+    i += token.length;
+
+    if (RTF_SKIPPED_GROUPS.has(word)) {
+      skip = true;
+    } else if (word === 'par' || word === 'line' || word === 'row' || word === 'sect' || word === 'page') {
+      emit('\n');
+    } else if (word === 'tab' || word === 'cell') {
+      emit(' ');
+    } else if (word === 'bullet') {
+      emit('•');
+    } else if (word === 'uc') {
+      unicodeSkip = Number(param || 1);
+    } else if (word === 'u' && param !== undefined) {
+      const code = Number(param);
+      emit(String.fromCharCode(code < 0 ? code + 65536 : code));
+      pendingSkip = skip ? 0 : unicodeSkip;
+    }
+  }
+
+  return output;
+};
+
+const READABLE_RUN = /[\x20-\x7e\u00a0-\u024f\r\n\t]{12,}/g;
+
+const readableRuns = (text: string) =>
+  (text.match(READABLE_RUN) || [])
+    // Body text has words; runs without spaces are usually binary that happens to be printable
+    .filter(run => run.includes(' ') && /[a-z]{2,}/i.test(run));
+
+/**
+ * Best-effort text from a Word 97-2003 (.doc) file. The body text sits in the file as either
+ * 8-bit or UTF-16 characters; without a full parser the readable runs of each encoding are
+ * compared and the longest set is kept. Paragraph marks (\r) become line breaks.
+ */
+export const legacyDocToText = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  const utf16 = new TextDecoder('utf-16le');
+  // UTF-16 text may start at an odd offset, so both alignments are tried
+  const candidates = [
+    readableRuns(utf16.decode(bytes)),
+    readableRuns(utf16.decode(bytes.subarray(1))),
+    readableRuns(windows1252.decode(bytes))
+  ];
+  const best = candidates.reduce((longest, runs) =>
+    runs.join('').length > longest.join('').length ? runs : longest);
+  return best.join('\n').replace(/\r/g, '\n');
+};
@@ -0,0 +1,141 @@
+import * as z from 'zod';
+
+// Talent profile form schema, shared by the AddTalent forms and the bulk import's row validation
+export const talentSchema = z.object({
+  firstName: z.string().min(1, 'First name is required'),
+  lastName: z.string().min(1, 'Last name is required'),
+  email: z.string().email('Valid email is required'),
+  talentType: z.enum(['existing', 'prospect']),
+  talentRole: z.string().min(1, 'Role is required'),
+  bio: z.string().optional(),
+  education: z.string().optional(),
+  workExperience: z.string().optional(),
+  certifications: z.string().optional(),
+  location: z.string().optional(),
+  timezone: z.string().optional(),
+  yearsExperience: z.number().min(0).optional(),
+  // hourlyRate removed
+  remotePreference: z.boolean(),
+  availabilityStartDate: z.string().optional(),
+  projects: z.array(z.object({
+    projectName: z.string(),
+    reportingManager: z.string(),
+    utilizationPercentage: z.number(),
+    startDate: z.string().optional(),
+    releaseDate: z.string().optional()
+  })).optional(),
+  prospectStatus: z.enum(['available', 'interviewing', 'rejected', 'inactive']).optional(),
+  skills: z.string().optional(),
+  source: z.enum(['employee_referral', 'direct_application', 'active_sourcing', 'linkedin_outreach', 'job_board', 'university_recruiting', 'industry_event']).optional(),
+  referredForOpportunity: z.string().optional(),
+  linkedinUrl: z.string().url().optional().or(z.literal('')),
+  githubUrl: z.string().url().optional().or(z.literal('')),
+  portfolioUrl: z.string().url().optional().or(z.literal('')),
+  resumeUrl: z.string().url().optional().or(z.literal(''))
+}).refine((data) => {
+  // If talent type is existing, at least one project is required with valid data
+  if (data.talentType === 'existing') {
+    return data.projects &&
+           data.projects.length > 0 &&
+           data.projects.every(project =>
+             project.projectName.trim() !== '' &&
+             project.reportingManager.trim() !== ''
+           );
+  }
+  return true;
+}, {
+  message: "At least one project with valid project name and reporting manager is required for existing employees",
+  path: ["projects"] // This will show the error on the projects field
+});
+
+export type TalentFormData = z.infer<typeof talentSchema>;
+
+// Bulk import column behind each form field, so validation errors name the spreadsheet column
+const IMPORT_COLUMNS: Record<string, string> = {
+  firstName: 'first_name',
+  lastName: 'last_name',
+  email: 'email',
+  talentType: 'talent_type',
+  talentRole: 'talent_role',
+  bio: 'bio',
+  education: 'education',
+  workExperience: 'work_experience',
+  certifications: 'certifications',
+  location: 'location',
+  yearsExperience: 'years_experience',
+  remotePreference: 'remote_preference',
+  availabilityStartDate: 'availability_start_date',
+  projects: 'existing_project_name',
+  skills: 'skills',
+  source: 'source',
+  linkedinUrl: 'linkedin_url',
+  githubUrl: 'github_url',
+  portfolioUrl: 'portfolio_url'
+};
+
+const text = (value: unknown) => {
+  const trimmed = value === null || value === undefined ? '' : String(value).trim();
+  return trimmed === '' ? undefined : trimmed;
+};
+
+const number = (value: unknown) => {
+  const raw = text(value);
+  return raw === undefined ? undefined : Number(raw);
+};
+
+// Spreadsheets say TRUE, yes, Y or 1. Anything else unrecognized is left for the schema to reject.
+const boolean = (value: unknown) => {
+  const raw = text(value)?.toLowerCase();
+  if (raw === undefined || ['false', 'no', 'n', '0'].includes(raw)) return false;
+  if (['true', 'yes', 'y', '1'].includes(raw)) return true;
+  return raw;
+};
+
+/**
+ * Shape a bulk import row (snake_case columns, all strings) like the talent form's values
+ */
+export const importRowToTalentForm = (row: Record<string, unknown>) => {
+  const talentType = text(row.talent_type) || 'prospect';
+  const hasProject = text(row.existing_project_name) || text(row.existing_project_manager);
+
+  return {
+    firstName: text(row.first_name) || '',
+    lastName: text(row.last_name) || '',
+    email: text(row.email) || '',
+    talentType,
+    talentRole: text(row.talent_role) || '',
+    bio: text(row.bio),
+    education: text(row.education),
+    workExperience: text(row.work_experience),
+    certifications: text(row.certifications),
+    location: text(row.location),
+    yearsExperience: number(row.years_experience),
+    remotePreference: boolean(row.remote_preference),
+    availabilityStartDate: text(row.availability_start_date),
+    projects: talentType === 'existing' && hasProject
+      ? [{
+          projectName: text(row.existing_project_name) || '',
+          reportingManager: text(row.existing_project_manager) || '',
+          utilizationPercentage: number(row.existing_project_utilization) ?? 0
+        }]
+      : [],
+    skills: text(row.skills),
+    source: text(row.source),
+    linkedinUrl: text(row.linkedin_url) || '',
+    githubUrl: text(row.github_url) || '',
+    portfolioUrl: text(row.portfolio_url) || ''
+  };
+};
+
+/**
+ * Check a bulk import row against the talent schema. Returns one message per problem.
+ */
+export const validateTalentImportRow = (row: Record<string, unknown>): string[] => {
+  const result = talentSchema.safeParse(importRowToTalentForm(row));
+  if (result.success) return [];
+
+  return result.error.issues.map(issue => {
+    const column = IMPORT_COLUMNS[String(issue.path[0])];
+    return column ? `${column}: ${issue.message}` : issue.message;
+  });
+};
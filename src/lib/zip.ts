@@ -0,0 +1,79 @@
+// ZIP archives from uploads, unpacked with a byte cap. The sizes an archive declares can be forged,
+// so the unpacked bytes are counted as they stream and reading stops once the cap is passed; a
+// small ZIP bomb can't fill the browser's memory that way.
+
+import JSZip from 'jszip';
+
+// internalStream is public JSZip API but missing from its type definitions
+type StreamableEntry = JSZip.JSZipObject & {
+  internalStream: (type: 'uint8array') => JSZip.JSZipStreamHelper<Uint8Array>;
+};
+
+/**
+ * Stream an entry's bytes to onChunk. Resolves to the unpacked size, or null once that passes maxBytes.
+ */
+const streamEntry = (
+  entry: JSZip.JSZipObject,
+  maxBytes: number,
+  onChunk?: (chunk: Uint8Array) => void
+): Promise<number | null> =>
+  new Promise((resolve, reject) => {
+    let bytes = 0;
+    let done = false;
+    const stream = (entry as StreamableEntry).internalStream('uint8array');
+    stream
+      .on('data', chunk => {
+        if (done) return;
+        bytes += chunk.length;
+        if (bytes > maxBytes) {
+          done = true;
+          stream.pause();
+          resolve(null);
+          return;
+        }
+        onChunk?.(chunk);
+      })
+      .on('error', error => {
+        if (done) return;
+        done = true;
+        reject(error);
+      })
+      .on('end', () => {
+        if (done) return;
+        done = true;
+        resolve(bytes);
+      })
+      .resume();
+  });
+
+/**
+ * Unpack an archive entry, or null once it unpacks to more than maxBytes
+ */
+export const unpackEntry = async (entry: JSZip.JSZipObject, maxBytes: number): Promise<Blob | null> => {
+  const chunks: Uint8Array[] = [];
+  const size = await streamEntry(entry, maxBytes, chunk => chunks.push(chunk));
+  return size === null ? null : new Blob(chunks as BlobPart[]);
+};
+
+/**
+ * Unpack an archive entry as UTF-8 text, or null once it unpacks to more than maxBytes
+ */
+export const unpackEntryText = async (entry: JSZip.JSZipObject, maxBytes: number): Promise<string | null> => {
+  const blob = await unpackEntry(entry, maxBytes);
+  return blob === null ? null : blob.text();
+};
+
+/**
+ * Whether all files in the archive together unpack to at most maxBytes. Nothing is kept, so
+ * this can run before handing the archive to a library that unpacks it without a limit.
+ */
+export const fitsUnpacked = async (zip: JSZip, maxBytes: number): Promise<boolean> => {
+  let total = 0;
+  for (const entry of Object.values(zip.files)) {
+    if (entry.dir) continue;
+    const size = await streamEntry(entry, maxBytes - total);
+    if (size === null) return false;
+    total += size;
+  }
+  return true;
+};
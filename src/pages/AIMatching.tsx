@@ -1,16 +1,49 @@
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { ArrowLeft, Brain, Zap, Users, Target, RefreshCw, User, Briefcase, Mic, MicOff } from 'lucide-react';
+import { ArrowLeft, Brain, Zap, Users, Target, RefreshCw, User, Briefcase, Mic, MicOff, ThumbsUp } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useNavigate } from 'react-router-dom';
 import { aiService } from '@/services/aiService';
+import { llmClient } from '@/services/llmClient';
+import { voiceCommandSchema, VoiceCommand } from '@/services/llmSchemas';
+import { embeddingService, similarityToScore } from '@/services/embeddingService';
+import { aiScoringService, AI_SHORTLIST_SIZE, ScoringPair, ScoringProgress } from '@/services/aiScoringService';
+import { matchService, MatchRunSummary, MatchDirection, MatchResultInput, SavedMatchRun, ScoringMode } from '@/services/matchService';
+import {
+  matchFeedbackService,
+  DEFAULT_MATCH_WEIGHTS,
+  MATCH_FACTORS,
+  LearnedWeights,
+  MatchFeedbackEntry,
+  ScoreBreakdown
+} from '@/services/matchFeedbackService';
+import { skillService, CatalogSkill } from '@/services/skillService';
+import { Allocation, availabilityForWindow, currentUtilization, getMatchWindow, isAvailableForWindow } from '@/services/capacityService';
+import {
+  buildSkillHierarchy,
+  evaluateSkillMatch,
+  getOpportunityRequirements,
+  getTalentSkillLevels,
+  summarizeSkillMatch,
+  OpportunitySkillRow,
+  SkillMatchDetail,
+  TalentSkillRow
+} from '@/services/skillMatchingService';
+import { useAuth } from '@/hooks/useAuth';
+import MatchHistory from '@/components/MatchHistory';
+import MatchFeedback from '@/components/MatchFeedback';
+import MatchFeedbackInsights from '@/components/MatchFeedbackInsights';
+import SkillMatchBreakdown from '@/components/SkillMatchBreakdown';
+import ExportMenu from '@/components/ExportMenu';
+import { exportService, datedFileName, ExportColumn, ExportFormat } from '@/services/exportService';
 
 // TypeScript declarations for Web Speech API
 declare global {
@@ -78,10 +111,9 @@ interface TalentProfile {
   work_experience?: string;
   talent_type: string;
   prospect_status?: string;
-  employee_projects?: Array<{
-    project_name: string;
-    utilization_percentage: number;
-  }>;
+  availability_start_date?: string | null;
+  employee_projects?: Allocation[];
+  talent_skills?: TalentSkillRow[];
 }
 
 interface Opportunity {
@@ -91,22 +123,35 @@ interface Opportunity {
   required_role: string;
   location: string;
   start_date: string;
+  end_date?: string | null;
   status: string;
+  opportunity_skills?: OpportunitySkillRow[];
 }
 
 interface TalentMatch {
   talent: TalentProfile;
   matchScore: number;
   explanation: string;
+  matchId?: string;
+  // Set once the AI has re-scored the match
+  scoringMode?: ScoringMode;
+  breakdown?: ScoreBreakdown;
+  skillMatches?: SkillMatchDetail[];
 }
 
 interface OpportunityMatch {
   opportunity: Opportunity;
   matchScore: number;
   explanation: string;
+  matchId?: string;
+  // Set once the AI has re-scored the match
+  scoringMode?: ScoringMode;
+  breakdown?: ScoreBreakdown;
+  skillMatches?: SkillMatchDetail[];
 }
 
 const AIMatching = () => {
+  const { user } = useAuth();
   const { toast } = useToast();
   const navigate = useNavigate();
   const [activeTab, setActiveTab] = useState('by-opportunity');
@@ -128,14 +173,48 @@ const AIMatching = () => {
     potentialMatches: 0
   });
   const [useAIMatching, setUseAIMatching] = useState(true); // Toggle for AI vs rule-based matching
+  const [opportunityRuns, setOpportunityRuns] = useState<MatchRunSummary[]>([]);
+  const [talentRuns, setTalentRuns] = useState<MatchRunSummary[]>([]);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [isLoadingRuns, setIsLoadingRuns] = useState(false);
+  const [matchWeights, setMatchWeights] = useState<LearnedWeights>({
+    weights: { ...DEFAULT_MATCH_WEIGHTS },
+    sampleSize: 0,
+    isLearned: false
+  });
+  const [feedbackByMatch, setFeedbackByMatch] = useState<Record<string, MatchFeedbackEntry>>({});
+  const [skillCatalog, setSkillCatalog] = useState<CatalogSkill[]>([]);
+  // When on, candidates missing a required skill are dropped instead of penalised
+  const [requireMustHaveSkills, setRequireMustHaveSkills] = useState(false);
+  const [aiScoringProgress, setAIScoringProgress] = useState<ScoringProgress | null>(null);
 
   useEffect(() => {
     fetchOpportunities();
     fetchTalents();
     fetchStats();
+    fetchMatchWeights();
+    fetchSkillCatalog();
     initializeSpeechRecognition();
   }, []);
 
+  useEffect(() => {
+    setSelectedRunId(null);
+    if (selectedOpportunity) {
+      fetchOpportunityRuns(selectedOpportunity);
+    } else {
+      setOpportunityRuns([]);
+    }
+  }, [selectedOpportunity]);
+
+  useEffect(() => {
+    setSelectedRunId(null);
+    if (selectedTalent) {
+      fetchTalentRuns(selectedTalent);
+    } else {
+      setTalentRuns([]);
+    }
+  }, [selectedTalent]);
+
   const initializeSpeechRecognition = () => {
     if ('webkitSpeechRecognition' in window || 'SpeechRecognition' in window) {
       const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
@@ -333,66 +412,21 @@ FUZZY NAME MATCHING RULES:
 
 CRITICAL: Be intelligent and adaptive. Understand the user's intent even with imperfect speech recognition or misspellings.`;
 
-      const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${import.meta.env.VITE_OPENAI_API_KEY}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': window.location.origin,
-          'X-Title': 'Connectiv Talent - Voice Assistant',
-        },
-        body: JSON.stringify({
-          model: 'openrouter/auto',
-          messages: [
-            {
-              role: 'system',
-              content: 'You are a voice assistant for talent matching. Analyze voice commands and return ONLY valid JSON. Do not include markdown formatting, backticks, or any other text. Just pure JSON.'
-            },
-            {
-              role: 'user',
-              content: prompt
-            }
-          ],
-          temperature: 0.3,
-          max_tokens: 300
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error(`AI API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      const content = data.choices[0].message.content;
-      
-      // Clean and parse JSON response
-      let command;
-      try {
-        // Remove markdown formatting and clean the content
-        const cleanedContent = content
-          .replace(/```json\s*/g, '')
-          .replace(/```\s*/g, '')
-          .replace(/`/g, '') // Remove backticks
-          .trim();
-        
-        command = JSON.parse(cleanedContent);
-      } catch (parseError) {
-        console.error('JSON parse error, trying to extract JSON from content:', parseError);
-        console.log('Raw content:', content);
-        
-        // Try to extract JSON from the content using regex
-        const jsonMatch = content.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          try {
-            command = JSON.parse(jsonMatch[0]);
-          } catch (secondError) {
-            console.error('Second JSON parse attempt failed:', secondError);
-            throw new Error('Unable to parse AI response as JSON');
+      const command = await llmClient.chatStructured({
+        feature: 'voice_command',
+        messages: [
+          {
+            role: 'system',
+            content: 'You are a voice assistant for talent matching. Analyze voice commands and return ONLY valid JSON. Do not include markdown formatting, backticks, or any other text. Just pure JSON.'
+          },
+          {
+            role: 'user',
+            content: prompt
           }
-        } else {
-          throw new Error('No JSON found in AI response');
-        }
-      }
+        ],
+        temperature: 0.3,
+        maxTokens: 300
+      }, voiceCommandSchema);
       
       // Execute the AI-determined action
       await executeAIVoiceAction(command);
@@ -470,7 +504,7 @@ CRITICAL: Be intelligent and adaptive. Understand the user's intent even with im
     return matrix[str2.length][str1.length];
   };
 
-  const executeAIVoiceAction = async (command: any) => {
+  const executeAIVoiceAction = async (command: VoiceCommand) => {
     const { action, filters, response } = command;
     
     console.log('Executing AI voice action:', { action, filters, response });
@@ -688,7 +722,7 @@ CRITICAL: Be intelligent and adaptive. Understand the user's intent even with im
         if (talent.talent_type === 'prospect') {
           return talent.prospect_status === 'available';
         } else {
-          const totalUtilization = talent.employee_projects?.reduce((sum: number, project: any) => sum + (project.utilization_percentage || 0), 0) || 0;
+          const totalUtilization = currentUtilization(talent.employee_projects);
           return totalUtilization < 100;
         }
       });
@@ -759,7 +793,7 @@ CRITICAL: Be intelligent and adaptive. Understand the user's intent even with im
         if (talent.talent_type === 'prospect') {
           return talent.prospect_status === 'available';
         } else {
-          const totalUtilization = talent.employee_projects?.reduce((sum: number, project: any) => sum + (project.utilization_percentage || 0), 0) || 0;
+          const totalUtilization = currentUtilization(talent.employee_projects);
           return totalUtilization < 100;
         }
       });
@@ -964,7 +998,7 @@ CRITICAL: Be intelligent and adaptive. Understand the user's intent even with im
         if (talent.talent_type === 'prospect') {
           return talent.prospect_status === 'available';
         } else {
-          const totalUtilization = talent.employee_projects?.reduce((sum: number, project: any) => sum + (project.utilization_percentage || 0), 0) || 0;
+          const totalUtilization = currentUtilization(talent.employee_projects);
           return totalUtilization < 100;
         }
       });
@@ -1121,7 +1155,7 @@ CRITICAL: Be intelligent and adaptive. Understand the user's intent even with im
         if (talent.talent_type === 'prospect') {
           return talent.prospect_status === 'available';
         } else {
-          const totalUtilization = talent.employee_projects?.reduce((sum: number, project: any) => sum + (project.utilization_percentage || 0), 0) || 0;
+          const totalUtilization = currentUtilization(talent.employee_projects);
           return totalUtilization < 100;
         }
       });
@@ -1269,7 +1303,7 @@ CRITICAL: Be intelligent and adaptive. Understand the user's intent even with im
         if (talent.talent_type === 'prospect') {
           return talent.prospect_status === 'available';
         } else {
-          const totalUtilization = talent.employee_projects?.reduce((sum: number, project: any) => sum + (project.utilization_percentage || 0), 0) || 0;
+          const totalUtilization = currentUtilization(talent.employee_projects);
           return totalUtilization < 100;
         }
       });
@@ -1392,7 +1426,7 @@ CRITICAL: Be intelligent and adaptive. Understand the user's intent even with im
         if (talent.talent_type === 'prospect') {
           return talent.prospect_status === 'available';
         } else {
-          const totalUtilization = talent.employee_projects?.reduce((sum: number, project: any) => sum + (project.utilization_percentage || 0), 0) || 0;
+          const totalUtilization = currentUtilization(talent.employee_projects);
           return totalUtilization < 100;
         }
       });
@@ -1457,7 +1491,17 @@ CRITICAL: Be intelligent and adaptive. Understand the user's intent even with im
     try {
       const { data, error } = await supabase
         .from('opportunities')
-        .select('*')
+        .select(`
+          *,
+          opportunity_skills (
+            skill_id,
+            required_level,
+            is_required,
+            skills (
+              name
+            )
+          )
+        `)
         .eq('status', 'open')
         .order('created_at', { ascending: false });
 
@@ -1476,9 +1520,20 @@ CRITICAL: Be intelligent and adaptive. Understand the user's intent even with im
           *,
           employee_projects (
             project_name,
-            utilization_percentage
+            utilization_percentage,
+            start_date,
+            release_date
+          ),
+          talent_skills (
+            skill_id,
+            proficiency_level,
+            years_experience,
+            skills (
+              name
+            )
           )
         `)
+        .eq('review_status', 'approved')
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -1493,12 +1548,13 @@ CRITICAL: Be intelligent and adaptive. Understand the user's intent even with im
       // Get all talent profiles with their type and prospect status
       const { data: talentData, error: talentError } = await supabase
         .from('talent_profiles')
-        .select('id, talent_type, prospect_status');
+        .select('id, talent_type, prospect_status')
+        .eq('review_status', 'approved');
       
       // Get utilization data for existing employees
       const { data: utilizationData, error: utilError } = await supabase
         .from('employee_projects')
-        .select('talent_profile_id, utilization_percentage');
+        .select('talent_profile_id, project_name, utilization_percentage, start_date, release_date');
       
       // Get open opportunities count
       const { data: opportunitiesResult, error: oppError } = await supabase
@@ -1513,20 +1569,19 @@ CRITICAL: Be intelligent and adaptive. Understand the user's intent even with im
       const availableProspects = talentData?.filter(t => t.talent_type === 'prospect' && (t.prospect_status === 'available' || !t.prospect_status)).length || 0;
       
       // For existing employees: need to check utilization from employee_projects
-      // Group utilization by talent_profile_id
-      const utilizationByTalent = (utilizationData || []).reduce((acc, project) => {
+      // Group allocations by talent_profile_id
+      const allocationsByTalent = (utilizationData || []).reduce((acc, project) => {
         if (!acc[project.talent_profile_id]) {
-          acc[project.talent_profile_id] = 0;
+          acc[project.talent_profile_id] = [];
         }
-        acc[project.talent_profile_id] += project.utilization_percentage || 0;
+        acc[project.talent_profile_id].push(project);
         return acc;
-      }, {} as Record<string, number>);
+      }, {} as Record<string, Allocation[]>);
       
-      // Count existing employees with utilization < 100%
+      // Count existing employees with utilization < 100% today
       const availableExisting = talentData?.filter(t => {
         if (t.talent_type !== 'existing') return false;
-        const totalUtilization = utilizationByTalent[t.id] || 0;
-        return totalUtilization < 100;
+        return currentUtilization(allocationsByTalent[t.id]) < 100;
       }).length || 0;
       
       const availableTalent = availableExisting + availableProspects;
@@ -1541,63 +1596,166 @@ CRITICAL: Be intelligent and adaptive. Understand the user's intent even with im
     }
   };
 
-  const calculateMatchScore = (talent: TalentProfile, opportunity: Opportunity): { score: number; explanation: string } => {
+  const fetchOpportunityRuns = async (opportunityId: string) => {
+    setIsLoadingRuns(true);
+    try {
+      setOpportunityRuns(await matchService.getRunsForOpportunity(opportunityId));
+    } catch (error) {
+      console.error('Error fetching previous match runs:', error);
+    }
+    setIsLoadingRuns(false);
+  };
+
+  const fetchTalentRuns = async (talentId: string) => {
+    setIsLoadingRuns(true);
+    try {
+      setTalentRuns(await matchService.getRunsForTalent(talentId));
+    } catch (error) {
+      console.error('Error fetching previous match runs:', error);
+    }
+    setIsLoadingRuns(false);
+  };
+
+  // Reopen a stored run without scoring again
+  const loadPreviousRun = async (runId: string) => {
+    setIsLoading(true);
+    try {
+      const storedMatches = await matchService.getRunMatches(runId);
+      const direction = storedMatches[0]?.match_direction;
+
+      if (direction === 'by_talent') {
+        setOpportunityMatches(storedMatches
+          .map(match => ({
+            opportunity: opportunities.find(opp => opp.id === match.opportunity_id) || match.opportunities,
+            matchScore: match.match_score || 0,
+            explanation: match.ai_explanation || '',
+            matchId: match.id,
+            skillMatches: match.skill_breakdown || undefined
+          }))
+          .filter(match => match.opportunity));
+      } else {
+        setTalentMatches(storedMatches
+          .map(match => ({
+            talent: talents.find(talent => talent.id === match.talent_profile_id) || match.talent_profiles,
+            matchScore: match.match_score || 0,
+            explanation: match.ai_explanation || '',
+            matchId: match.id,
+            skillMatches: match.skill_breakdown || undefined
+          }))
+          .filter(match => match.talent));
+      }
+      setSelectedRunId(runId);
+      fetchFeedbackForMatches(storedMatches.map(match => match.id));
+    } catch (error) {
+      console.error('Error loading previous match run:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load previous results. Please try again.",
+        variant: "destructive",
+      });
+    }
+    setIsLoading(false);
+  };
+
+  // Persist a finished run; failures are logged so the fresh results still show
+  const saveMatchRun = async (direction: MatchDirection, results: MatchResultInput[]): Promise<SavedMatchRun | null> => {
+    try {
+      const run = await matchService.saveRun(direction, results, user?.id);
+      if (run) {
+        setSelectedRunId(run.runId);
+        setFeedbackByMatch({});
+      }
+      return run;
+    } catch (error) {
+      console.error('Error saving match run:', error);
+      return null;
+    }
+  };
+
+  const fetchSkillCatalog = async () => {
+    try {
+      setSkillCatalog(await skillService.getCatalog());
+    } catch (error) {
+      console.error('Error fetching skill catalog:', error);
+    }
+  };
+
+  // Embedding similarities are optional; matching falls back to word overlap without them
+  const fetchSimilarities = async (target: { opportunityId: string } | { talentId: string }) => {
+    try {
+      return await embeddingService.getSimilarities(target);
+    } catch (error) {
+      console.error('Error fetching embedding similarities:', error);
+      return new Map<string, number>();
+    }
+  };
+
+  const fetchMatchWeights = async () => {
+    try {
+      setMatchWeights(await matchFeedbackService.getLearnedWeights());
+    } catch (error) {
+      console.error('Error fetching learned match weights:', error);
+    }
+  };
+
+  const fetchFeedbackForMatches = async (matchIds: string[]) => {
+    if (!user) return;
+    try {
+      setFeedbackByMatch(await matchFeedbackService.getFeedbackForMatches(matchIds, user.id));
+    } catch (error) {
+      console.error('Error fetching match feedback:', error);
+    }
+  };
+
+  const submitMatchFeedback = async (feedback: MatchFeedbackEntry) => {
+    if (!user) return;
+    try {
+      await matchFeedbackService.submitFeedback(feedback, user.id);
+      setFeedbackByMatch(prev => ({ ...prev, [feedback.matchId]: feedback }));
+      fetchMatchWeights();
+    } catch (error) {
+      console.error('Error saving match feedback:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save feedback. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // semanticSimilarity is the cosine similarity of the two embeddings, when both sides have one
+  const calculateMatchScore = (talent: TalentProfile, opportunity: Opportunity, semanticSimilarity?: number): {
+    score: number;
+    explanation: string;
+    breakdown: ScoreBreakdown;
+    skillMatches: SkillMatchDetail[];
+    missingRequiredSkills: string[];
+  } => {
     let score = 0;
     const factors: string[] = [];
+    // Each factor is scored 0-1 and scaled by its weight (defaults: skills 50, role 25, experience 15, location 5, bio 5)
+    const weights = matchWeights.weights;
+    const breakdown: ScoreBreakdown = { skills: 0, role: 0, experience: 0, location: 0, bio: 0 };
+
+    // Skills match - MAXIMUM WEIGHTAGE as requested
+    // Required vs nice-to-have catalog skills, compared by proficiency and walking parent skills
+    const requirements = getOpportunityRequirements(
+      opportunity.opportunity_skills,
+      `${opportunity.title} ${opportunity.description}`,
+      skillCatalog
+    );
+    const talentSkillLevels = getTalentSkillLevels(talent.talent_skills, talent.skills || [], skillCatalog);
+    const skillMatch = evaluateSkillMatch(requirements, talentSkillLevels, buildSkillHierarchy(skillCatalog));
 
-    // Skills match (50% weight) - MAXIMUM WEIGHTAGE as requested
-    const opportunityText = opportunity.description.toLowerCase();
-    const talentSkills = talent.skills || [];
-    const talentBio = (talent.bio || '').toLowerCase();
-    const talentWorkExp = (talent.work_experience || '').toLowerCase();
-    const talentEducation = (talent.education || '').toLowerCase();
-    const talentCertifications = (talent.certifications || '').toLowerCase();
-    
-    // Combine all talent text for semantic analysis
-    const talentText = `${talentBio} ${talentWorkExp} ${talentEducation} ${talentCertifications} ${talentSkills.join(' ')}`.toLowerCase();
-    
-    // Enhanced tech keywords with better categorization
-    const techKeywords = [
-      // Frontend
-      'react', 'angular', 'vue', 'javascript', 'typescript', 'html', 'css', 'sass', 'less', 'webpack', 'babel',
-      // Backend
-      'node', 'python', 'java', 'c#', 'php', 'ruby', 'go', 'rust', 'spring', 'hibernate',
-      // Databases
-      'sql', 'mongodb', 'postgresql', 'mysql', 'redis', 'elasticsearch', 'oracle',
-      // Cloud & DevOps
-      'aws', 'azure', 'gcp', 'docker', 'kubernetes', 'jenkins', 'ci/cd', 'devops', 'terraform',
-      // Testing
-      'jest', 'cypress', 'selenium', 'junit', 'pytest', 'testng',
-      // Methodologies
-      'agile', 'scrum', 'kanban', 'tdd', 'bdd',
-      // Other
-      'api', 'rest', 'graphql', 'microservices', 'machine learning', 'ai', 'data science', 'analytics', 'blockchain', 'mobile', 'ios', 'android'
-    ];
-    
-    let skillMatches = 0;
-    let totalRelevantSkills = 0;
-    
-    techKeywords.forEach(keyword => {
-      const inOpportunity = opportunityText.includes(keyword);
-      const inTalent = talentText.includes(keyword) || talentSkills.some(skill => skill.toLowerCase().includes(keyword));
-      
-      if (inOpportunity) {
-        totalRelevantSkills++;
-        if (inTalent) {
-          skillMatches++;
-        }
-      }
-    });
-    
-    if (totalRelevantSkills > 0) {
-      const skillScore = (skillMatches / totalRelevantSkills) * 50; // Increased from 30% to 50%
-      score += skillScore;
-      factors.push(`${skillMatches}/${totalRelevantSkills} relevant skills matched`);
+    if (skillMatch.score !== null) {
+      breakdown.skills = skillMatch.score;
+      score += breakdown.skills * weights.skills;
+      factors.push(...summarizeSkillMatch(skillMatch));
     } else {
       factors.push('No specific skills mentioned in opportunity');
     }
 
-    // Role match (25% weight) - More flexible matching across all text fields
+    // Role match - More flexible matching across all text fields
     const talentRole = talent.talent_role.toLowerCase();
     const oppRole = opportunity.required_role.toLowerCase();
     const oppTitle = opportunity.title.toLowerCase();
@@ -1605,212 +1763,155 @@ CRITICAL: Be intelligent and adaptive. Understand the user's intent even with im
     
     // Check for exact role match
     if (talentRole === oppRole) {
-      score += 25;
+      breakdown.role = 1;
       factors.push('Perfect role match');
     } else if (talentRole.includes(oppRole) || oppRole.includes(talentRole)) {
-      score += 20;
+      breakdown.role = 0.8;
       factors.push('Partial role match');
     } else if (isRelatedRole(talentRole, oppRole)) {
-      score += 10;
+      breakdown.role = 0.4;
       factors.push('Related role match');
     } else {
       // Check if talent role appears in opportunity title or description
       if (oppTitle.includes(talentRole) || oppDescription.includes(talentRole)) {
-        score += 15;
+        breakdown.role = 0.6;
         factors.push('Role found in opportunity text');
       } else if (talentRole.includes('engineer') && (oppTitle.includes('engineer') || oppDescription.includes('engineer'))) {
-        score += 12;
+        breakdown.role = 0.48;
         factors.push('Engineer role match');
       } else if (talentRole.includes('developer') && (oppTitle.includes('developer') || oppDescription.includes('developer'))) {
-        score += 12;
+        breakdown.role = 0.48;
         factors.push('Developer role match');
       } else if (talentRole.includes('backend') && (oppTitle.includes('backend') || oppDescription.includes('backend'))) {
-        score += 12;
+        breakdown.role = 0.48;
         factors.push('Backend role match');
       } else if (talentRole.includes('frontend') && (oppTitle.includes('frontend') || oppDescription.includes('frontend'))) {
-        score += 12;
+        breakdown.role = 0.48;
         factors.push('Frontend role match');
       } else {
-        score -= 5; // Reduced penalty for role mismatch
+        breakdown.role = -0.2; // Reduced penalty for role mismatch
         factors.push('Role mismatch');
       }
     }
+    score += breakdown.role * weights.role;
 
-    // Experience match (15% weight) - Same as before
-    const expScore = Math.min(15, (talent.years_experience / 8) * 15);
-    score += expScore;
+    // Experience match
+    breakdown.experience = Math.min(1, talent.years_experience / 8);
+    score += breakdown.experience * weights.experience;
     factors.push(`${talent.years_experience} years experience`);
 
-    // Location match (5% weight) - Reduced from 10%
+    // Location match
     if (talent.location && opportunity.location) {
       const talentLoc = talent.location.toLowerCase();
       const oppLoc = opportunity.location.toLowerCase();
       
       if (talentLoc === oppLoc) {
-        score += 5;
+        breakdown.location = 1;
         factors.push('Location match');
       } else if (talentLoc.includes(oppLoc) || oppLoc.includes(talentLoc)) {
-        score += 3;
+        breakdown.location = 0.6;
         factors.push('Similar location');
       } else {
         factors.push('Location mismatch');
       }
+      score += breakdown.location * weights.location;
     }
 
-    // Bio/Description semantic match (5% weight) - Same as before
-    if (talent.bio && opportunity.description) {
+    // Bio/Description semantic match: embedding similarity, or shared words when either side has no embedding yet
+    if (semanticSimilarity !== undefined) {
+      breakdown.bio = similarityToScore(semanticSimilarity);
+      score += breakdown.bio * weights.bio;
+      factors.push(`${Math.round(semanticSimilarity * 100)}% semantic similarity`);
+    } else if (talent.bio && opportunity.description) {
       const bioWords = talent.bio.toLowerCase().split(/\s+/);
       const oppWords = opportunity.description.toLowerCase().split(/\s+/);
       const commonWords = bioWords.filter(word => oppWords.includes(word) && word.length > 3);
       
       if (commonWords.length > 0) {
-        const semanticScore = Math.min(5, (commonWords.length / Math.max(bioWords.length, oppWords.length)) * 5);
-        score += semanticScore;
+        breakdown.bio = Math.min(1, commonWords.length / Math.max(bioWords.length, oppWords.length));
+        score += breakdown.bio * weights.bio;
         factors.push(`${commonWords.length} semantic matches in bio`);
       }
     }
 
-    // Availability bonus/penalty
+    // Availability bonus/penalty, judged over the days the opportunity needs someone rather than today
+    const availability = availabilityForWindow(talent, getMatchWindow(opportunity));
     if (talent.talent_type === 'prospect' && talent.prospect_status === 'available') {
-      score += 5;
-      factors.push('Available prospect');
-    } else if (talent.talent_type === 'existing' && talent.employee_projects) {
-      const totalUtilization = talent.employee_projects.reduce((sum, project) => sum + (project.utilization_percentage || 0), 0);
-      if (totalUtilization >= 100) {
+      if (availability.utilizationAtStart >= 100) {
+        score -= 10;
+        factors.push(availability.availableFrom
+          ? `Prospect available from ${availability.availableFrom.toLocaleDateString()}`
+          : 'Prospect not available during the opportunity');
+      } else {
+        score += 5;
+        factors.push('Available prospect');
+      }
+    } else if (talent.talent_type === 'existing') {
+      if (availability.utilizationAtStart >= 100) {
         score -= 20; // Reduced penalty
-        factors.push('Fully utilized');
-      } else if (totalUtilization >= 80) {
+        factors.push(availability.availableFrom
+          ? `Fully utilized at start, free from ${availability.availableFrom.toLocaleDateString()}`
+          : 'Fully utilized');
+      } else if (availability.peakUtilization >= 100) {
+        score -= 10;
+        factors.push('Fully booked for part of the opportunity');
+      } else if (availability.peakUtilization >= 80) {
         score -= 5; // Reduced penalty
         factors.push('Highly utilized');
       } else {
         score += 3;
-        factors.push('Available existing talent');
+        factors.push(availability.utilizationAtStart < currentUtilization(talent.employee_projects)
+          ? 'Rolls off in time for the start date'
+          : 'Available existing talent');
       }
     }
 
     return {
       score: Math.max(0, Math.min(100, Math.round(score))),
-      explanation: factors.join('; ')
+      explanation: factors.join('; '),
+      breakdown,
+      skillMatches: skillMatch.details,
+      missingRequiredSkills: skillMatch.missingRequired
     };
   };
 
-  // AI-powered matching function using OpenRouter
-  const calculateAIMatchScore = async (talent: TalentProfile, opportunity: Opportunity): Promise<{ score: number; explanation: string }> => {
+  // Rule-based results show immediately; the top candidates are then re-scored by the LLM in batches
+  // and streamed into the list. Candidates outside the shortlist keep their rule-based score.
+  const applyAIScores = async <T extends TalentMatch | OpportunityMatch>(
+    ruleMatches: T[],
+    toPair: (match: T) => ScoringPair,
+    publish: (matches: T[]) => void
+  ): Promise<T[]> => {
+    let current = ruleMatches;
+    publish(current);
+
+    const shortlist = ruleMatches.slice(0, AI_SHORTLIST_SIZE);
+    setAIScoringProgress({ scored: 0, total: shortlist.length });
     try {
-      const prompt = `
-Analyze the compatibility between this talent profile and job opportunity. Provide a match score (0-100) and detailed explanation.
-
-TALENT PROFILE:
-- Name: ${talent.first_name} ${talent.last_name}
-- Role: ${talent.talent_role}
-- Experience: ${talent.years_experience} years
-- Skills: ${(talent.skills || []).join(', ')}
-- Bio: ${talent.bio || 'Not provided'}
-- Work Experience: ${talent.work_experience || 'Not provided'}
-- Education: ${talent.education || 'Not provided'}
-- Certifications: ${talent.certifications || 'Not provided'}
-- Location: ${talent.location || 'Not specified'}
-- Type: ${talent.talent_type}
-- Status: ${talent.prospect_status || 'Not specified'}
-
-JOB OPPORTUNITY:
-- Title: ${opportunity.title}
-- Required Role: ${opportunity.required_role}
-- Description: ${opportunity.description}
-- Location: ${opportunity.location}
-- Start Date: ${opportunity.start_date}
-- Status: ${opportunity.status}
-
-Consider these factors:
-1. Skills alignment (40% weight)
-2. Role compatibility (25% weight) - Check role in title, description, and required_role field
-3. Experience level match (15% weight)
-4. Location compatibility (10% weight)
-5. Availability and timing (10% weight)
-
-IMPORTANT: For role matching, look for role keywords in ALL text fields (title, description, required_role). 
-For example, if talent is "backend_engineer" and opportunity title is "Senior Backend Engineer" but required_role is "engineer", 
-this should still be considered a strong match. Be flexible with role variations and synonyms.
-
-CRITICAL: You must respond with ONLY a valid JSON object. Do not include any markdown formatting, explanations, or additional text. Just the raw JSON.
-
-Return ONLY a JSON object with this exact format:
-{
-  "score": 85,
-  "explanation": "Strong match due to excellent skills alignment in React and Node.js, perfect role fit for Senior Frontend Developer, 5+ years experience matches requirements, remote work compatible, and talent is currently available."
-}
-`;
-
-      const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${import.meta.env.VITE_OPENAI_API_KEY}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': window.location.origin,
-          'X-Title': 'Connectiv Talent - AI Matching',
+      await aiScoringService.scorePairs(shortlist.map(toPair), {
+        onScores: scores => {
+          current = current
+            .map(match => {
+              const pair = toPair(match);
+              const aiScore = scores.find(score =>
+                score.talentId === pair.talentId && score.opportunityId === pair.opportunityId
+              );
+              return aiScore
+                ? { ...match, matchScore: aiScore.score, explanation: aiScore.explanation, scoringMode: 'ai' as const }
+                : match;
+            })
+            .sort((a, b) => b.matchScore - a.matchScore);
+          publish(current);
         },
-        body: JSON.stringify({
-          model: 'openrouter/auto',
-          messages: [
-            {
-              role: 'system',
-              content: 'You are an expert talent acquisition AI. Analyze talent-opportunity matches with precision. CRITICAL: Return ONLY valid JSON with score (0-100) and detailed explanation. Do not include markdown formatting, backticks, or any other text. Just pure JSON.'
-            },
-            {
-              role: 'user',
-              content: prompt
-            }
-          ],
-          temperature: 0.3,
-          max_tokens: 500
-        })
+        onProgress: setAIScoringProgress
       });
-
-      if (!response.ok) {
-        throw new Error(`AI API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      const content = data.choices[0].message.content;
-      
-      // Clean and parse JSON response
-      let matchResult;
-      try {
-        // Remove markdown formatting and clean the content
-        const cleanedContent = content
-          .replace(/```json\s*/g, '')
-          .replace(/```\s*/g, '')
-          .replace(/`/g, '') // Remove backticks
-          .trim();
-        
-        matchResult = JSON.parse(cleanedContent);
-      } catch (parseError) {
-        console.error('JSON parse error in AI matching, trying to extract JSON from content:', parseError);
-        console.log('Raw content:', content);
-        
-        // Try to extract JSON from the content using regex
-        const jsonMatch = content.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          try {
-            matchResult = JSON.parse(jsonMatch[0]);
-          } catch (secondError) {
-            console.error('Second JSON parse attempt failed:', secondError);
-            throw new Error('Unable to parse AI response as JSON');
-          }
-        } else {
-          throw new Error('No JSON found in AI response');
-        }
-      }
-      
-      return {
-        score: Math.max(0, Math.min(100, matchResult.score)),
-        explanation: matchResult.explanation
-      };
     } catch (error) {
       console.error('AI matching error:', error);
-      // Fallback to rule-based matching
-      return calculateMatchScore(talent, opportunity);
+      // Keep the rule-based scores
+    } finally {
+      setAIScoringProgress(null);
     }
+    return current;
   };
 
   // Helper function to determine if roles are related
@@ -1837,29 +1938,58 @@ Return ONLY a JSON object with this exact format:
       const opportunity = opportunities.find(opp => opp.id === opportunityId);
       if (!opportunity) return;
 
+      // Availability is checked for the opportunity's start, so someone rolling off before then still qualifies
+      const matchWindow = getMatchWindow(opportunity);
       const availableTalents = talents.filter(talent => {
-        if (talent.talent_type === 'prospect') {
-          return talent.prospect_status === 'available';
-        } else {
-          const totalUtilization = talent.employee_projects?.reduce((sum, project) => sum + (project.utilization_percentage || 0), 0) || 0;
-          return totalUtilization < 100;
-        }
+        if (talent.talent_type === 'prospect' && talent.prospect_status !== 'available') return false;
+        return isAvailableForWindow(talent, matchWindow);
       });
 
-      const matches = await Promise.all(availableTalents.map(async talent => {
-        const { score, explanation } = useAIMatching 
-          ? await calculateAIMatchScore(talent, opportunity)
-          : calculateMatchScore(talent, opportunity);
-        return {
-          talent,
-          matchScore: score,
-          explanation
-        };
-      }));
-      
-      matches.sort((a, b) => b.matchScore - a.matchScore);
+      // Hard gate: skip candidates who lack a required skill entirely
+      const eligibleTalents = requireMustHaveSkills
+        ? availableTalents.filter(talent => calculateMatchScore(talent, opportunity).missingRequiredSkills.length === 0)
+        : availableTalents;
+
+      const similarities = await fetchSimilarities({ opportunityId: opportunity.id });
+
+      // The rule-based breakdown is always kept so feedback can tune the weights
+      const ruleMatches: TalentMatch[] = eligibleTalents
+        .map(talent => {
+          const ruleResult = calculateMatchScore(talent, opportunity, similarities.get(talent.id));
+          return {
+            talent,
+            matchScore: ruleResult.score,
+            explanation: ruleResult.explanation,
+            breakdown: ruleResult.breakdown,
+            skillMatches: ruleResult.skillMatches
+          };
+        })
+        .sort((a, b) => b.matchScore - a.matchScore);
+
+      const matches = useAIMatching
+        ? await applyAIScores(ruleMatches, match => ({ talentId: match.talent.id, opportunityId: opportunity.id }), setTalentMatches)
+        : ruleMatches;
 
       setTalentMatches(matches);
+
+      const run = await saveMatchRun('by_opportunity', matches.map(match => ({
+        opportunityId: opportunity.id,
+        talentProfileId: match.talent.id,
+        score: match.matchScore,
+        explanation: match.explanation,
+        scoringMode: match.scoringMode || 'rule_based',
+        breakdown: match.breakdown,
+        skillBreakdown: match.skillMatches
+      })));
+      if (run) {
+        setTalentMatches(matches.map(match => ({
+          ...match,
+          matchId: run.matches.find(stored => stored.talent_profile_id === match.talent.id)?.id
+        })));
+      }
+      if (opportunityId === selectedOpportunity) {
+        fetchOpportunityRuns(opportunityId);
+      }
       
       toast({
         title: "Matching Complete!",
@@ -1882,20 +2012,51 @@ Return ONLY a JSON object with this exact format:
       const talent = talents.find(t => t.id === talentId);
       if (!talent) return;
 
-      const matches = await Promise.all(opportunities.map(async opportunity => {
-        const { score, explanation } = useAIMatching 
-          ? await calculateAIMatchScore(talent, opportunity)
-          : calculateMatchScore(talent, opportunity);
-        return {
-          opportunity,
-          matchScore: score,
-          explanation
-        };
-      }));
-      
-      matches.sort((a, b) => b.matchScore - a.matchScore);
+      // Hard gate: skip opportunities whose required skills the talent lacks entirely
+      const eligibleOpportunities = requireMustHaveSkills
+        ? opportunities.filter(opportunity => calculateMatchScore(talent, opportunity).missingRequiredSkills.length === 0)
+        : opportunities;
+
+      const similarities = await fetchSimilarities({ talentId: talent.id });
+
+      // The rule-based breakdown is always kept so feedback can tune the weights
+      const ruleMatches: OpportunityMatch[] = eligibleOpportunities
+        .map(opportunity => {
+          const ruleResult = calculateMatchScore(talent, opportunity, similarities.get(opportunity.id));
+          return {
+            opportunity,
+            matchScore: ruleResult.score,
+            explanation: ruleResult.explanation,
+            breakdown: ruleResult.breakdown,
+            skillMatches: ruleResult.skillMatches
+          };
+        })
+        .sort((a, b) => b.matchScore - a.matchScore);
+
+      const matches = useAIMatching
+        ? await applyAIScores(ruleMatches, match => ({ talentId: talent.id, opportunityId: match.opportunity.id }), setOpportunityMatches)
+        : ruleMatches;
 
       setOpportunityMatches(matches);
+
+      const run = await saveMatchRun('by_talent', matches.map(match => ({
+        opportunityId: match.opportunity.id,
+        talentProfileId: talent.id,
+        score: match.matchScore,
+        explanation: match.explanation,
+        scoringMode: match.scoringMode || 'rule_based',
+        breakdown: match.breakdown,
+        skillBreakdown: match.skillMatches
+      })));
+      if (run) {
+        setOpportunityMatches(matches.map(match => ({
+          ...match,
+          matchId: run.matches.find(stored => stored.opportunity_id === match.opportunity.id)?.id
+        })));
+      }
+      if (talentId === selectedTalent) {
+        fetchTalentRuns(talentId);
+      }
       
       toast({
         title: "Matching Complete!",
@@ -1926,6 +2087,105 @@ Return ONLY a JSON object with this exact format:
     return 'bg-red-100';
   };
 
+  // Skill requirements the candidate covers and the required ones they fall short on
+  const getSkillCoverage = (details: SkillMatchDetail[] = []) => ({
+    matched: details
+      .filter(detail => detail.status === 'met' || detail.status === 'related')
+      .map(detail => detail.matchedSkillName ? `${detail.skillName} (via ${detail.matchedSkillName})` : detail.skillName),
+    missing: details
+      .filter(detail => detail.isRequired && (detail.status === 'missing' || detail.status === 'below_level'))
+      .map(detail => detail.status === 'below_level' ? `${detail.skillName} (below level ${detail.requiredLevel})` : detail.skillName)
+  });
+
+  // Score factors as percentages, blank for AI-scored or restored matches without a breakdown
+  const breakdownColumns = <T extends { breakdown?: ScoreBreakdown }>(): ExportColumn<T>[] =>
+    MATCH_FACTORS.map(factor => ({
+      header: `${factor.charAt(0).toUpperCase() + factor.slice(1)} Factor (%)`,
+      value: (match: T) => match.breakdown ? Math.round((match.breakdown[factor] || 0) * 100) : null
+    }));
+
+  const exportTalentShortlist = (format: ExportFormat) => {
+    const opportunity = opportunities.find(item => item.id === selectedOpportunity);
+    const title = opportunity ? `Shortlist: ${opportunity.title}` : 'Shortlist';
+    const fileName = datedFileName(`shortlist_${(opportunity?.title || 'opportunity').toLowerCase().replace(/[^a-z0-9]+/g, '_')}`);
+
+    if (format === 'pdf') {
+      exportService.downloadCandidatePack(talentMatches.map(match => {
+        const coverage = getSkillCoverage(match.skillMatches);
+        return {
+          name: `${match.talent.first_name} ${match.talent.last_name}`,
+          email: match.talent.email,
+          headline: [
+            match.talent.talent_role.replace('_', ' '),
+            match.talent.years_experience ? `${match.talent.years_experience} years` : '',
+            match.talent.location || ''
+          ].filter(Boolean),
+          status: match.talent.talent_type === 'prospect' ? 'Prospect' : 'Employee',
+          skills: match.talent.talent_skills && match.talent.talent_skills.length > 0
+            ? match.talent.talent_skills.map(skill => `${skill.skills?.name || 'Unknown'}${skill.proficiency_level ? ` (${skill.proficiency_level}/5)` : ''}`)
+            : match.talent.skills || [],
+          bio: match.talent.bio,
+          workExperience: match.talent.work_experience,
+          education: match.talent.education,
+          certifications: match.talent.certifications,
+          match: {
+            score: match.matchScore,
+            explanation: match.explanation,
+            details: [
+              ...(coverage.matched.length > 0 ? [`Skills matched: ${coverage.matched.join(', ')}`] : []),
+              ...(coverage.missing.length > 0 ? [`Missing required: ${coverage.missing.join(', ')}`] : [])
+            ]
+          }
+        };
+      }), title, fileName);
+      return;
+    }
+
+    const columns: ExportColumn<TalentMatch>[] = [
+      { header: 'Rank', value: match => talentMatches.indexOf(match) + 1 },
+      { header: 'First Name', value: match => match.talent.first_name },
+      { header: 'Last Name', value: match => match.talent.last_name },
+      { header: 'Email', value: match => match.talent.email },
+      { header: 'Role', value: match => match.talent.talent_role },
+      { header: 'Type', value: match => match.talent.talent_type },
+      { header: 'Years Experience', value: match => match.talent.years_experience },
+      { header: 'Location', value: match => match.talent.location },
+      { header: 'Match Score', value: match => Math.round(match.matchScore) },
+      { header: 'Explanation', value: match => match.explanation },
+      { header: 'Skills Matched', value: match => getSkillCoverage(match.skillMatches).matched.join(', ') },
+      { header: 'Missing Required Skills', value: match => getSkillCoverage(match.skillMatches).missing.join(', ') },
+      ...breakdownColumns<TalentMatch>()
+    ];
+    exportService.exportTable(talentMatches, columns, fileName, format, 'Shortlist');
+  };
+
+  const exportOpportunityShortlist = (format: ExportFormat) => {
+    if (format === 'pdf') return;
+    const talent = talents.find(item => item.id === selectedTalent);
+    const name = talent ? `${talent.first_name}_${talent.last_name}` : 'talent';
+    const columns: ExportColumn<OpportunityMatch>[] = [
+      { header: 'Rank', value: match => opportunityMatches.indexOf(match) + 1 },
+      { header: 'Opportunity', value: match => match.opportunity.title },
+      { header: 'Required Role', value: match => match.opportunity.required_role },
+      { header: 'Status', value: match => match.opportunity.status },
+      { header: 'Location', value: match => match.opportunity.location },
+      { header: 'Start Date', value: match => match.opportunity.start_date },
+      { header: 'End Date', value: match => match.opportunity.end_date },
+      { header: 'Match Score', value: match => Math.round(match.matchScore) },
+      { header: 'Explanation', value: match => match.explanation },
+      { header: 'Skills Matched', value: match => getSkillCoverage(match.skillMatches).matched.join(', ') },
+      { header: 'Missing Required Skills', value: match => getSkillCoverage(match.skillMatches).missing.join(', ') },
+      ...breakdownColumns<OpportunityMatch>()
+    ];
+    exportService.exportTable(
+      opportunityMatches,
+      columns,
+      datedFileName(`matches_${name.toLowerCase().replace(/[^a-z0-9]+/g, '_')}`),
+      format,
+      'Matches'
+    );
+  };
+
   return (
     <div className="min-h-screen bg-background">
       <div className="container mx-auto px-6 py-8">
@@ -1955,6 +2215,16 @@ Return ONLY a JSON object with this exact format:
                   <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 dark:peer-focus:ring-blue-800 rounded-full peer dark:bg-gray-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-blue-600"></div>
                 </label>
               </div>
+              <div className="flex items-center space-x-2" title="Drop candidates who are missing a required skill instead of ranking them lower">
+                <Switch
+                  id="require-must-have-skills"
+                  checked={requireMustHaveSkills}
+                  onCheckedChange={setRequireMustHaveSkills}
+                />
+                <label htmlFor="require-must-have-skills" className="text-sm font-medium cursor-pointer">
+                  Must-have skills only
+                </label>
+              </div>
               <Button 
                 variant={isListening ? "destructive" : "default"}
                 size="sm"
@@ -2067,7 +2337,7 @@ Return ONLY a JSON object with this exact format:
 
           <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
             {!isVoiceMode && (
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="by-opportunity" className="flex items-center space-x-2">
                 <Briefcase className="h-4 w-4" />
                 <span>By Opportunity</span>
@@ -2080,6 +2350,10 @@ Return ONLY a JSON object with this exact format:
                 <Users className="h-4 w-4" />
                 <span>Referral Matches</span>
               </TabsTrigger>
+              <TabsTrigger value="feedback-insights" className="flex items-center space-x-2">
+                <ThumbsUp className="h-4 w-4" />
+                <span>Feedback Insights</span>
+              </TabsTrigger>
             </TabsList>
             )}
 
@@ -2126,7 +2400,15 @@ Return ONLY a JSON object with this exact format:
                       )}
                     </Button>
                   </div>
-                  {isLoading ? (
+                  {selectedOpportunity && (
+                    <MatchHistory
+                      runs={opportunityRuns}
+                      selectedRunId={selectedRunId}
+                      loading={isLoadingRuns}
+                      onSelectRun={loadPreviousRun}
+                    />
+                  )}
+                  {isLoading && talentMatches.length === 0 ? (
                     <div className="text-center py-8 text-muted-foreground">
                       <div className="p-4 rounded-full bg-blue-100 w-16 h-16 mx-auto mb-4 flex items-center justify-center">
                         <RefreshCw className="h-8 w-8 text-blue-600 animate-spin" />
@@ -2137,7 +2419,26 @@ Return ONLY a JSON object with this exact format:
                     </div>
                   ) : talentMatches.length > 0 && (
                     <div className="space-y-4">
-                      <h3 className="text-lg font-semibold">Matching Talents (Ranked by Score)</h3>
+                      <div className="flex items-center justify-between">
+                        <h3 className="text-lg font-semibold">Matching Talents (Ranked by Score)</h3>
+                        <ExportMenu
+                          onExport={exportTalentShortlist}
+                          formats={['csv', 'xlsx', 'pdf']}
+                          count={talentMatches.length}
+                        />
+                      </div>
+                      {aiScoringProgress && (
+                        <div className="space-y-1">
+                          <div className="flex items-center justify-between text-xs text-muted-foreground">
+                            <span className="flex items-center gap-1">
+                              <Brain className="h-3 w-3" />
+                              AI scoring top candidates
+                            </span>
+                            <span>{aiScoringProgress.scored} / {aiScoringProgress.total}</span>
+                          </div>
+                          <Progress value={aiScoringProgress.total > 0 ? (aiScoringProgress.scored / aiScoringProgress.total) * 100 : 0} className="h-1" />
+                        </div>
+                      )}
                       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                         {talentMatches.map((match, index) => (
                           <motion.div
@@ -2176,7 +2477,20 @@ Return ONLY a JSON object with this exact format:
                                 <p className="line-clamp-3 group-hover:line-clamp-none group-hover:whitespace-normal">{match.explanation}</p>
                               </div>
                               
+                              {match.skillMatches && match.skillMatches.length > 0 && (
+                                <SkillMatchBreakdown details={match.skillMatches} />
+                              )}
+                              
                               <div className="mt-auto pt-3 border-t border-border">
+                                {match.matchId && (
+                                  <div className="mb-3">
+                                    <MatchFeedback
+                                      matchId={match.matchId}
+                                      feedback={feedbackByMatch[match.matchId]}
+                                      onSubmit={submitMatchFeedback}
+                                    />
+                                  </div>
+                                )}
                                 <Button 
                                   variant="outline" 
                                   size="sm" 
@@ -2251,7 +2565,20 @@ Return ONLY a JSON object with this exact format:
                               <p>{match.explanation}</p>
                             </div>
                             
+                            {match.skillMatches && match.skillMatches.length > 0 && (
+                              <SkillMatchBreakdown details={match.skillMatches} />
+                            )}
+                            
                             <div className="mt-3 pt-3 border-t border-border">
+                              {match.matchId && (
+                                <div className="mb-3">
+                                  <MatchFeedback
+                                    matchId={match.matchId}
+                                    feedback={feedbackByMatch[match.matchId]}
+                                    onSubmit={submitMatchFeedback}
+                                  />
+                                </div>
+                              )}
                               <Button 
                                 variant="outline" 
                                 size="sm" 
@@ -2307,7 +2634,20 @@ Return ONLY a JSON object with this exact format:
                               <p className="line-clamp-3">{match.explanation}</p>
                             </div>
                             
+                            {match.skillMatches && match.skillMatches.length > 0 && (
+                              <SkillMatchBreakdown details={match.skillMatches} />
+                            )}
+                            
                             <div className="mt-auto pt-3 border-t border-border">
+                              {match.matchId && (
+                                <div className="mb-3">
+                                  <MatchFeedback
+                                    matchId={match.matchId}
+                                    feedback={feedbackByMatch[match.matchId]}
+                                    onSubmit={submitMatchFeedback}
+                                  />
+                                </div>
+                              )}
                               <Button 
                                 variant="outline" 
                                 size="sm" 
@@ -2369,7 +2709,7 @@ Return ONLY a JSON object with this exact format:
                             if (talent.talent_type === 'prospect') {
                               return talent.prospect_status === 'available';
                             } else {
-                              const totalUtilization = talent.employee_projects?.reduce((sum: number, project: any) => sum + (project.utilization_percentage || 0), 0) || 0;
+                              const totalUtilization = currentUtilization(talent.employee_projects);
                               return totalUtilization < 100;
                             }
                           }).map((talent) => (
@@ -2396,8 +2736,16 @@ Return ONLY a JSON object with this exact format:
                       )}
                     </Button>
                   </div>
-
-                  {isLoading ? (
+                  {selectedTalent && (
+                    <MatchHistory
+                      runs={talentRuns}
+                      selectedRunId={selectedRunId}
+                      loading={isLoadingRuns}
+                      onSelectRun={loadPreviousRun}
+                    />
+                  )}
+
+                  {isLoading && opportunityMatches.length === 0 ? (
                     <div className="text-center py-8 text-muted-foreground">
                       <div className="p-4 rounded-full bg-blue-100 w-16 h-16 mx-auto mb-4 flex items-center justify-center">
                         <RefreshCw className="h-8 w-8 text-blue-600 animate-spin" />
@@ -2408,7 +2756,22 @@ Return ONLY a JSON object with this exact format:
                     </div>
                   ) : opportunityMatches.length > 0 && (
                     <div className="space-y-4">
-                      <h3 className="text-lg font-semibold">Matching Opportunities (Ranked by Score)</h3>
+                      <div className="flex items-center justify-between">
+                        <h3 className="text-lg font-semibold">Matching Opportunities (Ranked by Score)</h3>
+                        <ExportMenu onExport={exportOpportunityShortlist} count={opportunityMatches.length} />
+                      </div>
+                      {aiScoringProgress && (
+                        <div className="space-y-1">
+                          <div className="flex items-center justify-between text-xs text-muted-foreground">
+                            <span className="flex items-center gap-1">
+                              <Brain className="h-3 w-3" />
+                              AI scoring top candidates
+                            </span>
+                            <span>{aiScoringProgress.scored} / {aiScoringProgress.total}</span>
+                          </div>
+                          <Progress value={aiScoringProgress.total > 0 ? (aiScoringProgress.scored / aiScoringProgress.total) * 100 : 0} className="h-1" />
+                        </div>
+                      )}
                       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                         {opportunityMatches.map((match, index) => (
                           <motion.div
@@ -2447,7 +2810,20 @@ Return ONLY a JSON object with this exact format:
                                 <p className="line-clamp-3 group-hover:line-clamp-none group-hover:whitespace-normal">{match.explanation}</p>
                               </div>
                               
+                              {match.skillMatches && match.skillMatches.length > 0 && (
+                                <SkillMatchBreakdown details={match.skillMatches} />
+                              )}
+                              
                               <div className="mt-auto pt-3 border-t border-border">
+                                {match.matchId && (
+                                  <div className="mb-3">
+                                    <MatchFeedback
+                                      matchId={match.matchId}
+                                      feedback={feedbackByMatch[match.matchId]}
+                                      onSubmit={submitMatchFeedback}
+                                    />
+                                  </div>
+                                )}
                                 <Button 
                                   variant="outline" 
                                   size="sm" 
@@ -2521,6 +2897,10 @@ Return ONLY a JSON object with this exact format:
                               <p className="font-medium mb-1">Match Analysis:</p>
                               <p>{match.explanation}</p>
                             </div>
+                            
+                            {match.skillMatches && match.skillMatches.length > 0 && (
+                              <SkillMatchBreakdown details={match.skillMatches} />
+                            )}
                           </motion.div>
                         ))}
                       </div>
@@ -2571,6 +2951,25 @@ Return ONLY a JSON object with this exact format:
                 </CardContent>
               </Card>
             </TabsContent>
+
+            <TabsContent value="feedback-insights" className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <ThumbsUp className="h-6 w-6 text-primary" />
+                    <span>Feedback Insights</span>
+                  </CardTitle>
+                  <CardDescription>
+                    How accurate each scoring mode has been according to manager feedback
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {activeTab === 'feedback-insights' && (
+                    <MatchFeedbackInsights learnedWeights={matchWeights} />
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
           </Tabs>
         </motion.div>
       </div>
@@ -3,7 +3,6 @@ import { ArrowLeft, Plus, Upload, FileText, Users } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import * as z from 'zod';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
@@ -12,6 +11,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
@@ -20,54 +20,27 @@ import PhotoUpload from '@/components/PhotoUpload';
 import FileUpload from '@/components/FileUpload';
 import BulkImport from '@/components/BulkImport';
 import ResumeUpload from '@/components/ResumeUpload';
-
-const talentSchema = z.object({
-  firstName: z.string().min(1, 'First name is required'),
-  lastName: z.string().min(1, 'Last name is required'),
-  email: z.string().email('Valid email is required'),
-  talentType: z.enum(['existing', 'prospect']),
-  talentRole: z.string().min(1, 'Role is required'),
-  bio: z.string().optional(),
-  education: z.string().optional(),
-  workExperience: z.string().optional(),
-  certifications: z.string().optional(),
-  location: z.string().optional(),
-  timezone: z.string().optional(),
-  yearsExperience: z.number().min(0).optional(),
-  // hourlyRate removed
-  remotePreference: z.boolean(),
-  availabilityStartDate: z.string().optional(),
-  projects: z.array(z.object({
-    projectName: z.string(),
-    reportingManager: z.string(),
-    utilizationPercentage: z.number(),
-    releaseDate: z.string().optional()
-  })).optional(),
-  prospectStatus: z.enum(['available', 'interviewing', 'rejected', 'inactive']).optional(),
-  skills: z.string().optional(),
-  source: z.enum(['employee_referral', 'direct_application', 'active_sourcing', 'linkedin_outreach', 'job_board', 'university_recruiting', 'industry_event']).optional(),
-  referredForOpportunity: z.string().optional(),
-  linkedinUrl: z.string().url().optional().or(z.literal('')),
-  githubUrl: z.string().url().optional().or(z.literal('')),
-  portfolioUrl: z.string().url().optional().or(z.literal('')),
-  resumeUrl: z.string().url().optional().or(z.literal(''))
-}).refine((data) => {
-  // If talent type is existing, at least one project is required with valid data
-  if (data.talentType === 'existing') {
-    return data.projects && 
-           data.projects.length > 0 && 
-           data.projects.every(project => 
-             project.projectName.trim() !== '' && 
-             project.reportingManager.trim() !== ''
-           );
-  }
-  return true;
-}, {
-  message: "At least one project with valid project name and reporting manager is required for existing employees",
-  path: ["projects"] // This will show the error on the projects field
-});
-
-type TalentFormData = z.infer<typeof talentSchema>;
+import ResumeBatchUpload from '@/components/ResumeBatchUpload';
+import ResumeReviewQueue from '@/components/ResumeReviewQueue';
+import ParsedFieldSource from '@/components/ParsedFieldSource';
+import SkillPicker from '@/components/SkillPicker';
+import TeamSelect from '@/components/TeamSelect';
+import FreeTextSkills from '@/components/FreeTextSkills';
+import { skillService, SelectedSkill } from '@/services/skillService';
+import { embeddingService } from '@/services/embeddingService';
+import { VERSION_FIELD_LABELS } from '@/services/talentVersionService';
+import { resumeStorageService } from '@/services/resumeStorageService';
+import { resumeParseFeedbackService } from '@/services/resumeParseFeedbackService';
+import {
+  toProfileFields,
+  isLowConfidence,
+  lowConfidenceFields,
+  ParsedProfileField,
+  ResumeParseResult
+} from '@/services/resumeParsingService';
+import { importJobService, ImportOptions } from '@/services/importJobService';
+import { ALLOCATION_IMPORT } from '@/lib/importSchemas';
+import { talentSchema, TalentFormData, validateTalentImportRow } from '@/lib/talentSchema';
 
 const AddTalent = () => {
   const navigate = useNavigate();
@@ -77,8 +50,14 @@ const AddTalent = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [activeTab, setActiveTab] = useState('manual');
   const [profilePhoto, setProfilePhoto] = useState<File | null>(null);
-  const [projects, setProjects] = useState<Array<{ projectName: string; reportingManager: string; utilizationPercentage: number; releaseDate: string }>>([{ projectName: '', reportingManager: '', utilizationPercentage: 0, releaseDate: '' }]);
-  const [skillsInput, setSkillsInput] = useState('');
+  const [projects, setProjects] = useState<Array<{ projectName: string; reportingManager: string; utilizationPercentage: number; startDate: string; releaseDate: string }>>([{ projectName: '', reportingManager: '', utilizationPercentage: 0, startDate: '', releaseDate: '' }]);
+  const [selectedSkills, setSelectedSkills] = useState<SelectedSkill[]>([]);
+  // Skills that have no catalog entry yet are kept as free text
+  const [freeTextSkills, setFreeTextSkills] = useState<string[]>([]);
+  const [teamId, setTeamId] = useState<string | null>(null);
+  const [bulkEntity, setBulkEntity] = useState<'talent' | 'allocation'>('talent');
+  const [resumeMode, setResumeMode] = useState<'single' | 'batch'>('single');
+  const [draftsRefreshKey, setDraftsRefreshKey] = useState(0);
   
   // Referral mode state
   const isReferralMode = searchParams.get('referral_mode') === 'true';
@@ -95,7 +74,9 @@ const AddTalent = () => {
       prospectStatus: isReferralMode ? 'available' : undefined
     }
   });
-  const [parsedSkillsInput, setParsedSkillsInput] = useState('');
+  const [parsedSelectedSkills, setParsedSelectedSkills] = useState<SelectedSkill[]>([]);
+  const [parsedFreeTextSkills, setParsedFreeTextSkills] = useState<string[]>([]);
+  const [parsedResume, setParsedResume] = useState<{ file: File; text: string; result: ResumeParseResult } | null>(null);
   
   // Edit mode state
   const editId = searchParams.get('edit');
@@ -170,60 +151,47 @@ const AddTalent = () => {
   }, []);
 
   // Handle parsed resume data
-  const handleParsedResumeData = (parsedData: any) => {
+  const handleParsedResumeData = (result: ResumeParseResult, file: File, text: string) => {
+    const parsedData = result.data;
     console.log('Parsed resume data:', parsedData);
-    
-    const formatExperience = (items: any[]): string => {
-      if (!Array.isArray(items) || items.length === 0) return '';
-      return items
-        .map((exp: any) => {
-          if (typeof exp === 'string') return `• ${exp}`;
-          const title = exp.title || '';
-          const company = exp.company ? ` at ${exp.company}` : '';
-          const period = exp.duration || [exp.startDate, exp.endDate].filter(Boolean).join(' - ');
-          const header = [title + company, period ? `(${period})` : ''].filter(Boolean).join(' ');
-          const desc = exp.description ? `\n${exp.description}` : '';
-          return `• ${header}${desc}`.trim();
-        })
-        .join('\n');
-    };
-
-    const educationText = Array.isArray(parsedData.education)
-      ? parsedData.education.map((e: any) => `• ${String(e)}`).join('\n')
-      : '';
-    const certificationsText = Array.isArray(parsedData.certifications)
-      ? parsedData.certifications.map((c: any) => `• ${String(c)}`).join('\n')
-      : '';
-    const workExpText = formatExperience(parsedData.workExperience || []);
+    const fields = toProfileFields(parsedData);
+    // Kept with the profile as its first resume version once it is saved, along with the parse
+    // for the confidence hints and the feedback recorded on save
+    setParsedResume({ file, text, result });
 
     // Prefill parsed form only
     parsedForm.reset({
-      firstName: parsedData.firstName || '',
-      lastName: parsedData.lastName || '',
-      email: parsedData.email || '',
+      firstName: fields.first_name,
+      lastName: fields.last_name,
+      email: fields.email,
       talentType: 'prospect' as const, // Default to prospect for new resumes
       talentRole: '', // Let user select
-      bio: parsedData.bio || '',
-      education: educationText,
-      workExperience: workExpText,
-      certifications: certificationsText,
-      location: parsedData.location || '',
+      bio: fields.bio,
+      education: fields.education,
+      workExperience: fields.work_experience,
+      certifications: fields.certifications,
+      location: fields.location,
       timezone: '',
-      yearsExperience: parsedData.yearsExperience || 0,
+      yearsExperience: fields.years_experience,
       remotePreference: true,
       availabilityStartDate: '',
       source: isReferralMode ? 'employee_referral' as const : 'direct_application' as const,
-      skills: parsedData.skills ? parsedData.skills.join(', ') : '',
-      linkedinUrl: parsedData.linkedinUrl || '',
-      githubUrl: parsedData.githubUrl || '',
-      portfolioUrl: parsedData.portfolioUrl || '',
-      resumeUrl: '', // Will be set after file upload
+      skills: parsedData.skills.join(', '),
+      linkedinUrl: fields.linkedin_url,
+      githubUrl: fields.github_url,
+      portfolioUrl: fields.portfolio_url,
+      resumeUrl: '', // The file itself is stored as a resume version
       prospectStatus: isReferralMode ? 'available' as const : undefined,
       referredForOpportunity: isReferralMode ? referredForOpportunity : undefined,
     });
 
-    // Set parsed skills input (keep manual form untouched)
-    setParsedSkillsInput(parsedData.skills ? parsedData.skills.join(', ') : '');
+    // Map parsed skills onto the catalog (keep manual form untouched)
+    skillService.matchSkillNames(parsedData.skills)
+      .then(({ matched, unmatched }) => {
+        setParsedSelectedSkills(matched);
+        setParsedFreeTextSkills(unmatched);
+      })
+      .catch(error => console.error('Error mapping parsed skills:', error));
 
     // Clear any previous parsed sections cache
     (form as any)._parsedSections = undefined;
@@ -237,6 +205,15 @@ const AddTalent = () => {
     });
   };
 
+  // Low-confidence parsed fields are outlined, and every parsed field shows the resume text it came from
+  const reviewClass = (field: ParsedProfileField) =>
+    isLowConfidence(parsedResume?.result.evidence[field]) ? 'border-amber-400 focus-visible:ring-amber-400' : '';
+
+  const parsedFieldSource = (field: ParsedProfileField) =>
+    parsedResume && <ParsedFieldSource text={parsedResume.text} evidence={parsedResume.result.evidence[field]} />;
+
+  const fieldsToCheck = parsedResume ? lowConfidenceFields(parsedResume.result.evidence) : [];
+
   const handleResumeParseError = (error: string) => {
     toast({
       title: "Resume Parsing Failed",
@@ -251,7 +228,7 @@ const AddTalent = () => {
       remotePreference: true,
       yearsExperience: 0,
       prospectStatus: 'available',
-      projects: [{ projectName: '', reportingManager: '', utilizationPercentage: 0, releaseDate: '' }],
+      projects: [{ projectName: '', reportingManager: '', utilizationPercentage: 0, startDate: '', releaseDate: '' }],
       talentType: isReferralMode ? 'prospect' : 'existing',
       source: isReferralMode ? 'employee_referral' : undefined,
       referredForOpportunity: isReferralMode ? referredForOpportunity : undefined,
@@ -295,6 +272,7 @@ const AddTalent = () => {
             ...talentData,
             projects: projectsData
           });
+          setTeamId(talentData.team_id);
 
           // Populate form with existing data
           const formData = {
@@ -334,12 +312,18 @@ const AddTalent = () => {
               projectName: p.project_name,
               reportingManager: p.reporting_manager,
               utilizationPercentage: p.utilization_percentage,
+              startDate: p.start_date || '',
               releaseDate: p.release_date || ''
             })));
           }
 
-          // Set skills input
-          setSkillsInput(talentData.skills ? talentData.skills.join(', ') : '');
+          // Load catalog skills, falling back to the free-text list for older profiles
+          const [structuredSkills, { matched, unmatched }] = await Promise.all([
+            skillService.getTalentSkills(editId),
+            skillService.matchSkillNames(talentData.skills || [])
+          ]);
+          setSelectedSkills(structuredSkills.length > 0 ? structuredSkills : matched);
+          setFreeTextSkills(unmatched);
 
           // Set existing avatar URL for display
           console.log('Setting existing avatar URL:', talentData.avatar_url);
@@ -414,13 +398,17 @@ const AddTalent = () => {
         originalData.projects?.map(p => ({
           projectName: p.project_name,
           reportingManager: p.reporting_manager,
-          utilizationPercentage: p.utilization_percentage
+          utilizationPercentage: p.utilization_percentage,
+          startDate: p.start_date || '',
+          releaseDate: p.release_date || ''
         })) || []
       );
 
-      setHasChanges(hasFormChanges || hasProjectChanges);
+      const hasTeamChange = teamId !== (originalData.team_id || null);
+
+      setHasChanges(hasFormChanges || hasProjectChanges || hasTeamChange);
     }
-  }, [form.watch(), projects, isEditMode, originalData]);
+  }, [form.watch(), projects, teamId, isEditMode, originalData]);
 
   const bulkImportFields = [
     'first_name',
@@ -446,51 +434,21 @@ const AddTalent = () => {
     'existing_project_utilization'
   ];
 
-  const handleBulkImport = async (data: any[]) => {
-    if (!user) return;
-    // Find user id (no need for separate manager table)
-    const userId = user.id;
-
-    for (const row of data) {
-      const payload: any = {
-        manager_id: userId,
-        first_name: row.first_name || null,
-        last_name: row.last_name || null,
-        email: row.email,
-        talent_role: row.talent_role,
-        talent_type: row.talent_type || 'prospect',
-        years_experience: row.years_experience ? Number(row.years_experience) : 0,
-        location: row.location || null,
-        remote_preference: String(row.remote_preference).toLowerCase() === 'true',
-        availability_start_date: row.availability_start_date || null,
-        source: row.source || null,
-        skills: row.skills ? String(row.skills).split(',').map((s: string) => s.trim()).filter(Boolean) : [],
-        linkedin_url: row.linkedin_url || null,
-        github_url: row.github_url || null,
-        portfolio_url: row.portfolio_url || null,
-        bio: row.bio || null,
-        education: row.education || null,
-        work_experience: row.work_experience || null,
-        certifications: row.certifications || null,
-        status: 'available'
-      };
-      const { error } = await supabase.from('talent_profiles').insert(payload);
-      if (error) throw error;
+  // One server-side job per file: previewed first, then saved all at once
+  const handleBulkImport = async (data: any[], options: ImportOptions) => {
+    const result = await importJobService.importTalent(data, teamId, options);
+    if (!options.dryRun && result.status === 'completed') {
+      embeddingService.queueRefresh();
+    }
+    return result;
+  };
 
-      // If an existing employee has an initial project in the sheet, insert it
-      if ((row.talent_type || 'prospect') === 'existing' && (row.existing_project_name || row.existing_project_manager || row.existing_project_utilization)) {
-        const profileRes = await supabase.from('talent_profiles').select('id').eq('email', row.email).order('created_at', { ascending: false }).limit(1).single();
-        if (!profileRes.error && profileRes.data) {
-          const util = Number(row.existing_project_utilization || 0);
-          await supabase.from('employee_projects').insert({
-            talent_profile_id: profileRes.data.id,
-            project_name: row.existing_project_name || 'N/A',
-            reporting_manager: row.existing_project_manager || 'N/A',
-            utilization_percentage: isNaN(util) ? 0 : util
-          });
-        }
-      }
+  const handleAllocationImport = async (data: any[], options: ImportOptions) => {
+    const result = await importJobService.importAllocations(data, options);
+    if (!options.dryRun && result.status === 'completed') {
+      embeddingService.queueRefresh();
     }
+    return result;
   };
 
   const onSubmit = async (data: TalentFormData) => {
@@ -542,6 +500,10 @@ const AddTalent = () => {
         avatarUrl = originalData.avatar_url;
       }
 
+      // Manual entry and the parsed-resume form keep their own skill selections
+      const skillSelection = activeTab === 'resume' ? parsedSelectedSkills : selectedSkills;
+      const skillFreeText = activeTab === 'resume' ? parsedFreeTextSkills : freeTextSkills;
+
       const talentProfileData = {
         manager_id: userId,
             email: data.email,
@@ -550,7 +512,7 @@ const AddTalent = () => {
         talent_type: data.talentType,
             talent_role: data.talentRole as any,
             bio: data.bio || null,
-        skills: data.skills ? data.skills.split(',').map(skill => skill.trim()).filter(skill => skill.length > 0) : [],
+        skills: [...skillSelection.map(skill => skill.name), ...skillFreeText],
         source: data.source || null,
             location: data.location || null,
             timezone: data.timezone || null,
@@ -569,6 +531,8 @@ const AddTalent = () => {
         prospect_status: data.prospectStatus || 'available',
         referred_by: isReferralMode ? (referredByUser?.id || referredBy) : null,
         referred_for_opportunity: (data.referredForOpportunity && data.referredForOpportunity !== 'none') ? data.referredForOpportunity : (isReferralMode ? referredForOpportunity : null),
+        // Referrals stay unassigned until a manager picks them up
+        team_id: isReferralMode ? null : teamId,
       };
 
       console.log('Saving talent profile with referral data:', {
@@ -610,6 +574,9 @@ const AddTalent = () => {
         talentData = newTalent;
       }
 
+      await skillService.setTalentSkills(talentData.id, skillSelection);
+      embeddingService.queueRefresh();
+
       // Handle project assignments for existing employees
       if (data.talentType === 'existing') {
         if (isEditMode) {
@@ -635,6 +602,7 @@ const AddTalent = () => {
                 project_name: project.projectName,
                 reporting_manager: project.reportingManager,
                 utilization_percentage: project.utilizationPercentage,
+                start_date: project.startDate || null,
                 release_date: project.releaseDate || null
               }))
             );
@@ -646,6 +614,25 @@ const AddTalent = () => {
         }
       }
 
+      // Keep the original resume the parsed form came from
+      if (activeTab === 'resume' && parsedResume) {
+        try {
+          await resumeStorageService.uploadResume(talentData.id, parsedResume.file, parsedResume.text);
+        } catch (resumeError) {
+          console.error('Error storing resume:', resumeError);
+          toast({
+            title: "Warning",
+            description: "The resume file could not be stored, but the talent profile was saved.",
+            variant: "destructive",
+          });
+        }
+
+        // Parsed values against what was saved, for measuring parser accuracy
+        await resumeParseFeedbackService
+          .recordFeedback(talentData.id, parsedResume.result, talentProfileData)
+          .catch(feedbackError => console.error('Error recording resume parse feedback:', feedbackError));
+      }
+
       toast({
         title: "Success!",
         description: isEditMode ? "Talent profile updated successfully." : "Talent profile created successfully.",
@@ -826,14 +813,14 @@ const AddTalent = () => {
                               type="button"
                               variant="outline"
                               size="sm"
-                              onClick={() => setProjects([...projects, { projectName: '', reportingManager: '', utilizationPercentage: 0, releaseDate: '' }])}
+                              onClick={() => setProjects([...projects, { projectName: '', reportingManager: '', utilizationPercentage: 0, startDate: '', releaseDate: '' }])}
                             >
                               Add Project
                             </Button>
                           </div>
                           {projects.map((project, index) => (
                             <div key={index} className="space-y-4 p-4 border rounded-lg">
-                              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                              <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
                                 <div>
                                   <label className="text-sm font-medium">Project Name *</label>
                                   <Input
@@ -878,11 +865,26 @@ const AddTalent = () => {
                                     }}
                                   />
                                 </div>
+                                <div>
+                                  <label className="text-sm font-medium">Start Date</label>
+                                  <Input
+                                    type="date"
+                                    value={project.startDate || ''}
+                                    max={project.releaseDate || undefined}
+                                    onChange={(e) => {
+                                      const newProjects = [...projects];
+                                      newProjects[index].startDate = e.target.value;
+                                      setProjects(newProjects);
+                                      form.setValue('projects', newProjects);
+                                    }}
+                                  />
+                                </div>
                                 <div>
                                   <label className="text-sm font-medium">Release Date</label>
                                   <Input
                                     type="date"
                                     value={project.releaseDate || ''}
+                                    min={project.startDate || undefined}
                                     onChange={(e) => {
                                       const newProjects = [...projects];
                                       newProjects[index].releaseDate = e.target.value;
@@ -960,6 +962,13 @@ const AddTalent = () => {
                         />
                       </div>
 
+                      {!isReferralMode && (
+                        <div className="space-y-2">
+                          <Label>Team</Label>
+                          <TeamSelect value={teamId} onChange={setTeamId} preselect={!isEditMode} />
+                        </div>
+                      )}
+
                       <FormField
                         control={form.control}
                         name="bio"
@@ -979,27 +988,30 @@ const AddTalent = () => {
                         )}
                       />
 
-                        <FormField
-                          control={form.control}
+                      <FormField
+                        control={form.control}
                         name="skills"
-                          render={({ field }) => (
-                            <FormItem>
+                        render={() => (
+                          <FormItem>
                             <FormLabel>Skills</FormLabel>
-                            <FormControl>
-                              <Input
-                                placeholder="Enter skills separated by commas (e.g., React, TypeScript, Node.js)"
-                                value={skillsInput}
-                                onChange={(e) => {
-                                  setSkillsInput(e.target.value);
-                                  // Convert comma-separated string to array and set in form
-                                  const skillsArray = e.target.value
-                                    .split(',')
-                                    .map(skill => skill.trim())
-                                    .filter(skill => skill.length > 0);
-                                  form.setValue('skills', e.target.value);
+                            <SkillPicker
+                              value={selectedSkills}
+                              onChange={(skills) => {
+                                setSelectedSkills(skills);
+                                form.setValue('skills', [...skills.map(skill => skill.name), ...freeTextSkills].join(', '));
+                              }}
+                              placeholder="Search skills (e.g., React, TypeScript, Node.js)"
+                            />
+                            {freeTextSkills.length > 0 && (
+                              <FreeTextSkills
+                                skills={freeTextSkills}
+                                onRemove={(skill) => {
+                                  const remaining = freeTextSkills.filter(existing => existing !== skill);
+                                  setFreeTextSkills(remaining);
+                                  form.setValue('skills', [...selectedSkills.map(selected => selected.name), ...remaining].join(', '));
                                 }}
                               />
-                            </FormControl>
+                            )}
                             <FormMessage />
                           </FormItem>
                         )}
@@ -1250,6 +1262,30 @@ const AddTalent = () => {
             </TabsContent>
 
             <TabsContent value="resume" className="space-y-6">
+              {!isReferralMode && !isEditMode && (
+                <Card>
+                  <CardContent className="pt-6 space-y-2">
+                    <Label>Mode</Label>
+                    <Select value={resumeMode} onValueChange={(value) => setResumeMode(value as 'single' | 'batch')}>
+                      <SelectTrigger className="md:w-1/2">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="single">Single resume</SelectItem>
+                        <SelectItem value="batch">Batch: many resumes or a ZIP archive</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </CardContent>
+                </Card>
+              )}
+
+              {resumeMode === 'batch' && !isReferralMode && !isEditMode ? (
+                <>
+                  <ResumeBatchUpload onDraftsCreated={() => setDraftsRefreshKey(key => key + 1)} />
+                  <ResumeReviewQueue refreshKey={draftsRefreshKey} />
+                </>
+              ) : (
+              <>
               <ResumeUpload
                 onParsedData={handleParsedResumeData}
                 onError={handleResumeParseError}
@@ -1268,6 +1304,15 @@ const AddTalent = () => {
                     </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-6">
+                    {fieldsToCheck.length > 0 && (
+                      <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg">
+                        <p className="text-sm text-amber-800">
+                          Check the highlighted fields against the resume text shown under them:{' '}
+                          {fieldsToCheck.map(field => VERSION_FIELD_LABELS[field] || field).join(', ')}.
+                        </p>
+                      </div>
+                    )}
+
                     <PhotoUpload
                       onPhotoSelect={handlePhotoSelect}
                       currentPhoto={existingAvatarUrl}
@@ -1287,8 +1332,9 @@ const AddTalent = () => {
                               <FormItem>
                                 <FormLabel>First Name *</FormLabel>
                                 <FormControl>
-                                  <Input placeholder="John" {...field} />
+                                  <Input className={reviewClass('first_name')} placeholder="John" {...field} />
                                 </FormControl>
+                                {parsedFieldSource('first_name')}
                                 <FormMessage />
                               </FormItem>
                             )}
@@ -1301,8 +1347,9 @@ const AddTalent = () => {
                               <FormItem>
                                 <FormLabel>Last Name *</FormLabel>
                                 <FormControl>
-                                  <Input placeholder="Doe" {...field} />
+                                  <Input className={reviewClass('last_name')} placeholder="Doe" {...field} />
                                 </FormControl>
+                                {parsedFieldSource('last_name')}
                                 <FormMessage />
                               </FormItem>
                             )}
@@ -1315,8 +1362,9 @@ const AddTalent = () => {
                               <FormItem>
                                 <FormLabel>Email *</FormLabel>
                                 <FormControl>
-                                  <Input type="email" placeholder="john@example.com" {...field} />
+                                  <Input className={reviewClass('email')} type="email" placeholder="john@example.com" {...field} />
                                 </FormControl>
+                                {parsedFieldSource('email')}
                                 <FormMessage />
                               </FormItem>
                             )}
@@ -1379,10 +1427,12 @@ const AddTalent = () => {
                                   <Input 
                                     type="number" 
                                     placeholder="5" 
+                                    className={reviewClass('years_experience')}
                                     {...field}
                                     onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
                                   />
                                 </FormControl>
+                                {parsedFieldSource('years_experience')}
                                 <FormMessage />
                               </FormItem>
                             )}
@@ -1396,7 +1446,7 @@ const AddTalent = () => {
                                 <FormLabel>Location</FormLabel>
                                 <Select onValueChange={field.onChange} value={field.value}>
                                   <FormControl>
-                                    <SelectTrigger>
+                                    <SelectTrigger className={reviewClass('location')}>
                                       <SelectValue placeholder="Select location" />
                                     </SelectTrigger>
                                   </FormControl>
@@ -1409,6 +1459,7 @@ const AddTalent = () => {
                                     <SelectItem value="Boston, MA">Boston, MA</SelectItem>
                                   </SelectContent>
                                 </Select>
+                                {parsedFieldSource('location')}
                                 <FormMessage />
                               </FormItem>
                             )}
@@ -1419,20 +1470,27 @@ const AddTalent = () => {
                           <FormField
                             control={parsedForm.control}
                             name="skills"
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>Skills (comma-separated)</FormLabel>
-                                <FormControl>
-                                  <Input 
-                                    placeholder="React, TypeScript, Node.js" 
-                                    {...field}
-                                    value={parsedSkillsInput}
-                                    onChange={(e) => {
-                                      setParsedSkillsInput(e.target.value);
-                                      field.onChange(e.target.value);
+                            render={() => (
+                              <FormItem className="md:col-span-2">
+                                <FormLabel>Skills</FormLabel>
+                                <SkillPicker
+                                  value={parsedSelectedSkills}
+                                  onChange={(skills) => {
+                                    setParsedSelectedSkills(skills);
+                                    parsedForm.setValue('skills', [...skills.map(skill => skill.name), ...parsedFreeTextSkills].join(', '));
+                                  }}
+                                  placeholder="Search skills (e.g., React, TypeScript, Node.js)"
+                                />
+                                {parsedFreeTextSkills.length > 0 && (
+                                  <FreeTextSkills
+                                    skills={parsedFreeTextSkills}
+                                    onRemove={(skill) => {
+                                      const remaining = parsedFreeTextSkills.filter(existing => existing !== skill);
+                                      setParsedFreeTextSkills(remaining);
+                                      parsedForm.setValue('skills', [...parsedSelectedSkills.map(selected => selected.name), ...remaining].join(', '));
                                     }}
                                   />
-                                </FormControl>
+                                )}
                                 <FormMessage />
                               </FormItem>
                             )}
@@ -1445,8 +1503,9 @@ const AddTalent = () => {
                               <FormItem>
                                 <FormLabel>LinkedIn URL</FormLabel>
                                 <FormControl>
-                                  <Input placeholder="https://linkedin.com/in/username" {...field} />
+                                  <Input className={reviewClass('linkedin_url')} placeholder="https://linkedin.com/in/username" {...field} />
                                 </FormControl>
+                                {parsedFieldSource('linkedin_url')}
                                 <FormMessage />
                               </FormItem>
                             )}
@@ -1459,8 +1518,9 @@ const AddTalent = () => {
                               <FormItem>
                                 <FormLabel>GitHub URL</FormLabel>
                                 <FormControl>
-                                  <Input placeholder="https://github.com/username" {...field} />
+                                  <Input className={reviewClass('github_url')} placeholder="https://github.com/username" {...field} />
                                 </FormControl>
+                                {parsedFieldSource('github_url')}
                                 <FormMessage />
                               </FormItem>
                             )}
@@ -1473,14 +1533,22 @@ const AddTalent = () => {
                               <FormItem>
                                 <FormLabel>Portfolio URL</FormLabel>
                                 <FormControl>
-                                  <Input placeholder="https://portfolio.com" {...field} />
+                                  <Input className={reviewClass('portfolio_url')} placeholder="https://portfolio.com" {...field} />
                                 </FormControl>
+                                {parsedFieldSource('portfolio_url')}
                                 <FormMessage />
                               </FormItem>
                             )}
                           />
                         </div>
 
+                        {!isReferralMode && (
+                          <div className="space-y-2">
+                            <Label>Team</Label>
+                            <TeamSelect value={teamId} onChange={setTeamId} preselect={!isEditMode} />
+                          </div>
+                        )}
+
                         <FormField
                           control={parsedForm.control}
                           name="bio"
@@ -1490,10 +1558,11 @@ const AddTalent = () => {
                               <FormControl>
                                 <Textarea 
                                   placeholder="Tell us about the candidate's background, experience, and skills..." 
-                                  className="min-h-[100px]"
+                                  className={`min-h-[100px] ${reviewClass('bio')}`}
                                   {...field} 
                                 />
                               </FormControl>
+                              {parsedFieldSource('bio')}
                               <FormMessage />
                             </FormItem>
                           )}
@@ -1509,11 +1578,12 @@ const AddTalent = () => {
                               <FormControl>
                                 <Textarea
                                   placeholder={"Add your education details here"}
-                                  className="min-h-[120px] whitespace-pre-wrap font-mono text-sm"
+                                  className={`min-h-[120px] whitespace-pre-wrap font-mono text-sm ${reviewClass('education')}`}
                                   rows={5}
                                   {...field}
                                 />
                               </FormControl>
+                              {parsedFieldSource('education')}
                               <FormMessage />
                             </FormItem>
                           )}
@@ -1528,11 +1598,12 @@ const AddTalent = () => {
                               <FormControl>
                                 <Textarea
                                   placeholder={"Add your work experience here"}
-                                  className="min-h-[120px] whitespace-pre-wrap font-mono text-sm"
+                                  className={`min-h-[120px] whitespace-pre-wrap font-mono text-sm ${reviewClass('work_experience')}`}
                                   rows={5}
                                   {...field}
                                 />
                               </FormControl>
+                              {parsedFieldSource('work_experience')}
                               <FormMessage />
                             </FormItem>
                           )}
@@ -1547,11 +1618,12 @@ const AddTalent = () => {
                               <FormControl>
                                 <Textarea
                                   placeholder={"Add your certifications here"}
-                                  className="min-h-[120px] whitespace-pre-wrap font-mono text-sm"
+                                  className={`min-h-[120px] whitespace-pre-wrap font-mono text-sm ${reviewClass('certifications')}`}
                                   rows={5}
                                   {...field}
                                 />
                               </FormControl>
+                              {parsedFieldSource('certifications')}
                               <FormMessage />
                             </FormItem>
                           )}
@@ -1696,25 +1768,66 @@ const AddTalent = () => {
                 </CardContent>
               </Card>
               )}
+              </>
+              )}
             </TabsContent>
 
             {!isReferralMode && (
             <TabsContent value="bulk" className="space-y-6">
-              <BulkImport
-                onImport={handleBulkImport}
-                templateFields={bulkImportFields}
-                requiredFields={[
-                  'first_name','last_name','email','talent_role','talent_type'
-                ]}
-                optionalFields={[
-                  'years_experience','location','remote_preference','availability_start_date','source','skills','linkedin_url','github_url','portfolio_url','bio','education','work_experience','certifications','existing_project_name','existing_project_manager','existing_project_utilization'
-                ]}
-                conditionalNotes={[
-                  "If talent_type = 'existing': additional projects must be added later from the UI",
-                  "If talent_type = 'prospect': availability_start_date and source recommended"
-                ]}
-                entityName="Talent"
-              />
+              <Card>
+                <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Import</Label>
+                    <Select value={bulkEntity} onValueChange={(value) => setBulkEntity(value as 'talent' | 'allocation')}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="talent">Talent profiles</SelectItem>
+                        <SelectItem value="allocation">Project allocations</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {bulkEntity === 'allocation' && (
+                      <p className="text-xs text-muted-foreground">Adds or updates projects on existing employees' profiles.</p>
+                    )}
+                  </div>
+                  {bulkEntity === 'talent' && (
+                    <div className="space-y-2">
+                      <Label>Team</Label>
+                      <TeamSelect value={teamId} onChange={setTeamId} preselect />
+                      <p className="text-xs text-muted-foreground">New profiles from the file join this team.</p>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+              {bulkEntity === 'allocation' ? (
+                <BulkImport
+                  key="allocation"
+                  {...ALLOCATION_IMPORT}
+                  onRunJob={handleAllocationImport}
+                  matchKeys={['talent_email']}
+                  entityName="Allocation"
+                />
+              ) : (
+                <BulkImport
+                  key="talent"
+                  onRunJob={handleBulkImport}
+                  matchKeys={['email', 'linkedin_url', 'github_url']}
+                  templateFields={bulkImportFields}
+                  requiredFields={[
+                    'first_name','last_name','email','talent_role','talent_type'
+                  ]}
+                  optionalFields={[
+                    'years_experience','location','remote_preference','availability_start_date','source','skills','linkedin_url','github_url','portfolio_url','bio','education','work_experience','certifications','existing_project_name','existing_project_manager','existing_project_utilization'
+                  ]}
+                  conditionalNotes={[
+                    "If talent_type = 'existing': existing_project_name and existing_project_manager are required; additional projects must be added later from the UI",
+                    "If talent_type = 'prospect': availability_start_date and source recommended"
+                  ]}
+                  validateRow={validateTalentImportRow}
+                  entityName="Talent"
+                />
+              )}
             </TabsContent>
             )}
           </Tabs>
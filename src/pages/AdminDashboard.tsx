@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Users, UserCheck, UserX, Shield, Search, Filter, Plus, Edit, Trash2, Mail, Calendar, Crown, ArrowLeft } from 'lucide-react';
+import { Users, UserCheck, UserX, Shield, Search, Trash2, Crown, ArrowLeft } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -12,6 +12,15 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { AppRole, useUserRole } from '@/hooks/useUserRole';
+import { roleService } from '@/services/roleService';
+import SkillCatalogManager from '@/components/SkillCatalogManager';
+import PipelineStageManager from '@/components/PipelineStageManager';
+import TeamManager from '@/components/TeamManager';
+import PermissionManager from '@/components/PermissionManager';
+import OrganizationManager from '@/components/OrganizationManager';
+import InvitationManager from '@/components/InvitationManager';
+import SignupSettingsManager from '@/components/SignupSettingsManager';
 
 interface User {
   id: string;
@@ -22,15 +31,6 @@ interface User {
   last_name: string | null;
   avatar_url: string | null;
   domain: string | null;
-  is_manager: boolean;
-  created_at: string;
-  updated_at: string;
-}
-
-interface Admin {
-  id: string;
-  email: string;
-  name: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -38,19 +38,22 @@ interface Admin {
 export default function AdminDashboard() {
   const navigate = useNavigate();
   const [users, setUsers] = useState<User[]>([]);
-  const [admins, setAdmins] = useState<Admin[]>([]);
+  const [userRoles, setUserRoles] = useState<Map<string, AppRole[]>>(new Map());
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [filterRole, setFilterRole] = useState<'all' | 'managers' | 'users' | 'admins'>('all');
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
-  const [itemToDelete, setItemToDelete] = useState<{ id: string; type: 'user' | 'admin'; name: string } | null>(null);
+  const [itemToDelete, setItemToDelete] = useState<{ id: string; name: string } | null>(null);
   const [promoteDialogOpen, setPromoteDialogOpen] = useState(false);
   const [userToPromote, setUserToPromote] = useState<User | null>(null);
   const { toast } = useToast();
+  // Org admins manage their own organization; the skill catalog, pipeline stages and the admin
+  // role itself are shared across organizations and stay with global admins
+  const { isAdmin } = useUserRole();
 
   useEffect(() => {
     fetchUsers();
-    fetchAdmins();
+    fetchRoles();
   }, []);
 
   const fetchUsers = async () => {
@@ -72,20 +75,14 @@ export default function AdminDashboard() {
     }
   };
 
-  const fetchAdmins = async () => {
+  const fetchRoles = async () => {
     try {
-      const { data, error } = await supabase
-        .from('admin')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setAdmins(data || []);
+      setUserRoles(await roleService.getRoleAssignments());
     } catch (error) {
-      console.error('Error fetching admins:', error);
+      console.error('Error fetching roles:', error);
       toast({
         title: "Error",
-        description: "Failed to fetch admins",
+        description: "Failed to fetch roles",
         variant: "destructive",
       });
     } finally {
@@ -93,8 +90,20 @@ export default function AdminDashboard() {
     }
   };
 
-  const handleDeleteClick = (id: string, type: 'user' | 'admin', name: string) => {
-    setItemToDelete({ id, type, name });
+  const hasUserRole = (user: User, role: AppRole) =>
+    !!user.user_id && (userRoles.get(user.user_id) || []).includes(role);
+
+  const setRoleLocally = (userId: string, role: AppRole, granted: boolean) => {
+    setUserRoles(current => {
+      const next = new Map(current);
+      const roles = (next.get(userId) || []).filter(r => r !== role);
+      next.set(userId, granted ? [...roles, role] : roles);
+      return next;
+    });
+  };
+
+  const handleDeleteClick = (id: string, name: string) => {
+    setItemToDelete({ id, name });
     setDeleteDialogOpen(true);
   };
 
@@ -102,35 +111,24 @@ export default function AdminDashboard() {
     if (!itemToDelete) return;
 
     try {
-      if (itemToDelete.type === 'user') {
-        const { error } = await supabase
-          .from('users')
-          .delete()
-          .eq('id', itemToDelete.id);
-
-        if (error) throw error;
-        
-        setUsers(users.filter(user => user.id !== itemToDelete.id));
-      } else {
-        const { error } = await supabase
-          .from('admin')
-          .delete()
-          .eq('id', itemToDelete.id);
-
-        if (error) throw error;
-        
-        setAdmins(admins.filter(admin => admin.id !== itemToDelete.id));
-      }
+      const { error } = await supabase
+        .from('users')
+        .delete()
+        .eq('id', itemToDelete.id);
+
+      if (error) throw error;
+
+      setUsers(users.filter(user => user.id !== itemToDelete.id));
 
       toast({
         title: "Success",
-        description: `${itemToDelete.type === 'user' ? 'User' : 'Admin'} deleted successfully`,
+        description: "User deleted successfully",
       });
     } catch (error) {
       console.error('Error deleting:', error);
       toast({
         title: "Error",
-        description: `Failed to delete ${itemToDelete.type}`,
+        description: "Failed to delete user",
         variant: "destructive",
       });
     } finally {
@@ -140,17 +138,11 @@ export default function AdminDashboard() {
   };
 
   const handlePromoteToManager = async (user: User) => {
-    try {
-      const { error } = await supabase
-        .from('users')
-        .update({ is_manager: true, updated_at: new Date().toISOString() })
-        .eq('id', user.id);
+    if (!user.user_id) return;
 
-      if (error) throw error;
-
-      setUsers(users.map(u => 
-        u.id === user.id ? { ...u, is_manager: true, updated_at: new Date().toISOString() } : u
-      ));
+    try {
+      await roleService.grantRole(user.user_id, 'manager');
+      setRoleLocally(user.user_id, 'manager', true);
 
       toast({
         title: "Success",
@@ -170,17 +162,11 @@ export default function AdminDashboard() {
   };
 
   const handleRevokeManager = async (user: User) => {
-    try {
-      const { error } = await supabase
-        .from('users')
-        .update({ is_manager: false, updated_at: new Date().toISOString() })
-        .eq('id', user.id);
-
-      if (error) throw error;
+    if (!user.user_id) return;
 
-      setUsers(users.map(u => 
-        u.id === user.id ? { ...u, is_manager: false, updated_at: new Date().toISOString() } : u
-      ));
+    try {
+      await roleService.revokeRole(user.user_id, 'manager');
+      setRoleLocally(user.user_id, 'manager', false);
 
       toast({
         title: "Success",
@@ -196,6 +182,48 @@ export default function AdminDashboard() {
     }
   };
 
+  const handleGrantAdmin = async (user: User, role: 'admin' | 'org_admin') => {
+    if (!user.user_id) return;
+
+    try {
+      await roleService.grantRole(user.user_id, role);
+      setRoleLocally(user.user_id, role, true);
+
+      toast({
+        title: "Success",
+        description: `${user.name || user.email} is now ${role === 'admin' ? 'an admin' : 'an org admin'}`,
+      });
+    } catch (error) {
+      console.error('Error granting admin role:', error);
+      toast({
+        title: "Error",
+        description: "Failed to grant admin role",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRevokeAdmin = async (user: User, role: 'admin' | 'org_admin') => {
+    if (!user.user_id) return;
+
+    try {
+      await roleService.revokeRole(user.user_id, role);
+      setRoleLocally(user.user_id, role, false);
+
+      toast({
+        title: "Success",
+        description: `${user.name || user.email} ${role === 'admin' ? 'admin' : 'org admin'} role revoked`,
+      });
+    } catch (error: any) {
+      console.error('Error revoking admin role:', error);
+      toast({
+        title: "Error",
+        description: error?.message?.includes('last admin') ? "The last admin can't be revoked" : "Failed to revoke admin role",
+        variant: "destructive",
+      });
+    }
+  };
+
   const filteredUsers = users.filter(user => {
     const fullName = user.name || `${user.first_name || ''} ${user.last_name || ''}`.trim();
     const matchesSearch = !searchQuery || 
@@ -205,12 +233,16 @@ export default function AdminDashboard() {
       user.email.toLowerCase().includes(searchQuery.toLowerCase());
     
     const matchesFilter = filterRole === 'all' || 
-      (filterRole === 'managers' && user.is_manager) ||
-      (filterRole === 'users' && !user.is_manager);
+      (filterRole === 'managers' && hasUserRole(user, 'manager')) ||
+      (filterRole === 'users' && !hasUserRole(user, 'manager')) ||
+      (filterRole === 'admins' && (hasUserRole(user, 'admin') || hasUserRole(user, 'org_admin')));
 
     return matchesSearch && matchesFilter;
   });
 
+  const admins = users.filter(user => hasUserRole(user, 'admin') || hasUserRole(user, 'org_admin'));
+  const globalAdminCount = users.filter(user => hasUserRole(user, 'admin')).length;
+
   const filteredAdmins = admins.filter(admin => {
     const matchesSearch = !searchQuery || 
       admin.name?.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -280,7 +312,7 @@ export default function AdminDashboard() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-gray-600">Managers</p>
-                <p className="text-2xl font-bold text-gray-900">{users.filter(u => u.is_manager).length}</p>
+                <p className="text-2xl font-bold text-gray-900">{users.filter(u => hasUserRole(u, 'manager')).length}</p>
               </div>
               <UserCheck className="h-8 w-8 text-green-600" />
             </div>
@@ -295,7 +327,7 @@ export default function AdminDashboard() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-gray-600">Regular Users</p>
-                <p className="text-2xl font-bold text-gray-900">{users.filter(u => !u.is_manager).length}</p>
+                <p className="text-2xl font-bold text-gray-900">{users.filter(u => !hasUserRole(u, 'manager')).length}</p>
               </div>
               <UserX className="h-8 w-8 text-orange-600" />
             </div>
@@ -347,9 +379,15 @@ export default function AdminDashboard() {
 
         {/* Tabs */}
         <Tabs defaultValue="users" className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className={`grid w-full ${isAdmin ? 'grid-cols-8' : 'grid-cols-6'}`}>
             <TabsTrigger value="users">Users & Managers</TabsTrigger>
             <TabsTrigger value="admins">Admins</TabsTrigger>
+            <TabsTrigger value="invitations">Invitations</TabsTrigger>
+            <TabsTrigger value="organization">{isAdmin ? 'Organizations' : 'Organization'}</TabsTrigger>
+            <TabsTrigger value="teams">Teams</TabsTrigger>
+            <TabsTrigger value="permissions">Permissions</TabsTrigger>
+            {isAdmin && <TabsTrigger value="skills">Skill Catalog</TabsTrigger>}
+            {isAdmin && <TabsTrigger value="pipeline">Pipeline Stages</TabsTrigger>}
           </TabsList>
 
           <TabsContent value="users" className="space-y-6">
@@ -381,7 +419,7 @@ export default function AdminDashboard() {
                       variant="ghost"
                       size="sm"
                       className="h-8 w-8 p-0 text-red-500 hover:text-red-700 hover:bg-red-50"
-                      onClick={() => handleDeleteClick(user.id, 'user', user.name || user.email)}
+                      onClick={() => handleDeleteClick(user.id, user.name || user.email)}
                     >
                       <Trash2 className="h-4 w-4" />
                     </Button>
@@ -390,9 +428,17 @@ export default function AdminDashboard() {
                   <div className="space-y-3">
                     <div className="flex items-center justify-between">
                       <span className="text-sm text-gray-600">Role</span>
-                      <Badge className={user.is_manager ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}>
-                        {user.is_manager ? 'Manager' : 'User'}
-                      </Badge>
+                      <div className="flex gap-1">
+                        {hasUserRole(user, 'admin') && (
+                          <Badge className="bg-purple-100 text-purple-800">Admin</Badge>
+                        )}
+                        {hasUserRole(user, 'org_admin') && (
+                          <Badge className="bg-indigo-100 text-indigo-800">Org Admin</Badge>
+                        )}
+                        <Badge className={hasUserRole(user, 'manager') ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}>
+                          {hasUserRole(user, 'manager') ? 'Manager' : 'User'}
+                        </Badge>
+                      </div>
                     </div>
 
                     <div className="flex items-center justify-between">
@@ -402,12 +448,17 @@ export default function AdminDashboard() {
                       </span>
                     </div>
 
+                    {!user.user_id && (
+                      <p className="text-xs text-muted-foreground">Roles can be assigned once this user has signed in.</p>
+                    )}
+
                     <div className="flex space-x-2">
-                      {user.is_manager ? (
+                      {hasUserRole(user, 'manager') ? (
                         <Button
                           variant="outline"
                           size="sm"
                           onClick={() => handleRevokeManager(user)}
+                          disabled={!user.user_id}
                           className="flex-1"
                         >
                           <UserX className="h-4 w-4 mr-2" />
@@ -418,12 +469,35 @@ export default function AdminDashboard() {
                           variant="outline"
                           size="sm"
                           onClick={() => handlePromoteToManager(user)}
+                          disabled={!user.user_id}
                           className="flex-1"
                         >
                           <UserCheck className="h-4 w-4 mr-2" />
                           Promote to Manager
                         </Button>
                       )}
+                      {!hasUserRole(user, 'admin') && !hasUserRole(user, 'org_admin') && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleGrantAdmin(user, 'org_admin')}
+                          disabled={!user.user_id}
+                        >
+                          <Crown className="h-4 w-4 mr-2" />
+                          Make Org Admin
+                        </Button>
+                      )}
+                      {isAdmin && !hasUserRole(user, 'admin') && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleGrantAdmin(user, 'admin')}
+                          disabled={!user.user_id}
+                        >
+                          <Crown className="h-4 w-4 mr-2" />
+                          Make Admin
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </motion.div>
@@ -451,40 +525,90 @@ export default function AdminDashboard() {
                       </Avatar>
                       <div>
                         <h3 className="font-semibold text-gray-900">
-                          {admin.name || 'No Name'}
+                          {admin.name || `${admin.first_name || ''} ${admin.last_name || ''}`.trim() || 'No Name'}
                         </h3>
                         <p className="text-sm text-gray-600">{admin.email}</p>
                       </div>
                     </div>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      className="h-8 w-8 p-0 text-red-500 hover:text-red-700 hover:bg-red-50"
-                      onClick={() => handleDeleteClick(admin.id, 'admin', admin.name || admin.email)}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
                   </div>
 
                   <div className="space-y-3">
                     <div className="flex items-center justify-between">
                       <span className="text-sm text-gray-600">Role</span>
-                      <Badge className="bg-purple-100 text-purple-800">
-                        Admin
-                      </Badge>
+                      {hasUserRole(admin, 'admin') ? (
+                        <Badge className="bg-purple-100 text-purple-800">
+                          Admin
+                        </Badge>
+                      ) : (
+                        <Badge className="bg-indigo-100 text-indigo-800">
+                          Org Admin
+                        </Badge>
+                      )}
                     </div>
 
                     <div className="flex items-center justify-between">
-                      <span className="text-sm text-gray-600">Created</span>
+                      <span className="text-sm text-gray-600">Joined</span>
                       <span className="text-sm text-gray-900">
                         {new Date(admin.created_at).toLocaleDateString()}
                       </span>
                     </div>
+
+                    {hasUserRole(admin, 'admin') ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRevokeAdmin(admin, 'admin')}
+                        disabled={!isAdmin || globalAdminCount <= 1}
+                        className="w-full"
+                      >
+                        <UserX className="h-4 w-4 mr-2" />
+                        Revoke Admin
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRevokeAdmin(admin, 'org_admin')}
+                        className="w-full"
+                      >
+                        <UserX className="h-4 w-4 mr-2" />
+                        Revoke Org Admin
+                      </Button>
+                    )}
                   </div>
                 </motion.div>
               ))}
             </div>
           </TabsContent>
+
+          <TabsContent value="invitations" className="space-y-6">
+            {isAdmin && <SignupSettingsManager />}
+            <InvitationManager />
+          </TabsContent>
+
+          <TabsContent value="organization" className="space-y-6">
+            <OrganizationManager />
+          </TabsContent>
+
+          <TabsContent value="teams" className="space-y-6">
+            <TeamManager users={users} />
+          </TabsContent>
+
+          <TabsContent value="permissions" className="space-y-6">
+            <PermissionManager users={users} />
+          </TabsContent>
+
+          {isAdmin && (
+            <TabsContent value="skills" className="space-y-6">
+              <SkillCatalogManager />
+            </TabsContent>
+          )}
+
+          {isAdmin && (
+            <TabsContent value="pipeline" className="space-y-6">
+              <PipelineStageManager />
+            </TabsContent>
+          )}
         </Tabs>
 
         {/* Delete Confirmation Dialog */}
@@ -1,5 +1,5 @@
-import { useState } from 'react';
-import { Navigate } from 'react-router-dom';
+import { useState, useEffect } from 'react';
+import { Navigate, useSearchParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -10,6 +10,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Separator } from '@/components/ui/separator';
 import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+import { invitationService, signupBlockReason, InvitationPreview, SignupSettings } from '@/services/invitationService';
+import { ROLE_LABELS } from '@/services/roleService';
 import { Loader2, Users, Zap, Brain, Shield, Sparkles, ArrowRight, CheckCircle } from 'lucide-react';
 
 const signInSchema = z.object({
@@ -31,6 +34,12 @@ const Auth = () => {
   const { user, signIn, signUp, signInWithGoogle, loading } = useAuth();
   const [isSignUp, setIsSignUp] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get('invite') || undefined;
+  // undefined while loading, null when the token doesn't match an invitation
+  const [invitation, setInvitation] = useState<InvitationPreview | null | undefined>(undefined);
+  const [inviteHandled, setInviteHandled] = useState(false);
+  const [signupSettings, setSignupSettings] = useState<SignupSettings | null>(null);
 
   const signInForm = useForm<SignInFormData>({
     resolver: zodResolver(signInSchema),
@@ -50,7 +59,61 @@ const Auth = () => {
     },
   });
 
-  if (loading) {
+  useEffect(() => {
+    invitationService.getSignupSettings()
+      .then(setSignupSettings)
+      .catch(error => console.error('Error fetching signup settings:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!inviteToken) return;
+
+    invitationService.getInvitation(inviteToken)
+      .then(preview => {
+        setInvitation(preview);
+        if (preview?.status === 'pending') {
+          setIsSignUp(true);
+          signUpForm.setValue('email', preview.email);
+          signInForm.setValue('email', preview.email);
+        }
+      })
+      .catch(error => {
+        console.error('Error fetching invitation:', error);
+        setInvitation(null);
+      });
+  }, [inviteToken]);
+
+  // Signed in through an invitation link. New accounts already had it applied by the signup
+  // trigger; existing ones accept it here and reload into their new organization.
+  useEffect(() => {
+    if (!user || !inviteToken || inviteHandled) return;
+
+    const acceptInvitation = async () => {
+      try {
+        const current = await invitationService.getInvitation(inviteToken);
+        if (current?.status === 'pending') {
+          await invitationService.acceptInvitation(inviteToken);
+          window.location.replace('/');
+          return;
+        }
+      } catch (error: any) {
+        console.error('Error accepting invitation:', error);
+        toast({
+          title: 'Could not accept invitation',
+          description: error?.message || 'Please ask for a new invitation link.',
+          variant: 'destructive',
+        });
+      }
+      setInviteHandled(true);
+    };
+
+    acceptInvitation();
+  }, [user?.id, inviteToken]);
+
+  const invitedEmail = invitation?.status === 'pending' ? invitation.email : null;
+  const selfSignupDisabled = !!signupSettings && !signupSettings.self_signup_enabled && !invitedEmail;
+
+  if (loading || (user && inviteToken && !inviteHandled)) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -69,14 +132,23 @@ const Auth = () => {
   };
 
   const onSignUp = async (data: SignUpFormData) => {
+    // Invited addresses may sign up whatever the signup settings say
+    const blockReason = data.email.toLowerCase() === invitedEmail
+      ? null
+      : signupBlockReason(data.email, signupSettings);
+    if (blockReason) {
+      signUpForm.setError('email', { message: blockReason });
+      return;
+    }
+
     setIsLoading(true);
-    await signUp(data.email, data.password, data.firstName, data.lastName);
+    await signUp(data.email, data.password, data.firstName, data.lastName, inviteToken);
     setIsLoading(false);
   };
 
   const handleGoogleSignIn = async () => {
     setIsLoading(true);
-    await signInWithGoogle();
+    await signInWithGoogle(inviteToken);
     setIsLoading(false);
   };
 
@@ -237,6 +309,24 @@ const Auth = () => {
                 </motion.div>
               </CardHeader>
               <CardContent className="space-y-6">
+                {inviteToken && invitation !== undefined && (
+                  <div className={`rounded-lg border p-4 text-sm ${invitedEmail ? 'border-primary/40 bg-primary/5' : 'border-destructive/40 bg-destructive/5'}`}>
+                    {invitation?.status === 'pending' ? (
+                      <>
+                        You've been invited to join <span className="font-semibold">{invitation.organization_name}</span> as{' '}
+                        {ROLE_LABELS[invitation.role]}{invitation.team_name ? ` in ${invitation.team_name}` : ''}.{' '}
+                        {isSignUp ? 'Create an account' : 'Sign in'} with {invitation.email} to accept.
+                      </>
+                    ) : invitation?.status === 'expired' ? (
+                      'This invitation has expired. Ask whoever invited you for a new link.'
+                    ) : invitation?.status === 'accepted' ? (
+                      'This invitation has already been accepted. Sign in to continue.'
+                    ) : (
+                      "This invitation link isn't valid. Check that you copied all of it."
+                    )}
+                  </div>
+                )}
+
                 <motion.div
                   initial={{ opacity: 0, y: 20 }}
                   animate={{ opacity: 1, y: 0 }}
@@ -326,7 +416,7 @@ const Auth = () => {
                             <FormItem>
                               <FormLabel className="text-sm font-medium">Email</FormLabel>
                               <FormControl>
-                                <Input placeholder="john@company.com" type="email" className="h-11 border-border/60 focus:border-primary/60 transition-colors" {...field} />
+                                <Input placeholder="john@company.com" type="email" readOnly={!!invitedEmail} className="h-11 border-border/60 focus:border-primary/60 transition-colors" {...field} />
                               </FormControl>
                               <FormMessage />
                             </FormItem>
@@ -395,16 +485,22 @@ const Auth = () => {
                   transition={{ duration: 0.6, delay: 0.8 }}
                   className="text-center text-sm"
                 >
-                  <span className="text-muted-foreground">
-                    {isSignUp ? 'Already have an account?' : "Don't have an account?"}
-                  </span>{' '}
-                  <button
-                    type="button"
-                    className="text-primary hover:text-secondary font-medium transition-colors duration-200 hover:underline"
-                    onClick={() => setIsSignUp(!isSignUp)}
-                  >
-                    {isSignUp ? 'Sign in' : 'Sign up'}
-                  </button>
+                  {!isSignUp && selfSignupDisabled ? (
+                    <span className="text-muted-foreground">New accounts are by invitation only.</span>
+                  ) : (
+                    <>
+                      <span className="text-muted-foreground">
+                        {isSignUp ? 'Already have an account?' : "Don't have an account?"}
+                      </span>{' '}
+                      <button
+                        type="button"
+                        className="text-primary hover:text-secondary font-medium transition-colors duration-200 hover:underline"
+                        onClick={() => setIsSignUp(!isSignUp)}
+                      >
+                        {isSignUp ? 'Sign in' : 'Sign up'}
+                      </button>
+                    </>
+                  )}
                 </motion.div>
               </CardContent>
             </Card>
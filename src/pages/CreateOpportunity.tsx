@@ -3,7 +3,7 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { motion } from 'framer-motion';
-import { ArrowLeft, Briefcase, MapPin, Calendar, DollarSign } from 'lucide-react';
+import { ArrowLeft, Briefcase, MapPin, Calendar, DollarSign, Plus, Upload } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
@@ -11,10 +11,23 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { useUserRole } from '@/hooks/useUserRole';
 import { useNavigate } from 'react-router-dom';
+import SkillPicker from '@/components/SkillPicker';
+import TeamSelect from '@/components/TeamSelect';
+import BulkImport from '@/components/BulkImport';
+import { skillService, SelectedSkill } from '@/services/skillService';
+import { embeddingService } from '@/services/embeddingService';
+import { opportunityBudgetService } from '@/services/opportunityBudgetService';
+import { importJobService, ImportOptions } from '@/services/importJobService';
+import { OPPORTUNITY_IMPORT } from '@/lib/importSchemas';
+
+const BUDGET_FIELDS = ['budget_min', 'budget_max'];
 
 const opportunitySchema = z.object({
   title: z.string().min(1, 'Title is required'),
@@ -32,9 +45,21 @@ type OpportunityFormData = z.infer<typeof opportunitySchema>;
 
 const CreateOpportunity = () => {
   const { user } = useAuth();
+  const { permissions } = useUserRole();
   const { toast } = useToast();
   const navigate = useNavigate();
   const [isLoading, setIsLoading] = useState(false);
+  const [requiredSkills, setRequiredSkills] = useState<SelectedSkill[]>([]);
+  const [teamId, setTeamId] = useState<string | null>(null);
+  const canViewCompensation = permissions.includes('view_compensation');
+
+  // Budget columns are left out of the template for anyone who cannot see compensation
+  const opportunityImport = canViewCompensation ? OPPORTUNITY_IMPORT : {
+    ...OPPORTUNITY_IMPORT,
+    templateFields: OPPORTUNITY_IMPORT.templateFields.filter(field => !BUDGET_FIELDS.includes(field)),
+    optionalFields: OPPORTUNITY_IMPORT.optionalFields.filter(field => !BUDGET_FIELDS.includes(field)),
+    conditionalNotes: OPPORTUNITY_IMPORT.conditionalNotes.filter(note => !note.startsWith('budget_'))
+  };
 
   const form = useForm<OpportunityFormData>({
     resolver: zodResolver(opportunitySchema),
@@ -48,7 +73,7 @@ const CreateOpportunity = () => {
     
     setIsLoading(true);
     try {
-      const { error } = await supabase
+      const { data: opportunity, error } = await supabase
         .from('opportunities')
         .insert({
           title: data.title,
@@ -58,13 +83,23 @@ const CreateOpportunity = () => {
           remote_allowed: data.remoteAllowed,
           start_date: data.startDate || null,
           end_date: data.endDate || null,
-          budget_min: data.budgetMin || null,
-          budget_max: data.budgetMax || null,
+          team_id: teamId,
           created_by: user.id
-        });
+        })
+        .select('id')
+        .single();
 
       if (error) throw error;
 
+      await skillService.setOpportunitySkills(opportunity.id, requiredSkills);
+      if (canViewCompensation) {
+        await opportunityBudgetService.saveBudget(opportunity.id, {
+          budget_min: data.budgetMin || null,
+          budget_max: data.budgetMax || null
+        });
+      }
+      embeddingService.queueRefresh();
+
       toast({
         title: "Success!",
         description: "Opportunity created successfully.",
@@ -82,6 +117,14 @@ const CreateOpportunity = () => {
     setIsLoading(false);
   };
 
+  const handleBulkImport = async (data: any[], options: ImportOptions) => {
+    const result = await importJobService.importOpportunities(data, teamId, options);
+    if (!options.dryRun && result.status === 'completed') {
+      embeddingService.queueRefresh();
+    }
+    return result;
+  };
+
   return (
     <div className="min-h-screen bg-background">
       <div className="container mx-auto px-6 py-8">
@@ -97,229 +140,279 @@ const CreateOpportunity = () => {
             </Button>
           </div>
 
-          <Card className="max-w-4xl mx-auto">
-            <CardHeader>
-              <CardTitle className="flex items-center space-x-2">
-                <Briefcase className="h-6 w-6 text-primary" />
-                <span>Create New Opportunity</span>
-              </CardTitle>
-              <CardDescription>
-                Post a new project opportunity to attract the right talent
-              </CardDescription>
-            </CardHeader>
+          <Tabs defaultValue="create" className="max-w-4xl mx-auto space-y-6">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="create" className="flex items-center space-x-2">
+                <Plus className="w-4 h-4" />
+                <span>Create</span>
+              </TabsTrigger>
+              <TabsTrigger value="bulk" className="flex items-center space-x-2">
+                <Upload className="w-4 h-4" />
+                <span>Bulk Import</span>
+              </TabsTrigger>
+            </TabsList>
 
-            <CardContent>
-              <Form {...form}>
-                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-                  <FormField
-                    control={form.control}
-                    name="title"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Opportunity Title *</FormLabel>
-                        <FormControl>
-                          <Input placeholder="e.g. Senior Frontend Developer for Mobile App" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+            <TabsContent value="create">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <Briefcase className="h-6 w-6 text-primary" />
+                    <span>Create New Opportunity</span>
+                  </CardTitle>
+                  <CardDescription>
+                    Post a new project opportunity to attract the right talent
+                  </CardDescription>
+                </CardHeader>
 
-                  <FormField
-                    control={form.control}
-                    name="description"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Description</FormLabel>
-                        <FormControl>
-                          <Textarea 
-                            placeholder="Describe the project, requirements, goals, and what makes this opportunity exciting..."
-                            className="min-h-[120px]"
-                            {...field} 
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                <CardContent>
+                  <Form {...form}>
+                    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                      <FormField
+                        control={form.control}
+                        name="title"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Opportunity Title *</FormLabel>
+                            <FormControl>
+                              <Input placeholder="e.g. Senior Frontend Developer for Mobile App" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
 
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                    <FormField
-                      control={form.control}
-                      name="requiredRole"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Required Role *</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormField
+                        control={form.control}
+                        name="description"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Description</FormLabel>
                             <FormControl>
-                              <SelectTrigger>
-                                <SelectValue placeholder="Select required role" />
-                              </SelectTrigger>
+                              <Textarea 
+                                placeholder="Describe the project, requirements, goals, and what makes this opportunity exciting..."
+                                className="min-h-[120px]"
+                                {...field} 
+                              />
                             </FormControl>
-                            <SelectContent>
-                              <SelectItem value="engineer">Engineer</SelectItem>
-                              <SelectItem value="designer">Designer</SelectItem>
-                              <SelectItem value="product_manager">Product Manager</SelectItem>
-                              <SelectItem value="qa_engineer">QA Engineer</SelectItem>
-                              <SelectItem value="data_scientist">Data Scientist</SelectItem>
-                            </SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
 
-                    <FormField
-                      control={form.control}
-                      name="location"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel className="flex items-center space-x-2">
-                            <MapPin className="h-4 w-4" />
-                            <span>Location</span>
-                          </FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <div className="space-y-2">
+                        <Label>Team</Label>
+                        <TeamSelect value={teamId} onChange={setTeamId} preselect />
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label>Required Skills</Label>
+                        <SkillPicker
+                          mode="opportunity"
+                          value={requiredSkills}
+                          onChange={setRequiredSkills}
+                          placeholder="Add required or nice-to-have skills..."
+                        />
+                      </div>
+
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <FormField
+                          control={form.control}
+                          name="requiredRole"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Required Role *</FormLabel>
+                              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Select required role" />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  <SelectItem value="engineer">Engineer</SelectItem>
+                                  <SelectItem value="designer">Designer</SelectItem>
+                                  <SelectItem value="product_manager">Product Manager</SelectItem>
+                                  <SelectItem value="qa_engineer">QA Engineer</SelectItem>
+                                  <SelectItem value="data_scientist">Data Scientist</SelectItem>
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={form.control}
+                          name="location"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel className="flex items-center space-x-2">
+                                <MapPin className="h-4 w-4" />
+                                <span>Location</span>
+                              </FormLabel>
+                              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Select a location" />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  <SelectItem value="Mexico (Remote)">Mexico (Remote)</SelectItem>
+                                  <SelectItem value="Costa Rica (Remote)">Costa Rica (Remote)</SelectItem>
+                                  <SelectItem value="Colombia (Remote)">Colombia (Remote)</SelectItem>
+                                  <SelectItem value="Argentina (Remote)">Argentina (Remote)</SelectItem>
+                                  <SelectItem value="Peru (Remote)">Peru (Remote)</SelectItem>
+                                  <SelectItem value="El Salvador (Remote)">El Salvador (Remote)</SelectItem>
+                                  <SelectItem value="Dominican Republic (Remote)">Dominican Republic (Remote)</SelectItem>
+                                  <SelectItem value="Pune, India (Remote)">Pune, India (Remote)</SelectItem>
+                                  <SelectItem value="Lehi, Utah (Remote)">Lehi, Utah (Remote)</SelectItem>
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+
+                      <FormField
+                        control={form.control}
+                        name="remoteAllowed"
+                        render={({ field }) => (
+                          <FormItem className="flex items-center space-x-3">
                             <FormControl>
-                              <SelectTrigger>
-                                <SelectValue placeholder="Select a location" />
-                              </SelectTrigger>
+                              <Switch
+                                checked={field.value}
+                                onCheckedChange={field.onChange}
+                              />
                             </FormControl>
-                            <SelectContent>
-                              <SelectItem value="Mexico (Remote)">Mexico (Remote)</SelectItem>
-                              <SelectItem value="Costa Rica (Remote)">Costa Rica (Remote)</SelectItem>
-                              <SelectItem value="Colombia (Remote)">Colombia (Remote)</SelectItem>
-                              <SelectItem value="Argentina (Remote)">Argentina (Remote)</SelectItem>
-                              <SelectItem value="Peru (Remote)">Peru (Remote)</SelectItem>
-                              <SelectItem value="El Salvador (Remote)">El Salvador (Remote)</SelectItem>
-                              <SelectItem value="Dominican Republic (Remote)">Dominican Republic (Remote)</SelectItem>
-                              <SelectItem value="Pune, India (Remote)">Pune, India (Remote)</SelectItem>
-                              <SelectItem value="Lehi, Utah (Remote)">Lehi, Utah (Remote)</SelectItem>
-                            </SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
+                            <FormLabel className="text-sm font-medium">
+                              Remote work allowed
+                            </FormLabel>
+                          </FormItem>
+                        )}
+                      />
 
-                  <FormField
-                    control={form.control}
-                    name="remoteAllowed"
-                    render={({ field }) => (
-                      <FormItem className="flex items-center space-x-3">
-                        <FormControl>
-                          <Switch
-                            checked={field.value}
-                            onCheckedChange={field.onChange}
-                          />
-                        </FormControl>
-                        <FormLabel className="text-sm font-medium">
-                          Remote work allowed
-                        </FormLabel>
-                      </FormItem>
-                    )}
-                  />
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <FormField
+                          control={form.control}
+                          name="startDate"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel className="flex items-center space-x-2">
+                                <Calendar className="h-4 w-4" />
+                                <span>Start Date</span>
+                              </FormLabel>
+                              <FormControl>
+                                <Input type="date" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
 
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                    <FormField
-                      control={form.control}
-                      name="startDate"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel className="flex items-center space-x-2">
-                            <Calendar className="h-4 w-4" />
-                            <span>Start Date</span>
-                          </FormLabel>
-                          <FormControl>
-                            <Input type="date" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                        <FormField
+                          control={form.control}
+                          name="endDate"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel className="flex items-center space-x-2">
+                                <Calendar className="h-4 w-4" />
+                                <span>End Date</span>
+                              </FormLabel>
+                              <FormControl>
+                                <Input type="date" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
 
-                    <FormField
-                      control={form.control}
-                      name="endDate"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel className="flex items-center space-x-2">
-                            <Calendar className="h-4 w-4" />
-                            <span>End Date</span>
-                          </FormLabel>
-                          <FormControl>
-                            <Input type="date" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
+                      {canViewCompensation && (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                          <FormField
+                            control={form.control}
+                            name="budgetMin"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel className="flex items-center space-x-2">
+                                  <DollarSign className="h-4 w-4" />
+                                  <span>Budget Min (USD)</span>
+                                </FormLabel>
+                                <FormControl>
+                                  <Input 
+                                    type="number" 
+                                    min="0" 
+                                    step="0.01" 
+                                    placeholder="0.00" 
+                                    {...field} 
+                                    value={field.value || ''}
+                                    onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
 
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                    <FormField
-                      control={form.control}
-                      name="budgetMin"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel className="flex items-center space-x-2">
-                            <DollarSign className="h-4 w-4" />
-                            <span>Budget Min (USD)</span>
-                          </FormLabel>
-                          <FormControl>
-                            <Input 
-                              type="number" 
-                              min="0" 
-                              step="0.01" 
-                              placeholder="0.00" 
-                              {...field} 
-                              value={field.value || ''}
-                              onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
+                          <FormField
+                            control={form.control}
+                            name="budgetMax"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel className="flex items-center space-x-2">
+                                  <DollarSign className="h-4 w-4" />
+                                  <span>Budget Max (USD)</span>
+                                </FormLabel>
+                                <FormControl>
+                                  <Input 
+                                    type="number" 
+                                    min="0" 
+                                    step="0.01" 
+                                    placeholder="0.00" 
+                                    {...field} 
+                                    value={field.value || ''}
+                                    onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
                       )}
-                    />
 
-                    <FormField
-                      control={form.control}
-                      name="budgetMax"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel className="flex items-center space-x-2">
-                            <DollarSign className="h-4 w-4" />
-                            <span>Budget Max (USD)</span>
-                          </FormLabel>
-                          <FormControl>
-                            <Input 
-                              type="number" 
-                              min="0" 
-                              step="0.01" 
-                              placeholder="0.00" 
-                              {...field} 
-                              value={field.value || ''}
-                              onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
+                      <div className="flex justify-end space-x-4 pt-6">
+                        <Button type="button" variant="outline" onClick={() => navigate('/')}>
+                          Cancel
+                        </Button>
+                        <Button type="submit" disabled={isLoading}>
+                          {isLoading ? 'Creating...' : 'Create Opportunity'}
+                        </Button>
+                      </div>
+                    </form>
+                  </Form>
+                </CardContent>
+              </Card>
+            </TabsContent>
 
-                  <div className="flex justify-end space-x-4 pt-6">
-                    <Button type="button" variant="outline" onClick={() => navigate('/')}>
-                      Cancel
-                    </Button>
-                    <Button type="submit" disabled={isLoading}>
-                      {isLoading ? 'Creating...' : 'Create Opportunity'}
-                    </Button>
+            <TabsContent value="bulk" className="space-y-6">
+              <Card>
+                <CardContent className="pt-6">
+                  <div className="space-y-2 md:w-1/2">
+                    <Label>Team</Label>
+                    <TeamSelect value={teamId} onChange={setTeamId} preselect />
+                    <p className="text-xs text-muted-foreground">New opportunities from the file join this team.</p>
                   </div>
-                </form>
-              </Form>
-            </CardContent>
-          </Card>
+                </CardContent>
+              </Card>
+              <BulkImport
+                {...opportunityImport}
+                onRunJob={handleBulkImport}
+                matchKeys={['title']}
+                entityName="Opportunity"
+              />
+            </TabsContent>
+          </Tabs>
         </motion.div>
       </div>
     </div>
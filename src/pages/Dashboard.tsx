@@ -16,37 +16,20 @@ import {
   Search,
   BarChart3,
   UserPlus,
-  Edit,
-  Calendar,
   User,
   LogOut,
   Shield
 } from 'lucide-react';
-import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuSeparator } from '@/components/ui/dropdown-menu';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { supabase } from '@/integrations/supabase/client';
-
-interface Activity {
-  id: string;
-  type: 'talent_created' | 'opportunity_filled' | 'opportunity_created' | 'profile_updated' | 'opportunity_updated';
-  title: string;
-  description: string;
-  time: string;
-  timestamp: string;
-  icon: any;
-  color: string;
-}
+import { Allocation, currentUtilization } from '@/services/capacityService';
+import ActivityFeed from '@/components/ActivityFeed';
 
 const Dashboard = () => {
-  const { profile, roles, hasRole, signOut } = useAuth();
-  const { isAdmin, isManager, isRegularUser, loading } = useUserRole();
+  const { profile, organization, roles, hasRole, signOut } = useAuth();
+  const { isAdmin, isOrgAdmin, isManager, isRegularUser, permissions, loading } = useUserRole();
   const navigate = useNavigate();
-  const [recentActivity, setRecentActivity] = useState<Activity[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [timeframe, setTimeframe] = useState('24h');
-  const [activeTab, setActiveTab] = useState('new-profiles');
 
   const handleLogout = async () => {
     try {
@@ -118,19 +101,20 @@ const Dashboard = () => {
       action: 'talent-pool',
       color: 'bg-orange-50 text-orange-600 border-orange-200'
     }
-  ];
+  ].filter(action => action.action !== 'ai-match' || ((isManager || isAdmin) && permissions.includes('run_ai_matching')));
 
   const fetchStats = async () => {
     try {
       // Get all talent profiles with their type and prospect status
       const { data: talentData, error: talentError } = await supabase
         .from('talent_profiles')
-        .select('id, talent_type, prospect_status');
+        .select('id, talent_type, prospect_status')
+        .eq('review_status', 'approved');
       
       // Get utilization data for existing employees
       const { data: utilizationData, error: utilError } = await supabase
         .from('employee_projects')
-        .select('talent_profile_id, utilization_percentage');
+        .select('talent_profile_id, project_name, utilization_percentage, start_date, release_date');
       
       // Get open opportunities count
       const { data: opportunitiesData, error: oppError } = await supabase
@@ -145,20 +129,19 @@ const Dashboard = () => {
       const availableProspects = talentData?.filter(t => t.talent_type === 'prospect' && (t.prospect_status === 'available' || !t.prospect_status)).length || 0;
       
       // For existing employees: need to check utilization from employee_projects
-      // Group utilization by talent_profile_id
-      const utilizationByTalent = (utilizationData || []).reduce((acc, project) => {
+      // Group allocations by talent_profile_id
+      const allocationsByTalent = (utilizationData || []).reduce((acc, project) => {
         if (!acc[project.talent_profile_id]) {
-          acc[project.talent_profile_id] = 0;
+          acc[project.talent_profile_id] = [];
         }
-        acc[project.talent_profile_id] += project.utilization_percentage || 0;
+        acc[project.talent_profile_id].push(project);
         return acc;
-      }, {} as Record<string, number>);
+      }, {} as Record<string, Allocation[]>);
       
-      // Count existing employees with utilization < 100%
+      // Count existing employees with utilization < 100% today
       const availableExisting = talentData?.filter(t => {
         if (t.talent_type !== 'existing') return false;
-        const totalUtilization = utilizationByTalent[t.id] || 0;
-        return totalUtilization < 100;
+        return currentUtilization(allocationsByTalent[t.id]) < 100;
       }).length || 0;
       
       const availableTalent = availableExisting + availableProspects;
@@ -185,302 +168,9 @@ const Dashboard = () => {
     }
   };
 
-  const getTimeAgo = (date: string) => {
-    const now = new Date();
-    const past = new Date(date);
-    const diffInSeconds = Math.floor((now.getTime() - past.getTime()) / 1000);
-
-    if (diffInSeconds < 60) return `${diffInSeconds} seconds ago`;
-    if (diffInSeconds < 3600) return `${Math.floor(diffInSeconds / 60)} minutes ago`;
-    if (diffInSeconds < 86400) return `${Math.floor(diffInSeconds / 3600)} hours ago`;
-    return `${Math.floor(diffInSeconds / 86400)} days ago`;
-  };
-
-  const getTimeframeDate = (timeframe: string) => {
-    const now = new Date();
-    switch (timeframe) {
-      case '24h':
-        return new Date(now.getTime() - 24 * 60 * 60 * 1000);
-      case 'week':
-        return new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-      case 'month':
-        return new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-      default:
-        return new Date(now.getTime() - 24 * 60 * 60 * 1000);
-    }
-  };
-
-  const fetchRecentActivity = async () => {
-    try {
-      setIsLoading(true);
-      const activities: Activity[] = [];
-      const timeframeDate = getTimeframeDate(timeframe);
-
-      // 1. Recent talent profiles created
-      const { data: recentTalents, error: talentError } = await supabase
-        .from('talent_profiles')
-        .select('id, first_name, last_name, talent_role, talent_type, prospect_status, created_at')
-        .gte('created_at', timeframeDate.toISOString())
-        .order('created_at', { ascending: false });
-
-      if (!talentError && recentTalents) {
-        for (const talent of recentTalents) {
-          // Get utilization data for existing employees
-          let utilization = null;
-          if (talent.talent_type === 'existing') {
-            const { data: utilizationData } = await supabase
-              .from('employee_projects')
-              .select('utilization_percentage')
-              .eq('talent_profile_id', talent.id);
-            
-            if (utilizationData && utilizationData.length > 0) {
-              utilization = utilizationData.reduce((sum, project) => sum + (project.utilization_percentage || 0), 0);
-            }
-          }
-
-          const status = talent.talent_type === 'prospect' 
-            ? (talent.prospect_status || 'Available')
-            : (utilization !== null ? `${utilization}% utilized` : 'Active');
-
-          activities.push({
-            id: `talent-${talent.id}`,
-            type: 'talent_created',
-            title: `${talent.first_name} ${talent.last_name}`,
-            description: `${talent.talent_role} • ${talent.talent_type} • ${status}`,
-            time: getTimeAgo(talent.created_at),
-            timestamp: talent.created_at,
-            icon: Users,
-            color: 'text-blue-600'
-          });
-        }
-      }
-
-      // 2. Recent opportunities filled (temporarily disabled until migration is run)
-      // const { data: filledOpportunities, error: oppError } = await supabase
-      //   .from('opportunities')
-      //   .select('id, title, required_role, fulfilled_at')
-      //   .not('fulfilled_at', 'is', null)
-      //   .gte('fulfilled_at', timeframeDate.toISOString())
-      //   .order('fulfilled_at', { ascending: false });
-
-      // if (!oppError && filledOpportunities) {
-      //   filledOpportunities.forEach(opportunity => {
-      //     activities.push({
-      //       id: `opp-filled-${opportunity.id}`,
-      //       type: 'opportunity_filled',
-      //       title: 'Opportunity filled',
-      //       description: `${opportunity.title} - ${opportunity.required_role}`,
-      //       time: getTimeAgo(opportunity.fulfilled_at),
-      //       timestamp: opportunity.fulfilled_at,
-      //       icon: Briefcase,
-      //       color: 'text-green-600'
-      //     });
-      //   });
-      // }
-
-      // 3. Recent opportunities created
-      const { data: newOpportunities, error: newOppError } = await supabase
-        .from('opportunities')
-        .select('id, title, required_role, status, created_at')
-        .gte('created_at', timeframeDate.toISOString())
-        .order('created_at', { ascending: false });
-
-      if (!newOppError && newOpportunities) {
-        newOpportunities.forEach(opportunity => {
-          activities.push({
-            id: `opp-created-${opportunity.id}`,
-            type: 'opportunity_created',
-            title: opportunity.title,
-            description: `${opportunity.required_role} • ${opportunity.status}`,
-            time: getTimeAgo(opportunity.created_at),
-            timestamp: opportunity.created_at,
-            icon: Plus,
-            color: 'text-blue-600'
-          });
-        });
-      }
-
-      // 4. Recent profile updates - check for profiles updated within timeframe
-      const { data: updatedTalents, error: updateError } = await supabase
-        .from('talent_profiles')
-        .select('id, first_name, last_name, talent_role, talent_type, prospect_status, created_at, updated_at')
-        .not('updated_at', 'is', null)
-        .gte('updated_at', timeframeDate.toISOString())
-        .order('updated_at', { ascending: false });
-
-      console.log('Profile updates query:', { 
-        updatedTalents, 
-        updateError, 
-        timeframeDate: timeframeDate.toISOString(),
-        count: updatedTalents?.length || 0
-      });
-      
-      // Debug: Show the actual profile data
-      if (updatedTalents) {
-        console.log('Profile update details:');
-        updatedTalents.forEach((talent, index) => {
-          console.log(`${index + 1}. ${talent.first_name} ${talent.last_name} - created: ${talent.created_at}, updated: ${talent.updated_at}`);
-        });
-      }
-
-      if (!updateError && updatedTalents) {
-        console.log('Processing profile updates:', updatedTalents.length);
-        for (const talent of updatedTalents) {
-          // Only check if an update activity already exists, not if a created activity exists
-          const updateAlreadyExists = activities.some(activity => activity.id === `update-${talent.id}`);
-          const wasCreatedInTimeframe = activities.some(activity => activity.id === `talent-${talent.id}`);
-          
-          console.log(`Profile ${talent.id}: update exists = ${updateAlreadyExists}, created in timeframe = ${wasCreatedInTimeframe}`);
-          
-          // Add update activity if no update activity exists yet
-          const updateTime = talent.updated_at;
-          
-          if (!updateAlreadyExists) {
-            // Get utilization data for existing employees
-            let utilization = null;
-            if (talent.talent_type === 'existing') {
-              const { data: utilizationData } = await supabase
-                .from('employee_projects')
-                .select('utilization_percentage')
-                .eq('talent_profile_id', talent.id);
-              
-              if (utilizationData && utilizationData.length > 0) {
-                utilization = utilizationData.reduce((sum, project) => sum + (project.utilization_percentage || 0), 0);
-              }
-            }
-
-            const status = talent.talent_type === 'prospect' 
-              ? (talent.prospect_status || 'Available')
-              : (utilization !== null ? `${utilization}% utilized` : 'Active');
-
-            const newActivity = {
-              id: `update-${talent.id}`,
-              type: 'profile_updated' as const,
-              title: `${talent.first_name} ${talent.last_name}`,
-              description: `${talent.talent_role} • ${talent.talent_type} • ${status}`,
-              time: getTimeAgo(updateTime),
-              timestamp: updateTime,
-              icon: Edit,
-              color: 'text-orange-600'
-            };
-            console.log('Adding profile update activity:', newActivity);
-            activities.push(newActivity);
-          }
-        }
-      }
-
-      // 5. Recent opportunity updates - check for opportunities updated within timeframe
-      const { data: updatedOpportunities, error: oppUpdateError } = await supabase
-        .from('opportunities')
-        .select('id, title, required_role, status, created_at, updated_at')
-        .not('updated_at', 'is', null)
-        .gte('updated_at', timeframeDate.toISOString())
-        .order('updated_at', { ascending: false });
-
-      console.log('Opportunity updates query:', { 
-        updatedOpportunities, 
-        oppUpdateError, 
-        timeframeDate: timeframeDate.toISOString(),
-        count: updatedOpportunities?.length || 0
-      });
-      
-      // Debug: Show the actual opportunity data
-      if (updatedOpportunities) {
-        console.log('Opportunity update details:');
-        updatedOpportunities.forEach((opp, index) => {
-          console.log(`${index + 1}. ${opp.title} - created: ${opp.created_at}, updated: ${opp.updated_at}`);
-        });
-      }
-
-      if (!oppUpdateError && updatedOpportunities) {
-        console.log('Processing opportunity updates:', updatedOpportunities.length);
-        updatedOpportunities.forEach(opportunity => {
-          // Only check if an update activity already exists, not if a created activity exists
-          const updateAlreadyExists = activities.some(activity => activity.id === `opp-update-${opportunity.id}`);
-          const wasCreatedInTimeframe = activities.some(activity => activity.id === `opp-created-${opportunity.id}`);
-          
-          console.log(`Opportunity ${opportunity.id}: update exists = ${updateAlreadyExists}, created in timeframe = ${wasCreatedInTimeframe}`);
-          
-          // Add update activity if no update activity exists yet
-          const updateTime = opportunity.updated_at;
-          
-          if (!updateAlreadyExists) {
-            const newActivity = {
-              id: `opp-update-${opportunity.id}`,
-              type: 'opportunity_updated' as const,
-              title: opportunity.title,
-              description: `${opportunity.required_role} • ${opportunity.status}`,
-              time: getTimeAgo(updateTime),
-              timestamp: updateTime,
-              icon: Edit,
-              color: 'text-orange-600'
-            };
-            console.log('Adding opportunity update activity:', newActivity);
-            activities.push(newActivity);
-          }
-        });
-      }
-
-      // Debug: Check if we have any updates
-      console.log('Update check:', {
-        hasProfileUpdates: updatedTalents && updatedTalents.length > 0,
-        hasOpportunityUpdates: updatedOpportunities && updatedOpportunities.length > 0,
-        profileCount: updatedTalents?.length || 0,
-        opportunityCount: updatedOpportunities?.length || 0
-      });
-
-      // Debug: Check all records to see if updated_at is working
-      const { data: allTalentsDebug } = await supabase
-        .from('talent_profiles')
-        .select('id, first_name, last_name, created_at, updated_at')
-        .order('updated_at', { ascending: false })
-        .limit(3);
-      
-      const { data: allOppsDebug } = await supabase
-        .from('opportunities')
-        .select('id, title, created_at, updated_at')
-        .order('updated_at', { ascending: false })
-        .limit(3);
-
-      console.log('Debug - All talents (recent):', allTalentsDebug);
-      console.log('Debug - All opportunities (recent):', allOppsDebug);
-
-      // Sort activities by timestamp (most recent first)
-      activities.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-      console.log('All activities:', activities);
-      setRecentActivity(activities);
-    } catch (error) {
-      console.error('Error fetching recent activity:', error);
-      setRecentActivity([]);
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
   useEffect(() => {
     fetchStats();
-    fetchRecentActivity();
-  }, [timeframe]);
-
-  const getFilteredActivities = (tab: string) => {
-    const filtered = recentActivity.filter(activity => {
-      switch (tab) {
-        case 'new-profiles':
-          return activity.type === 'talent_created';
-        case 'profile-updates':
-          return activity.type === 'profile_updated';
-        case 'new-opportunities':
-          return activity.type === 'opportunity_created';
-        case 'opportunity-updates':
-          return activity.type === 'opportunity_updated';
-        default:
-          return true;
-      }
-    });
-    
-    console.log(`Filtered activities for ${tab}:`, filtered);
-    return filtered;
-  };
+  }, []);
 
   return (
     <div className="min-h-screen bg-background">
@@ -520,6 +210,11 @@ const Dashboard = () => {
                     <p className="text-xs leading-none text-muted-foreground">
                       {profile?.email}
                     </p>
+                    {organization && (
+                      <p className="text-xs leading-none text-muted-foreground">
+                        {organization.name}
+                      </p>
+                    )}
                   </div>
                   <DropdownMenuSeparator />
                   <DropdownMenuItem 
@@ -529,7 +224,16 @@ const Dashboard = () => {
                     <User className="mr-2 h-4 w-4" />
                     <span>My Dashboard</span>
                   </DropdownMenuItem>
-                  {isAdmin && (
+                  {permissions.includes('invite_users') && (
+                    <DropdownMenuItem
+                      className="cursor-pointer"
+                      onClick={() => navigate('/invitations')}
+                    >
+                      <UserPlus className="mr-2 h-4 w-4" />
+                      <span>Invite People</span>
+                    </DropdownMenuItem>
+                  )}
+                  {(isAdmin || isOrgAdmin) && (
                     <>
                       <DropdownMenuSeparator />
                       <DropdownMenuItem 
@@ -652,111 +356,7 @@ const Dashboard = () => {
           animate={{ opacity: 1, y: 0 }}
           transition={{ duration: 0.6, delay: 0.4 }}
         >
-          <Card>
-            <CardHeader>
-              <div className="flex items-center justify-between">
-                <div>
-                  <CardTitle>Recent Activity</CardTitle>
-                  <CardDescription>
-                    Latest updates from your talent management system
-                  </CardDescription>
-                </div>
-                <Select value={timeframe} onValueChange={setTimeframe}>
-                  <SelectTrigger className="w-40">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="24h">Last 24 hours</SelectItem>
-                    <SelectItem value="week">Past week</SelectItem>
-                    <SelectItem value="month">Past month</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-            </CardHeader>
-            <CardContent>
-              <Tabs value={activeTab} onValueChange={setActiveTab}>
-                <TabsList className="grid w-full grid-cols-4">
-                  <TabsTrigger value="new-profiles">New Profiles</TabsTrigger>
-                  <TabsTrigger value="profile-updates">Profile Updates</TabsTrigger>
-                  <TabsTrigger value="new-opportunities">New Opportunities</TabsTrigger>
-                  <TabsTrigger value="opportunity-updates">Opportunity Updates</TabsTrigger>
-                </TabsList>
-                
-                <TabsContent value={activeTab} className="mt-6">
-                  {isLoading ? (
-                    <div className="space-y-3">
-                      {[1, 2, 3, 4].map((index) => (
-                        <div key={index} className="flex items-start space-x-3 p-3 rounded-lg border border-border animate-pulse">
-                          <div className="p-2 rounded-full bg-gray-200 w-8 h-8"></div>
-                          <div className="flex-1 min-w-0">
-                            <div className="h-4 bg-gray-200 rounded mb-2"></div>
-                            <div className="h-3 bg-gray-200 rounded mb-2 w-3/4"></div>
-                            <div className="h-3 bg-gray-200 rounded w-1/2"></div>
-                          </div>
-                        </div>
-                      ))}
-                    </div>
-                  ) : (
-                    <div className="space-y-3">
-                      {getFilteredActivities(activeTab).length === 0 ? (
-                        <div className="text-center py-8 text-muted-foreground">
-                          <Calendar className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                          <p>No activities found for the selected timeframe</p>
-                        </div>
-                      ) : (
-                        getFilteredActivities(activeTab).map((activity, index) => (
-                          <motion.div
-                            key={activity.id}
-                            initial={{ opacity: 0, x: -20 }}
-                            animate={{ opacity: 1, x: 0 }}
-                            transition={{ duration: 0.4, delay: index * 0.1 }}
-                            className="group flex items-start space-x-3 p-3 rounded-lg border border-border hover:shadow-sm transition-all duration-200 cursor-pointer hover:bg-muted/50"
-                            onClick={() => {
-                              // Navigate based on activity type
-                              if (activity.type === 'talent_created' || activity.type === 'profile_updated') {
-                                // Extract talent ID from activity ID
-                                const talentId = activity.id.replace('talent-', '').replace('update-', '');
-                                navigate(`/talent-profile/${talentId}`);
-                              } else if (activity.type === 'opportunity_created' || activity.type === 'opportunity_updated') {
-                                // Extract opportunity ID from activity ID
-                                const oppId = activity.id.replace('opp-created-', '').replace('opp-update-', '');
-                                navigate(`/opportunity/${oppId}`);
-                              }
-                            }}
-                          >
-                            <div className={`
-                              p-2 rounded-full flex-shrink-0
-                              ${activity.type === 'talent_created' ? 'bg-blue-50 text-blue-600' : ''}
-                              ${activity.type === 'opportunity_filled' ? 'bg-green-50 text-green-600' : ''}
-                              ${activity.type === 'opportunity_created' ? 'bg-blue-50 text-blue-600' : ''}
-                              ${activity.type === 'profile_updated' ? 'bg-orange-50 text-orange-600' : ''}
-                              ${activity.type === 'opportunity_updated' ? 'bg-orange-50 text-orange-600' : ''}
-                            `}>
-                              <activity.icon className="h-4 w-4" />
-                            </div>
-                            <div className="flex-1 min-w-0">
-                              <p className="text-sm font-semibold text-foreground mb-1 leading-tight hover:text-primary transition-colors">
-                                {activity.title}
-                              </p>
-                              <p className="text-sm text-muted-foreground mb-2 leading-tight">
-                                {activity.description}
-                              </p>
-                              <p className="text-xs text-muted-foreground/80 font-medium">
-                                {activity.time}
-                              </p>
-                            </div>
-                            <div className="flex-shrink-0 ml-2">
-                              <div className="w-2 h-2 rounded-full bg-muted-foreground/20 group-hover:bg-primary/60 transition-colors"></div>
-                            </div>
-                          </motion.div>
-                        ))
-                      )}
-                    </div>
-                  )}
-                </TabsContent>
-              </Tabs>
-            </CardContent>
-          </Card>
+          <ActivityFeed />
         </motion.div>
       </div>
     </div>
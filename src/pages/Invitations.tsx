@@ -0,0 +1,37 @@
+import { useNavigate } from 'react-router-dom';
+import { Send, ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import InvitationManager from '@/components/InvitationManager';
+
+// Invitations for managers, who don't have the admin dashboard
+export default function Invitations() {
+  const navigate = useNavigate();
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-5xl mx-auto">
+        <div className="mb-8">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center space-x-3">
+              <Send className="h-8 w-8 text-blue-600" />
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900">Invitations</h1>
+                <p className="text-gray-600">Invite people into your organization with a role and team</p>
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => navigate('/')}
+              className="flex items-center space-x-2"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              <span>Back to Dashboard</span>
+            </Button>
+          </div>
+        </div>
+
+        <InvitationManager />
+      </div>
+    </div>
+  );
+}
@@ -12,7 +12,10 @@ import {
   Edit, 
   Users,
   Clock,
-  User
+  User,
+  Brain,
+  Columns,
+  UserPlus
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -22,10 +25,21 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { useUserRole } from '@/hooks/useUserRole';
 import { useNavigate, useParams } from 'react-router-dom';
+import { matchService, MatchRunSummary, StoredMatch } from '@/services/matchService';
+import { embeddingService } from '@/services/embeddingService';
+import MatchHistory from '@/components/MatchHistory';
+import SkillMatchBreakdown from '@/components/SkillMatchBreakdown';
+import PipelineBoard from '@/components/PipelineBoard';
+import { pipelineService } from '@/services/pipelineService';
+import { opportunityBudgetService, OpportunityBudget } from '@/services/opportunityBudgetService';
+import TeamSelect from '@/components/TeamSelect';
 
 interface Opportunity {
   id: string;
@@ -36,8 +50,7 @@ interface Opportunity {
   remote_allowed: boolean | null;
   start_date: string | null;
   end_date: string | null;
-  budget_min: number | null;
-  budget_max: number | null;
+  team_id: string | null;
   status: 'open' | 'filled' | 'cancelled' | 'on_hold';
   created_at: string;
   created_by: string;
@@ -47,14 +60,6 @@ interface Opportunity {
   fulfilled_candidate_id: string | null;
 }
 
-interface TalentProfile {
-  id: string;
-  first_name?: string;
-  last_name?: string;
-  talent_role: string;
-  status: string;
-}
-
 interface Manager {
   id: string;
   first_name: string;
@@ -90,25 +95,30 @@ const opportunitySchema = z.object({
   budgetMin: z.number().min(0).optional(),
   budgetMax: z.number().min(0).optional(),
   status: z.enum(['open', 'filled', 'cancelled', 'on_hold']),
-  fulfillment_date: z.string().optional(),
-  selected_talent_id: z.string().optional(),
-  fulfilled_by: z.string().optional(),
 });
 
 type OpportunityFormData = z.infer<typeof opportunitySchema>;
 
 const OpportunityView = () => {
   const { user } = useAuth();
+  const { permissions } = useUserRole();
   const { toast } = useToast();
   const navigate = useNavigate();
   const { id } = useParams<{ id: string }>();
   const [opportunity, setOpportunity] = useState<Opportunity | null>(null);
-  const [availableTalents, setAvailableTalents] = useState<TalentProfile[]>([]);
+  const [budget, setBudget] = useState<OpportunityBudget | null>(null);
+  const [editTeamId, setEditTeamId] = useState<string | null>(null);
   const [managers, setManagers] = useState<Manager[]>([]);
   const [assignment, setAssignment] = useState<Assignment | null>(null);
   const [loading, setLoading] = useState(true);
   const [isEditing, setIsEditing] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [matchRuns, setMatchRuns] = useState<MatchRunSummary[]>([]);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [runMatches, setRunMatches] = useState<StoredMatch[]>([]);
+  const [isLoadingRuns, setIsLoadingRuns] = useState(false);
+  const [pipelineRefreshKey, setPipelineRefreshKey] = useState(0);
+  const canViewCompensation = permissions.includes('view_compensation');
 
   const form = useForm<OpportunityFormData>({
     resolver: zodResolver(opportunitySchema),
@@ -121,8 +131,8 @@ const OpportunityView = () => {
   useEffect(() => {
     if (id) {
       fetchOpportunity();
-      fetchAvailableTalents();
       fetchManagers();
+      fetchMatchRuns();
     }
   }, [id]);
 
@@ -139,6 +149,9 @@ const OpportunityView = () => {
       if (error) throw error;
       setOpportunity(data);
 
+      const budgets = await opportunityBudgetService.getBudgets([data.id]);
+      setBudget(budgets.get(data.id) || null);
+
       // Fetch assignment if opportunity is filled
       if (data.status === 'filled') {
         const { data: assignmentData, error: assignmentError } = await supabase
@@ -157,6 +170,8 @@ const OpportunityView = () => {
         if (!assignmentError && assignmentData) {
           setAssignment(assignmentData);
         }
+      } else {
+        setAssignment(null);
       }
     } catch (error) {
       console.error('Error fetching opportunity:', error);
@@ -170,21 +185,6 @@ const OpportunityView = () => {
     }
   };
 
-  const fetchAvailableTalents = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('talent_profiles')
-        .select('id, first_name, last_name, talent_role, status')
-        .eq('status', 'available')
-        .order('first_name');
-
-      if (error) throw error;
-      setAvailableTalents(data || []);
-    } catch (error) {
-      console.error('Error fetching talents:', error);
-    }
-  };
-
   const fetchManagers = async () => {
     try {
       const { data, error } = await supabase
@@ -200,6 +200,36 @@ const OpportunityView = () => {
     }
   };
 
+  const fetchMatchRuns = async () => {
+    if (!id) return;
+
+    setIsLoadingRuns(true);
+    try {
+      const runs = await matchService.getRunsForOpportunity(id);
+      setMatchRuns(runs);
+      if (runs.length > 0) {
+        await loadMatchRun(runs[0].runId);
+      }
+    } catch (error) {
+      console.error('Error fetching previous match runs:', error);
+    }
+    setIsLoadingRuns(false);
+  };
+
+  const loadMatchRun = async (runId: string) => {
+    try {
+      setRunMatches(await matchService.getRunMatches(runId));
+      setSelectedRunId(runId);
+    } catch (error) {
+      console.error('Error loading match run:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load previous match results",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleEdit = () => {
     if (!opportunity) return;
     
@@ -211,13 +241,11 @@ const OpportunityView = () => {
       remoteAllowed: opportunity.remote_allowed || false,
       startDate: opportunity.start_date || '',
       endDate: opportunity.end_date || '',
-      budgetMin: opportunity.budget_min || undefined,
-      budgetMax: opportunity.budget_max || undefined,
+      budgetMin: budget?.budget_min || undefined,
+      budgetMax: budget?.budget_max || undefined,
       status: opportunity.status,
-      fulfillment_date: opportunity.fulfilled_at ? new Date(opportunity.fulfilled_at).toISOString().split('T')[0] : '',
-      selected_talent_id: opportunity.fulfilled_candidate_id || '',
-      fulfilled_by: opportunity.fulfilled_by || '',
     });
+    setEditTeamId(opportunity.team_id);
     setIsEditing(true);
   };
 
@@ -226,7 +254,7 @@ const OpportunityView = () => {
     
     setIsLoading(true);
     try {
-      // Update opportunity
+      // Filling and reopening happen through the candidate pipeline's hired stage
       const updateData: any = {
         title: data.title,
         description: data.description || null,
@@ -235,92 +263,24 @@ const OpportunityView = () => {
         remote_allowed: data.remoteAllowed,
         start_date: data.startDate || null,
         end_date: data.endDate || null,
-        budget_min: data.budgetMin || null,
-        budget_max: data.budgetMax || null,
+        team_id: editTeamId,
         status: data.status,
         updated_at: new Date().toISOString()
       };
 
-      // Add fulfillment fields if status is 'filled'
-      if (data.status === 'filled' && data.selected_talent_id && data.fulfillment_date) {
-        updateData.fulfilled_by = data.fulfilled_by;
-        updateData.fulfilled_at = new Date().toISOString();
-        updateData.fulfilled_candidate_id = data.selected_talent_id;
-      } else if (data.status !== 'filled') {
-        // Clear fulfillment fields if status is not 'filled'
-        updateData.fulfilled_by = null;
-        updateData.fulfilled_at = null;
-        updateData.fulfilled_candidate_id = null;
-      }
-
       const { error: updateError } = await supabase
         .from('opportunities')
         .update(updateData)
         .eq('id', opportunity.id);
 
       if (updateError) throw updateError;
-
-      // Handle assignment changes
-      if (data.status === 'filled' && data.selected_talent_id && data.fulfillment_date) {
-        if (assignment) {
-          // Update existing assignment
-          const { error: assignmentUpdateError } = await supabase
-            .from('assignments')
-            .update({
-              talent_profile_id: data.selected_talent_id,
-              start_date: data.fulfillment_date,
-              status: 'active',
-            })
-            .eq('id', assignment.id);
-
-          if (assignmentUpdateError) throw assignmentUpdateError;
-
-          // Update previous talent status if changed
-          if (assignment.talent_profile_id !== data.selected_talent_id) {
-            await supabase
-              .from('talent_profiles')
-              .update({ status: 'available' })
-              .eq('id', assignment.talent_profile_id);
-          }
-        } else {
-          // Create new assignment
-          const { error: assignmentError } = await supabase
-            .from('assignments')
-            .insert({
-              opportunity_id: opportunity.id,
-              talent_profile_id: data.selected_talent_id,
-              start_date: data.fulfillment_date,
-              status: 'active',
-              assigned_by: user.id,
-            });
-
-          if (assignmentError) throw assignmentError;
-        }
-
-        // Update selected talent status
-        const { error: talentUpdateError } = await supabase
-          .from('talent_profiles')
-          .update({ status: 'assigned' })
-          .eq('id', data.selected_talent_id);
-
-        if (talentUpdateError) throw talentUpdateError;
-      } else if (assignment && data.status !== 'filled') {
-        // Remove assignment if status is not filled
-        const { error: deleteError } = await supabase
-          .from('assignments')
-          .delete()
-          .eq('id', assignment.id);
-
-        if (deleteError) throw deleteError;
-
-        // Update talent status back to available
-        const { error: talentUpdateError } = await supabase
-          .from('talent_profiles')
-          .update({ status: 'available' })
-          .eq('id', assignment.talent_profile_id);
-
-        if (talentUpdateError) throw talentUpdateError;
+      if (canViewCompensation) {
+        await opportunityBudgetService.saveBudget(opportunity.id, {
+          budget_min: data.budgetMin || null,
+          budget_max: data.budgetMax || null
+        });
       }
+      embeddingService.queueRefresh();
 
       toast({
         title: "Success!",
@@ -329,7 +289,6 @@ const OpportunityView = () => {
 
       setIsEditing(false);
       fetchOpportunity();
-      fetchAvailableTalents();
     } catch (error) {
       console.error('Error updating opportunity:', error);
       toast({
@@ -341,6 +300,30 @@ const OpportunityView = () => {
     setIsLoading(false);
   };
 
+  const handleAddToPipeline = async (talentProfileId: string) => {
+    if (!opportunity) return;
+
+    try {
+      const stages = await pipelineService.getStages();
+      const firstStage = stages.find(stage => !stage.outcome);
+      if (!firstStage) return;
+
+      await pipelineService.addCandidates(opportunity.id, [talentProfileId], firstStage.id, user?.id);
+      setPipelineRefreshKey(key => key + 1);
+      toast({
+        title: "Added to pipeline",
+        description: `The candidate is in the ${firstStage.label} stage.`,
+      });
+    } catch (error) {
+      console.error('Error adding candidate to pipeline:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add candidate to the pipeline",
+        variant: "destructive",
+      });
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'open': return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
@@ -484,6 +467,11 @@ const OpportunityView = () => {
                       )}
                     />
 
+                    <div className="space-y-2">
+                      <Label>Team</Label>
+                      <TeamSelect value={editTeamId} onChange={setEditTeamId} />
+                    </div>
+
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                       <FormField
                         control={form.control}
@@ -597,57 +585,59 @@ const OpportunityView = () => {
                       />
                     </div>
 
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                      <FormField
-                        control={form.control}
-                        name="budgetMin"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel className="flex items-center space-x-2">
-                              <DollarSign className="h-4 w-4" />
-                              <span>Budget Min (USD)</span>
-                            </FormLabel>
-                            <FormControl>
-                              <Input 
-                                type="number" 
-                                min="0" 
-                                step="0.01" 
-                                placeholder="0.00" 
-                                {...field} 
-                                value={field.value || ''}
-                                onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
+                    {canViewCompensation && (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <FormField
+                          control={form.control}
+                          name="budgetMin"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel className="flex items-center space-x-2">
+                                <DollarSign className="h-4 w-4" />
+                                <span>Budget Min (USD)</span>
+                              </FormLabel>
+                              <FormControl>
+                                <Input 
+                                  type="number" 
+                                  min="0" 
+                                  step="0.01" 
+                                  placeholder="0.00" 
+                                  {...field} 
+                                  value={field.value || ''}
+                                  onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
 
-                      <FormField
-                        control={form.control}
-                        name="budgetMax"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel className="flex items-center space-x-2">
-                              <DollarSign className="h-4 w-4" />
-                              <span>Budget Max (USD)</span>
-                            </FormLabel>
-                            <FormControl>
-                              <Input 
-                                type="number" 
-                                min="0" 
-                                step="0.01" 
-                                placeholder="0.00" 
-                                {...field} 
-                                value={field.value || ''}
-                                onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </div>
+                        <FormField
+                          control={form.control}
+                          name="budgetMax"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel className="flex items-center space-x-2">
+                                <DollarSign className="h-4 w-4" />
+                                <span>Budget Max (USD)</span>
+                              </FormLabel>
+                              <FormControl>
+                                <Input 
+                                  type="number" 
+                                  min="0" 
+                                  step="0.01" 
+                                  placeholder="0.00" 
+                                  {...field} 
+                                  value={field.value || ''}
+                                  onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+                    )}
 
                     <FormField
                       control={form.control}
@@ -655,7 +645,11 @@ const OpportunityView = () => {
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>Status</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <Select
+                            onValueChange={field.onChange}
+                            defaultValue={field.value}
+                            disabled={opportunity.status === 'filled'}
+                          >
                             <FormControl>
                               <SelectTrigger>
                                 <SelectValue placeholder="Select status" />
@@ -663,84 +657,23 @@ const OpportunityView = () => {
                             </FormControl>
                             <SelectContent>
                               <SelectItem value="open">Open</SelectItem>
-                              <SelectItem value="filled">Filled</SelectItem>
+                              {opportunity.status === 'filled' && (
+                                <SelectItem value="filled">Filled</SelectItem>
+                              )}
                               <SelectItem value="cancelled">Cancelled</SelectItem>
                               <SelectItem value="on_hold">On Hold</SelectItem>
                             </SelectContent>
                           </Select>
+                          <p className="text-xs text-muted-foreground">
+                            {opportunity.status === 'filled'
+                              ? 'To reopen, move the hired candidate out of the Hired stage in the pipeline.'
+                              : 'Moving a candidate to the Hired stage in the pipeline fills this opportunity.'}
+                          </p>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
 
-                    {form.watch('status') === 'filled' && (
-                      <>
-                        <FormField
-                          control={form.control}
-                          name="fulfillment_date"
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>Fulfillment Date</FormLabel>
-                              <FormControl>
-                                <Input type="date" {...field} />
-                              </FormControl>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
-
-                        <FormField
-                          control={form.control}
-                          name="selected_talent_id"
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>Selected Candidate</FormLabel>
-                              <Select onValueChange={field.onChange} defaultValue={field.value}>
-                                <FormControl>
-                                  <SelectTrigger>
-                                    <SelectValue placeholder="Select candidate" />
-                                  </SelectTrigger>
-                                </FormControl>
-                                <SelectContent>
-                                  {availableTalents.map((talent) => (
-                                    <SelectItem key={talent.id} value={talent.id}>
-                                      {talent.first_name} {talent.last_name} - {getRoleLabel(talent.talent_role)}
-                                    </SelectItem>
-                                  ))}
-                                </SelectContent>
-                              </Select>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
-
-                        <FormField
-                          control={form.control}
-                          name="fulfilled_by"
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>Fulfilled By</FormLabel>
-                              <Select onValueChange={field.onChange} defaultValue={field.value}>
-                                <FormControl>
-                                  <SelectTrigger>
-                                    <SelectValue placeholder="Select manager" />
-                                  </SelectTrigger>
-                                </FormControl>
-                                <SelectContent>
-                                  {managers.map((manager) => (
-                                    <SelectItem key={manager.id} value={manager.id}>
-                                      {manager.first_name} {manager.last_name}
-                                    </SelectItem>
-                                  ))}
-                                </SelectContent>
-                              </Select>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
-                      </>
-                    )}
-
                     <div className="flex justify-end space-x-4 pt-6">
                       <Button type="button" variant="outline" onClick={() => setIsEditing(false)}>
                         Cancel
@@ -792,15 +725,15 @@ const OpportunityView = () => {
                     </div>
 
                     <div className="space-y-4">
-                      {(opportunity.budget_min || opportunity.budget_max) && (
+                      {budget && (budget.budget_min || budget.budget_max) && (
                         <div className="flex items-center space-x-2">
                           <DollarSign className="h-4 w-4 text-muted-foreground" />
                           <span className="text-sm">
-                            {opportunity.budget_min && opportunity.budget_max
-                              ? `$${opportunity.budget_min.toLocaleString()} - $${opportunity.budget_max.toLocaleString()}`
-                              : opportunity.budget_min
-                              ? `From $${opportunity.budget_min.toLocaleString()}`
-                              : `Up to $${opportunity.budget_max?.toLocaleString()}`
+                            {budget.budget_min && budget.budget_max
+                              ? `$${budget.budget_min.toLocaleString()} - $${budget.budget_max.toLocaleString()}`
+                              : budget.budget_min
+                              ? `From $${budget.budget_min.toLocaleString()}`
+                              : `Up to $${budget.budget_max?.toLocaleString()}`
                             }
                           </span>
                         </div>
@@ -871,6 +804,86 @@ const OpportunityView = () => {
               )}
             </CardContent>
           </Card>
+
+          <Card className="max-w-6xl mx-auto mt-6">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Columns className="h-5 w-5 text-primary" />
+                <span>Candidate Pipeline</span>
+              </CardTitle>
+              <CardDescription>
+                Track candidates from sourcing to hire. Hiring a candidate assigns them and fills this opportunity.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <PipelineBoard
+                opportunityId={opportunity.id}
+                userId={user?.id}
+                refreshKey={pipelineRefreshKey}
+                onOpportunityChanged={fetchOpportunity}
+              />
+            </CardContent>
+          </Card>
+
+          <Card className="max-w-4xl mx-auto mt-6">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Brain className="h-5 w-5 text-primary" />
+                <span>Previous Match Results</span>
+              </CardTitle>
+              <CardDescription>
+                Shortlists from earlier matching runs for this opportunity
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <MatchHistory
+                runs={matchRuns}
+                selectedRunId={selectedRunId}
+                loading={isLoadingRuns}
+                onSelectRun={loadMatchRun}
+              />
+              {runMatches.length > 0 && (
+                <div className="space-y-3">
+                  {runMatches.map((match) => (
+                    <div key={match.id} className="border border-border rounded-lg p-4 flex items-start space-x-4">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center justify-between mb-2">
+                          <h4 className="font-semibold truncate">
+                            {match.talent_profiles?.first_name} {match.talent_profiles?.last_name}
+                          </h4>
+                          <span className="text-sm font-semibold">{Math.round(match.match_score || 0)}%</span>
+                        </div>
+                        <Progress value={match.match_score || 0} className="h-2 mb-2" />
+                        <p className="text-xs text-muted-foreground line-clamp-3">{match.ai_explanation}</p>
+                        {match.skill_breakdown && match.skill_breakdown.length > 0 && (
+                          <div className="mt-2">
+                            <SkillMatchBreakdown details={match.skill_breakdown} />
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex flex-col space-y-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => navigate(`/talent-profile/${match.talent_profile_id}`)}
+                        >
+                          View Profile
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleAddToPipeline(match.talent_profile_id)}
+                        >
+                          <UserPlus className="h-4 w-4 mr-2" />
+                          Add to Pipeline
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
         </motion.div>
       </div>
     </div>
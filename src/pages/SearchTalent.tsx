@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Search, Filter, User, MapPin, Clock, DollarSign, ExternalLink } from 'lucide-react';
+import { Search, Filter, User, MapPin, Clock, DollarSign, ExternalLink, Sparkles } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { ArrowLeft } from 'lucide-react';
 import { Button } from '@/components/ui/button';
@@ -8,8 +8,13 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import { supabase } from '@/integrations/supabase/client';
+import { embeddingService, SemanticTalentMatch } from '@/services/embeddingService';
+import { currentUtilization } from '@/services/capacityService';
 import { useNavigate } from 'react-router-dom';
+import { useUserRole } from '@/hooks/useUserRole';
 
 import type { Database } from '@/integrations/supabase/types';
 
@@ -39,21 +44,42 @@ interface TalentProfile {
 const SearchTalent = () => {
   console.log('🎯 SearchTalent component rendered!');
   const navigate = useNavigate();
+  const { permissions } = useUserRole();
   const [searchTerm, setSearchTerm] = useState('');
   const [roleFilter, setRoleFilter] = useState<TalentRole | ''>('');
   const [locationFilter, setLocationFilter] = useState('');
   const [talents, setTalents] = useState<TalentProfile[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [semanticSearch, setSemanticSearch] = useState(false);
+  const [similarityById, setSimilarityById] = useState<Record<string, number>>({});
 
   useEffect(() => {
     console.log('🚀 useEffect triggered - calling fetchTalents');
-    fetchTalents();
-  }, [searchTerm, roleFilter, locationFilter]);
+    // Semantic queries embed the search text, so wait for typing to pause
+    const timeoutId = setTimeout(fetchTalents, semanticSearch && searchTerm ? 400 : 0);
+    return () => clearTimeout(timeoutId);
+  }, [searchTerm, roleFilter, locationFilter, semanticSearch]);
 
   const fetchTalents = async () => {
     console.log('🔍 fetchTalents function called!');
     setIsLoading(true);
     try {
+      let semanticMatches: SemanticTalentMatch[] | null = null;
+      if (semanticSearch && searchTerm.trim()) {
+        try {
+          semanticMatches = await embeddingService.searchTalents(searchTerm.trim());
+        } catch (error) {
+          console.error('Semantic search failed, falling back to keyword search:', error);
+        }
+      }
+      setSimilarityById(Object.fromEntries((semanticMatches || []).map(match => [match.talentId, match.similarity])));
+
+      if (semanticMatches && semanticMatches.length === 0) {
+        setTalents([]);
+        setIsLoading(false);
+        return;
+      }
+
       let query = supabase
         .from('talent_profiles')
         .select(`
@@ -72,9 +98,13 @@ const SearchTalent = () => {
           portfolio_url,
           email,
           employee_projects (
-            utilization_percentage
+            project_name,
+            utilization_percentage,
+            start_date,
+            release_date
           )
-        `);
+        `)
+        .eq('review_status', 'approved');
 
       if (roleFilter) {
         query = query.eq('talent_role', roleFilter);
@@ -84,7 +114,9 @@ const SearchTalent = () => {
         query = query.ilike('location', `%${locationFilter}%`);
       }
 
-      if (searchTerm) {
+      if (semanticMatches) {
+        query = query.in('id', semanticMatches.map(match => match.talentId));
+      } else if (searchTerm) {
         query = query.or(`bio.ilike.%${searchTerm}%,email.ilike.%${searchTerm}%`);
       }
 
@@ -113,11 +145,17 @@ const SearchTalent = () => {
           if (talent.talent_type === 'prospect') {
             return talent.prospect_status === 'available' || !talent.prospect_status;
           } else {
-            const totalUtilization = talent.employee_projects?.reduce((sum: number, project: any) => sum + (project.utilization_percentage || 0), 0) || 0;
+            const totalUtilization = currentUtilization(talent.employee_projects);
             return totalUtilization < 100;
           }
         });
 
+        // Closest meaning first in semantic mode
+        if (semanticMatches) {
+          const rank = new Map(semanticMatches.map((match, index) => [match.talentId, index]));
+          availableTalents.sort((a, b) => (rank.get(a.id) ?? 0) - (rank.get(b.id) ?? 0));
+        }
+
         console.log('Combined data:', availableTalents);
         setTalents(availableTalents);
       }
@@ -164,7 +202,7 @@ const SearchTalent = () => {
                   <div className="relative">
                     <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                     <Input
-                      placeholder="Search by name, skills, or bio..."
+                      placeholder={semanticSearch ? 'Describe who you need, e.g. "backend dev who has scaled payment systems"' : 'Search by name, skills, or bio...'}
                       value={searchTerm}
                       onChange={(e) => setSearchTerm(e.target.value)}
                       className="pl-10"
@@ -192,6 +230,16 @@ const SearchTalent = () => {
                   onChange={(e) => setLocationFilter(e.target.value)}
                 />
               </div>
+              <div className="flex items-center space-x-2 mt-4">
+                <Switch id="semantic-search" checked={semanticSearch} onCheckedChange={setSemanticSearch} />
+                <Label htmlFor="semantic-search" className="flex items-center space-x-1 text-sm">
+                  <Sparkles className="h-4 w-4 text-primary" />
+                  <span>Semantic search</span>
+                </Label>
+                <span className="text-xs text-muted-foreground">
+                  Matches meaning across bio, work experience and skills instead of exact words
+                </span>
+              </div>
             </CardContent>
           </Card>
 
@@ -242,9 +290,16 @@ const SearchTalent = () => {
                           <h3 className="text-lg font-semibold text-foreground">
                             {talent.profiles?.first_name} {talent.profiles?.last_name}
                           </h3>
-                          <Badge variant="secondary" className="capitalize">
-                            {talent.talent_role.replace('_', ' ')}
-                          </Badge>
+                          <div className="flex items-center gap-2">
+                            <Badge variant="secondary" className="capitalize">
+                              {talent.talent_role.replace('_', ' ')}
+                            </Badge>
+                            {similarityById[talent.id] !== undefined && (
+                              <Badge variant="outline" className="text-xs">
+                                {Math.round(similarityById[talent.id] * 100)}% match
+                              </Badge>
+                            )}
+                          </div>
                         </div>
                       </div>
 
@@ -265,7 +320,7 @@ const SearchTalent = () => {
                           <span>{talent.years_experience} years experience</span>
                         </div>
 
-                        {talent.hourly_rate && (
+                        {talent.hourly_rate && permissions.includes('view_compensation') && (
                           <div className="flex items-center space-x-2 text-sm text-muted-foreground">
                             <DollarSign className="h-4 w-4" />
                             <span>${talent.hourly_rate}/hour</span>
@@ -281,7 +336,7 @@ const SearchTalent = () => {
                           <Badge variant="outline" className="text-xs capitalize">
                             {talent.talent_type === 'prospect' 
                               ? (talent.prospect_status || 'available')
-                              : (talent.employee_projects?.reduce((sum: number, project: any) => sum + (project.utilization_percentage || 0), 0) >= 100 ? 'occupied' : 'available')
+                              : (currentUtilization(talent.employee_projects) >= 100 ? 'occupied' : 'available')
                             }
                           </Badge>
                         </div>
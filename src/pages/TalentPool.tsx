@@ -14,6 +14,12 @@ import { Progress } from '@/components/ui/progress';
 import { supabase } from '@/integrations/supabase/client';
 import { useNavigate } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
+import TeamCapacityHeatmap from '@/components/TeamCapacityHeatmap';
+import { Allocation, currentUtilization } from '@/services/capacityService';
+import { opportunityBudgetService, OpportunityBudget } from '@/services/opportunityBudgetService';
+import { useUserRole } from '@/hooks/useUserRole';
+import ExportMenu from '@/components/ExportMenu';
+import { exportService, datedFileName, ExportColumn, ExportFormat } from '@/services/exportService';
 
 interface TalentProfile {
   id: string;
@@ -21,6 +27,9 @@ interface TalentProfile {
   years_experience?: number;
   hourly_rate?: number;
   bio?: string;
+  education?: string | null;
+  work_experience?: string | null;
+  certifications?: string | null;
   location?: string;
   remote_preference?: boolean;
   email?: string;
@@ -37,6 +46,7 @@ interface TalentProfile {
     project_name: string;
     reporting_manager: string;
     utilization_percentage: number;
+    start_date?: string | null;
     release_date?: string | null;
   }>;
   profiles?: {
@@ -60,8 +70,6 @@ interface Opportunity {
   remote_allowed: boolean | null;
   start_date: string | null;
   end_date: string | null;
-  budget_min: number | null;
-  budget_max: number | null;
   status: 'open' | 'filled' | 'cancelled' | 'on_hold';
   created_at: string;
   created_by: string;
@@ -84,14 +92,17 @@ interface Assignment {
 }
 
 
-const OpportunitiesTab = ({ opportunityFilters, setOpportunityFilters, setIsOpportunityFilterDialogOpen, onDeleteClick, refreshOpportunities }: { opportunityFilters: any, setOpportunityFilters: any, setIsOpportunityFilterDialogOpen: any, onDeleteClick: (id: string, type: 'talent' | 'opportunity', name: string) => void, refreshOpportunities: () => Promise<void> }) => {
+const OpportunitiesTab = ({ opportunityFilters, setOpportunityFilters, setIsOpportunityFilterDialogOpen, onDeleteClick, refreshOpportunities, canDelete }: { opportunityFilters: any, setOpportunityFilters: any, setIsOpportunityFilterDialogOpen: any, onDeleteClick: (id: string, type: 'talent' | 'opportunity', name: string) => void, refreshOpportunities: () => Promise<void>, canDelete: boolean }) => {
   const { toast } = useToast();
   const navigate = useNavigate();
   const [opportunities, setOpportunities] = useState<Opportunity[]>([]);
+  const [budgets, setBudgets] = useState<Map<string, OpportunityBudget>>(new Map());
   const [availableTalents, setAvailableTalents] = useState<TalentProfile[]>([]);
   const [loading, setLoading] = useState(true);
   const [activeSubTab, setActiveSubTab] = useState('all');
   const [searchQuery, setSearchQuery] = useState('');
+  const { permissions } = useUserRole();
+  const canViewCompensation = permissions.includes('view_compensation');
 
   useEffect(() => {
     fetchOpportunities();
@@ -130,6 +141,7 @@ const OpportunitiesTab = ({ opportunityFilters, setOpportunityFilters, setIsOppo
 
       if (error) throw error;
       setOpportunities(data || []);
+      setBudgets(await opportunityBudgetService.getBudgets((data || []).map(opportunity => opportunity.id)));
     } catch (error) {
       console.error('Error fetching opportunities:', error);
       toast({
@@ -142,11 +154,23 @@ const OpportunitiesTab = ({ opportunityFilters, setOpportunityFilters, setIsOppo
     }
   };
 
+  // Budgets are only loaded for users with view_compensation, so a missing one shows nothing
+  const formatBudget = (budget?: OpportunityBudget) => {
+    if (!budget || (!budget.budget_min && !budget.budget_max)) return null;
+    if (budget.budget_min && budget.budget_max) {
+      return `$${budget.budget_min.toLocaleString()} - $${budget.budget_max.toLocaleString()}`;
+    }
+    return budget.budget_min
+      ? `From $${budget.budget_min.toLocaleString()}`
+      : `Up to $${budget.budget_max?.toLocaleString()}`;
+  };
+
   const fetchAvailableTalents = async () => {
     try {
       const { data, error } = await supabase
         .from('talent_profiles')
         .select('id, first_name, last_name, talent_role, status')
+        .eq('review_status', 'approved')
         .eq('status', 'available')
         .order('first_name');
 
@@ -188,6 +212,53 @@ const OpportunitiesTab = ({ opportunityFilters, setOpportunityFilters, setIsOppo
     }
   };
 
+  const filteredOpportunities = opportunities.filter(opportunity => {
+    // Search filtering
+    const matchesSearch = !searchQuery || 
+      opportunity.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      opportunity.required_role.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      (opportunity.location && opportunity.location.toLowerCase().includes(searchQuery.toLowerCase()));
+    
+    // Sub tab filtering
+    let matchesSubTab = true;
+    if (activeSubTab === 'active') {
+      matchesSubTab = opportunity.status === 'open';
+    } else if (activeSubTab === 'inactive') {
+      matchesSubTab = opportunity.status !== 'open';
+    }
+
+    // Advanced filters
+    const matchesStatus = opportunityFilters.status === 'all' || opportunity.status === opportunityFilters.status;
+    const matchesRole = opportunityFilters.role === 'all' || opportunity.required_role === opportunityFilters.role;
+    const matchesLocation = opportunityFilters.location === 'all' || 
+      (opportunity.location && opportunity.location.toLowerCase().includes(opportunityFilters.location.toLowerCase()));
+    const matchesStartDate = !opportunityFilters.startDate || 
+      (opportunity.start_date && new Date(opportunity.start_date) >= new Date(opportunityFilters.startDate));
+    
+    return matchesSearch && matchesSubTab && matchesStatus && matchesRole && matchesLocation && matchesStartDate;
+  });
+
+  const opportunityColumns: ExportColumn<Opportunity>[] = [
+    { header: 'Title', value: opportunity => opportunity.title },
+    { header: 'Required Role', value: opportunity => opportunity.required_role },
+    { header: 'Status', value: opportunity => opportunity.status },
+    { header: 'Location', value: opportunity => opportunity.location },
+    { header: 'Remote Allowed', value: opportunity => opportunity.remote_allowed },
+    { header: 'Start Date', value: opportunity => opportunity.start_date },
+    { header: 'End Date', value: opportunity => opportunity.end_date },
+    ...(canViewCompensation ? [
+      { header: 'Budget Min (USD)', value: (opportunity: Opportunity) => budgets.get(opportunity.id)?.budget_min },
+      { header: 'Budget Max (USD)', value: (opportunity: Opportunity) => budgets.get(opportunity.id)?.budget_max }
+    ] : []),
+    { header: 'Description', value: opportunity => opportunity.description },
+    { header: 'Created', value: opportunity => opportunity.created_at.slice(0, 10) }
+  ];
+
+  const handleExport = (format: ExportFormat) => {
+    if (format === 'pdf') return;
+    exportService.exportTable(filteredOpportunities, opportunityColumns, datedFileName('opportunities'), format, 'Opportunities');
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -250,6 +321,7 @@ const OpportunitiesTab = ({ opportunityFilters, setOpportunityFilters, setIsOppo
             <Filter className="h-4 w-4 mr-2" />
             Filters
           </Button>
+          <ExportMenu onExport={handleExport} count={filteredOpportunities.length} />
           <Button onClick={() => navigate('/create-opportunity')} size="sm">
             <Plus className="h-4 w-4 mr-2" />
             Create Opportunity
@@ -259,31 +331,7 @@ const OpportunitiesTab = ({ opportunityFilters, setOpportunityFilters, setIsOppo
 
       {/* Opportunities Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {opportunities.filter(opportunity => {
-          // Search filtering
-          const matchesSearch = !searchQuery || 
-            opportunity.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-            opportunity.required_role.toLowerCase().includes(searchQuery.toLowerCase()) ||
-            (opportunity.location && opportunity.location.toLowerCase().includes(searchQuery.toLowerCase()));
-          
-          // Sub tab filtering
-          let matchesSubTab = true;
-          if (activeSubTab === 'active') {
-            matchesSubTab = opportunity.status === 'open';
-          } else if (activeSubTab === 'inactive') {
-            matchesSubTab = opportunity.status !== 'open';
-          }
-
-          // Advanced filters
-          const matchesStatus = opportunityFilters.status === 'all' || opportunity.status === opportunityFilters.status;
-          const matchesRole = opportunityFilters.role === 'all' || opportunity.required_role === opportunityFilters.role;
-          const matchesLocation = opportunityFilters.location === 'all' || 
-            (opportunity.location && opportunity.location.toLowerCase().includes(opportunityFilters.location.toLowerCase()));
-          const matchesStartDate = !opportunityFilters.startDate || 
-            (opportunity.start_date && new Date(opportunity.start_date) >= new Date(opportunityFilters.startDate));
-          
-          return matchesSearch && matchesSubTab && matchesStatus && matchesRole && matchesLocation && matchesStartDate;
-        }).map((opportunity, index) => (
+        {filteredOpportunities.map((opportunity, index) => (
           <motion.div
             key={opportunity.id}
             initial={{ opacity: 0, y: 20 }}
@@ -310,18 +358,20 @@ const OpportunitiesTab = ({ opportunityFilters, setOpportunityFilters, setIsOppo
                     </div>
                   </div>
                 </div>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  className="h-8 w-8 p-0 text-red-500 hover:text-red-700 hover:bg-red-50"
-                  onClick={(e) => {
-                    console.log('Opportunity delete button clicked for:', opportunity.id);
-                    e.stopPropagation();
-                    handleOpportunityDelete(opportunity.id, 'opportunity', opportunity.title);
-                  }}
-                >
-                  <Trash2 className="h-4 w-4" />
-                </Button>
+                {canDelete && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 text-red-500 hover:text-red-700 hover:bg-red-50"
+                    onClick={(e) => {
+                      console.log('Opportunity delete button clicked for:', opportunity.id);
+                      e.stopPropagation();
+                      handleOpportunityDelete(opportunity.id, 'opportunity', opportunity.title);
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
               </div>
 
               <div className="space-y-3 flex-grow">
@@ -349,17 +399,10 @@ const OpportunitiesTab = ({ opportunityFilters, setOpportunityFilters, setIsOppo
                     </div>
                   )}
 
-                  {(opportunity.budget_min || opportunity.budget_max) && (
+                  {formatBudget(budgets.get(opportunity.id)) && (
                     <div className="flex items-center space-x-2 text-sm text-muted-foreground">
                       <DollarSign className="h-4 w-4" />
-                      <span>
-                        {opportunity.budget_min && opportunity.budget_max
-                          ? `$${opportunity.budget_min.toLocaleString()} - $${opportunity.budget_max.toLocaleString()}`
-                          : opportunity.budget_min
-                          ? `From $${opportunity.budget_min.toLocaleString()}`
-                          : `Up to $${opportunity.budget_max?.toLocaleString()}`
-                        }
-                      </span>
+                      <span>{formatBudget(budgets.get(opportunity.id))}</span>
                     </div>
                   )}
                 </div>
@@ -445,6 +488,8 @@ const TalentPool = () => {
   const [flippedCards, setFlippedCards] = useState<Set<string>>(new Set());
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [itemToDelete, setItemToDelete] = useState<{id: string, type: 'talent' | 'opportunity', name: string} | null>(null);
+  const { permissions } = useUserRole();
+  const canDelete = permissions.includes('delete_records');
 
   useEffect(() => {
     fetchTalents();
@@ -603,6 +648,7 @@ const TalentPool = () => {
       const { data: talentData, error: talentError } = await supabase
         .from('talent_profiles')
         .select('*')
+        .eq('review_status', 'approved')
         .order('created_at', { ascending: false });
 
       console.log('Raw talent data from TalentPool:', talentData);
@@ -627,7 +673,7 @@ const TalentPool = () => {
           if (talent.talent_type === 'existing') {
             const { data: projectsData, error: projectsError } = await supabase
               .from('employee_projects')
-              .select('id, project_name, reporting_manager, utilization_percentage, release_date')
+              .select('id, project_name, reporting_manager, utilization_percentage, start_date, release_date')
               .eq('talent_profile_id', talent.id)
               .order('created_at', { ascending: false });
             
@@ -662,7 +708,8 @@ const TalentPool = () => {
       // Get talent counts by type and prospect status
       const { data: talentStats, error: talentError } = await supabase
         .from('talent_profiles')
-        .select('id, talent_type, prospect_status');
+        .select('id, talent_type, prospect_status')
+        .eq('review_status', 'approved');
       
       // Get opportunities count
       const { data: opportunities, error: oppsError } = await supabase
@@ -671,6 +718,7 @@ const TalentPool = () => {
         .eq('status', 'open');
 
       // Get employees with release dates in next 30 days
+      const today = new Date();
       const thirtyDaysFromNow = new Date();
       thirtyDaysFromNow.setDate(thirtyDaysFromNow.getDate() + 30);
       
@@ -685,6 +733,7 @@ const TalentPool = () => {
           )
         `)
         .not('release_date', 'is', null)
+        .gte('release_date', today.toISOString().split('T')[0])
         .lte('release_date', thirtyDaysFromNow.toISOString().split('T')[0])
         .eq('talent_profiles.talent_type', 'existing');
 
@@ -698,24 +747,23 @@ const TalentPool = () => {
       // First, get utilization data for existing employees
       const { data: existingUtilizationData, error: existingUtilError } = await supabase
         .from('employee_projects')
-        .select('talent_profile_id, utilization_percentage');
+        .select('talent_profile_id, project_name, utilization_percentage, start_date, release_date');
       
       if (existingUtilError) throw existingUtilError;
       
-      // Group utilization by talent_profile_id
-      const utilizationByTalent = (existingUtilizationData || []).reduce((acc, project) => {
+      // Group allocations by talent_profile_id
+      const allocationsByTalent = (existingUtilizationData || []).reduce((acc, project) => {
         if (!acc[project.talent_profile_id]) {
-          acc[project.talent_profile_id] = 0;
+          acc[project.talent_profile_id] = [];
         }
-        acc[project.talent_profile_id] += project.utilization_percentage || 0;
+        acc[project.talent_profile_id].push(project);
         return acc;
-      }, {} as Record<string, number>);
+      }, {} as Record<string, Allocation[]>);
       
-      // Count existing employees with utilization < 100%
+      // Count existing employees with utilization < 100% today
       const availableExisting = talentStats?.filter(t => {
         if (t.talent_type !== 'existing') return false;
-        const totalUtilization = utilizationByTalent[t.id] || 0;
-        return totalUtilization < 100;
+        return currentUtilization(allocationsByTalent[t.id]) < 100;
       }).length || 0;
       
       const available = availableExisting + availableProspects;
@@ -725,16 +773,17 @@ const TalentPool = () => {
       // Count unique employees (not projects) rolling off
       const uniqueRollingOffEmployees = new Set(rollingOffData?.map(item => item.talent_profiles.id) || []).size;
       
-      // Calculate actual utilization from employee projects
+      // Calculate actual utilization from the employee projects running today
       const { data: utilizationData, error: utilError } = await supabase
         .from('employee_projects')
-        .select('utilization_percentage, talent_profiles!inner(talent_type)')
+        .select('project_name, utilization_percentage, start_date, release_date, talent_profiles!inner(talent_type)')
         .eq('talent_profiles.talent_type', 'existing');
 
+      const activeProjects = (utilizationData || []).filter(project => currentUtilization([project]) > 0);
       let actualUtilization = 0;
-      if (utilizationData && utilizationData.length > 0) {
-        const totalUtilization = utilizationData.reduce((sum, project) => sum + (project.utilization_percentage || 0), 0);
-        actualUtilization = Math.round(totalUtilization / utilizationData.length);
+      if (activeProjects.length > 0) {
+        const totalUtilization = activeProjects.reduce((sum, project) => sum + (project.utilization_percentage || 0), 0);
+        actualUtilization = Math.round(totalUtilization / activeProjects.length);
       }
       
       setStats({
@@ -761,9 +810,13 @@ const TalentPool = () => {
           skills, 
           prospect_status,
           employee_projects (
-            utilization_percentage
+            project_name,
+            utilization_percentage,
+            start_date,
+            release_date
           )
-        `);
+        `)
+        .eq('review_status', 'approved');
 
       // Fetch opportunity analytics
       const { data: opportunityData, error: oppError } = await supabase
@@ -779,9 +832,9 @@ const TalentPool = () => {
         return acc;
       }, {} as Record<string, number>) || {};
 
-      // Helper function to calculate total utilization
-      const getTotalUtilizationFromData = (projects: any[] = []) => {
-        return Math.min(projects.reduce((total, project) => total + (project.utilization_percentage || 0), 0), 100);
+      // Helper function to calculate total utilization from the projects running today
+      const getTotalUtilizationFromData = (projects: Allocation[] = []) => {
+        return currentUtilization(projects);
       };
 
       // Process talent by status using new logic
@@ -938,8 +991,8 @@ const TalentPool = () => {
     }
   };
 
-  const getTotalUtilization = (projects: Array<{utilization_percentage: number}> = []) => {
-    return Math.min(projects.reduce((total, project) => total + project.utilization_percentage, 0), 100);
+  const getTotalUtilization = (projects: Allocation[] = []) => {
+    return currentUtilization(projects);
   };
 
   const toggleCardFlip = (cardId: string) => {
@@ -1090,6 +1143,58 @@ const TalentPool = () => {
            matchesFilterTalentType && matchesFilterStatus && matchesFilterRole && matchesFilterLocation;
   });
 
+  // Catalog skills with their level, falling back to the free-text list on older profiles
+  const getSkillLabels = (talent: TalentProfile) => talent.talent_skills && talent.talent_skills.length > 0
+    ? talent.talent_skills.map(skill => skill.proficiency_level ? `${skill.skills.name} (${skill.proficiency_level}/5)` : skill.skills.name)
+    : talent.skills || [];
+
+  const getTalentStatusLabel = (talent: TalentProfile) => talent.talent_type === 'prospect'
+    ? getProspectStatusLabel(talent.prospect_status || 'available')
+    : `${getTotalUtilization(talent.employee_projects)}% allocated`;
+
+  const getProjectLabels = (talent: TalentProfile) => (talent.employee_projects || []).map(project =>
+    `${project.project_name} (${project.utilization_percentage}%, ${project.reporting_manager})`);
+
+  const talentColumns: ExportColumn<TalentProfile>[] = [
+    { header: 'First Name', value: talent => talent.profiles?.first_name },
+    { header: 'Last Name', value: talent => talent.profiles?.last_name },
+    { header: 'Email', value: talent => talent.email },
+    { header: 'Role', value: talent => talent.talent_role },
+    { header: 'Type', value: talent => talent.talent_type },
+    { header: 'Status', value: talent => getTalentStatusLabel(talent) },
+    { header: 'Years Experience', value: talent => talent.years_experience },
+    { header: 'Location', value: talent => talent.location },
+    { header: 'Remote', value: talent => talent.remote_preference },
+    { header: 'Available From', value: talent => talent.availability_start_date },
+    { header: 'Skills', value: talent => getSkillLabels(talent).join(', ') },
+    { header: 'Projects', value: talent => getProjectLabels(talent).join('; ') },
+    { header: 'Source', value: talent => talent.source }
+  ];
+
+  const handleTalentExport = (format: ExportFormat) => {
+    const fileName = datedFileName('talent_pool');
+    if (format !== 'pdf') {
+      exportService.exportTable(filteredTalents, talentColumns, fileName, format, 'Talent');
+      return;
+    }
+    exportService.downloadCandidatePack(filteredTalents.map(talent => ({
+      name: `${talent.profiles?.first_name || ''} ${talent.profiles?.last_name || ''}`.trim() || talent.email || 'Unnamed talent',
+      email: talent.email,
+      headline: [
+        getRoleLabel(talent.talent_role),
+        talent.years_experience ? `${talent.years_experience} years` : '',
+        talent.location || ''
+      ].filter(Boolean),
+      status: `${talent.talent_type === 'prospect' ? 'Prospect' : 'Employee'} · ${getTalentStatusLabel(talent)}`,
+      skills: getSkillLabels(talent),
+      bio: talent.bio,
+      workExperience: talent.work_experience,
+      education: talent.education,
+      certifications: talent.certifications,
+      projects: getProjectLabels(talent)
+    })), 'Talent pool', fileName);
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-background to-muted/50 p-6">
@@ -1245,6 +1350,11 @@ const TalentPool = () => {
                   <Filter className="h-4 w-4 mr-2" />
                   Filters
                 </Button>
+                <ExportMenu
+                  onExport={handleTalentExport}
+                  formats={['csv', 'xlsx', 'pdf']}
+                  count={filteredTalents.length}
+                />
                 <Button onClick={() => navigate('/add-talent')} size="sm">
                   <Plus className="h-4 w-4 mr-2" />
                   Add Talent
@@ -1344,22 +1454,24 @@ const TalentPool = () => {
                         </div>
                       </div>
                       <div className="flex-shrink-0 flex items-center space-x-2">
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className="h-8 w-8 p-0 text-red-500 hover:text-red-700 hover:bg-red-50"
-                          onClick={(e) => {
-                            console.log('Talent delete button clicked for:', talent.id);
-                            e.stopPropagation();
-                            handleDeleteClick(
-                              talent.id, 
-                              'talent', 
-                              `${talent.profiles.first_name || 'Unknown'} ${talent.profiles.last_name || 'User'}`
-                            );
-                          }}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
+                        {canDelete && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0 text-red-500 hover:text-red-700 hover:bg-red-50"
+                            onClick={(e) => {
+                              console.log('Talent delete button clicked for:', talent.id);
+                              e.stopPropagation();
+                              handleDeleteClick(
+                                talent.id, 
+                                'talent', 
+                                `${talent.profiles.first_name || 'Unknown'} ${talent.profiles.last_name || 'User'}`
+                              );
+                            }}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
                     </div>
 
@@ -1400,7 +1512,7 @@ const TalentPool = () => {
                             className="w-full bg-muted rounded-full h-2 cursor-pointer group relative"
                             title={talent.employee_projects?.length ? 
                               talent.employee_projects.map(project => 
-                                `${project.project_name} (${project.utilization_percentage}%) - ${project.reporting_manager}${project.release_date ? ` - Release: ${new Date(project.release_date).toLocaleDateString()}` : ''}`
+                                `${project.project_name} (${project.utilization_percentage}%) - ${project.reporting_manager}${project.start_date ? ` - Start: ${new Date(project.start_date).toLocaleDateString()}` : ''}${project.release_date ? ` - Release: ${new Date(project.release_date).toLocaleDateString()}` : ''}`
                               ).join('\n') : 
                               'No projects assigned'
                             }
@@ -1416,6 +1528,11 @@ const TalentPool = () => {
                                 {talent.employee_projects.map((project, idx) => (
                                   <div key={idx} className="mb-1 last:mb-0">
                                     {project.project_name} ({project.utilization_percentage}%) - {project.reporting_manager}
+                                    {project.start_date && (
+                                      <div className="text-xs text-gray-400 mt-1">
+                                        Start: {new Date(project.start_date).toLocaleDateString()}
+                                      </div>
+                                    )}
                                     {project.release_date && (
                                       <div className="text-xs text-gray-400 mt-1">
                                         Release: {new Date(project.release_date).toLocaleDateString()}
@@ -1424,7 +1541,7 @@ const TalentPool = () => {
                                   </div>
                                 ))}
                                 <div className="border-t border-gray-700 mt-1 pt-1 font-semibold">
-                                  Total: {getTotalUtilization(talent.employee_projects)}%
+                                  Total today: {getTotalUtilization(talent.employee_projects)}%
                                 </div>
                               </div>
                             ) : null}
@@ -1488,6 +1605,7 @@ const TalentPool = () => {
               setIsOpportunityFilterDialogOpen={setIsOpportunityFilterDialogOpen}
               onDeleteClick={handleDeleteClick}
               refreshOpportunities={fetchStats}
+              canDelete={canDelete}
             />
           </TabsContent>
 
@@ -1822,6 +1940,28 @@ const TalentPool = () => {
                 </div>
               </div>
             </div>
+
+            {/* Team Capacity Heatmap */}
+            <Card className="p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <h3 className="text-lg font-semibold">Team Capacity</h3>
+                  <p className="text-sm text-muted-foreground">Booked percentage per employee for the next 12 weeks</p>
+                </div>
+                <Calendar className="h-5 w-5 text-muted-foreground" />
+              </div>
+              <TeamCapacityHeatmap
+                talents={talents
+                  .filter(talent => talent.talent_type === 'existing')
+                  .map(talent => ({
+                    id: talent.id,
+                    name: `${talent.first_name || ''} ${talent.last_name || ''}`.trim() || talent.email || 'Unknown',
+                    role: talent.talent_role,
+                    allocations: talent.employee_projects || []
+                  }))}
+                onSelectTalent={(talentId) => navigate(`/talent-profile/${talentId}`)}
+              />
+            </Card>
           </TabsContent>
         </Tabs>
 
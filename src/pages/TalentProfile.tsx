@@ -9,9 +9,17 @@ import { Separator } from "@/components/ui/separator";
 import { ArrowLeft, Mail, MapPin, Calendar, DollarSign, ExternalLink, Clock, User, Edit } from 'lucide-react';
 import { Skeleton } from "@/components/ui/skeleton";
 import { toast } from "@/hooks/use-toast";
+import CapacityTimeline from "@/components/CapacityTimeline";
+import TalentVersionHistory from "@/components/TalentVersionHistory";
+import TalentResumes from "@/components/TalentResumes";
+import { useUserRole } from "@/hooks/useUserRole";
+import { useAuth } from "@/hooks/useAuth";
+import { Allocation, currentUtilization, getAllocations } from "@/services/capacityService";
 
 interface TalentProfile {
   id: string;
+  first_name: string | null;
+  last_name: string | null;
   talent_role: string;
   status: string;
   years_experience: number;
@@ -30,6 +38,9 @@ interface TalentProfile {
   resume_url: string | null;
   email: string;
   avatar_url: string | null;
+  talent_type: string;
+  prospect_status: string | null;
+  review_status: string;
   profiles?: {
     first_name: string;
     last_name: string;
@@ -43,13 +54,20 @@ interface TalentProfile {
       category: string;
     };
   }>;
+  employee_projects?: Array<Allocation & {
+    reporting_manager: string;
+  }>;
 }
 
 export default function TalentProfile() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const { isAdmin, isOrgAdmin, isManager, permissions } = useUserRole();
+  const { user } = useAuth();
   const [talent, setTalent] = useState<TalentProfile | null>(null);
   const [loading, setLoading] = useState(true);
+  // Bumped when the profile changes on this page so the change history reloads
+  const [historyKey, setHistoryKey] = useState(0);
 
   useEffect(() => {
     if (!id) {
@@ -69,6 +87,13 @@ export default function TalentProfile() {
             proficiency_level,
             years_experience,
             skills(name, category)
+          ),
+          employee_projects(
+            project_name,
+            reporting_manager,
+            utilization_percentage,
+            start_date,
+            release_date
           )
         `)
         .eq('id', id)
@@ -107,7 +132,7 @@ export default function TalentProfile() {
       }
     } else {
       // For existing employees, determine status based on utilization
-      const totalUtilization = talent.employee_projects?.reduce((sum: number, project: any) => sum + (project.utilization_percentage || 0), 0) || 0;
+      const totalUtilization = currentUtilization(talent.employee_projects);
       if (totalUtilization >= 100) {
         return 'bg-red-500/10 text-red-700 border-red-500/20';
       } else {
@@ -143,7 +168,7 @@ export default function TalentProfile() {
         default: return status.charAt(0).toUpperCase() + status.slice(1);
       }
     } else {
-      const totalUtilization = talent.employee_projects?.reduce((sum: number, project: any) => sum + (project.utilization_percentage || 0), 0) || 0;
+      const totalUtilization = currentUtilization(talent.employee_projects);
       return totalUtilization >= 100 ? 'Occupied' : 'Available';
     }
   };
@@ -237,6 +262,11 @@ export default function TalentProfile() {
                         <Badge className={getStatusColor(talent)}>
                           {formatStatus(talent)}
                         </Badge>
+                        {talent.review_status === 'draft' && (
+                          <Badge variant="outline" className="border-amber-300 text-amber-700">
+                            Draft · awaiting review
+                          </Badge>
+                        )}
                       </div>
                     </div>
                     <div className="flex items-center gap-4 text-sm text-muted-foreground">
@@ -305,6 +335,35 @@ export default function TalentProfile() {
               </Card>
             )}
 
+            {/* Resume */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Resume</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <TalentResumes
+                  talentProfileId={talent.id}
+                  profile={talent}
+                  canUpload={permissions.includes('edit_talent') || user?.email?.toLowerCase() === talent.email.toLowerCase()}
+                  canManage={permissions.includes('edit_talent')}
+                  onProfileUpdated={() => {
+                    fetchTalentProfile();
+                    setHistoryKey(key => key + 1);
+                  }}
+                />
+              </CardContent>
+            </Card>
+
+            {/* Capacity Timeline */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Capacity</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <CapacityTimeline allocations={getAllocations(talent)} />
+              </CardContent>
+            </Card>
+
             {/* Skills Card */}
             {talent.talent_skills.length > 0 && (
               <Card>
@@ -331,6 +390,21 @@ export default function TalentProfile() {
                 </CardContent>
               </Card>
             )}
+
+            {/* Change History */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Change History</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <TalentVersionHistory
+                  talentProfileId={talent.id}
+                  canRestore={isAdmin || isOrgAdmin || isManager}
+                  refreshKey={historyKey}
+                  onRestored={fetchTalentProfile}
+                />
+              </CardContent>
+            </Card>
           </div>
 
           {/* Sidebar */}
@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { User, MapPin, Calendar, Briefcase, GraduationCap, Award, BookOpen, Play, TrendingUp, Edit, Save, X, ArrowLeft, Upload, Camera, Plus, UserPlus, Users, Target, LogOut } from 'lucide-react';
+import { User, MapPin, Calendar, Briefcase, GraduationCap, Award, BookOpen, Play, TrendingUp, Edit, Save, X, ArrowLeft, Upload, Camera, UserPlus, Users, Target, LogOut } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
@@ -15,6 +15,10 @@ import { useUserRole } from '@/hooks/useUserRole';
 import { useNavigate } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
 import { aiService } from '@/services/aiService';
+import { skillService, SelectedSkill } from '@/services/skillService';
+import { embeddingService } from '@/services/embeddingService';
+import SkillPicker from '@/components/SkillPicker';
+import FreeTextSkills from '@/components/FreeTextSkills';
 
 interface UserProfile {
   id: string;
@@ -87,11 +91,13 @@ export default function UserDashboard() {
   const [opportunities, setOpportunities] = useState<any[]>([]);
   const [users, setUsers] = useState<any[]>([]);
   const [uploading, setUploading] = useState(false);
-  const [newSkill, setNewSkill] = useState('');
+  const [selectedSkills, setSelectedSkills] = useState<SelectedSkill[]>([]);
+  // Legacy skills that have no catalog entry yet
+  const [freeTextSkills, setFreeTextSkills] = useState<string[]>([]);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const { user } = useAuth();
-  const { isAdmin, isManager } = useUserRole();
+  const { isAdmin, isOrgAdmin, isManager } = useUserRole();
   const navigate = useNavigate();
   const { toast } = useToast();
 
@@ -155,6 +161,7 @@ export default function UserDashboard() {
           avatar_url: data.avatar_url,
           domain: null // talent_profiles doesn't have domain field
         });
+        await fetchProfileSkills(data.id, data.skills || []);
       }
     } catch (error) {
       console.error('Error fetching user profile:', error);
@@ -163,6 +170,20 @@ export default function UserDashboard() {
     }
   };
 
+  const fetchProfileSkills = async (talentProfileId: string, legacySkills: string[]) => {
+    try {
+      const [structured, { matched, unmatched }] = await Promise.all([
+        skillService.getTalentSkills(talentProfileId),
+        skillService.matchSkillNames(legacySkills)
+      ]);
+      // Profiles created before the catalog existed only have the free-text list
+      setSelectedSkills(structured.length > 0 ? structured : matched);
+      setFreeTextSkills(unmatched);
+    } catch (error) {
+      console.error('Error fetching profile skills:', error);
+    }
+  };
+
   const fetchCareerTips = async () => {
     try {
       if (!profile) {
@@ -1072,6 +1093,8 @@ Format as JSON array with these fields: id, title, provider, url, thumbnail, dur
   const handleSaveProfile = async () => {
     if (!profile) return;
 
+    const skills = [...selectedSkills.map(skill => skill.name), ...freeTextSkills];
+
     try {
       const { error } = await supabase
         .from('talent_profiles')
@@ -1083,13 +1106,17 @@ Format as JSON array with these fields: id, title, provider, url, thumbnail, dur
           education: profile.education,
           work_experience: profile.work_experience,
           certifications: profile.certifications,
-          skills: profile.skills,
+          skills,
           updated_at: new Date().toISOString()
         })
         .eq('id', profile.id);
 
       if (error) throw error;
 
+      await skillService.setTalentSkills(profile.id, selectedSkills);
+      embeddingService.queueRefresh();
+      setProfile(prev => prev ? { ...prev, skills } : null);
+
       toast({
         title: "Success",
         description: "Profile updated successfully",
@@ -1231,22 +1258,8 @@ Format as JSON array with these fields: id, title, provider, url, thumbnail, dur
     }
   };
 
-  const handleAddSkill = () => {
-    if (!newSkill.trim()) return;
-    
-    setProfile(prev => prev ? {
-      ...prev,
-      skills: [...(prev.skills || []), newSkill.trim()]
-    } : null);
-    
-    setNewSkill('');
-  };
-
-  const handleRemoveSkill = (skillToRemove: string) => {
-    setProfile(prev => prev ? {
-      ...prev,
-      skills: prev.skills?.filter(skill => skill !== skillToRemove) || []
-    } : null);
+  const handleRemoveFreeTextSkill = (skillToRemove: string) => {
+    setFreeTextSkills(prev => prev.filter(skill => skill !== skillToRemove));
   };
 
   if (loading) {
@@ -1268,7 +1281,7 @@ Format as JSON array with these fields: id, title, provider, url, thumbnail, dur
         <div className="mb-8">
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-3">
-              {(isAdmin || isManager) && (
+              {(isAdmin || isOrgAdmin || isManager) && (
                 <Button 
                   variant="ghost" 
                   size="sm" 
@@ -1490,50 +1503,33 @@ Format as JSON array with these fields: id, title, provider, url, thumbnail, dur
                     <CardDescription>Your technical skills and expertise</CardDescription>
                   </CardHeader>
                   <CardContent>
-                    <div className="flex flex-wrap gap-2 mb-4">
-                      {profile?.skills?.map((skill, index) => (
-                        <Badge key={index} variant="secondary" className="flex items-center gap-1">
-                          {skill}
-                          {editing && (
-                            <button
-                              onClick={() => handleRemoveSkill(skill)}
-                              className="ml-1 hover:bg-secondary-foreground/20 rounded-full p-0.5"
-                            >
-                              <X className="h-3 w-3" />
-                            </button>
-                          )}
-                        </Badge>
-                      ))}
-                      {(!profile?.skills || profile.skills.length === 0) && !editing && (
-                        <div className="p-4 bg-gray-50 border border-gray-200 rounded-md">
-                          <p className="text-sm text-gray-600 mb-2">No skills added yet</p>
-                          <p className="text-xs text-gray-500">Click "Edit Profile" to add your skills and expertise</p>
-                        </div>
-                      )}
-                    </div>
+                    {!editing && (
+                      <div className="flex flex-wrap gap-2 mb-4">
+                        {profile?.skills?.map((skill, index) => (
+                          <Badge key={index} variant="secondary">
+                            {skill}
+                          </Badge>
+                        ))}
+                        {(!profile?.skills || profile.skills.length === 0) && (
+                          <div className="p-4 bg-gray-50 border border-gray-200 rounded-md">
+                            <p className="text-sm text-gray-600 mb-2">No skills added yet</p>
+                            <p className="text-xs text-gray-500">Click "Edit Profile" to add your skills and expertise</p>
+                          </div>
+                        )}
+                      </div>
+                    )}
                     {editing && (
-                      <div className="space-y-2">
-                        <div className="flex gap-2">
-                          <Input
-                            placeholder="Add a new skill"
-                            value={newSkill}
-                            onChange={(e) => setNewSkill(e.target.value)}
-                            onKeyPress={(e) => {
-                              if (e.key === 'Enter') {
-                                handleAddSkill();
-                              }
-                            }}
-                          />
-                          <Button 
-                            onClick={handleAddSkill}
-                            disabled={!newSkill.trim()}
-                            size="sm"
-                          >
-                            <Plus className="h-4 w-4" />
-                          </Button>
-                        </div>
+                      <div className="space-y-3">
+                        <SkillPicker
+                          value={selectedSkills}
+                          onChange={setSelectedSkills}
+                          placeholder="Search and add skills..."
+                        />
+                        {freeTextSkills.length > 0 && (
+                          <FreeTextSkills skills={freeTextSkills} onRemove={handleRemoveFreeTextSkill} />
+                        )}
                         <p className="text-xs text-gray-500">
-                          Press Enter or click the + button to add a skill
+                          Pick skills from the catalog and set your proficiency and years of experience
                         </p>
                       </div>
                     )}
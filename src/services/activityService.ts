@@ -0,0 +1,115 @@
+// Activity Service
+// Reads the activity feed / audit log. Entries are written by database triggers on talent,
+// opportunities, assignments, projects and roles, never by the pages themselves.
+
+import { supabase } from '@/integrations/supabase/client';
+
+export type ActivityEntityType = 'talent' | 'opportunity' | 'assignment' | 'project' | 'role';
+
+export const ACTIVITY_ENTITY_TYPES: ActivityEntityType[] = ['talent', 'opportunity', 'assignment', 'project', 'role'];
+
+export type ActivityAction =
+  | 'created'
+  | 'updated'
+  | 'deleted'
+  | 'status_changed'
+  | 'assigned'
+  | 'unassigned'
+  | 'role_granted'
+  | 'role_revoked';
+
+export interface ActivityMetadata {
+  label?: string;
+  changes?: string[];
+  from?: string;
+  to?: string;
+  role?: string;
+  talent_role?: string;
+  required_role?: string;
+  talent_profile_id?: string;
+  talent_name?: string;
+  opportunity_id?: string;
+  utilization_percentage?: number;
+}
+
+export interface ActivityEntry {
+  id: string;
+  action: ActivityAction;
+  entity_type: ActivityEntityType;
+  entity_id: string;
+  metadata: ActivityMetadata;
+  user_id: string | null;
+  created_at: string;
+  actorName: string | null;
+}
+
+export interface ActivityQuery {
+  entityType?: ActivityEntityType;
+  since?: Date;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface ActivityPage {
+  entries: ActivityEntry[];
+  total: number;
+}
+
+export const ACTIVITY_PAGE_SIZE = 10;
+
+class ActivityService {
+  /**
+   * One page of activity, newest first, with the acting user's name
+   */
+  async getActivity({ entityType, since, page = 0, pageSize = ACTIVITY_PAGE_SIZE }: ActivityQuery = {}): Promise<ActivityPage> {
+    let query = supabase
+      .from('activity_feed')
+      .select('id, action, entity_type, entity_id, metadata, user_id, created_at', { count: 'exact' });
+
+    if (entityType) query = query.eq('entity_type', entityType);
+    if (since) query = query.gte('created_at', since.toISOString());
+
+    const { data, count, error } = await query
+      .order('created_at', { ascending: false })
+      .range(page * pageSize, (page + 1) * pageSize - 1);
+
+    if (error) throw error;
+
+    const actorNames = await this.getActorNames((data || []).map(entry => entry.user_id));
+
+    return {
+      entries: (data || []).map(entry => ({
+        ...entry,
+        action: entry.action as ActivityAction,
+        entity_type: entry.entity_type as ActivityEntityType,
+        metadata: (entry.metadata || {}) as ActivityMetadata,
+        actorName: entry.user_id ? actorNames.get(entry.user_id) || null : null
+      })),
+      total: count || 0
+    };
+  }
+
+  /**
+   * Display names for auth user ids, from the users table
+   */
+  private async getActorNames(userIds: (string | null)[]): Promise<Map<string, string>> {
+    const ids = Array.from(new Set(userIds.filter((id): id is string => !!id)));
+    if (ids.length === 0) return new Map();
+
+    const { data, error } = await supabase
+      .from('users')
+      .select('user_id, first_name, last_name, email')
+      .in('user_id', ids);
+
+    if (error) throw error;
+    return new Map((data || [])
+      .filter(user => user.user_id)
+      .map(user => [
+        user.user_id as string,
+        `${user.first_name || ''} ${user.last_name || ''}`.trim() || user.email
+      ]));
+  }
+}
+
+// Export singleton instance
+export const activityService = new ActivityService();
@@ -0,0 +1,103 @@
+// AI Scoring Service
+// Scores talent-opportunity pairs with the LLM through the gateway, which builds the prompts from
+// the stored profiles and keeps the score cache. Cached scores are fetched first; the rest are
+// scored a few pairs per request through a bounded worker pool.
+
+import { llmClient, LLMMatchPair, LLMMatchScore } from '@/services/llmClient';
+
+export type ScoringPair = LLMMatchPair;
+
+export type PairScore = LLMMatchScore;
+
+export interface ScoringProgress {
+  scored: number;
+  total: number;
+}
+
+export interface ScorePairsOptions {
+  // Called with each batch of scores as soon as it is available, cached ones first
+  onScores?: (scores: PairScore[]) => void;
+  onProgress?: (progress: ScoringProgress) => void;
+}
+
+// Only the best rule-based candidates are worth an LLM call
+export const AI_SHORTLIST_SIZE = 20;
+// Candidates scored together in one prompt; the gateway takes at most this many
+const BATCH_SIZE = 5;
+// Batches in flight at once
+const MAX_CONCURRENT_BATCHES = 3;
+// Pairs per cache lookup; the gateway takes at most this many
+const LOOKUP_SIZE = 100;
+
+/**
+ * Run worker over items with at most `limit` calls in flight
+ */
+export const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> => {
+  let next = 0;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      await worker(item);
+    }
+  });
+  await Promise.all(runners);
+};
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+const pairKey = (pair: ScoringPair) => `${pair.talentId}:${pair.opportunityId}`;
+
+class AIScoringService {
+  /**
+   * Score pairs with the LLM. Cached pairs are returned without a model call; the rest are scored
+   * BATCH_SIZE at a time with at most MAX_CONCURRENT_BATCHES requests in flight.
+   * Pairs the model fails to score are left out of the result so callers can keep their rule-based score.
+   */
+  async scorePairs(pairs: ScoringPair[], options: ScorePairsOptions = {}): Promise<PairScore[]> {
+    const results: PairScore[] = [];
+    const progress: ScoringProgress = { scored: 0, total: pairs.length };
+    const emit = (scores: PairScore[], attempted: number) => {
+      results.push(...scores);
+      progress.scored += attempted;
+      if (scores.length > 0) options.onScores?.(scores);
+      options.onProgress?.({ ...progress });
+    };
+
+    const cached: PairScore[] = [];
+    try {
+      for (const lookup of chunk(pairs, LOOKUP_SIZE)) {
+        cached.push(...await llmClient.scoreMatches(lookup, true));
+      }
+    } catch (error) {
+      console.error('Error reading AI match cache:', error);
+      cached.length = 0;
+    }
+    const cachedKeys = new Set(cached.map(pairKey));
+    emit(cached, cached.length);
+
+    const uncached = pairs.filter(pair => !cachedKeys.has(pairKey(pair)));
+    await runWithConcurrency(chunk(uncached, BATCH_SIZE), MAX_CONCURRENT_BATCHES, async batch => {
+      try {
+        emit(await llmClient.scoreMatches(batch), batch.length);
+      } catch (error) {
+        console.error('AI batch scoring error:', error);
+        emit([], batch.length);
+      }
+    });
+
+    return results;
+  }
+}
+
+// Export singleton instance
+export const aiScoringService = new AIScoringService();
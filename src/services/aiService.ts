@@ -1,28 +1,11 @@
 // AI Service for Career Recommendations
 // This service handles AI-powered career tips and course recommendations
 
-export interface AICareerTip {
-  id: string;
-  title: string;
-  description: string;
-  category: string;
-  difficulty: 'Beginner' | 'Intermediate' | 'Advanced';
-  relevance_score: number;
-}
+import * as z from 'zod';
+import { llmClient, LLMGatewayError, LLMFeature } from '@/services/llmClient';
+import { careerTipsSchema, coursesSchema, AICareerTip, AICourse } from '@/services/llmSchemas';
 
-export interface AICourse {
-  id: string;
-  title: string;
-  provider: string;
-  url: string;
-  thumbnail: string;
-  duration: string;
-  rating: number;
-  skills: string[];
-  difficulty: 'Beginner' | 'Intermediate' | 'Advanced';
-  relevance_score: number;
-  is_upskill: boolean;
-}
+export type { AICareerTip, AICourse } from '@/services/llmSchemas';
 
 export interface UserProfile {
   skills: string[];
@@ -33,21 +16,17 @@ export interface UserProfile {
 }
 
 class AIService {
-  private apiKey: string | null = null;
-  private baseUrl: string = '';
+  private useMock: boolean = false;
   private debugMode: boolean = false;
 
   constructor() {
-    // Initialize with environment variables
-    this.apiKey = import.meta.env.VITE_OPENAI_API_KEY || null;
-    this.baseUrl = 'https://openrouter.ai/api/v1'; // OpenRouter API endpoint
+    // Requests go through the llm-gateway edge function; mock mode skips the model entirely
+    this.useMock = import.meta.env.VITE_AI_MOCK === 'true';
     this.debugMode = import.meta.env.VITE_AI_DEBUG === 'true';
     
     console.log('AI Service initialized:', {
-      hasApiKey: !!this.apiKey,
-      apiKeyLength: this.apiKey?.length || 0,
-      debugMode: this.debugMode,
-      baseUrl: this.baseUrl
+      useMock: this.useMock,
+      debugMode: this.debugMode
     });
   }
 
@@ -58,8 +37,8 @@ class AIService {
     const prompt = this.buildCareerTipsPrompt(userProfile);
     
     try {
-      if (this.apiKey) {
-        return await this.callOpenAI(prompt);
+      if (!this.useMock) {
+        return await this.callOpenAI(prompt, 'career_tips', careerTipsSchema);
       } else {
         return await this.mockAIResponse(prompt, 'career-tips');
       }
@@ -81,8 +60,8 @@ class AIService {
     const prompt = this.buildCoursePrompt(userProfile);
     
     try {
-      if (this.apiKey) {
-        return await this.callOpenAI(prompt);
+      if (!this.useMock) {
+        return await this.callOpenAI(prompt, 'courses', coursesSchema);
       } else {
         return await this.mockAIResponse(prompt, 'courses');
       }
@@ -223,19 +202,12 @@ IMPORTANT REMINDERS:
 
 
   /**
-   * Call OpenRouter API (OpenAI-compatible)
+   * Call the model through the LLM gateway and validate the reply against the feature's schema
    */
-  private async callOpenAI(prompt: string): Promise<any[]> {
-    const response = await fetch(`${this.baseUrl}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': window.location.origin, // Required by OpenRouter
-        'X-Title': 'Connectiv Talent - Career Development', // Optional app name
-      },
-      body: JSON.stringify({
-        model: 'openrouter/auto', // Use OpenRouter auto model selection like ResumeUpload
+  private async callOpenAI<T>(prompt: string, feature: LLMFeature, schema: z.ZodType<T[], z.ZodTypeDef, unknown>): Promise<T[]> {
+    try {
+      const parsed = await llmClient.chatStructured({
+        feature,
         messages: [
           {
             role: 'system',
@@ -247,227 +219,29 @@ IMPORTANT REMINDERS:
           }
         ],
         temperature: 0.1,
-        max_tokens: 2000
-      })
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      console.error('OpenRouter API error:', response.status, errorData);
-      
-      // Check if it's a credit/payment error
-      if (response.status === 402 || response.status === 429 || 
-          errorData?.error?.message?.includes('credit') ||
-          errorData?.error?.message?.includes('payment') ||
-          errorData?.error?.message?.includes('quota')) {
-        console.log('Credit limit exceeded, falling back to mock data');
-        throw new Error('CREDIT_LIMIT_EXCEEDED');
-      }
-      
-      throw new Error(`OpenRouter API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const content = data.choices[0].message.content;
-    
-    if (this.debugMode) {
-      console.log('OpenRouter API Response:', data);
-      console.log('Content:', content);
-      console.log('Content length:', content?.length);
-    }
-    
-    // Clean the response content - remove any markdown formatting or extra text
-    let cleanContent = content.trim();
-    
-    try {
-      // Remove common prefixes and suffixes
-      cleanContent = cleanContent
-        .replace(/^```json\s*/i, '')
-        .replace(/^```\s*/i, '')
-        .replace(/\s*```$/i, '')
-        .replace(/^json\s*:\s*/i, '')
-        .replace(/^response\s*:\s*/i, '')
-        .replace(/^data\s*:\s*/i, '')
-        .replace(/^result\s*:\s*/i, '')
-        .trim();
-      
-      // Remove any text before the first [
-      const arrayStart = cleanContent.indexOf('[');
-      if (arrayStart > 0) {
-        cleanContent = cleanContent.substring(arrayStart);
-      }
-      
-      // Remove any text after the last ]
-      const arrayEnd = cleanContent.lastIndexOf(']');
-      if (arrayEnd > 0 && arrayEnd < cleanContent.length - 1) {
-        cleanContent = cleanContent.substring(0, arrayEnd + 1);
-      }
+        maxTokens: 2000
+      }, schema);
       
-      // Final cleanup - remove any remaining non-JSON text
-      cleanContent = cleanContent.trim();
-      
-      console.log('Cleaned AI service content for parsing:', cleanContent);
-      
-      // Validate that we have something to parse
-      if (!cleanContent || cleanContent.length === 0) {
-        throw new Error('No content to parse after cleaning');
-      }
-      
-      // Check if it looks like JSON
-      if (!cleanContent.startsWith('[') || !cleanContent.endsWith(']')) {
-        throw new Error('Content does not appear to be a JSON array');
-      }
-      
-      const parsed = JSON.parse(cleanContent);
-      
-      // Validate that it's an array
-      if (!Array.isArray(parsed)) {
-        throw new Error('Response is not an array');
-      }
-      
-      // Validate that it has content
-      if (parsed.length === 0) {
-        throw new Error('Response array is empty');
+      if (this.debugMode) {
+        console.log(`Validated ${feature} response:`, parsed);
       }
       
-      console.log(`Successfully parsed ${parsed.length} courses from AI response`);
-      if (parsed.length < 10) {
+      console.log(`Successfully parsed ${parsed.length} items from AI response`);
+      if (feature === 'courses' && parsed.length < 10) {
         console.warn(`Warning: AI returned only ${parsed.length} courses, expected 10`);
       }
       
       return parsed;
     } catch (error) {
-      console.error('Failed to parse OpenRouter response:', error);
-      console.error('Raw response:', content);
-      console.error('Cleaned content:', cleanContent);
-      console.error('Content length:', content?.length || 0);
-      console.error('Content type:', typeof content);
-      console.error('Content preview (first 200 chars):', content?.substring(0, 200));
+      console.error('LLM gateway error:', error);
       
-      // Try multiple extraction strategies
-      const extractionStrategies = [
-        // Strategy 1: Extract JSON array from content
-        () => {
-          const jsonStart = content.indexOf('[');
-          const jsonEnd = content.lastIndexOf(']') + 1;
-          if (jsonStart !== -1 && jsonEnd > jsonStart) {
-            return content.substring(jsonStart, jsonEnd);
-          }
-          return null;
-        },
-        // Strategy 2: Look for JSON after "json" keyword
-        () => {
-          const jsonMatch = content.match(/json\s*:\s*(\[.*\])/is);
-          if (jsonMatch) {
-            return jsonMatch[1];
-          }
-          return null;
-        },
-        // Strategy 3: Look for JSON in code blocks
-        () => {
-          const codeBlockMatch = content.match(/```(?:json)?\s*(\[.*?\])\s*```/is);
-          if (codeBlockMatch) {
-            return codeBlockMatch[1];
-          }
-          return null;
-        },
-        // Strategy 4: Try to find any array-like structure
-        () => {
-          const arrayMatch = content.match(/(\[[\s\S]*?\])/);
-          if (arrayMatch) {
-            return arrayMatch[1];
-          }
-          return null;
-        },
-        // Strategy 5: Handle partial JSON responses (like the one shown in console)
-        () => {
-          // Look for JSON objects that might be part of an array
-          const jsonObjects = content.match(/\{[^{}]*"id"[^{}]*\}/g);
-          if (jsonObjects && jsonObjects.length > 0) {
-            return '[' + jsonObjects.join(',') + ']';
-          }
-          return null;
-        },
-        // Strategy 6: Try to reconstruct array from individual objects
-        () => {
-          // Look for individual JSON objects and wrap them in an array
-          const objectMatches = content.match(/\{[^{}]*(?:"id"|"title"|"description")[^{}]*\}/g);
-          if (objectMatches && objectMatches.length > 0) {
-            return '[' + objectMatches.join(',') + ']';
-          }
-          return null;
-        },
-        // Strategy 6b: Try to reconstruct array from course objects (with provider, url, etc.)
-        () => {
-          // Look for course objects with provider, url, thumbnail fields
-          const courseMatches = content.match(/\{[^{}]*(?:"id"|"title"|"provider"|"url"|"thumbnail")[^{}]*\}/g);
-          if (courseMatches && courseMatches.length > 0) {
-            return '[' + courseMatches.join(',') + ']';
-          }
-          return null;
-        },
-        // Strategy 7: Try to fix common JSON issues
-        () => {
-          let fixedContent = content;
-          
-          // Fix common issues
-          fixedContent = fixedContent
-            .replace(/,(\s*[}\]])/g, '$1') // Remove trailing commas
-            .replace(/([{,]\s*)(\w+):/g, '$1"$2":') // Add quotes to unquoted keys
-            .replace(/:\s*([^",{\[\s][^,}]*?)(\s*[,}])/g, ': "$1"$2') // Add quotes to unquoted string values
-            .replace(/"\s*:\s*"([^"]*)"\s*([,}])/g, '": "$1"$2'); // Fix already quoted values
-          
-          // Try to find array structure
-          const arrayStart = fixedContent.indexOf('[');
-          const arrayEnd = fixedContent.lastIndexOf(']');
-          if (arrayStart !== -1 && arrayEnd > arrayStart) {
-            return fixedContent.substring(arrayStart, arrayEnd + 1);
-          }
-          return null;
-        },
-        // Strategy 8: Handle course-specific patterns (URLs, providers, etc.)
-        () => {
-          // Look for course objects with specific course-related fields
-          const coursePattern = /\{[^{}]*(?:"id"|"title"|"provider"|"url"|"thumbnail"|"duration"|"rating"|"skills"|"difficulty")[^{}]*\}/g;
-          const courseMatches = content.match(coursePattern);
-          if (courseMatches && courseMatches.length > 0) {
-            return '[' + courseMatches.join(',') + ']';
-          }
-          return null;
-        }
-      ];
-      
-      for (let i = 0; i < extractionStrategies.length; i++) {
-        try {
-          const extractedJson = extractionStrategies[i]();
-          if (extractedJson) {
-            console.log(`Attempting strategy ${i + 1} with extracted JSON:`, extractedJson);
-            const parsed = JSON.parse(extractedJson);
-            if (Array.isArray(parsed) && parsed.length > 0) {
-              console.log(`Successfully parsed JSON using strategy ${i + 1}`);
-              return parsed;
-            }
-          }
-        } catch (strategyError) {
-          console.log(`Strategy ${i + 1} failed:`, strategyError.message);
-          continue;
-        }
+      // Rate limit or provider credit errors
+      if (error instanceof LLMGatewayError && error.isQuotaError) {
+        console.log('Credit limit exceeded, falling back to mock data');
+        throw new Error('CREDIT_LIMIT_EXCEEDED');
       }
       
-      // If all strategies fail, log detailed information and throw error
-      console.error('All extraction strategies failed. Content analysis:');
-      console.error('- Content length:', content?.length || 0);
-      console.error('- Contains brackets:', content?.includes('[') && content?.includes(']'));
-      console.error('- Contains braces:', content?.includes('{') && content?.includes('}'));
-      console.error('- Contains "id":', content?.includes('"id"'));
-      console.error('- Contains "title":', content?.includes('"title"'));
-      console.error('- Contains "provider":', content?.includes('"provider"'));
-      console.error('- Contains "url":', content?.includes('"url"'));
-      console.error('- Contains "thumbnail":', content?.includes('"thumbnail"'));
-      console.error('- Contains "description":', content?.includes('"description"'));
-      console.error('- First 500 characters:', content?.substring(0, 500));
-      
-      throw new Error(`Invalid AI response format - could not extract valid JSON array from response. Content length: ${content?.length || 0}, Contains JSON markers: ${content?.includes('[') && content?.includes(']')}`);
+      throw error;
     }
   }
 
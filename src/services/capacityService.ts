@@ -0,0 +1,197 @@
+// Capacity Service
+// Time-phased allocations: how booked a talent is on a given day, week by week, and across an opportunity's window
+
+export interface Allocation {
+  project_name: string;
+  utilization_percentage: number;
+  // Missing start means the allocation has always been running; missing release means it is open-ended
+  start_date?: string | null;
+  // Last day on the project
+  release_date?: string | null;
+}
+
+export interface CapacityTalent {
+  talent_type?: string | null;
+  availability_start_date?: string | null;
+  employee_projects?: Allocation[] | null;
+}
+
+export interface CapacityWeek {
+  weekStart: Date;
+  // Peak booked percentage on any day of the week, capped at 100
+  utilization: number;
+  projects: string[];
+}
+
+export interface DateWindow {
+  start: Date;
+  end: Date;
+}
+
+export interface WindowAvailability {
+  // Booked percentage on the first day of the window
+  utilizationAtStart: number;
+  // Peak booked percentage on any day of the window
+  peakUtilization: number;
+  // First day in the window with free capacity, null when fully booked throughout
+  availableFrom: Date | null;
+}
+
+export type CapacityLevel = 'free' | 'partial' | 'high' | 'full';
+
+// Weeks shown on timelines and assumed for opportunities without an end date
+export const CAPACITY_WEEKS = 12;
+
+const NOT_YET_AVAILABLE = 'Not yet available';
+
+export const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/**
+ * Monday of the week containing date
+ */
+export const startOfWeek = (date: Date): Date => addDays(startOfDay(date), -((date.getDay() + 6) % 7));
+
+/**
+ * Parse a DATE column ("YYYY-MM-DD") as a local day so it does not shift with the timezone
+ */
+export const parseDate = (value?: string | null): Date | null => {
+  if (!value) return null;
+  const [year, month, day] = value.split('T')[0].split('-').map(Number);
+  if (!year || !month || !day) return null;
+  return new Date(year, month - 1, day);
+};
+
+export const toDateString = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const isActiveOn = (allocation: Allocation, day: Date): boolean => {
+  const start = parseDate(allocation.start_date);
+  const release = parseDate(allocation.release_date);
+  return (!start || start <= day) && (!release || day <= release);
+};
+
+/**
+ * Booked percentage on one day, capped at 100
+ */
+export const utilizationOn = (allocations: Allocation[] = [], day: Date = new Date()): number => {
+  const date = startOfDay(day);
+  const total = allocations
+    .filter(allocation => isActiveOn(allocation, date))
+    .reduce((sum, allocation) => sum + (allocation.utilization_percentage || 0), 0);
+  return Math.min(total, 100);
+};
+
+/**
+ * Booked percentage today, counting only allocations that have started and not yet been released
+ */
+export const currentUtilization = (allocations: Allocation[] | null | undefined): number =>
+  utilizationOn(allocations || []);
+
+/**
+ * Utilization only changes where an allocation starts or the day after one is released,
+ * so those days (plus the range start) are the only ones worth checking
+ */
+const changeDays = (allocations: Allocation[], from: Date, to: Date): Date[] => {
+  const days = [from];
+  allocations.forEach(allocation => {
+    const start = parseDate(allocation.start_date);
+    const release = parseDate(allocation.release_date);
+    const afterRelease = release ? addDays(release, 1) : null;
+    [start, afterRelease].forEach(day => {
+      if (day && day > from && day <= to) days.push(day);
+    });
+  });
+  return days.sort((a, b) => a.getTime() - b.getTime());
+};
+
+const peakUtilization = (allocations: Allocation[], from: Date, to: Date): number =>
+  Math.max(...changeDays(allocations, from, to).map(day => utilizationOn(allocations, day)));
+
+/**
+ * A prospect is treated as fully booked until their availability start date
+ */
+export const getAllocations = (talent: CapacityTalent): Allocation[] => {
+  const allocations = [...(talent.employee_projects || [])];
+  const availableDate = parseDate(talent.availability_start_date);
+  if (talent.talent_type === 'prospect' && availableDate) {
+    allocations.push({
+      project_name: NOT_YET_AVAILABLE,
+      utilization_percentage: 100,
+      release_date: toDateString(addDays(availableDate, -1))
+    });
+  }
+  return allocations;
+};
+
+/**
+ * Week-by-week booked percentage from the week containing `from`
+ */
+export const weeklyCapacity = (
+  allocations: Allocation[],
+  weeks: number = CAPACITY_WEEKS,
+  from: Date = new Date()
+): CapacityWeek[] => {
+  const firstWeek = startOfWeek(from);
+  return Array.from({ length: weeks }, (_, index) => {
+    const weekStart = addDays(firstWeek, index * 7);
+    const weekEnd = addDays(weekStart, 6);
+    const active = allocations.filter(allocation => {
+      const start = parseDate(allocation.start_date);
+      const release = parseDate(allocation.release_date);
+      return (!start || start <= weekEnd) && (!release || release >= weekStart);
+    });
+    return {
+      weekStart,
+      utilization: peakUtilization(active, weekStart, weekEnd),
+      projects: active.map(allocation => allocation.project_name)
+    };
+  });
+};
+
+/**
+ * The days an opportunity needs someone: from its start date (or today, if that has passed)
+ * to its end date, or CAPACITY_WEEKS later when it is open-ended
+ */
+export const getMatchWindow = (
+  opportunity: { start_date?: string | null; end_date?: string | null },
+  today: Date = new Date()
+): DateWindow => {
+  const todayStart = startOfDay(today);
+  const requestedStart = parseDate(opportunity.start_date);
+  const start = requestedStart && requestedStart > todayStart ? requestedStart : todayStart;
+  const requestedEnd = parseDate(opportunity.end_date);
+  const end = requestedEnd && requestedEnd >= start ? requestedEnd : addDays(start, CAPACITY_WEEKS * 7 - 1);
+  return { start, end };
+};
+
+/**
+ * How booked a talent is across a window, and when they first have room in it
+ */
+export const availabilityForWindow = (talent: CapacityTalent, window: DateWindow): WindowAvailability => {
+  const allocations = getAllocations(talent);
+  const days = changeDays(allocations, window.start, window.end);
+  const utilizations = days.map(day => utilizationOn(allocations, day));
+  const firstFree = utilizations.findIndex(utilization => utilization < 100);
+
+  return {
+    utilizationAtStart: utilizations[0],
+    peakUtilization: Math.max(...utilizations),
+    availableFrom: firstFree === -1 ? null : days[firstFree]
+  };
+};
+
+/**
+ * Whether the talent can start when the window opens
+ */
+export const isAvailableForWindow = (talent: CapacityTalent, window: DateWindow): boolean =>
+  availabilityForWindow(talent, window).utilizationAtStart < 100;
+
+export const getCapacityLevel = (utilization: number): CapacityLevel => {
+  if (utilization >= 100) return 'full';
+  if (utilization >= 80) return 'high';
+  if (utilization > 0) return 'partial';
+  return 'free';
+};
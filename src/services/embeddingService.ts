@@ -0,0 +1,75 @@
+// Embedding Service
+// Semantic search and talent-opportunity similarity backed by the pgvector embeddings
+
+import { supabase } from '@/integrations/supabase/client';
+
+export interface SemanticTalentMatch {
+  talentId: string;
+  // Cosine similarity, 1 = identical
+  similarity: number;
+}
+
+// Cosine similarity between unrelated texts rarely drops below this, and close matches rarely exceed the top
+const SIMILARITY_FLOOR = 0.3;
+const SIMILARITY_CEILING = 0.85;
+
+/**
+ * Map a raw cosine similarity onto 0-1 so it can be weighted like the other match factors
+ */
+export const similarityToScore = (similarity: number): number =>
+  Math.max(0, Math.min(1, (similarity - SIMILARITY_FLOOR) / (SIMILARITY_CEILING - SIMILARITY_FLOOR)));
+
+class EmbeddingService {
+  /**
+   * Embed talent profiles and opportunities whose text changed since they were last embedded
+   */
+  async refreshStale(): Promise<void> {
+    const { error } = await supabase.functions.invoke('embeddings', { body: { action: 'refresh' } });
+    if (error) throw error;
+  }
+
+  /**
+   * Kick off a refresh after a save without holding up the caller
+   */
+  queueRefresh() {
+    this.refreshStale().catch(error => console.error('Error refreshing embeddings:', error));
+  }
+
+  /**
+   * Talents whose bio, work experience and skills are closest in meaning to the query
+   */
+  async searchTalents(query: string, limit: number = 50): Promise<SemanticTalentMatch[]> {
+    const { data, error } = await supabase.functions.invoke('embeddings', {
+      body: { action: 'search', query, limit }
+    });
+    if (error) throw error;
+
+    return ((data?.matches || []) as { talent_profile_id: string; similarity: number }[]).map(match => ({
+      talentId: match.talent_profile_id,
+      similarity: match.similarity
+    }));
+  }
+
+  /**
+   * Similarity of every embedded talent to an opportunity (keyed by talent id),
+   * or of every embedded opportunity to a talent (keyed by opportunity id)
+   */
+  async getSimilarities(target: { opportunityId: string } | { talentId: string }): Promise<Map<string, number>> {
+    await this.refreshStale().catch(error => console.error('Error refreshing embeddings:', error));
+
+    const byOpportunity = 'opportunityId' in target;
+    const { data, error } = await supabase.rpc('embedding_similarities', byOpportunity
+      ? { _opportunity_id: target.opportunityId }
+      : { _talent_profile_id: target.talentId }
+    );
+    if (error) throw error;
+
+    return new Map((data || []).map(row => [
+      byOpportunity ? row.talent_profile_id : row.opportunity_id,
+      row.similarity
+    ]));
+  }
+}
+
+// Export singleton instance
+export const embeddingService = new EmbeddingService();
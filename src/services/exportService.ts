@@ -0,0 +1,179 @@
+// Export Service
+// Turns lists already loaded in the UI into downloads: CSV and XLSX tables, and a PDF candidate
+// pack with a page per talent. Everything is generated in the browser, so an export contains
+// exactly what the user can see.
+
+import * as XLSX from 'xlsx';
+import { jsPDF } from 'jspdf';
+import { downloadCsv } from '@/lib/csv';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (XLSX)',
+  pdf: 'PDF candidate pack'
+};
+
+export type ExportValue = string | number | boolean | null | undefined;
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => ExportValue;
+}
+
+export interface CandidatePackEntry {
+  name: string;
+  email?: string | null;
+  // One-line facts under the name, e.g. role, experience and location
+  headline: string[];
+  status?: string | null;
+  skills: string[];
+  bio?: string | null;
+  workExperience?: string | null;
+  education?: string | null;
+  certifications?: string | null;
+  projects?: string[];
+  match?: {
+    score: number;
+    explanation: string;
+    details: string[];
+  };
+}
+
+const PAGE_MARGIN = 48;
+const LINE_HEIGHT = 1.35;
+// Long free-text sections are cut so a candidate usually fits on one page
+const MAX_SECTION_LENGTH = 1200;
+
+/**
+ * A file name with today's date, e.g. talent_pool_2025-11-07
+ */
+export const datedFileName = (base: string) =>
+  `${base}_${new Date().toISOString().slice(0, 10)}`;
+
+const cellValue = (value: ExportValue) => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return value;
+};
+
+const truncate = (text: string) =>
+  text.length > MAX_SECTION_LENGTH ? `${text.slice(0, MAX_SECTION_LENGTH).trimEnd()}…` : text;
+
+class ExportService {
+  /**
+   * Download rows as a CSV or XLSX table with one column per entry in columns
+   */
+  exportTable<T>(rows: T[], columns: ExportColumn<T>[], fileName: string, format: 'csv' | 'xlsx', sheetName = 'Export'): void {
+    const header = columns.map(column => column.header);
+    const body = rows.map(row => columns.map(column => cellValue(column.value(row))));
+
+    if (format === 'csv') {
+      downloadCsv([header, ...body], `${fileName}.csv`);
+      return;
+    }
+
+    const worksheet = XLSX.utils.aoa_to_sheet([header, ...body]);
+    // Size columns to their content, within reason
+    worksheet['!cols'] = header.map((title, index) => ({
+      wch: Math.min(60, Math.max(title.length, ...body.map(row => String(row[index]).length)) + 2)
+    }));
+    const workbook = XLSX.utils.book_new();
+    // Excel limits sheet names to 31 characters
+    XLSX.utils.book_append_sheet(workbook, worksheet, sheetName.slice(0, 31));
+    XLSX.writeFile(workbook, `${fileName}.xlsx`);
+  }
+
+  /**
+   * Download a PDF with a cover line and one page per candidate. Candidates that do not fit
+   * continue on the next page; each one starts on a fresh page.
+   */
+  downloadCandidatePack(entries: CandidatePackEntry[], title: string, fileName: string): void {
+    const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const contentWidth = pageWidth - PAGE_MARGIN * 2;
+    const generatedOn = new Date().toLocaleDateString();
+    let y = PAGE_MARGIN;
+
+    const ensureSpace = (height: number) => {
+      if (y + height > pageHeight - PAGE_MARGIN) {
+        doc.addPage();
+        y = PAGE_MARGIN;
+      }
+    };
+
+    const writeLines = (text: string, size: number, style: 'normal' | 'bold' = 'normal', color = 33) => {
+      doc.setFont('helvetica', style);
+      doc.setFontSize(size);
+      doc.setTextColor(color);
+      const lines: string[] = doc.splitTextToSize(text, contentWidth);
+      const lineHeight = size * LINE_HEIGHT;
+      lines.forEach(line => {
+        ensureSpace(lineHeight);
+        doc.text(line, PAGE_MARGIN, y + size);
+        y += lineHeight;
+      });
+    };
+
+    const writeSection = (heading: string, text?: string | null) => {
+      if (!text || !text.trim()) return;
+      y += 8;
+      ensureSpace(40);
+      writeLines(heading.toUpperCase(), 9, 'bold', 110);
+      writeLines(truncate(text.trim()), 10);
+    };
+
+    entries.forEach((entry, index) => {
+      if (index > 0) {
+        doc.addPage();
+        y = PAGE_MARGIN;
+      }
+
+      writeLines(`${title} · ${index + 1} of ${entries.length}`, 8, 'normal', 140);
+      y += 6;
+      writeLines(entry.name, 20, 'bold', 20);
+      if (entry.headline.length > 0) writeLines(entry.headline.join(' · '), 11, 'normal', 70);
+      if (entry.email) writeLines(entry.email, 10, 'normal', 90);
+      if (entry.status) writeLines(entry.status, 10, 'normal', 90);
+
+      y += 6;
+      doc.setDrawColor(210);
+      doc.line(PAGE_MARGIN, y, pageWidth - PAGE_MARGIN, y);
+      y += 6;
+
+      if (entry.match) {
+        y += 4;
+        writeLines(`Match score: ${Math.round(entry.match.score)}%`, 13, 'bold', 20);
+        if (entry.match.explanation) writeLines(truncate(entry.match.explanation), 10);
+        entry.match.details.forEach(detail => writeLines(`• ${detail}`, 10, 'normal', 70));
+      }
+
+      writeSection('Skills', entry.skills.join(', '));
+      writeSection('Summary', entry.bio);
+      writeSection('Experience', entry.workExperience);
+      writeSection('Education', entry.education);
+      writeSection('Certifications', entry.certifications);
+      if (entry.projects && entry.projects.length > 0) {
+        writeSection('Current projects', entry.projects.join('\n'));
+      }
+    });
+
+    // Footers go on last, once the page count is known
+    const pageCount = doc.getNumberOfPages();
+    for (let page = 1; page <= pageCount; page++) {
+      doc.setPage(page);
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(8);
+      doc.setTextColor(140);
+      doc.text(`Generated ${generatedOn}`, PAGE_MARGIN, pageHeight - PAGE_MARGIN / 2);
+      doc.text(`Page ${page} of ${pageCount}`, pageWidth - PAGE_MARGIN, pageHeight - PAGE_MARGIN / 2, { align: 'right' });
+    }
+
+    doc.save(`${fileName}.pdf`);
+  }
+}
+
+// Export singleton instance
+export const exportService = new ExportService();
@@ -0,0 +1,112 @@
+// Import Job Service
+// Runs bulk imports as server-side jobs. Each job plans every row first and is either previewed
+// (dry run) or applied as a whole; a failure on any row means nothing is written.
+
+import { supabase } from '@/integrations/supabase/client';
+
+export type ImportAction = 'create' | 'update' | 'duplicate' | 'error';
+export type ImportJobStatus = 'previewed' | 'completed' | 'failed';
+export type MergeRule = 'skip' | 'fill_empty' | 'overwrite';
+
+export const MERGE_RULE_LABELS: Record<MergeRule, string> = {
+  fill_empty: 'Fill in empty fields',
+  overwrite: 'Overwrite with imported values',
+  skip: 'Skip existing records'
+};
+
+export interface ImportOptions {
+  matchKey: string;
+  mergeRule: MergeRule;
+  dryRun: boolean;
+  fileName?: string;
+}
+
+export interface ImportRowResult {
+  row: number;
+  action: ImportAction;
+  key: string | null;
+  // The record the row matched or created: the talent profile for talent and allocation imports,
+  // the opportunity, allocation or skill otherwise
+  talent_profile_id?: string | null;
+  record_id?: string | null;
+  // Fields the row creates or changes
+  fields: string[];
+  messages: string[];
+}
+
+export interface ImportJobResult {
+  job_id: string;
+  status: ImportJobStatus;
+  dry_run: boolean;
+  error_message: string | null;
+  summary: Record<ImportAction | 'total', number>;
+  results: ImportRowResult[];
+}
+
+class ImportJobService {
+  /**
+   * Import talent rows keyed by the bulk import template's columns. New profiles go to the given team.
+   */
+  async importTalent(rows: Record<string, any>[], teamId: string | null, options: ImportOptions): Promise<ImportJobResult> {
+    const { data, error } = await supabase.rpc('import_talent_profiles', {
+      _rows: rows,
+      _team_id: teamId ?? undefined,
+      _match_key: options.matchKey,
+      _merge_rule: options.mergeRule,
+      _dry_run: options.dryRun,
+      _file_name: options.fileName
+    });
+
+    if (error) throw error;
+    return data as unknown as ImportJobResult;
+  }
+
+  /**
+   * Import opportunities with their skill requirements, matched on title. New ones go to the given team.
+   */
+  async importOpportunities(rows: Record<string, any>[], teamId: string | null, options: ImportOptions): Promise<ImportJobResult> {
+    const { data, error } = await supabase.rpc('import_opportunities', {
+      _rows: rows,
+      _team_id: teamId ?? undefined,
+      _merge_rule: options.mergeRule,
+      _dry_run: options.dryRun,
+      _file_name: options.fileName
+    });
+
+    if (error) throw error;
+    return data as unknown as ImportJobResult;
+  }
+
+  /**
+   * Import employee project allocations keyed by talent email and project name
+   */
+  async importAllocations(rows: Record<string, any>[], options: ImportOptions): Promise<ImportJobResult> {
+    const { data, error } = await supabase.rpc('import_employee_projects', {
+      _rows: rows,
+      _merge_rule: options.mergeRule,
+      _dry_run: options.dryRun,
+      _file_name: options.fileName
+    });
+
+    if (error) throw error;
+    return data as unknown as ImportJobResult;
+  }
+
+  /**
+   * Import skill catalog entries with their aliases, matched on name
+   */
+  async importSkills(rows: Record<string, any>[], options: ImportOptions): Promise<ImportJobResult> {
+    const { data, error } = await supabase.rpc('import_skills', {
+      _rows: rows,
+      _merge_rule: options.mergeRule,
+      _dry_run: options.dryRun,
+      _file_name: options.fileName
+    });
+
+    if (error) throw error;
+    return data as unknown as ImportJobResult;
+  }
+}
+
+// Export singleton instance
+export const importJobService = new ImportJobService();
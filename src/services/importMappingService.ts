@@ -0,0 +1,88 @@
+// Import Mapping Service
+// Saved column mappings for bulk imports: which spreadsheet header feeds each template field.
+// Mappings are named after their source and shared within the organization.
+
+import { supabase } from '@/integrations/supabase/client';
+
+// Template field -> source column header
+export type ColumnMapping = Record<string, string>;
+
+export interface ImportMapping {
+  id: string;
+  entity: string;
+  name: string;
+  mapping: ColumnMapping;
+}
+
+// Headers compare without case, spacing or punctuation: "First Name" matches first_name
+export const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Map each field to the header with the same normalized name, if there is one
+ */
+export const autoMapColumns = (fields: string[], headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  fields.forEach(field => {
+    const header = headers.find(h => normalizeHeader(h) === normalizeHeader(field));
+    if (header) mapping[field] = header;
+  });
+  return mapping;
+};
+
+/**
+ * The saved mapping that fits the headers best: the one using the most of them, ignoring any that
+ * refer to a header the file doesn't have
+ */
+export const bestSavedMapping = (mappings: ImportMapping[], headers: string[]): ImportMapping | null => {
+  let best: ImportMapping | null = null;
+  let bestScore = 0;
+
+  mappings.forEach(saved => {
+    const used = Object.values(saved.mapping);
+    if (used.length === 0 || !used.every(header => headers.includes(header))) return;
+    if (used.length > bestScore) {
+      best = saved;
+      bestScore = used.length;
+    }
+  });
+
+  return best;
+};
+
+class ImportMappingService {
+  /**
+   * Saved mappings for one kind of import, by name
+   */
+  async getMappings(entity: string): Promise<ImportMapping[]> {
+    const { data, error } = await supabase
+      .from('import_mappings')
+      .select('id, entity, name, mapping')
+      .eq('entity', entity)
+      .order('name');
+
+    if (error) throw error;
+    return (data || []).map(row => ({ ...row, mapping: (row.mapping || {}) as ColumnMapping }));
+  }
+
+  /**
+   * Save a mapping under a source name, replacing an existing one with the same name
+   */
+  async saveMapping(entity: string, name: string, mapping: ColumnMapping, existingId?: string): Promise<ImportMapping> {
+    const payload = { entity, name: name.trim(), mapping };
+    const query = existingId
+      ? supabase.from('import_mappings').update(payload).eq('id', existingId)
+      : supabase.from('import_mappings').insert(payload);
+
+    const { data, error } = await query.select('id, entity, name, mapping').single();
+    if (error) throw error;
+    return { ...data, mapping: (data.mapping || {}) as ColumnMapping };
+  }
+
+  async deleteMapping(id: string): Promise<void> {
+    const { error } = await supabase.from('import_mappings').delete().eq('id', id);
+    if (error) throw error;
+  }
+}
+
+// Export singleton instance
+export const importMappingService = new ImportMappingService();
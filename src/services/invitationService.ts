@@ -0,0 +1,146 @@
+// Invitation Service
+// Invitations bring people into the inviter's organization with a pre-assigned role and team. Each
+// has an expiring token; /auth?invite=<token> signs the invitee up or in and applies it.
+
+import { supabase } from '@/integrations/supabase/client';
+import { AppRole } from '@/hooks/useUserRole';
+
+export type InvitationStatus = 'pending' | 'accepted' | 'expired';
+
+export interface Invitation {
+  id: string;
+  email: string;
+  role: AppRole;
+  team_id: string | null;
+  token: string;
+  invited_by: string | null;
+  expires_at: string;
+  accepted_at: string | null;
+  accepted_by: string | null;
+  created_at: string;
+}
+
+// What an invitee sees before signing in
+export interface InvitationPreview {
+  email: string;
+  organization_name: string;
+  role: AppRole;
+  team_name: string | null;
+  expires_at: string;
+  status: InvitationStatus;
+}
+
+export interface SignupSettings {
+  self_signup_enabled: boolean;
+  allowed_domains: string[];
+}
+
+export const invitationStatus = (invitation: Invitation): InvitationStatus => {
+  if (invitation.accepted_at) return 'accepted';
+  return new Date(invitation.expires_at) <= new Date() ? 'expired' : 'pending';
+};
+
+export const invitationLink = (token: string) => `${window.location.origin}/auth?invite=${token}`;
+
+/**
+ * Why the signup settings reject an email, or null when it may sign up. The enforce_signup_policy
+ * trigger applies the same rules; this only lets the form explain them.
+ */
+export const signupBlockReason = (email: string, settings: SignupSettings | null): string | null => {
+  if (!settings) return null;
+  if (!settings.self_signup_enabled) return 'Signup is by invitation only';
+
+  const domain = email.split('@')[1]?.toLowerCase();
+  if (settings.allowed_domains.length > 0 && !settings.allowed_domains.includes(domain)) {
+    return `Signup is restricted to ${settings.allowed_domains.map(d => `@${d}`).join(', ')} addresses`;
+  }
+  return null;
+};
+
+class InvitationService {
+  /**
+   * Invitations the caller sent, or all of the organization's for org admins, newest first
+   */
+  async getInvitations(): Promise<Invitation[]> {
+    const { data, error } = await supabase
+      .from('invitations')
+      .select('id, email, role, team_id, token, invited_by, expires_at, accepted_at, accepted_by, created_at')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Invite an email address. Fails when it already has an open invitation.
+   */
+  async createInvitation(email: string, role: AppRole, teamId: string | null, invitedBy: string): Promise<Invitation> {
+    const { data, error } = await supabase
+      .from('invitations')
+      .insert({ email: email.trim().toLowerCase(), role, team_id: teamId, invited_by: invitedBy })
+      .select('id, email, role, team_id, token, invited_by, expires_at, accepted_at, accepted_by, created_at')
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Issue a fresh token and restart the expiry. The previous link stops working.
+   */
+  async resendInvitation(id: string): Promise<void> {
+    const { error } = await supabase.rpc('resend_invitation', { _invitation_id: id });
+    if (error) throw error;
+  }
+
+  async revokeInvitation(id: string): Promise<void> {
+    const { error } = await supabase.from('invitations').delete().eq('id', id);
+    if (error) throw error;
+  }
+
+  /**
+   * Look an invitation up by token. Works signed out.
+   */
+  async getInvitation(token: string): Promise<InvitationPreview | null> {
+    const { data, error } = await supabase.rpc('get_invitation', { _token: token });
+    if (error) throw error;
+
+    const invitation = data?.[0];
+    if (!invitation) return null;
+    return { ...invitation, status: invitation.status as InvitationStatus };
+  }
+
+  /**
+   * Accept an invitation with the signed-in account. New accounts don't need this: the signup
+   * trigger applies their invitation.
+   */
+  async acceptInvitation(token: string): Promise<void> {
+    const { error } = await supabase.rpc('accept_invitation', { _token: token });
+    if (error) throw error;
+  }
+
+  async getSignupSettings(): Promise<SignupSettings | null> {
+    const { data, error } = await supabase
+      .from('signup_settings')
+      .select('self_signup_enabled, allowed_domains')
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Change who may sign up without an invitation (admins only)
+   */
+  async updateSignupSettings(settings: SignupSettings): Promise<void> {
+    const { error } = await supabase
+      .from('signup_settings')
+      .update(settings)
+      .eq('id', true);
+
+    if (error) throw error;
+  }
+}
+
+// Export singleton instance
+export const invitationService = new InvitationService();
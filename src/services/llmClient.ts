@@ -0,0 +1,278 @@
+// LLM Client
+// Typed client for the llm-gateway edge function; every AI feature calls the model through here
+
+import * as z from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+
+export type LLMFeature = 'career_tips' | 'courses' | 'match_scoring' | 'voice_command' | 'resume_parsing';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMChatRequest {
+  feature: LLMFeature;
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMChatResponse {
+  content: string;
+  model: string;
+  usage: LLMUsage;
+}
+
+export interface LLMMatchPair {
+  talentId: string;
+  opportunityId: string;
+}
+
+export interface LLMMatchScore extends LLMMatchPair {
+  score: number;
+  explanation: string;
+  fromCache: boolean;
+}
+
+export type LLMErrorCode =
+  | 'unauthenticated'
+  | 'forbidden'
+  | 'rate_limited'
+  | 'credit_limit'
+  | 'bad_request'
+  | 'upstream_error'
+  | 'network_error';
+
+export class LLMGatewayError extends Error {
+  code: LLMErrorCode;
+  status: number;
+  // Seconds, when the gateway asked the caller to back off
+  retryAfter?: number;
+
+  constructor(code: LLMErrorCode, message: string, status: number, retryAfter?: number) {
+    super(message);
+    this.name = 'LLMGatewayError';
+    this.code = code;
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+
+  /**
+   * Rate limit or provider credit errors, where falling back to non-AI results is expected
+   */
+  get isQuotaError(): boolean {
+    return this.code === 'rate_limited' || this.code === 'credit_limit';
+  }
+}
+
+// Thrown when the model's reply still does not match the schema after the repair round
+export class LLMValidationError extends Error {
+  issues: string[];
+  content: string;
+
+  constructor(issues: string[], content: string) {
+    super(`AI response failed validation: ${issues.join('; ')}`);
+    this.name = 'LLMValidationError';
+    this.issues = issues;
+    this.content = content;
+  }
+}
+
+const GATEWAY_FUNCTION = 'llm-gateway';
+const MAX_REPORTED_ISSUES = 5;
+
+type StructuredResult<T> = { success: true; data: T } | { success: false; issues: string[] };
+
+/**
+ * Pull the JSON value out of a reply (dropping code fences or surrounding prose) and validate it
+ */
+export const parseStructured = <T>(content: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): StructuredResult<T> => {
+  const text = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  const objectStart = text.indexOf('{');
+  const arrayStart = text.indexOf('[');
+  const isArray = arrayStart !== -1 && (objectStart === -1 || arrayStart < objectStart);
+  const start = isArray ? arrayStart : objectStart;
+  const end = text.lastIndexOf(isArray ? ']' : '}');
+
+  if (start === -1 || end <= start) {
+    return { success: false, issues: ['Response does not contain a JSON value'] };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text.substring(start, end + 1));
+  } catch (error) {
+    return { success: false, issues: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const result = schema.safeParse(json);
+  if (result.success) return { success: true, data: result.data };
+
+  return {
+    success: false,
+    issues: result.error.issues
+      .slice(0, MAX_REPORTED_ISSUES)
+      .map(issue => `${issue.path.length > 0 ? issue.path.join('.') : 'root'}: ${issue.message}`)
+  };
+};
+
+const repairPrompt = (issues: string[]) =>
+  `Your previous reply could not be used:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Reply again with ONLY the corrected JSON in the format requested above. No markdown, no explanations.`;
+
+interface GatewayPayload {
+  content?: string;
+  model?: string;
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number } | null;
+  // match_scoring replies
+  scores?: Array<{ talent_id: string; opportunity_id: string; score: number; explanation: string; from_cache: boolean }>;
+  error?: { code?: LLMErrorCode; message?: string };
+}
+
+const toError = (status: number, payload: GatewayPayload | null, retryAfter?: string | null) =>
+  new LLMGatewayError(
+    payload?.error?.code || (status === 0 ? 'network_error' : 'upstream_error'),
+    payload?.error?.message || `LLM gateway error: ${status}`,
+    status,
+    retryAfter ? Number(retryAfter) : undefined
+  );
+
+class LLMClient {
+  // When set (e.g. a local mock server), requests go straight to this URL instead of the edge function
+  private gatewayUrl: string | null;
+
+  constructor(gatewayUrl: string | null = import.meta.env.VITE_LLM_GATEWAY_URL || null) {
+    this.gatewayUrl = gatewayUrl;
+  }
+
+  /**
+   * Point the client at another gateway, or back at the edge function with null
+   */
+  setGatewayUrl(gatewayUrl: string | null) {
+    this.gatewayUrl = gatewayUrl;
+  }
+
+  /**
+   * Send a chat completion through the gateway and return the model's reply
+   */
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    const body = {
+      feature: request.feature,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens
+    };
+
+    const payload = this.gatewayUrl ? await this.postToUrl(body) : await this.invokeFunction(body);
+
+    return {
+      content: payload.content || '',
+      model: payload.model || 'unknown',
+      usage: {
+        promptTokens: payload.usage?.prompt_tokens || 0,
+        completionTokens: payload.usage?.completion_tokens || 0,
+        totalTokens: payload.usage?.total_tokens || 0
+      }
+    };
+  }
+
+  /**
+   * Chat and validate the reply against a schema. An invalid reply gets one repair round,
+   * where the model sees its answer and the validation issues, before LLMValidationError is thrown.
+   */
+  async chatStructured<T>(request: LLMChatRequest, schema: z.ZodType<T, z.ZodTypeDef, unknown>): Promise<T> {
+    const first = await this.chat(request);
+    const firstResult = parseStructured(first.content, schema);
+    if (firstResult.success === false) {
+      console.warn(`AI response for ${request.feature} failed validation, asking for a repair:`, firstResult.issues);
+
+      const repaired = await this.chat({
+        ...request,
+        messages: [
+          ...request.messages,
+          { role: 'assistant', content: first.content },
+          { role: 'user', content: repairPrompt(firstResult.issues) }
+        ]
+      });
+      const repairedResult = parseStructured(repaired.content, schema);
+      if (repairedResult.success === false) {
+        throw new LLMValidationError(repairedResult.issues, repaired.content);
+      }
+      return repairedResult.data;
+    }
+
+    return firstResult.data;
+  }
+
+  /**
+   * Score talent-opportunity pairs. The gateway builds the prompt from the stored profiles and keeps
+   * the score cache; with cachedOnly it only returns the scores it already has. Pairs the model
+   * failed to score, or the caller can't see, are left out.
+   */
+  async scoreMatches(pairs: LLMMatchPair[], cachedOnly = false): Promise<LLMMatchScore[]> {
+    const body = {
+      feature: 'match_scoring',
+      pairs: pairs.map(pair => ({ talent_id: pair.talentId, opportunity_id: pair.opportunityId })),
+      cached_only: cachedOnly
+    };
+
+    const payload = this.gatewayUrl ? await this.postToUrl(body) : await this.invokeFunction(body);
+
+    return (payload.scores || []).map(score => ({
+      talentId: score.talent_id,
+      opportunityId: score.opportunity_id,
+      score: score.score,
+      explanation: score.explanation,
+      fromCache: score.from_cache
+    }));
+  }
+
+  private async invokeFunction(body: object): Promise<GatewayPayload> {
+    const { data, error } = await supabase.functions.invoke(GATEWAY_FUNCTION, { body });
+    if (!error) return data as GatewayPayload;
+
+    // FunctionsHttpError carries the gateway's Response in context
+    const response: Response | undefined = (error as { context?: Response }).context;
+    if (response && typeof response.json === 'function') {
+      const payload = await response.json().catch(() => null);
+      throw toError(response.status, payload, response.headers.get('Retry-After'));
+    }
+    throw new LLMGatewayError('network_error', error.message, 0);
+  }
+
+  private async postToUrl(body: object): Promise<GatewayPayload> {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    let response: Response;
+    try {
+      response = await fetch(this.gatewayUrl as string, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(session?.access_token ? { 'Authorization': `Bearer ${session.access_token}` } : {})
+        },
+        body: JSON.stringify(body)
+      });
+    } catch (error) {
+      throw new LLMGatewayError('network_error', error instanceof Error ? error.message : 'Network error', 0);
+    }
+
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw toError(response.status, payload, response.headers.get('Retry-After'));
+    }
+    return payload as GatewayPayload;
+  }
+}
+
+// Export singleton instance
+export const llmClient = new LLMClient();
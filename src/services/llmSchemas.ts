@@ -0,0 +1,112 @@
+// LLM Schemas
+// zod schemas for the structured replies each AI feature expects from the model
+
+import * as z from 'zod';
+
+// Models often send numbers as strings ("8") and ids as numbers; accept both
+const looseString = z.union([z.string(), z.number()]).transform(String);
+const difficulty = z.preprocess(
+  value => typeof value === 'string'
+    ? value.trim().charAt(0).toUpperCase() + value.trim().slice(1).toLowerCase()
+    : value,
+  z.enum(['Beginner', 'Intermediate', 'Advanced'])
+);
+const looseBoolean = z.union([z.boolean(), z.enum(['true', 'false'])]).transform(value => value === true || value === 'true');
+
+export const careerTipSchema = z.object({
+  id: looseString,
+  title: z.string().min(1),
+  description: z.string().min(1),
+  category: z.string().min(1),
+  difficulty,
+  relevance_score: z.coerce.number().min(0).max(10)
+});
+
+export const careerTipsSchema = z.array(careerTipSchema).min(1);
+
+export const courseSchema = z.object({
+  id: looseString,
+  title: z.string().min(1),
+  provider: z.string().min(1),
+  url: z.string().url(),
+  thumbnail: z.string().default(''),
+  duration: looseString,
+  rating: z.coerce.number().min(0).max(5),
+  skills: z.array(z.string()).default([]),
+  difficulty,
+  relevance_score: z.coerce.number().min(0).max(10),
+  is_upskill: looseBoolean
+});
+
+export const coursesSchema = z.array(courseSchema).min(1);
+
+export const VOICE_ACTIONS = [
+  'find_talents',
+  'find_opportunities',
+  'show_talent_profile',
+  'match_talent_to_opportunity',
+  'match_opportunity_to_talents',
+  'show_stats'
+] as const;
+
+export const voiceCommandSchema = z.object({
+  action: z.enum(VOICE_ACTIONS),
+  filters: z.object({
+    skills: z.array(z.string()).nullish(),
+    role: z.string().nullish(),
+    experience_min: z.coerce.number().nullish(),
+    talent_name: z.string().nullish(),
+    opportunity_title: z.string().nullish(),
+    location: z.string().nullish()
+  }).nullish().transform(filters => filters || {}),
+  response: z.string().default(''),
+  confidence: z.coerce.number().min(0).max(1).optional()
+});
+
+// Resume fields the model may leave out, send as null or as numbers; all become trimmed strings
+const resumeText = z.union([z.string(), z.number()]).nullish()
+  .transform(value => (value === null || value === undefined ? '' : String(value).trim()));
+// List entries may come back as objects ({ degree, school, year }); their values are joined
+const resumeList = z.array(z.union([z.string(), z.number(), z.record(z.unknown())])).nullish()
+  .transform(items => (items || [])
+    .map(item => (typeof item === 'object' ? Object.values(item).filter(Boolean).join(', ') : String(item)).trim())
+    .filter(Boolean));
+
+export const resumeExperienceSchema = z.object({
+  title: resumeText,
+  company: resumeText,
+  startDate: resumeText,
+  endDate: resumeText,
+  duration: resumeText,
+  description: resumeText
+});
+
+export const resumeParseSchema = z.object({
+  firstName: resumeText,
+  lastName: resumeText,
+  email: resumeText,
+  phone: resumeText,
+  location: resumeText,
+  yearsExperience: z.preprocess(value => {
+    const years = Number(value);
+    return Number.isFinite(years) && years > 0 ? years : 0;
+  }, z.number()),
+  skills: resumeList,
+  links: z.object({
+    linkedin: resumeText,
+    github: resumeText,
+    portfolio: resumeText
+  }).nullish(),
+  sections: z.object({
+    bioText: resumeText,
+    experience: z.array(resumeExperienceSchema).nullish().transform(items => items || []),
+    education: resumeList,
+    certifications: resumeList
+  }).nullish()
+});
+
+export type AICareerTip = z.infer<typeof careerTipSchema>;
+export type AICourse = z.infer<typeof courseSchema>;
+export type VoiceCommand = z.infer<typeof voiceCommandSchema>;
+export type VoiceCommandFilters = VoiceCommand['filters'];
+export type AIResumeParse = z.infer<typeof resumeParseSchema>;
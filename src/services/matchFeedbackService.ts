@@ -0,0 +1,190 @@
+// Match Feedback Service
+// Stores manager feedback on matches and turns it into scoring weights for the rule-based matcher
+
+import { supabase } from '@/integrations/supabase/client';
+
+export type MatchFactor = 'skills' | 'role' | 'experience' | 'location' | 'bio';
+
+// Normalized factor values (roughly 0-1) produced by the rule-based scorer
+export type ScoreBreakdown = Record<MatchFactor, number>;
+
+// Points each factor can contribute to a 0-100 score
+export type MatchWeights = Record<MatchFactor, number>;
+
+export const DEFAULT_MATCH_WEIGHTS: MatchWeights = {
+  skills: 50,
+  role: 25,
+  experience: 15,
+  location: 5,
+  bio: 5
+};
+
+export const MATCH_FACTORS: MatchFactor[] = ['skills', 'role', 'experience', 'location', 'bio'];
+
+export interface MatchFeedbackEntry {
+  matchId: string;
+  thumbs: -1 | 1 | null;
+  accuracyRating: number | null;
+  comment: string;
+}
+
+export interface ScoringModeAccuracy {
+  scoringMode: string;
+  feedbackCount: number;
+  thumbsUp: number;
+  thumbsDown: number;
+  avgAccuracyRating: number | null;
+  avgMatchScore: number | null;
+}
+
+export interface LearnedWeights {
+  weights: MatchWeights;
+  sampleSize: number;
+  isLearned: boolean;
+}
+
+// Feedback needed before the defaults are adjusted
+const MIN_FEEDBACK_SAMPLES = 10;
+// How far a weight may drift from its default, as a fraction of the default
+const MAX_WEIGHT_DRIFT = 0.5;
+const LEARNING_RATE = 1.5;
+
+/**
+ * Turn thumbs and a 1-5 rating into a single signal between -1 and 1
+ */
+export const feedbackSignal = (thumbs: number | null, accuracyRating: number | null): number | null => {
+  const signals: number[] = [];
+  if (thumbs === 1 || thumbs === -1) signals.push(thumbs);
+  if (accuracyRating) signals.push((accuracyRating - 3) / 2);
+  if (signals.length === 0) return null;
+  return signals.reduce((sum, value) => sum + value, 0) / signals.length;
+};
+
+/**
+ * Shift weight toward factors that were high on well-rated matches and low on poorly-rated ones.
+ * The total stays at 100 so scores remain comparable with the defaults.
+ */
+export const computeLearnedWeights = (
+  samples: Array<{ breakdown: ScoreBreakdown; signal: number }>
+): LearnedWeights => {
+  if (samples.length < MIN_FEEDBACK_SAMPLES) {
+    return { weights: { ...DEFAULT_MATCH_WEIGHTS }, sampleSize: samples.length, isLearned: false };
+  }
+
+  const adjusted = {} as MatchWeights;
+  MATCH_FACTORS.forEach(factor => {
+    // Covariance between the factor value and the feedback signal
+    const values = samples.map(sample => Math.max(-1, Math.min(1, sample.breakdown[factor] || 0)));
+    const meanValue = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const meanSignal = samples.reduce((sum, sample) => sum + sample.signal, 0) / samples.length;
+    const covariance = samples.reduce((sum, sample, index) =>
+      sum + (values[index] - meanValue) * (sample.signal - meanSignal), 0) / samples.length;
+
+    const drift = Math.max(-MAX_WEIGHT_DRIFT, Math.min(MAX_WEIGHT_DRIFT, covariance * LEARNING_RATE));
+    adjusted[factor] = DEFAULT_MATCH_WEIGHTS[factor] * (1 + drift);
+  });
+
+  const total = MATCH_FACTORS.reduce((sum, factor) => sum + adjusted[factor], 0);
+  const weights = {} as MatchWeights;
+  MATCH_FACTORS.forEach(factor => {
+    weights[factor] = Math.round((adjusted[factor] / total) * 1000) / 10;
+  });
+
+  return { weights, sampleSize: samples.length, isLearned: true };
+};
+
+class MatchFeedbackService {
+  /**
+   * Save (or update) the current user's feedback on a match
+   */
+  async submitFeedback(feedback: MatchFeedbackEntry, userId: string): Promise<void> {
+    const { error } = await supabase
+      .from('match_feedback')
+      .upsert({
+        match_id: feedback.matchId,
+        user_id: userId,
+        rating: feedback.thumbs,
+        accuracy_rating: feedback.accuracyRating,
+        feedback_text: feedback.comment.trim() || null
+      }, { onConflict: 'match_id,user_id' });
+
+    if (error) throw error;
+  }
+
+  /**
+   * Load the current user's feedback for a set of matches, keyed by match id
+   */
+  async getFeedbackForMatches(matchIds: string[], userId: string): Promise<Record<string, MatchFeedbackEntry>> {
+    if (matchIds.length === 0) return {};
+
+    const { data, error } = await supabase
+      .from('match_feedback')
+      .select('match_id, rating, accuracy_rating, feedback_text')
+      .eq('user_id', userId)
+      .in('match_id', matchIds);
+
+    if (error) throw error;
+
+    return (data || []).reduce((acc, row) => {
+      acc[row.match_id] = {
+        matchId: row.match_id,
+        thumbs: row.rating === 1 || row.rating === -1 ? row.rating : null,
+        accuracyRating: row.accuracy_rating,
+        comment: row.feedback_text || ''
+      };
+      return acc;
+    }, {} as Record<string, MatchFeedbackEntry>);
+  }
+
+  /**
+   * Aggregate feedback per scoring mode
+   */
+  async getScoringModeAccuracy(): Promise<ScoringModeAccuracy[]> {
+    const { data, error } = await supabase
+      .from('match_feedback_accuracy')
+      .select('*');
+
+    if (error) throw error;
+
+    return (data || []).map(row => ({
+      scoringMode: row.scoring_mode || 'unknown',
+      feedbackCount: row.feedback_count || 0,
+      thumbsUp: row.thumbs_up || 0,
+      thumbsDown: row.thumbs_down || 0,
+      avgAccuracyRating: row.avg_accuracy_rating,
+      avgMatchScore: row.avg_match_score
+    }));
+  }
+
+  /**
+   * Derive rule-based scoring weights from all feedback that has a stored factor breakdown
+   */
+  async getLearnedWeights(): Promise<LearnedWeights> {
+    const { data, error } = await supabase
+      .from('match_feedback')
+      .select(`
+        rating,
+        accuracy_rating,
+        matches (
+          score_breakdown
+        )
+      `)
+      .order('created_at', { ascending: false })
+      .limit(1000);
+
+    if (error) throw error;
+
+    const samples = (data || [])
+      .map((row: any) => ({
+        breakdown: row.matches?.score_breakdown as ScoreBreakdown | null,
+        signal: feedbackSignal(row.rating, row.accuracy_rating)
+      }))
+      .filter((sample): sample is { breakdown: ScoreBreakdown; signal: number } =>
+        !!sample.breakdown && sample.signal !== null);
+
+    return computeLearnedWeights(samples);
+  }
+}
+
+// Export singleton instance
+export const matchFeedbackService = new MatchFeedbackService();
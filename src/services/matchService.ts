@@ -0,0 +1,170 @@
+// Match Service for storing and reopening AI matching runs
+// Every matching run is written to the matches table so shortlists can be reopened later
+
+import { supabase } from '@/integrations/supabase/client';
+import type { ScoreBreakdown } from '@/services/matchFeedbackService';
+import type { SkillMatchDetail } from '@/services/skillMatchingService';
+
+export type ScoringMode = 'ai' | 'rule_based';
+export type MatchDirection = 'by_opportunity' | 'by_talent';
+
+export interface MatchResultInput {
+  opportunityId: string;
+  talentProfileId: string;
+  score: number;
+  explanation: string;
+  // How this match was scored; an AI run only re-scores its shortlist
+  scoringMode: ScoringMode;
+  breakdown?: ScoreBreakdown;
+  skillBreakdown?: SkillMatchDetail[];
+}
+
+export interface StoredMatch {
+  id: string;
+  run_id: string;
+  run_at: string;
+  scoring_mode: ScoringMode;
+  match_direction: MatchDirection;
+  opportunity_id: string;
+  talent_profile_id: string;
+  match_score: number | null;
+  ai_explanation: string | null;
+  score_breakdown: ScoreBreakdown | null;
+  skill_breakdown: SkillMatchDetail[] | null;
+  talent_profiles?: any;
+  opportunities?: any;
+}
+
+export interface MatchRunSummary {
+  runId: string;
+  runAt: string;
+  // 'ai' when any match of the run was scored by the AI
+  scoringMode: ScoringMode;
+  direction: MatchDirection;
+  matchCount: number;
+  topScore: number;
+}
+
+export interface SavedMatchRun extends MatchRunSummary {
+  matches: Array<{ id: string; opportunity_id: string; talent_profile_id: string }>;
+}
+
+class MatchService {
+  /**
+   * Store the results of a single matching run
+   */
+  async saveRun(
+    direction: MatchDirection,
+    results: MatchResultInput[],
+    userId?: string
+  ): Promise<SavedMatchRun | null> {
+    if (results.length === 0) return null;
+
+    const runId = crypto.randomUUID();
+    const runAt = new Date().toISOString();
+
+    const { data, error } = await supabase
+      .from('matches')
+      .insert(results.map(result => ({
+        run_id: runId,
+        run_at: runAt,
+        scoring_mode: result.scoringMode,
+        match_direction: direction,
+        opportunity_id: result.opportunityId,
+        talent_profile_id: result.talentProfileId,
+        match_score: Math.max(0, Math.min(100, Math.round(result.score))),
+        ai_explanation: result.explanation,
+        score_breakdown: result.breakdown ? { ...result.breakdown } : null,
+        skill_breakdown: result.skillBreakdown ? result.skillBreakdown.map(detail => ({ ...detail })) : null,
+        created_by: userId || null
+      })))
+      .select('id, opportunity_id, talent_profile_id');
+
+    if (error) throw error;
+
+    return {
+      runId,
+      runAt,
+      scoringMode: results.some(result => result.scoringMode === 'ai') ? 'ai' : 'rule_based',
+      direction,
+      matchCount: results.length,
+      topScore: Math.max(...results.map(result => result.score)),
+      matches: data || []
+    };
+  }
+
+  /**
+   * List previous runs that ranked talents for an opportunity
+   */
+  async getRunsForOpportunity(opportunityId: string): Promise<MatchRunSummary[]> {
+    const { data, error } = await supabase
+      .from('matches')
+      .select('run_id, run_at, scoring_mode, match_direction, match_score')
+      .eq('opportunity_id', opportunityId)
+      .eq('match_direction', 'by_opportunity')
+      .order('run_at', { ascending: false });
+
+    if (error) throw error;
+    return this.summarizeRuns(data || []);
+  }
+
+  /**
+   * List previous runs that ranked opportunities for a talent
+   */
+  async getRunsForTalent(talentProfileId: string): Promise<MatchRunSummary[]> {
+    const { data, error } = await supabase
+      .from('matches')
+      .select('run_id, run_at, scoring_mode, match_direction, match_score')
+      .eq('talent_profile_id', talentProfileId)
+      .eq('match_direction', 'by_talent')
+      .order('run_at', { ascending: false });
+
+    if (error) throw error;
+    return this.summarizeRuns(data || []);
+  }
+
+  /**
+   * Load every match of a run, ranked by score, with the talent and opportunity attached
+   */
+  async getRunMatches(runId: string): Promise<StoredMatch[]> {
+    const { data, error } = await supabase
+      .from('matches')
+      .select(`
+        *,
+        talent_profiles (*),
+        opportunities (*)
+      `)
+      .eq('run_id', runId)
+      .order('match_score', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as unknown as StoredMatch[];
+  }
+
+  private summarizeRuns(rows: Array<{ run_id: string; run_at: string; scoring_mode: string; match_direction: string; match_score: number | null }>): MatchRunSummary[] {
+    const runs = new Map<string, MatchRunSummary>();
+
+    rows.forEach(row => {
+      const existing = runs.get(row.run_id);
+      if (existing) {
+        existing.matchCount++;
+        if (row.scoring_mode === 'ai') existing.scoringMode = 'ai';
+        existing.topScore = Math.max(existing.topScore, row.match_score || 0);
+      } else {
+        runs.set(row.run_id, {
+          runId: row.run_id,
+          runAt: row.run_at,
+          scoringMode: row.scoring_mode as ScoringMode,
+          direction: row.match_direction as MatchDirection,
+          matchCount: 1,
+          topScore: row.match_score || 0
+        });
+      }
+    });
+
+    return Array.from(runs.values()).sort((a, b) => b.runAt.localeCompare(a.runAt));
+  }
+}
+
+// Export singleton instance
+export const matchService = new MatchService();
@@ -0,0 +1,50 @@
+// Opportunity Budget Service
+// Budgets live in opportunity_budgets, readable only with the view_compensation permission.
+// Without it the queries simply return nothing, so callers treat a missing budget as hidden.
+
+import { supabase } from '@/integrations/supabase/client';
+
+export interface OpportunityBudget {
+  budget_min: number | null;
+  budget_max: number | null;
+}
+
+class OpportunityBudgetService {
+  /**
+   * Budgets of the given opportunities that the caller may see, keyed by opportunity id
+   */
+  async getBudgets(opportunityIds: string[]): Promise<Map<string, OpportunityBudget>> {
+    if (opportunityIds.length === 0) return new Map();
+
+    const { data, error } = await supabase
+      .from('opportunity_budgets')
+      .select('opportunity_id, budget_min, budget_max')
+      .in('opportunity_id', opportunityIds);
+
+    if (error) throw error;
+    return new Map((data || []).map(row => [
+      row.opportunity_id,
+      { budget_min: row.budget_min, budget_max: row.budget_max }
+    ]));
+  }
+
+  /**
+   * Set or clear an opportunity's budget
+   */
+  async saveBudget(opportunityId: string, budget: OpportunityBudget): Promise<void> {
+    if (budget.budget_min === null && budget.budget_max === null) {
+      const { error } = await supabase.from('opportunity_budgets').delete().eq('opportunity_id', opportunityId);
+      if (error) throw error;
+      return;
+    }
+
+    const { error } = await supabase
+      .from('opportunity_budgets')
+      .upsert({ opportunity_id: opportunityId, ...budget }, { onConflict: 'opportunity_id' });
+
+    if (error) throw error;
+  }
+}
+
+// Export singleton instance
+export const opportunityBudgetService = new OpportunityBudgetService();
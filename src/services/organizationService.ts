@@ -0,0 +1,101 @@
+// Organization Service
+// Organizations are the tenants of a deployment. Users join one by email domain when they sign up
+// (handle_new_user); the RLS policies keep each organization's data to its own members.
+
+import { supabase } from '@/integrations/supabase/client';
+
+export interface Organization {
+  id: string;
+  name: string;
+  domain: string | null;
+  created_at: string;
+}
+
+class OrganizationService {
+  /**
+   * The current user's organization
+   */
+  async getCurrentOrganization(): Promise<Organization | null> {
+    const { data: organizationId, error: idError } = await supabase.rpc('current_organization_id');
+    if (idError) throw idError;
+    if (!organizationId) return null;
+
+    const { data, error } = await supabase
+      .from('organizations')
+      .select('id, name, domain, created_at')
+      .eq('id', organizationId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Organizations the caller can see: every one for admins, their own otherwise
+   */
+  async getOrganizations(): Promise<Organization[]> {
+    const { data, error } = await supabase
+      .from('organizations')
+      .select('id, name, domain, created_at')
+      .order('name');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Number of members per organization
+   */
+  async getMemberCounts(): Promise<Map<string, number>> {
+    const { data, error } = await supabase
+      .from('organization_members')
+      .select('organization_id');
+
+    if (error) throw error;
+
+    const counts = new Map<string, number>();
+    (data || []).forEach(row => {
+      counts.set(row.organization_id, (counts.get(row.organization_id) || 0) + 1);
+    });
+    return counts;
+  }
+
+  /**
+   * Create an organization ahead of its first signup (admins only). New users with an email at
+   * the domain join it.
+   */
+  async createOrganization(name: string, domain: string | null): Promise<Organization> {
+    const { data, error } = await supabase
+      .from('organizations')
+      .insert({ name: name.trim(), domain: normalizeDomain(domain) })
+      .select('id, name, domain, created_at')
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Rename an organization. Only admins may change the domain.
+   */
+  async updateOrganization(id: string, updates: Partial<Pick<Organization, 'name' | 'domain'>>): Promise<void> {
+    const { error } = await supabase
+      .from('organizations')
+      .update({
+        ...updates,
+        ...(updates.domain !== undefined && { domain: normalizeDomain(updates.domain) })
+      })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+}
+
+// Accepts "acme.com", "@acme.com" or "jane@acme.com"
+export const normalizeDomain = (domain: string | null) => {
+  const normalized = domain?.trim().toLowerCase().split('@').pop();
+  return normalized || null;
+};
+
+// Export singleton instance
+export const organizationService = new OrganizationService();
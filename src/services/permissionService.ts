@@ -0,0 +1,92 @@
+// Permission Service
+// Granular permissions on top of roles. Each role has a default set (role_permissions) and admins can
+// grant individual users more (user_permissions); has_permission() combines both for RLS and the UI.
+
+import { supabase } from '@/integrations/supabase/client';
+import { AppPermission, AppRole } from '@/hooks/useUserRole';
+
+export const PERMISSIONS: AppPermission[] = ['view_compensation', 'edit_talent', 'delete_records', 'run_ai_matching', 'invite_users'];
+
+export const PERMISSION_LABELS: Record<AppPermission, { label: string; description: string }> = {
+  view_compensation: { label: 'View salary & budget', description: 'See and set opportunity budgets' },
+  edit_talent: { label: 'Edit talent', description: 'Add and edit talent profiles in their teams' },
+  delete_records: { label: 'Delete', description: 'Delete talent and opportunities in their teams' },
+  run_ai_matching: { label: 'Run AI matching', description: 'Run matching and save match results' },
+  invite_users: { label: 'Invite users', description: 'Invite people into the organization with a role and team' }
+};
+
+export interface UserPermissionGrant {
+  id: string;
+  user_id: string;
+  permission: AppPermission;
+  granted_by: string | null;
+  created_at: string;
+}
+
+class PermissionService {
+  /**
+   * Default permissions of each role
+   */
+  async getRolePermissions(): Promise<Map<AppRole, AppPermission[]>> {
+    const { data, error } = await supabase
+      .from('role_permissions')
+      .select('role, permission');
+
+    if (error) throw error;
+
+    const defaults = new Map<AppRole, AppPermission[]>();
+    (data || []).forEach(row => {
+      defaults.set(row.role, [...(defaults.get(row.role) || []), row.permission]);
+    });
+    return defaults;
+  }
+
+  /**
+   * Turn a permission on or off for everyone holding a role (admins only)
+   */
+  async setRolePermission(role: AppRole, permission: AppPermission, enabled: boolean): Promise<void> {
+    const { error } = enabled
+      ? await supabase
+          .from('role_permissions')
+          .upsert({ role, permission }, { onConflict: 'role,permission', ignoreDuplicates: true })
+      : await supabase
+          .from('role_permissions')
+          .delete()
+          .eq('role', role)
+          .eq('permission', permission);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Permissions granted to individual users on top of their roles (admins only)
+   */
+  async getUserGrants(): Promise<UserPermissionGrant[]> {
+    const { data, error } = await supabase
+      .from('user_permissions')
+      .select('id, user_id, permission, granted_by, created_at')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async grantUserPermission(userId: string, permission: AppPermission, grantedBy: string): Promise<void> {
+    const { error } = await supabase
+      .from('user_permissions')
+      .upsert(
+        { user_id: userId, permission, granted_by: grantedBy },
+        { onConflict: 'user_id,permission', ignoreDuplicates: true }
+      );
+
+    if (error) throw error;
+  }
+
+  async revokeUserPermission(grantId: string): Promise<void> {
+    const { error } = await supabase.from('user_permissions').delete().eq('id', grantId);
+    if (error) throw error;
+  }
+}
+
+// Export singleton instance
+export const permissionService = new PermissionService();
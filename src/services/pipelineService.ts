@@ -0,0 +1,260 @@
+// Pipeline Service
+// Per-opportunity candidate pipeline: configurable stages, candidate moves and stage history.
+// Hiring side effects (assignment, filled opportunity) happen in the database trigger.
+
+import { supabase } from '@/integrations/supabase/client';
+
+export type StageOutcome = 'hired' | 'rejected';
+
+export interface PipelineStage {
+  id: string;
+  key: string;
+  label: string;
+  position: number;
+  outcome: StageOutcome | null;
+}
+
+export interface PipelineCandidate {
+  id: string;
+  opportunity_id: string;
+  talent_profile_id: string;
+  stage_id: string;
+  position: number;
+  rejection_reason: string | null;
+  stage_entered_at: string;
+  created_at: string;
+  talent_profiles?: {
+    first_name: string | null;
+    last_name: string | null;
+    email: string;
+    talent_role: string;
+    talent_type: string | null;
+    avatar_url: string | null;
+  } | null;
+}
+
+export interface StageEvent {
+  id: string;
+  from_stage_id: string | null;
+  to_stage_id: string;
+  rejection_reason: string | null;
+  changed_at: string;
+}
+
+export interface StageInput {
+  key: string;
+  label: string;
+}
+
+export const stageKeyFromLabel = (label: string) =>
+  label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+const CANDIDATE_SELECT = `
+  id,
+  opportunity_id,
+  talent_profile_id,
+  stage_id,
+  position,
+  rejection_reason,
+  stage_entered_at,
+  created_at,
+  talent_profiles (
+    first_name,
+    last_name,
+    email,
+    talent_role,
+    talent_type,
+    avatar_url
+  )
+`;
+
+class PipelineService {
+  /**
+   * Stages in board order
+   */
+  async getStages(): Promise<PipelineStage[]> {
+    const { data, error } = await supabase
+      .from('pipeline_stages')
+      .select('id, key, label, position, outcome')
+      .order('position');
+
+    if (error) throw error;
+    return (data || []) as PipelineStage[];
+  }
+
+  /**
+   * Add a stage before the hired/rejected outcomes
+   */
+  async createStage(stage: StageInput): Promise<void> {
+    const stages = await this.getStages();
+    const firstOutcome = stages.find(existing => existing.outcome);
+    const position = firstOutcome
+      ? firstOutcome.position
+      : Math.max(0, ...stages.map(existing => existing.position)) + 1;
+
+    // Shift the outcome stages right so they stay at the end of the board
+    await Promise.all(stages
+      .filter(existing => existing.position >= position)
+      .map(existing => this.updateStagePosition(existing.id, existing.position + 1)));
+
+    const { error } = await supabase
+      .from('pipeline_stages')
+      .insert({ key: stage.key, label: stage.label, position });
+
+    if (error) throw error;
+  }
+
+  async renameStage(stageId: string, label: string): Promise<void> {
+    const { error } = await supabase
+      .from('pipeline_stages')
+      .update({ label })
+      .eq('id', stageId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Persist a new board order, given every stage id in order
+   */
+  async reorderStages(orderedIds: string[]): Promise<void> {
+    await Promise.all(orderedIds.map((id, index) => this.updateStagePosition(id, index + 1)));
+  }
+
+  /**
+   * Delete a stage that no candidate is in; outcome stages cannot be deleted
+   */
+  async deleteStage(stageId: string): Promise<void> {
+    const { count, error: countError } = await supabase
+      .from('opportunity_candidates')
+      .select('id', { count: 'exact', head: true })
+      .eq('stage_id', stageId);
+
+    if (countError) throw countError;
+    if (count && count > 0) {
+      throw new Error(`${count} candidate${count === 1 ? ' is' : 's are'} still in this stage`);
+    }
+
+    const { error } = await supabase
+      .from('pipeline_stages')
+      .delete()
+      .eq('id', stageId)
+      .is('outcome', null);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Candidates on an opportunity's board, ordered within each stage
+   */
+  async getCandidates(opportunityId: string): Promise<PipelineCandidate[]> {
+    const { data, error } = await supabase
+      .from('opportunity_candidates')
+      .select(CANDIDATE_SELECT)
+      .eq('opportunity_id', opportunityId)
+      .order('position');
+
+    if (error) throw error;
+    return (data || []) as PipelineCandidate[];
+  }
+
+  /**
+   * Add talents to the end of a stage; talents already on the board are left where they are
+   */
+  async addCandidates(opportunityId: string, talentIds: string[], stageId: string, userId?: string): Promise<void> {
+    if (talentIds.length === 0) return;
+
+    const { data: last, error: lastError } = await supabase
+      .from('opportunity_candidates')
+      .select('position')
+      .eq('opportunity_id', opportunityId)
+      .eq('stage_id', stageId)
+      .order('position', { ascending: false })
+      .limit(1);
+
+    if (lastError) throw lastError;
+    const nextPosition = (last?.[0]?.position ?? -1) + 1;
+
+    const { error } = await supabase
+      .from('opportunity_candidates')
+      .upsert(
+        talentIds.map((talentId, index) => ({
+          opportunity_id: opportunityId,
+          talent_profile_id: talentId,
+          stage_id: stageId,
+          position: nextPosition + index,
+          added_by: userId || null
+        })),
+        { onConflict: 'opportunity_id,talent_profile_id', ignoreDuplicates: true }
+      );
+
+    if (error) throw error;
+  }
+
+  /**
+   * Move a candidate into a stage, or within one. orderedIds is the target stage's candidate ids
+   * in their new order (including the moved one). Moving into the rejected stage needs a reason.
+   */
+  async moveCandidate(candidateId: string, stageId: string, orderedIds: string[], rejectionReason?: string): Promise<void> {
+    const { error } = await supabase
+      .from('opportunity_candidates')
+      .update({
+        stage_id: stageId,
+        position: orderedIds.indexOf(candidateId),
+        ...(rejectionReason !== undefined ? { rejection_reason: rejectionReason.trim() || null } : {})
+      })
+      .eq('id', candidateId);
+
+    if (error) throw error;
+
+    await Promise.all(orderedIds
+      .filter(id => id !== candidateId)
+      .map(id => this.updateCandidatePosition(id, orderedIds.indexOf(id))));
+  }
+
+  /**
+   * Take a candidate off the board. Removing the hired candidate undoes the hire (see apply_candidate_stage).
+   */
+  async removeCandidate(candidateId: string): Promise<void> {
+    const { error } = await supabase
+      .from('opportunity_candidates')
+      .delete()
+      .eq('id', candidateId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Stage changes for a candidate, newest first
+   */
+  async getStageHistory(candidateId: string): Promise<StageEvent[]> {
+    const { data, error } = await supabase
+      .from('opportunity_candidate_events')
+      .select('id, from_stage_id, to_stage_id, rejection_reason, changed_at')
+      .eq('candidate_id', candidateId)
+      .order('changed_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  private async updateStagePosition(stageId: string, position: number) {
+    const { error } = await supabase
+      .from('pipeline_stages')
+      .update({ position })
+      .eq('id', stageId);
+
+    if (error) throw error;
+  }
+
+  private async updateCandidatePosition(candidateId: string, position: number) {
+    const { error } = await supabase
+      .from('opportunity_candidates')
+      .update({ position })
+      .eq('id', candidateId);
+
+    if (error) throw error;
+  }
+}
+
+// Export singleton instance
+export const pipelineService = new PipelineService();
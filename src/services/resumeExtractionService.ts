@@ -0,0 +1,264 @@
+// Resume Extraction Service
+// Reads the text out of an uploaded resume: plain text, PDF (with OCR for scanned pages), Word
+// (DOCX and legacy DOC), RTF, OpenDocument text and photos or scans (PNG/JPEG, through OCR). The
+// result keeps the document's line and section structure; see lib/resumeText.
+
+import * as pdfjsLib from 'pdfjs-dist';
+import Tesseract from 'tesseract.js';
+import mammoth from 'mammoth';
+import JSZip from 'jszip';
+import {
+  htmlToText,
+  legacyDocToText,
+  normalizeResumeText,
+  odtContentToText,
+  pdfItemsToText,
+  rtfToText,
+  PdfTextItem
+} from '@/lib/resumeText';
+import { fitsUnpacked, unpackEntryText } from '@/lib/zip';
+
+// Configure PDF.js worker
+pdfjsLib.GlobalWorkerOptions.workerSrc = '/pdf.worker.min.mjs';
+
+// DOCX and ODT are ZIP archives; a resume that unpacks to more than this is refused
+const MAX_UNPACKED_BYTES = 50 * 1024 * 1024;
+const TOO_LARGE_UNPACKED = 'The document is too large to read once unpacked. Please save it as PDF and try again.';
+
+export type ResumeFormat = 'txt' | 'pdf' | 'docx' | 'doc' | 'rtf' | 'odt' | 'image';
+
+// For file inputs
+export const RESUME_ACCEPT = '.txt,.pdf,.docx,.doc,.rtf,.odt,.png,.jpg,.jpeg';
+export const RESUME_FORMATS_LABEL = 'TXT, PDF, DOCX, DOC, RTF, ODT, PNG, JPEG';
+
+const MIME_FORMATS: Record<string, ResumeFormat> = {
+  'text/plain': 'txt',
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/msword': 'doc',
+  'application/rtf': 'rtf',
+  'text/rtf': 'rtf',
+  'application/vnd.oasis.opendocument.text': 'odt',
+  'image/png': 'image',
+  'image/jpeg': 'image'
+};
+
+const EXTENSION_FORMATS: Record<string, ResumeFormat> = {
+  txt: 'txt',
+  pdf: 'pdf',
+  docx: 'docx',
+  doc: 'doc',
+  rtf: 'rtf',
+  odt: 'odt',
+  png: 'image',
+  jpg: 'image',
+  jpeg: 'image'
+};
+
+class ResumeExtractionService {
+  /**
+   * The format of a resume file from its type or, when the browser did not set one, its extension
+   */
+  getFormat(file: Pick<File, 'name' | 'type'>): ResumeFormat | null {
+    const extension = file.name.toLowerCase().split('.').pop() || '';
+    return MIME_FORMATS[file.type] || EXTENSION_FORMATS[extension] || null;
+  }
+
+  /**
+   * Extract the text of a resume, normalized to one line per line or paragraph with headings
+   * set apart
+   */
+  async extractText(file: File): Promise<string> {
+    const format = this.getFormat(file);
+    if (!format) {
+      throw new Error(`Unsupported file type. Please upload a resume as ${RESUME_FORMATS_LABEL}.`);
+    }
+
+    let text: string;
+    try {
+      text = await this.extractRawText(file, format);
+    } catch (error) {
+      console.error('Error extracting text:', error);
+      throw error;
+    }
+
+    const normalized = normalizeResumeText(text);
+    if (!normalized) {
+      throw new Error(format === 'image'
+        ? 'No text could be read from the image. Please upload a sharper photo or scan.'
+        : 'No text content found in the file. It might be empty or corrupted.');
+    }
+    return normalized;
+  }
+
+  private async extractRawText(file: File, format: ResumeFormat): Promise<string> {
+    switch (format) {
+      case 'txt':
+        return file.text();
+      case 'pdf':
+        return this.extractFromPdf(file);
+      case 'image':
+        return this.recognizeImage(file);
+      case 'odt':
+        return this.extractFromOdt(file);
+      default:
+        return this.extractFromWordProcessor(file, format);
+    }
+  }
+
+  /**
+   * DOCX, DOC and RTF are told apart by their content as well as their extension: Word happily
+   * saves RTF or DOCX under a .doc name.
+   */
+  private async extractFromWordProcessor(file: File, format: ResumeFormat): Promise<string> {
+    const buffer = await file.arrayBuffer();
+    const header = new TextDecoder('ascii').decode(new Uint8Array(buffer.slice(0, 5)));
+
+    if (header === '{\\rtf') {
+      return rtfToText(new TextDecoder('windows-1252').decode(buffer));
+    }
+    if (header.startsWith('PK')) {
+      // mammoth unpacks the whole archive with no limit, so its size is checked first
+      let fits: boolean;
+      try {
+        fits = await fitsUnpacked(await JSZip.loadAsync(buffer), MAX_UNPACKED_BYTES);
+      } catch (error) {
+        console.error('Error reading DOCX archive:', error);
+        throw new Error('Failed to read the Word document. Please ensure the file is not corrupted.');
+      }
+      if (!fits) throw new Error(TOO_LARGE_UNPACKED);
+
+      try {
+        const { value } = await mammoth.convertToHtml({ arrayBuffer: buffer });
+        return htmlToText(value);
+      } catch (error) {
+        console.error('Error converting DOCX:', error);
+        throw new Error('Failed to read the Word document. Please ensure the file is not corrupted.');
+      }
+    }
+    if (format === 'rtf' || format === 'docx') {
+      throw new Error(`The file is not a valid ${format.toUpperCase()} document.`);
+    }
+
+    const text = legacyDocToText(buffer);
+    if (!text.trim()) {
+      throw new Error('No text could be read from the Word 97-2003 document. Please save it as DOCX or PDF and try again.');
+    }
+    return text;
+  }
+
+  private async extractFromOdt(file: File): Promise<string> {
+    let xml: string | null;
+    try {
+      const zip = await JSZip.loadAsync(await file.arrayBuffer());
+      const content = zip.file('content.xml');
+      if (!content) throw new Error('content.xml missing');
+      xml = await unpackEntryText(content, MAX_UNPACKED_BYTES);
+    } catch (error) {
+      console.error('Error reading ODT:', error);
+      throw new Error('Failed to read the OpenDocument file. Please ensure the file is not corrupted.');
+    }
+    if (xml === null) throw new Error(TOO_LARGE_UNPACKED);
+    return odtContentToText(xml);
+  }
+
+  private async recognizeImage(file: File): Promise<string> {
+    try {
+      const { data: { text } } = await Tesseract.recognize(file, 'eng');
+      return text;
+    } catch (error) {
+      console.error('Error running OCR on image:', error);
+      throw new Error('Failed to read text from the image. Please try a different photo or scan.');
+    }
+  }
+
+  private async extractFromPdf(file: File): Promise<string> {
+    try {
+      console.log('Starting PDF text extraction for file:', file.name);
+
+      const arrayBuffer = await file.arrayBuffer();
+      console.log('PDF file loaded, size:', arrayBuffer.byteLength, 'bytes');
+
+      // Load PDF document with error handling
+      const loadingTask = pdfjsLib.getDocument({
+        data: arrayBuffer,
+        verbosity: 0,
+      });
+
+      const pdf = await loadingTask.promise;
+      console.log('PDF loaded successfully, pages:', pdf.numPages);
+
+      const pages: string[] = [];
+
+      // Extract text from all pages, rebuilding lines from the item positions
+      for (let i = 1; i <= pdf.numPages; i++) {
+        const page = await pdf.getPage(i);
+        const textContent = await page.getTextContent();
+        const items = (textContent.items as any[]).filter((item): item is PdfTextItem =>
+          !!item && typeof item === 'object' && 'str' in item && Array.isArray(item.transform));
+        pages.push(pdfItemsToText(items));
+      }
+
+      const fullText = pages.join('\n\n');
+      console.log('Total extracted text length:', fullText.length);
+
+      // If no selectable text found, fall back to OCR
+      if (!fullText.trim()) {
+        console.warn('No selectable text found, falling back to OCR...');
+        const ocrText = await this.recognizePdf(arrayBuffer);
+        if (!ocrText.trim()) {
+          throw new Error('No text content found in PDF, including OCR. The PDF might be image-based or corrupted.');
+        }
+        return ocrText;
+      }
+      return fullText;
+    } catch (error) {
+      console.error('Error extracting text from PDF (pre-OCR):', error);
+      // Final attempt: OCR entire PDF if loading worked but extraction failed
+      try {
+        const arrayBuffer = await file.arrayBuffer();
+        const ocrText = await this.recognizePdf(arrayBuffer);
+        if (ocrText.trim()) {
+          return ocrText;
+        }
+      } catch (ocrError) {
+        console.error('OCR extraction also failed:', ocrError);
+      }
+
+      // Provide more specific error messages
+      if (error instanceof Error) {
+        if (error.message.includes('Invalid PDF') || error.message.includes('invalid')) {
+          throw new Error('Invalid PDF file. Please ensure the file is not corrupted.');
+        } else if (error.message.includes('password')) {
+          throw new Error('PDF is password-protected. Please remove the password and try again.');
+        } else if (error.message.includes('No text content')) {
+          throw new Error('No text content found in PDF. The PDF might be image-based. Please convert to text format.');
+        }
+      }
+
+      throw new Error('Failed to extract text from PDF. Please try a different file or convert to text format.');
+    }
+  }
+
+  private async recognizePdf(arrayBuffer: ArrayBuffer): Promise<string> {
+    const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer, verbosity: 0 });
+    const pdf = await loadingTask.promise;
+    let text = '';
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      const viewport = page.getViewport({ scale: 2 });
+      const canvas = document.createElement('canvas');
+      const context = canvas.getContext('2d');
+      if (!context) continue;
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      await (page as any).render({ canvasContext: context as any, viewport, canvas: canvas as any } as any).promise;
+      const { data: { text: ocrPageText } } = await Tesseract.recognize(canvas, 'eng');
+      text += ocrPageText + '\n\n';
+    }
+    return text;
+  }
+}
+
+// Export singleton instance
+export const resumeExtractionService = new ResumeExtractionService();
@@ -0,0 +1,290 @@
+// Resume Ingestion Service
+// Batch mode for resumes: files and ZIP archives are expanded into single resumes, each of which
+// becomes a draft talent profile with its original file stored as the first resume version. Drafts
+// wait in a review queue, with possible duplicates flagged, until they are approved or discarded.
+
+import JSZip from 'jszip';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { unpackEntry } from '@/lib/zip';
+import { resumeExtractionService } from '@/services/resumeExtractionService';
+import { resumeParsingService, toProfileFields } from '@/services/resumeParsingService';
+import { resumeStorageService } from '@/services/resumeStorageService';
+import { skillService } from '@/services/skillService';
+
+type TalentRole = Database['public']['Enums']['talent_role'];
+
+// Resumes parsed at once. Extraction and OCR run in the browser, so keep this small.
+export const INGESTION_CONCURRENCY = 2;
+const MAX_RESUME_BYTES = 10 * 1024 * 1024;
+// Caps on what one archive may unpack to, so a ZIP bomb can't exhaust the browser's memory
+const MAX_ARCHIVE_ENTRIES = 500;
+const MAX_ARCHIVE_BYTES = 200 * 1024 * 1024;
+
+// Applied to every draft of a batch; drafts are always prospects
+export interface DraftDefaults {
+  teamId: string | null;
+  talentRole: TalentRole;
+}
+
+export interface ExpandedResumes {
+  files: File[];
+  // Archive entries and files that are not resumes we can read, with the reason
+  skipped: Array<{ name: string; reason: string }>;
+}
+
+export interface IngestedResume {
+  talentProfileId: string;
+  // Why the AI parser was not used, when only the offline parser ran
+  aiError: string | null;
+}
+
+export interface DraftDuplicate {
+  talentProfileId: string;
+  name: string;
+  email: string;
+  isDraft: boolean;
+  reason: 'email' | 'name';
+}
+
+export interface TalentDraft {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  talentRole: TalentRole;
+  teamId: string | null;
+  location: string | null;
+  yearsExperience: number | null;
+  skills: string[];
+  createdAt: string;
+  duplicates: DraftDuplicate[];
+}
+
+// Fields the review queue edits, one draft at a time or in bulk
+export type DraftUpdate = Partial<Pick<
+  Database['public']['Tables']['talent_profiles']['Update'],
+  'first_name' | 'last_name' | 'email' | 'talent_role' | 'team_id' | 'location' | 'years_experience'
+>>;
+
+export interface DraftApproval {
+  id: string;
+  approved: boolean;
+  message: string | null;
+}
+
+const isZip = (file: File) =>
+  /\.zip$/i.test(file.name) || ['application/zip', 'application/x-zip-compressed'].includes(file.type);
+
+// Finder and Explorer leave these in archives
+const isArchiveClutter = (path: string) =>
+  path.startsWith('__MACOSX/') || path.split('/').some(part => part.startsWith('.'));
+
+const checkResume = (file: File): string | null => {
+  if (!resumeExtractionService.getFormat(file)) return 'Not a supported resume format';
+  if (file.size > MAX_RESUME_BYTES) return 'Larger than 10MB';
+  if (file.size === 0) return 'Empty file';
+  return null;
+};
+
+class ResumeIngestionService {
+  /**
+   * Resumes in the selected files, with ZIP archives (including folders inside them) unpacked
+   */
+  async expandFiles(selected: File[]): Promise<ExpandedResumes> {
+    const result: ExpandedResumes = { files: [], skipped: [] };
+
+    for (const file of selected) {
+      if (!isZip(file)) {
+        const reason = checkResume(file);
+        if (reason) result.skipped.push({ name: file.name, reason });
+        else result.files.push(file);
+        continue;
+      }
+
+      let zip: JSZip;
+      try {
+        zip = await JSZip.loadAsync(file);
+      } catch (error) {
+        console.error('Error reading ZIP archive:', error);
+        result.skipped.push({ name: file.name, reason: 'Could not open the archive' });
+        continue;
+      }
+
+      const entries = Object.values(zip.files).filter(entry => !entry.dir && !isArchiveClutter(entry.name));
+      if (entries.length > MAX_ARCHIVE_ENTRIES) {
+        result.skipped.push({ name: file.name, reason: `More than ${MAX_ARCHIVE_ENTRIES} files in the archive` });
+        continue;
+      }
+
+      let unpackedBytes = 0;
+      for (const [index, entry] of entries.entries()) {
+        const name = `${file.name}/${entry.name}`;
+        const baseName = entry.name.split('/').pop() || entry.name;
+
+        // The browser only sets a type for picked files; the extension decides the format here.
+        // Other files are skipped unread so they don't count against the archive's size cap.
+        if (!resumeExtractionService.getFormat({ name: baseName, type: '' })) {
+          result.skipped.push({ name, reason: 'Not a supported resume format' });
+          continue;
+        }
+
+        const remaining = MAX_ARCHIVE_BYTES - unpackedBytes;
+        let blob: Blob | null;
+        try {
+          blob = await unpackEntry(entry, Math.min(MAX_RESUME_BYTES, remaining));
+        } catch (error) {
+          console.error('Error unpacking archive entry:', error);
+          result.skipped.push({ name, reason: 'Could not unpack the file' });
+          continue;
+        }
+
+        if (!blob) {
+          if (remaining >= MAX_RESUME_BYTES) {
+            result.skipped.push({ name, reason: 'Larger than 10MB' });
+            continue;
+          }
+          // The archive unpacks to more than we will hold; the rest of it is skipped
+          for (const rest of entries.slice(index)) {
+            result.skipped.push({ name: `${file.name}/${rest.name}`, reason: 'Archive larger than 200MB unpacked' });
+          }
+          break;
+        }
+
+        unpackedBytes += blob.size;
+        const resume = new File([blob], baseName, { type: '' });
+        const reason = checkResume(resume);
+        if (reason) result.skipped.push({ name, reason });
+        else result.files.push(resume);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Parse one resume into a draft profile with its skills and the original file. A draft is
+   * only kept when all of it was saved.
+   */
+  async ingestResume(file: File, defaults: DraftDefaults): Promise<IngestedResume> {
+    const text = await resumeExtractionService.extractText(file);
+    const { data, aiError } = await resumeParsingService.parse(text);
+    const fields = toProfileFields(data);
+
+    const { data: draft, error } = await supabase
+      .from('talent_profiles')
+      .insert({
+        ...fields,
+        email: fields.email.trim(),
+        talent_type: 'prospect',
+        talent_role: defaults.talentRole,
+        team_id: defaults.teamId,
+        prospect_status: 'available',
+        source: 'direct_application',
+        skills: data.skills,
+        review_status: 'draft'
+      })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+
+    try {
+      const { matched } = await skillService.matchSkillNames(data.skills);
+      await skillService.setTalentSkills(draft.id, matched);
+      await resumeStorageService.uploadResume(draft.id, file, text);
+    } catch (saveError) {
+      await this.discardDrafts([draft.id]).catch(discardError =>
+        console.error('Error removing incomplete draft:', discardError));
+      throw saveError;
+    }
+
+    return { talentProfileId: draft.id, aiError };
+  }
+
+  /**
+   * Draft profiles awaiting review, newest first, with possible duplicates
+   */
+  async getDrafts(): Promise<TalentDraft[]> {
+    const [draftsResult, duplicatesResult] = await Promise.all([
+      supabase
+        .from('talent_profiles')
+        .select('id, first_name, last_name, email, talent_role, team_id, location, years_experience, skills, created_at')
+        .eq('review_status', 'draft')
+        .order('created_at', { ascending: false }),
+      supabase.rpc('talent_draft_duplicates')
+    ]);
+
+    if (draftsResult.error) throw draftsResult.error;
+    if (duplicatesResult.error) throw duplicatesResult.error;
+
+    const duplicatesByDraft = new Map<string, DraftDuplicate[]>();
+    (duplicatesResult.data || []).forEach(row => {
+      const list = duplicatesByDraft.get(row.draft_id) || [];
+      list.push({
+        talentProfileId: row.talent_profile_id,
+        name: `${row.first_name || ''} ${row.last_name || ''}`.trim() || row.email,
+        email: row.email,
+        isDraft: row.review_status === 'draft',
+        reason: row.match_reason === 'email' ? 'email' : 'name'
+      });
+      duplicatesByDraft.set(row.draft_id, list);
+    });
+
+    return (draftsResult.data || []).map(row => ({
+      id: row.id,
+      firstName: row.first_name || '',
+      lastName: row.last_name || '',
+      email: row.email,
+      talentRole: row.talent_role,
+      teamId: row.team_id,
+      location: row.location,
+      yearsExperience: row.years_experience,
+      skills: row.skills || [],
+      createdAt: row.created_at,
+      duplicates: duplicatesByDraft.get(row.id) || []
+    }));
+  }
+
+  /**
+   * Apply the same changes to one or more drafts
+   */
+  async updateDrafts(ids: string[], update: DraftUpdate): Promise<void> {
+    const { error } = await supabase
+      .from('talent_profiles')
+      .update(update)
+      .in('id', ids)
+      .eq('review_status', 'draft');
+
+    if (error) throw error;
+  }
+
+  /**
+   * Turn drafts into talent profiles. Drafts that fail a check stay in the queue with a message.
+   */
+  async approveDrafts(ids: string[]): Promise<DraftApproval[]> {
+    const { data, error } = await supabase.rpc('approve_talent_drafts', { _ids: ids });
+
+    if (error) throw error;
+    return (data as unknown as DraftApproval[]) || [];
+  }
+
+  /**
+   * Delete drafts along with their stored resume files
+   */
+  async discardDrafts(ids: string[]): Promise<void> {
+    // Files first: the storage policies look the profile up, so they can't be removed after it
+    await resumeStorageService.removeProfileFiles(ids);
+
+    const { error } = await supabase
+      .from('talent_profiles')
+      .delete()
+      .in('id', ids)
+      .eq('review_status', 'draft');
+
+    if (error) throw error;
+  }
+}
+
+// Export singleton instance
+export const resumeIngestionService = new ResumeIngestionService();
@@ -0,0 +1,46 @@
+// Resume Parse Feedback Service
+// Records how parsed resume fields fared once someone reviewed them: for each field the parser
+// filled in, whether the saved value was corrected and the parser's confidence. Corrected rows over
+// time give the parser's accuracy per field. The values themselves are not stored.
+
+import { supabase } from '@/integrations/supabase/client';
+import { ParsedProfileField, ResumeParseResult, toProfileFields } from '@/services/resumeParsingService';
+
+const valueText = (value: unknown): string =>
+  value === null || value === undefined || value === 0 ? '' : String(value).trim();
+
+// Whitespace-only edits, such as re-wrapped lines, are not corrections
+const normalize = (value: string) => value.replace(/\s+/g, ' ');
+
+class ResumeParseFeedbackService {
+  /**
+   * Record the reviewed values of a parsed resume, as saved to the talent profile
+   */
+  async recordFeedback(
+    talentProfileId: string,
+    parse: ResumeParseResult,
+    saved: Partial<Record<ParsedProfileField, unknown>>
+  ): Promise<void> {
+    const parsed = toProfileFields(parse.data);
+    const rows = (Object.keys(parse.evidence) as ParsedProfileField[]).map(field => {
+      const parsedValue = valueText(parsed[field]);
+      const finalValue = valueText(saved[field]);
+      return {
+        talent_profile_id: talentProfileId,
+        field,
+        parse_source: parse.source,
+        corrected: normalize(parsedValue) !== normalize(finalValue),
+        confidence: parse.evidence[field].confidence
+      };
+    });
+
+    const { error } = await supabase
+      .from('resume_parse_feedback')
+      .insert(rows);
+
+    if (error) throw error;
+  }
+}
+
+// Export singleton instance
+export const resumeParseFeedbackService = new ResumeParseFeedbackService();
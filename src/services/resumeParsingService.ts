@@ -0,0 +1,344 @@
+// Resume Parsing Service
+// Turns extracted resume text into profile fields. The rule-based parser always runs, offline; the
+// AI parser reads the resume in chunks when the gateway is reachable, and the two results are
+// combined. If AI parsing fails the rule-based result is used on its own. Each profile field gets a
+// confidence from whether the parsers agree on it and whether it can be found in the resume text,
+// along with where in the text it was found. Parsed resumes map onto talent profile columns for the
+// talent form and for re-parsing a stored resume.
+
+import { llmClient, LLMGatewayError, LLMValidationError } from '@/services/llmClient';
+import { resumeParseSchema, AIResumeParse } from '@/services/llmSchemas';
+import { skillService, CatalogSkill } from '@/services/skillService';
+import { VERSION_FIELD_LABELS } from '@/services/talentVersionService';
+import {
+  chunkResumeText,
+  combineParsedResumes,
+  findValueSpan,
+  findYearsSpan,
+  mergeParsedResumes,
+  parseResumeWithRules,
+  ParsedResumeData,
+  ResumeExperience,
+  SourceSpan
+} from '@/services/resumeRuleParser';
+
+export type ResumeParseSource = 'combined' | 'rules';
+
+// How a field's value came about: both parsers found the same value or different ones, only one
+// of them found it, or neither did
+export type ParsedFieldBasis = 'agreed' | 'conflicting' | 'ai_only' | 'rules_only' | 'missing';
+
+export interface ParsedFieldEvidence {
+  // 0 to 1
+  confidence: number;
+  basis: ParsedFieldBasis;
+  // Where the value was read from in the resume text, when it is there
+  span: SourceSpan | null;
+}
+
+// Talent profile columns a parsed resume fills in, formatted the way the talent form stores them
+export interface ParsedProfileFields {
+  first_name: string;
+  last_name: string;
+  email: string;
+  location: string;
+  years_experience: number;
+  bio: string;
+  linkedin_url: string;
+  github_url: string;
+  portfolio_url: string;
+  education: string;
+  work_experience: string;
+  certifications: string;
+}
+
+export type ParsedProfileField = keyof ParsedProfileFields;
+
+export type ParsedFieldEvidenceMap = Record<ParsedProfileField, ParsedFieldEvidence>;
+
+export interface ResumeParseResult {
+  data: ParsedResumeData;
+  source: ResumeParseSource;
+  // Why the AI parser was not used, when it was not
+  aiError: string | null;
+  evidence: ParsedFieldEvidenceMap;
+}
+
+export interface ReparseFieldChange {
+  field: ParsedProfileField;
+  label: string;
+  current: string;
+  parsed: string;
+  value: ParsedProfileFields[ParsedProfileField];
+}
+
+const PARSED_PROFILE_FIELDS: ParsedProfileField[] = [
+  'first_name',
+  'last_name',
+  'email',
+  'location',
+  'years_experience',
+  'bio',
+  'linkedin_url',
+  'github_url',
+  'portfolio_url',
+  'education',
+  'work_experience',
+  'certifications'
+];
+
+const formatExperience = (entry: ResumeExperience): string => {
+  const company = entry.company ? ` at ${entry.company}` : '';
+  const period = entry.duration || [entry.startDate, entry.endDate].filter(Boolean).join(' - ');
+  const header = [entry.title + company, period ? `(${period})` : ''].filter(Boolean).join(' ');
+  const description = entry.description ? `\n${entry.description}` : '';
+  return `• ${header}${description}`.trim();
+};
+
+const formatList = (items: string[]) => items.map(item => `• ${item}`).join('\n');
+
+/**
+ * The profile columns for a parsed resume; list sections become bulleted text
+ */
+export const toProfileFields = (data: ParsedResumeData): ParsedProfileFields => ({
+  first_name: data.firstName,
+  last_name: data.lastName,
+  email: data.email,
+  location: data.location,
+  years_experience: data.yearsExperience,
+  bio: data.bio,
+  linkedin_url: data.linkedinUrl,
+  github_url: data.githubUrl,
+  portfolio_url: data.portfolioUrl,
+  education: formatList(data.education),
+  work_experience: data.workExperience.map(formatExperience).join('\n'),
+  certifications: formatList(data.certifications)
+});
+
+// Below this a parsed value is flagged for review
+export const LOW_CONFIDENCE = 0.6;
+
+const fieldText = (value: string | number) => (value === 0 ? '' : String(value).trim());
+
+const wordSet = (value: string) => new Set(value.toLowerCase().match(/[a-z0-9]+/g) || []);
+
+// The same value, or for longer text mostly the same words
+const isSimilar = (a: string, b: string): boolean => {
+  const first = wordSet(a);
+  const second = wordSet(b);
+  if (first.size === 0 || second.size === 0) return false;
+  const shared = [...first].filter(word => second.has(word)).length;
+  return shared / (first.size + second.size - shared) >= 0.6;
+};
+
+// List fields are looked up by their first entry
+const findFieldSpan = (text: string, field: ParsedProfileField, data: ParsedResumeData, value: string): SourceSpan | null => {
+  switch (field) {
+    case 'years_experience':
+      return findYearsSpan(text, data.yearsExperience);
+    case 'education':
+      return findValueSpan(text, (data.education[0] || '').split(', ')[0]);
+    case 'certifications':
+      return findValueSpan(text, data.certifications[0] || '');
+    case 'work_experience': {
+      const first = data.workExperience[0];
+      return first ? findValueSpan(text, first.title) || findValueSpan(text, first.company) : null;
+    }
+    default:
+      return findValueSpan(text, value);
+  }
+};
+
+// A value found in the text is more likely read than made up; the AI can write things the resume
+// doesn't say, the rules can pick the wrong line
+const scoreField = (basis: ParsedFieldBasis, inText: boolean): number => {
+  switch (basis) {
+    case 'agreed':
+      return inText ? 0.95 : 0.8;
+    case 'conflicting':
+      return inText ? 0.55 : 0.35;
+    case 'ai_only':
+    case 'rules_only':
+      return inText ? 0.75 : 0.4;
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Confidence and source span for each profile field of a combined parse. ai is null when only the
+ * rule-based parser ran.
+ */
+const assessParsedFields = (
+  text: string,
+  data: ParsedResumeData,
+  rules: ParsedResumeData,
+  ai: ParsedResumeData | null
+): ParsedFieldEvidenceMap => {
+  const chosen = toProfileFields(data);
+  const fromRules = toProfileFields(rules);
+  const fromAI = ai ? toProfileFields(ai) : null;
+
+  return Object.fromEntries(PARSED_PROFILE_FIELDS.map(field => {
+    const value = fieldText(chosen[field]);
+    const ruleValue = fieldText(fromRules[field]);
+    const aiValue = fromAI ? fieldText(fromAI[field]) : '';
+    const basis: ParsedFieldBasis = !value
+      ? 'missing'
+      : ruleValue && aiValue
+        ? (isSimilar(ruleValue, aiValue) ? 'agreed' : 'conflicting')
+        : aiValue ? 'ai_only' : 'rules_only';
+    const span = value ? findFieldSpan(text, field, data, value) : null;
+    return [field, { confidence: scoreField(basis, span !== null), basis, span }];
+  })) as ParsedFieldEvidenceMap;
+};
+
+/**
+ * Whether a parsed value should be checked by hand. Fields the resume didn't fill are not flagged.
+ */
+export const isLowConfidence = (evidence: ParsedFieldEvidence | undefined): boolean =>
+  !!evidence && evidence.basis !== 'missing' && evidence.confidence < LOW_CONFIDENCE;
+
+/**
+ * Parsed fields to check by hand, in form order
+ */
+export const lowConfidenceFields = (evidence: ParsedFieldEvidenceMap): ParsedProfileField[] =>
+  PARSED_PROFILE_FIELDS.filter(field => isLowConfidence(evidence[field]));
+
+const displayValue = (value: unknown): string =>
+  value === null || value === undefined || value === '' ? '—' : String(value);
+
+/**
+ * Fields where a re-parsed resume differs from the profile. Fields the resume left empty are not
+ * offered, so re-parsing never clears anything.
+ */
+export const diffParsedProfile = (
+  profile: Partial<Record<ParsedProfileField, unknown>>,
+  parsed: ParsedProfileFields
+): ReparseFieldChange[] =>
+  PARSED_PROFILE_FIELDS
+    .filter(field => parsed[field] !== '' && parsed[field] !== 0)
+    .filter(field => displayValue(profile[field]).trim() !== displayValue(parsed[field]).trim())
+    .map(field => ({
+      field,
+      label: VERSION_FIELD_LABELS[field] || field,
+      current: displayValue(profile[field]),
+      parsed: displayValue(parsed[field]),
+      value: parsed[field]
+    }));
+
+const RESUME_FORMAT = `{
+  "firstName": "string",
+  "lastName": "string",
+  "email": "string",
+  "phone": "string",
+  "location": "string",
+  "yearsExperience": number,
+  "skills": ["string"],
+  "links": { "linkedin": "string", "github": "string", "portfolio": "string" },
+  "sections": {
+    "bioText": "string",
+    "experience": [{"title": "string", "company": "string", "startDate": "string", "endDate": "string", "duration": "string", "description": "string"}],
+    "education": ["string"],
+    "certifications": ["string"]
+  }
+}`;
+
+const resumePrompt = (chunk: string, part: number, parts: number) =>
+  `Parse this resume and return ONLY valid JSON in this exact format:
+${RESUME_FORMAT}
+${parts > 1 ? `
+This is part ${part} of ${parts} of the resume. Use empty strings, 0 or empty lists for anything not in this part.
+` : ''}
+IMPORTANT: Return ONLY the JSON object. No explanations, no markdown, no code blocks. Just the raw JSON.
+
+Resume:
+${chunk}`;
+
+const toParsedResume = (reply: AIResumeParse): ParsedResumeData => ({
+  firstName: reply.firstName,
+  lastName: reply.lastName,
+  email: reply.email,
+  phone: reply.phone,
+  location: reply.location,
+  yearsExperience: reply.yearsExperience,
+  skills: reply.skills,
+  bio: reply.sections?.bioText || '',
+  linkedinUrl: reply.links?.linkedin || '',
+  githubUrl: reply.links?.github || '',
+  portfolioUrl: reply.links?.portfolio || '',
+  education: reply.sections?.education || [],
+  workExperience: reply.sections?.experience || [],
+  certifications: reply.sections?.certifications || []
+});
+
+const describeAIError = (error: unknown): string => {
+  if (error instanceof LLMGatewayError) {
+    if (error.code === 'credit_limit') return 'AI quota exceeded. Please contact your administrator.';
+    if (error.code === 'rate_limited') return 'Too many AI requests. Please wait a minute and try again.';
+    if (error.code === 'forbidden') return 'Only managers and admins can parse resumes with AI.';
+    if (error.code === 'unauthenticated') return 'Please sign in again to parse resumes with AI.';
+    if (error.code === 'network_error') return 'The AI service could not be reached.';
+    return error.message;
+  }
+  if (error instanceof LLMValidationError) return 'Invalid response format from AI';
+  return error instanceof Error ? error.message : 'Failed to parse resume with AI';
+};
+
+class ResumeParsingService {
+  /**
+   * Parse resume text into profile fields, each with its confidence and source span. onProgress
+   * reports AI chunks as they finish.
+   */
+  async parse(text: string, onProgress?: (done: number, total: number) => void): Promise<ResumeParseResult> {
+    const catalog = await skillService.getCatalog().catch(error => {
+      console.error('Error loading skill catalog:', error);
+      return [] as CatalogSkill[];
+    });
+    const rules = parseResumeWithRules(text, catalog);
+
+    try {
+      const ai = await this.parseWithAI(text, onProgress);
+      const data = combineParsedResumes(rules, ai);
+      return { data, source: 'combined', aiError: null, evidence: assessParsedFields(text, data, rules, ai) };
+    } catch (error) {
+      console.error('Error parsing with AI:', error);
+      return { data: rules, source: 'rules', aiError: describeAIError(error), evidence: assessParsedFields(text, rules, rules, null) };
+    }
+  }
+
+  /**
+   * Parse with the model, one chunk at a time so long resumes keep their later sections
+   */
+  private async parseWithAI(text: string, onProgress?: (done: number, total: number) => void): Promise<ParsedResumeData> {
+    const chunks = chunkResumeText(text);
+    const results: ParsedResumeData[] = [];
+
+    for (let i = 0; i < chunks.length; i++) {
+      // The gateway picks the model, falling back through its configured list
+      const reply = await llmClient.chatStructured({
+        feature: 'resume_parsing',
+        messages: [
+          {
+            role: 'system',
+            content: 'You are an expert at parsing resumes and extracting structured information. Always return valid JSON.'
+          },
+          {
+            role: 'user',
+            content: resumePrompt(chunks[i], i + 1, chunks.length)
+          }
+        ],
+        temperature: 0.1,
+        maxTokens: 1500
+      }, resumeParseSchema);
+
+      results.push(toParsedResume(reply));
+      onProgress?.(i + 1, chunks.length);
+    }
+
+    return mergeParsedResumes(results);
+  }
+}
+
+// Export singleton instance
+export const resumeParsingService = new ResumeParsingService();
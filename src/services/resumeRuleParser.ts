@@ -0,0 +1,551 @@
+// Resume Rule Parser
+// Deterministic resume parsing that runs locally with no network: contact details and links, the
+// name, catalog skills, dated experience entries, education and certifications, read from the
+// line and section layout that resume extraction keeps. Also splits long resumes into chunks for
+// the AI parser, merges parse results and finds where parsed values came from in the text.
+
+import { CatalogSkill, findCatalogSkill } from '@/services/skillService';
+import { findMentionedSkills } from '@/services/skillMatchingService';
+import { headingSection, ResumeSection } from '@/lib/resumeText';
+
+export interface ResumeExperience {
+  title: string;
+  company: string;
+  startDate: string;
+  endDate: string;
+  duration: string;
+  description: string;
+}
+
+export interface ParsedResumeData {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  location: string;
+  yearsExperience: number;
+  skills: string[];
+  bio: string;
+  linkedinUrl: string;
+  githubUrl: string;
+  portfolioUrl: string;
+  education: string[];
+  workExperience: ResumeExperience[];
+  certifications: string[];
+}
+
+export interface ResumeBlock {
+  // 'header' holds everything above the first recognized heading: name, contact details
+  section: ResumeSection | 'header';
+  heading: string;
+  // Trimmed lines, with '' for blank lines
+  lines: string[];
+}
+
+export interface SourceSpan {
+  // Character offsets into the resume text; end is exclusive
+  start: number;
+  end: number;
+}
+
+// A span with the rest of its line around it
+export interface SourceSnippet {
+  before: string;
+  match: string;
+  after: string;
+}
+
+// Characters per chunk sent to the AI parser
+export const RESUME_CHUNK_LENGTH = 6000;
+
+export const emptyParsedResume = (): ParsedResumeData => ({
+  firstName: '',
+  lastName: '',
+  email: '',
+  phone: '',
+  location: '',
+  yearsExperience: 0,
+  skills: [],
+  bio: '',
+  linkedinUrl: '',
+  githubUrl: '',
+  portfolioUrl: '',
+  education: [],
+  workExperience: [],
+  certifications: []
+});
+
+const EMAIL = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/;
+const PHONE = /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d[\d\s.-]{6,}\d/g;
+const LINKEDIN = /(?:https?:\/\/)?(?:[a-z]{2,3}\.)?linkedin\.com\/(?:in|pub)\/[A-Za-z0-9_%-]+\/?/i;
+const GITHUB = /(?:https?:\/\/)?(?:www\.)?github\.com\/[A-Za-z0-9-]+\/?/i;
+// Portfolio links need a scheme or www., or a domain ending people use for personal sites
+const WEBSITE = /(?:https?:\/\/|www\.)[^\s|,;()<>]+|\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|io|dev|me|net|org|co|app|design|site|tech|xyz)(?:\/[^\s|,;()<>]*)?/gi;
+const BULLET = /^[•*▪◦‣-]\s*/;
+const NAME_WORD = /^[A-Za-zÀ-ÖØ-öø-ÿ][A-Za-zÀ-ÖØ-öø-ÿ'.-]*$/;
+const LOCATION = /^[A-ZÀ-Ö][A-Za-zÀ-ÖØ-öø-ÿ .'-]+,\s*[A-ZÀ-Ö][A-Za-zÀ-ÖØ-öø-ÿ .'-]+(?:,\s*[A-Z][A-Za-z .'-]+)?$/;
+const TITLE_WORDS = /\b(engineer|developer|programmer|manager|designer|analyst|scientist|lead|consultant|intern|architect|director|specialist|head|officer|administrator|tester|qa|owner|coordinator|associate|assistant|technician|researcher|founder|cto|ceo|vp|president|devops|sre)\b/i;
+const DEGREE_WORDS = /\b(bachelor|master|ph\.?\s?d|doctorate|mba|diploma|associate|degree|b\.?\s?sc?|m\.?\s?sc?|b\.?\s?a|m\.?\s?a|b\.?\s?tech|m\.?\s?tech|b\.?\s?eng|m\.?\s?eng|bs|ms|ba|ma|hnd|gcse|a-levels?)\b/i;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const DATE = `(?:${MONTH}\\s*,?\\s*(?:19|20)\\d{2}|\\d{1,2}\\s*[/.]\\s*(?:19|20)\\d{2}|(?:19|20)\\d{2})`;
+const DATE_RANGE = new RegExp(`\\b(${DATE})\\s*(?:-|–|—|to|until)\\s*(${DATE}|present|current|now|today|ongoing)\\b`, 'i');
+const YEARS_STATED = /(\d{1,2})\+?\s*(?:years|yrs)(?:\s+of)?(?:\s+\w+)?\s+experience/i;
+
+interface MonthDate {
+  year: number;
+  // 0-11; January when only the year is known
+  month: number;
+  yearOnly: boolean;
+}
+
+const parseDate = (value: string): MonthDate | null => {
+  const text = value.trim().toLowerCase();
+  if (/^(present|current|now|today|ongoing)$/.test(text)) {
+    const now = new Date();
+    return { year: now.getFullYear(), month: now.getMonth(), yearOnly: false };
+  }
+  const year = Number((text.match(/(19|20)\d{2}/) || [])[0]);
+  if (!year) return null;
+  const monthName = MONTHS.indexOf(text.slice(0, 3));
+  if (monthName !== -1) return { year, month: monthName, yearOnly: false };
+  const monthNumber = Number((text.match(/^(\d{1,2})\s*[/.]/) || [])[1]);
+  if (monthNumber >= 1 && monthNumber <= 12) return { year, month: monthNumber - 1, yearOnly: false };
+  return { year, month: 0, yearOnly: true };
+};
+
+const formatDate = (value: string): string => {
+  if (/^(present|current|now|today|ongoing)$/i.test(value.trim())) return 'Present';
+  const date = parseDate(value);
+  if (!date) return value.trim();
+  if (date.yearOnly) return String(date.year);
+  const month = MONTHS[date.month];
+  return `${month.charAt(0).toUpperCase()}${month.slice(1)} ${date.year}`;
+};
+
+const monthIndex = (date: MonthDate) => date.year * 12 + date.month;
+
+const formatDuration = (months: number): string => {
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  return [
+    years > 0 ? `${years} ${years === 1 ? 'yr' : 'yrs'}` : '',
+    rest > 0 ? `${rest} ${rest === 1 ? 'mo' : 'mos'}` : ''
+  ].filter(Boolean).join(' ');
+};
+
+// Inclusive span in months of a start and end date, when both parse
+const spanMonths = (startDate: string, endDate: string): [number, number] | null => {
+  const start = parseDate(startDate);
+  const end = parseDate(endDate);
+  if (!start || !end) return null;
+  const from = monthIndex(start);
+  // A year-only end date covers that whole year
+  const to = monthIndex(end) + (end.yearOnly ? 11 : 0);
+  return to >= from ? [from, to + 1] : null;
+};
+
+const titleCase = (word: string) =>
+  word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+
+const normalizeUrl = (url: string) => {
+  const trimmed = url.replace(/[.,;:)\]]+$/, '');
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+};
+
+const stripBullet = (line: string) => line.replace(BULLET, '').trim();
+
+const dedupe = (values: string[]) => {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const key = value.toLowerCase();
+    if (!value || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * Split resume text into sections at recognized headings. Text above the first heading is the
+ * header block.
+ */
+export const splitResumeSections = (text: string): ResumeBlock[] => {
+  const blocks: ResumeBlock[] = [{ section: 'header', heading: '', lines: [] }];
+  text.split('\n').forEach(raw => {
+    const line = raw.trim();
+    const section = headingSection(line);
+    if (section) {
+      blocks.push({ section, heading: line, lines: [] });
+    } else {
+      blocks[blocks.length - 1].lines.push(line);
+    }
+  });
+  return blocks;
+};
+
+const sectionLines = (blocks: ResumeBlock[], section: ResumeBlock['section']) =>
+  blocks.filter(block => block.section === section).flatMap(block => [...block.lines, '']);
+
+// Non-empty runs of lines between blank lines
+const paragraphs = (lines: string[]): string[][] => {
+  const result: string[][] = [[]];
+  lines.forEach(line => {
+    if (line) {
+      result[result.length - 1].push(line);
+    } else if (result[result.length - 1].length > 0) {
+      result.push([]);
+    }
+  });
+  return result.filter(paragraph => paragraph.length > 0);
+};
+
+const findPhone = (text: string): string => {
+  for (const match of text.match(PHONE) || []) {
+    const digits = match.replace(/\D/g, '');
+    const groups = match.split(/\D+/).filter(Boolean);
+    // Date ranges such as 2019 - 2023 look like numbers too
+    const isYears = groups.every(group => /^(19|20)\d{2}$/.test(group));
+    if (digits.length >= 9 && digits.length <= 15 && !isYears) return match.trim();
+  }
+  return '';
+};
+
+const findPortfolio = (text: string): string => {
+  for (const match of text.replace(new RegExp(EMAIL.source, 'g'), ' ').match(WEBSITE) || []) {
+    if (!/linkedin\.com|github\.com/i.test(match)) return normalizeUrl(match);
+  }
+  return '';
+};
+
+// Header segments: lines, further split on the separators used in contact lines
+const headerSegments = (lines: string[]) =>
+  lines.flatMap(line => line.split(/\s*[|•·]\s*/)).map(segment => segment.trim()).filter(Boolean);
+
+const findName = (lines: string[]): [string, string] => {
+  for (const segment of headerSegments(lines.slice(0, 6))) {
+    if (EMAIL.test(segment) || /\d|https?:|www\.|\.com/i.test(segment)) continue;
+    const words = segment.split(/\s+/);
+    if (words.length < 2 || words.length > 4 || !words.every(word => NAME_WORD.test(word))) continue;
+    // Job titles on the first line are not names
+    if (TITLE_WORDS.test(segment)) continue;
+    const name = words.map(word => word === word.toUpperCase() ? titleCase(word) : word);
+    return [name[0], name.slice(1).join(' ')];
+  }
+  return ['', ''];
+};
+
+const findLocation = (lines: string[], name: string): string => {
+  for (const segment of headerSegments(lines)) {
+    const labelled = segment.match(/^(?:location|address|based in)\s*:\s*(.+)$/i);
+    if (labelled) return labelled[1].trim();
+    if (segment !== name && !/\d/.test(segment) && LOCATION.test(segment)) return segment;
+  }
+  return '';
+};
+
+const findSkills = (text: string, skillLines: string[], catalog: CatalogSkill[]): string[] => {
+  const mentioned = findMentionedSkills(text, catalog).map(skill => skill.name);
+
+  // Items listed under a skills heading, with "Languages: a, b" style labels dropped
+  const listed = skillLines
+    .filter(Boolean)
+    .map(line => stripBullet(line).replace(/^[^:,]{1,30}:\s*/, ''))
+    .flatMap(line => line.split(/\s*[,;|•·]\s*|\s+\/\s+/))
+    .map(item => item.trim().replace(/\.$/, ''))
+    .filter(item => item.length > 0 && item.length <= 40 && item.split(/\s+/).length <= 4)
+    .map(item => findCatalogSkill(catalog, item)?.name || item);
+
+  return dedupe([...mentioned, ...listed]);
+};
+
+const isHeaderLike = (line: string | undefined) =>
+  !!line && !BULLET.test(line) && line.length <= 100 && !DATE_RANGE.test(line);
+
+// "Title at Company", "Title | Company", "Company - Title" and two-line headers
+const splitTitleCompany = (parts: string[]): [string, string] => {
+  let pieces = parts.filter(Boolean);
+  if (pieces.length === 1) {
+    pieces = pieces[0].split(/\s+(?:at|@)\s+|\s+[|–—-]\s+|,\s+/).map(piece => piece.trim()).filter(Boolean);
+  }
+  if (pieces.length === 0) return ['', ''];
+  if (pieces.length === 1) return TITLE_WORDS.test(pieces[0]) ? [pieces[0], ''] : ['', pieces[0]];
+  const [first, second] = pieces;
+  return !TITLE_WORDS.test(first) && TITLE_WORDS.test(second) ? [second, first] : [first, second];
+};
+
+const parseExperience = (lines: string[]): ResumeExperience[] => {
+  const dateLines = lines
+    .map((line, index) => (line && DATE_RANGE.test(line) ? index : -1))
+    .filter(index => index !== -1);
+
+  // Without dates, each paragraph is an entry headed by its first line
+  if (dateLines.length === 0) {
+    return paragraphs(lines).map(paragraph => {
+      const [title, company] = splitTitleCompany([paragraph[0]]);
+      return { title, company, startDate: '', endDate: '', duration: '', description: paragraph.slice(1).join('\n') };
+    });
+  }
+
+  // An entry starts at its date line, or at the one or two header lines right above it
+  const starts = dateLines.map((dateLine, index) => {
+    const floor = index > 0 ? dateLines[index - 1] + 1 : 0;
+    let start = dateLine;
+    if (start - 1 >= floor && isHeaderLike(lines[start - 1])) {
+      start--;
+      if (start - 1 >= floor && isHeaderLike(lines[start - 1]) && !lines[start - 2]) start--;
+    }
+    return start;
+  });
+
+  return dateLines.map((dateLine, index) => {
+    const end = index + 1 < starts.length ? starts[index + 1] : lines.length;
+    const range = lines[dateLine].match(DATE_RANGE)!;
+    const dateLineText = lines[dateLine]
+      .replace(range[0], ' ')
+      .replace(/[()]/g, ' ')
+      .replace(/^[\s|,·•–—-]+|[\s|,·•–—-]+$/g, '')
+      .trim();
+    const parts = [...lines.slice(starts[index], dateLine), dateLineText].filter(Boolean);
+
+    let descriptionStart = dateLine + 1;
+    const next = lines[descriptionStart];
+    // A company or title line under the dates, when the header above is incomplete
+    if (parts.length < 2 && next && isHeaderLike(next) && next.length <= 60 && !/\.$/.test(next)) {
+      parts.push(next);
+      descriptionStart++;
+    }
+
+    const [title, company] = splitTitleCompany(parts);
+    const startDate = formatDate(range[1]);
+    const endDate = formatDate(range[2]);
+    const span = spanMonths(range[1], range[2]);
+    return {
+      title,
+      company,
+      startDate,
+      endDate,
+      duration: span ? formatDuration(span[1] - span[0]) : '',
+      description: lines.slice(descriptionStart, end).filter(Boolean).join('\n')
+    };
+  });
+};
+
+// Total months covered by the entries, counting overlapping jobs once
+const experienceYears = (entries: ResumeExperience[]): number => {
+  const spans = entries
+    .map(entry => spanMonths(entry.startDate, entry.endDate))
+    .filter((span): span is [number, number] => span !== null)
+    .sort((a, b) => a[0] - b[0]);
+
+  let months = 0;
+  let coveredUntil = -Infinity;
+  spans.forEach(([from, to]) => {
+    const start = Math.max(from, coveredUntil);
+    if (to > start) months += to - start;
+    coveredUntil = Math.max(coveredUntil, to);
+  });
+  return Math.floor(months / 12);
+};
+
+const parseEducation = (lines: string[]): string[] =>
+  paragraphs(lines).flatMap(paragraph => {
+    const items = paragraph.map(stripBullet);
+    if (items.length <= 3) return [items.join(', ')];
+    // Several entries without blank lines between them: start a new one at each degree
+    const entries: string[][] = [];
+    items.forEach(item => {
+      if (entries.length === 0 || DEGREE_WORDS.test(item)) {
+        entries.push([item]);
+      } else {
+        entries[entries.length - 1].push(item);
+      }
+    });
+    return entries.length > 1 ? entries.map(entry => entry.join(', ')) : items;
+  });
+
+const parseCertifications = (lines: string[]): string[] =>
+  dedupe(lines.filter(Boolean).flatMap(line => stripBullet(line).split(/\s*;\s*/)).map(item => item.trim()));
+
+/**
+ * Parse resume text with rules alone. Skills are matched against the catalog (names and
+ * synonyms) anywhere in the text, plus whatever is listed under a skills heading.
+ */
+export const parseResumeWithRules = (text: string, catalog: CatalogSkill[]): ParsedResumeData => {
+  const blocks = splitResumeSections(text);
+  const header = sectionLines(blocks, 'header').filter(Boolean);
+  const [firstName, lastName] = findName(header);
+  const workExperience = parseExperience(sectionLines(blocks, 'experience'));
+  const stated = text.match(YEARS_STATED);
+
+  return {
+    firstName,
+    lastName,
+    email: (text.match(EMAIL) || [''])[0],
+    phone: findPhone(header.join('\n')) || findPhone(text),
+    location: findLocation(header, `${firstName} ${lastName}`.trim()),
+    yearsExperience: experienceYears(workExperience) || (stated ? Number(stated[1]) : 0),
+    skills: findSkills(text, sectionLines(blocks, 'skills'), catalog),
+    bio: paragraphs(sectionLines(blocks, 'summary')).map(paragraph => paragraph.join(' ')).join('\n\n'),
+    linkedinUrl: (text.match(LINKEDIN) || []).map(normalizeUrl)[0] || '',
+    githubUrl: (text.match(GITHUB) || []).map(normalizeUrl)[0] || '',
+    portfolioUrl: findPortfolio(header.join('\n')),
+    education: parseEducation(sectionLines(blocks, 'education')),
+    workExperience,
+    certifications: parseCertifications(sectionLines(blocks, 'certifications'))
+  };
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Long values are looked up by their opening words
+const SPAN_WORDS = 8;
+
+/**
+ * Where a parsed value appears in the resume text, ignoring case, spacing and line breaks. URLs
+ * are looked up without their scheme and "www.".
+ */
+export const findValueSpan = (text: string, value: string): SourceSpan | null => {
+  const words = stripBullet(value.trim())
+    .replace(/^https?:\/\/(?:www\.)?|\/$/gi, '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, SPAN_WORDS);
+  if (words.length === 0) return null;
+  const match = new RegExp(words.map(escapeRegExp).join('\\s+'), 'i').exec(text);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+};
+
+/**
+ * Where years of experience were read from: a stated "N years of experience" with that number,
+ * or else the first date range, which is where counting the dated entries starts
+ */
+export const findYearsSpan = (text: string, years: number): SourceSpan | null => {
+  const stated = YEARS_STATED.exec(text);
+  const match = stated && Number(stated[1]) === years ? stated : DATE_RANGE.exec(text);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+};
+
+/**
+ * A span with up to `context` characters of its line on either side
+ */
+export const spanSnippet = (text: string, span: SourceSpan, context = 80): SourceSnippet => {
+  const lineStart = text.lastIndexOf('\n', span.start - 1) + 1;
+  const lineBreak = text.indexOf('\n', span.end);
+  const lineEnd = lineBreak === -1 ? text.length : lineBreak;
+  const from = Math.max(lineStart, span.start - context);
+  const to = Math.min(lineEnd, span.end + context);
+  return {
+    before: `${from > lineStart ? '…' : ''}${text.slice(from, span.start)}`,
+    match: text.slice(span.start, span.end),
+    after: `${text.slice(span.end, to)}${to < lineEnd ? '…' : ''}`
+  };
+};
+
+/**
+ * Split resume text into chunks of at most maxLength characters for the AI parser, breaking at
+ * section boundaries first, then paragraphs, then lines. A section split across chunks repeats
+ * its heading so each chunk can be read on its own.
+ */
+export const chunkResumeText = (text: string, maxLength = RESUME_CHUNK_LENGTH): string[] => {
+  if (text.length <= maxLength) return [text];
+
+  const pieces: string[] = [];
+  splitResumeSections(text).forEach(block => {
+    const body = block.lines.join('\n').trim();
+    const whole = [block.heading, body].filter(Boolean).join('\n');
+    if (!whole) return;
+    if (whole.length <= maxLength) {
+      pieces.push(whole);
+      return;
+    }
+
+    const continued = block.heading ? `${block.heading} (continued)` : '';
+    const room = maxLength - continued.length - 2;
+    let current = block.heading;
+    const flush = () => {
+      if (current.trim()) pieces.push(current.trim());
+      current = continued;
+    };
+    const add = (part: string, separator: string) => {
+      if ((current + separator + part).length > maxLength) flush();
+      current = current.trim() ? current + separator + part : current + part;
+    };
+
+    paragraphs(block.lines).forEach(paragraph => {
+      const paragraphText = paragraph.join('\n');
+      if (paragraphText.length <= room) {
+        add(paragraphText, '\n\n');
+        return;
+      }
+      paragraph.forEach(line => {
+        for (let offset = 0; offset < line.length; offset += room) {
+          add(line.slice(offset, offset + room), '\n');
+        }
+      });
+    });
+    flush();
+  });
+
+  // Pack the pieces into as few chunks as fit
+  const chunks: string[] = [];
+  pieces.forEach(piece => {
+    const last = chunks[chunks.length - 1];
+    if (last !== undefined && last.length + piece.length + 2 <= maxLength) {
+      chunks[chunks.length - 1] = `${last}\n\n${piece}`;
+    } else {
+      chunks.push(piece);
+    }
+  });
+  return chunks;
+};
+
+const experienceKey = (entry: ResumeExperience) =>
+  [entry.title, entry.company, entry.startDate].map(value => value.toLowerCase().trim()).join('|');
+
+/**
+ * Merge results for consecutive chunks of one resume. Fields keep the first non-empty value and
+ * lists are concatenated without repeats.
+ */
+export const mergeParsedResumes = (results: ParsedResumeData[]): ParsedResumeData =>
+  results.reduce((merged, result) => {
+    const seen = new Set(merged.workExperience.map(experienceKey));
+    return {
+      firstName: merged.firstName || result.firstName,
+      lastName: merged.lastName || result.lastName,
+      email: merged.email || result.email,
+      phone: merged.phone || result.phone,
+      location: merged.location || result.location,
+      yearsExperience: merged.yearsExperience || result.yearsExperience,
+      skills: dedupe([...merged.skills, ...result.skills]),
+      bio: merged.bio || result.bio,
+      linkedinUrl: merged.linkedinUrl || result.linkedinUrl,
+      githubUrl: merged.githubUrl || result.githubUrl,
+      portfolioUrl: merged.portfolioUrl || result.portfolioUrl,
+      education: dedupe([...merged.education, ...result.education]),
+      workExperience: [...merged.workExperience, ...result.workExperience.filter(entry => !seen.has(experienceKey(entry)))],
+      certifications: dedupe([...merged.certifications, ...result.certifications])
+    };
+  }, emptyParsedResume());
+
+/**
+ * Combine the AI's reading of a resume with the rule-based one. Contact details and links come
+ * from the rules, which copy them verbatim; the AI wins for names, the summary and the entry
+ * lists wherever it found something. Skills from both are kept.
+ */
+export const combineParsedResumes = (rules: ParsedResumeData, ai: ParsedResumeData): ParsedResumeData => ({
+  firstName: ai.firstName || rules.firstName,
+  lastName: ai.lastName || rules.lastName,
+  email: rules.email || ai.email,
+  phone: rules.phone || ai.phone,
+  location: ai.location || rules.location,
+  yearsExperience: ai.yearsExperience || rules.yearsExperience,
+  skills: dedupe([...ai.skills, ...rules.skills]),
+  bio: ai.bio || rules.bio,
+  linkedinUrl: rules.linkedinUrl || ai.linkedinUrl,
+  githubUrl: rules.githubUrl || ai.githubUrl,
+  portfolioUrl: rules.portfolioUrl || ai.portfolioUrl,
+  education: ai.education.length > 0 ? ai.education : rules.education,
+  workExperience: ai.workExperience.length > 0 ? ai.workExperience : rules.workExperience,
+  certifications: ai.certifications.length > 0 ? ai.certifications : rules.certifications
+});
@@ -0,0 +1,180 @@
+// Resume Storage Service
+// Original resume files of talent profiles. Files live in the private "resumes" bucket under the
+// profile's id and are only opened through short-lived signed URLs; every upload is a new version.
+
+import { supabase } from '@/integrations/supabase/client';
+import { resumeExtractionService } from '@/services/resumeExtractionService';
+
+const RESUME_BUCKET = 'resumes';
+// Long enough to read a resume in the viewer, short enough that a copied link soon stops working
+const SIGNED_URL_SECONDS = 15 * 60;
+
+export interface TalentResume {
+  id: string;
+  talentProfileId: string;
+  versionNumber: number;
+  fileName: string;
+  mimeType: string | null;
+  sizeBytes: number | null;
+  storagePath: string;
+  uploadedBy: string | null;
+  uploadedByName: string | null;
+  createdAt: string;
+}
+
+export type ResumePreviewKind = 'pdf' | 'image' | 'text';
+
+/**
+ * How a resume can be shown inline: PDFs and images by the browser, anything else as its text
+ */
+export const getPreviewKind = (resume: TalentResume): ResumePreviewKind => {
+  const format = resumeExtractionService.getFormat({ name: resume.fileName, type: resume.mimeType || '' });
+  if (format === 'pdf') return 'pdf';
+  if (format === 'image') return 'image';
+  return 'text';
+};
+
+class ResumeStorageService {
+  /**
+   * Resume versions of a talent profile, newest first, with the uploader's name
+   */
+  async getResumes(talentProfileId: string): Promise<TalentResume[]> {
+    const { data, error } = await supabase
+      .from('talent_resumes')
+      .select('id, talent_profile_id, version_number, file_name, mime_type, size_bytes, storage_path, uploaded_by, created_at')
+      .eq('talent_profile_id', talentProfileId)
+      .order('version_number', { ascending: false });
+
+    if (error) throw error;
+
+    const uploaderIds = Array.from(new Set((data || []).map(row => row.uploaded_by).filter((id): id is string => !!id)));
+    const uploaderNames = new Map<string, string>();
+    if (uploaderIds.length > 0) {
+      const { data: uploaders } = await supabase
+        .from('users')
+        .select('user_id, first_name, last_name, email')
+        .in('user_id', uploaderIds);
+
+      (uploaders || []).forEach(uploader => {
+        if (uploader.user_id) {
+          uploaderNames.set(uploader.user_id, `${uploader.first_name || ''} ${uploader.last_name || ''}`.trim() || uploader.email);
+        }
+      });
+    }
+
+    return (data || []).map(row => ({
+      id: row.id,
+      talentProfileId: row.talent_profile_id,
+      versionNumber: row.version_number,
+      fileName: row.file_name,
+      mimeType: row.mime_type,
+      sizeBytes: row.size_bytes,
+      storagePath: row.storage_path,
+      uploadedBy: row.uploaded_by,
+      uploadedByName: row.uploaded_by ? uploaderNames.get(row.uploaded_by) || null : null,
+      createdAt: row.created_at
+    }));
+  }
+
+  /**
+   * Store a resume file as the profile's newest version. Pass the extracted text when it is
+   * already known so re-parsing can skip extraction.
+   */
+  async uploadResume(talentProfileId: string, file: File, extractedText?: string | null): Promise<void> {
+    const extension = file.name.includes('.') ? file.name.split('.').pop()!.toLowerCase() : 'bin';
+    const storagePath = `${talentProfileId}/${crypto.randomUUID()}.${extension}`;
+
+    // The version row goes first: uploaders who can't edit the profile may not delete files, but
+    // they can withdraw a row whose file never arrived. Until the file is there the row is hidden.
+    const { error } = await supabase
+      .from('talent_resumes')
+      .insert({
+        talent_profile_id: talentProfileId,
+        storage_path: storagePath,
+        file_name: file.name,
+        mime_type: file.type || null,
+        size_bytes: file.size,
+        extracted_text: extractedText || null
+      });
+
+    if (error) throw error;
+
+    const { error: uploadError } = await supabase.storage
+      .from(RESUME_BUCKET)
+      .upload(storagePath, file, { contentType: file.type || 'application/octet-stream' });
+
+    if (uploadError) {
+      await supabase.rpc('withdraw_talent_resume', { _storage_path: storagePath });
+      throw uploadError;
+    }
+  }
+
+  /**
+   * A signed URL for viewing the file inline, or for downloading it under its original name
+   */
+  async getSignedUrl(resume: TalentResume, download = false): Promise<string> {
+    const { data, error } = await supabase.storage
+      .from(RESUME_BUCKET)
+      .createSignedUrl(resume.storagePath, SIGNED_URL_SECONDS, download ? { download: resume.fileName } : undefined);
+
+    if (error) throw error;
+    return data.signedUrl;
+  }
+
+  /**
+   * The resume's text: stored at upload time, or extracted from the file for older uploads
+   */
+  async getText(resume: TalentResume): Promise<string> {
+    const { data, error } = await supabase
+      .from('talent_resumes')
+      .select('extracted_text')
+      .eq('id', resume.id)
+      .single();
+
+    if (error) throw error;
+    if (data.extracted_text) return data.extracted_text;
+
+    const { data: blob, error: downloadError } = await supabase.storage
+      .from(RESUME_BUCKET)
+      .download(resume.storagePath);
+
+    if (downloadError) throw downloadError;
+    return resumeExtractionService.extractText(new File([blob], resume.fileName, { type: resume.mimeType || blob.type }));
+  }
+
+  /**
+   * Delete a resume version and its file (managers and admins)
+   */
+  async deleteResume(resume: TalentResume): Promise<void> {
+    const { error } = await supabase
+      .from('talent_resumes')
+      .delete()
+      .eq('id', resume.id);
+
+    if (error) throw error;
+
+    const { error: removeError } = await supabase.storage.from(RESUME_BUCKET).remove([resume.storagePath]);
+    if (removeError) throw removeError;
+  }
+
+  /**
+   * Remove the stored files of every resume of the given profiles, before deleting the profiles
+   */
+  async removeProfileFiles(talentProfileIds: string[]): Promise<void> {
+    const { data, error } = await supabase
+      .from('talent_resumes')
+      .select('storage_path')
+      .in('talent_profile_id', talentProfileIds);
+
+    if (error) throw error;
+
+    const paths = (data || []).map(row => row.storage_path);
+    if (paths.length === 0) return;
+
+    const { error: removeError } = await supabase.storage.from(RESUME_BUCKET).remove(paths);
+    if (removeError) throw removeError;
+  }
+}
+
+// Export singleton instance
+export const resumeStorageService = new ResumeStorageService();
@@ -0,0 +1,59 @@
+// Role Service
+// Grants and revokes app roles. user_roles is the only place roles are stored; RLS policies,
+// the route guard (useUserRole) and this dashboard all read it through has_role().
+
+import { supabase } from '@/integrations/supabase/client';
+import { AppRole } from '@/hooks/useUserRole';
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  user: 'User',
+  manager: 'Manager',
+  org_admin: 'Org Admin',
+  admin: 'Admin'
+};
+
+class RoleService {
+  /**
+   * Every user's roles, keyed by auth user id
+   */
+  async getRoleAssignments(): Promise<Map<string, AppRole[]>> {
+    const { data, error } = await supabase
+      .from('user_roles')
+      .select('user_id, role');
+
+    if (error) throw error;
+
+    const assignments = new Map<string, AppRole[]>();
+    (data || []).forEach(row => {
+      assignments.set(row.user_id, [...(assignments.get(row.user_id) || []), row.role]);
+    });
+    return assignments;
+  }
+
+  /**
+   * Give a user a role (admins only). Granting a role the user already has is a no-op.
+   */
+  async grantRole(userId: string, role: AppRole): Promise<void> {
+    const { error } = await supabase
+      .from('user_roles')
+      .upsert({ user_id: userId, role }, { onConflict: 'user_id,role', ignoreDuplicates: true });
+
+    if (error) throw error;
+  }
+
+  /**
+   * Take a role away from a user (admins only). The last admin can't be revoked.
+   */
+  async revokeRole(userId: string, role: AppRole): Promise<void> {
+    const { error } = await supabase
+      .from('user_roles')
+      .delete()
+      .eq('user_id', userId)
+      .eq('role', role);
+
+    if (error) throw error;
+  }
+}
+
+// Export singleton instance
+export const roleService = new RoleService();
@@ -0,0 +1,280 @@
+// Skill Matching Service
+// Scores a talent's catalog skills against an opportunity's required and nice-to-have skills
+
+import { findCatalogSkill, DEFAULT_SKILL_LEVEL, CatalogSkill } from '@/services/skillService';
+
+export type SkillMatchStatus = 'met' | 'below_level' | 'related' | 'missing';
+
+export interface SkillRequirement {
+  skillId: string;
+  name: string;
+  requiredLevel: number;
+  isRequired: boolean;
+}
+
+export interface TalentSkillLevel {
+  skillId: string;
+  name: string;
+  proficiencyLevel: number;
+  yearsExperience: number;
+}
+
+export interface SkillMatchDetail {
+  skillId: string;
+  skillName: string;
+  isRequired: boolean;
+  requiredLevel: number;
+  status: SkillMatchStatus;
+  // 0-1 share of this requirement that the talent covers
+  credit: number;
+  // The talent skill that produced the credit, when it is not the required skill itself
+  matchedSkillName?: string;
+  proficiencyLevel?: number;
+  yearsExperience?: number;
+}
+
+export interface SkillMatchResult {
+  // 0-1, or null when the opportunity lists no skills
+  score: number | null;
+  details: SkillMatchDetail[];
+  missingRequired: string[];
+  requiredMet: number;
+  requiredTotal: number;
+  niceToHaveMet: number;
+  niceToHaveTotal: number;
+}
+
+// Rows as returned by the opportunity_skills / talent_skills selects with the skill name joined
+export interface OpportunitySkillRow {
+  skill_id: string;
+  required_level: number | null;
+  is_required: boolean | null;
+  skills?: { name: string } | null;
+}
+
+export interface TalentSkillRow {
+  skill_id: string;
+  proficiency_level: number | null;
+  years_experience: number | null;
+  skills?: { name: string } | null;
+}
+
+// Knowing a more specific skill (Next.js) covers most of its parent (React)
+const CHILD_SKILL_CREDIT = 0.7;
+// Knowing only the broader skill (React) covers a little of a specialisation (Next.js)
+const PARENT_SKILL_CREDIT = 0.4;
+// Years of hands-on use can lift proficiency by up to one level
+const YEARS_FOR_LEVEL_BONUS = 5;
+// Share of the skill score that nice-to-haves can contribute
+const NICE_TO_HAVE_SHARE = 0.25;
+// Each missing required skill halves the skill score
+const MISSING_REQUIRED_FACTOR = 0.5;
+// Short names like "Go" or "ML" are only matched in free text with their exact casing
+const CASE_SENSITIVE_MAX_LENGTH = 4;
+
+export type SkillHierarchy = Map<string, string | null>;
+
+export const buildSkillHierarchy = (catalog: CatalogSkill[]): SkillHierarchy =>
+  new Map(catalog.map(skill => [skill.id, skill.parentSkillId]));
+
+/**
+ * Parent, grandparent, ... of a skill, nearest first
+ */
+const ancestorsOf = (skillId: string, hierarchy: SkillHierarchy): string[] => {
+  const ancestors: string[] = [];
+  let current = hierarchy.get(skillId);
+  while (current && !ancestors.includes(current) && current !== skillId) {
+    ancestors.push(current);
+    current = hierarchy.get(current);
+  }
+  return ancestors;
+};
+
+const levelCredit = (talentSkill: TalentSkillLevel, requiredLevel: number): number => {
+  const yearsBonus = Math.min(1, (talentSkill.yearsExperience || 0) / YEARS_FOR_LEVEL_BONUS);
+  return Math.min(1, (talentSkill.proficiencyLevel + yearsBonus) / Math.max(1, requiredLevel));
+};
+
+const evaluateRequirement = (
+  requirement: SkillRequirement,
+  talentSkills: TalentSkillLevel[],
+  hierarchy: SkillHierarchy
+): SkillMatchDetail => {
+  const base = {
+    skillId: requirement.skillId,
+    skillName: requirement.name,
+    isRequired: requirement.isRequired,
+    requiredLevel: requirement.requiredLevel
+  };
+
+  const direct = talentSkills.find(skill => skill.skillId === requirement.skillId);
+  if (direct) {
+    const credit = levelCredit(direct, requirement.requiredLevel);
+    return {
+      ...base,
+      status: credit >= 1 ? 'met' : 'below_level',
+      credit,
+      proficiencyLevel: direct.proficiencyLevel,
+      yearsExperience: direct.yearsExperience
+    };
+  }
+
+  // Walk parent_skill_id in both directions and keep the best partial match
+  const requirementAncestors = ancestorsOf(requirement.skillId, hierarchy);
+  let best: SkillMatchDetail | null = null;
+
+  for (const skill of talentSkills) {
+    const childDistance = ancestorsOf(skill.skillId, hierarchy).indexOf(requirement.skillId) + 1;
+    const parentDistance = requirementAncestors.indexOf(skill.skillId) + 1;
+
+    const factor = Math.max(
+      childDistance > 0 ? Math.pow(CHILD_SKILL_CREDIT, childDistance) : 0,
+      parentDistance > 0 ? Math.pow(PARENT_SKILL_CREDIT, parentDistance) : 0
+    );
+    if (factor === 0) continue;
+
+    const credit = factor * levelCredit(skill, requirement.requiredLevel);
+    if (!best || credit > best.credit) {
+      best = {
+        ...base,
+        status: 'related',
+        credit,
+        matchedSkillName: skill.name,
+        proficiencyLevel: skill.proficiencyLevel,
+        yearsExperience: skill.yearsExperience
+      };
+    }
+  }
+
+  return best || { ...base, status: 'missing', credit: 0 };
+};
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+/**
+ * Compare a talent's skills with an opportunity's requirements.
+ * Required skills carry the score; nice-to-haves add partial credit; missing required skills are penalised.
+ */
+export const evaluateSkillMatch = (
+  requirements: SkillRequirement[],
+  talentSkills: TalentSkillLevel[],
+  hierarchy: SkillHierarchy
+): SkillMatchResult => {
+  const details = requirements
+    .map(requirement => evaluateRequirement(requirement, talentSkills, hierarchy))
+    .sort((a, b) => Number(b.isRequired) - Number(a.isRequired));
+
+  const required = details.filter(detail => detail.isRequired);
+  const niceToHave = details.filter(detail => !detail.isRequired);
+  const missingRequired = required.filter(detail => detail.status === 'missing').map(detail => detail.skillName);
+
+  let score: number | null = null;
+  if (required.length > 0 && niceToHave.length > 0) {
+    score = average(required.map(detail => detail.credit)) * (1 - NICE_TO_HAVE_SHARE)
+      + average(niceToHave.map(detail => detail.credit)) * NICE_TO_HAVE_SHARE;
+  } else if (required.length > 0) {
+    score = average(required.map(detail => detail.credit));
+  } else if (niceToHave.length > 0) {
+    score = average(niceToHave.map(detail => detail.credit));
+  }
+
+  if (score !== null && missingRequired.length > 0) {
+    score *= Math.pow(MISSING_REQUIRED_FACTOR, missingRequired.length);
+  }
+
+  return {
+    score,
+    details,
+    missingRequired,
+    requiredMet: required.filter(detail => detail.status === 'met').length,
+    requiredTotal: required.length,
+    niceToHaveMet: niceToHave.filter(detail => detail.status === 'met').length,
+    niceToHaveTotal: niceToHave.length
+  };
+};
+
+/**
+ * Short human-readable summary of a skill match for the explanation text
+ */
+export const summarizeSkillMatch = (result: SkillMatchResult): string[] => {
+  const summary: string[] = [];
+  if (result.requiredTotal > 0) {
+    summary.push(`${result.requiredMet}/${result.requiredTotal} required skills at level`);
+  }
+  if (result.missingRequired.length > 0) {
+    summary.push(`Missing required: ${result.missingRequired.join(', ')}`);
+  }
+  if (result.niceToHaveTotal > 0) {
+    summary.push(`${result.niceToHaveMet}/${result.niceToHaveTotal} nice-to-have skills`);
+  }
+  return summary;
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const mentions = (text: string, term: string): boolean => {
+  const caseSensitive = term.length <= CASE_SENSITIVE_MAX_LENGTH;
+  const pattern = new RegExp(`(^|[^A-Za-z0-9+#.])${escapeRegExp(term)}(?=[^A-Za-z0-9+#]|$)`, caseSensitive ? '' : 'i');
+  return pattern.test(text);
+};
+
+/**
+ * Catalog skills mentioned in free text by name or synonym
+ */
+export const findMentionedSkills = (text: string, catalog: CatalogSkill[]): CatalogSkill[] =>
+  catalog.filter(skill => [skill.name, ...skill.aliases.map(alias => alias.alias)].some(term => mentions(text, term)));
+
+/**
+ * Requirements for an opportunity. Older opportunities without opportunity_skills
+ * fall back to catalog skills mentioned in the title or description, treated as nice-to-haves.
+ */
+export const getOpportunityRequirements = (
+  rows: OpportunitySkillRow[] | undefined,
+  text: string,
+  catalog: CatalogSkill[]
+): SkillRequirement[] => {
+  if (rows && rows.length > 0) {
+    return rows.map(row => ({
+      skillId: row.skill_id,
+      name: row.skills?.name || catalog.find(skill => skill.id === row.skill_id)?.name || 'Unknown skill',
+      requiredLevel: row.required_level || DEFAULT_SKILL_LEVEL,
+      isRequired: row.is_required !== false
+    }));
+  }
+
+  return findMentionedSkills(text, catalog)
+    .map(skill => ({
+      skillId: skill.id,
+      name: skill.name,
+      requiredLevel: DEFAULT_SKILL_LEVEL,
+      isRequired: false
+    }));
+};
+
+/**
+ * A talent's skills. Profiles without talent_skills fall back to their free-text list mapped onto the catalog.
+ */
+export const getTalentSkillLevels = (
+  rows: TalentSkillRow[] | undefined,
+  legacySkills: string[],
+  catalog: CatalogSkill[]
+): TalentSkillLevel[] => {
+  if (rows && rows.length > 0) {
+    return rows.map(row => ({
+      skillId: row.skill_id,
+      name: row.skills?.name || catalog.find(skill => skill.id === row.skill_id)?.name || 'Unknown skill',
+      proficiencyLevel: row.proficiency_level || DEFAULT_SKILL_LEVEL,
+      yearsExperience: row.years_experience || 0
+    }));
+  }
+
+  const levels: TalentSkillLevel[] = [];
+  legacySkills.forEach(name => {
+    const skill = findCatalogSkill(catalog, name);
+    if (skill && !levels.some(level => level.skillId === skill.id)) {
+      levels.push({ skillId: skill.id, name: skill.name, proficiencyLevel: DEFAULT_SKILL_LEVEL, yearsExperience: 0 });
+    }
+  });
+  return levels;
+};
@@ -0,0 +1,339 @@
+// Skill Service for the structured skill catalog
+// Wraps the skills/skill_aliases catalog and the talent_skills/opportunity_skills join tables
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type SkillCategory = Database['public']['Enums']['skill_category'];
+
+export const SKILL_CATEGORIES: SkillCategory[] = ['technical', 'soft', 'domain'];
+
+export interface SkillAlias {
+  id: string;
+  alias: string;
+}
+
+export interface CatalogSkill {
+  id: string;
+  name: string;
+  category: SkillCategory;
+  description: string | null;
+  parentSkillId: string | null;
+  aliases: SkillAlias[];
+}
+
+export interface SkillInput {
+  name: string;
+  category: SkillCategory;
+  description?: string | null;
+  parentSkillId?: string | null;
+}
+
+// A catalog skill attached to a talent or an opportunity.
+// For talents `level` is the proficiency, for opportunities it is the required level.
+export interface SelectedSkill {
+  skillId: string;
+  name: string;
+  level: number;
+  yearsExperience: number;
+  isRequired: boolean;
+}
+
+export interface LegacySkillMappingResult {
+  profilesProcessed: number;
+  skillsMapped: number;
+  unmappedSkills: number;
+}
+
+export interface UnmappedSkill {
+  skillName: string;
+  talentCount: number;
+}
+
+export const DEFAULT_SKILL_LEVEL = 3;
+
+const normalizeSkillName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Find a catalog entry by exact name first, then by alias
+ */
+export const findCatalogSkill = (catalog: CatalogSkill[], name: string): CatalogSkill | undefined => {
+  const normalized = normalizeSkillName(name);
+  if (!normalized) return undefined;
+
+  return catalog.find(skill => normalizeSkillName(skill.name) === normalized)
+    || catalog.find(skill => skill.aliases.some(alias => normalizeSkillName(alias.alias) === normalized));
+};
+
+/**
+ * Turn a catalog entry into a selection with default level settings
+ */
+export const toSelectedSkill = (skill: CatalogSkill): SelectedSkill => ({
+  skillId: skill.id,
+  name: skill.name,
+  level: DEFAULT_SKILL_LEVEL,
+  yearsExperience: 0,
+  isRequired: true
+});
+
+class SkillService {
+  private catalogRequest: Promise<CatalogSkill[]> | null = null;
+
+  /**
+   * Load the full catalog with aliases. The result is cached until the catalog is edited.
+   */
+  async getCatalog(forceRefresh = false): Promise<CatalogSkill[]> {
+    if (!this.catalogRequest || forceRefresh) {
+      this.catalogRequest = this.fetchCatalog().catch(error => {
+        this.catalogRequest = null;
+        throw error;
+      });
+    }
+    return this.catalogRequest;
+  }
+
+  async createSkill(input: SkillInput): Promise<void> {
+    const { error } = await supabase
+      .from('skills')
+      .insert({
+        name: input.name.trim(),
+        category: input.category,
+        description: input.description || null,
+        parent_skill_id: input.parentSkillId || null
+      });
+
+    if (error) throw error;
+    this.catalogRequest = null;
+  }
+
+  async updateSkill(skillId: string, input: SkillInput): Promise<void> {
+    const { error } = await supabase
+      .from('skills')
+      .update({
+        name: input.name.trim(),
+        category: input.category,
+        description: input.description || null,
+        parent_skill_id: input.parentSkillId || null
+      })
+      .eq('id', skillId);
+
+    if (error) throw error;
+    this.catalogRequest = null;
+  }
+
+  async deleteSkill(skillId: string): Promise<void> {
+    // Children keep existing but lose their parent
+    const { error: detachError } = await supabase
+      .from('skills')
+      .update({ parent_skill_id: null })
+      .eq('parent_skill_id', skillId);
+
+    if (detachError) throw detachError;
+
+    const { error } = await supabase
+      .from('skills')
+      .delete()
+      .eq('id', skillId);
+
+    if (error) throw error;
+    this.catalogRequest = null;
+  }
+
+  async addAlias(skillId: string, alias: string): Promise<void> {
+    const { error } = await supabase
+      .from('skill_aliases')
+      .insert({ skill_id: skillId, alias: alias.trim() });
+
+    if (error) throw error;
+    this.catalogRequest = null;
+  }
+
+  async removeAlias(aliasId: string): Promise<void> {
+    const { error } = await supabase
+      .from('skill_aliases')
+      .delete()
+      .eq('id', aliasId);
+
+    if (error) throw error;
+    this.catalogRequest = null;
+  }
+
+  /**
+   * Map free-text skill names onto catalog entries. Names without a catalog match are returned separately.
+   */
+  async matchSkillNames(names: string[]): Promise<{ matched: SelectedSkill[]; unmatched: string[] }> {
+    const catalog = await this.getCatalog();
+    const matched: SelectedSkill[] = [];
+    const unmatched: string[] = [];
+
+    names.forEach(name => {
+      const trimmed = name.trim();
+      if (!trimmed) return;
+
+      const skill = findCatalogSkill(catalog, trimmed);
+      if (!skill) {
+        if (!unmatched.some(existing => normalizeSkillName(existing) === normalizeSkillName(trimmed))) {
+          unmatched.push(trimmed);
+        }
+      } else if (!matched.some(existing => existing.skillId === skill.id)) {
+        matched.push(toSelectedSkill(skill));
+      }
+    });
+
+    return { matched, unmatched };
+  }
+
+  async getTalentSkills(talentProfileId: string): Promise<SelectedSkill[]> {
+    const { data, error } = await supabase
+      .from('talent_skills')
+      .select(`
+        skill_id,
+        proficiency_level,
+        years_experience,
+        skills (
+          name
+        )
+      `)
+      .eq('talent_profile_id', talentProfileId);
+
+    if (error) throw error;
+
+    return (data || []).map((row: any) => ({
+      skillId: row.skill_id,
+      name: row.skills?.name || '',
+      level: row.proficiency_level || DEFAULT_SKILL_LEVEL,
+      yearsExperience: row.years_experience || 0,
+      isRequired: true
+    }));
+  }
+
+  /**
+   * Replace a talent's skills with the given selection
+   */
+  async setTalentSkills(talentProfileId: string, skills: SelectedSkill[]): Promise<void> {
+    const { error: deleteError } = await supabase
+      .from('talent_skills')
+      .delete()
+      .eq('talent_profile_id', talentProfileId);
+
+    if (deleteError) throw deleteError;
+    if (skills.length === 0) return;
+
+    const { error } = await supabase
+      .from('talent_skills')
+      .insert(skills.map(skill => ({
+        talent_profile_id: talentProfileId,
+        skill_id: skill.skillId,
+        proficiency_level: skill.level,
+        years_experience: skill.yearsExperience
+      })));
+
+    if (error) throw error;
+  }
+
+  async getOpportunitySkills(opportunityId: string): Promise<SelectedSkill[]> {
+    const { data, error } = await supabase
+      .from('opportunity_skills')
+      .select(`
+        skill_id,
+        required_level,
+        is_required,
+        skills (
+          name
+        )
+      `)
+      .eq('opportunity_id', opportunityId);
+
+    if (error) throw error;
+
+    return (data || []).map((row: any) => ({
+      skillId: row.skill_id,
+      name: row.skills?.name || '',
+      level: row.required_level || DEFAULT_SKILL_LEVEL,
+      yearsExperience: 0,
+      isRequired: row.is_required !== false
+    }));
+  }
+
+  /**
+   * Replace an opportunity's skill requirements with the given selection
+   */
+  async setOpportunitySkills(opportunityId: string, skills: SelectedSkill[]): Promise<void> {
+    const { error: deleteError } = await supabase
+      .from('opportunity_skills')
+      .delete()
+      .eq('opportunity_id', opportunityId);
+
+    if (deleteError) throw deleteError;
+    if (skills.length === 0) return;
+
+    const { error } = await supabase
+      .from('opportunity_skills')
+      .insert(skills.map(skill => ({
+        opportunity_id: opportunityId,
+        skill_id: skill.skillId,
+        required_level: skill.level,
+        is_required: skill.isRequired
+      })));
+
+    if (error) throw error;
+  }
+
+  /**
+   * Re-run the legacy mapping job, e.g. after new aliases were added
+   */
+  async mapLegacySkills(): Promise<LegacySkillMappingResult> {
+    const { data, error } = await supabase.rpc('map_legacy_skills');
+
+    if (error) throw error;
+
+    const result = data?.[0];
+    return {
+      profilesProcessed: result?.profiles_processed || 0,
+      skillsMapped: result?.skills_mapped || 0,
+      unmappedSkills: result?.unmapped_skills || 0
+    };
+  }
+
+  async getUnmappedSkills(): Promise<UnmappedSkill[]> {
+    const { data, error } = await supabase.rpc('get_unmapped_skills');
+
+    if (error) throw error;
+
+    return (data || []).map(row => ({
+      skillName: row.skill_name,
+      talentCount: Number(row.talent_count) || 0
+    }));
+  }
+
+  private async fetchCatalog(): Promise<CatalogSkill[]> {
+    const { data, error } = await supabase
+      .from('skills')
+      .select(`
+        id,
+        name,
+        category,
+        description,
+        parent_skill_id,
+        skill_aliases (
+          id,
+          alias
+        )
+      `)
+      .order('name');
+
+    if (error) throw error;
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      name: row.name,
+      category: row.category,
+      description: row.description,
+      parentSkillId: row.parent_skill_id,
+      aliases: (row.skill_aliases || []).map((alias: any) => ({ id: alias.id, alias: alias.alias }))
+    }));
+  }
+}
+
+// Export singleton instance
+export const skillService = new SkillService();
@@ -0,0 +1,179 @@
+// Talent Version Service
+// Field-level change history for talent profiles. Snapshots are taken by database triggers whenever
+// a profile, its skills or its projects change; restores run there too, in one transaction.
+
+import { supabase } from '@/integrations/supabase/client';
+
+export type VersionSource = 'baseline' | 'manager_edit' | 'self_edit' | 'restore' | 'system';
+
+export interface SkillLinkSnapshot {
+  skill_id: string;
+  name: string;
+  proficiency_level: number | null;
+  years_experience: number | null;
+}
+
+export interface ProjectSnapshot {
+  project_name: string;
+  reporting_manager: string;
+  utilization_percentage: number;
+  start_date: string | null;
+  release_date: string | null;
+}
+
+export interface TalentSnapshot {
+  profile: Record<string, unknown>;
+  skill_links: SkillLinkSnapshot[];
+  projects: ProjectSnapshot[];
+}
+
+export interface TalentVersion {
+  id: string;
+  versionNumber: number;
+  snapshot: TalentSnapshot;
+  changedFields: string[];
+  source: VersionSource;
+  restoredFromVersionId: string | null;
+  changedBy: string | null;
+  changedByName: string | null;
+  createdAt: string;
+}
+
+export interface FieldChange {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export const VERSION_FIELD_LABELS: Record<string, string> = {
+  first_name: 'First name',
+  last_name: 'Last name',
+  email: 'Email',
+  talent_type: 'Talent type',
+  talent_role: 'Role',
+  bio: 'Bio',
+  skills: 'Skills (free text)',
+  source: 'Source',
+  location: 'Location',
+  timezone: 'Timezone',
+  years_experience: 'Years of experience',
+  remote_preference: 'Remote preference',
+  availability_start_date: 'Available from',
+  prospect_status: 'Prospect status',
+  linkedin_url: 'LinkedIn',
+  github_url: 'GitHub',
+  portfolio_url: 'Portfolio',
+  resume_url: 'Resume',
+  avatar_url: 'Photo',
+  education: 'Education',
+  certifications: 'Certifications',
+  work_experience: 'Work experience',
+  skill_links: 'Catalog skills',
+  projects: 'Projects'
+};
+
+const EMPTY_SNAPSHOT: TalentSnapshot = { profile: {}, skill_links: [], projects: [] };
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+const formatSkillLinks = (links: SkillLinkSnapshot[]) =>
+  formatValue(links.map(link => `${link.name} (L${link.proficiency_level ?? '?'})`));
+
+const formatProjects = (projects: ProjectSnapshot[]) =>
+  formatValue(projects.map(project => {
+    const dates = project.start_date || project.release_date
+      ? ` ${project.start_date || '…'} → ${project.release_date || '…'}`
+      : '';
+    return `${project.project_name} ${project.utilization_percentage}%${dates}`;
+  }));
+
+/**
+ * Field-by-field differences between two snapshots. Pass null as `before` for the first version.
+ */
+export const diffSnapshots = (before: TalentSnapshot | null, after: TalentSnapshot): FieldChange[] => {
+  const previous = before || EMPTY_SNAPSHOT;
+  const changes: FieldChange[] = [];
+
+  const fields = Array.from(new Set([...Object.keys(previous.profile), ...Object.keys(after.profile)]));
+  fields.forEach(field => {
+    const oldValue = formatValue(previous.profile[field]);
+    const newValue = formatValue(after.profile[field]);
+    if (oldValue !== newValue) {
+      changes.push({ field, label: VERSION_FIELD_LABELS[field] || field, before: oldValue, after: newValue });
+    }
+  });
+
+  const oldSkills = formatSkillLinks(previous.skill_links);
+  const newSkills = formatSkillLinks(after.skill_links);
+  if (oldSkills !== newSkills) {
+    changes.push({ field: 'skill_links', label: VERSION_FIELD_LABELS.skill_links, before: oldSkills, after: newSkills });
+  }
+
+  const oldProjects = formatProjects(previous.projects);
+  const newProjects = formatProjects(after.projects);
+  if (oldProjects !== newProjects) {
+    changes.push({ field: 'projects', label: VERSION_FIELD_LABELS.projects, before: oldProjects, after: newProjects });
+  }
+
+  return changes;
+};
+
+class TalentVersionService {
+  /**
+   * Versions of a talent profile, newest first, with the editor's name
+   */
+  async getVersions(talentProfileId: string): Promise<TalentVersion[]> {
+    const { data, error } = await supabase
+      .from('talent_profile_versions')
+      .select('id, version_number, snapshot, changed_fields, source, restored_from_version_id, changed_by, created_at')
+      .eq('talent_profile_id', talentProfileId)
+      .order('version_number', { ascending: false });
+
+    if (error) throw error;
+
+    const editorIds = Array.from(new Set((data || []).map(row => row.changed_by).filter((id): id is string => !!id)));
+    const editorNames = new Map<string, string>();
+    if (editorIds.length > 0) {
+      const { data: editors } = await supabase
+        .from('users')
+        .select('user_id, first_name, last_name, email')
+        .in('user_id', editorIds);
+
+      (editors || []).forEach(editor => {
+        if (editor.user_id) {
+          editorNames.set(editor.user_id, `${editor.first_name || ''} ${editor.last_name || ''}`.trim() || editor.email);
+        }
+      });
+    }
+
+    return (data || []).map(row => ({
+      id: row.id,
+      versionNumber: row.version_number,
+      snapshot: row.snapshot as unknown as TalentSnapshot,
+      changedFields: row.changed_fields || [],
+      source: row.source as VersionSource,
+      restoredFromVersionId: row.restored_from_version_id,
+      changedBy: row.changed_by,
+      changedByName: row.changed_by ? editorNames.get(row.changed_by) || null : null,
+      createdAt: row.created_at
+    }));
+  }
+
+  /**
+   * Restore a profile's fields, skills and projects to an earlier version (managers and admins)
+   */
+  async restoreVersion(versionId: string): Promise<void> {
+    const { error } = await supabase.rpc('restore_talent_profile_version', { _version_id: versionId });
+
+    if (error) throw error;
+  }
+}
+
+// Export singleton instance
+export const talentVersionService = new TalentVersionService();
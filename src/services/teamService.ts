@@ -0,0 +1,185 @@
+// Team Service
+// Business units, teams, team membership and cross-team visibility grants. Membership decides
+// which talent and opportunities a manager sees and edits; the RLS policies enforce it.
+
+import { supabase } from '@/integrations/supabase/client';
+
+export interface BusinessUnit {
+  id: string;
+  name: string;
+  description: string | null;
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  description: string | null;
+  business_unit_id: string | null;
+}
+
+export interface TeamMember {
+  id: string;
+  team_id: string;
+  user_id: string;
+}
+
+export interface VisibilityGrant {
+  id: string;
+  team_id: string;
+  user_id: string;
+  granted_by: string | null;
+  created_at: string;
+}
+
+class TeamService {
+  /**
+   * All business units, by name
+   */
+  async getBusinessUnits(): Promise<BusinessUnit[]> {
+    const { data, error } = await supabase
+      .from('business_units')
+      .select('id, name, description')
+      .order('name');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async createBusinessUnit(name: string, description?: string): Promise<BusinessUnit> {
+    const { data, error } = await supabase
+      .from('business_units')
+      .insert({ name: name.trim(), description: description?.trim() || null })
+      .select('id, name, description')
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Delete a business unit. Its teams are kept, without a unit.
+   */
+  async deleteBusinessUnit(id: string): Promise<void> {
+    const { error } = await supabase.from('business_units').delete().eq('id', id);
+    if (error) throw error;
+  }
+
+  /**
+   * All teams, by name
+   */
+  async getTeams(): Promise<Team[]> {
+    const { data, error } = await supabase
+      .from('teams')
+      .select('id, name, description, business_unit_id')
+      .order('name');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async createTeam(name: string, businessUnitId: string | null): Promise<Team> {
+    const { data, error } = await supabase
+      .from('teams')
+      .insert({ name: name.trim(), business_unit_id: businessUnitId })
+      .select('id, name, description, business_unit_id')
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateTeam(id: string, updates: Partial<Pick<Team, 'name' | 'business_unit_id'>>): Promise<void> {
+    const { error } = await supabase.from('teams').update(updates).eq('id', id);
+    if (error) throw error;
+  }
+
+  /**
+   * Delete a team. Its talent and opportunities become unassigned, not deleted.
+   */
+  async deleteTeam(id: string): Promise<void> {
+    const { error } = await supabase.from('teams').delete().eq('id', id);
+    if (error) throw error;
+  }
+
+  /**
+   * Every membership (admins only; other users only see their own)
+   */
+  async getMembers(): Promise<TeamMember[]> {
+    const { data, error } = await supabase
+      .from('team_members')
+      .select('id, team_id, user_id');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async addMember(teamId: string, userId: string): Promise<void> {
+    const { error } = await supabase
+      .from('team_members')
+      .upsert({ team_id: teamId, user_id: userId }, { onConflict: 'team_id,user_id', ignoreDuplicates: true });
+
+    if (error) throw error;
+  }
+
+  async removeMember(teamId: string, userId: string): Promise<void> {
+    const { error } = await supabase
+      .from('team_members')
+      .delete()
+      .eq('team_id', teamId)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Teams a user can put talent and opportunities in: every team for admins, their own otherwise
+   */
+  async getAssignableTeams(userId: string, isAdmin: boolean): Promise<Team[]> {
+    const teams = await this.getTeams();
+    if (isAdmin) return teams;
+
+    const { data, error } = await supabase
+      .from('team_members')
+      .select('team_id')
+      .eq('user_id', userId);
+
+    if (error) throw error;
+    const memberOf = new Set((data || []).map(row => row.team_id));
+    return teams.filter(team => memberOf.has(team.id));
+  }
+
+  /**
+   * Every cross-team visibility grant (admins only)
+   */
+  async getVisibilityGrants(): Promise<VisibilityGrant[]> {
+    const { data, error } = await supabase
+      .from('team_visibility_grants')
+      .select('id, team_id, user_id, granted_by, created_at')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Let a user see (not edit) another team's talent and opportunities
+   */
+  async grantVisibility(teamId: string, userId: string, grantedBy: string): Promise<void> {
+    const { error } = await supabase
+      .from('team_visibility_grants')
+      .upsert(
+        { team_id: teamId, user_id: userId, granted_by: grantedBy },
+        { onConflict: 'team_id,user_id', ignoreDuplicates: true }
+      );
+
+    if (error) throw error;
+  }
+
+  async revokeVisibility(grantId: string): Promise<void> {
+    const { error } = await supabase.from('team_visibility_grants').delete().eq('id', grantId);
+    if (error) throw error;
+  }
+}
+
+// Export singleton instance
+export const teamService = new TeamService();
@@ -0,0 +1,140 @@
+// Embedding Providers
+// Text embedding backends for semantic search, selected with EMBEDDING_PROVIDER:
+//   openai (default, any OpenAI-compatible /embeddings API), llamacpp (llama.cpp server), ollama
+
+import { ProviderError } from "./llmProviders.ts";
+
+// Must match the vector(768) columns in talent_embeddings and opportunity_embeddings
+export const EMBEDDING_DIMENSIONS = 768;
+
+export interface EmbeddingResult {
+  embeddings: number[][];
+  totalTokens: number;
+}
+
+export interface EmbeddingProvider {
+  name: string;
+  model: string;
+  embed(texts: string[]): Promise<EmbeddingResult>;
+}
+
+const checkDimensions = (embeddings: number[][], model: string) => {
+  const wrong = embeddings.find((embedding) => embedding.length !== EMBEDDING_DIMENSIONS);
+  if (wrong) {
+    throw new ProviderError(
+      `${model} returned ${wrong.length}-dimensional embeddings, expected ${EMBEDDING_DIMENSIONS}`,
+      500,
+    );
+  }
+  return embeddings;
+};
+
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  name: string;
+  model: string;
+  private baseUrl: string;
+  private apiKey?: string;
+  // text-embedding-3-* can shorten its vectors; other servers reject the parameter
+  private sendDimensions: boolean;
+
+  constructor(config: { name: string; baseUrl: string; model: string; apiKey?: string; sendDimensions: boolean }) {
+    this.name = config.name;
+    this.model = config.model;
+    this.baseUrl = config.baseUrl.replace(/\/$/, "");
+    this.apiKey = config.apiKey;
+    this.sendDimensions = config.sendDimensions;
+  }
+
+  async embed(texts: string[]): Promise<EmbeddingResult> {
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { "Authorization": `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        input: texts,
+        ...(this.sendDimensions ? { dimensions: EMBEDDING_DIMENSIONS } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new ProviderError(errorData?.error?.message ?? `Embedding error ${response.status}`, response.status);
+    }
+
+    const data = await response.json();
+    const embeddings = [...data.data]
+      .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+      .map((item: { embedding: number[] }) => item.embedding);
+    return { embeddings: checkDimensions(embeddings, this.model), totalTokens: data.usage?.total_tokens ?? 0 };
+  }
+}
+
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  name = "ollama";
+  model: string;
+  private baseUrl: string;
+
+  constructor(baseUrl: string, model: string) {
+    this.baseUrl = baseUrl.replace(/\/$/, "");
+    this.model = model;
+  }
+
+  async embed(texts: string[]): Promise<EmbeddingResult> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/api/embed`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ model: this.model, input: texts }),
+      });
+    } catch (error) {
+      throw new ProviderError(`Ollama is not reachable at ${this.baseUrl}: ${error}`, 502);
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new ProviderError(errorData?.error ?? `Ollama error ${response.status}`, response.status);
+    }
+
+    const data = await response.json();
+    return { embeddings: checkDimensions(data.embeddings, this.model), totalTokens: data.prompt_eval_count ?? 0 };
+  }
+}
+
+/**
+ * Build the provider named by EMBEDDING_PROVIDER. The local providers need no key and work offline.
+ */
+export const createEmbeddingProvider = (env: { get(key: string): string | undefined }): EmbeddingProvider => {
+  const provider = env.get("EMBEDDING_PROVIDER") ?? "openai";
+  const apiKey = env.get("EMBEDDING_API_KEY") ?? env.get("LLM_API_KEY");
+
+  switch (provider) {
+    case "openai":
+      if (!apiKey) throw new ProviderError("Embedding provider key is not configured on the server", 500);
+      return new OpenAICompatibleEmbeddingProvider({
+        name: "openai",
+        baseUrl: env.get("EMBEDDING_API_BASE_URL") ?? "https://api.openai.com/v1",
+        model: env.get("EMBEDDING_MODEL") ?? "text-embedding-3-small",
+        apiKey,
+        sendDimensions: true,
+      });
+    case "llamacpp":
+      // Start llama-server with --embedding and a 768-dimensional model such as nomic-embed-text
+      return new OpenAICompatibleEmbeddingProvider({
+        name: "llamacpp",
+        baseUrl: env.get("EMBEDDING_API_BASE_URL") ?? "http://localhost:8080/v1",
+        model: env.get("EMBEDDING_MODEL") ?? "nomic-embed-text",
+        sendDimensions: false,
+      });
+    case "ollama":
+      return new OllamaEmbeddingProvider(
+        env.get("EMBEDDING_API_BASE_URL") ?? "http://localhost:11434",
+        env.get("EMBEDDING_MODEL") ?? "nomic-embed-text",
+      );
+    default:
+      throw new ProviderError(`Unknown EMBEDDING_PROVIDER: ${provider}`, 500);
+  }
+};
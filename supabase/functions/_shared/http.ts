@@ -0,0 +1,15 @@
+// Shared HTTP helpers for the edge functions
+
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+export const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, ...headers, "Content-Type": "application/json" },
+  });
+
+export const errorResponse = (status: number, code: string, message: string, headers: Record<string, string> = {}) =>
+  jsonResponse({ error: { code, message } }, status, headers);
@@ -0,0 +1,215 @@
+// LLM Providers
+// One interface over the model backends the gateway can talk to, selected with LLM_PROVIDER:
+//   openrouter (default), openai (any OpenAI-compatible API), llamacpp (llama.cpp server), ollama
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface Usage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface ProviderChatRequest {
+  messages: ChatMessage[];
+  temperature: number;
+  maxTokens: number;
+  // Shown in the provider dashboard where supported (OpenRouter)
+  title: string;
+  origin: string;
+}
+
+export interface ProviderChatResult {
+  content: string;
+  model: string;
+  usage: Usage;
+}
+
+export interface LLMProvider {
+  name: string;
+  chat(request: ProviderChatRequest): Promise<ProviderChatResult>;
+}
+
+export class ProviderError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "ProviderError";
+    this.status = status;
+  }
+}
+
+interface OpenAICompatibleConfig {
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+  // Tried in order; the next model is used when one fails
+  models: string[];
+}
+
+const EMPTY_USAGE: Usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  name: string;
+  protected baseUrl: string;
+  protected apiKey?: string;
+  protected models: string[];
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.name = config.name;
+    this.baseUrl = config.baseUrl.replace(/\/$/, "");
+    this.apiKey = config.apiKey;
+    this.models = config.models;
+  }
+
+  protected headers(_request: ProviderChatRequest): Record<string, string> {
+    return {
+      "Content-Type": "application/json",
+      ...(this.apiKey ? { "Authorization": `Bearer ${this.apiKey}` } : {}),
+    };
+  }
+
+  async chat(request: ProviderChatRequest): Promise<ProviderChatResult> {
+    let lastError = new ProviderError("No models configured", 502);
+
+    for (const model of this.models) {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: this.headers(request),
+        body: JSON.stringify({
+          model,
+          messages: request.messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+        }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        return {
+          content: data.choices?.[0]?.message?.content ?? "",
+          model: data.model ?? model,
+          usage: { ...EMPTY_USAGE, ...data.usage },
+        };
+      }
+
+      const errorData = await response.json().catch(() => ({}));
+      lastError = new ProviderError(errorData?.error?.message ?? `Provider error ${response.status}`, response.status);
+      console.log(`${this.name} model ${model} failed:`, response.status, lastError.message);
+
+      // Out of credit or key rejected: another model will not help
+      if ([401, 402, 403].includes(response.status)) break;
+    }
+
+    throw lastError;
+  }
+}
+
+export class OpenRouterProvider extends OpenAICompatibleProvider {
+  protected headers(request: ProviderChatRequest): Record<string, string> {
+    return {
+      ...super.headers(request),
+      "HTTP-Referer": request.origin,
+      "X-Title": request.title,
+    };
+  }
+}
+
+export class OllamaProvider implements LLMProvider {
+  name = "ollama";
+  private baseUrl: string;
+  private model: string;
+
+  constructor(baseUrl: string, model: string) {
+    this.baseUrl = baseUrl.replace(/\/$/, "");
+    this.model = model;
+  }
+
+  async chat(request: ProviderChatRequest): Promise<ProviderChatResult> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/api/chat`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          model: this.model,
+          messages: request.messages,
+          stream: false,
+          options: { temperature: request.temperature, num_predict: request.maxTokens },
+        }),
+      });
+    } catch (error) {
+      throw new ProviderError(`Ollama is not reachable at ${this.baseUrl}: ${error}`, 502);
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new ProviderError(errorData?.error ?? `Ollama error ${response.status}`, response.status);
+    }
+
+    const data = await response.json();
+    const promptTokens = data.prompt_eval_count ?? 0;
+    const completionTokens = data.eval_count ?? 0;
+    return {
+      content: data.message?.content ?? "",
+      model: data.model ?? this.model,
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+    };
+  }
+}
+
+const modelList = (value: string | undefined, fallback: string) =>
+  (value ?? fallback).split(",").map((model) => model.trim()).filter(Boolean);
+
+/**
+ * Build the provider named by LLM_PROVIDER. Throws when a hosted provider has no key configured.
+ */
+export const createProvider = (env: { get(key: string): string | undefined }): LLMProvider => {
+  const provider = env.get("LLM_PROVIDER") ?? "openrouter";
+  const apiKey = env.get("LLM_API_KEY") ?? env.get("OPENROUTER_API_KEY");
+
+  switch (provider) {
+    case "openrouter":
+      if (!apiKey) throw new ProviderError("LLM provider key is not configured on the server", 500);
+      return new OpenRouterProvider({
+        name: "openrouter",
+        baseUrl: env.get("LLM_API_BASE_URL") ?? "https://openrouter.ai/api/v1",
+        apiKey,
+        models: modelList(
+          env.get("LLM_MODELS"),
+          "openrouter/auto,meta-llama/llama-3.2-3b-instruct:free,google/gemma-2-2b-it:free",
+        ),
+      });
+    case "openai":
+      if (!apiKey) throw new ProviderError("LLM provider key is not configured on the server", 500);
+      return new OpenAICompatibleProvider({
+        name: "openai",
+        baseUrl: env.get("LLM_API_BASE_URL") ?? "https://api.openai.com/v1",
+        apiKey,
+        models: modelList(env.get("LLM_MODELS"), "gpt-4o-mini"),
+      });
+    case "llamacpp":
+      // llama.cpp's server speaks the OpenAI chat API and serves whichever model it was started with
+      return new OpenAICompatibleProvider({
+        name: "llamacpp",
+        baseUrl: env.get("LLM_API_BASE_URL") ?? "http://localhost:8080/v1",
+        apiKey,
+        models: modelList(env.get("LLM_MODELS"), "local"),
+      });
+    case "ollama":
+      return new OllamaProvider(
+        env.get("LLM_API_BASE_URL") ?? "http://localhost:11434",
+        modelList(env.get("LLM_MODELS"), "llama3.1")[0],
+      );
+    default:
+      throw new ProviderError(`Unknown LLM_PROVIDER: ${provider}`, 500);
+  }
+};
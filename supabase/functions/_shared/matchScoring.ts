@@ -0,0 +1,192 @@
+// Match Scoring
+// Prompt, cache key and reply parsing for AI match scoring. The gateway builds the prompt from the
+// stored talent and opportunity rows and hashes exactly what the model sees, so a cached score can
+// only ever belong to the content it was produced for.
+
+import { ChatMessage } from "./llmProviders.ts";
+
+export interface MatchTalent {
+  id: string;
+  organization_id: string;
+  first_name: string | null;
+  last_name: string | null;
+  talent_role: string;
+  years_experience: number | null;
+  skills: string[] | null;
+  location: string | null;
+  bio: string | null;
+  work_experience: string | null;
+  education: string | null;
+  certifications: string | null;
+  talent_type: string;
+  prospect_status: string | null;
+}
+
+export interface MatchOpportunity {
+  id: string;
+  organization_id: string;
+  title: string;
+  description: string | null;
+  required_role: string;
+  location: string | null;
+  start_date: string | null;
+  status: string;
+}
+
+export interface MatchPair {
+  talent: MatchTalent;
+  opportunity: MatchOpportunity;
+}
+
+export interface PairScore {
+  score: number;
+  explanation: string;
+}
+
+export const MATCH_TALENT_COLUMNS =
+  "id, organization_id, first_name, last_name, talent_role, years_experience, skills, location, bio, work_experience, education, certifications, talent_type, prospect_status";
+export const MATCH_OPPORTUNITY_COLUMNS = "id, organization_id, title, description, required_role, location, start_date, status";
+
+// Bump when the prompt changes so cached scores from the old prompt are ignored
+const PROMPT_VERSION = "v3-gateway";
+
+export const MATCH_SYSTEM_PROMPT =
+  "You are an expert talent acquisition AI. Analyze talent-opportunity matches with precision. CRITICAL: Return ONLY a valid JSON array with id, score (0-100) and detailed explanation for every candidate. Do not include markdown formatting, backticks, or any other text. Just pure JSON.";
+
+const talentFields = (talent: MatchTalent) => ({
+  name: `${talent.first_name ?? ""} ${talent.last_name ?? ""}`,
+  role: talent.talent_role,
+  experience: talent.years_experience ?? 0,
+  skills: [...(talent.skills ?? [])].sort(),
+  bio: talent.bio ?? "",
+  workExperience: talent.work_experience ?? "",
+  education: talent.education ?? "",
+  certifications: talent.certifications ?? "",
+  location: talent.location ?? "",
+  type: talent.talent_type,
+  status: talent.prospect_status ?? "",
+});
+
+const opportunityFields = (opportunity: MatchOpportunity) => ({
+  title: opportunity.title,
+  requiredRole: opportunity.required_role,
+  description: opportunity.description ?? "",
+  location: opportunity.location ?? "",
+  startDate: opportunity.start_date ?? "",
+  status: opportunity.status,
+});
+
+/**
+ * SHA-256 of everything the model sees for a pair, so an edit to either side invalidates the cached score
+ */
+export const hashMatchPair = async (pair: MatchPair): Promise<string> => {
+  const canonical = JSON.stringify({
+    version: PROMPT_VERSION,
+    talent: talentFields(pair.talent),
+    opportunity: opportunityFields(pair.opportunity),
+  });
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(canonical));
+  return Array.from(new Uint8Array(digest)).map((byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+const describeTalent = (talent: MatchTalent) => `- Name: ${talent.first_name ?? ""} ${talent.last_name ?? ""}
+- Role: ${talent.talent_role}
+- Experience: ${talent.years_experience ?? 0} years
+- Skills: ${(talent.skills ?? []).join(", ")}
+- Bio: ${talent.bio || "Not provided"}
+- Work Experience: ${talent.work_experience || "Not provided"}
+- Education: ${talent.education || "Not provided"}
+- Certifications: ${talent.certifications || "Not provided"}
+- Location: ${talent.location || "Not specified"}
+- Type: ${talent.talent_type}
+- Status: ${talent.prospect_status || "Not specified"}`;
+
+const describeOpportunity = (opportunity: MatchOpportunity) => `- Title: ${opportunity.title}
+- Required Role: ${opportunity.required_role}
+- Description: ${opportunity.description ?? ""}
+- Location: ${opportunity.location ?? ""}
+- Start Date: ${opportunity.start_date ?? ""}
+- Status: ${opportunity.status}`;
+
+/**
+ * One prompt for several pairs that share a talent or an opportunity. Candidates are labelled
+ * with short ids ("c1", "c2", ...) that the model echoes back.
+ */
+export const buildMatchMessages = (pairs: MatchPair[]): ChatMessage[] => {
+  const sameOpportunity = pairs.every((pair) => pair.opportunity.id === pairs[0].opportunity.id);
+  const anchor = sameOpportunity
+    ? `JOB OPPORTUNITY:\n${describeOpportunity(pairs[0].opportunity)}`
+    : `TALENT PROFILE:\n${describeTalent(pairs[0].talent)}`;
+  const candidates = pairs.map((pair, index) =>
+    sameOpportunity
+      ? `CANDIDATE c${index + 1} (talent):\n${describeTalent(pair.talent)}`
+      : `CANDIDATE c${index + 1} (opportunity):\n${describeOpportunity(pair.opportunity)}`
+  ).join("\n\n");
+
+  const prompt = `
+Analyze the compatibility between the ${sameOpportunity ? "job opportunity and each talent" : "talent and each job opportunity"} below. Score every candidate independently (0-100) with a detailed explanation.
+
+${anchor}
+
+${candidates}
+
+Consider these factors:
+1. Skills alignment (40% weight)
+2. Role compatibility (25% weight) - Check role in title, description, and required_role field
+3. Experience level match (15% weight)
+4. Location compatibility (10% weight)
+5. Availability and timing (10% weight)
+
+IMPORTANT: For role matching, look for role keywords in ALL text fields (title, description, required_role).
+For example, if talent is "backend_engineer" and opportunity title is "Senior Backend Engineer" but required_role is "engineer",
+this should still be considered a strong match. Be flexible with role variations and synonyms.
+
+CRITICAL: You must respond with ONLY a valid JSON array with one entry per candidate. Do not include any markdown formatting, explanations, or additional text. Just the raw JSON.
+
+Return ONLY a JSON array with this exact format:
+[
+  {
+    "id": "c1",
+    "score": 85,
+    "explanation": "Strong match due to excellent skills alignment in React and Node.js, perfect role fit for Senior Frontend Developer, 5+ years experience matches requirements, remote work compatible, and talent is currently available."
+  }
+]
+`;
+
+  return [
+    { role: "system", content: MATCH_SYSTEM_PROMPT },
+    { role: "user", content: prompt },
+  ];
+};
+
+/**
+ * Scores from the model's reply, in candidate order. Candidates missing from the reply, or with
+ * an unusable entry, are null.
+ */
+export const parseMatchScores = (content: string, count: number): Array<PairScore | null> => {
+  const text = content.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  const start = text.indexOf("[");
+  const end = text.lastIndexOf("]");
+
+  let entries: unknown[] = [];
+  if (start !== -1 && end > start) {
+    try {
+      const parsed = JSON.parse(text.substring(start, end + 1));
+      if (Array.isArray(parsed)) entries = parsed;
+    } catch (_) {
+      entries = [];
+    }
+  }
+
+  return Array.from({ length: count }, (_, index) => {
+    const entry = entries.find((item) =>
+      typeof item === "object" && item !== null &&
+      String((item as { id?: unknown }).id ?? "").trim().toLowerCase() === `c${index + 1}`
+    ) as { score?: unknown; explanation?: unknown } | undefined;
+    const score = Number(entry?.score);
+    if (!entry || !Number.isFinite(score) || typeof entry.explanation !== "string" || !entry.explanation.trim()) {
+      return null;
+    }
+    return { score: Math.max(0, Math.min(100, Math.round(score))), explanation: entry.explanation };
+  });
+};
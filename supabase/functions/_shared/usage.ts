@@ -0,0 +1,59 @@
+// Usage
+// Per-user rate limits and usage logging for the functions that call a model provider. Every call
+// is logged to llm_usage_log, and the limits are counted from that log across all features.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { Usage } from "./llmProviders.ts";
+
+const REQUESTS_PER_MINUTE = Number(Deno.env.get("LLM_REQUESTS_PER_MINUTE") ?? "20");
+const TOKENS_PER_DAY = Number(Deno.env.get("LLM_TOKENS_PER_DAY") ?? "200000");
+
+export interface UsageEntry {
+  user_id: string;
+  feature: string;
+  status: "success" | "error" | "rate_limited" | "forbidden";
+  model?: string | null;
+  usage?: Usage | null;
+  latency_ms?: number;
+  error_message?: string | null;
+}
+
+/**
+ * Seconds until the user may call again, or 0 when they are within their limits
+ */
+export const checkRateLimit = async (admin: SupabaseClient, userId: string): Promise<number> => {
+  const minuteAgo = new Date(Date.now() - 60_000).toISOString();
+  const { count } = await admin
+    .from("llm_usage_log")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .in("status", ["success", "error"])
+    .gte("created_at", minuteAgo);
+  if ((count ?? 0) >= REQUESTS_PER_MINUTE) return 60;
+
+  const dayAgo = new Date(Date.now() - 86_400_000).toISOString();
+  const { data } = await admin
+    .from("llm_usage_log")
+    .select("total_tokens")
+    .eq("user_id", userId)
+    .gte("created_at", dayAgo);
+  const tokensToday = (data ?? []).reduce((sum, row) => sum + (row.total_tokens || 0), 0);
+  if (tokensToday >= TOKENS_PER_DAY) return 3600;
+
+  return 0;
+};
+
+export const logUsage = async (admin: SupabaseClient, entry: UsageEntry) => {
+  const { error } = await admin.from("llm_usage_log").insert({
+    user_id: entry.user_id,
+    feature: entry.feature,
+    status: entry.status,
+    model: entry.model ?? null,
+    prompt_tokens: entry.usage?.prompt_tokens ?? 0,
+    completion_tokens: entry.usage?.completion_tokens ?? 0,
+    total_tokens: entry.usage?.total_tokens ?? 0,
+    latency_ms: entry.latency_ms ?? null,
+    error_message: entry.error_message ?? null,
+  });
+  if (error) console.error("Error logging llm usage:", error);
+};
@@ -0,0 +1,171 @@
+// Embeddings
+// Fills in stale talent and opportunity embeddings and runs semantic talent search. Calls share the
+// per-user rate limits of the llm-gateway and are logged to llm_usage_log under "embeddings".
+//   { action: "refresh" }                 embed rows the triggers marked stale
+//   { action: "search", query, limit }    nearest talents to a free-text query
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders, errorResponse, jsonResponse } from "../_shared/http.ts";
+import { createEmbeddingProvider, EmbeddingProvider } from "../_shared/embeddingProviders.ts";
+import { checkRateLimit, logUsage } from "../_shared/usage.ts";
+
+interface EmbeddingsRequest {
+  action: "refresh" | "search";
+  query?: string;
+  limit?: number;
+  min_similarity?: number;
+}
+
+// Rows embedded per provider call, and per table on each refresh
+const EMBED_BATCH_SIZE = 16;
+const REFRESH_LIMIT = 64;
+
+const TABLES = [
+  { table: "talent_embeddings", key: "talent_profile_id" },
+  { table: "opportunity_embeddings", key: "opportunity_id" },
+] as const;
+
+const toVector = (embedding: number[]) => JSON.stringify(embedding);
+
+/**
+ * Embed up to REFRESH_LIMIT stale rows per table. Returns rows embedded and tokens used.
+ */
+const refreshStale = async (admin: SupabaseClient, provider: EmbeddingProvider) => {
+  const counts: Record<string, number> = {};
+  let totalTokens = 0;
+
+  for (const { table, key } of TABLES) {
+    const { data: rows, error } = await admin
+      .from(table)
+      .select(`${key}, content, content_hash`)
+      .eq("stale", true)
+      .limit(REFRESH_LIMIT);
+    if (error) throw error;
+
+    counts[table] = 0;
+    for (let i = 0; i < (rows ?? []).length; i += EMBED_BATCH_SIZE) {
+      const batch = rows!.slice(i, i + EMBED_BATCH_SIZE);
+      // Empty profiles still get a vector so they stop showing up as stale
+      const result = await provider.embed(batch.map((row) => row.content || " "));
+      totalTokens += result.totalTokens;
+
+      for (let j = 0; j < batch.length; j++) {
+        // Skip rows whose text changed again while we were embedding; they stay stale and aren't counted
+        const { data: updated, error: updateError } = await admin
+          .from(table)
+          .update({ embedding: toVector(result.embeddings[j]), model: provider.model, stale: false })
+          .eq(key, batch[j][key])
+          .eq("content_hash", batch[j].content_hash)
+          .select(key);
+        if (updateError) throw updateError;
+        counts[table] += (updated ?? []).length;
+      }
+    }
+  }
+
+  return { counts, totalTokens };
+};
+
+const logEmbeddingUsage = (
+  admin: SupabaseClient,
+  userId: string,
+  provider: EmbeddingProvider,
+  startedAt: number,
+  totalTokens: number,
+  error?: string,
+) =>
+  logUsage(admin, {
+    user_id: userId,
+    feature: "embeddings",
+    status: error ? "error" : "success",
+    model: provider.model,
+    usage: { prompt_tokens: totalTokens, completion_tokens: 0, total_tokens: totalTokens },
+    latency_ms: Date.now() - startedAt,
+    error_message: error ?? null,
+  });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return errorResponse(405, "bad_request", "Method not allowed");
+  }
+
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) {
+    return errorResponse(401, "unauthenticated", "Missing authorization header");
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const userClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: authHeader } },
+  });
+  const admin = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+  const { data: { user }, error: authError } = await userClient.auth.getUser();
+  if (authError || !user) {
+    return errorResponse(401, "unauthenticated", "Invalid or expired session");
+  }
+
+  let request: EmbeddingsRequest;
+  try {
+    request = await req.json();
+  } catch (_) {
+    return errorResponse(400, "bad_request", "Request body must be JSON");
+  }
+
+  let provider: EmbeddingProvider;
+  try {
+    provider = createEmbeddingProvider(Deno.env);
+  } catch (error) {
+    return errorResponse(500, "upstream_error", error instanceof Error ? error.message : "Embedding provider is misconfigured");
+  }
+
+  const retryAfter = await checkRateLimit(admin, user.id);
+  if (retryAfter > 0) {
+    await logUsage(admin, { user_id: user.id, feature: "embeddings", status: "rate_limited" });
+    return errorResponse(429, "rate_limited", "AI request limit reached. Please try again later.", {
+      "Retry-After": String(retryAfter),
+    });
+  }
+
+  const startedAt = Date.now();
+  try {
+    if (request.action === "refresh") {
+      const { counts, totalTokens } = await refreshStale(admin, provider);
+      if (totalTokens > 0) await logEmbeddingUsage(admin, user.id, provider, startedAt, totalTokens);
+      return jsonResponse({ embedded: counts });
+    }
+
+    if (request.action === "search") {
+      const query = request.query?.trim();
+      if (!query) {
+        return errorResponse(400, "bad_request", "query is required");
+      }
+
+      // Search sees recent edits without waiting for a separate refresh
+      const refreshed = await refreshStale(admin, provider);
+      const { embeddings, totalTokens } = await provider.embed([query]);
+      await logEmbeddingUsage(admin, user.id, provider, startedAt, refreshed.totalTokens + totalTokens);
+
+      // Run the search as the caller so talent visibility rules still apply
+      const { data, error } = await userClient.rpc("search_talents_semantic", {
+        query_embedding: toVector(embeddings[0]),
+        match_count: Math.min(request.limit ?? 20, 100),
+        min_similarity: request.min_similarity ?? 0.2,
+      });
+      if (error) throw error;
+
+      return jsonResponse({ matches: data ?? [] });
+    }
+
+    return errorResponse(400, "bad_request", `Unknown action: ${request.action}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Embedding request failed";
+    console.error("Embeddings error:", error);
+    await logEmbeddingUsage(admin, user.id, provider, startedAt, 0, message);
+    return errorResponse(502, "upstream_error", message);
+  }
+});
@@ -0,0 +1,288 @@
+// LLM Gateway
+// Proxies chat completions for the app so the provider key never reaches the browser.
+// Every call is authenticated, role-checked, rate limited per user and logged to llm_usage_log.
+// Match scoring takes talent and opportunity ids rather than messages: the gateway loads the rows
+// the caller can see, builds the prompt and keeps ai_match_cache, which only it writes.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders, errorResponse, jsonResponse } from "../_shared/http.ts";
+import { ChatMessage, createProvider, LLMProvider, ProviderChatResult, ProviderError } from "../_shared/llmProviders.ts";
+import {
+  buildMatchMessages,
+  hashMatchPair,
+  MATCH_OPPORTUNITY_COLUMNS,
+  MATCH_TALENT_COLUMNS,
+  MatchOpportunity,
+  MatchPair,
+  MatchTalent,
+  parseMatchScores,
+} from "../_shared/matchScoring.ts";
+import { checkRateLimit, logUsage } from "../_shared/usage.ts";
+
+type Role = "any" | "manager";
+
+interface FeaturePolicy {
+  // Who may use the feature: any signed-in user, or managers and admins only
+  role: Role;
+  // Granular permission the caller also needs (see has_permission)
+  permission?: "run_ai_matching";
+  maxTokens: number;
+  title: string;
+}
+
+const FEATURES: Record<string, FeaturePolicy> = {
+  career_tips: { role: "any", maxTokens: 2000, title: "Connectiv Talent - Career Development" },
+  courses: { role: "any", maxTokens: 2000, title: "Connectiv Talent - Career Development" },
+  match_scoring: { role: "manager", permission: "run_ai_matching", maxTokens: 2000, title: "Connectiv Talent - AI Matching" },
+  voice_command: { role: "manager", maxTokens: 300, title: "Connectiv Talent - Voice Assistant" },
+  resume_parsing: { role: "manager", maxTokens: 1500, title: "Connectiv Talent" },
+};
+
+interface GatewayRequest {
+  feature: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  // match_scoring only: the pairs to score, and whether to return cached scores without calling the model
+  pairs?: Array<{ talent_id: string; opportunity_id: string }>;
+  cached_only?: boolean;
+}
+
+// Pairs scored in one prompt, and looked up in one cache-only request
+const MATCH_BATCH_SIZE = 5;
+const MATCH_LOOKUP_SIZE = 100;
+
+// Org admins administer their organization; using the manager AI features takes the manager role
+const isManagerOrAdmin = async (admin: SupabaseClient, userId: string) => {
+  const [managerRole, adminRole] = await Promise.all([
+    admin.rpc("has_role", { _user_id: userId, _role: "manager" }),
+    admin.rpc("has_role", { _user_id: userId, _role: "admin" }),
+  ]);
+  return !!managerRole.data || !!adminRole.data;
+};
+
+const hasPermission = async (admin: SupabaseClient, userId: string, permission: string) => {
+  const { data } = await admin.rpc("has_permission", { _user_id: userId, _permission: permission });
+  return !!data;
+};
+
+/**
+ * Rate limit, call the provider and log the call. Returns the reply, or the error response to send.
+ */
+const runChat = async (
+  req: Request,
+  feature: string,
+  policy: FeaturePolicy,
+  userId: string,
+  admin: SupabaseClient,
+  chat: { messages: ChatMessage[]; temperature: number; maxTokens: number },
+): Promise<ProviderChatResult | Response> => {
+  const retryAfter = await checkRateLimit(admin, userId);
+  if (retryAfter > 0) {
+    await logUsage(admin, { user_id: userId, feature, status: "rate_limited" });
+    return errorResponse(429, "rate_limited", "AI request limit reached. Please try again later.", {
+      "Retry-After": String(retryAfter),
+    });
+  }
+
+  let provider: LLMProvider;
+  try {
+    provider = createProvider(Deno.env);
+  } catch (error) {
+    return errorResponse(500, "upstream_error", error instanceof Error ? error.message : "LLM provider is misconfigured");
+  }
+
+  const startedAt = Date.now();
+  let result: ProviderChatResult;
+  try {
+    result = await provider.chat({
+      ...chat,
+      title: policy.title,
+      origin: req.headers.get("origin") ?? "",
+    });
+  } catch (error) {
+    const status = error instanceof ProviderError ? error.status : 502;
+    const message = error instanceof Error ? error.message : "Provider request failed";
+    await logUsage(admin, {
+      user_id: userId,
+      feature,
+      status: "error",
+      model: provider.name,
+      latency_ms: Date.now() - startedAt,
+      error_message: message,
+    });
+    if (status === 402) return errorResponse(402, "credit_limit", message);
+    return errorResponse(502, "upstream_error", message);
+  }
+
+  await logUsage(admin, {
+    user_id: userId,
+    feature,
+    status: "success",
+    model: result.model,
+    usage: result.usage,
+    latency_ms: Date.now() - startedAt,
+  });
+  return result;
+};
+
+/**
+ * Score talent-opportunity pairs. Rows are read as the caller, so only pairs they can see are
+ * scored; cached scores are returned without a model call, and new ones are cached with the
+ * service role under the opportunity's organization.
+ */
+const scoreMatches = async (
+  req: Request,
+  request: GatewayRequest,
+  policy: FeaturePolicy,
+  userId: string,
+  admin: SupabaseClient,
+  userClient: SupabaseClient,
+): Promise<Response> => {
+  const requested = request.pairs ?? [];
+  const [talentsResult, opportunitiesResult] = await Promise.all([
+    userClient.from("talent_profiles").select(MATCH_TALENT_COLUMNS)
+      .in("id", [...new Set(requested.map((pair) => pair.talent_id))]),
+    userClient.from("opportunities").select(MATCH_OPPORTUNITY_COLUMNS)
+      .in("id", [...new Set(requested.map((pair) => pair.opportunity_id))]),
+  ]);
+  if (talentsResult.error || opportunitiesResult.error) {
+    return errorResponse(400, "bad_request", "Could not load the talent and opportunities to score");
+  }
+
+  const talents = new Map((talentsResult.data as MatchTalent[]).map((talent) => [talent.id, talent]));
+  const opportunities = new Map((opportunitiesResult.data as MatchOpportunity[]).map((opportunity) => [opportunity.id, opportunity]));
+  const pairs: MatchPair[] = requested
+    .filter((pair) => talents.has(pair.talent_id) && opportunities.has(pair.opportunity_id))
+    .map((pair) => ({ talent: talents.get(pair.talent_id)!, opportunity: opportunities.get(pair.opportunity_id)! }));
+  const hashes = await Promise.all(pairs.map(hashMatchPair));
+
+  const scores: Array<{ talent_id: string; opportunity_id: string; score: number; explanation: string; from_cache: boolean }> = [];
+  const uncached: Array<{ pair: MatchPair; hash: string }> = [];
+
+  if (pairs.length > 0) {
+    const { data: cached, error: cacheError } = await admin
+      .from("ai_match_cache")
+      .select("organization_id, content_hash, score, explanation")
+      .in("content_hash", hashes);
+    if (cacheError) console.error("Error reading AI match cache:", cacheError);
+
+    pairs.forEach((pair, index) => {
+      const hit = (cached ?? []).find((row) =>
+        row.content_hash === hashes[index] && row.organization_id === pair.opportunity.organization_id
+      );
+      if (hit) {
+        scores.push({
+          talent_id: pair.talent.id,
+          opportunity_id: pair.opportunity.id,
+          score: hit.score,
+          explanation: hit.explanation,
+          from_cache: true,
+        });
+      } else {
+        uncached.push({ pair, hash: hashes[index] });
+      }
+    });
+  }
+
+  if (request.cached_only || uncached.length === 0) {
+    return jsonResponse({ scores, model: null, usage: null });
+  }
+
+  const chat = await runChat(req, request.feature, policy, userId, admin, {
+    messages: buildMatchMessages(uncached.map((item) => item.pair)),
+    temperature: 0.3,
+    maxTokens: Math.min(300 * uncached.length, policy.maxTokens),
+  });
+  if (chat instanceof Response) return chat;
+
+  const rows: Array<{ organization_id: string; content_hash: string; score: number; explanation: string }> = [];
+  parseMatchScores(chat.content, uncached.length).forEach((score, index) => {
+    if (!score) return;
+    const { pair, hash } = uncached[index];
+    scores.push({ talent_id: pair.talent.id, opportunity_id: pair.opportunity.id, ...score, from_cache: false });
+    rows.push({ organization_id: pair.opportunity.organization_id, content_hash: hash, ...score });
+  });
+
+  if (rows.length > 0) {
+    const { error } = await admin
+      .from("ai_match_cache")
+      .upsert(rows, { onConflict: "organization_id,content_hash" });
+    if (error) console.error("Error writing AI match cache:", error);
+  }
+
+  return jsonResponse({ scores, model: chat.model, usage: chat.usage });
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return errorResponse(405, "bad_request", "Method not allowed");
+  }
+
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) {
+    return errorResponse(401, "unauthenticated", "Missing authorization header");
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const userClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: authHeader } },
+  });
+  const admin = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+  const { data: { user }, error: authError } = await userClient.auth.getUser();
+  if (authError || !user) {
+    return errorResponse(401, "unauthenticated", "Invalid or expired session");
+  }
+
+  let request: GatewayRequest;
+  try {
+    request = await req.json();
+  } catch (_) {
+    return errorResponse(400, "bad_request", "Request body must be JSON");
+  }
+
+  const policy = FEATURES[request.feature];
+  if (!policy) {
+    return errorResponse(400, "bad_request", `Unknown feature: ${request.feature}`);
+  }
+  if (request.feature === "match_scoring") {
+    const limit = request.cached_only ? MATCH_LOOKUP_SIZE : MATCH_BATCH_SIZE;
+    if (!Array.isArray(request.pairs) || request.pairs.length === 0 || request.pairs.length > limit) {
+      return errorResponse(400, "bad_request", `pairs must be an array of 1 to ${limit} talent and opportunity ids`);
+    }
+  } else if (!Array.isArray(request.messages) || request.messages.length === 0) {
+    return errorResponse(400, "bad_request", "messages must be a non-empty array");
+  }
+
+  if (policy.role === "manager" && !(await isManagerOrAdmin(admin, user.id))) {
+    await logUsage(admin, { user_id: user.id, feature: request.feature, status: "forbidden" });
+    return errorResponse(403, "forbidden", "This AI feature is limited to managers and admins");
+  }
+
+  if (policy.permission && !(await hasPermission(admin, user.id, policy.permission))) {
+    await logUsage(admin, { user_id: user.id, feature: request.feature, status: "forbidden" });
+    return errorResponse(403, "forbidden", "You don't have permission to use this AI feature");
+  }
+
+  if (request.feature === "match_scoring") {
+    return await scoreMatches(req, request, policy, user.id, admin, userClient);
+  }
+
+  const chat = await runChat(req, request.feature, policy, user.id, admin, {
+    messages: request.messages,
+    temperature: request.temperature ?? 0.3,
+    maxTokens: Math.min(request.max_tokens ?? policy.maxTokens, policy.maxTokens),
+  });
+  if (chat instanceof Response) return chat;
+
+  return jsonResponse({
+    content: chat.content,
+    model: chat.model,
+    usage: chat.usage,
+  });
+});
@@ -0,0 +1,17 @@
+-- Keep every matching run as history instead of one row per talent/opportunity pair
+ALTER TABLE public.matches
+DROP CONSTRAINT IF EXISTS matches_opportunity_id_talent_profile_id_key;
+
+-- Group rows into runs and record how they were scored
+ALTER TABLE public.matches
+ADD COLUMN run_id UUID NOT NULL DEFAULT gen_random_uuid(),
+ADD COLUMN run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+ADD COLUMN scoring_mode TEXT NOT NULL DEFAULT 'rule_based' CHECK (scoring_mode IN ('ai', 'rule_based')),
+ADD COLUMN match_direction TEXT NOT NULL DEFAULT 'by_opportunity' CHECK (match_direction IN ('by_opportunity', 'by_talent')),
+ADD COLUMN created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Indexes for loading previous runs
+CREATE INDEX idx_matches_run_id ON public.matches(run_id);
+CREATE INDEX idx_matches_opportunity_run_at ON public.matches(opportunity_id, run_at DESC);
+CREATE INDEX idx_matches_talent_run_at ON public.matches(talent_profile_id, run_at DESC);
+
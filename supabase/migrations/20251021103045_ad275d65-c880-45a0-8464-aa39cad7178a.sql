@@ -0,0 +1,33 @@
+-- Add a 1-5 accuracy rating next to the existing thumbs up/down rating
+ALTER TABLE public.match_feedback
+ADD COLUMN accuracy_rating INTEGER CHECK (accuracy_rating >= 1 AND accuracy_rating <= 5),
+ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+-- One feedback entry per user per match so ratings can be changed
+ALTER TABLE public.match_feedback
+ADD CONSTRAINT match_feedback_match_user_unique UNIQUE (match_id, user_id);
+
+CREATE POLICY "Users can update own feedback" ON public.match_feedback
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_match_feedback_updated_at
+  BEFORE UPDATE ON public.match_feedback
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Normalized factor values (0-1) used by the rule-based scorer, kept for weight tuning
+ALTER TABLE public.matches
+ADD COLUMN score_breakdown JSONB;
+
+-- How well each scoring mode has matched manager expectations
+CREATE OR REPLACE VIEW public.match_feedback_accuracy
+WITH (security_invoker = true) AS
+SELECT
+  m.scoring_mode,
+  COUNT(f.id) AS feedback_count,
+  COUNT(f.id) FILTER (WHERE f.rating = 1) AS thumbs_up,
+  COUNT(f.id) FILTER (WHERE f.rating = -1) AS thumbs_down,
+  ROUND(AVG(f.accuracy_rating)::numeric, 2) AS avg_accuracy_rating,
+  ROUND(AVG(m.match_score)::numeric, 2) AS avg_match_score
+FROM public.match_feedback f
+JOIN public.matches m ON m.id = f.match_id
+GROUP BY m.scoring_mode;
@@ -0,0 +1,245 @@
+-- Synonyms that map free-text skills onto catalog entries (e.g. "React.js" -> "React")
+CREATE TABLE public.skill_aliases (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  skill_id UUID NOT NULL REFERENCES public.skills(id) ON DELETE CASCADE,
+  alias TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_skill_aliases_alias_lower ON public.skill_aliases (lower(alias));
+CREATE INDEX idx_skill_aliases_skill_id ON public.skill_aliases(skill_id);
+CREATE UNIQUE INDEX idx_skills_name_lower ON public.skills (lower(name));
+
+ALTER TABLE public.skill_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view skill aliases" ON public.skill_aliases
+  FOR SELECT USING (true);
+
+CREATE POLICY "Managers and admins can manage skill aliases" ON public.skill_aliases
+  FOR ALL USING (public.has_role(auth.uid(), 'manager') OR public.has_role(auth.uid(), 'admin'));
+
+-- Managers curate the catalog alongside admins
+CREATE POLICY "Managers can manage skills" ON public.skills
+  FOR ALL USING (public.has_role(auth.uid(), 'manager'));
+
+-- Managers can maintain skills for any talent, and talents can maintain their own
+CREATE POLICY "Managers and admins can manage talent skills" ON public.talent_skills
+  FOR ALL USING (public.has_role(auth.uid(), 'manager') OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Talents can manage their own skills" ON public.talent_skills
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.talent_profiles tp
+      WHERE tp.id = talent_skills.talent_profile_id
+        AND lower(tp.email) = lower(auth.jwt() ->> 'email')
+    )
+  );
+
+-- Common skills missing from the initial seed
+INSERT INTO public.skills (name, category, description) VALUES
+('JavaScript', 'technical', 'Programming language of the web'),
+('HTML', 'technical', 'Markup language for web pages'),
+('CSS', 'technical', 'Style sheet language for web pages'),
+('Next.js', 'technical', 'React framework for server-rendered applications'),
+('React Native', 'technical', 'React framework for native mobile apps'),
+('Redux', 'technical', 'State management library for JavaScript apps'),
+('Vue.js', 'technical', 'Progressive JavaScript framework'),
+('Angular', 'technical', 'TypeScript-based web application framework'),
+('Express', 'technical', 'Web framework for Node.js'),
+('Django', 'technical', 'Python web framework'),
+('Flask', 'technical', 'Lightweight Python web framework'),
+('Spring Boot', 'technical', 'Java application framework'),
+('Go', 'technical', 'Statically typed compiled language'),
+('C#', 'technical', 'Object-oriented language for .NET'),
+('SQL', 'technical', 'Structured query language for relational databases'),
+('MySQL', 'technical', 'Open source relational database'),
+('Azure', 'technical', 'Microsoft cloud platform'),
+('GCP', 'technical', 'Google Cloud Platform'),
+('Terraform', 'technical', 'Infrastructure as code tool'),
+('CI/CD', 'technical', 'Continuous integration and delivery'),
+('Git', 'technical', 'Distributed version control'),
+('TensorFlow', 'technical', 'Machine learning framework'),
+('PyTorch', 'technical', 'Machine learning framework')
+ON CONFLICT DO NOTHING;
+
+-- Parent relationships let a specialised skill partially satisfy its parent
+UPDATE public.skills s
+SET parent_skill_id = p.id
+FROM (VALUES
+  ('Next.js', 'React'),
+  ('React Native', 'React'),
+  ('Redux', 'React'),
+  ('React', 'JavaScript'),
+  ('Vue.js', 'JavaScript'),
+  ('Angular', 'TypeScript'),
+  ('TypeScript', 'JavaScript'),
+  ('Node.js', 'JavaScript'),
+  ('Express', 'Node.js'),
+  ('Django', 'Python'),
+  ('Flask', 'Python'),
+  ('Spring Boot', 'Java'),
+  ('PostgreSQL', 'SQL'),
+  ('MySQL', 'SQL'),
+  ('Kubernetes', 'Docker'),
+  ('TensorFlow', 'Machine Learning'),
+  ('PyTorch', 'Machine Learning')
+) AS rel(child_name, parent_name)
+JOIN public.skills p ON p.name = rel.parent_name
+WHERE s.name = rel.child_name
+  AND s.parent_skill_id IS NULL;
+
+INSERT INTO public.skill_aliases (skill_id, alias)
+SELECT s.id, a.alias
+FROM (VALUES
+  ('React', 'React.js'),
+  ('React', 'ReactJS'),
+  ('React', 'React JS'),
+  ('Next.js', 'NextJS'),
+  ('Next.js', 'Next'),
+  ('React Native', 'RN'),
+  ('Node.js', 'Node'),
+  ('Node.js', 'NodeJS'),
+  ('Node.js', 'Node JS'),
+  ('Express', 'Express.js'),
+  ('Express', 'ExpressJS'),
+  ('JavaScript', 'JS'),
+  ('JavaScript', 'ES6'),
+  ('JavaScript', 'ECMAScript'),
+  ('TypeScript', 'TS'),
+  ('Vue.js', 'Vue'),
+  ('Vue.js', 'VueJS'),
+  ('Angular', 'AngularJS'),
+  ('Angular', 'Angular.js'),
+  ('PostgreSQL', 'Postgres'),
+  ('PostgreSQL', 'psql'),
+  ('MongoDB', 'Mongo'),
+  ('Kubernetes', 'k8s'),
+  ('AWS', 'Amazon Web Services'),
+  ('GCP', 'Google Cloud'),
+  ('GCP', 'Google Cloud Platform'),
+  ('Azure', 'Microsoft Azure'),
+  ('Go', 'Golang'),
+  ('C#', 'CSharp'),
+  ('REST API', 'REST'),
+  ('REST API', 'RESTful APIs'),
+  ('REST API', 'REST APIs'),
+  ('Machine Learning', 'ML'),
+  ('HTML', 'HTML5'),
+  ('CSS', 'CSS3'),
+  ('CI/CD', 'CICD'),
+  ('Agile/Scrum', 'Agile'),
+  ('Agile/Scrum', 'Scrum'),
+  ('Adobe Creative Suite', 'Adobe CC'),
+  ('Figma', 'Figma Design')
+) AS a(skill_name, alias)
+JOIN public.skills s ON s.name = a.skill_name
+ON CONFLICT DO NOTHING;
+
+-- Resolve a free-text skill to a catalog entry by name or alias, ignoring case and spacing
+CREATE OR REPLACE FUNCTION public.resolve_skill(_name TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT id FROM (
+    SELECT s.id, 1 AS priority
+    FROM public.skills s
+    WHERE lower(s.name) = lower(btrim(_name))
+    UNION ALL
+    SELECT a.skill_id, 2 AS priority
+    FROM public.skill_aliases a
+    WHERE lower(a.alias) = lower(btrim(_name))
+  ) matches
+  ORDER BY priority
+  LIMIT 1
+$$;
+
+-- Map every talent's free-text skills onto talent_skills and canonicalize the legacy array.
+-- Unrecognised strings are left in the array so they can be aliased later and mapped on a re-run.
+CREATE OR REPLACE FUNCTION public.map_legacy_skills()
+RETURNS TABLE (
+  profiles_processed INTEGER,
+  skills_mapped INTEGER,
+  unmapped_skills INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profiles INTEGER := 0;
+  _mapped INTEGER := 0;
+  _unmapped INTEGER := 0;
+  _inserted INTEGER;
+  profile RECORD;
+BEGIN
+  -- Called from the app only by managers or admins; migrations run without a user
+  IF auth.uid() IS NOT NULL
+     AND NOT (public.has_role(auth.uid(), 'manager') OR public.has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'Only managers and admins can map legacy skills';
+  END IF;
+
+  FOR profile IN
+    SELECT tp.id, tp.skills
+    FROM public.talent_profiles tp
+    WHERE tp.skills IS NOT NULL AND array_length(tp.skills, 1) > 0
+  LOOP
+    _profiles := _profiles + 1;
+
+    INSERT INTO public.talent_skills (talent_profile_id, skill_id, proficiency_level)
+    SELECT DISTINCT profile.id, public.resolve_skill(raw.name), 3
+    FROM unnest(profile.skills) AS raw(name)
+    WHERE public.resolve_skill(raw.name) IS NOT NULL
+    ON CONFLICT (talent_profile_id, skill_id) DO NOTHING;
+
+    GET DIAGNOSTICS _inserted = ROW_COUNT;
+    _mapped := _mapped + _inserted;
+
+    _unmapped := _unmapped + (
+      SELECT COUNT(*)
+      FROM unnest(profile.skills) AS raw(name)
+      WHERE btrim(raw.name) <> '' AND public.resolve_skill(raw.name) IS NULL
+    );
+
+    UPDATE public.talent_profiles
+    SET skills = (
+      SELECT COALESCE(array_agg(canonical ORDER BY first_ord), '{}')
+      FROM (
+        SELECT canonical, MIN(ord) AS first_ord
+        FROM (
+          SELECT COALESCE(s.name, btrim(raw.name)) AS canonical, raw.ord
+          FROM unnest(profile.skills) WITH ORDINALITY AS raw(name, ord)
+          LEFT JOIN public.skills s ON s.id = public.resolve_skill(raw.name)
+          WHERE btrim(raw.name) <> ''
+        ) resolved
+        GROUP BY canonical
+      ) deduped
+    )
+    WHERE id = profile.id;
+  END LOOP;
+
+  RETURN QUERY SELECT _profiles, _mapped, _unmapped;
+END;
+$$;
+
+-- Free-text skills that still have no catalog entry, most common first
+CREATE OR REPLACE FUNCTION public.get_unmapped_skills()
+RETURNS TABLE (
+  skill_name TEXT,
+  talent_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT btrim(raw.name) AS skill_name, COUNT(DISTINCT tp.id) AS talent_count
+  FROM public.talent_profiles tp
+  CROSS JOIN LATERAL unnest(tp.skills) AS raw(name)
+  WHERE btrim(raw.name) <> '' AND public.resolve_skill(raw.name) IS NULL
+  GROUP BY btrim(raw.name)
+  ORDER BY talent_count DESC, skill_name
+$$;
+
+-- Map the skills that are already stored
+SELECT public.map_legacy_skills();
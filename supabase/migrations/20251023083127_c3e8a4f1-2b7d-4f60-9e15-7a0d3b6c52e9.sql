@@ -0,0 +1,3 @@
+-- Per-skill results (required/nice-to-have, level met, related via parent skill) for each stored match
+ALTER TABLE public.matches
+ADD COLUMN skill_breakdown JSONB;
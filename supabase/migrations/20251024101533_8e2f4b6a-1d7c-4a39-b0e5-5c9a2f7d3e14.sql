@@ -0,0 +1,26 @@
+-- Token usage for every call made through the llm-gateway edge function.
+-- Rows are written by the gateway with the service role; the same rows drive its per-user rate limit.
+CREATE TABLE public.llm_usage_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  feature TEXT NOT NULL,
+  model TEXT,
+  status TEXT NOT NULL CHECK (status IN ('success', 'error', 'rate_limited', 'forbidden')),
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER,
+  error_message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_llm_usage_log_user_created ON public.llm_usage_log (user_id, created_at DESC);
+CREATE INDEX idx_llm_usage_log_feature ON public.llm_usage_log (feature, created_at DESC);
+
+ALTER TABLE public.llm_usage_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own llm usage" ON public.llm_usage_log
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all llm usage" ON public.llm_usage_log
+  FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,21 @@
+-- AI match scores keyed by a SHA-256 of the talent and opportunity fields sent to the model,
+-- so re-running a match only calls the LLM for pairs whose inputs changed
+CREATE TABLE public.ai_match_cache (
+  content_hash TEXT NOT NULL PRIMARY KEY,
+  score INTEGER NOT NULL CHECK (score >= 0 AND score <= 100),
+  explanation TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ai_match_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers and admins can view AI match cache" ON public.ai_match_cache
+  FOR SELECT USING (public.has_role(auth.uid(), 'manager') OR public.has_role(auth.uid(), 'admin'));
+
+-- No insert or update policies: only the llm-gateway writes scores, with the service role, from
+-- the prompts it built itself
+
+CREATE TRIGGER update_ai_match_cache_updated_at
+  BEFORE UPDATE ON public.ai_match_cache
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,173 @@
+-- Semantic search: pgvector embeddings for talent profiles (bio, work experience, skills)
+-- and opportunities (title, description). Rows are marked stale by triggers whenever the
+-- source text changes; the embeddings edge function fills in the vectors.
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+CREATE TABLE public.talent_embeddings (
+  talent_profile_id UUID NOT NULL PRIMARY KEY REFERENCES public.talent_profiles(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  content_hash TEXT NOT NULL,
+  embedding extensions.vector(768),
+  model TEXT,
+  stale BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.opportunity_embeddings (
+  opportunity_id UUID NOT NULL PRIMARY KEY REFERENCES public.opportunities(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  content_hash TEXT NOT NULL,
+  embedding extensions.vector(768),
+  model TEXT,
+  stale BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_talent_embeddings_vector ON public.talent_embeddings
+  USING hnsw (embedding extensions.vector_cosine_ops);
+CREATE INDEX idx_opportunity_embeddings_vector ON public.opportunity_embeddings
+  USING hnsw (embedding extensions.vector_cosine_ops);
+CREATE INDEX idx_talent_embeddings_stale ON public.talent_embeddings (stale) WHERE stale;
+CREATE INDEX idx_opportunity_embeddings_stale ON public.opportunity_embeddings (stale) WHERE stale;
+
+ALTER TABLE public.talent_embeddings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.opportunity_embeddings ENABLE ROW LEVEL SECURITY;
+
+-- Visible whenever the underlying row is; vectors are only written by the edge function (service role)
+CREATE POLICY "Embeddings follow talent profile visibility" ON public.talent_embeddings
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.talent_profiles tp WHERE tp.id = talent_profile_id));
+
+CREATE POLICY "Embeddings follow opportunity visibility" ON public.opportunity_embeddings
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.opportunities o WHERE o.id = opportunity_id));
+
+CREATE TRIGGER update_talent_embeddings_updated_at
+  BEFORE UPDATE ON public.talent_embeddings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_opportunity_embeddings_updated_at
+  BEFORE UPDATE ON public.opportunity_embeddings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Text that gets embedded for each side
+CREATE OR REPLACE FUNCTION public.talent_embedding_content(_bio TEXT, _work_experience TEXT, _skills TEXT[])
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT concat_ws(E'\n',
+    NULLIF(trim(_bio), ''),
+    NULLIF(trim(_work_experience), ''),
+    CASE WHEN cardinality(_skills) > 0 THEN 'Skills: ' || array_to_string(_skills, ', ') END
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.opportunity_embedding_content(_title TEXT, _description TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT concat_ws(E'\n', NULLIF(trim(_title), ''), NULLIF(trim(_description), ''));
+$$;
+
+-- Mark an embedding stale only when the embedded text actually changed
+CREATE OR REPLACE FUNCTION public.queue_talent_embedding()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _content TEXT := public.talent_embedding_content(NEW.bio, NEW.work_experience, NEW.skills);
+BEGIN
+  INSERT INTO public.talent_embeddings (talent_profile_id, content, content_hash, stale)
+  VALUES (NEW.id, _content, md5(_content), true)
+  ON CONFLICT (talent_profile_id) DO UPDATE
+    SET content = EXCLUDED.content,
+        content_hash = EXCLUDED.content_hash,
+        stale = true
+    WHERE talent_embeddings.content_hash <> EXCLUDED.content_hash;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.queue_opportunity_embedding()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _content TEXT := public.opportunity_embedding_content(NEW.title, NEW.description);
+BEGIN
+  INSERT INTO public.opportunity_embeddings (opportunity_id, content, content_hash, stale)
+  VALUES (NEW.id, _content, md5(_content), true)
+  ON CONFLICT (opportunity_id) DO UPDATE
+    SET content = EXCLUDED.content,
+        content_hash = EXCLUDED.content_hash,
+        stale = true
+    WHERE opportunity_embeddings.content_hash <> EXCLUDED.content_hash;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_talent_embedding
+  AFTER INSERT OR UPDATE OF bio, work_experience, skills ON public.talent_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.queue_talent_embedding();
+
+CREATE TRIGGER queue_opportunity_embedding
+  AFTER INSERT OR UPDATE OF title, description ON public.opportunities
+  FOR EACH ROW EXECUTE FUNCTION public.queue_opportunity_embedding();
+
+-- Queue everything that already exists
+INSERT INTO public.talent_embeddings (talent_profile_id, content, content_hash)
+SELECT id, c.content, md5(c.content)
+FROM public.talent_profiles,
+LATERAL (SELECT public.talent_embedding_content(bio, work_experience, skills) AS content) c
+ON CONFLICT (talent_profile_id) DO NOTHING;
+
+INSERT INTO public.opportunity_embeddings (opportunity_id, content, content_hash)
+SELECT id, c.content, md5(c.content)
+FROM public.opportunities,
+LATERAL (SELECT public.opportunity_embedding_content(title, description) AS content) c
+ON CONFLICT (opportunity_id) DO NOTHING;
+
+-- Nearest talents to a query vector (cosine similarity, 1 = identical)
+CREATE OR REPLACE FUNCTION public.search_talents_semantic(
+  query_embedding extensions.vector(768),
+  match_count INTEGER DEFAULT 20,
+  min_similarity DOUBLE PRECISION DEFAULT 0.2
+)
+RETURNS TABLE (talent_profile_id UUID, similarity DOUBLE PRECISION)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT te.talent_profile_id, 1 - (te.embedding <=> query_embedding) AS similarity
+  FROM public.talent_embeddings te
+  WHERE te.embedding IS NOT NULL
+    AND 1 - (te.embedding <=> query_embedding) >= min_similarity
+  ORDER BY te.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+-- Similarity between one opportunity and every embedded talent, or one talent and every embedded opportunity
+CREATE OR REPLACE FUNCTION public.embedding_similarities(
+  _opportunity_id UUID DEFAULT NULL,
+  _talent_profile_id UUID DEFAULT NULL
+)
+RETURNS TABLE (talent_profile_id UUID, opportunity_id UUID, similarity DOUBLE PRECISION)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT te.talent_profile_id, oe.opportunity_id, 1 - (te.embedding <=> oe.embedding) AS similarity
+  FROM public.talent_embeddings te
+  CROSS JOIN public.opportunity_embeddings oe
+  WHERE te.embedding IS NOT NULL
+    AND oe.embedding IS NOT NULL
+    AND (_opportunity_id IS NULL OR oe.opportunity_id = _opportunity_id)
+    AND (_talent_profile_id IS NULL OR te.talent_profile_id = _talent_profile_id)
+    AND (_opportunity_id IS NOT NULL OR _talent_profile_id IS NOT NULL);
+$$;
@@ -0,0 +1,17 @@
+-- Time-phased allocations: each employee project runs from start_date to release_date (inclusive),
+-- so capacity can be planned week by week instead of summing every allocation ever recorded
+ALTER TABLE public.employee_projects
+  ADD COLUMN IF NOT EXISTS release_date DATE,
+  ADD COLUMN IF NOT EXISTS start_date DATE;
+
+-- Existing allocations are assumed to have started when they were recorded
+UPDATE public.employee_projects
+SET start_date = created_at::date
+WHERE start_date IS NULL;
+
+ALTER TABLE public.employee_projects
+  ADD CONSTRAINT employee_projects_dates_check
+  CHECK (start_date IS NULL OR release_date IS NULL OR release_date >= start_date) NOT VALID;
+
+CREATE INDEX IF NOT EXISTS idx_employee_projects_talent_dates
+  ON public.employee_projects (talent_profile_id, start_date, release_date);
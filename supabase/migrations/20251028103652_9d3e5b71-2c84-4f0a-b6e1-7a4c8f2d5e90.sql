@@ -0,0 +1,236 @@
+-- Candidate pipeline per opportunity. Stages are configurable rows; `outcome` marks the two
+-- terminal stages: moving a candidate to the hired stage creates the assignment and fills the
+-- opportunity, moving one to the rejected stage requires a reason.
+CREATE TABLE public.pipeline_stages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  key TEXT NOT NULL UNIQUE,
+  label TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  outcome TEXT CHECK (outcome IN ('hired', 'rejected')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One hired stage and one rejected stage
+CREATE UNIQUE INDEX idx_pipeline_stages_outcome ON public.pipeline_stages(outcome) WHERE outcome IS NOT NULL;
+
+CREATE TABLE public.opportunity_candidates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  opportunity_id UUID NOT NULL REFERENCES public.opportunities(id) ON DELETE CASCADE,
+  talent_profile_id UUID NOT NULL REFERENCES public.talent_profiles(id) ON DELETE CASCADE,
+  stage_id UUID NOT NULL REFERENCES public.pipeline_stages(id),
+  position INTEGER NOT NULL DEFAULT 0,
+  rejection_reason TEXT,
+  stage_entered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  added_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(opportunity_id, talent_profile_id)
+);
+
+CREATE INDEX idx_opportunity_candidates_opportunity ON public.opportunity_candidates(opportunity_id, stage_id, position);
+CREATE INDEX idx_opportunity_candidates_talent ON public.opportunity_candidates(talent_profile_id);
+
+-- Every stage change, for time-in-stage reporting
+CREATE TABLE public.opportunity_candidate_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  candidate_id UUID NOT NULL REFERENCES public.opportunity_candidates(id) ON DELETE CASCADE,
+  from_stage_id UUID REFERENCES public.pipeline_stages(id),
+  to_stage_id UUID NOT NULL REFERENCES public.pipeline_stages(id),
+  rejection_reason TEXT,
+  changed_by UUID REFERENCES auth.users(id),
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_opportunity_candidate_events_candidate ON public.opportunity_candidate_events(candidate_id, changed_at DESC);
+
+-- Fulfilment columns read by the opportunity page; older databases may not have them yet
+ALTER TABLE public.opportunities
+  ADD COLUMN IF NOT EXISTS fulfilled_by UUID,
+  ADD COLUMN IF NOT EXISTS fulfilled_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS fulfilled_candidate_id UUID REFERENCES public.talent_profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.pipeline_stages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.opportunity_candidates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.opportunity_candidate_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view pipeline stages" ON public.pipeline_stages
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage pipeline stages" ON public.pipeline_stages
+  FOR ALL USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Managers and admins can view candidates" ON public.opportunity_candidates
+  FOR SELECT USING (public.has_role(auth.uid(), 'manager') OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Managers and admins can manage candidates" ON public.opportunity_candidates
+  FOR ALL USING (public.has_role(auth.uid(), 'manager') OR public.has_role(auth.uid(), 'admin'));
+
+-- Events are written by the stage trigger only
+CREATE POLICY "Managers and admins can view candidate events" ON public.opportunity_candidate_events
+  FOR SELECT USING (public.has_role(auth.uid(), 'manager') OR public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_pipeline_stages_updated_at
+  BEFORE UPDATE ON public.pipeline_stages
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_opportunity_candidates_updated_at
+  BEFORE UPDATE ON public.opportunity_candidates
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.pipeline_stages (key, label, position, outcome) VALUES
+('sourced', 'Sourced', 1, NULL),
+('shortlisted', 'Shortlisted', 2, NULL),
+('interviewing', 'Interviewing', 3, NULL),
+('offered', 'Offered', 4, NULL),
+('hired', 'Hired', 5, 'hired'),
+('rejected', 'Rejected', 6, 'rejected')
+ON CONFLICT (key) DO NOTHING;
+
+-- Opportunities filled through the old form show their hire on the board. This runs before the
+-- stage triggers exist so the existing assignments and fulfilment details are left as they are.
+WITH hires AS (
+  INSERT INTO public.opportunity_candidates (opportunity_id, talent_profile_id, stage_id, added_by, stage_entered_at)
+  SELECT DISTINCT ON (a.opportunity_id) a.opportunity_id, a.talent_profile_id, s.id, a.assigned_by, a.created_at
+  FROM public.assignments a
+  CROSS JOIN public.pipeline_stages s
+  WHERE s.key = 'hired'
+  ORDER BY a.opportunity_id, a.created_at DESC
+  RETURNING id, stage_id, added_by, stage_entered_at
+)
+INSERT INTO public.opportunity_candidate_events (candidate_id, to_stage_id, changed_by, changed_at)
+SELECT id, stage_id, added_by, stage_entered_at FROM hires;
+
+-- Stamp the stage entry time, require a rejection reason, and allow one hire per opportunity
+CREATE OR REPLACE FUNCTION public.prepare_candidate_stage()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _outcome TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.stage_id IS NOT DISTINCT FROM OLD.stage_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT outcome INTO _outcome FROM public.pipeline_stages WHERE id = NEW.stage_id;
+
+  NEW.stage_entered_at := now();
+
+  IF _outcome = 'rejected' THEN
+    IF coalesce(btrim(NEW.rejection_reason), '') = '' THEN
+      RAISE EXCEPTION 'A rejection reason is required';
+    END IF;
+  ELSE
+    NEW.rejection_reason := NULL;
+  END IF;
+
+  IF _outcome = 'hired' AND EXISTS (
+    SELECT 1
+    FROM public.opportunity_candidates c
+    JOIN public.pipeline_stages s ON s.id = c.stage_id
+    WHERE c.opportunity_id = NEW.opportunity_id
+      AND c.id <> NEW.id
+      AND s.outcome = 'hired'
+  ) THEN
+    RAISE EXCEPTION 'This opportunity already has a hired candidate';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_opportunity_candidate_stage
+  BEFORE INSERT OR UPDATE OF stage_id ON public.opportunity_candidates
+  FOR EACH ROW EXECUTE FUNCTION public.prepare_candidate_stage();
+
+-- Record the stage change and keep the assignment and opportunity in step with the hired stage.
+-- Removing the hired candidate from the pipeline undoes the hire like moving them out of it.
+CREATE OR REPLACE FUNCTION public.apply_candidate_stage()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _new_outcome TEXT;
+  _old_outcome TEXT;
+  _manager_id UUID;
+  _candidate public.opportunity_candidates%ROWTYPE;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    _candidate := OLD;
+    SELECT outcome INTO _old_outcome FROM public.pipeline_stages WHERE id = OLD.stage_id;
+  ELSE
+    IF TG_OP = 'UPDATE' AND NEW.stage_id IS NOT DISTINCT FROM OLD.stage_id THEN
+      RETURN NEW;
+    END IF;
+    _candidate := NEW;
+
+    INSERT INTO public.opportunity_candidate_events (candidate_id, from_stage_id, to_stage_id, rejection_reason, changed_by)
+    VALUES (NEW.id, CASE WHEN TG_OP = 'UPDATE' THEN OLD.stage_id END, NEW.stage_id, NEW.rejection_reason, auth.uid());
+
+    SELECT outcome INTO _new_outcome FROM public.pipeline_stages WHERE id = NEW.stage_id;
+    IF TG_OP = 'UPDATE' THEN
+      SELECT outcome INTO _old_outcome FROM public.pipeline_stages WHERE id = OLD.stage_id;
+    END IF;
+  END IF;
+
+  IF _new_outcome = 'hired' THEN
+    -- fulfilled_by holds the manager's users row, as the opportunity form always did
+    SELECT id INTO _manager_id FROM public.users WHERE user_id = auth.uid() LIMIT 1;
+
+    INSERT INTO public.assignments (opportunity_id, talent_profile_id, assigned_by, start_date, status)
+    SELECT NEW.opportunity_id, NEW.talent_profile_id, coalesce(auth.uid(), NEW.added_by),
+           greatest(coalesce(o.start_date, current_date), current_date), 'active'
+    FROM public.opportunities o
+    WHERE o.id = NEW.opportunity_id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.assignments a
+        WHERE a.opportunity_id = NEW.opportunity_id AND a.talent_profile_id = NEW.talent_profile_id
+      );
+
+    UPDATE public.opportunities
+    SET status = 'filled',
+        fulfilled_by = _manager_id,
+        fulfilled_at = now(),
+        fulfilled_candidate_id = NEW.talent_profile_id
+    WHERE id = NEW.opportunity_id;
+
+    UPDATE public.talent_profiles SET status = 'assigned' WHERE id = NEW.talent_profile_id;
+  ELSIF _old_outcome = 'hired' THEN
+    -- Moved back out of hired, or removed: undo the hire
+    DELETE FROM public.assignments
+    WHERE opportunity_id = _candidate.opportunity_id AND talent_profile_id = _candidate.talent_profile_id;
+
+    UPDATE public.opportunities
+    SET status = 'open',
+        fulfilled_by = NULL,
+        fulfilled_at = NULL,
+        fulfilled_candidate_id = NULL
+    WHERE id = _candidate.opportunity_id AND fulfilled_candidate_id = _candidate.talent_profile_id;
+
+    -- Still assigned while another hire or active assignment remains
+    UPDATE public.talent_profiles SET status = 'available'
+    WHERE id = _candidate.talent_profile_id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.assignments a
+        WHERE a.talent_profile_id = _candidate.talent_profile_id AND a.status = 'active'
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.opportunity_candidates c
+        JOIN public.pipeline_stages s ON s.id = c.stage_id
+        WHERE c.talent_profile_id = _candidate.talent_profile_id
+          AND c.id <> _candidate.id
+          AND s.outcome = 'hired'
+      );
+  END IF;
+
+  RETURN _candidate;
+END;
+$$;
+
+CREATE TRIGGER apply_opportunity_candidate_stage
+  AFTER INSERT OR UPDATE OF stage_id OR DELETE ON public.opportunity_candidates
+  FOR EACH ROW EXECUTE FUNCTION public.apply_candidate_stage();
@@ -0,0 +1,138 @@
+-- Activity feed / audit log. Triggers on talent, opportunities, assignments, projects and roles
+-- write one activity_feed row per create, update, delete, assignment, status or role change.
+
+-- Changes made outside a user session (service role, migrations) have no actor, and the log
+-- outlives the users who made the changes
+ALTER TABLE public.activity_feed ALTER COLUMN user_id DROP NOT NULL;
+ALTER TABLE public.activity_feed DROP CONSTRAINT IF EXISTS activity_feed_user_id_fkey;
+ALTER TABLE public.activity_feed
+  ADD CONSTRAINT activity_feed_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_activity_feed_created_at ON public.activity_feed(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_activity_feed_entity_type ON public.activity_feed(entity_type, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_activity_feed_entity ON public.activity_feed(entity_id);
+
+-- Only the triggers below write to the log
+DROP POLICY IF EXISTS "System can create activity" ON public.activity_feed;
+
+CREATE OR REPLACE FUNCTION public.log_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _entity_type TEXT := TG_ARGV[0];
+  _row JSONB;
+  _old JSONB;
+  _changes TEXT[];
+  _action TEXT;
+  _metadata JSONB;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    _row := to_jsonb(OLD);
+  ELSE
+    _row := to_jsonb(NEW);
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    _old := to_jsonb(OLD);
+    SELECT array_agg(key ORDER BY key) INTO _changes
+    FROM jsonb_each(_row)
+    WHERE key NOT IN ('created_at', 'updated_at')
+      AND value IS DISTINCT FROM _old -> key;
+
+    -- Touching updated_at alone is not an activity
+    IF _changes IS NULL THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  _action := CASE
+    WHEN TG_TABLE_NAME = 'users' THEN
+      CASE WHEN (_row ->> 'is_manager')::boolean THEN 'role_granted' ELSE 'role_revoked' END
+    WHEN TG_TABLE_NAME IN ('user_roles', 'admin') AND TG_OP = 'INSERT' THEN 'role_granted'
+    WHEN TG_TABLE_NAME IN ('user_roles', 'admin') AND TG_OP = 'DELETE' THEN 'role_revoked'
+    WHEN TG_TABLE_NAME = 'assignments' AND TG_OP = 'INSERT' THEN 'assigned'
+    WHEN TG_TABLE_NAME = 'assignments' AND TG_OP = 'DELETE' THEN 'unassigned'
+    WHEN TG_OP = 'INSERT' THEN 'created'
+    WHEN TG_OP = 'DELETE' THEN 'deleted'
+    WHEN 'status' = ANY(_changes) THEN 'status_changed'
+    ELSE 'updated'
+  END;
+
+  -- A readable label, so entries still make sense after the entity is deleted
+  _metadata := CASE TG_TABLE_NAME
+    WHEN 'talent_profiles' THEN jsonb_build_object(
+      'label', btrim(concat_ws(' ', _row ->> 'first_name', _row ->> 'last_name')),
+      'talent_role', _row ->> 'talent_role')
+    WHEN 'opportunities' THEN jsonb_build_object(
+      'label', _row ->> 'title',
+      'required_role', _row ->> 'required_role')
+    WHEN 'employee_projects' THEN jsonb_build_object(
+      'label', _row ->> 'project_name',
+      'talent_profile_id', _row ->> 'talent_profile_id',
+      'talent_name', (SELECT btrim(concat_ws(' ', first_name, last_name)) FROM public.talent_profiles WHERE id = (_row ->> 'talent_profile_id')::uuid),
+      'utilization_percentage', _row -> 'utilization_percentage')
+    WHEN 'assignments' THEN jsonb_build_object(
+      'label', (SELECT title FROM public.opportunities WHERE id = (_row ->> 'opportunity_id')::uuid),
+      'opportunity_id', _row ->> 'opportunity_id',
+      'talent_profile_id', _row ->> 'talent_profile_id',
+      'talent_name', (SELECT btrim(concat_ws(' ', first_name, last_name)) FROM public.talent_profiles WHERE id = (_row ->> 'talent_profile_id')::uuid))
+    WHEN 'user_roles' THEN jsonb_build_object(
+      'label', (SELECT coalesce(nullif(btrim(concat_ws(' ', first_name, last_name)), ''), email) FROM public.users WHERE user_id = (_row ->> 'user_id')::uuid LIMIT 1),
+      'role', _row ->> 'role')
+    WHEN 'users' THEN jsonb_build_object(
+      'label', coalesce(nullif(btrim(concat_ws(' ', _row ->> 'first_name', _row ->> 'last_name')), ''), _row ->> 'email'),
+      'role', 'manager')
+    WHEN 'admin' THEN jsonb_build_object(
+      'label', coalesce(_row ->> 'name', _row ->> 'email'),
+      'role', 'admin')
+    ELSE '{}'::jsonb
+  END;
+
+  IF _changes IS NOT NULL AND TG_TABLE_NAME <> 'users' THEN
+    _metadata := _metadata || jsonb_build_object('changes', to_jsonb(_changes));
+  END IF;
+
+  IF _action = 'status_changed' THEN
+    _metadata := _metadata || jsonb_build_object('from', _old ->> 'status', 'to', _row ->> 'status');
+  END IF;
+
+  INSERT INTO public.activity_feed (user_id, action, entity_type, entity_id, metadata)
+  VALUES (auth.uid(), _action, _entity_type, (_row ->> 'id')::uuid, jsonb_strip_nulls(_metadata));
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER log_talent_profiles_activity
+  AFTER INSERT OR UPDATE OR DELETE ON public.talent_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.log_activity('talent');
+
+CREATE TRIGGER log_opportunities_activity
+  AFTER INSERT OR UPDATE OR DELETE ON public.opportunities
+  FOR EACH ROW EXECUTE FUNCTION public.log_activity('opportunity');
+
+CREATE TRIGGER log_assignments_activity
+  AFTER INSERT OR UPDATE OR DELETE ON public.assignments
+  FOR EACH ROW EXECUTE FUNCTION public.log_activity('assignment');
+
+CREATE TRIGGER log_employee_projects_activity
+  AFTER INSERT OR UPDATE OR DELETE ON public.employee_projects
+  FOR EACH ROW EXECUTE FUNCTION public.log_activity('project');
+
+CREATE TRIGGER log_user_roles_activity
+  AFTER INSERT OR DELETE ON public.user_roles
+  FOR EACH ROW EXECUTE FUNCTION public.log_activity('role');
+
+CREATE TRIGGER log_admin_activity
+  AFTER INSERT OR DELETE ON public.admin
+  FOR EACH ROW EXECUTE FUNCTION public.log_activity('role');
+
+-- The manager flag on users is a role; profile edits on users are not logged
+CREATE TRIGGER log_manager_role_activity
+  AFTER UPDATE OF is_manager ON public.users
+  FOR EACH ROW
+  WHEN (OLD.is_manager IS DISTINCT FROM NEW.is_manager)
+  EXECUTE FUNCTION public.log_activity('role');
@@ -0,0 +1,282 @@
+-- Talent profile version history. Triggers snapshot the profile fields, structured skills and
+-- projects whenever any of them change, whatever made the change; managers can restore any version.
+CREATE TABLE public.talent_profile_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  talent_profile_id UUID NOT NULL REFERENCES public.talent_profiles(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  snapshot JSONB NOT NULL,
+  changed_fields TEXT[] NOT NULL DEFAULT '{}',
+  -- 'system' for changes made without a signed-in user, such as SQL run by the service role
+  source TEXT NOT NULL CHECK (source IN ('baseline', 'manager_edit', 'self_edit', 'restore', 'system')),
+  restored_from_version_id UUID REFERENCES public.talent_profile_versions(id) ON DELETE SET NULL,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(talent_profile_id, version_number)
+);
+
+CREATE INDEX idx_talent_profile_versions_profile ON public.talent_profile_versions(talent_profile_id, version_number DESC);
+
+ALTER TABLE public.talent_profile_versions ENABLE ROW LEVEL SECURITY;
+
+-- Versions are immutable and only written by the functions below
+CREATE POLICY "Managers and admins can view talent profile versions" ON public.talent_profile_versions
+  FOR SELECT USING (public.has_role(auth.uid(), 'manager') OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view versions of their own talent profile" ON public.talent_profile_versions
+  FOR SELECT USING (EXISTS (
+    SELECT 1 FROM public.talent_profiles t
+    WHERE t.id = talent_profile_id AND t.email = auth.jwt() ->> 'email'
+  ));
+
+-- The versioned state of a profile: editable fields, catalog skills and project allocations.
+-- Arrays are ordered so equal states produce equal snapshots.
+CREATE OR REPLACE FUNCTION public.talent_profile_snapshot(_talent_profile_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'profile', jsonb_build_object(
+      'first_name', t.first_name,
+      'last_name', t.last_name,
+      'email', t.email,
+      'talent_type', t.talent_type,
+      'talent_role', t.talent_role,
+      'bio', t.bio,
+      'skills', to_jsonb(t.skills),
+      'source', t.source,
+      'location', t.location,
+      'timezone', t.timezone,
+      'years_experience', t.years_experience,
+      'remote_preference', t.remote_preference,
+      'availability_start_date', t.availability_start_date,
+      'prospect_status', t.prospect_status,
+      'linkedin_url', t.linkedin_url,
+      'github_url', t.github_url,
+      'portfolio_url', t.portfolio_url,
+      'resume_url', t.resume_url,
+      'avatar_url', t.avatar_url,
+      'education', t.education,
+      'certifications', t.certifications,
+      'work_experience', t.work_experience
+    ),
+    'skill_links', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'skill_id', ts.skill_id,
+        'name', s.name,
+        'proficiency_level', ts.proficiency_level,
+        'years_experience', ts.years_experience
+      ) ORDER BY s.name, ts.skill_id)
+      FROM public.talent_skills ts
+      JOIN public.skills s ON s.id = ts.skill_id
+      WHERE ts.talent_profile_id = t.id
+    ), '[]'::jsonb),
+    'projects', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'project_name', p.project_name,
+        'reporting_manager', p.reporting_manager,
+        'utilization_percentage', p.utilization_percentage,
+        'start_date', p.start_date,
+        'release_date', p.release_date
+      ) ORDER BY p.project_name, p.start_date)
+      FROM public.employee_projects p
+      WHERE p.talent_profile_id = t.id
+    ), '[]'::jsonb)
+  )
+  FROM public.talent_profiles t
+  WHERE t.id = _talent_profile_id;
+$$;
+
+-- Record the profile's current state as a new version, unless nothing changed since the last one.
+-- Versions are never rewritten: every saved state stays in the history.
+CREATE OR REPLACE FUNCTION public.record_talent_profile_version(
+  _talent_profile_id UUID,
+  _source TEXT,
+  _restored_from UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _snapshot JSONB;
+  _latest public.talent_profile_versions%ROWTYPE;
+  _changed TEXT[] := '{}';
+  _version_id UUID;
+BEGIN
+  _snapshot := public.talent_profile_snapshot(_talent_profile_id);
+  IF _snapshot IS NULL THEN
+    RAISE EXCEPTION 'Talent profile % not found', _talent_profile_id;
+  END IF;
+
+  SELECT * INTO _latest
+  FROM public.talent_profile_versions
+  WHERE talent_profile_id = _talent_profile_id
+  ORDER BY version_number DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    IF _latest.snapshot = _snapshot AND _source <> 'restore' THEN
+      RETURN _latest.id;
+    END IF;
+
+    SELECT coalesce(array_agg(key ORDER BY key), '{}') INTO _changed
+    FROM jsonb_each(_snapshot -> 'profile')
+    WHERE value IS DISTINCT FROM _latest.snapshot -> 'profile' -> key;
+
+    IF _snapshot -> 'skill_links' IS DISTINCT FROM _latest.snapshot -> 'skill_links' THEN
+      _changed := array_append(_changed, 'skill_links');
+    END IF;
+    IF _snapshot -> 'projects' IS DISTINCT FROM _latest.snapshot -> 'projects' THEN
+      _changed := array_append(_changed, 'projects');
+    END IF;
+  END IF;
+
+  INSERT INTO public.talent_profile_versions (
+    talent_profile_id, version_number, snapshot, changed_fields, source, restored_from_version_id, changed_by
+  )
+  VALUES (
+    _talent_profile_id,
+    coalesce(_latest.version_number, 0) + 1,
+    _snapshot,
+    _changed,
+    CASE WHEN _latest.id IS NULL AND _source <> 'restore' THEN 'baseline' ELSE _source END,
+    _restored_from,
+    auth.uid()
+  )
+  RETURNING id INTO _version_id;
+
+  RETURN _version_id;
+END;
+$$;
+
+-- Put a profile back to an earlier version (fields, skills and projects) and record that as a new version
+CREATE OR REPLACE FUNCTION public.restore_talent_profile_version(_version_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _version public.talent_profile_versions%ROWTYPE;
+  _profile public.talent_profiles%ROWTYPE;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'manager') OR public.has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'Only managers and admins can restore talent profile versions';
+  END IF;
+
+  SELECT * INTO _version FROM public.talent_profile_versions WHERE id = _version_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Version % not found', _version_id;
+  END IF;
+
+  SELECT * INTO _profile
+  FROM jsonb_populate_record(NULL::public.talent_profiles, _version.snapshot -> 'profile');
+
+  UPDATE public.talent_profiles
+  SET first_name = _profile.first_name,
+      last_name = _profile.last_name,
+      email = _profile.email,
+      talent_type = _profile.talent_type,
+      talent_role = _profile.talent_role,
+      bio = _profile.bio,
+      skills = _profile.skills,
+      source = _profile.source,
+      location = _profile.location,
+      timezone = _profile.timezone,
+      years_experience = _profile.years_experience,
+      remote_preference = _profile.remote_preference,
+      availability_start_date = _profile.availability_start_date,
+      prospect_status = _profile.prospect_status,
+      linkedin_url = _profile.linkedin_url,
+      github_url = _profile.github_url,
+      portfolio_url = _profile.portfolio_url,
+      resume_url = _profile.resume_url,
+      avatar_url = _profile.avatar_url,
+      education = _profile.education,
+      certifications = _profile.certifications,
+      work_experience = _profile.work_experience,
+      updated_at = now()
+  WHERE id = _version.talent_profile_id;
+
+  DELETE FROM public.talent_skills WHERE talent_profile_id = _version.talent_profile_id;
+  INSERT INTO public.talent_skills (talent_profile_id, skill_id, proficiency_level, years_experience)
+  SELECT _version.talent_profile_id, link.skill_id, link.proficiency_level, link.years_experience
+  FROM jsonb_to_recordset(_version.snapshot -> 'skill_links')
+    AS link(skill_id UUID, proficiency_level INTEGER, years_experience INTEGER)
+  -- Skills deleted from the catalog since cannot be restored
+  WHERE EXISTS (SELECT 1 FROM public.skills WHERE id = link.skill_id);
+
+  DELETE FROM public.employee_projects WHERE talent_profile_id = _version.talent_profile_id;
+  INSERT INTO public.employee_projects (talent_profile_id, project_name, reporting_manager, utilization_percentage, start_date, release_date)
+  SELECT _version.talent_profile_id, project.project_name, project.reporting_manager, project.utilization_percentage,
+         project.start_date, project.release_date
+  FROM jsonb_to_recordset(_version.snapshot -> 'projects')
+    AS project(project_name TEXT, reporting_manager TEXT, utilization_percentage INTEGER, start_date DATE, release_date DATE);
+
+  RETURN public.record_talent_profile_version(_version.talent_profile_id, 'restore', _version_id);
+END;
+$$;
+
+-- Versions are only written by the triggers below and by restores
+REVOKE EXECUTE ON FUNCTION public.record_talent_profile_version(UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Version the profile after a change to it, its skills or its projects. Deferred to the end of the
+-- transaction so a request that touches many rows records one version of the final state.
+CREATE OR REPLACE FUNCTION public.version_talent_profile_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _talent_profile_id UUID;
+  _profile public.talent_profiles%ROWTYPE;
+BEGIN
+  IF TG_TABLE_NAME = 'talent_profiles' THEN
+    _talent_profile_id := NEW.id;
+  ELSIF TG_OP = 'DELETE' THEN
+    _talent_profile_id := OLD.talent_profile_id;
+  ELSE
+    _talent_profile_id := NEW.talent_profile_id;
+  END IF;
+
+  SELECT * INTO _profile FROM public.talent_profiles WHERE id = _talent_profile_id;
+  -- Deleted along with the row
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM public.record_talent_profile_version(
+    _talent_profile_id,
+    CASE
+      WHEN auth.uid() IS NULL THEN 'system'
+      WHEN _profile.email = auth.jwt() ->> 'email' THEN 'self_edit'
+      ELSE 'manager_edit'
+    END
+  );
+  RETURN NULL;
+END;
+$$;
+
+CREATE CONSTRAINT TRIGGER version_talent_profile_change
+  AFTER INSERT OR UPDATE ON public.talent_profiles
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.version_talent_profile_change();
+
+CREATE CONSTRAINT TRIGGER version_talent_skills_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.talent_skills
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.version_talent_profile_change();
+
+CREATE CONSTRAINT TRIGGER version_employee_projects_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.employee_projects
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.version_talent_profile_change();
+
+-- Every existing profile starts with its current state as the baseline version
+INSERT INTO public.talent_profile_versions (talent_profile_id, version_number, snapshot, source)
+SELECT id, 1, public.talent_profile_snapshot(id), 'baseline'
+FROM public.talent_profiles;
@@ -0,0 +1,203 @@
+-- Roles live in user_roles only. The app used to read admin status from the `admin` table and
+-- manager status from users.is_manager, while RLS read user_roles (where every signup was granted
+-- 'manager'). Reconcile user_roles to what the app showed, then make it the single source of truth.
+
+-- Manager grants nobody made on purpose: the signup default, for users the app didn't treat as managers
+DELETE FROM public.user_roles ur
+WHERE ur.role = 'manager'
+  AND NOT EXISTS (
+    SELECT 1 FROM public.users u
+    WHERE u.user_id = ur.user_id AND u.is_manager
+  );
+
+INSERT INTO public.user_roles (user_id, role)
+SELECT u.user_id, 'manager'::app_role
+FROM public.users u
+WHERE u.is_manager AND u.user_id IS NOT NULL
+ON CONFLICT (user_id, role) DO NOTHING;
+
+-- Admins are whoever the admin table listed
+DELETE FROM public.user_roles ur
+WHERE ur.role = 'admin'
+  AND NOT EXISTS (
+    SELECT 1 FROM public.admin a
+    JOIN auth.users au ON lower(au.email) = lower(a.email)
+    WHERE au.id = ur.user_id
+  );
+
+INSERT INTO public.user_roles (user_id, role)
+SELECT au.id, 'admin'::app_role
+FROM public.admin a
+JOIN auth.users au ON lower(au.email) = lower(a.email)
+ON CONFLICT (user_id, role) DO NOTHING;
+
+-- Everyone is at least a user
+INSERT INTO public.user_roles (user_id, role)
+SELECT au.id, 'user'::app_role
+FROM auth.users au
+ON CONFLICT (user_id, role) DO NOTHING;
+
+-- The caller's roles, through the same has_role check the RLS policies use
+CREATE OR REPLACE FUNCTION public.current_user_roles()
+RETURNS app_role[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(array_agg(r ORDER BY r), '{}')
+  FROM unnest(enum_range(NULL::app_role)) AS r
+  WHERE public.has_role(auth.uid(), r);
+$$;
+
+-- users.is_manager is kept as a read-only mirror of the manager role for existing readers
+CREATE OR REPLACE FUNCTION public.sync_manager_flag()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _row public.user_roles%ROWTYPE;
+  _user_id UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    _row := OLD;
+  ELSE
+    _row := NEW;
+  END IF;
+
+  IF _row.role <> 'manager' THEN
+    RETURN NULL;
+  END IF;
+  _user_id := _row.user_id;
+
+  UPDATE public.users
+  SET is_manager = public.has_role(_user_id, 'manager'),
+      updated_at = now()
+  WHERE user_id = _user_id
+    AND is_manager IS DISTINCT FROM public.has_role(_user_id, 'manager');
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_user_roles_manager_flag
+  AFTER INSERT OR DELETE ON public.user_roles
+  FOR EACH ROW EXECUTE FUNCTION public.sync_manager_flag();
+
+-- Writes to users can't set the mirror to anything but the role
+CREATE OR REPLACE FUNCTION public.enforce_manager_flag()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.is_manager := NEW.user_id IS NOT NULL AND public.has_role(NEW.user_id, 'manager');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_users_manager_flag
+  BEFORE INSERT OR UPDATE OF is_manager, user_id ON public.users
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_manager_flag();
+
+-- Never leave the system without an admin. Removals of admin roles take a transaction lock first,
+-- so two admins revoking each other at the same time can't both pass the check: the second one
+-- waits for the first to commit and then sees one admin fewer. Deleting the last admin's account
+-- cascades here too and is refused the same way, with a message that says so.
+CREATE OR REPLACE FUNCTION public.prevent_last_admin_removal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.role <> 'admin' THEN
+    RETURN OLD;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('public.user_roles admin'));
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_roles WHERE role = 'admin' AND id <> OLD.id
+  ) THEN
+    IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id) THEN
+      RAISE EXCEPTION 'Cannot delete the account of the last admin; make someone else admin first';
+    END IF;
+    RAISE EXCEPTION 'Cannot revoke the last admin';
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER prevent_last_admin_removal
+  BEFORE DELETE ON public.user_roles
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_last_admin_removal();
+
+-- Role changes are logged from user_roles now; the mirror and the old admin table would double up
+DROP TRIGGER IF EXISTS log_manager_role_activity ON public.users;
+DROP TRIGGER IF EXISTS log_admin_activity ON public.admin;
+
+COMMENT ON TABLE public.admin IS 'Deprecated: admin access is the admin role in user_roles. No longer read by the app.';
+
+-- New signups get the user role; managers and admins are granted from the admin dashboard
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  first_name_val text;
+  last_name_val text;
+  full_name_val text;
+BEGIN
+  -- Get the full name from Google OAuth or use email prefix as fallback
+  full_name_val := COALESCE(
+    NEW.raw_user_meta_data ->> 'full_name',
+    NEW.raw_user_meta_data ->> 'name',
+    SPLIT_PART(NEW.email, '@', 1)
+  );
+
+  -- Extract first and last name from full name or individual fields
+  IF NEW.raw_user_meta_data ? 'first_name' THEN
+    first_name_val := NEW.raw_user_meta_data ->> 'first_name';
+    last_name_val := COALESCE(NEW.raw_user_meta_data ->> 'last_name', '');
+  ELSIF NEW.raw_user_meta_data ? 'given_name' THEN
+    first_name_val := NEW.raw_user_meta_data ->> 'given_name';
+    last_name_val := COALESCE(NEW.raw_user_meta_data ->> 'family_name', '');
+  ELSE
+    -- Parse full name for Google OAuth (split on first space)
+    first_name_val := SPLIT_PART(full_name_val, ' ', 1);
+    last_name_val := CASE
+      WHEN position(' ' in full_name_val) > 0 THEN
+        TRIM(SUBSTR(full_name_val, position(' ' in full_name_val) + 1))
+      ELSE
+        ''
+    END;
+  END IF;
+
+  INSERT INTO public.managers (user_id, email, first_name, last_name, domain)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    first_name_val,
+    last_name_val,
+    SPLIT_PART(NEW.email, '@', 2)
+  );
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (NEW.id, 'user')
+  ON CONFLICT (user_id, role) DO NOTHING;
+
+  RETURN NEW;
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Log the error but don't block the signup
+    RAISE LOG 'Error in handle_new_user: %', SQLERRM;
+    RETURN NEW;
+END;
+$$;
@@ -0,0 +1,449 @@
+-- Teams and business units. Managers only see and edit talent and opportunities of the teams they
+-- belong to (plus teams they were granted visibility of); what they may do there is governed by
+-- granular permissions. Rows without a team stay visible to every manager until they are assigned.
+CREATE TABLE public.business_units (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_business_units_name_lower ON public.business_units (lower(name));
+
+CREATE TABLE public.teams (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  business_unit_id UUID REFERENCES public.business_units(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_teams_name_lower ON public.teams (lower(name));
+CREATE INDEX idx_teams_business_unit ON public.teams(business_unit_id);
+
+CREATE TABLE public.team_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(team_id, user_id)
+);
+
+CREATE INDEX idx_team_members_user ON public.team_members(user_id);
+
+-- Read-only access to another team's talent and opportunities
+CREATE TABLE public.team_visibility_grants (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  granted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(team_id, user_id)
+);
+
+CREATE INDEX idx_team_visibility_grants_user ON public.team_visibility_grants(user_id);
+
+ALTER TABLE public.talent_profiles
+  ADD COLUMN IF NOT EXISTS team_id UUID REFERENCES public.teams(id) ON DELETE SET NULL;
+ALTER TABLE public.opportunities
+  ADD COLUMN IF NOT EXISTS team_id UUID REFERENCES public.teams(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_talent_profiles_team ON public.talent_profiles(team_id);
+CREATE INDEX idx_opportunities_team ON public.opportunities(team_id);
+
+-- Granular permissions. Roles carry a default set; individual users can be granted more.
+CREATE TYPE public.app_permission AS ENUM ('view_compensation', 'edit_talent', 'delete_records', 'run_ai_matching');
+
+CREATE TABLE public.role_permissions (
+  role app_role NOT NULL,
+  permission app_permission NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (role, permission)
+);
+
+CREATE TABLE public.user_permissions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  permission app_permission NOT NULL,
+  granted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, permission)
+);
+
+-- Managers keep everything they could do before; admins narrow it from the admin dashboard
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('manager', 'view_compensation'),
+  ('manager', 'edit_talent'),
+  ('manager', 'delete_records'),
+  ('manager', 'run_ai_matching');
+
+-- Budgets move out of opportunities so they can be hidden from people without view_compensation
+CREATE TABLE public.opportunity_budgets (
+  opportunity_id UUID NOT NULL PRIMARY KEY REFERENCES public.opportunities(id) ON DELETE CASCADE,
+  budget_min DECIMAL(10,2),
+  budget_max DECIMAL(10,2),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.opportunity_budgets (opportunity_id, budget_min, budget_max)
+SELECT id, budget_min, budget_max
+FROM public.opportunities
+WHERE budget_min IS NOT NULL OR budget_max IS NOT NULL;
+
+ALTER TABLE public.opportunities
+  DROP COLUMN budget_min,
+  DROP COLUMN budget_max;
+
+-- Access checks. Policies and the app's route guard both go through these.
+CREATE OR REPLACE FUNCTION public.has_permission(_user_id UUID, _permission app_permission)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin')
+    OR EXISTS (
+      SELECT 1
+      FROM public.user_roles ur
+      JOIN public.role_permissions rp ON rp.role = ur.role
+      WHERE ur.user_id = _user_id AND rp.permission = _permission
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.user_permissions
+      WHERE user_id = _user_id AND permission = _permission
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_team_member(_user_id UUID, _team_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.team_members
+    WHERE user_id = _user_id AND team_id = _team_id
+  );
+$$;
+
+-- Managers see their own teams, teams they were granted, and rows not yet assigned to a team
+CREATE OR REPLACE FUNCTION public.can_view_team(_user_id UUID, _team_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin')
+    OR (public.has_role(_user_id, 'manager') AND (
+      _team_id IS NULL
+      OR public.is_team_member(_user_id, _team_id)
+      OR EXISTS (
+        SELECT 1 FROM public.team_visibility_grants
+        WHERE user_id = _user_id AND team_id = _team_id
+      )
+    ));
+$$;
+
+-- Visibility grants are read-only: changes need membership of the team
+CREATE OR REPLACE FUNCTION public.can_manage_team(_user_id UUID, _team_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin')
+    OR (public.has_role(_user_id, 'manager') AND (
+      _team_id IS NULL OR public.is_team_member(_user_id, _team_id)
+    ));
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_edit_talent(_user_id UUID, _talent_profile_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_permission(_user_id, 'edit_talent')
+    AND EXISTS (
+      SELECT 1 FROM public.talent_profiles
+      WHERE id = _talent_profile_id AND public.can_manage_team(_user_id, team_id)
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_view_opportunity(_user_id UUID, _opportunity_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.opportunities
+    WHERE id = _opportunity_id AND public.can_view_team(_user_id, team_id)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_manage_opportunity(_user_id UUID, _opportunity_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.opportunities
+    WHERE id = _opportunity_id AND public.can_manage_team(_user_id, team_id)
+  );
+$$;
+
+-- The caller's permissions, through the same has_permission check the policies use
+CREATE OR REPLACE FUNCTION public.current_user_permissions()
+RETURNS app_permission[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(array_agg(p ORDER BY p), '{}')
+  FROM unnest(enum_range(NULL::app_permission)) AS p
+  WHERE public.has_permission(auth.uid(), p);
+$$;
+
+-- Team administration
+ALTER TABLE public.business_units ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.team_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.team_visibility_grants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.opportunity_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view business units" ON public.business_units
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage business units" ON public.business_units
+  FOR ALL USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Everyone can view teams" ON public.teams
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage teams" ON public.teams
+  FOR ALL USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view their own team memberships" ON public.team_members
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can manage team members" ON public.team_members
+  FOR ALL USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view their own visibility grants" ON public.team_visibility_grants
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can manage visibility grants" ON public.team_visibility_grants
+  FOR ALL USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Everyone can view role permissions" ON public.role_permissions
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage role permissions" ON public.role_permissions
+  FOR ALL USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view their own permissions" ON public.user_permissions
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can manage user permissions" ON public.user_permissions
+  FOR ALL USING (public.has_role(auth.uid(), 'admin'));
+
+-- Talent profiles: team-scoped for managers; talents see themselves, referrers see who they referred
+DROP POLICY IF EXISTS "Everyone can view talent profiles" ON public.talent_profiles;
+DROP POLICY IF EXISTS "Users can manage own talent profiles" ON public.talent_profiles;
+DROP POLICY IF EXISTS "Managers and admins can update talent profiles" ON public.talent_profiles;
+DROP POLICY IF EXISTS "Managers can manage talent profiles they created" ON public.talent_profiles;
+
+CREATE POLICY "Managers can view talent in their teams" ON public.talent_profiles
+  FOR SELECT USING (public.can_view_team(auth.uid(), team_id));
+
+CREATE POLICY "Talents can view their own profile" ON public.talent_profiles
+  FOR SELECT USING (lower(email) = lower(auth.jwt() ->> 'email'));
+
+CREATE POLICY "Users can view talent they referred" ON public.talent_profiles
+  FOR SELECT USING (referred_by IN (SELECT id FROM public.users WHERE user_id = auth.uid()));
+
+CREATE POLICY "Managers can add talent to their teams" ON public.talent_profiles
+  FOR INSERT WITH CHECK (
+    public.has_permission(auth.uid(), 'edit_talent') AND public.can_manage_team(auth.uid(), team_id)
+  );
+
+CREATE POLICY "Users can refer talent" ON public.talent_profiles
+  FOR INSERT WITH CHECK (referred_by IN (SELECT id FROM public.users WHERE user_id = auth.uid()));
+
+CREATE POLICY "Managers can edit talent in their teams" ON public.talent_profiles
+  FOR UPDATE
+  USING (public.has_permission(auth.uid(), 'edit_talent') AND public.can_manage_team(auth.uid(), team_id))
+  WITH CHECK (public.has_permission(auth.uid(), 'edit_talent') AND public.can_manage_team(auth.uid(), team_id));
+
+CREATE POLICY "Talents can edit their own profile" ON public.talent_profiles
+  FOR UPDATE USING (lower(email) = lower(auth.jwt() ->> 'email'));
+
+-- Talents editing their own profile may change their personal details only. Team, status, type,
+-- email and the other columns managers own stay as they are; a trigger does this because policies
+-- can't compare the old row with the new one. Updates made by other triggers (a hire, say) and by
+-- people who can edit the talent anyway are not affected.
+CREATE OR REPLACE FUNCTION public.restrict_talent_self_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _self_editable TEXT[] := ARRAY[
+    'first_name', 'last_name', 'bio', 'location', 'timezone', 'education', 'work_experience',
+    'certifications', 'skills', 'years_experience', 'remote_preference', 'availability_start_date',
+    'avatar_url', 'resume_url', 'linkedin_url', 'github_url', 'portfolio_url', 'updated_at'
+  ];
+BEGIN
+  IF pg_trigger_depth() > 1
+    OR auth.uid() IS NULL
+    OR lower(OLD.email) IS DISTINCT FROM lower(auth.jwt() ->> 'email')
+    OR public.can_edit_talent(auth.uid(), OLD.id)
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF to_jsonb(NEW) - _self_editable IS DISTINCT FROM to_jsonb(OLD) - _self_editable THEN
+    RAISE EXCEPTION 'Talents can only change their own personal details';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER restrict_talent_self_edit
+  BEFORE UPDATE ON public.talent_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.restrict_talent_self_edit();
+
+CREATE POLICY "Managers can delete talent in their teams" ON public.talent_profiles
+  FOR DELETE USING (public.has_permission(auth.uid(), 'delete_records') AND public.can_manage_team(auth.uid(), team_id));
+
+DROP POLICY IF EXISTS "Everyone can view talent skills" ON public.talent_skills;
+DROP POLICY IF EXISTS "Managers can manage talent skills" ON public.talent_skills;
+DROP POLICY IF EXISTS "Users can manage talent skills for profiles they manage" ON public.talent_skills;
+DROP POLICY IF EXISTS "Managers and admins can manage talent skills" ON public.talent_skills;
+
+CREATE POLICY "Talent skills follow talent profile visibility" ON public.talent_skills
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.talent_profiles tp WHERE tp.id = talent_profile_id));
+
+CREATE POLICY "Managers can manage skills of talent they can edit" ON public.talent_skills
+  FOR ALL USING (public.can_edit_talent(auth.uid(), talent_profile_id));
+
+DROP POLICY IF EXISTS "Managers and admins can view talent profile versions" ON public.talent_profile_versions;
+DROP POLICY IF EXISTS "Users can view versions of their own talent profile" ON public.talent_profile_versions;
+
+CREATE POLICY "Versions follow talent profile visibility" ON public.talent_profile_versions
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.talent_profiles tp WHERE tp.id = talent_profile_id));
+
+-- Opportunities: team-scoped for managers; everyone else sees open roles so they can refer people
+DROP POLICY IF EXISTS "Everyone can view opportunities" ON public.opportunities;
+DROP POLICY IF EXISTS "Managers and admins can manage opportunities" ON public.opportunities;
+
+CREATE POLICY "Managers can view opportunities in their teams" ON public.opportunities
+  FOR SELECT USING (public.can_view_team(auth.uid(), team_id));
+
+CREATE POLICY "Users can view open opportunities" ON public.opportunities
+  FOR SELECT USING (
+    status = 'open'
+    AND NOT public.has_role(auth.uid(), 'manager')
+    AND NOT public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Managers can create opportunities in their teams" ON public.opportunities
+  FOR INSERT WITH CHECK (public.can_manage_team(auth.uid(), team_id));
+
+CREATE POLICY "Managers can edit opportunities in their teams" ON public.opportunities
+  FOR UPDATE
+  USING (public.can_manage_team(auth.uid(), team_id))
+  WITH CHECK (public.can_manage_team(auth.uid(), team_id));
+
+CREATE POLICY "Managers can delete opportunities in their teams" ON public.opportunities
+  FOR DELETE USING (public.has_permission(auth.uid(), 'delete_records') AND public.can_manage_team(auth.uid(), team_id));
+
+DROP POLICY IF EXISTS "Everyone can view opportunity skills" ON public.opportunity_skills;
+DROP POLICY IF EXISTS "Managers and admins can manage opportunity skills" ON public.opportunity_skills;
+
+CREATE POLICY "Opportunity skills follow opportunity visibility" ON public.opportunity_skills
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.opportunities o WHERE o.id = opportunity_id));
+
+CREATE POLICY "Managers can manage skills of their teams' opportunities" ON public.opportunity_skills
+  FOR ALL USING (public.can_manage_opportunity(auth.uid(), opportunity_id));
+
+CREATE POLICY "Budgets need compensation access" ON public.opportunity_budgets
+  FOR SELECT USING (
+    public.has_permission(auth.uid(), 'view_compensation')
+    AND public.can_view_opportunity(auth.uid(), opportunity_id)
+  );
+
+CREATE POLICY "Managers can set budgets of their teams' opportunities" ON public.opportunity_budgets
+  FOR ALL USING (
+    public.has_permission(auth.uid(), 'view_compensation')
+    AND public.can_manage_opportunity(auth.uid(), opportunity_id)
+  );
+
+-- Assignments, pipelines and matches follow the opportunity they belong to
+DROP POLICY IF EXISTS "Everyone can view assignments" ON public.assignments;
+DROP POLICY IF EXISTS "Managers and admins can manage assignments" ON public.assignments;
+
+CREATE POLICY "Assignments follow opportunity or talent visibility" ON public.assignments
+  FOR SELECT USING (
+    public.can_view_opportunity(auth.uid(), opportunity_id)
+    OR EXISTS (SELECT 1 FROM public.talent_profiles tp WHERE tp.id = talent_profile_id)
+  );
+
+CREATE POLICY "Managers can manage assignments of their teams' opportunities" ON public.assignments
+  FOR ALL USING (public.can_manage_opportunity(auth.uid(), opportunity_id));
+
+DROP POLICY IF EXISTS "Managers and admins can view candidates" ON public.opportunity_candidates;
+DROP POLICY IF EXISTS "Managers and admins can manage candidates" ON public.opportunity_candidates;
+DROP POLICY IF EXISTS "Managers and admins can view candidate events" ON public.opportunity_candidate_events;
+
+CREATE POLICY "Candidates follow opportunity visibility" ON public.opportunity_candidates
+  FOR SELECT USING (public.can_view_opportunity(auth.uid(), opportunity_id));
+
+CREATE POLICY "Managers can manage candidates of their teams' opportunities" ON public.opportunity_candidates
+  FOR ALL USING (public.can_manage_opportunity(auth.uid(), opportunity_id));
+
+CREATE POLICY "Candidate events follow opportunity visibility" ON public.opportunity_candidate_events
+  FOR SELECT USING (EXISTS (
+    SELECT 1 FROM public.opportunity_candidates c
+    WHERE c.id = candidate_id AND public.can_view_opportunity(auth.uid(), c.opportunity_id)
+  ));
+
+DROP POLICY IF EXISTS "Everyone can view matches" ON public.matches;
+DROP POLICY IF EXISTS "System can create matches" ON public.matches;
+
+CREATE POLICY "Matches follow opportunity visibility" ON public.matches
+  FOR SELECT USING (public.can_view_opportunity(auth.uid(), opportunity_id));
+
+CREATE POLICY "Users who can run matching can save matches" ON public.matches
+  FOR INSERT WITH CHECK (
+    public.has_permission(auth.uid(), 'run_ai_matching')
+    AND public.can_view_opportunity(auth.uid(), opportunity_id)
+  );
+
+CREATE TRIGGER update_business_units_updated_at
+  BEFORE UPDATE ON public.business_units
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_teams_updated_at
+  BEFORE UPDATE ON public.teams
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_opportunity_budgets_updated_at
+  BEFORE UPDATE ON public.opportunity_budgets
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,3 @@
+-- Organization administrators manage users, teams and permissions inside their own organization.
+-- Added on its own: a new enum value can't be used in the transaction that adds it.
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'org_admin';
@@ -0,0 +1,845 @@
+-- Organizations (tenants). Every user belongs to exactly one organization, picked by email domain
+-- when they sign up; talent, opportunities and everything hanging off them belong to one too.
+-- Restrictive "Tenant isolation" policies keep each organization's data to its own members on top of
+-- the existing role, team and permission policies. Global admins operate the deployment and see
+-- every organization and appoint org admins, who administer only their own. Nobody becomes an org
+-- admin by signing up first.
+CREATE TABLE public.organizations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  -- NULL for personal workspaces of people signing up with a public email provider
+  domain TEXT UNIQUE CHECK (domain = lower(domain)),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.organization_members (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_organization_members_organization ON public.organization_members(organization_id);
+
+-- Tenant-owned roots. Child tables (skills, projects, candidates, budgets, ...) follow their parent.
+-- Rows that can't be attributed to an organization stay NULL and are only visible to global admins.
+ALTER TABLE public.talent_profiles
+  ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.opportunities
+  ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.teams
+  ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.business_units
+  ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.activity_feed
+  ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_talent_profiles_organization ON public.talent_profiles(organization_id);
+CREATE INDEX idx_opportunities_organization ON public.opportunities(organization_id);
+CREATE INDEX idx_teams_organization ON public.teams(organization_id);
+CREATE INDEX idx_business_units_organization ON public.business_units(organization_id);
+CREATE INDEX idx_activity_feed_organization ON public.activity_feed(organization_id, created_at DESC);
+
+-- Names only have to be unique within an organization
+DROP INDEX IF EXISTS public.idx_teams_name_lower;
+DROP INDEX IF EXISTS public.idx_business_units_name_lower;
+CREATE UNIQUE INDEX idx_teams_name_lower ON public.teams (organization_id, lower(name));
+CREATE UNIQUE INDEX idx_business_units_name_lower ON public.business_units (organization_id, lower(name));
+
+-- Cached AI scores embed candidate details, so each organization keeps its own cache
+DELETE FROM public.ai_match_cache;
+ALTER TABLE public.ai_match_cache
+  ADD COLUMN organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  DROP CONSTRAINT ai_match_cache_pkey,
+  ADD PRIMARY KEY (organization_id, content_hash);
+
+-- Addresses at these providers say nothing about the employer
+CREATE OR REPLACE FUNCTION public.is_public_email_domain(_domain TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT lower(_domain) = ANY (ARRAY[
+    'gmail.com', 'googlemail.com', 'outlook.com', 'hotmail.com', 'live.com', 'msn.com',
+    'yahoo.com', 'icloud.com', 'me.com', 'aol.com', 'proton.me', 'protonmail.com', 'gmx.com'
+  ]);
+$$;
+
+-- The organization for a new user's email: the one owning its domain (created on first use), or a
+-- personal workspace for public email providers so unrelated people never share a tenant
+CREATE OR REPLACE FUNCTION public.resolve_organization(_email TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _domain TEXT := lower(split_part(_email, '@', 2));
+  _organization_id UUID;
+BEGIN
+  IF _domain = '' OR public.is_public_email_domain(_domain) THEN
+    INSERT INTO public.organizations (name) VALUES (_email) RETURNING id INTO _organization_id;
+    RETURN _organization_id;
+  END IF;
+
+  INSERT INTO public.organizations (name, domain)
+  VALUES (_domain, _domain)
+  ON CONFLICT (domain) DO NOTHING
+  RETURNING id INTO _organization_id;
+
+  IF _organization_id IS NULL THEN
+    SELECT id INTO _organization_id FROM public.organizations WHERE domain = _domain;
+  END IF;
+
+  RETURN _organization_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.current_organization_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT organization_id FROM public.organization_members WHERE user_id = auth.uid();
+$$;
+
+-- Global admins belong to every organization as far as access is concerned
+CREATE OR REPLACE FUNCTION public.is_org_member(_user_id UUID, _organization_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin')
+    OR EXISTS (
+      SELECT 1 FROM public.organization_members
+      WHERE user_id = _user_id AND organization_id = _organization_id
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.shares_organization(_user_id UUID, _other_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin')
+    OR EXISTS (
+      SELECT 1
+      FROM public.organization_members mine
+      JOIN public.organization_members theirs ON theirs.organization_id = mine.organization_id
+      WHERE mine.user_id = _user_id AND theirs.user_id = _other_user_id
+    );
+$$;
+
+-- Admin rights inside the caller's organization; the tenant policies keep them there
+CREATE OR REPLACE FUNCTION public.is_org_admin(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin') OR public.has_role(_user_id, 'org_admin');
+$$;
+
+CREATE OR REPLACE FUNCTION public.talent_profile_organization(_talent_profile_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT organization_id FROM public.talent_profiles WHERE id = _talent_profile_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.opportunity_organization(_opportunity_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT organization_id FROM public.opportunities WHERE id = _opportunity_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.team_organization(_team_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT organization_id FROM public.teams WHERE id = _team_id;
+$$;
+
+-- Existing users join the organization of their email domain
+DO $$
+DECLARE
+  _user RECORD;
+BEGIN
+  FOR _user IN
+    SELECT u.id, u.email
+    FROM auth.users u
+    WHERE NOT EXISTS (SELECT 1 FROM public.organization_members m WHERE m.user_id = u.id)
+    ORDER BY u.created_at
+  LOOP
+    INSERT INTO public.organization_members (user_id, organization_id)
+    VALUES (_user.id, public.resolve_organization(_user.email));
+  END LOOP;
+END;
+$$;
+
+-- Existing data goes to the organization of whoever created it. A deployment that only ever had one
+-- organization can safely put everything left over there.
+UPDATE public.opportunities o
+SET organization_id = m.organization_id
+FROM public.organization_members m
+WHERE o.organization_id IS NULL AND m.user_id = o.created_by;
+
+UPDATE public.talent_profiles t
+SET organization_id = m.organization_id
+FROM public.organization_members m
+WHERE t.organization_id IS NULL AND m.user_id = t.manager_id;
+
+UPDATE public.talent_profiles t
+SET organization_id = m.organization_id
+FROM public.users u
+JOIN public.organization_members m ON m.user_id = u.user_id
+WHERE t.organization_id IS NULL AND u.id = t.referred_by;
+
+UPDATE public.teams t
+SET organization_id = (
+  SELECT m.organization_id
+  FROM public.team_members tm
+  JOIN public.organization_members m ON m.user_id = tm.user_id
+  WHERE tm.team_id = t.id
+  GROUP BY m.organization_id
+  ORDER BY count(*) DESC
+  LIMIT 1
+)
+WHERE t.organization_id IS NULL;
+
+UPDATE public.business_units b
+SET organization_id = (
+  SELECT t.organization_id FROM public.teams t
+  WHERE t.business_unit_id = b.id AND t.organization_id IS NOT NULL
+  LIMIT 1
+)
+WHERE b.organization_id IS NULL;
+
+DO $$
+DECLARE
+  _only UUID;
+BEGIN
+  IF (SELECT count(*) FROM public.organizations) = 1 THEN
+    SELECT id INTO _only FROM public.organizations;
+    UPDATE public.talent_profiles SET organization_id = _only WHERE organization_id IS NULL;
+    UPDATE public.opportunities SET organization_id = _only WHERE organization_id IS NULL;
+    UPDATE public.teams SET organization_id = _only WHERE organization_id IS NULL;
+    UPDATE public.business_units SET organization_id = _only WHERE organization_id IS NULL;
+  END IF;
+END;
+$$;
+
+UPDATE public.activity_feed a
+SET organization_id = coalesce(
+  CASE a.entity_type
+    WHEN 'talent' THEN (SELECT organization_id FROM public.talent_profiles WHERE id = a.entity_id)
+    WHEN 'opportunity' THEN (SELECT organization_id FROM public.opportunities WHERE id = a.entity_id)
+  END,
+  (SELECT organization_id FROM public.organization_members WHERE user_id = a.user_id)
+)
+WHERE a.organization_id IS NULL;
+
+-- New rows land in the creator's organization unless one is given
+ALTER TABLE public.talent_profiles ALTER COLUMN organization_id SET DEFAULT public.current_organization_id();
+ALTER TABLE public.opportunities ALTER COLUMN organization_id SET DEFAULT public.current_organization_id();
+ALTER TABLE public.teams ALTER COLUMN organization_id SET DEFAULT public.current_organization_id();
+ALTER TABLE public.business_units ALTER COLUMN organization_id SET DEFAULT public.current_organization_id();
+ALTER TABLE public.ai_match_cache ALTER COLUMN organization_id SET DEFAULT public.current_organization_id();
+
+-- Activity belongs with the entity it describes; deleted entities fall back to the actor's organization
+CREATE OR REPLACE FUNCTION public.set_activity_organization()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.organization_id IS NULL THEN
+    NEW.organization_id := coalesce(
+      CASE NEW.entity_type
+        WHEN 'talent' THEN public.talent_profile_organization(NEW.entity_id)
+        WHEN 'opportunity' THEN public.opportunity_organization(NEW.entity_id)
+        WHEN 'assignment' THEN (
+          SELECT o.organization_id FROM public.assignments a
+          JOIN public.opportunities o ON o.id = a.opportunity_id
+          WHERE a.id = NEW.entity_id)
+        WHEN 'project' THEN public.talent_profile_organization((NEW.metadata ->> 'talent_profile_id')::uuid)
+        WHEN 'role' THEN (
+          SELECT m.organization_id FROM public.user_roles r
+          JOIN public.organization_members m ON m.user_id = r.user_id
+          WHERE r.id = NEW.entity_id)
+      END,
+      (SELECT organization_id FROM public.organization_members WHERE user_id = NEW.user_id)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_activity_feed_organization
+  BEFORE INSERT ON public.activity_feed
+  FOR EACH ROW EXECUTE FUNCTION public.set_activity_organization();
+
+-- Only global admins may point an organization at a different email domain
+CREATE OR REPLACE FUNCTION public.protect_organization_domain()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.domain IS DISTINCT FROM OLD.domain AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change an organization''s domain';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_organizations_domain
+  BEFORE UPDATE OF domain ON public.organizations
+  FOR EACH ROW EXECUTE FUNCTION public.protect_organization_domain();
+
+CREATE TRIGGER update_organizations_updated_at
+  BEFORE UPDATE ON public.organizations
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Org admins get admin rights in their organization. The checks below run as SECURITY DEFINER
+-- without RLS, so the ones that look at a row also check its organization.
+CREATE OR REPLACE FUNCTION public.has_permission(_user_id UUID, _permission app_permission)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_org_admin(_user_id)
+    OR EXISTS (
+      SELECT 1
+      FROM public.user_roles ur
+      JOIN public.role_permissions rp ON rp.role = ur.role
+      WHERE ur.user_id = _user_id AND rp.permission = _permission
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.user_permissions
+      WHERE user_id = _user_id AND permission = _permission
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_view_team(_user_id UUID, _team_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_org_admin(_user_id)
+    OR (public.has_role(_user_id, 'manager') AND (
+      _team_id IS NULL
+      OR public.is_team_member(_user_id, _team_id)
+      OR EXISTS (
+        SELECT 1 FROM public.team_visibility_grants
+        WHERE user_id = _user_id AND team_id = _team_id
+      )
+    ));
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_manage_team(_user_id UUID, _team_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_org_admin(_user_id)
+    OR (public.has_role(_user_id, 'manager') AND (
+      _team_id IS NULL OR public.is_team_member(_user_id, _team_id)
+    ));
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_edit_talent(_user_id UUID, _talent_profile_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_permission(_user_id, 'edit_talent')
+    AND EXISTS (
+      SELECT 1 FROM public.talent_profiles
+      WHERE id = _talent_profile_id
+        AND public.is_org_member(_user_id, organization_id)
+        AND public.can_manage_team(_user_id, team_id)
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_view_opportunity(_user_id UUID, _opportunity_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.opportunities
+    WHERE id = _opportunity_id
+      AND public.is_org_member(_user_id, organization_id)
+      AND public.can_view_team(_user_id, team_id)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_manage_opportunity(_user_id UUID, _opportunity_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.opportunities
+    WHERE id = _opportunity_id
+      AND public.is_org_member(_user_id, organization_id)
+      AND public.can_manage_team(_user_id, team_id)
+  );
+$$;
+
+-- Restores bypass RLS, so they use the same team and organization checks
+CREATE OR REPLACE FUNCTION public.restore_talent_profile_version(_version_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _version public.talent_profile_versions%ROWTYPE;
+  _profile public.talent_profiles%ROWTYPE;
+BEGIN
+  SELECT * INTO _version FROM public.talent_profile_versions WHERE id = _version_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Version % not found', _version_id;
+  END IF;
+
+  IF NOT public.can_edit_talent(auth.uid(), _version.talent_profile_id) THEN
+    RAISE EXCEPTION 'Not allowed to restore versions of this talent profile';
+  END IF;
+
+  SELECT * INTO _profile
+  FROM jsonb_populate_record(NULL::public.talent_profiles, _version.snapshot -> 'profile');
+
+  UPDATE public.talent_profiles
+  SET first_name = _profile.first_name,
+      last_name = _profile.last_name,
+      email = _profile.email,
+      talent_type = _profile.talent_type,
+      talent_role = _profile.talent_role,
+      bio = _profile.bio,
+      skills = _profile.skills,
+      source = _profile.source,
+      location = _profile.location,
+      timezone = _profile.timezone,
+      years_experience = _profile.years_experience,
+      remote_preference = _profile.remote_preference,
+      availability_start_date = _profile.availability_start_date,
+      prospect_status = _profile.prospect_status,
+      linkedin_url = _profile.linkedin_url,
+      github_url = _profile.github_url,
+      portfolio_url = _profile.portfolio_url,
+      resume_url = _profile.resume_url,
+      avatar_url = _profile.avatar_url,
+      education = _profile.education,
+      certifications = _profile.certifications,
+      work_experience = _profile.work_experience,
+      updated_at = now()
+  WHERE id = _version.talent_profile_id;
+
+  DELETE FROM public.talent_skills WHERE talent_profile_id = _version.talent_profile_id;
+  INSERT INTO public.talent_skills (talent_profile_id, skill_id, proficiency_level, years_experience)
+  SELECT _version.talent_profile_id, link.skill_id, link.proficiency_level, link.years_experience
+  FROM jsonb_to_recordset(_version.snapshot -> 'skill_links')
+    AS link(skill_id UUID, proficiency_level INTEGER, years_experience INTEGER)
+  -- Skills deleted from the catalog since cannot be restored
+  WHERE EXISTS (SELECT 1 FROM public.skills WHERE id = link.skill_id);
+
+  DELETE FROM public.employee_projects WHERE talent_profile_id = _version.talent_profile_id;
+  INSERT INTO public.employee_projects (talent_profile_id, project_name, reporting_manager, utilization_percentage, start_date, release_date)
+  SELECT _version.talent_profile_id, project.project_name, project.reporting_manager, project.utilization_percentage,
+         project.start_date, project.release_date
+  FROM jsonb_to_recordset(_version.snapshot -> 'projects')
+    AS project(project_name TEXT, reporting_manager TEXT, utilization_percentage INTEGER, start_date DATE, release_date DATE);
+
+  RETURN public.record_talent_profile_version(_version.talent_profile_id, 'restore', _version_id);
+END;
+$$;
+
+-- New signups are placed in their organization before anything else
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  first_name_val text;
+  last_name_val text;
+  full_name_val text;
+  organization_id_val uuid;
+BEGIN
+  -- Join the organization of the email domain
+  organization_id_val := public.resolve_organization(NEW.email);
+
+  INSERT INTO public.organization_members (user_id, organization_id)
+  VALUES (NEW.id, organization_id_val)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  -- Get the full name from Google OAuth or use email prefix as fallback
+  full_name_val := COALESCE(
+    NEW.raw_user_meta_data ->> 'full_name',
+    NEW.raw_user_meta_data ->> 'name',
+    SPLIT_PART(NEW.email, '@', 1)
+  );
+
+  -- Extract first and last name from full name or individual fields
+  IF NEW.raw_user_meta_data ? 'first_name' THEN
+    first_name_val := NEW.raw_user_meta_data ->> 'first_name';
+    last_name_val := COALESCE(NEW.raw_user_meta_data ->> 'last_name', '');
+  ELSIF NEW.raw_user_meta_data ? 'given_name' THEN
+    first_name_val := NEW.raw_user_meta_data ->> 'given_name';
+    last_name_val := COALESCE(NEW.raw_user_meta_data ->> 'family_name', '');
+  ELSE
+    -- Parse full name for Google OAuth (split on first space)
+    first_name_val := SPLIT_PART(full_name_val, ' ', 1);
+    last_name_val := CASE
+      WHEN position(' ' in full_name_val) > 0 THEN
+        TRIM(SUBSTR(full_name_val, position(' ' in full_name_val) + 1))
+      ELSE
+        ''
+    END;
+  END IF;
+
+  INSERT INTO public.managers (user_id, email, first_name, last_name, domain)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    first_name_val,
+    last_name_val,
+    SPLIT_PART(NEW.email, '@', 2)
+  );
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (NEW.id, 'user')
+  ON CONFLICT (user_id, role) DO NOTHING;
+
+  RETURN NEW;
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Log the error but don't block the signup
+    RAISE LOG 'Error in handle_new_user: %', SQLERRM;
+    RETURN NEW;
+END;
+$$;
+
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organization" ON public.organizations
+  FOR SELECT USING (public.is_org_member(auth.uid(), id));
+
+CREATE POLICY "Admins can manage organizations" ON public.organizations
+  FOR ALL USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Org admins can update their organization" ON public.organizations
+  FOR UPDATE USING (public.has_role(auth.uid(), 'org_admin') AND public.is_org_member(auth.uid(), id))
+  WITH CHECK (public.has_role(auth.uid(), 'org_admin') AND public.is_org_member(auth.uid(), id));
+
+CREATE POLICY "Members can view members of their organization" ON public.organization_members
+  FOR SELECT USING (public.is_org_member(auth.uid(), organization_id));
+
+CREATE POLICY "Admins can manage organization members" ON public.organization_members
+  FOR ALL USING (public.has_role(auth.uid(), 'admin'));
+
+-- Org admins take over the team and permission administration of their organization
+DROP POLICY IF EXISTS "Admins can manage business units" ON public.business_units;
+CREATE POLICY "Org admins can manage business units" ON public.business_units
+  FOR ALL USING (public.is_org_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admins can manage teams" ON public.teams;
+CREATE POLICY "Org admins can manage teams" ON public.teams
+  FOR ALL USING (public.is_org_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admins can manage team members" ON public.team_members;
+CREATE POLICY "Org admins can manage team members" ON public.team_members
+  FOR ALL USING (public.is_org_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admins can manage visibility grants" ON public.team_visibility_grants;
+CREATE POLICY "Org admins can manage visibility grants" ON public.team_visibility_grants
+  FOR ALL USING (public.is_org_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admins can manage user permissions" ON public.user_permissions;
+CREATE POLICY "Org admins can manage user permissions" ON public.user_permissions
+  FOR ALL USING (public.is_org_admin(auth.uid()));
+
+-- Global admin stays a deployment-level role that org admins can't hand out
+CREATE POLICY "Org admins can manage roles in their organization" ON public.user_roles
+  FOR ALL USING (public.has_role(auth.uid(), 'org_admin') AND role <> 'admin')
+  WITH CHECK (public.has_role(auth.uid(), 'org_admin') AND role <> 'admin');
+
+CREATE POLICY "Org admins can view llm usage" ON public.llm_usage_log
+  FOR SELECT USING (public.has_role(auth.uid(), 'org_admin'));
+
+-- Tables that never had policies in a migration get explicit ones before tenant isolation applies
+ALTER TABLE public.users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.employee_projects ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_preferences ENABLE ROW LEVEL SECURITY;
+-- Deprecated, only reachable with the service role
+ALTER TABLE public.admin ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view users of their organization" ON public.users;
+CREATE POLICY "Users can view users of their organization" ON public.users
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Users can create their own user record" ON public.users;
+CREATE POLICY "Users can create their own user record" ON public.users
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update their own user record" ON public.users;
+CREATE POLICY "Users can update their own user record" ON public.users
+  FOR UPDATE USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Org admins can manage users" ON public.users;
+CREATE POLICY "Org admins can manage users" ON public.users
+  FOR ALL USING (public.is_org_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Projects follow talent profile visibility" ON public.employee_projects;
+CREATE POLICY "Projects follow talent profile visibility" ON public.employee_projects
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.talent_profiles tp WHERE tp.id = talent_profile_id));
+
+DROP POLICY IF EXISTS "Managers can manage projects of talent they can edit" ON public.employee_projects;
+CREATE POLICY "Managers can manage projects of talent they can edit" ON public.employee_projects
+  FOR ALL USING (public.can_edit_talent(auth.uid(), talent_profile_id));
+
+DROP POLICY IF EXISTS "Users can manage their own preferences" ON public.user_preferences;
+CREATE POLICY "Users can manage their own preferences" ON public.user_preferences
+  FOR ALL USING (user_id = auth.uid());
+
+-- The skill catalog and its aliases are shared by every organization, so only global admins edit them
+DROP POLICY IF EXISTS "Managers can manage skills" ON public.skills;
+DROP POLICY IF EXISTS "Managers and admins can manage skill aliases" ON public.skill_aliases;
+CREATE POLICY "Admins can manage skill aliases" ON public.skill_aliases
+  FOR ALL USING (public.has_role(auth.uid(), 'admin'));
+
+-- Mapping free-text skills writes talent_skills and talent_profiles without RLS, so it only touches
+-- the caller's organization
+CREATE OR REPLACE FUNCTION public.map_legacy_skills()
+RETURNS TABLE (
+  profiles_processed INTEGER,
+  skills_mapped INTEGER,
+  unmapped_skills INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _org UUID := public.current_organization_id();
+  _profiles INTEGER := 0;
+  _mapped INTEGER := 0;
+  _unmapped INTEGER := 0;
+  _inserted INTEGER;
+  profile RECORD;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'manager') OR public.is_org_admin(auth.uid())) THEN
+    RAISE EXCEPTION 'Only managers and admins can map legacy skills';
+  END IF;
+
+  FOR profile IN
+    SELECT tp.id, tp.skills
+    FROM public.talent_profiles tp
+    WHERE tp.organization_id = _org
+      AND tp.skills IS NOT NULL AND array_length(tp.skills, 1) > 0
+  LOOP
+    _profiles := _profiles + 1;
+
+    INSERT INTO public.talent_skills (talent_profile_id, skill_id, proficiency_level)
+    SELECT DISTINCT profile.id, public.resolve_skill(raw.name), 3
+    FROM unnest(profile.skills) AS raw(name)
+    WHERE public.resolve_skill(raw.name) IS NOT NULL
+    ON CONFLICT (talent_profile_id, skill_id) DO NOTHING;
+
+    GET DIAGNOSTICS _inserted = ROW_COUNT;
+    _mapped := _mapped + _inserted;
+
+    _unmapped := _unmapped + (
+      SELECT COUNT(*)
+      FROM unnest(profile.skills) AS raw(name)
+      WHERE btrim(raw.name) <> '' AND public.resolve_skill(raw.name) IS NULL
+    );
+
+    UPDATE public.talent_profiles
+    SET skills = (
+      SELECT COALESCE(array_agg(canonical ORDER BY first_ord), '{}')
+      FROM (
+        SELECT canonical, MIN(ord) AS first_ord
+        FROM (
+          SELECT COALESCE(s.name, btrim(raw.name)) AS canonical, raw.ord
+          FROM unnest(profile.skills) WITH ORDINALITY AS raw(name, ord)
+          LEFT JOIN public.skills s ON s.id = public.resolve_skill(raw.name)
+          WHERE btrim(raw.name) <> ''
+        ) resolved
+        GROUP BY canonical
+      ) deduped
+    )
+    WHERE id = profile.id;
+  END LOOP;
+
+  RETURN QUERY SELECT _profiles, _mapped, _unmapped;
+END;
+$$;
+
+-- Tenant isolation. Restrictive policies are ANDed with every permissive policy above, so nothing
+-- else needs to know about organizations. Pipeline stages and role defaults are shared reference
+-- data and only editable by global admins and managers as before.
+CREATE POLICY "Tenant isolation" ON public.talent_profiles AS RESTRICTIVE
+  FOR ALL USING (public.is_org_member(auth.uid(), organization_id))
+  WITH CHECK (public.is_org_member(auth.uid(), organization_id));
+
+CREATE POLICY "Tenant isolation" ON public.opportunities AS RESTRICTIVE
+  FOR ALL USING (public.is_org_member(auth.uid(), organization_id))
+  WITH CHECK (public.is_org_member(auth.uid(), organization_id));
+
+CREATE POLICY "Tenant isolation" ON public.teams AS RESTRICTIVE
+  FOR ALL USING (public.is_org_member(auth.uid(), organization_id))
+  WITH CHECK (public.is_org_member(auth.uid(), organization_id));
+
+CREATE POLICY "Tenant isolation" ON public.business_units AS RESTRICTIVE
+  FOR ALL USING (public.is_org_member(auth.uid(), organization_id))
+  WITH CHECK (public.is_org_member(auth.uid(), organization_id));
+
+CREATE POLICY "Tenant isolation" ON public.activity_feed AS RESTRICTIVE
+  FOR ALL USING (public.is_org_member(auth.uid(), organization_id))
+  WITH CHECK (public.is_org_member(auth.uid(), organization_id));
+
+CREATE POLICY "Tenant isolation" ON public.ai_match_cache AS RESTRICTIVE
+  FOR ALL USING (public.is_org_member(auth.uid(), organization_id))
+  WITH CHECK (public.is_org_member(auth.uid(), organization_id));
+
+CREATE POLICY "Tenant isolation" ON public.talent_skills AS RESTRICTIVE
+  FOR ALL USING (public.is_org_member(auth.uid(), public.talent_profile_organization(talent_profile_id)))
+  WITH CHECK (public.is_org_member(auth.uid(), public.talent_profile_organization(talent_profile_id)));
+
+CREATE POLICY "Tenant isolation" ON public.employee_projects AS RESTRICTIVE
+  FOR ALL USING (public.is_org_member(auth.uid(), public.talent_profile_organization(talent_profile_id)))
+  WITH CHECK (public.is_org_member(auth.uid(), public.talent_profile_organization(talent_profile_id)));
+
+CREATE POLICY "Tenant isolation" ON public.talent_embeddings AS RESTRICTIVE
+  FOR ALL USING (public.is_org_member(auth.uid(), public.talent_profile_organization(talent_profile_id)))
+  WITH CHECK (public.is_org_member(auth.uid(), public.talent_profile_organization(talent_profile_id)));
+
+CREATE POLICY "Tenant isolation" ON public.talent_profile_versions AS RESTRICTIVE
+  FOR ALL USING (public.is_org_member(auth.uid(), public.talent_profile_organization(talent_profile_id)))
+  WITH CHECK (public.is_org_member(auth.uid(), public.talent_profile_organization(talent_profile_id)));
+
+CREATE POLICY "Tenant isolation" ON public.opportunity_skills AS RESTRICTIVE
+  FOR ALL USING (public.is_org_member(auth.uid(), public.opportunity_organization(opportunity_id)))
+  WITH CHECK (public.is_org_member(auth.uid(), public.opportunity_organization(opportunity_id)));
+
+CREATE POLICY "Tenant isolation" ON public.opportunity_budgets AS RESTRICTIVE
+  FOR ALL USING (public.is_org_member(auth.uid(), public.opportunity_organization(opportunity_id)))
+  WITH CHECK (public.is_org_member(auth.uid(), public.opportunity_organization(opportunity_id)));
+
+CREATE POLICY "Tenant isolation" ON public.opportunity_embeddings AS RESTRICTIVE
+  FOR ALL USING (public.is_org_member(auth.uid(), public.opportunity_organization(opportunity_id)))
+  WITH CHECK (public.is_org_member(auth.uid(), public.opportunity_organization(opportunity_id)));
+
+-- Rows linking talent to an opportunity need both in the caller's organization
+CREATE POLICY "Tenant isolation" ON public.opportunity_candidates AS RESTRICTIVE
+  FOR ALL USING (public.is_org_member(auth.uid(), public.opportunity_organization(opportunity_id)))
+  WITH CHECK (
+    public.is_org_member(auth.uid(), public.opportunity_organization(opportunity_id))
+    AND public.is_org_member(auth.uid(), public.talent_profile_organization(talent_profile_id))
+  );
+
+CREATE POLICY "Tenant isolation" ON public.assignments AS RESTRICTIVE
+  FOR ALL USING (public.is_org_member(auth.uid(), public.opportunity_organization(opportunity_id)))
+  WITH CHECK (
+    public.is_org_member(auth.uid(), public.opportunity_organization(opportunity_id))
+    AND public.is_org_member(auth.uid(), public.talent_profile_organization(talent_profile_id))
+  );
+
+CREATE POLICY "Tenant isolation" ON public.matches AS RESTRICTIVE
+  FOR ALL USING (public.is_org_member(auth.uid(), public.opportunity_organization(opportunity_id)))
+  WITH CHECK (
+    public.is_org_member(auth.uid(), public.opportunity_organization(opportunity_id))
+    AND public.is_org_member(auth.uid(), public.talent_profile_organization(talent_profile_id))
+  );
+
+CREATE POLICY "Tenant isolation" ON public.opportunity_candidate_events AS RESTRICTIVE
+  FOR ALL USING (EXISTS (
+    SELECT 1 FROM public.opportunity_candidates c
+    WHERE c.id = candidate_id
+      AND public.is_org_member(auth.uid(), public.opportunity_organization(c.opportunity_id))
+  ));
+
+CREATE POLICY "Tenant isolation" ON public.match_feedback AS RESTRICTIVE
+  FOR ALL USING (EXISTS (
+    SELECT 1 FROM public.matches m
+    WHERE m.id = match_id
+      AND public.is_org_member(auth.uid(), public.opportunity_organization(m.opportunity_id))
+  ));
+
+CREATE POLICY "Tenant isolation" ON public.team_members AS RESTRICTIVE
+  FOR ALL USING (public.is_org_member(auth.uid(), public.team_organization(team_id)))
+  WITH CHECK (
+    public.is_org_member(auth.uid(), public.team_organization(team_id))
+    AND public.shares_organization(auth.uid(), user_id)
+  );
+
+CREATE POLICY "Tenant isolation" ON public.team_visibility_grants AS RESTRICTIVE
+  FOR ALL USING (public.is_org_member(auth.uid(), public.team_organization(team_id)))
+  WITH CHECK (
+    public.is_org_member(auth.uid(), public.team_organization(team_id))
+    AND public.shares_organization(auth.uid(), user_id)
+  );
+
+CREATE POLICY "Tenant isolation" ON public.users AS RESTRICTIVE
+  FOR ALL USING (public.shares_organization(auth.uid(), user_id))
+  WITH CHECK (public.shares_organization(auth.uid(), user_id));
+
+CREATE POLICY "Tenant isolation" ON public.profiles AS RESTRICTIVE
+  FOR ALL USING (public.shares_organization(auth.uid(), user_id))
+  WITH CHECK (public.shares_organization(auth.uid(), user_id));
+
+CREATE POLICY "Tenant isolation" ON public.managers AS RESTRICTIVE
+  FOR ALL USING (public.shares_organization(auth.uid(), user_id))
+  WITH CHECK (public.shares_organization(auth.uid(), user_id));
+
+CREATE POLICY "Tenant isolation" ON public.user_roles AS RESTRICTIVE
+  FOR ALL USING (public.shares_organization(auth.uid(), user_id))
+  WITH CHECK (public.shares_organization(auth.uid(), user_id));
+
+CREATE POLICY "Tenant isolation" ON public.user_permissions AS RESTRICTIVE
+  FOR ALL USING (public.shares_organization(auth.uid(), user_id))
+  WITH CHECK (public.shares_organization(auth.uid(), user_id));
+
+CREATE POLICY "Tenant isolation" ON public.user_preferences AS RESTRICTIVE
+  FOR ALL USING (public.shares_organization(auth.uid(), user_id))
+  WITH CHECK (public.shares_organization(auth.uid(), user_id));
+
+CREATE POLICY "Tenant isolation" ON public.llm_usage_log AS RESTRICTIVE
+  FOR ALL USING (public.shares_organization(auth.uid(), user_id))
+  WITH CHECK (public.shares_organization(auth.uid(), user_id));
@@ -0,0 +1,3 @@
+-- Lets managers (and anyone granted it) invite people into the organization.
+-- Added on its own: a new enum value can't be used in the transaction that adds it.
+ALTER TYPE public.app_permission ADD VALUE IF NOT EXISTS 'invite_users';
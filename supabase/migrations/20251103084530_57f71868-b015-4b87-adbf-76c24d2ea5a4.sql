@@ -0,0 +1,360 @@
+-- Invitation-based onboarding. Anyone with the invite_users permission (managers by default, org
+-- admins always) invites an email address into their organization with a role and optionally a
+-- team. The invitation link carries a random token and expires; signing up or signing in through
+-- it puts the account in the organization with that role and team.
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('manager', 'invite_users')
+ON CONFLICT (role, permission) DO NOTHING;
+
+CREATE TABLE public.invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL DEFAULT public.current_organization_id()
+    REFERENCES public.organizations(id) ON DELETE CASCADE,
+  email TEXT NOT NULL CHECK (email = lower(email)),
+  role app_role NOT NULL DEFAULT 'user',
+  team_id UUID REFERENCES public.teams(id) ON DELETE SET NULL,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  invited_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + INTERVAL '7 days',
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One open invitation per address and organization; expired ones are resent rather than duplicated
+CREATE UNIQUE INDEX idx_invitations_open_email
+  ON public.invitations (organization_id, email) WHERE accepted_at IS NULL;
+CREATE INDEX idx_invitations_email ON public.invitations (email);
+
+-- Deployment-wide signup rules, a single row. Invited addresses can always sign up.
+CREATE TABLE public.signup_settings (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  self_signup_enabled BOOLEAN NOT NULL DEFAULT true,
+  -- Empty means any domain
+  allowed_domains TEXT[] NOT NULL DEFAULT '{}',
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.signup_settings DEFAULT VALUES;
+
+CREATE TRIGGER update_signup_settings_updated_at
+  BEFORE UPDATE ON public.signup_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The open, unexpired invitation for an address. A matching token wins when the same address has
+-- been invited by several organizations.
+CREATE OR REPLACE FUNCTION public.pending_invitation(_email TEXT, _token TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM public.invitations
+  WHERE email = lower(_email)
+    AND accepted_at IS NULL
+    AND expires_at > now()
+  ORDER BY (token = _token) IS TRUE DESC, created_at DESC
+  LIMIT 1;
+$$;
+
+-- Put a user in the invitation's organization with its role and team. Moving from another
+-- organization (typically a personal workspace) drops what they held there.
+CREATE OR REPLACE FUNCTION public.apply_invitation(_invitation_id UUID, _user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invitation public.invitations;
+  _previous_organization_id UUID;
+BEGIN
+  SELECT * INTO _invitation FROM public.invitations WHERE id = _invitation_id FOR UPDATE;
+
+  SELECT organization_id INTO _previous_organization_id
+  FROM public.organization_members WHERE user_id = _user_id;
+
+  IF _previous_organization_id IS DISTINCT FROM _invitation.organization_id THEN
+    IF _previous_organization_id IS NOT NULL THEN
+      DELETE FROM public.team_members
+      WHERE user_id = _user_id AND public.team_organization(team_id) = _previous_organization_id;
+      DELETE FROM public.team_visibility_grants
+      WHERE user_id = _user_id AND public.team_organization(team_id) = _previous_organization_id;
+      DELETE FROM public.user_permissions WHERE user_id = _user_id;
+      DELETE FROM public.user_roles WHERE user_id = _user_id AND role NOT IN ('user', 'admin');
+    END IF;
+
+    INSERT INTO public.organization_members (user_id, organization_id)
+    VALUES (_user_id, _invitation.organization_id)
+    ON CONFLICT (user_id) DO UPDATE SET organization_id = EXCLUDED.organization_id;
+  END IF;
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (_user_id, _invitation.role)
+  ON CONFLICT (user_id, role) DO NOTHING;
+
+  IF _invitation.team_id IS NOT NULL THEN
+    INSERT INTO public.team_members (team_id, user_id)
+    VALUES (_invitation.team_id, _user_id)
+    ON CONFLICT (team_id, user_id) DO NOTHING;
+  END IF;
+
+  UPDATE public.invitations
+  SET accepted_at = now(), accepted_by = _user_id
+  WHERE id = _invitation_id;
+END;
+$$;
+
+-- Only reachable through handle_new_user and accept_invitation, which check the caller
+REVOKE EXECUTE ON FUNCTION public.pending_invitation(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.apply_invitation(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- What the invitation page shows before signing in. Knowing the token is what entitles the caller.
+CREATE OR REPLACE FUNCTION public.get_invitation(_token TEXT)
+RETURNS TABLE (
+  email TEXT,
+  organization_name TEXT,
+  role app_role,
+  team_name TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  status TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    i.email,
+    o.name,
+    i.role,
+    t.name,
+    i.expires_at,
+    CASE
+      WHEN i.accepted_at IS NOT NULL THEN 'accepted'
+      WHEN i.expires_at <= now() THEN 'expired'
+      ELSE 'pending'
+    END
+  FROM public.invitations i
+  JOIN public.organizations o ON o.id = i.organization_id
+  LEFT JOIN public.teams t ON t.id = i.team_id
+  WHERE i.token = _token;
+$$;
+
+-- Accept an invitation with an existing account. The account's email has to be the invited one.
+CREATE OR REPLACE FUNCTION public.accept_invitation(_token TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invitation public.invitations;
+  _email TEXT;
+BEGIN
+  SELECT * INTO _invitation FROM public.invitations WHERE token = _token;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+  IF _invitation.accepted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Invitation has already been accepted';
+  END IF;
+  IF _invitation.expires_at <= now() THEN
+    RAISE EXCEPTION 'Invitation has expired';
+  END IF;
+
+  SELECT lower(email) INTO _email FROM auth.users WHERE id = auth.uid();
+  IF _email IS DISTINCT FROM _invitation.email THEN
+    RAISE EXCEPTION 'This invitation was sent to a different email address';
+  END IF;
+
+  PERFORM public.apply_invitation(_invitation.id, auth.uid());
+END;
+$$;
+
+-- Runs before the account exists so a rejected signup leaves nothing behind. handle_new_user
+-- swallows its errors, so this has to be a trigger of its own.
+CREATE OR REPLACE FUNCTION public.enforce_signup_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings public.signup_settings;
+BEGIN
+  IF public.pending_invitation(NEW.email, NULL) IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _settings FROM public.signup_settings;
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT _settings.self_signup_enabled THEN
+    RAISE EXCEPTION 'Signup is by invitation only';
+  END IF;
+
+  IF cardinality(_settings.allowed_domains) > 0 AND NOT EXISTS (
+    SELECT 1 FROM unnest(_settings.allowed_domains) AS allowed
+    WHERE lower(allowed) = lower(split_part(NEW.email, '@', 2))
+  ) THEN
+    RAISE EXCEPTION 'Signup is restricted to approved email domains';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_signup_policy ON auth.users;
+CREATE TRIGGER enforce_signup_policy
+  BEFORE INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_signup_policy();
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  first_name_val text;
+  last_name_val text;
+  full_name_val text;
+  organization_id_val uuid;
+  invitation_id_val uuid;
+BEGIN
+  -- Invited users join the inviting organization (applied below, once the base role exists)
+  invitation_id_val := public.pending_invitation(NEW.email, NEW.raw_user_meta_data ->> 'invite_token');
+
+  IF invitation_id_val IS NULL THEN
+    -- Join the organization of the email domain
+    organization_id_val := public.resolve_organization(NEW.email);
+
+    INSERT INTO public.organization_members (user_id, organization_id)
+    VALUES (NEW.id, organization_id_val)
+    ON CONFLICT (user_id) DO NOTHING;
+  END IF;
+
+  -- Get the full name from Google OAuth or use email prefix as fallback
+  full_name_val := COALESCE(
+    NEW.raw_user_meta_data ->> 'full_name',
+    NEW.raw_user_meta_data ->> 'name',
+    SPLIT_PART(NEW.email, '@', 1)
+  );
+
+  -- Extract first and last name from full name or individual fields
+  IF NEW.raw_user_meta_data ? 'first_name' THEN
+    first_name_val := NEW.raw_user_meta_data ->> 'first_name';
+    last_name_val := COALESCE(NEW.raw_user_meta_data ->> 'last_name', '');
+  ELSIF NEW.raw_user_meta_data ? 'given_name' THEN
+    first_name_val := NEW.raw_user_meta_data ->> 'given_name';
+    last_name_val := COALESCE(NEW.raw_user_meta_data ->> 'family_name', '');
+  ELSE
+    -- Parse full name for Google OAuth (split on first space)
+    first_name_val := SPLIT_PART(full_name_val, ' ', 1);
+    last_name_val := CASE
+      WHEN position(' ' in full_name_val) > 0 THEN
+        TRIM(SUBSTR(full_name_val, position(' ' in full_name_val) + 1))
+      ELSE
+        ''
+    END;
+  END IF;
+
+  INSERT INTO public.managers (user_id, email, first_name, last_name, domain)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    first_name_val,
+    last_name_val,
+    SPLIT_PART(NEW.email, '@', 2)
+  );
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (NEW.id, 'user')
+  ON CONFLICT (user_id, role) DO NOTHING;
+
+  IF invitation_id_val IS NOT NULL THEN
+    PERFORM public.apply_invitation(invitation_id_val, NEW.id);
+  END IF;
+
+  RETURN NEW;
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Log the error but don't block the signup
+    RAISE LOG 'Error in handle_new_user: %', SQLERRM;
+    RETURN NEW;
+END;
+$$;
+
+ALTER TABLE public.invitations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.signup_settings ENABLE ROW LEVEL SECURITY;
+
+-- Rows carry the live token, so only the inviter and org admins, who can resend or revoke the
+-- invitation anyway, may read them
+CREATE POLICY "Inviters can view their invitations" ON public.invitations
+  FOR SELECT USING (
+    public.has_permission(auth.uid(), 'invite_users')
+    AND (invited_by = auth.uid() OR public.is_org_admin(auth.uid()))
+  );
+
+-- Managers invite users and managers into teams they manage; org admins can also invite org admins
+CREATE POLICY "Inviters can create invitations" ON public.invitations
+  FOR INSERT WITH CHECK (
+    public.has_permission(auth.uid(), 'invite_users')
+    AND invited_by = auth.uid()
+    AND accepted_at IS NULL
+    AND (
+      public.has_role(auth.uid(), 'admin')
+      OR role IN ('user', 'manager')
+      OR (role = 'org_admin' AND public.is_org_admin(auth.uid()))
+    )
+    AND (
+      team_id IS NULL
+      OR (public.can_manage_team(auth.uid(), team_id) AND public.team_organization(team_id) = organization_id)
+    )
+  );
+
+CREATE POLICY "Inviters can revoke their invitations" ON public.invitations
+  FOR DELETE USING (
+    public.has_permission(auth.uid(), 'invite_users')
+    AND (invited_by = auth.uid() OR public.is_org_admin(auth.uid()))
+  );
+
+CREATE POLICY "Tenant isolation" ON public.invitations AS RESTRICTIVE
+  FOR ALL USING (public.is_org_member(auth.uid(), organization_id))
+  WITH CHECK (public.is_org_member(auth.uid(), organization_id));
+
+-- Resending rotates the token and restarts the expiry, and changes nothing else. There is no update
+-- policy, so the role, team and email an invitation was created with can't be changed afterwards.
+CREATE OR REPLACE FUNCTION public.resend_invitation(_invitation_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.invitations
+  SET token = replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+      expires_at = now() + INTERVAL '7 days'
+  WHERE id = _invitation_id
+    AND accepted_at IS NULL
+    AND public.has_permission(auth.uid(), 'invite_users')
+    AND public.is_org_member(auth.uid(), organization_id)
+    AND (invited_by = auth.uid() OR public.is_org_admin(auth.uid()));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found or not allowed to resend it';
+  END IF;
+END;
+$$;
+
+-- The sign-up form reads the rules to explain them before the server rejects an address
+CREATE POLICY "Anyone can view signup settings" ON public.signup_settings
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admins can update signup settings" ON public.signup_settings
+  FOR UPDATE USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
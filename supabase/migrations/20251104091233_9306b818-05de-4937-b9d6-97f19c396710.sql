@@ -0,0 +1,35 @@
+-- Column mappings for bulk imports, saved per source (a spreadsheet layout such as an HRIS export)
+-- so the next file from the same source maps itself. Shared within the organization.
+CREATE TABLE public.import_mappings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL DEFAULT public.current_organization_id()
+    REFERENCES public.organizations(id) ON DELETE CASCADE,
+  -- What the import creates, e.g. 'Talent'
+  entity TEXT NOT NULL,
+  name TEXT NOT NULL,
+  -- Template field -> source column header
+  mapping JSONB NOT NULL DEFAULT '{}',
+  created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_import_mappings_name
+  ON public.import_mappings (organization_id, entity, lower(name));
+
+CREATE TRIGGER update_import_mappings_updated_at
+  BEFORE UPDATE ON public.import_mappings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.import_mappings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can view import mappings" ON public.import_mappings
+  FOR SELECT USING (public.has_role(auth.uid(), 'manager') OR public.is_org_admin(auth.uid()));
+
+CREATE POLICY "Managers can manage import mappings" ON public.import_mappings
+  FOR ALL USING (public.has_role(auth.uid(), 'manager') OR public.is_org_admin(auth.uid()))
+  WITH CHECK (public.has_role(auth.uid(), 'manager') OR public.is_org_admin(auth.uid()));
+
+CREATE POLICY "Tenant isolation" ON public.import_mappings AS RESTRICTIVE
+  FOR ALL USING (public.is_org_member(auth.uid(), organization_id))
+  WITH CHECK (public.is_org_member(auth.uid(), organization_id));
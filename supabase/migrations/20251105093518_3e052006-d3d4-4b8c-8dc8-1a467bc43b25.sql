@@ -0,0 +1,526 @@
+-- Bulk talent imports run as a single server-side job: every row is planned first (create, update,
+-- duplicate or error), and the plan is only applied when nothing failed, inside one transaction.
+-- Dry runs stop after planning. Each run is kept with its per-row report.
+CREATE TABLE public.import_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL DEFAULT public.current_organization_id()
+    REFERENCES public.organizations(id) ON DELETE CASCADE,
+  -- What the import creates, e.g. 'Talent'
+  entity TEXT NOT NULL,
+  file_name TEXT,
+  dry_run BOOLEAN NOT NULL DEFAULT true,
+  status TEXT NOT NULL CHECK (status IN ('previewed', 'completed', 'failed')),
+  match_key TEXT NOT NULL,
+  merge_rule TEXT NOT NULL CHECK (merge_rule IN ('skip', 'fill_empty', 'overwrite')),
+  -- Row counts by action: total, create, update, duplicate, error
+  summary JSONB NOT NULL DEFAULT '{}',
+  -- One entry per row: row, action, key, talent_profile_id, fields, messages
+  results JSONB NOT NULL DEFAULT '[]',
+  error_message TEXT,
+  created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_import_jobs_organization ON public.import_jobs(organization_id, created_at DESC);
+
+ALTER TABLE public.import_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the import functions
+CREATE POLICY "Users can view their own import jobs" ON public.import_jobs
+  FOR SELECT USING (created_by = auth.uid() OR public.is_org_admin(auth.uid()));
+
+CREATE POLICY "Tenant isolation" ON public.import_jobs AS RESTRICTIVE
+  FOR ALL USING (public.is_org_member(auth.uid(), organization_id))
+  WITH CHECK (public.is_org_member(auth.uid(), organization_id));
+
+-- Comparable form of a match key value: emails ignore case, profile URLs also ignore the scheme,
+-- "www." and trailing slashes
+CREATE OR REPLACE FUNCTION public.import_match_value(_key TEXT, _value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT nullif(
+    CASE WHEN _key = 'email'
+      THEN lower(btrim(_value))
+      ELSE regexp_replace(lower(btrim(_value)), '^https?://(www\.)?|/+$', '', 'g')
+    END,
+    ''
+  )
+$$;
+
+-- Import talent rows (objects of the bulk import template's columns plus "_row", the spreadsheet
+-- row number). Rows are matched to existing profiles by _match_key: email, linkedin_url or
+-- github_url. _merge_rule decides what happens to a match:
+--   skip        leave the profile alone and report the row as a duplicate
+--   fill_empty  only fill in fields that are empty on the profile
+--   overwrite   replace fields with every non-empty value in the row
+-- New profiles go to _team_id. Nothing is written on a dry run or when any row has an error.
+CREATE OR REPLACE FUNCTION public.import_talent_profiles(
+  _rows JSONB,
+  _team_id UUID DEFAULT NULL,
+  _match_key TEXT DEFAULT 'email',
+  _merge_rule TEXT DEFAULT 'fill_empty',
+  _dry_run BOOLEAN DEFAULT true,
+  _file_name TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _org UUID := public.current_organization_id();
+  _can_create BOOLEAN;
+  _plan JSONB[] := '{}';
+  _seen_keys JSONB := '{}';
+  _seen_emails JSONB := '{}';
+  _source_row JSONB;
+  _position BIGINT;
+  _row_number INTEGER;
+  _messages TEXT[];
+  _fields TEXT[];
+  _action TEXT;
+  _key TEXT;
+  _email TEXT;
+  _talent_type TEXT;
+  _value TEXT;
+  _years INTEGER;
+  _remote BOOLEAN;
+  _start_date DATE;
+  _skills TEXT[];
+  _project JSONB;
+  _utilization INTEGER;
+  _data JSONB;
+  _current JSONB;
+  _existing public.talent_profiles%ROWTYPE;
+  _field TEXT;
+  _entry JSONB;
+  _index INTEGER;
+  _created JSONB := '{}';
+  _profile_id UUID;
+  _skill_ids UUID[];
+  _counts JSONB;
+  _status TEXT;
+  _failure TEXT;
+  _job_id UUID;
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'edit_talent') THEN
+    RAISE EXCEPTION 'Not allowed to import talent';
+  END IF;
+  IF _match_key NOT IN ('email', 'linkedin_url', 'github_url') THEN
+    RAISE EXCEPTION 'Unsupported match key %', _match_key;
+  END IF;
+  IF _merge_rule NOT IN ('skip', 'fill_empty', 'overwrite') THEN
+    RAISE EXCEPTION 'Unsupported merge rule %', _merge_rule;
+  END IF;
+  IF jsonb_typeof(_rows) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Rows must be a JSON array';
+  END IF;
+
+  _can_create := public.can_manage_team(auth.uid(), _team_id)
+    AND (_team_id IS NULL OR public.team_organization(_team_id) = _org);
+
+  -- Plan every row without writing anything
+  FOR _source_row, _position IN SELECT value, ordinality FROM jsonb_array_elements(_rows) WITH ORDINALITY LOOP
+    _row_number := coalesce(
+      CASE WHEN _source_row ->> '_row' ~ '^\d{1,9}$' THEN (_source_row ->> '_row')::INTEGER END,
+      _position::INTEGER + 1
+    );
+    _messages := '{}';
+    _fields := '{}';
+    _action := NULL;
+    _profile_id := NULL;
+    _project := NULL;
+
+    _email := lower(nullif(btrim(_source_row ->> 'email'), ''));
+    IF _email IS NULL THEN
+      _messages := array_append(_messages, 'email: Valid email is required');
+    ELSIF _email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+      _messages := array_append(_messages, 'email: Valid email is required');
+    END IF;
+
+    IF nullif(btrim(_source_row ->> 'first_name'), '') IS NULL THEN
+      _messages := array_append(_messages, 'first_name: First name is required');
+    END IF;
+    IF nullif(btrim(_source_row ->> 'last_name'), '') IS NULL THEN
+      _messages := array_append(_messages, 'last_name: Last name is required');
+    END IF;
+
+    _value := nullif(btrim(_source_row ->> 'talent_role'), '');
+    IF _value IS NULL THEN
+      _messages := array_append(_messages, 'talent_role: Role is required');
+    ELSIF NOT _value = ANY (enum_range(NULL::public.talent_role)::TEXT[]) THEN
+      _messages := array_append(_messages, format('talent_role: "%s" is not one of %s',
+        _value, array_to_string(enum_range(NULL::public.talent_role)::TEXT[], ', ')));
+    END IF;
+
+    _talent_type := coalesce(lower(nullif(btrim(_source_row ->> 'talent_type'), '')), 'prospect');
+    IF _talent_type NOT IN ('existing', 'prospect') THEN
+      _messages := array_append(_messages, 'talent_type: must be existing or prospect');
+    END IF;
+
+    _years := NULL;
+    _value := nullif(btrim(_source_row ->> 'years_experience'), '');
+    -- Range-checked here so an absurd value is reported on its row instead of failing the cast
+    IF _value ~ '^\d+(\.\d+)?$' AND _value::NUMERIC <= 100 THEN
+      _years := round(_value::NUMERIC);
+    ELSIF _value IS NOT NULL THEN
+      _messages := array_append(_messages, 'years_experience: must be a number of years from 0 to 100');
+    END IF;
+
+    _remote := NULL;
+    _value := lower(nullif(btrim(_source_row ->> 'remote_preference'), ''));
+    IF _value IN ('true', 'yes', 'y', '1') THEN
+      _remote := true;
+    ELSIF _value IN ('false', 'no', 'n', '0') THEN
+      _remote := false;
+    ELSIF _value IS NOT NULL THEN
+      _messages := array_append(_messages, 'remote_preference: must be true or false');
+    END IF;
+
+    _start_date := NULL;
+    _value := nullif(btrim(_source_row ->> 'availability_start_date'), '');
+    IF _value IS NOT NULL THEN
+      BEGIN
+        _start_date := _value::DATE;
+      EXCEPTION WHEN others THEN
+        _messages := array_append(_messages, 'availability_start_date: must be a date (YYYY-MM-DD)');
+      END;
+    END IF;
+
+    _value := nullif(btrim(_source_row ->> 'source'), '');
+    IF _value IS NOT NULL AND _value NOT IN (
+      'employee_referral', 'direct_application', 'active_sourcing', 'linkedin_outreach',
+      'job_board', 'university_recruiting', 'industry_event'
+    ) THEN
+      _messages := array_append(_messages, format('source: "%s" is not a known source', _value));
+    END IF;
+
+    FOREACH _field IN ARRAY ARRAY['linkedin_url', 'github_url', 'portfolio_url'] LOOP
+      _value := nullif(btrim(_source_row ->> _field), '');
+      IF _value IS NOT NULL AND _value !~* '^[a-z][a-z0-9+.-]*://\S+$' THEN
+        _messages := array_append(_messages, _field || ': Invalid url');
+      END IF;
+    END LOOP;
+
+    -- Catalog names where the skill is known, the text as written otherwise
+    SELECT coalesce(array_agg(canonical ORDER BY first_ord), '{}') INTO _skills
+    FROM (
+      SELECT canonical, MIN(ord) AS first_ord
+      FROM (
+        SELECT coalesce(s.name, btrim(raw.name)) AS canonical, raw.ord
+        FROM unnest(string_to_array(coalesce(_source_row ->> 'skills', ''), ',')) WITH ORDINALITY AS raw(name, ord)
+        LEFT JOIN public.skills s ON s.id = public.resolve_skill(raw.name)
+        WHERE btrim(raw.name) <> ''
+      ) resolved
+      GROUP BY canonical
+    ) deduped;
+
+    IF nullif(btrim(_source_row ->> 'existing_project_name'), '') IS NOT NULL
+       OR nullif(btrim(_source_row ->> 'existing_project_manager'), '') IS NOT NULL THEN
+      _utilization := 0;
+      _value := nullif(btrim(_source_row ->> 'existing_project_utilization'), '');
+      IF _value ~ '^\d+(\.\d+)?$' AND _value::NUMERIC <= 100 THEN
+        _utilization := round(_value::NUMERIC);
+      ELSIF _value IS NOT NULL THEN
+        _messages := array_append(_messages, 'existing_project_utilization: must be a percentage from 0 to 100');
+      END IF;
+
+      IF nullif(btrim(_source_row ->> 'existing_project_name'), '') IS NULL
+         OR nullif(btrim(_source_row ->> 'existing_project_manager'), '') IS NULL THEN
+        _messages := array_append(_messages, 'existing_project_name: project name and reporting manager are both required');
+      END IF;
+
+      _project := jsonb_build_object(
+        'project_name', btrim(_source_row ->> 'existing_project_name'),
+        'reporting_manager', btrim(_source_row ->> 'existing_project_manager'),
+        'utilization_percentage', _utilization
+      );
+    END IF;
+
+    -- Profile columns the row sets; blank cells are left out so they never clear anything
+    _data := jsonb_strip_nulls(jsonb_build_object(
+      'first_name', nullif(btrim(_source_row ->> 'first_name'), ''),
+      'last_name', nullif(btrim(_source_row ->> 'last_name'), ''),
+      'email', _email,
+      'talent_role', nullif(btrim(_source_row ->> 'talent_role'), ''),
+      'talent_type', lower(nullif(btrim(_source_row ->> 'talent_type'), '')),
+      'years_experience', _years,
+      'location', nullif(btrim(_source_row ->> 'location'), ''),
+      'remote_preference', _remote,
+      'availability_start_date', _start_date,
+      'source', nullif(btrim(_source_row ->> 'source'), ''),
+      'linkedin_url', nullif(btrim(_source_row ->> 'linkedin_url'), ''),
+      'github_url', nullif(btrim(_source_row ->> 'github_url'), ''),
+      'portfolio_url', nullif(btrim(_source_row ->> 'portfolio_url'), ''),
+      'bio', nullif(btrim(_source_row ->> 'bio'), ''),
+      'education', nullif(btrim(_source_row ->> 'education'), ''),
+      'work_experience', nullif(btrim(_source_row ->> 'work_experience'), ''),
+      'certifications', nullif(btrim(_source_row ->> 'certifications'), ''),
+      'skills', CASE WHEN cardinality(_skills) > 0 THEN to_jsonb(_skills) END
+    ));
+
+    _key := public.import_match_value(_match_key, _data ->> _match_key);
+    IF _key IS NULL AND _match_key <> 'email' THEN
+      _messages := array_append(_messages, _match_key || ': required to match rows to existing profiles');
+    END IF;
+
+    IF cardinality(_messages) > 0 THEN
+      _action := 'error';
+    ELSIF _seen_keys ? _key THEN
+      _action := 'duplicate';
+      _messages := array_append(_messages, format('Same %s as row %s; skipped', _match_key, _seen_keys ->> _key));
+    ELSIF _seen_emails ? _email THEN
+      _action := 'error';
+      _messages := array_append(_messages, format('email: same email as row %s', _seen_emails ->> _email));
+    END IF;
+
+    IF _action IS NULL THEN
+      _seen_keys := _seen_keys || jsonb_build_object(_key, _row_number);
+      _seen_emails := _seen_emails || jsonb_build_object(_email, _row_number);
+
+      -- Emails are unique across all profiles; other keys only match within the organization
+      SELECT tp.* INTO _existing
+      FROM public.talent_profiles tp
+      WHERE CASE _match_key
+          WHEN 'email' THEN lower(tp.email) = _key
+          WHEN 'linkedin_url' THEN public.import_match_value('linkedin_url', tp.linkedin_url) = _key
+          ELSE public.import_match_value('github_url', tp.github_url) = _key
+        END
+        AND (_match_key = 'email' OR tp.organization_id = _org)
+      ORDER BY tp.created_at
+      LIMIT 1;
+
+      IF _existing.id IS NULL THEN
+        IF EXISTS (SELECT 1 FROM public.talent_profiles WHERE lower(email) = _email) THEN
+          _action := 'error';
+          _messages := array_append(_messages, 'email: already in use');
+        ELSIF NOT _can_create THEN
+          _action := 'error';
+          _messages := array_append(_messages, 'Not allowed to add talent to the selected team');
+        ELSIF _talent_type = 'existing' AND _project IS NULL THEN
+          _action := 'error';
+          _messages := array_append(_messages, 'existing_project_name: required for existing employees');
+        ELSE
+          _action := 'create';
+          SELECT array_agg(key ORDER BY key) INTO _fields FROM jsonb_object_keys(_data) AS key;
+          IF _project IS NOT NULL AND _talent_type = 'existing' THEN
+            _fields := array_append(_fields, 'projects');
+          END IF;
+        END IF;
+      ELSIF _existing.organization_id IS DISTINCT FROM _org THEN
+        _action := 'error';
+        _messages := array_append(_messages, 'email: already in use');
+      ELSIF NOT public.can_edit_talent(auth.uid(), _existing.id) THEN
+        _action := 'error';
+        _profile_id := _existing.id;
+        _messages := array_append(_messages, 'Matches a talent profile you are not allowed to edit');
+      ELSIF _merge_rule = 'skip' THEN
+        _action := 'duplicate';
+        _profile_id := _existing.id;
+        _messages := array_append(_messages, 'Already exists; skipped');
+      ELSE
+        _profile_id := _existing.id;
+        _current := to_jsonb(_existing);
+
+        FOR _field IN SELECT jsonb_object_keys(_data) LOOP
+          CONTINUE WHEN _field = 'skills';
+          -- The match key already agrees, apart from case or formatting
+          CONTINUE WHEN _field = _match_key;
+          CONTINUE WHEN _field = 'email' AND lower(_current ->> 'email') = _email;
+
+          IF _merge_rule = 'overwrite' THEN
+            IF _current -> _field IS DISTINCT FROM _data -> _field THEN
+              _fields := array_append(_fields, _field);
+            END IF;
+          ELSIF coalesce(_current ->> _field, '') = '' THEN
+            _fields := array_append(_fields, _field);
+          END IF;
+        END LOOP;
+
+        IF _data ? 'skills' AND (
+          coalesce(cardinality(_existing.skills), 0) = 0
+          OR (_merge_rule = 'overwrite' AND (
+            SELECT array_agg(lower(name) ORDER BY lower(name)) FROM unnest(_existing.skills) AS name
+          ) IS DISTINCT FROM (
+            SELECT array_agg(lower(name) ORDER BY lower(name)) FROM unnest(_skills) AS name
+          ))
+        ) THEN
+          _fields := array_append(_fields, 'skills');
+        END IF;
+
+        IF 'email' = ANY (_fields) AND EXISTS (
+          SELECT 1 FROM public.talent_profiles WHERE lower(email) = _email AND id <> _existing.id
+        ) THEN
+          _action := 'error';
+          _messages := array_append(_messages, 'email: already in use');
+        END IF;
+
+        IF _project IS NOT NULL
+           AND coalesce(_data ->> 'talent_type', _existing.talent_type) = 'existing'
+           AND NOT EXISTS (
+             SELECT 1 FROM public.employee_projects
+             WHERE talent_profile_id = _existing.id AND lower(project_name) = lower(_project ->> 'project_name')
+           ) THEN
+          _fields := array_append(_fields, 'projects');
+        END IF;
+
+        IF _action IS NULL THEN
+          _action := CASE WHEN cardinality(_fields) > 0 THEN 'update' ELSE 'duplicate' END;
+          IF _action = 'duplicate' THEN
+            _messages := array_append(_messages, 'Already exists with the same details');
+          END IF;
+        END IF;
+      END IF;
+    END IF;
+
+    _plan := array_append(_plan, jsonb_build_object(
+      'row', _row_number,
+      'action', _action,
+      'key', _key,
+      'talent_profile_id', _profile_id,
+      'fields', to_jsonb(coalesce(_fields, '{}')),
+      'messages', to_jsonb(_messages),
+      'data', _data,
+      'project', _project
+    ));
+  END LOOP;
+
+  SELECT jsonb_build_object(
+    'total', count(*),
+    'create', count(*) FILTER (WHERE entry ->> 'action' = 'create'),
+    'update', count(*) FILTER (WHERE entry ->> 'action' = 'update'),
+    'duplicate', count(*) FILTER (WHERE entry ->> 'action' = 'duplicate'),
+    'error', count(*) FILTER (WHERE entry ->> 'action' = 'error')
+  ) INTO _counts
+  FROM unnest(_plan) AS entry;
+
+  IF _dry_run THEN
+    _status := 'previewed';
+  ELSIF (_counts ->> 'error')::INTEGER > 0 THEN
+    _status := 'failed';
+    _failure := format('%s rows have errors; nothing was imported', _counts ->> 'error');
+  ELSE
+    _status := 'completed';
+
+    -- All or nothing: a failure on any row rolls back every row written before it
+    BEGIN
+      FOR _index IN 1 .. coalesce(array_length(_plan, 1), 0) LOOP
+        _entry := _plan[_index];
+        CONTINUE WHEN _entry ->> 'action' NOT IN ('create', 'update');
+
+        _data := _entry -> 'data';
+        _fields := ARRAY(SELECT jsonb_array_elements_text(_entry -> 'fields'));
+
+        IF _entry ->> 'action' = 'create' THEN
+          INSERT INTO public.talent_profiles (
+            organization_id, manager_id, team_id, first_name, last_name, email, talent_role, talent_type,
+            years_experience, location, remote_preference, availability_start_date, source,
+            linkedin_url, github_url, portfolio_url, bio, education, work_experience, certifications, skills
+          )
+          VALUES (
+            _org, auth.uid(), _team_id, _data ->> 'first_name', _data ->> 'last_name', _data ->> 'email',
+            (_data ->> 'talent_role')::public.talent_role, coalesce(_data ->> 'talent_type', 'prospect'),
+            coalesce((_data ->> 'years_experience')::INTEGER, 0), _data ->> 'location',
+            coalesce((_data ->> 'remote_preference')::BOOLEAN, false), (_data ->> 'availability_start_date')::DATE,
+            _data ->> 'source', _data ->> 'linkedin_url', _data ->> 'github_url', _data ->> 'portfolio_url',
+            _data ->> 'bio', _data ->> 'education', _data ->> 'work_experience', _data ->> 'certifications',
+            coalesce(ARRAY(SELECT jsonb_array_elements_text(_data -> 'skills')), '{}')
+          )
+          RETURNING id INTO _profile_id;
+
+          _created := _created || jsonb_build_object(_index::TEXT, _profile_id);
+        ELSE
+          _profile_id := (_entry ->> 'talent_profile_id')::UUID;
+
+          UPDATE public.talent_profiles
+          SET first_name = CASE WHEN 'first_name' = ANY (_fields) THEN _data ->> 'first_name' ELSE first_name END,
+              last_name = CASE WHEN 'last_name' = ANY (_fields) THEN _data ->> 'last_name' ELSE last_name END,
+              email = CASE WHEN 'email' = ANY (_fields) THEN _data ->> 'email' ELSE email END,
+              talent_role = CASE WHEN 'talent_role' = ANY (_fields)
+                THEN (_data ->> 'talent_role')::public.talent_role ELSE talent_role END,
+              talent_type = CASE WHEN 'talent_type' = ANY (_fields) THEN _data ->> 'talent_type' ELSE talent_type END,
+              years_experience = CASE WHEN 'years_experience' = ANY (_fields)
+                THEN (_data ->> 'years_experience')::INTEGER ELSE years_experience END,
+              location = CASE WHEN 'location' = ANY (_fields) THEN _data ->> 'location' ELSE location END,
+              remote_preference = CASE WHEN 'remote_preference' = ANY (_fields)
+                THEN (_data ->> 'remote_preference')::BOOLEAN ELSE remote_preference END,
+              availability_start_date = CASE WHEN 'availability_start_date' = ANY (_fields)
+                THEN (_data ->> 'availability_start_date')::DATE ELSE availability_start_date END,
+              source = CASE WHEN 'source' = ANY (_fields) THEN _data ->> 'source' ELSE source END,
+              linkedin_url = CASE WHEN 'linkedin_url' = ANY (_fields) THEN _data ->> 'linkedin_url' ELSE linkedin_url END,
+              github_url = CASE WHEN 'github_url' = ANY (_fields) THEN _data ->> 'github_url' ELSE github_url END,
+              portfolio_url = CASE WHEN 'portfolio_url' = ANY (_fields) THEN _data ->> 'portfolio_url' ELSE portfolio_url END,
+              bio = CASE WHEN 'bio' = ANY (_fields) THEN _data ->> 'bio' ELSE bio END,
+              education = CASE WHEN 'education' = ANY (_fields) THEN _data ->> 'education' ELSE education END,
+              work_experience = CASE WHEN 'work_experience' = ANY (_fields)
+                THEN _data ->> 'work_experience' ELSE work_experience END,
+              certifications = CASE WHEN 'certifications' = ANY (_fields)
+                THEN _data ->> 'certifications' ELSE certifications END,
+              skills = CASE WHEN 'skills' = ANY (_fields)
+                THEN ARRAY(SELECT jsonb_array_elements_text(_data -> 'skills')) ELSE skills END,
+              updated_at = now()
+          WHERE id = _profile_id;
+        END IF;
+
+        IF 'skills' = ANY (_fields) THEN
+          _skill_ids := ARRAY(
+            SELECT DISTINCT public.resolve_skill(name)
+            FROM jsonb_array_elements_text(_data -> 'skills') AS name
+            WHERE public.resolve_skill(name) IS NOT NULL
+          );
+
+          -- Skills kept from before keep their proficiency
+          DELETE FROM public.talent_skills
+          WHERE talent_profile_id = _profile_id AND NOT skill_id = ANY (_skill_ids);
+
+          INSERT INTO public.talent_skills (talent_profile_id, skill_id, proficiency_level)
+          SELECT _profile_id, skill_id, 3
+          FROM unnest(_skill_ids) AS skill_id
+          ON CONFLICT (talent_profile_id, skill_id) DO NOTHING;
+        END IF;
+
+        IF 'projects' = ANY (_fields) THEN
+          INSERT INTO public.employee_projects (talent_profile_id, project_name, reporting_manager, utilization_percentage)
+          VALUES (
+            _profile_id,
+            _entry -> 'project' ->> 'project_name',
+            _entry -> 'project' ->> 'reporting_manager',
+            (_entry -> 'project' ->> 'utilization_percentage')::INTEGER
+          );
+        END IF;
+      END LOOP;
+    EXCEPTION WHEN others THEN
+      -- The report is shown to users, so the database error only goes to the log
+      RAISE LOG 'import_talent_profiles failed: % (%)', SQLERRM, SQLSTATE;
+      _status := 'failed';
+      _failure := 'The rows could not be saved; nothing was imported';
+    END;
+
+    -- Report the new profiles' ids, unless the rollback discarded them
+    IF _status = 'completed' THEN
+      FOR _index IN SELECT key::INTEGER FROM jsonb_object_keys(_created) AS key LOOP
+        _plan[_index] := _plan[_index] || jsonb_build_object('talent_profile_id', _created ->> _index::TEXT);
+      END LOOP;
+    END IF;
+  END IF;
+
+  INSERT INTO public.import_jobs (
+    organization_id, entity, file_name, dry_run, status, match_key, merge_rule, summary, results, error_message
+  )
+  SELECT _org, 'Talent', _file_name, _dry_run, _status, _match_key, _merge_rule, _counts,
+         coalesce(jsonb_agg(entry - 'data' - 'project' ORDER BY (entry ->> 'row')::INTEGER), '[]'), _failure
+  FROM unnest(_plan) AS entry
+  RETURNING id INTO _job_id;
+
+  RETURN jsonb_build_object(
+    'job_id', _job_id,
+    'status', _status,
+    'dry_run', _dry_run,
+    'error_message', _failure,
+    'summary', _counts,
+    'results', (SELECT results FROM public.import_jobs WHERE id = _job_id)
+  );
+END;
+$$;
@@ -0,0 +1,948 @@
+-- Bulk import jobs for opportunities, project allocations and the skill catalog. They work like
+-- import_talent_profiles: every row is planned first, dry runs stop there, and the plan is applied
+-- in one go only when no row has an error. Results carry the matched or created row as record_id.
+
+-- Parse a comma-separated skill list such as "React:4, TypeScript" into catalog skills. The level
+-- after the colon is 1-5 and defaults to 3; level is NULL when it is given but not valid.
+CREATE OR REPLACE FUNCTION public.import_skill_list(_value TEXT)
+RETURNS TABLE (name TEXT, skill_id UUID, level INTEGER, ord BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT btrim(split_part(items.item, ':', 1)),
+         public.resolve_skill(split_part(items.item, ':', 1)),
+         CASE
+           WHEN btrim(split_part(items.item, ':', 2)) = '' THEN 3
+           WHEN btrim(split_part(items.item, ':', 2)) ~ '^[1-5]$' THEN btrim(split_part(items.item, ':', 2))::INTEGER
+         END,
+         items.ord
+  FROM unnest(string_to_array(coalesce(_value, ''), ',')) WITH ORDINALITY AS items(item, ord)
+  WHERE btrim(items.item) <> ''
+$$;
+
+-- Opportunities are matched on their title within the organization. required_skills and
+-- nice_to_have_skills replace the opportunity's skill requirements as a whole; budgets need
+-- compensation access. New opportunities go to _team_id.
+CREATE OR REPLACE FUNCTION public.import_opportunities(
+  _rows JSONB,
+  _team_id UUID DEFAULT NULL,
+  _merge_rule TEXT DEFAULT 'fill_empty',
+  _dry_run BOOLEAN DEFAULT true,
+  _file_name TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _org UUID := public.current_organization_id();
+  _can_create BOOLEAN;
+  _can_budget BOOLEAN := public.has_permission(auth.uid(), 'view_compensation');
+  _plan JSONB[] := '{}';
+  _seen_keys JSONB := '{}';
+  _source_row JSONB;
+  _position BIGINT;
+  _row_number INTEGER;
+  _messages TEXT[];
+  _fields TEXT[];
+  _action TEXT;
+  _key TEXT;
+  _value TEXT;
+  _remote BOOLEAN;
+  _start_date DATE;
+  _end_date DATE;
+  _budget_min NUMERIC;
+  _budget_max NUMERIC;
+  _skills JSONB;
+  _data JSONB;
+  _current JSONB;
+  _existing public.opportunities%ROWTYPE;
+  _matches INTEGER;
+  _field TEXT;
+  _entry JSONB;
+  _index INTEGER;
+  _created JSONB := '{}';
+  _record_id UUID;
+  _counts JSONB;
+  _status TEXT;
+  _failure TEXT;
+  _job_id UUID;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'manager') OR public.is_org_admin(auth.uid())) THEN
+    RAISE EXCEPTION 'Not allowed to import opportunities';
+  END IF;
+  IF _merge_rule NOT IN ('skip', 'fill_empty', 'overwrite') THEN
+    RAISE EXCEPTION 'Unsupported merge rule %', _merge_rule;
+  END IF;
+  IF jsonb_typeof(_rows) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Rows must be a JSON array';
+  END IF;
+
+  _can_create := public.can_manage_team(auth.uid(), _team_id)
+    AND (_team_id IS NULL OR public.team_organization(_team_id) = _org);
+
+  FOR _source_row, _position IN SELECT value, ordinality FROM jsonb_array_elements(_rows) WITH ORDINALITY LOOP
+    _row_number := coalesce(
+      CASE WHEN _source_row ->> '_row' ~ '^\d{1,9}$' THEN (_source_row ->> '_row')::INTEGER END,
+      _position::INTEGER + 1
+    );
+    _messages := '{}';
+    _fields := '{}';
+    _action := NULL;
+    _record_id := NULL;
+
+    _key := lower(nullif(btrim(_source_row ->> 'title'), ''));
+    IF _key IS NULL THEN
+      _messages := array_append(_messages, 'title: Title is required');
+    END IF;
+
+    _value := nullif(btrim(_source_row ->> 'required_role'), '');
+    IF _value IS NULL THEN
+      _messages := array_append(_messages, 'required_role: Required role is required');
+    ELSIF NOT _value = ANY (enum_range(NULL::public.talent_role)::TEXT[]) THEN
+      _messages := array_append(_messages, format('required_role: "%s" is not one of %s',
+        _value, array_to_string(enum_range(NULL::public.talent_role)::TEXT[], ', ')));
+    END IF;
+
+    _value := lower(nullif(btrim(_source_row ->> 'status'), ''));
+    IF _value IS NOT NULL AND NOT _value = ANY (enum_range(NULL::public.opportunity_status)::TEXT[]) THEN
+      _messages := array_append(_messages, format('status: "%s" is not one of %s',
+        _value, array_to_string(enum_range(NULL::public.opportunity_status)::TEXT[], ', ')));
+    END IF;
+
+    _remote := NULL;
+    _value := lower(nullif(btrim(_source_row ->> 'remote_allowed'), ''));
+    IF _value IN ('true', 'yes', 'y', '1') THEN
+      _remote := true;
+    ELSIF _value IN ('false', 'no', 'n', '0') THEN
+      _remote := false;
+    ELSIF _value IS NOT NULL THEN
+      _messages := array_append(_messages, 'remote_allowed: must be true or false');
+    END IF;
+
+    _start_date := NULL;
+    _end_date := NULL;
+    BEGIN
+      _start_date := nullif(btrim(_source_row ->> 'start_date'), '')::DATE;
+    EXCEPTION WHEN others THEN
+      _messages := array_append(_messages, 'start_date: must be a date (YYYY-MM-DD)');
+    END;
+    BEGIN
+      _end_date := nullif(btrim(_source_row ->> 'end_date'), '')::DATE;
+    EXCEPTION WHEN others THEN
+      _messages := array_append(_messages, 'end_date: must be a date (YYYY-MM-DD)');
+    END;
+    IF _end_date < _start_date THEN
+      _messages := array_append(_messages, 'end_date: must not be before start_date');
+    END IF;
+
+    _budget_min := NULL;
+    _budget_max := NULL;
+    FOREACH _field IN ARRAY ARRAY['budget_min', 'budget_max'] LOOP
+      _value := nullif(btrim(_source_row ->> _field), '');
+      CONTINUE WHEN _value IS NULL;
+      IF NOT _can_budget THEN
+        _messages := array_append(_messages, _field || ': budgets need compensation access');
+      ELSIF _value !~ '^\d+(\.\d+)?$' THEN
+        _messages := array_append(_messages, _field || ': must be an amount in USD');
+      ELSIF _value::NUMERIC >= 100000000 THEN
+        -- Budgets are DECIMAL(10,2); a larger amount would fail the whole import when written
+        _messages := array_append(_messages, _field || ': must be below 100,000,000');
+      ELSIF _field = 'budget_min' THEN
+        _budget_min := _value::NUMERIC;
+      ELSE
+        _budget_max := _value::NUMERIC;
+      END IF;
+    END LOOP;
+    IF _budget_max < _budget_min THEN
+      _messages := array_append(_messages, 'budget_max: must not be below budget_min');
+    END IF;
+
+    -- Required skills win over the same skill listed as nice to have
+    _skills := NULL;
+    IF nullif(btrim(_source_row ->> 'required_skills'), '') IS NOT NULL
+       OR nullif(btrim(_source_row ->> 'nice_to_have_skills'), '') IS NOT NULL THEN
+      SELECT array_cat(_messages, coalesce(array_agg(
+               CASE WHEN parsed.skill_id IS NULL
+                 THEN format('%s: "%s" is not in the skill catalog', parsed.column_name, parsed.name)
+                 ELSE format('%s: level for "%s" must be 1-5', parsed.column_name, parsed.name)
+               END ORDER BY parsed.column_name, parsed.ord), '{}'))
+      INTO _messages
+      FROM (
+        SELECT 'required_skills' AS column_name, s.* FROM public.import_skill_list(_source_row ->> 'required_skills') s
+        UNION ALL
+        SELECT 'nice_to_have_skills', s.* FROM public.import_skill_list(_source_row ->> 'nice_to_have_skills') s
+      ) parsed
+      WHERE parsed.skill_id IS NULL OR parsed.level IS NULL;
+
+      SELECT coalesce(jsonb_agg(jsonb_build_object(
+               'skill_id', picked.skill_id, 'required_level', picked.level, 'is_required', picked.is_required
+             ) ORDER BY picked.skill_id), '[]')
+      INTO _skills
+      FROM (
+        SELECT DISTINCT ON (parsed.skill_id) parsed.skill_id, parsed.level, parsed.is_required
+        FROM (
+          SELECT s.skill_id, s.level, true AS is_required, s.ord
+          FROM public.import_skill_list(_source_row ->> 'required_skills') s
+          UNION ALL
+          SELECT s.skill_id, s.level, false, s.ord
+          FROM public.import_skill_list(_source_row ->> 'nice_to_have_skills') s
+        ) parsed
+        WHERE parsed.skill_id IS NOT NULL AND parsed.level IS NOT NULL
+        ORDER BY parsed.skill_id, parsed.is_required DESC, parsed.ord
+      ) picked;
+    END IF;
+
+    _data := jsonb_strip_nulls(jsonb_build_object(
+      'title', nullif(btrim(_source_row ->> 'title'), ''),
+      'description', nullif(btrim(_source_row ->> 'description'), ''),
+      'required_role', nullif(btrim(_source_row ->> 'required_role'), ''),
+      'location', nullif(btrim(_source_row ->> 'location'), ''),
+      'remote_allowed', _remote,
+      'start_date', _start_date,
+      'end_date', _end_date,
+      'status', lower(nullif(btrim(_source_row ->> 'status'), '')),
+      'skills', _skills,
+      'budget_min', _budget_min,
+      'budget_max', _budget_max
+    ));
+
+    IF cardinality(_messages) > 0 THEN
+      _action := 'error';
+    ELSIF _seen_keys ? _key THEN
+      _action := 'duplicate';
+      _messages := array_append(_messages, format('Same title as row %s; skipped', _seen_keys ->> _key));
+    ELSE
+      _seen_keys := _seen_keys || jsonb_build_object(_key, _row_number);
+
+      SELECT count(*) INTO _matches
+      FROM public.opportunities
+      WHERE organization_id = _org AND lower(btrim(title)) = _key;
+
+      SELECT * INTO _existing
+      FROM public.opportunities
+      WHERE organization_id = _org AND lower(btrim(title)) = _key
+      LIMIT 1;
+
+      IF _matches > 1 THEN
+        _action := 'error';
+        _messages := array_append(_messages, format('title: %s opportunities already have this title', _matches));
+      ELSIF _existing.id IS NULL THEN
+        IF NOT _can_create THEN
+          _action := 'error';
+          _messages := array_append(_messages, 'Not allowed to add opportunities to the selected team');
+        ELSE
+          _action := 'create';
+          SELECT array_agg(key ORDER BY key) INTO _fields FROM jsonb_object_keys(_data) AS key;
+        END IF;
+      ELSIF NOT public.can_manage_opportunity(auth.uid(), _existing.id) THEN
+        _action := 'error';
+        _record_id := _existing.id;
+        _messages := array_append(_messages, 'Matches an opportunity you are not allowed to edit');
+      ELSIF _merge_rule = 'skip' THEN
+        _action := 'duplicate';
+        _record_id := _existing.id;
+        _messages := array_append(_messages, 'Already exists; skipped');
+      ELSE
+        _record_id := _existing.id;
+        _current := to_jsonb(_existing)
+          || jsonb_build_object('skills', (
+               SELECT jsonb_agg(jsonb_build_object(
+                        'skill_id', skill_id, 'required_level', required_level, 'is_required', coalesce(is_required, true)
+                      ) ORDER BY skill_id)
+               FROM public.opportunity_skills WHERE opportunity_id = _existing.id))
+          || coalesce((
+               SELECT jsonb_build_object('budget_min', budget_min, 'budget_max', budget_max)
+               FROM public.opportunity_budgets WHERE opportunity_id = _existing.id), '{}');
+
+        FOR _field IN SELECT jsonb_object_keys(_data) LOOP
+          CONTINUE WHEN _field = 'title';
+          IF _merge_rule = 'overwrite' THEN
+            IF _current -> _field IS DISTINCT FROM _data -> _field THEN
+              _fields := array_append(_fields, _field);
+            END IF;
+          ELSIF coalesce(_current ->> _field, '') = '' THEN
+            _fields := array_append(_fields, _field);
+          END IF;
+        END LOOP;
+
+        _action := CASE WHEN cardinality(_fields) > 0 THEN 'update' ELSE 'duplicate' END;
+        IF _action = 'duplicate' THEN
+          _messages := array_append(_messages, 'Already exists with the same details');
+        END IF;
+      END IF;
+    END IF;
+
+    _plan := array_append(_plan, jsonb_build_object(
+      'row', _row_number,
+      'action', _action,
+      'key', _key,
+      'record_id', _record_id,
+      'fields', to_jsonb(coalesce(_fields, '{}')),
+      'messages', to_jsonb(_messages),
+      'data', _data
+    ));
+  END LOOP;
+
+  SELECT jsonb_build_object(
+    'total', count(*),
+    'create', count(*) FILTER (WHERE entry ->> 'action' = 'create'),
+    'update', count(*) FILTER (WHERE entry ->> 'action' = 'update'),
+    'duplicate', count(*) FILTER (WHERE entry ->> 'action' = 'duplicate'),
+    'error', count(*) FILTER (WHERE entry ->> 'action' = 'error')
+  ) INTO _counts
+  FROM unnest(_plan) AS entry;
+
+  IF _dry_run THEN
+    _status := 'previewed';
+  ELSIF (_counts ->> 'error')::INTEGER > 0 THEN
+    _status := 'failed';
+    _failure := format('%s rows have errors; nothing was imported', _counts ->> 'error');
+  ELSE
+    _status := 'completed';
+
+    BEGIN
+      FOR _index IN 1 .. coalesce(array_length(_plan, 1), 0) LOOP
+        _entry := _plan[_index];
+        CONTINUE WHEN _entry ->> 'action' NOT IN ('create', 'update');
+
+        _data := _entry -> 'data';
+        _fields := ARRAY(SELECT jsonb_array_elements_text(_entry -> 'fields'));
+
+        IF _entry ->> 'action' = 'create' THEN
+          INSERT INTO public.opportunities (
+            organization_id, team_id, created_by, title, description, required_role, location,
+            remote_allowed, start_date, end_date, status
+          )
+          VALUES (
+            _org, _team_id, auth.uid(), _data ->> 'title', _data ->> 'description',
+            (_data ->> 'required_role')::public.talent_role, _data ->> 'location',
+            coalesce((_data ->> 'remote_allowed')::BOOLEAN, true),
+            (_data ->> 'start_date')::DATE, (_data ->> 'end_date')::DATE,
+            coalesce(_data ->> 'status', 'open')::public.opportunity_status
+          )
+          RETURNING id INTO _record_id;
+
+          _created := _created || jsonb_build_object(_index::TEXT, _record_id);
+        ELSE
+          _record_id := (_entry ->> 'record_id')::UUID;
+
+          UPDATE public.opportunities
+          SET description = CASE WHEN 'description' = ANY (_fields) THEN _data ->> 'description' ELSE description END,
+              required_role = CASE WHEN 'required_role' = ANY (_fields)
+                THEN (_data ->> 'required_role')::public.talent_role ELSE required_role END,
+              location = CASE WHEN 'location' = ANY (_fields) THEN _data ->> 'location' ELSE location END,
+              remote_allowed = CASE WHEN 'remote_allowed' = ANY (_fields)
+                THEN (_data ->> 'remote_allowed')::BOOLEAN ELSE remote_allowed END,
+              start_date = CASE WHEN 'start_date' = ANY (_fields) THEN (_data ->> 'start_date')::DATE ELSE start_date END,
+              end_date = CASE WHEN 'end_date' = ANY (_fields) THEN (_data ->> 'end_date')::DATE ELSE end_date END,
+              status = CASE WHEN 'status' = ANY (_fields)
+                THEN (_data ->> 'status')::public.opportunity_status ELSE status END,
+              updated_at = now()
+          WHERE id = _record_id;
+        END IF;
+
+        IF 'skills' = ANY (_fields) THEN
+          DELETE FROM public.opportunity_skills WHERE opportunity_id = _record_id;
+          INSERT INTO public.opportunity_skills (opportunity_id, skill_id, required_level, is_required)
+          SELECT _record_id, link.skill_id, link.required_level, link.is_required
+          FROM jsonb_to_recordset(_data -> 'skills') AS link(skill_id UUID, required_level INTEGER, is_required BOOLEAN);
+        END IF;
+
+        IF 'budget_min' = ANY (_fields) OR 'budget_max' = ANY (_fields) THEN
+          INSERT INTO public.opportunity_budgets (opportunity_id, budget_min, budget_max)
+          VALUES (_record_id, (_data ->> 'budget_min')::NUMERIC, (_data ->> 'budget_max')::NUMERIC)
+          ON CONFLICT (opportunity_id) DO UPDATE
+          SET budget_min = CASE WHEN 'budget_min' = ANY (_fields) THEN EXCLUDED.budget_min ELSE opportunity_budgets.budget_min END,
+              budget_max = CASE WHEN 'budget_max' = ANY (_fields) THEN EXCLUDED.budget_max ELSE opportunity_budgets.budget_max END;
+        END IF;
+      END LOOP;
+    EXCEPTION WHEN others THEN
+      -- The report is shown to users, so the database error only goes to the log
+      RAISE LOG 'import_opportunities failed: % (%)', SQLERRM, SQLSTATE;
+      _status := 'failed';
+      _failure := 'The rows could not be saved; nothing was imported';
+    END;
+
+    IF _status = 'completed' THEN
+      FOR _index IN SELECT key::INTEGER FROM jsonb_object_keys(_created) AS key LOOP
+        _plan[_index] := _plan[_index] || jsonb_build_object('record_id', _created ->> _index::TEXT);
+      END LOOP;
+    END IF;
+  END IF;
+
+  INSERT INTO public.import_jobs (
+    organization_id, entity, file_name, dry_run, status, match_key, merge_rule, summary, results, error_message
+  )
+  SELECT _org, 'Opportunity', _file_name, _dry_run, _status, 'title', _merge_rule, _counts,
+         coalesce(jsonb_agg(entry - 'data' ORDER BY (entry ->> 'row')::INTEGER), '[]'), _failure
+  FROM unnest(_plan) AS entry
+  RETURNING id INTO _job_id;
+
+  RETURN jsonb_build_object(
+    'job_id', _job_id,
+    'status', _status,
+    'dry_run', _dry_run,
+    'error_message', _failure,
+    'summary', _counts,
+    'results', (SELECT results FROM public.import_jobs WHERE id = _job_id)
+  );
+END;
+$$;
+
+-- Project allocations are keyed by the talent's email and the project name, plus the start date
+-- when one is given, so a new phase of the same project becomes a separate allocation.
+-- Only existing employees can be allocated.
+CREATE OR REPLACE FUNCTION public.import_employee_projects(
+  _rows JSONB,
+  _merge_rule TEXT DEFAULT 'fill_empty',
+  _dry_run BOOLEAN DEFAULT true,
+  _file_name TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _org UUID := public.current_organization_id();
+  _plan JSONB[] := '{}';
+  _seen_keys JSONB := '{}';
+  _source_row JSONB;
+  _position BIGINT;
+  _row_number INTEGER;
+  _messages TEXT[];
+  _fields TEXT[];
+  _action TEXT;
+  _key TEXT;
+  _email TEXT;
+  _value TEXT;
+  _utilization INTEGER;
+  _start_date DATE;
+  _release_date DATE;
+  _talent public.talent_profiles%ROWTYPE;
+  _existing public.employee_projects%ROWTYPE;
+  _data JSONB;
+  _current JSONB;
+  _field TEXT;
+  _entry JSONB;
+  _index INTEGER;
+  _created JSONB := '{}';
+  _record_id UUID;
+  _counts JSONB;
+  _status TEXT;
+  _failure TEXT;
+  _job_id UUID;
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'edit_talent') THEN
+    RAISE EXCEPTION 'Not allowed to import project allocations';
+  END IF;
+  IF _merge_rule NOT IN ('skip', 'fill_empty', 'overwrite') THEN
+    RAISE EXCEPTION 'Unsupported merge rule %', _merge_rule;
+  END IF;
+  IF jsonb_typeof(_rows) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Rows must be a JSON array';
+  END IF;
+
+  FOR _source_row, _position IN SELECT value, ordinality FROM jsonb_array_elements(_rows) WITH ORDINALITY LOOP
+    _row_number := coalesce(
+      CASE WHEN _source_row ->> '_row' ~ '^\d{1,9}$' THEN (_source_row ->> '_row')::INTEGER END,
+      _position::INTEGER + 1
+    );
+    _messages := '{}';
+    _fields := '{}';
+    _action := NULL;
+    _record_id := NULL;
+    _talent := NULL;
+
+    _email := lower(nullif(btrim(_source_row ->> 'talent_email'), ''));
+    IF _email IS NULL THEN
+      _messages := array_append(_messages, 'talent_email: Talent email is required');
+    ELSE
+      SELECT * INTO _talent
+      FROM public.talent_profiles
+      WHERE lower(email) = _email AND organization_id = _org;
+
+      IF _talent.id IS NULL THEN
+        _messages := array_append(_messages, format('talent_email: no talent profile with email %s', _email));
+      ELSIF NOT public.can_edit_talent(auth.uid(), _talent.id) THEN
+        _messages := array_append(_messages, 'talent_email: not allowed to edit this talent profile');
+      ELSIF coalesce(_talent.talent_type, 'prospect') <> 'existing' THEN
+        _messages := array_append(_messages, 'talent_email: only existing employees can be allocated to projects');
+      END IF;
+    END IF;
+
+    IF nullif(btrim(_source_row ->> 'project_name'), '') IS NULL THEN
+      _messages := array_append(_messages, 'project_name: Project name is required');
+    END IF;
+
+    _utilization := NULL;
+    _value := nullif(btrim(_source_row ->> 'utilization_percentage'), '');
+    IF _value ~ '^\d+(\.\d+)?$' AND _value::NUMERIC <= 100 THEN
+      _utilization := round(_value::NUMERIC);
+    ELSIF _value IS NOT NULL THEN
+      _messages := array_append(_messages, 'utilization_percentage: must be a percentage from 0 to 100');
+    END IF;
+
+    _start_date := NULL;
+    _release_date := NULL;
+    BEGIN
+      _start_date := nullif(btrim(_source_row ->> 'start_date'), '')::DATE;
+    EXCEPTION WHEN others THEN
+      _messages := array_append(_messages, 'start_date: must be a date (YYYY-MM-DD)');
+    END;
+    BEGIN
+      _release_date := nullif(btrim(_source_row ->> 'release_date'), '')::DATE;
+    EXCEPTION WHEN others THEN
+      _messages := array_append(_messages, 'release_date: must be a date (YYYY-MM-DD)');
+    END;
+    IF _release_date < _start_date THEN
+      _messages := array_append(_messages, 'release_date: must not be before start_date');
+    END IF;
+
+    _data := jsonb_strip_nulls(jsonb_build_object(
+      'project_name', nullif(btrim(_source_row ->> 'project_name'), ''),
+      'reporting_manager', nullif(btrim(_source_row ->> 'reporting_manager'), ''),
+      'utilization_percentage', _utilization,
+      'start_date', _start_date,
+      'release_date', _release_date
+    ));
+    _key := concat_ws(' / ', _email, lower(_data ->> 'project_name'), _start_date);
+
+    IF cardinality(_messages) > 0 THEN
+      _action := 'error';
+    ELSIF _seen_keys ? _key THEN
+      _action := 'duplicate';
+      _messages := array_append(_messages, format('Same allocation as row %s; skipped', _seen_keys ->> _key));
+    ELSE
+      _seen_keys := _seen_keys || jsonb_build_object(_key, _row_number);
+
+      SELECT * INTO _existing
+      FROM public.employee_projects
+      WHERE talent_profile_id = _talent.id
+        AND lower(btrim(project_name)) = lower(_data ->> 'project_name')
+        AND (_start_date IS NULL OR start_date = _start_date)
+      ORDER BY start_date DESC NULLS LAST, created_at DESC
+      LIMIT 1;
+
+      IF _existing.id IS NULL THEN
+        IF NOT (_data ? 'reporting_manager' AND _data ? 'utilization_percentage') THEN
+          _action := 'error';
+          _messages := array_append(_messages, 'reporting_manager and utilization_percentage are required for new allocations');
+        ELSE
+          _action := 'create';
+          SELECT array_agg(key ORDER BY key) INTO _fields FROM jsonb_object_keys(_data) AS key;
+        END IF;
+      ELSIF _merge_rule = 'skip' THEN
+        _action := 'duplicate';
+        _record_id := _existing.id;
+        _messages := array_append(_messages, 'Already allocated; skipped');
+      ELSE
+        _record_id := _existing.id;
+        _current := to_jsonb(_existing);
+
+        FOR _field IN SELECT jsonb_object_keys(_data) LOOP
+          CONTINUE WHEN _field = 'project_name';
+          IF _merge_rule = 'overwrite' THEN
+            IF _current -> _field IS DISTINCT FROM _data -> _field THEN
+              _fields := array_append(_fields, _field);
+            END IF;
+          ELSIF coalesce(_current ->> _field, '') = '' THEN
+            _fields := array_append(_fields, _field);
+          END IF;
+        END LOOP;
+
+        _action := CASE WHEN cardinality(_fields) > 0 THEN 'update' ELSE 'duplicate' END;
+        IF _action = 'duplicate' THEN
+          _messages := array_append(_messages, 'Already allocated with the same details');
+        END IF;
+      END IF;
+    END IF;
+
+    _plan := array_append(_plan, jsonb_build_object(
+      'row', _row_number,
+      'action', _action,
+      'key', _key,
+      'record_id', _record_id,
+      'talent_profile_id', _talent.id,
+      'fields', to_jsonb(coalesce(_fields, '{}')),
+      'messages', to_jsonb(_messages),
+      'data', _data
+    ));
+  END LOOP;
+
+  SELECT jsonb_build_object(
+    'total', count(*),
+    'create', count(*) FILTER (WHERE entry ->> 'action' = 'create'),
+    'update', count(*) FILTER (WHERE entry ->> 'action' = 'update'),
+    'duplicate', count(*) FILTER (WHERE entry ->> 'action' = 'duplicate'),
+    'error', count(*) FILTER (WHERE entry ->> 'action' = 'error')
+  ) INTO _counts
+  FROM unnest(_plan) AS entry;
+
+  IF _dry_run THEN
+    _status := 'previewed';
+  ELSIF (_counts ->> 'error')::INTEGER > 0 THEN
+    _status := 'failed';
+    _failure := format('%s rows have errors; nothing was imported', _counts ->> 'error');
+  ELSE
+    _status := 'completed';
+
+    BEGIN
+      FOR _index IN 1 .. coalesce(array_length(_plan, 1), 0) LOOP
+        _entry := _plan[_index];
+        CONTINUE WHEN _entry ->> 'action' NOT IN ('create', 'update');
+
+        _data := _entry -> 'data';
+        _fields := ARRAY(SELECT jsonb_array_elements_text(_entry -> 'fields'));
+
+        IF _entry ->> 'action' = 'create' THEN
+          INSERT INTO public.employee_projects (
+            talent_profile_id, project_name, reporting_manager, utilization_percentage, start_date, release_date
+          )
+          VALUES (
+            (_entry ->> 'talent_profile_id')::UUID, _data ->> 'project_name', _data ->> 'reporting_manager',
+            (_data ->> 'utilization_percentage')::INTEGER,
+            coalesce((_data ->> 'start_date')::DATE, CURRENT_DATE), (_data ->> 'release_date')::DATE
+          )
+          RETURNING id INTO _record_id;
+
+          _created := _created || jsonb_build_object(_index::TEXT, _record_id);
+        ELSE
+          UPDATE public.employee_projects
+          SET reporting_manager = CASE WHEN 'reporting_manager' = ANY (_fields)
+                THEN _data ->> 'reporting_manager' ELSE reporting_manager END,
+              utilization_percentage = CASE WHEN 'utilization_percentage' = ANY (_fields)
+                THEN (_data ->> 'utilization_percentage')::INTEGER ELSE utilization_percentage END,
+              start_date = CASE WHEN 'start_date' = ANY (_fields) THEN (_data ->> 'start_date')::DATE ELSE start_date END,
+              release_date = CASE WHEN 'release_date' = ANY (_fields)
+                THEN (_data ->> 'release_date')::DATE ELSE release_date END,
+              updated_at = now()
+          WHERE id = (_entry ->> 'record_id')::UUID;
+        END IF;
+      END LOOP;
+    EXCEPTION WHEN others THEN
+      -- The report is shown to users, so the database error only goes to the log
+      RAISE LOG 'import_employee_projects failed: % (%)', SQLERRM, SQLSTATE;
+      _status := 'failed';
+      _failure := 'The rows could not be saved; nothing was imported';
+    END;
+
+    IF _status = 'completed' THEN
+      FOR _index IN SELECT key::INTEGER FROM jsonb_object_keys(_created) AS key LOOP
+        _plan[_index] := _plan[_index] || jsonb_build_object('record_id', _created ->> _index::TEXT);
+      END LOOP;
+    END IF;
+  END IF;
+
+  INSERT INTO public.import_jobs (
+    organization_id, entity, file_name, dry_run, status, match_key, merge_rule, summary, results, error_message
+  )
+  SELECT _org, 'Allocation', _file_name, _dry_run, _status, 'talent_email, project_name, start_date', _merge_rule, _counts,
+         coalesce(jsonb_agg(entry - 'data' ORDER BY (entry ->> 'row')::INTEGER), '[]'), _failure
+  FROM unnest(_plan) AS entry
+  RETURNING id INTO _job_id;
+
+  RETURN jsonb_build_object(
+    'job_id', _job_id,
+    'status', _status,
+    'dry_run', _dry_run,
+    'error_message', _failure,
+    'summary', _counts,
+    'results', (SELECT results FROM public.import_jobs WHERE id = _job_id)
+  );
+END;
+$$;
+
+-- Catalog skills are matched on their name. parent_skill may name a skill already in the catalog
+-- or one created by the same file; aliases are only ever added, never removed. The catalog is
+-- shared by every organization, so only global admins import into it.
+CREATE OR REPLACE FUNCTION public.import_skills(
+  _rows JSONB,
+  _merge_rule TEXT DEFAULT 'fill_empty',
+  _dry_run BOOLEAN DEFAULT true,
+  _file_name TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _org UUID := public.current_organization_id();
+  _plan JSONB[] := '{}';
+  _seen_keys JSONB := '{}';
+  _file_names TEXT[];
+  _source_row JSONB;
+  _position BIGINT;
+  _row_number INTEGER;
+  _messages TEXT[];
+  _fields TEXT[];
+  _action TEXT;
+  _key TEXT;
+  _value TEXT;
+  _aliases TEXT[];
+  _alias TEXT;
+  _owner TEXT;
+  _existing public.skills%ROWTYPE;
+  _data JSONB;
+  _current JSONB;
+  _field TEXT;
+  _entry JSONB;
+  _index INTEGER;
+  _created JSONB := '{}';
+  _record_id UUID;
+  _counts JSONB;
+  _status TEXT;
+  _failure TEXT;
+  _job_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not allowed to import skills';
+  END IF;
+  IF _merge_rule NOT IN ('skip', 'fill_empty', 'overwrite') THEN
+    RAISE EXCEPTION 'Unsupported merge rule %', _merge_rule;
+  END IF;
+  IF jsonb_typeof(_rows) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Rows must be a JSON array';
+  END IF;
+
+  -- Parents may be defined further down the file
+  _file_names := ARRAY(
+    SELECT DISTINCT lower(btrim(value ->> 'name'))
+    FROM jsonb_array_elements(_rows)
+    WHERE nullif(btrim(value ->> 'name'), '') IS NOT NULL
+  );
+
+  FOR _source_row, _position IN SELECT value, ordinality FROM jsonb_array_elements(_rows) WITH ORDINALITY LOOP
+    _row_number := coalesce(
+      CASE WHEN _source_row ->> '_row' ~ '^\d{1,9}$' THEN (_source_row ->> '_row')::INTEGER END,
+      _position::INTEGER + 1
+    );
+    _messages := '{}';
+    _fields := '{}';
+    _action := NULL;
+    _record_id := NULL;
+
+    _key := lower(nullif(btrim(_source_row ->> 'name'), ''));
+    IF _key IS NULL THEN
+      _messages := array_append(_messages, 'name: Skill name is required');
+    ELSE
+      SELECT s.name INTO _owner
+      FROM public.skill_aliases a
+      JOIN public.skills s ON s.id = a.skill_id
+      WHERE lower(a.alias) = _key;
+
+      IF _owner IS NOT NULL THEN
+        _messages := array_append(_messages, format('name: already an alias of %s', _owner));
+      END IF;
+    END IF;
+
+    _value := lower(nullif(btrim(_source_row ->> 'category'), ''));
+    IF _value IS NOT NULL AND NOT _value = ANY (enum_range(NULL::public.skill_category)::TEXT[]) THEN
+      _messages := array_append(_messages, format('category: "%s" is not one of %s',
+        _value, array_to_string(enum_range(NULL::public.skill_category)::TEXT[], ', ')));
+    END IF;
+
+    _value := nullif(btrim(_source_row ->> 'parent_skill'), '');
+    IF _value IS NOT NULL THEN
+      IF lower(_value) = _key THEN
+        _messages := array_append(_messages, 'parent_skill: a skill cannot be its own parent');
+      ELSIF NOT lower(_value) = ANY (_file_names)
+         AND NOT EXISTS (SELECT 1 FROM public.skills WHERE lower(name) = lower(_value)) THEN
+        _messages := array_append(_messages, format('parent_skill: "%s" is not in the catalog or this file', _value));
+      END IF;
+    END IF;
+
+    _aliases := ARRAY(
+      SELECT DISTINCT ON (lower(btrim(item))) btrim(item)
+      FROM unnest(string_to_array(coalesce(_source_row ->> 'aliases', ''), ',')) AS item
+      WHERE btrim(item) <> '' AND lower(btrim(item)) IS DISTINCT FROM _key
+      ORDER BY lower(btrim(item))
+    );
+    FOREACH _alias IN ARRAY _aliases LOOP
+      _owner := NULL;
+      SELECT s.name INTO _owner
+      FROM public.skills s
+      WHERE lower(s.name) = lower(_alias)
+         OR s.id IN (SELECT skill_id FROM public.skill_aliases WHERE lower(alias) = lower(_alias))
+      LIMIT 1;
+
+      IF _owner IS NOT NULL AND lower(_owner) IS DISTINCT FROM _key THEN
+        _messages := array_append(_messages, format('aliases: "%s" already belongs to %s', _alias, _owner));
+      ELSIF lower(_alias) = ANY (_file_names) THEN
+        _messages := array_append(_messages, format('aliases: "%s" is a skill name in this file', _alias));
+      END IF;
+    END LOOP;
+
+    _data := jsonb_strip_nulls(jsonb_build_object(
+      'name', nullif(btrim(_source_row ->> 'name'), ''),
+      'category', lower(nullif(btrim(_source_row ->> 'category'), '')),
+      'description', nullif(btrim(_source_row ->> 'description'), ''),
+      'parent_skill', nullif(btrim(_source_row ->> 'parent_skill'), ''),
+      'aliases', CASE WHEN cardinality(_aliases) > 0 THEN to_jsonb(_aliases) END
+    ));
+
+    IF cardinality(_messages) > 0 THEN
+      _action := 'error';
+    ELSIF _seen_keys ? _key THEN
+      _action := 'duplicate';
+      _messages := array_append(_messages, format('Same name as row %s; skipped', _seen_keys ->> _key));
+    ELSE
+      _seen_keys := _seen_keys || jsonb_build_object(_key, _row_number);
+
+      SELECT * INTO _existing FROM public.skills WHERE lower(name) = _key;
+
+      IF _existing.id IS NULL THEN
+        _action := 'create';
+        SELECT array_agg(key ORDER BY key) INTO _fields FROM jsonb_object_keys(_data) AS key;
+      ELSIF _merge_rule = 'skip' THEN
+        _action := 'duplicate';
+        _record_id := _existing.id;
+        _messages := array_append(_messages, 'Already in the catalog; skipped');
+      ELSE
+        _record_id := _existing.id;
+        _current := to_jsonb(_existing) || jsonb_build_object('parent_skill', (
+          SELECT name FROM public.skills WHERE id = _existing.parent_skill_id
+        ));
+
+        FOR _field IN SELECT jsonb_object_keys(_data) LOOP
+          CONTINUE WHEN _field IN ('name', 'aliases');
+          IF _merge_rule = 'overwrite' THEN
+            IF lower(_current ->> _field) IS DISTINCT FROM lower(_data ->> _field) THEN
+              _fields := array_append(_fields, _field);
+            END IF;
+          ELSIF coalesce(_current ->> _field, '') = '' THEN
+            _fields := array_append(_fields, _field);
+          END IF;
+        END LOOP;
+
+        IF EXISTS (
+          SELECT 1 FROM jsonb_array_elements_text(coalesce(_data -> 'aliases', '[]')) AS item(new_alias)
+          WHERE NOT EXISTS (
+            SELECT 1 FROM public.skill_aliases a WHERE a.skill_id = _existing.id AND lower(a.alias) = lower(item.new_alias)
+          )
+        ) THEN
+          _fields := array_append(_fields, 'aliases');
+        END IF;
+
+        _action := CASE WHEN cardinality(_fields) > 0 THEN 'update' ELSE 'duplicate' END;
+        IF _action = 'duplicate' THEN
+          _messages := array_append(_messages, 'Already in the catalog with the same details');
+        END IF;
+      END IF;
+    END IF;
+
+    IF _action = 'create' AND NOT _data ? 'category' THEN
+      _action := 'error';
+      _fields := '{}';
+      _messages := array_append(_messages, 'category: required for new skills');
+    END IF;
+
+    _plan := array_append(_plan, jsonb_build_object(
+      'row', _row_number,
+      'action', _action,
+      'key', _key,
+      'record_id', _record_id,
+      'fields', to_jsonb(coalesce(_fields, '{}')),
+      'messages', to_jsonb(_messages),
+      'data', _data
+    ));
+  END LOOP;
+
+  SELECT jsonb_build_object(
+    'total', count(*),
+    'create', count(*) FILTER (WHERE entry ->> 'action' = 'create'),
+    'update', count(*) FILTER (WHERE entry ->> 'action' = 'update'),
+    'duplicate', count(*) FILTER (WHERE entry ->> 'action' = 'duplicate'),
+    'error', count(*) FILTER (WHERE entry ->> 'action' = 'error')
+  ) INTO _counts
+  FROM unnest(_plan) AS entry;
+
+  IF _dry_run THEN
+    _status := 'previewed';
+  ELSIF (_counts ->> 'error')::INTEGER > 0 THEN
+    _status := 'failed';
+    _failure := format('%s rows have errors; nothing was imported', _counts ->> 'error');
+  ELSE
+    _status := 'completed';
+
+    BEGIN
+      -- Skills first, so parents created by the file exist before anything points at them
+      FOR _index IN 1 .. coalesce(array_length(_plan, 1), 0) LOOP
+        _entry := _plan[_index];
+        CONTINUE WHEN _entry ->> 'action' NOT IN ('create', 'update');
+
+        _data := _entry -> 'data';
+        _fields := ARRAY(SELECT jsonb_array_elements_text(_entry -> 'fields'));
+
+        IF _entry ->> 'action' = 'create' THEN
+          INSERT INTO public.skills (name, category, description)
+          VALUES (_data ->> 'name', (_data ->> 'category')::public.skill_category, _data ->> 'description')
+          RETURNING id INTO _record_id;
+
+          _created := _created || jsonb_build_object(_index::TEXT, _record_id);
+        ELSE
+          _record_id := (_entry ->> 'record_id')::UUID;
+
+          UPDATE public.skills
+          SET category = CASE WHEN 'category' = ANY (_fields)
+                THEN (_data ->> 'category')::public.skill_category ELSE category END,
+              description = CASE WHEN 'description' = ANY (_fields) THEN _data ->> 'description' ELSE description END
+          WHERE id = _record_id;
+        END IF;
+
+        IF 'aliases' = ANY (_fields) THEN
+          INSERT INTO public.skill_aliases (skill_id, alias)
+          SELECT _record_id, item.new_alias
+          FROM jsonb_array_elements_text(_data -> 'aliases') AS item(new_alias)
+          WHERE NOT EXISTS (
+            SELECT 1 FROM public.skill_aliases a WHERE a.skill_id = _record_id AND lower(a.alias) = lower(item.new_alias)
+          );
+        END IF;
+      END LOOP;
+
+      FOR _index IN 1 .. coalesce(array_length(_plan, 1), 0) LOOP
+        _entry := _plan[_index];
+        CONTINUE WHEN NOT _entry -> 'fields' ? 'parent_skill';
+
+        UPDATE public.skills
+        SET parent_skill_id = (
+          SELECT id FROM public.skills WHERE lower(name) = lower(_entry -> 'data' ->> 'parent_skill')
+        )
+        WHERE id = coalesce((_entry ->> 'record_id')::UUID, (_created ->> _index::TEXT)::UUID);
+      END LOOP;
+    EXCEPTION WHEN others THEN
+      -- The report is shown to users, so the database error only goes to the log
+      RAISE LOG 'import_skills failed: % (%)', SQLERRM, SQLSTATE;
+      _status := 'failed';
+      _failure := 'The rows could not be saved; nothing was imported';
+    END;
+
+    IF _status = 'completed' THEN
+      FOR _index IN SELECT key::INTEGER FROM jsonb_object_keys(_created) AS key LOOP
+        _plan[_index] := _plan[_index] || jsonb_build_object('record_id', _created ->> _index::TEXT);
+      END LOOP;
+    END IF;
+  END IF;
+
+  INSERT INTO public.import_jobs (
+    organization_id, entity, file_name, dry_run, status, match_key, merge_rule, summary, results, error_message
+  )
+  SELECT _org, 'Skill', _file_name, _dry_run, _status, 'name', _merge_rule, _counts,
+         coalesce(jsonb_agg(entry - 'data' ORDER BY (entry ->> 'row')::INTEGER), '[]'), _failure
+  FROM unnest(_plan) AS entry
+  RETURNING id INTO _job_id;
+
+  RETURN jsonb_build_object(
+    'job_id', _job_id,
+    'status', _status,
+    'dry_run', _dry_run,
+    'error_message', _failure,
+    'summary', _counts,
+    'results', (SELECT results FROM public.import_jobs WHERE id = _job_id)
+  );
+END;
+$$;
@@ -0,0 +1,174 @@
+-- Resume files for talent profiles. The originals live in the private "resumes" bucket under
+-- <talent_profile_id>/<file>, are read through signed URLs only, and every upload becomes a new
+-- version in talent_resumes. talent_profiles.resume_url stays the free-form link from the form.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'resumes',
+  'resumes',
+  false,
+  10485760,
+  ARRAY[
+    'text/plain',
+    'application/pdf',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/msword',
+    'application/rtf',
+    'text/rtf',
+    'application/vnd.oasis.opendocument.text',
+    'image/png',
+    'image/jpeg',
+    'application/octet-stream'
+  ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE public.talent_resumes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  talent_profile_id UUID NOT NULL REFERENCES public.talent_profiles(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  mime_type TEXT,
+  size_bytes BIGINT,
+  -- Normalized text from the upload, so re-parsing doesn't have to extract (or OCR) it again
+  extracted_text TEXT,
+  uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(talent_profile_id, version_number)
+);
+
+CREATE INDEX idx_talent_resumes_profile ON public.talent_resumes(talent_profile_id, version_number DESC);
+
+ALTER TABLE public.talent_resumes ENABLE ROW LEVEL SECURITY;
+
+-- Who may add resumes to a profile: the same people who may record its versions
+CREATE OR REPLACE FUNCTION public.can_upload_talent_resume(_user_id UUID, _talent_profile_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.can_edit_talent(_user_id, _talent_profile_id)
+    OR EXISTS (
+      SELECT 1 FROM public.talent_profiles t
+      WHERE t.id = _talent_profile_id
+        AND public.is_org_member(_user_id, t.organization_id)
+        AND (lower(t.email) = lower(auth.jwt() ->> 'email')
+          OR t.referred_by IN (SELECT id FROM public.users WHERE user_id = _user_id))
+    );
+$$;
+
+-- The talent profile a resume object belongs to, from the first folder of its path. NULL for
+-- anything that isn't laid out as <uuid>/<file>, which no policy below lets through.
+CREATE OR REPLACE FUNCTION public.resume_object_talent_profile_id(_name TEXT)
+RETURNS UUID
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN split_part(_name, '/', 1) ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    THEN split_part(_name, '/', 1)::UUID
+  END;
+$$;
+
+-- Whether a file was stored under a resume path, whoever is asking
+CREATE OR REPLACE FUNCTION public.resume_object_exists(_name TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM storage.objects WHERE bucket_id = 'resumes' AND name = _name);
+$$;
+
+-- Signed-in users only: it backs the talent_resumes policies and nothing else needs it
+REVOKE EXECUTE ON FUNCTION public.resume_object_exists(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.resume_object_exists(TEXT) TO authenticated;
+
+-- Versions are numbered per profile as they are inserted
+CREATE OR REPLACE FUNCTION public.set_talent_resume_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Serialize concurrent uploads for the same profile
+  PERFORM 1 FROM public.talent_profiles WHERE id = NEW.talent_profile_id FOR UPDATE;
+
+  SELECT coalesce(max(version_number), 0) + 1 INTO NEW.version_number
+  FROM public.talent_resumes
+  WHERE talent_profile_id = NEW.talent_profile_id;
+
+  NEW.uploaded_by := auth.uid();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_talent_resume_version
+  BEFORE INSERT ON public.talent_resumes
+  FOR EACH ROW EXECUTE FUNCTION public.set_talent_resume_version();
+
+-- The row is written before its file, so a version whose upload failed or is still running has no
+-- file yet; it stays hidden rather than showing up as a broken resume
+CREATE POLICY "Resumes follow talent profile visibility" ON public.talent_resumes
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.talent_profiles tp WHERE tp.id = talent_profile_id)
+    AND public.resume_object_exists(storage_path)
+  );
+
+CREATE POLICY "Uploaders can add resume versions" ON public.talent_resumes
+  FOR INSERT WITH CHECK (
+    public.can_upload_talent_resume(auth.uid(), talent_profile_id)
+    AND public.resume_object_talent_profile_id(storage_path) = talent_profile_id
+  );
+
+CREATE POLICY "Managers can delete resumes of talent they can edit" ON public.talent_resumes
+  FOR DELETE USING (public.can_edit_talent(auth.uid(), talent_profile_id));
+
+-- An uploader whose file upload failed takes back the version row they wrote for it. The row is
+-- hidden from them by then, so this can't be a delete policy.
+CREATE OR REPLACE FUNCTION public.withdraw_talent_resume(_storage_path TEXT)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.talent_resumes
+  WHERE storage_path = _storage_path
+    AND uploaded_by = auth.uid()
+    AND NOT public.resume_object_exists(_storage_path);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.withdraw_talent_resume(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.withdraw_talent_resume(TEXT) TO authenticated;
+
+CREATE POLICY "Tenant isolation" ON public.talent_resumes AS RESTRICTIVE
+  FOR ALL USING (public.is_org_member(auth.uid(), public.talent_profile_organization(talent_profile_id)))
+  WITH CHECK (public.is_org_member(auth.uid(), public.talent_profile_organization(talent_profile_id)));
+
+-- Storage objects. Reads go through the caller's own talent_profiles policies, so whoever can see
+-- a profile can open its resumes; nobody can list or read another organization's folders.
+CREATE POLICY "Resume files follow talent profile visibility" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'resumes'
+    AND EXISTS (
+      SELECT 1 FROM public.talent_profiles tp
+      WHERE tp.id = public.resume_object_talent_profile_id(name)
+    )
+  );
+
+CREATE POLICY "Uploaders can add resume files" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'resumes'
+    AND public.can_upload_talent_resume(auth.uid(), public.resume_object_talent_profile_id(name))
+  );
+
+CREATE POLICY "Managers can delete resume files of talent they can edit" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'resumes'
+    AND public.can_edit_talent(auth.uid(), public.resume_object_talent_profile_id(name))
+  );
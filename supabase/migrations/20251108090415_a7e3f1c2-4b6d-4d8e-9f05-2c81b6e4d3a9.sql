@@ -0,0 +1,162 @@
+-- Draft talent profiles from batch resume ingestion. Every parsed resume becomes a profile with
+-- review_status 'draft' that stays out of the talent pool, matching and the talent's own view until
+-- someone who can edit talent approves it.
+ALTER TABLE public.talent_profiles
+  ADD COLUMN review_status TEXT NOT NULL DEFAULT 'approved' CHECK (review_status IN ('draft', 'approved'));
+
+CREATE INDEX idx_talent_profiles_drafts ON public.talent_profiles(organization_id, created_at DESC)
+  WHERE review_status = 'draft';
+
+-- Drafts may repeat an existing email (spotting that is what the review is for) or have none yet.
+-- Approved profiles keep their emails unique.
+ALTER TABLE public.talent_profiles DROP CONSTRAINT talent_profiles_email_unique;
+CREATE UNIQUE INDEX talent_profiles_email_unique ON public.talent_profiles(email)
+  WHERE review_status = 'approved';
+
+CREATE POLICY "Drafts are only visible to talent editors" ON public.talent_profiles AS RESTRICTIVE
+  FOR SELECT USING (review_status = 'approved' OR public.has_permission(auth.uid(), 'edit_talent'));
+
+-- Discarding a draft is part of reviewing it, so it doesn't need delete_records
+CREATE POLICY "Talent editors can discard drafts" ON public.talent_profiles
+  FOR DELETE USING (review_status = 'draft' AND public.can_edit_talent(auth.uid(), id));
+
+-- Only approve_talent_drafts turns a draft into a profile, and approved profiles can't go back
+CREATE OR REPLACE FUNCTION public.protect_talent_review_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.review_status IS DISTINCT FROM OLD.review_status
+     AND coalesce(current_setting('app.approving_talent_drafts', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'review_status can only be changed by approving a draft';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_talent_review_status
+  BEFORE UPDATE OF review_status ON public.talent_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_talent_review_status();
+
+-- Drafts get no version history until they are approved; approving one records its baseline
+CREATE OR REPLACE FUNCTION public.version_talent_profile_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _talent_profile_id UUID;
+  _profile public.talent_profiles%ROWTYPE;
+BEGIN
+  IF TG_TABLE_NAME = 'talent_profiles' THEN
+    _talent_profile_id := NEW.id;
+  ELSIF TG_OP = 'DELETE' THEN
+    _talent_profile_id := OLD.talent_profile_id;
+  ELSE
+    _talent_profile_id := NEW.talent_profile_id;
+  END IF;
+
+  SELECT * INTO _profile FROM public.talent_profiles WHERE id = _talent_profile_id;
+  IF NOT FOUND OR _profile.review_status = 'draft' THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM public.record_talent_profile_version(
+    _talent_profile_id,
+    CASE
+      WHEN auth.uid() IS NULL THEN 'system'
+      WHEN _profile.email = auth.jwt() ->> 'email' THEN 'self_edit'
+      ELSE 'manager_edit'
+    END
+  );
+  RETURN NULL;
+END;
+$$;
+
+-- Possible duplicates of draft profiles: other profiles (approved or draft) with the same email or
+-- the same first and last name. Runs as the caller, so it only reports profiles the caller can
+-- see; approve_talent_drafts still refuses emails taken anywhere.
+CREATE OR REPLACE FUNCTION public.talent_draft_duplicates()
+RETURNS TABLE (
+  draft_id UUID,
+  talent_profile_id UUID,
+  first_name TEXT,
+  last_name TEXT,
+  email TEXT,
+  review_status TEXT,
+  match_reason TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT d.id, t.id, t.first_name, t.last_name, t.email, t.review_status,
+         CASE WHEN btrim(d.email) <> '' AND lower(btrim(t.email)) = lower(btrim(d.email)) THEN 'email' ELSE 'name' END
+  FROM public.talent_profiles d
+  JOIN public.talent_profiles t ON t.id <> d.id AND (
+    (btrim(d.email) <> '' AND lower(btrim(t.email)) = lower(btrim(d.email)))
+    OR (
+      coalesce(btrim(d.first_name), '') <> ''
+      AND coalesce(btrim(d.last_name), '') <> ''
+      AND lower(btrim(t.first_name)) = lower(btrim(d.first_name))
+      AND lower(btrim(t.last_name)) = lower(btrim(d.last_name))
+    )
+  )
+  WHERE d.review_status = 'draft'
+  ORDER BY d.id, t.review_status, t.created_at
+$$;
+
+-- Approve drafts one by one; a draft that can't be approved is reported and left as it is.
+-- Returns [{ id, approved, message }].
+CREATE OR REPLACE FUNCTION public.approve_talent_drafts(_ids UUID[])
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _draft public.talent_profiles%ROWTYPE;
+  _id UUID;
+  _message TEXT;
+  _results JSONB := '[]';
+BEGIN
+  PERFORM set_config('app.approving_talent_drafts', 'on', true);
+
+  FOREACH _id IN ARRAY coalesce(_ids, '{}') LOOP
+    _message := NULL;
+    SELECT * INTO _draft FROM public.talent_profiles WHERE id = _id;
+
+    IF _draft.id IS NULL OR NOT public.can_edit_talent(auth.uid(), _id) THEN
+      _message := 'Not found or not allowed to edit';
+    ELSIF _draft.review_status <> 'draft' THEN
+      _message := 'Already approved';
+    ELSIF coalesce(btrim(_draft.first_name), '') = '' OR coalesce(btrim(_draft.last_name), '') = '' THEN
+      _message := 'First and last name are required';
+    ELSIF btrim(_draft.email) !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+      _message := 'A valid email is required';
+    ELSIF EXISTS (
+      SELECT 1 FROM public.talent_profiles
+      WHERE review_status = 'approved' AND lower(btrim(email)) = lower(btrim(_draft.email))
+    ) THEN
+      _message := 'Email already belongs to another talent profile';
+    END IF;
+
+    IF _message IS NULL THEN
+      UPDATE public.talent_profiles
+      SET review_status = 'approved', email = btrim(email)
+      WHERE id = _id;
+    END IF;
+
+    _results := _results || jsonb_build_array(jsonb_build_object(
+      'id', _id,
+      'approved', _message IS NULL,
+      'message', _message
+    ));
+  END LOOP;
+
+  PERFORM set_config('app.approving_talent_drafts', 'off', true);
+  RETURN _results;
+END;
+$$;
@@ -0,0 +1,37 @@
+-- How parsed resume fields fared in review. When a talent profile is saved from the parsed-resume
+-- form, every field the parser fills in gets a row saying whether the saved value differs from the
+-- parsed one and the confidence the parser gave it. The share of corrected rows, per field and over
+-- time, is the parser's accuracy; comparing it with the confidence shows whether the scores can be
+-- trusted. The values themselves are personal data and are not kept.
+CREATE TABLE public.resume_parse_feedback (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL DEFAULT public.current_organization_id()
+    REFERENCES public.organizations(id) ON DELETE CASCADE,
+  -- Kept when the profile is deleted, so accuracy figures don't change after the fact
+  talent_profile_id UUID REFERENCES public.talent_profiles(id) ON DELETE SET NULL,
+  -- talent_profiles column the parsed value was for, e.g. 'first_name'
+  field TEXT NOT NULL,
+  -- 'combined' when the AI and rule-based parsers both ran, 'rules' when only the offline one did
+  parse_source TEXT NOT NULL CHECK (parse_source IN ('combined', 'rules')),
+  corrected BOOLEAN NOT NULL,
+  confidence NUMERIC(3, 2) NOT NULL CHECK (confidence BETWEEN 0 AND 1),
+  created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_resume_parse_feedback_organization ON public.resume_parse_feedback(organization_id, created_at DESC);
+CREATE INDEX idx_resume_parse_feedback_field ON public.resume_parse_feedback(organization_id, field, created_at DESC);
+
+ALTER TABLE public.resume_parse_feedback ENABLE ROW LEVEL SECURITY;
+
+-- Anyone who can save a parsed resume (managers, and employees referring someone) records feedback
+-- as themselves; reading it back is for admins measuring the parser
+CREATE POLICY "Users can record their own parse feedback" ON public.resume_parse_feedback
+  FOR INSERT WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Admins can view parse feedback" ON public.resume_parse_feedback
+  FOR SELECT USING (public.is_org_admin(auth.uid()));
+
+CREATE POLICY "Tenant isolation" ON public.resume_parse_feedback AS RESTRICTIVE
+  FOR ALL USING (public.is_org_member(auth.uid(), organization_id))
+  WITH CHECK (public.is_org_member(auth.uid(), organization_id));